@@ -6,6 +6,12 @@ import { Input, Button, Select, SelectItem, Card, CardBody, CardHeader, Divider,
 import { Trash2, Shield, ShieldOff, Eye, EyeOff, AlertTriangle, Flag, CheckCircle2, X, ChevronDown, ChevronUp, MessageSquare, Play, RefreshCw, DollarSign, Clock, Receipt, Search, ArrowUpRight, ArrowDownLeft, Scissors, CalendarClock, Database, RotateCcw } from 'lucide-react';
 import AppNavigation from '@/components/AppNavigation';
 import SectorConfigPanel from '@/components/admin/SectorConfigPanel';
+import SectorConfigTransferPanel from '@/components/admin/SectorConfigTransferPanel';
+import SectorConfigHistoryPanel from '@/components/admin/SectorConfigHistoryPanel';
+import ProductionChainReportPanel from '@/components/admin/ProductionChainReportPanel';
+import CronJobsPanel from '@/components/admin/CronJobsPanel';
+import CorporateActionConfigPanel from '@/components/admin/CorporateActionConfigPanel';
+import ResourceReservesPanel from '@/components/admin/ResourceReservesPanel';
 import { authAPI, adminAPI, AdminUser, ReportedChat, Transaction, TransactionType, normalizeImageUrl, gameAPI, AdminGameTimeResetResponse, ProfileResponse } from '@/lib/api';
 import Link from 'next/link';
 import { calculateGameTime, GameTime } from '@/lib/gameTime';
@@ -925,6 +931,9 @@ export default function AdminPage() {
                 )}
               </div>
 
+              {/* Scheduled Jobs */}
+              <CronJobsPanel />
+
               {/* Stock Split Section */}
               <div className="border-t border-gray-200 dark:border-gray-700 pt-4 mt-4">
                 <h3 className="text-sm font-semibold text-gray-700 dark:text-gray-300 mb-3">Force Stock Split</h3>
@@ -2016,6 +2025,21 @@ export default function AdminPage() {
             <div className="space-y-6">
           {/* Sector Configuration Section */}
           <SectorConfigPanel />
+
+          {/* Sector Configuration Import/Export Section */}
+          <SectorConfigTransferPanel />
+
+          {/* Sector Configuration History Section */}
+          <SectorConfigHistoryPanel />
+
+          {/* Production Chain Analysis Section */}
+          <ProductionChainReportPanel />
+
+          {/* Corporate Action Catalogue Section */}
+          <CorporateActionConfigPanel />
+
+          {/* Resource Reserves Section */}
+          <ResourceReservesPanel />
             </div>
           )}
         </div>
@@ -14,10 +14,53 @@ import { UserModel } from '@/lib/models/User';
 // I will create the lib/cron/actions.ts file now as part of this step, 
 // so this route can import it.
 
-import { triggerActionsIncrement, triggerMarketRevenue, triggerCeoSalaries, triggerDividends, triggerPriceHistoryRecording } from '@/lib/cron/actions';
+import { CRON_JOBS, getCronJob } from '@/lib/cron/actions';
+import { runJobNow, rerunCronRun, CronRunnerError } from '@/lib/cron/runner';
+import { CronRunModel, CronRunStatus } from '@/lib/models/CronRun';
 import { getErrorMessage } from '@/lib/utils';
 import { connectMongo } from '@/lib/db/mongo';
 
+const RUN_STATUSES: CronRunStatus[] = ['running', 'succeeded', 'failed'];
+
+// GET /api/admin/cron/trigger - Cron jobs and their run history
+export async function GET(req: NextRequest) {
+  try {
+    await connectMongo();
+    const userId = await getAuthUserId(req);
+    if (!userId) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const user = await UserModel.findById(userId);
+    if (!user || !user.is_admin) {
+      return NextResponse.json({ error: 'Forbidden' }, { status: 403 });
+    }
+
+    const { searchParams } = new URL(req.url);
+    const job = searchParams.get('job') || undefined;
+    const status = searchParams.get('status') as CronRunStatus | null;
+    const limit = Math.min(parseInt(searchParams.get('limit') || '50', 10) || 50, 200);
+
+    if (job && !getCronJob(job)) {
+      return NextResponse.json({ error: 'Invalid job' }, { status: 400 });
+    }
+    if (status && !RUN_STATUSES.includes(status)) {
+      return NextResponse.json({ error: 'Invalid status' }, { status: 400 });
+    }
+
+    const runs = await CronRunModel.findRecent({ job, status: status || undefined, limit });
+
+    return NextResponse.json({
+      jobs: CRON_JOBS.map(j => ({ name: j.name, label: j.label, schedule: j.schedule, backfill: j.backfill })),
+      runs,
+    });
+  } catch (error: unknown) {
+    console.error('Cron history error:', error);
+    return NextResponse.json({ error: getErrorMessage(error, 'Failed to fetch cron history') }, { status: 500 });
+  }
+}
+
+// POST /api/admin/cron/trigger - Run a job now ({ type }) or re-run an earlier run ({ run_id, force })
 export async function POST(req: NextRequest) {
   try {
     await connectMongo();
@@ -31,27 +74,33 @@ export async function POST(req: NextRequest) {
       return NextResponse.json({ error: 'Forbidden' }, { status: 403 });
     }
 
-    const { type } = await req.json();
-
-    if (type === 'actions') {
-      await triggerActionsIncrement();
-      return NextResponse.json({ message: 'Actions increment triggered' });
-    } else if (type === 'market') {
-      await triggerMarketRevenue();
-      return NextResponse.json({ message: 'Market revenue triggered' });
-    } else if (type === 'salaries') {
-      await triggerCeoSalaries();
-      return NextResponse.json({ message: 'CEO salaries triggered' });
-    } else if (type === 'dividends') {
-      await triggerDividends();
-      return NextResponse.json({ message: 'Dividends triggered' });
-    } else if (type === 'prices') {
-      const result = await triggerPriceHistoryRecording();
-      return NextResponse.json({ message: 'Price history recorded', ...result });
+    const { type, run_id, force } = await req.json();
+
+    let run;
+    if (run_id !== undefined) {
+      const runId = parseInt(String(run_id), 10);
+      if (isNaN(runId)) {
+        return NextResponse.json({ error: 'Invalid run ID' }, { status: 400 });
+      }
+      run = await rerunCronRun(CRON_JOBS, runId, userId, force === true);
     } else {
-      return NextResponse.json({ error: 'Invalid trigger type. Valid: actions, market, salaries, dividends, prices' }, { status: 400 });
+      const job = getCronJob(type);
+      if (!job) {
+        return NextResponse.json({ error: `Invalid trigger type. Valid: ${CRON_JOBS.map(j => j.name).join(', ')}` }, { status: 400 });
+      }
+      run = await runJobNow(job, userId);
+    }
+
+    if (run.status === 'failed') {
+      return NextResponse.json({ error: run.error || 'Cron job failed', run }, { status: 500 });
     }
+
+    const label = getCronJob(run.job)?.label ?? run.job;
+    return NextResponse.json({ message: `${label} triggered`, ...run.result, run });
   } catch (error: unknown) {
+    if (error instanceof CronRunnerError) {
+      return NextResponse.json({ error: error.message }, { status: 400 });
+    }
     console.error('Cron trigger error:', error);
     return NextResponse.json({ error: getErrorMessage(error, 'Failed to trigger cron') }, { status: 500 });
   }
@@ -0,0 +1,68 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { requireAdmin } from '@/lib/auth';
+import { connectMongo } from '@/lib/db/mongo';
+import { StateResourceReserveModel } from '@/lib/models/StateResourceReserve';
+import { ResourceReserveService } from '@/lib/services/ResourceReserveService';
+import { AdminResourceReservesSchema } from '@/lib/validations/reserves';
+import { isValidStateCode } from '@/lib/constants/sectors';
+import { calculateReserveYield, getReserveCapacity } from '@/lib/constants/reserves';
+import { getErrorMessage } from '@/lib/utils';
+
+// GET - Every state resource reserve
+export async function GET(req: NextRequest) {
+  try {
+    await connectMongo();
+    await requireAdmin(req);
+
+    const reserves = await StateResourceReserveModel.findAll();
+    return NextResponse.json({
+      reserves: reserves.map(reserve => {
+        const capacity = getReserveCapacity(reserve);
+        return { ...reserve, capacity, yield: calculateReserveYield(reserve.remaining, capacity) };
+      }),
+    });
+  } catch (error: unknown) {
+    const errorMessage = getErrorMessage(error);
+    if (errorMessage === 'Unauthorized' || errorMessage === 'Forbidden') {
+      return NextResponse.json({ error: errorMessage }, { status: 401 });
+    }
+    console.error('Failed to get resource reserves:', error);
+    return NextResponse.json({ error: getErrorMessage(error, 'Failed to get resource reserves') }, { status: 500 });
+  }
+}
+
+// POST - Seed missing reserves, or regenerate existing ones
+export async function POST(req: NextRequest) {
+  try {
+    await connectMongo();
+    await requireAdmin(req);
+
+    const body = await req.json();
+    const validation = AdminResourceReservesSchema.safeParse(body);
+    if (!validation.success) {
+      return NextResponse.json({ error: 'Validation failed', details: validation.error.issues }, { status: 400 });
+    }
+
+    const { action, stateCode, resource, amount } = validation.data;
+    if (stateCode && !isValidStateCode(stateCode)) {
+      return NextResponse.json({ error: 'Invalid state code' }, { status: 400 });
+    }
+
+    if (action === 'seed') {
+      const seeded = await ResourceReserveService.seed();
+      console.log(`[Admin] Seeded ${seeded} resource reserves`);
+      return NextResponse.json({ success: true, seeded, message: `Seeded ${seeded} resource reserves` });
+    }
+
+    const regenerated = await ResourceReserveService.regenerate({ state_code: stateCode, resource, amount });
+    console.log(`[Admin] Regenerated ${regenerated} resource reserves`, { stateCode, resource, amount });
+    return NextResponse.json({ success: true, regenerated, message: `Regenerated ${regenerated} resource reserves` });
+  } catch (error: unknown) {
+    const errorMessage = getErrorMessage(error);
+    if (errorMessage === 'Unauthorized' || errorMessage === 'Forbidden') {
+      return NextResponse.json({ error: errorMessage }, { status: 401 });
+    }
+    console.error('Failed to update resource reserves:', error);
+    return NextResponse.json({ error: getErrorMessage(error, 'Failed to update resource reserves') }, { status: 500 });
+  }
+}
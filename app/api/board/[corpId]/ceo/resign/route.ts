@@ -3,7 +3,7 @@ import { NextRequest, NextResponse } from 'next/server';
 import { getAuthUserId } from '@/lib/auth';
 import { CorporationModel } from '@/lib/models/Corporation';
 import { BoardModel } from '@/lib/models/BoardProposal';
-import { MessageModel } from '@/lib/models/Message';
+import { NotificationService } from '@/lib/services/NotificationService';
 import { UserModel } from '@/lib/models/User';
 import { getErrorMessage } from '@/lib/utils';
 
@@ -35,19 +35,18 @@ export async function POST(
     // Clear the elected CEO
     await CorporationModel.clearElectedCeo(corpId);
 
-    // Notify board members (system message)
+    // Notify board members
     const boardMembers = await BoardModel.getBoardMembers(corpId);
     const ceo = await UserModel.findById(userId);
     const ceoName = ceo?.player_name || ceo?.username || 'The CEO';
 
-    for (const member of boardMembers) {
-      await MessageModel.create({
-        sender_id: 1, // System user ID
-        recipient_id: member.user_id,
-        subject: `CEO Resignation: ${corporation.name}`,
-        body: `${ceoName} has resigned as CEO of ${corporation.name}. The largest shareholder will serve as Acting CEO until a new CEO is elected by the board.`,
-      });
-    }
+    await NotificationService.notify(boardMembers.map(member => member.user_id), {
+      category: 'ceo_change',
+      title: `CEO resignation: ${corporation.name}`,
+      body: `${ceoName} has resigned as CEO of ${corporation.name}. The largest shareholder will serve as Acting CEO until a new CEO is elected by the board.`,
+      link: `/corporation/${corpId}`,
+      corporation_id: corpId,
+    });
 
     return NextResponse.json({ success: true, message: 'Successfully resigned as CEO' });
   } catch (error: unknown) {
@@ -4,8 +4,10 @@ import { getAuthUserId, getOptionalAuthUserId } from '@/lib/auth';
 import { BoardProposalModel, BoardModel, ProposalType, ProposalData } from '@/lib/models/BoardProposal';
 import { CorporationModel } from '@/lib/models/Corporation';
 import { UserModel } from '@/lib/models/User';
-import { MessageModel } from '@/lib/models/Message';
+import { MergerModel } from '@/lib/models/Merger';
 import { isValidSector, isValidStateCode } from '@/lib/constants/sectors';
+import { SALARY_CONFIG } from '@/lib/constants/salaries';
+import { MERGER_CONFIG, roundExchangeRatio } from '@/lib/constants/mergers';
 import { getErrorMessage } from '@/lib/utils';
 
 export async function GET(
@@ -51,6 +53,9 @@ export async function POST(
     if (!corporation) {
       return NextResponse.json({ error: 'Corporation not found' }, { status: 404 });
     }
+    if (corporation.retired_at) {
+      return NextResponse.json({ error: 'This corporation has been merged into another' }, { status: 400 });
+    }
 
     // Verify user is on board
     const isOnBoard = await BoardModel.isOnBoard(corpId, userId);
@@ -59,7 +64,7 @@ export async function POST(
     }
 
     // Validate proposal type
-    const validTypes: ProposalType[] = ['ceo_nomination', 'sector_change', 'hq_change', 'board_size', 'appoint_member', 'ceo_salary_change', 'dividend_change', 'special_dividend', 'stock_split', 'focus_change'];
+    const validTypes: ProposalType[] = ['ceo_nomination', 'sector_change', 'hq_change', 'board_size', 'appoint_member', 'ceo_salary_change', 'dividend_change', 'special_dividend', 'stock_split', 'focus_change', 'salary_arrears_policy', 'merger'];
     if (!validTypes.includes(proposal_type)) {
       return NextResponse.json({ error: 'Invalid proposal type' }, { status: 400 });
     }
@@ -194,6 +199,59 @@ export async function POST(
         break;
       }
 
+      case 'salary_arrears_policy': {
+        const limit = proposal_data.missed_payments_limit;
+        const action = proposal_data.action;
+        if (!limit || typeof limit !== 'number' || !Number.isInteger(limit) || limit < 1 || limit > SALARY_CONFIG.MAX_MISSED_PAYMENTS_LIMIT) {
+          return NextResponse.json({ error: `Missed payments limit must be between 1 and ${SALARY_CONFIG.MAX_MISSED_PAYMENTS_LIMIT}` }, { status: 400 });
+        }
+        if (action !== 'none' && action !== 'ceo_nomination') {
+          return NextResponse.json({ error: 'Action must be none or ceo_nomination' }, { status: 400 });
+        }
+        validatedData = { missed_payments_limit: limit, action };
+        break;
+      }
+
+      case 'merger': {
+        // Proposed by the acquirer's board; the target's board votes on a mirrored proposal
+        const targetId = proposal_data.target_corporation_id;
+        const ratio = proposal_data.exchange_ratio;
+        if (!targetId || typeof targetId !== 'number') {
+          return NextResponse.json({ error: 'Target corporation ID is required' }, { status: 400 });
+        }
+        if (targetId === corpId) {
+          return NextResponse.json({ error: 'A corporation cannot merge with itself' }, { status: 400 });
+        }
+        if (typeof ratio !== 'number' || !Number.isFinite(ratio)
+          || ratio < MERGER_CONFIG.MIN_EXCHANGE_RATIO || ratio > MERGER_CONFIG.MAX_EXCHANGE_RATIO) {
+          return NextResponse.json({ error: `Exchange ratio must be between ${MERGER_CONFIG.MIN_EXCHANGE_RATIO} and ${MERGER_CONFIG.MAX_EXCHANGE_RATIO}` }, { status: 400 });
+        }
+        const target = await CorporationModel.findById(targetId);
+        if (!target || target.retired_at) {
+          return NextResponse.json({ error: 'Target corporation not found' }, { status: 404 });
+        }
+        const pending = await MergerModel.findPendingInvolving([corpId, targetId]);
+        if (pending) {
+          return NextResponse.json({ error: 'One of these corporations already has a merger pending' }, { status: 400 });
+        }
+        const exchangeRatio = roundExchangeRatio(ratio);
+        const merger = await MergerModel.create({
+          acquirer_corporation_id: corpId,
+          target_corporation_id: targetId,
+          exchange_ratio: exchangeRatio,
+          proposer_id: userId,
+        });
+        validatedData = {
+          merger_id: merger.id,
+          acquirer_corporation_id: corpId,
+          acquirer_name: corporation.name,
+          target_corporation_id: targetId,
+          target_name: target.name,
+          exchange_ratio: exchangeRatio,
+        };
+        break;
+      }
+
       default:
         return NextResponse.json({ error: 'Invalid proposal type' }, { status: 400 });
     }
@@ -201,20 +259,28 @@ export async function POST(
     // Create the proposal
     const proposal = await BoardProposalModel.create(corpId, userId, proposal_type, validatedData);
 
-    // Send notifications to board members (system message)
-    const boardMembers = await BoardModel.getBoardMembers(corpId);
+    // Ask the board to vote and tell the other shareholders
     const proposer = await UserModel.findById(userId);
     const proposerName = proposer?.player_name || proposer?.username || 'A board member';
 
     const proposalDescription = BoardProposalModel.getProposalDescription(proposal_type, validatedData);
 
-    for (const member of boardMembers) {
-      await MessageModel.create({
-        sender_id: 1, // System user ID
-        recipient_id: member.user_id,
-        subject: `New Board Proposal: ${corporation.name}`,
-        body: `${proposerName} has proposed: ${proposalDescription}\n\nThis vote will expire in 12 hours. Please visit the corporation board page to cast your vote.`,
-      });
+    await BoardProposalModel.announce(
+      proposal,
+      corporation.name,
+      `${proposerName} has proposed: ${proposalDescription}\n\nThis vote will expire in 12 hours.`
+    );
+
+    // A merger also needs the target's board, which votes on its own copy of the proposal
+    if ('merger_id' in validatedData) {
+      const targetProposal = await BoardProposalModel.create(validatedData.target_corporation_id, userId, proposal_type, validatedData);
+      await MergerModel.setProposals(validatedData.merger_id, proposal.id, targetProposal.id);
+
+      await BoardProposalModel.announce(
+        targetProposal,
+        validatedData.target_name,
+        `${proposerName} of ${corporation.name} has proposed: ${proposalDescription}\n\nThe merger needs both boards to approve. This vote will expire in 12 hours.`
+      );
     }
 
     return NextResponse.json(proposal, { status: 201 });
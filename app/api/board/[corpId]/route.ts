@@ -5,6 +5,8 @@ import { CorporationModel } from '@/lib/models/Corporation';
 import { BoardModel, BoardProposalModel } from '@/lib/models/BoardProposal';
 import { ShareholderModel } from '@/lib/models/Shareholder';
 import { UserModel } from '@/lib/models/User';
+import { SalaryLedgerModel } from '@/lib/models/SalaryLedger';
+import { SALARY_CONFIG } from '@/lib/constants/salaries';
 import { SECTORS, US_STATE_CODES } from '@/lib/constants/sectors';
 import { normalizeImageUrl } from '@/lib/utils/imageUrl';
 import { getErrorMessage } from '@/lib/utils';
@@ -54,6 +56,8 @@ export async function GET(
       };
     });
 
+    const salaryArrears = await SalaryLedgerModel.getArrearsTotal(corpId);
+
     // Check if current user is on board
     const isOnBoard = userId ? await BoardModel.isOnBoard(corpId, userId) : false;
 
@@ -73,6 +77,9 @@ export async function GET(
         special_dividend_last_paid_at: corporation.special_dividend_last_paid_at,
         special_dividend_last_amount: corporation.special_dividend_last_amount,
         focus: corporation.focus || 'diversified',
+        salary_arrears_limit: corporation.salary_arrears_limit ?? SALARY_CONFIG.DEFAULT_MISSED_PAYMENTS_LIMIT,
+        salary_arrears_action: corporation.salary_arrears_action ?? SALARY_CONFIG.DEFAULT_ARREARS_ACTION,
+        salary_arrears: salaryArrears,
       },
       board_members: boardMembers.map(m => ({
         ...m,
@@ -0,0 +1,58 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getAuthUserId } from '@/lib/auth';
+import { connectMongo } from '@/lib/db/mongo';
+import { SupplyContractModel } from '@/lib/models/SupplyContract';
+import { SupplyContractService, SupplyContractError } from '@/lib/services/SupplyContractService';
+import { AcceptSupplyContractSchema } from '@/lib/validations/contracts';
+import { isValidStateCode } from '@/lib/constants/sectors';
+import { getErrorMessage } from '@/lib/utils';
+
+export const dynamic = 'force-dynamic';
+
+// POST /api/contracts/:id/accept - Accept a proposal as the counterparty's CEO, naming your state
+export async function POST(
+  req: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  try {
+    await connectMongo();
+    const userId = await getAuthUserId(req);
+    if (!userId) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const contractId = parseInt(params.id, 10);
+    if (isNaN(contractId)) {
+      return NextResponse.json({ error: 'Invalid contract ID' }, { status: 400 });
+    }
+
+    const body = await req.json();
+    const validated = AcceptSupplyContractSchema.safeParse(body);
+
+    if (!validated.success) {
+      return NextResponse.json(
+        { error: 'Validation failed', details: validated.error.issues },
+        { status: 400 }
+      );
+    }
+
+    if (!isValidStateCode(validated.data.stateCode)) {
+      return NextResponse.json({ error: 'Invalid state code' }, { status: 400 });
+    }
+
+    const contract = await SupplyContractModel.findById(contractId);
+    if (!contract) {
+      return NextResponse.json({ error: 'Contract not found' }, { status: 404 });
+    }
+
+    const accepted = await SupplyContractService.accept(contract, userId, validated.data.stateCode);
+
+    return NextResponse.json({ success: true, contract: accepted });
+  } catch (error: unknown) {
+    if (error instanceof SupplyContractError) {
+      return NextResponse.json({ error: error.message }, { status: 400 });
+    }
+    console.error('Accept supply contract error:', error);
+    return NextResponse.json({ error: getErrorMessage(error, 'Failed to accept supply contract') }, { status: 500 });
+  }
+}
@@ -0,0 +1,42 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getAuthUserId } from '@/lib/auth';
+import { connectMongo } from '@/lib/db/mongo';
+import { SupplyContractModel } from '@/lib/models/SupplyContract';
+import { SupplyContractService, SupplyContractError } from '@/lib/services/SupplyContractService';
+import { getErrorMessage } from '@/lib/utils';
+
+export const dynamic = 'force-dynamic';
+
+// POST /api/contracts/:id/reject - Reject a proposal as the counterparty's CEO
+export async function POST(
+  req: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  try {
+    await connectMongo();
+    const userId = await getAuthUserId(req);
+    if (!userId) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const contractId = parseInt(params.id, 10);
+    if (isNaN(contractId)) {
+      return NextResponse.json({ error: 'Invalid contract ID' }, { status: 400 });
+    }
+
+    const contract = await SupplyContractModel.findById(contractId);
+    if (!contract) {
+      return NextResponse.json({ error: 'Contract not found' }, { status: 404 });
+    }
+
+    const rejected = await SupplyContractService.reject(contract, userId);
+
+    return NextResponse.json({ success: true, contract: rejected });
+  } catch (error: unknown) {
+    if (error instanceof SupplyContractError) {
+      return NextResponse.json({ error: error.message }, { status: 400 });
+    }
+    console.error('Reject supply contract error:', error);
+    return NextResponse.json({ error: getErrorMessage(error, 'Failed to reject supply contract') }, { status: 500 });
+  }
+}
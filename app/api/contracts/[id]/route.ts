@@ -0,0 +1,70 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getAuthUserId } from '@/lib/auth';
+import { connectMongo } from '@/lib/db/mongo';
+import { SupplyContractModel } from '@/lib/models/SupplyContract';
+import { SupplyContractSettlementModel } from '@/lib/models/SupplyContractSettlement';
+import { SupplyContractService, SupplyContractError } from '@/lib/services/SupplyContractService';
+import { getErrorMessage } from '@/lib/utils';
+
+export const dynamic = 'force-dynamic';
+
+// GET /api/contracts/:id - A single supply contract with its recent settlements
+export async function GET(
+  req: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  try {
+    await connectMongo();
+
+    const contractId = parseInt(params.id, 10);
+    if (isNaN(contractId)) {
+      return NextResponse.json({ error: 'Invalid contract ID' }, { status: 400 });
+    }
+
+    const contract = await SupplyContractModel.findById(contractId);
+    if (!contract) {
+      return NextResponse.json({ error: 'Contract not found' }, { status: 404 });
+    }
+
+    const settlements = await SupplyContractSettlementModel.findByContract(contractId);
+
+    return NextResponse.json({ contract, settlements });
+  } catch (error: unknown) {
+    console.error('Get supply contract error:', error);
+    return NextResponse.json({ error: getErrorMessage(error, 'Failed to fetch supply contract') }, { status: 500 });
+  }
+}
+
+// DELETE /api/contracts/:id - Withdraw a proposal before it is accepted (proposing CEO only)
+export async function DELETE(
+  req: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  try {
+    await connectMongo();
+    const userId = await getAuthUserId(req);
+    if (!userId) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const contractId = parseInt(params.id, 10);
+    if (isNaN(contractId)) {
+      return NextResponse.json({ error: 'Invalid contract ID' }, { status: 400 });
+    }
+
+    const contract = await SupplyContractModel.findById(contractId);
+    if (!contract) {
+      return NextResponse.json({ error: 'Contract not found' }, { status: 404 });
+    }
+
+    const withdrawn = await SupplyContractService.withdraw(contract, userId);
+
+    return NextResponse.json({ success: true, contract: withdrawn });
+  } catch (error: unknown) {
+    if (error instanceof SupplyContractError) {
+      return NextResponse.json({ error: error.message }, { status: 400 });
+    }
+    console.error('Withdraw supply contract error:', error);
+    return NextResponse.json({ error: getErrorMessage(error, 'Failed to withdraw supply contract') }, { status: 500 });
+  }
+}
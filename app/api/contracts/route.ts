@@ -0,0 +1,118 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getAuthUserId } from '@/lib/auth';
+import { connectMongo } from '@/lib/db/mongo';
+import { CorporationModel } from '@/lib/models/Corporation';
+import { SupplyContractModel, SupplyContractStatus } from '@/lib/models/SupplyContract';
+import { SupplyContractService, SupplyContractError } from '@/lib/services/SupplyContractService';
+import { ProposeSupplyContractSchema } from '@/lib/validations/contracts';
+import { getInventoryItemType } from '@/lib/constants/inventory';
+import { isValidStateCode } from '@/lib/constants/sectors';
+import { getErrorMessage } from '@/lib/utils';
+
+export const dynamic = 'force-dynamic';
+
+const STATUSES: SupplyContractStatus[] = ['proposed', 'active', 'completed', 'rejected', 'withdrawn', 'expired'];
+
+// GET /api/contracts?corporation_id=X[&status=active] - Supply contracts a corporation is party to
+export async function GET(req: NextRequest) {
+  try {
+    await connectMongo();
+
+    const { searchParams } = new URL(req.url);
+    const corporationId = parseInt(searchParams.get('corporation_id') || '', 10);
+    if (isNaN(corporationId)) {
+      return NextResponse.json({ error: 'Invalid corporation ID' }, { status: 400 });
+    }
+
+    const statusParam = searchParams.get('status');
+    const status = STATUSES.find(s => s === statusParam);
+
+    const corporation = await CorporationModel.findById(corporationId);
+    if (!corporation) {
+      return NextResponse.json({ error: 'Corporation not found' }, { status: 404 });
+    }
+
+    const contracts = await SupplyContractModel.findByCorporation(corporationId, status);
+    const counterpartyIds = [...new Set(contracts.flatMap(c => [c.supplier_corporation_id, c.buyer_corporation_id]))]
+      .filter(id => id !== corporationId);
+    const counterparties = await CorporationModel.findByIds(counterpartyIds);
+
+    return NextResponse.json({
+      corporation_id: corporationId,
+      contracts: contracts.map(contract => {
+        const role = contract.supplier_corporation_id === corporationId ? 'supplier' : 'buyer';
+        const counterpartyId = role === 'supplier' ? contract.buyer_corporation_id : contract.supplier_corporation_id;
+        return {
+          ...contract,
+          role,
+          counterparty_corporation_id: counterpartyId,
+          counterparty_name: counterparties.find(c => c.id === counterpartyId)?.name ?? 'Unknown',
+          awaiting_response: contract.status === 'proposed' && contract.proposed_by !== role,
+        };
+      }),
+    });
+  } catch (error: unknown) {
+    console.error('Get supply contracts error:', error);
+    return NextResponse.json({ error: getErrorMessage(error, 'Failed to fetch supply contracts') }, { status: 500 });
+  }
+}
+
+// POST /api/contracts - Propose a supply contract to another corporation's CEO
+export async function POST(req: NextRequest) {
+  try {
+    await connectMongo();
+    const userId = await getAuthUserId(req);
+    if (!userId) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const body = await req.json();
+    const validated = ProposeSupplyContractSchema.safeParse(body);
+
+    if (!validated.success) {
+      return NextResponse.json(
+        { error: 'Validation failed', details: validated.error.issues },
+        { status: 400 }
+      );
+    }
+
+    const { corporationId, counterpartyCorporationId, role, stateCode, item, unitsPerHour, pricePerUnit, quarters } = validated.data;
+
+    if (!getInventoryItemType(item)) {
+      return NextResponse.json({ error: 'Item not found' }, { status: 404 });
+    }
+    if (!isValidStateCode(stateCode)) {
+      return NextResponse.json({ error: 'Invalid state code' }, { status: 400 });
+    }
+
+    const corporation = await CorporationModel.findById(corporationId);
+    if (!corporation) {
+      return NextResponse.json({ error: 'Corporation not found' }, { status: 404 });
+    }
+
+    const isCEO = corporation.ceo_id === userId || corporation.elected_ceo_id === userId;
+    if (!isCEO) {
+      return NextResponse.json({ error: 'Only the CEO can propose contracts on behalf of the corporation' }, { status: 403 });
+    }
+
+    const contract = await SupplyContractService.propose({
+      corporation_id: corporationId,
+      counterparty_corporation_id: counterpartyCorporationId,
+      role,
+      state_code: stateCode,
+      item,
+      units_per_hour: unitsPerHour,
+      price_per_unit: pricePerUnit,
+      quarters,
+      user_id: userId,
+    });
+
+    return NextResponse.json({ success: true, contract }, { status: 201 });
+  } catch (error: unknown) {
+    if (error instanceof SupplyContractError) {
+      return NextResponse.json({ error: error.message }, { status: 400 });
+    }
+    console.error('Propose supply contract error:', error);
+    return NextResponse.json({ error: getErrorMessage(error, 'Failed to propose supply contract') }, { status: 500 });
+  }
+}
@@ -0,0 +1,70 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { requireAdmin } from '@/lib/auth';
+import { connectMongo } from '@/lib/db/mongo';
+import { CorporateActionConfigModel } from '@/lib/models/CorporateActionConfig';
+import { DEFAULT_CORPORATE_ACTIONS } from '@/lib/constants/corporateActions';
+import { UpdateCorporateActionConfigSchema } from '@/lib/validations/corporate-actions';
+import { getErrorMessage } from '@/lib/utils';
+
+// PUT - Update a catalogue entry. Actions already running keep the effects they were activated with.
+export async function PUT(
+  req: NextRequest,
+  { params }: { params: { actionType: string } }
+) {
+  try {
+    await connectMongo();
+    await requireAdmin(req);
+
+    const body = await req.json();
+    const validation = UpdateCorporateActionConfigSchema.safeParse(body);
+    if (!validation.success) {
+      return NextResponse.json({ error: 'Validation failed', details: validation.error.issues }, { status: 400 });
+    }
+
+    const data = Object.fromEntries(
+      Object.entries(validation.data).filter(([, value]) => value !== undefined)
+    );
+    const updated = await CorporateActionConfigModel.update(params.actionType, data);
+    if (!updated) {
+      return NextResponse.json({ error: 'Corporate action not found or no changes' }, { status: 404 });
+    }
+
+    return NextResponse.json(updated);
+  } catch (error: unknown) {
+    const errorMessage = getErrorMessage(error);
+    if (errorMessage === 'Unauthorized' || errorMessage === 'Forbidden') {
+      return NextResponse.json({ error: errorMessage }, { status: 401 });
+    }
+    console.error('Failed to update corporate action:', error);
+    return NextResponse.json({ error: getErrorMessage(error, 'Failed to update corporate action') }, { status: 500 });
+  }
+}
+
+// DELETE - Remove an admin-created action. Built-in actions can only be disabled.
+export async function DELETE(
+  req: NextRequest,
+  { params }: { params: { actionType: string } }
+) {
+  try {
+    await connectMongo();
+    await requireAdmin(req);
+
+    if (DEFAULT_CORPORATE_ACTIONS.some(action => action.action_type === params.actionType)) {
+      return NextResponse.json({ error: 'Built-in corporate actions cannot be deleted; disable them instead' }, { status: 400 });
+    }
+
+    const deleted = await CorporateActionConfigModel.delete(params.actionType);
+    if (!deleted) {
+      return NextResponse.json({ error: 'Corporate action not found' }, { status: 404 });
+    }
+
+    return NextResponse.json({ message: 'Corporate action deleted successfully' });
+  } catch (error: unknown) {
+    const errorMessage = getErrorMessage(error);
+    if (errorMessage === 'Unauthorized' || errorMessage === 'Forbidden') {
+      return NextResponse.json({ error: errorMessage }, { status: 401 });
+    }
+    console.error('Failed to delete corporate action:', error);
+    return NextResponse.json({ error: getErrorMessage(error, 'Failed to delete corporate action') }, { status: 500 });
+  }
+}
@@ -0,0 +1,65 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { requireAdmin } from '@/lib/auth';
+import { connectMongo } from '@/lib/db/mongo';
+import { CorporateActionConfigModel } from '@/lib/models/CorporateActionConfig';
+import { CreateCorporateActionConfigSchema } from '@/lib/validations/corporate-actions';
+import { getErrorMessage } from '@/lib/utils';
+
+// GET - Full corporate action catalogue, including disabled actions
+export async function GET(req: NextRequest) {
+  try {
+    await connectMongo();
+    await requireAdmin(req);
+
+    const actions = await CorporateActionConfigModel.findAll();
+    return NextResponse.json({ actions });
+  } catch (error: unknown) {
+    const errorMessage = getErrorMessage(error);
+    if (errorMessage === 'Unauthorized' || errorMessage === 'Forbidden') {
+      return NextResponse.json({ error: errorMessage }, { status: 401 });
+    }
+    console.error('Failed to get corporate action config:', error);
+    return NextResponse.json({ error: getErrorMessage(error, 'Failed to get corporate action configuration') }, { status: 500 });
+  }
+}
+
+// POST - Add a corporate action to the catalogue
+export async function POST(req: NextRequest) {
+  try {
+    await connectMongo();
+    await requireAdmin(req);
+
+    const body = await req.json();
+    const validation = CreateCorporateActionConfigSchema.safeParse(body);
+    if (!validation.success) {
+      return NextResponse.json({ error: 'Validation failed', details: validation.error.issues }, { status: 400 });
+    }
+
+    const { action_type, ...data } = validation.data;
+    if (await CorporateActionConfigModel.findByActionType(action_type)) {
+      return NextResponse.json({ error: `Corporate action ${action_type} already exists` }, { status: 400 });
+    }
+
+    const action = await CorporateActionConfigModel.create({
+      action_type,
+      name: data.name,
+      description: data.description ?? '',
+      base_cost: data.base_cost,
+      market_cap_cost_pct: data.market_cap_cost_pct,
+      duration_hours: data.duration_hours,
+      cooldown_hours: data.cooldown_hours ?? 0,
+      effects: data.effects,
+      is_enabled: data.is_enabled ?? true,
+      display_order: data.display_order ?? 0,
+    });
+
+    return NextResponse.json(action, { status: 201 });
+  } catch (error: unknown) {
+    const errorMessage = getErrorMessage(error);
+    if (errorMessage === 'Unauthorized' || errorMessage === 'Forbidden') {
+      return NextResponse.json({ error: errorMessage }, { status: 401 });
+    }
+    console.error('Failed to create corporate action:', error);
+    return NextResponse.json({ error: getErrorMessage(error, 'Failed to create corporate action') }, { status: 500 });
+  }
+}
@@ -0,0 +1,16 @@
+import { NextResponse } from 'next/server';
+import { connectMongo } from '@/lib/db/mongo';
+import { CorporateActionConfigModel } from '@/lib/models/CorporateActionConfig';
+import { getErrorMessage } from '@/lib/utils';
+
+// GET - Corporate actions a CEO can activate
+export async function GET() {
+  try {
+    await connectMongo();
+    const actions = await CorporateActionConfigModel.findAll(false);
+    return NextResponse.json({ actions });
+  } catch (error: unknown) {
+    console.error('Failed to get corporate action catalogue:', error);
+    return NextResponse.json({ error: getErrorMessage(error, 'Failed to get corporate action catalogue') }, { status: 500 });
+  }
+}
@@ -0,0 +1,145 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getAuthUserId } from '@/lib/auth';
+import { connectMongo, withTransaction } from '@/lib/db/mongo';
+import { CorporateActionModel } from '@/lib/models/CorporateAction';
+import { CorporateActionConfigModel } from '@/lib/models/CorporateActionConfig';
+import { CorporationModel } from '@/lib/models/Corporation';
+import { MarketEntryModel } from '@/lib/models/MarketEntry';
+import { TransactionModel } from '@/lib/models/Transaction';
+import { calculateActionCost, isStateScoped, normalizeActionType } from '@/lib/constants/corporateActions';
+import { ActivateCorporateActionSchema } from '@/lib/validations/corporate-actions';
+import { getErrorMessage } from '@/lib/utils';
+
+const HOUR_MS = 60 * 60 * 1000;
+
+// Helper function to format cost
+function formatCost(cost: number): string {
+  return `$${cost.toLocaleString('en-US', { minimumFractionDigits: 2, maximumFractionDigits: 2 })}`;
+}
+
+// An activation that cannot go ahead; reported as a 400 with its details
+class ActivationError extends Error {
+  constructor(message: string, readonly details: Record<string, unknown> = {}) {
+    super(message);
+    this.name = 'ActivationError';
+  }
+}
+
+/**
+ * POST /api/corporate-actions/[corporationId]/[actionType]
+ * Activate an action from the corporate action catalogue (CEO only).
+ * The action type may be written with hyphens or underscores (supply-rush / supply_rush).
+ */
+export async function POST(
+  req: NextRequest,
+  { params }: { params: { corporationId: string; actionType: string } }
+) {
+  try {
+    await connectMongo();
+
+    const userId = await getAuthUserId(req);
+    if (!userId) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const corporationId = parseInt(params.corporationId, 10);
+    if (isNaN(corporationId)) {
+      return NextResponse.json({ error: 'Invalid corporation ID' }, { status: 400 });
+    }
+
+    let body: unknown = {};
+    try {
+      body = await req.json();
+    } catch {
+      // No body: corporation-wide actions take no parameters
+    }
+
+    const validation = ActivateCorporateActionSchema.safeParse(body ?? {});
+    if (!validation.success) {
+      return NextResponse.json({ error: 'Validation failed', details: validation.error.issues }, { status: 400 });
+    }
+
+    // Check if user is CEO
+    const corp = await CorporationModel.findById(corporationId);
+    if (!corp || corp.ceo_id !== userId) {
+      return NextResponse.json({ error: 'Only the CEO can activate corporate actions' }, { status: 403 });
+    }
+
+    const actionType = normalizeActionType(params.actionType);
+    const config = await CorporateActionConfigModel.findByActionType(actionType);
+    if (!config || !config.is_enabled) {
+      return NextResponse.json({ error: `Unknown corporate action: ${params.actionType}` }, { status: 404 });
+    }
+
+    // State-scoped effects target one of the corporation's markets
+    let stateCode: string | null = null;
+    if (isStateScoped(config.effects)) {
+      stateCode = validation.data.state_code ?? null;
+      if (!stateCode) {
+        return NextResponse.json({ error: `${config.name} requires a state_code` }, { status: 400 });
+      }
+      const entries = await MarketEntryModel.findByCorpAndState(corporationId, stateCode);
+      if (entries.length === 0) {
+        return NextResponse.json({ error: `Corporation has no market entry in ${stateCode}` }, { status: 400 });
+      }
+    }
+
+    // Calculate cost from market capitalization
+    const cost = calculateActionCost(config, corp.shares * corp.share_price);
+    const expiresAt = new Date(Date.now() + config.duration_hours * HOUR_MS);
+
+    // The checks, the charge and the action are one transaction, so concurrent activations cannot both go ahead
+    const action = await withTransaction(async (session) => {
+      // Check if already active, then whether it is still cooling down
+      const latest = await CorporateActionModel.findLatestAction(corporationId, actionType, session);
+      if (latest && latest.expires_at > new Date()) {
+        throw new ActivationError(`${config.name} is already active`, { expiresAt: latest.expires_at });
+      }
+      if (latest && config.cooldown_hours > 0) {
+        const availableAt = new Date(latest.expires_at.getTime() + config.cooldown_hours * HOUR_MS);
+        if (availableAt > new Date()) {
+          throw new ActivationError(`${config.name} is cooling down`, { availableAt });
+        }
+      }
+
+      const debited = await CorporationModel.debitCapital(corporationId, cost, session);
+      if (!debited) {
+        const current = await CorporationModel.findById(corporationId, session);
+        throw new ActivationError('Insufficient capital', { required: cost, available: current?.capital ?? corp.capital });
+      }
+
+      const created = await CorporateActionModel.activate({
+        corporation_id: corporationId,
+        action_type: actionType,
+        name: config.name,
+        cost,
+        state_code: stateCode,
+        effects: config.effects,
+        expires_at: expiresAt,
+        available_at: new Date(expiresAt.getTime() + config.cooldown_hours * HOUR_MS),
+      }, session);
+      if (!created) {
+        throw new ActivationError(`${config.name} is already active or cooling down`);
+      }
+
+      // Record transaction
+      await TransactionModel.create({
+        transaction_type: 'corporate_action',
+        amount: -cost,
+        from_user_id: userId,
+        corporation_id: corporationId,
+        description: `${config.name} activated${stateCode ? ` in ${stateCode}` : ''} - ${formatCost(cost)}`,
+      }, session);
+
+      return created;
+    });
+
+    return NextResponse.json(action, { status: 201 });
+  } catch (error: unknown) {
+    if (error instanceof ActivationError) {
+      return NextResponse.json({ error: error.message, ...error.details }, { status: 400 });
+    }
+    console.error('Activate corporate action error:', error);
+    return NextResponse.json({ error: getErrorMessage(error, 'Failed to activate corporate action') }, { status: 500 });
+  }
+}
@@ -0,0 +1,30 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { connectMongo } from '@/lib/db/mongo';
+import { MarketIndexService } from '@/lib/services/MarketIndexService';
+import { getErrorMessage } from '@/lib/utils';
+
+export const dynamic = 'force-dynamic';
+
+// GET /api/corporation/:id/benchmark - Share price performance against the corporation's sector index
+export async function GET(
+  request: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  try {
+    await connectMongo();
+    const corporationId = parseInt(params.id, 10);
+    if (isNaN(corporationId)) {
+      return NextResponse.json({ error: 'Invalid corporation ID' }, { status: 400 });
+    }
+
+    const benchmark = await MarketIndexService.getCorporationBenchmark(corporationId);
+    if (!benchmark) {
+      return NextResponse.json({ error: 'Corporation not found' }, { status: 404 });
+    }
+
+    return NextResponse.json(benchmark);
+  } catch (error: unknown) {
+    console.error('Get corporation benchmark error:', error);
+    return NextResponse.json({ error: getErrorMessage(error, 'Failed to fetch benchmark') }, { status: 500 });
+  }
+}
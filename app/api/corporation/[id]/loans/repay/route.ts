@@ -0,0 +1,85 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getAuthUserId } from '@/lib/auth';
+import { connectMongo } from '@/lib/db/mongo';
+import { CorporationModel } from '@/lib/models/Corporation';
+import { LoanModel } from '@/lib/models/Loan';
+import { LoanService, LoanError } from '@/lib/services/LoanService';
+import { RepayLoanSchema } from '@/lib/validations/loans';
+import { getErrorMessage } from '@/lib/utils';
+
+// POST /api/corporation/:id/loans/repay - Prepay principal (or pay off) a loan from corporation capital
+export async function POST(
+  request: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  try {
+    await connectMongo();
+    const userId = await getAuthUserId(request);
+    if (!userId) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const corporationId = parseInt(params.id, 10);
+    if (isNaN(corporationId)) {
+      return NextResponse.json({ error: 'Invalid corporation ID' }, { status: 400 });
+    }
+
+    const body = await request.json();
+    const validated = RepayLoanSchema.safeParse(body);
+
+    if (!validated.success) {
+      return NextResponse.json(
+        { error: 'Validation failed', details: validated.error.issues },
+        { status: 400 }
+      );
+    }
+
+    const { loanId, amount, isFullPayoff } = validated.data;
+
+    const corporation = await CorporationModel.findById(corporationId);
+    if (!corporation) {
+      return NextResponse.json({ error: 'Corporation not found' }, { status: 404 });
+    }
+
+    const isCEO = corporation.ceo_id === userId || corporation.elected_ceo_id === userId;
+    if (!isCEO) {
+      return NextResponse.json({ error: 'Only the CEO can repay loans' }, { status: 403 });
+    }
+
+    const loan = await LoanModel.findById(loanId);
+    if (!loan || loan.corporation_id !== corporationId) {
+      return NextResponse.json({ error: 'Loan not found' }, { status: 404 });
+    }
+
+    if (loan.status !== 'active') {
+      return NextResponse.json({ error: `Loan is ${loan.status}` }, { status: 400 });
+    }
+
+    // Extra payments go entirely to principal; never collect more than what is owed
+    const payment = isFullPayoff
+      ? loan.outstanding_principal
+      : Math.min(amount, loan.outstanding_principal);
+
+    if (corporation.capital < payment) {
+      return NextResponse.json({
+        error: 'Insufficient capital',
+        required: payment,
+        available: corporation.capital,
+      }, { status: 400 });
+    }
+
+    const updatedLoan = await LoanService.prepay(loan, payment, userId);
+
+    return NextResponse.json({
+      success: true,
+      amount_paid: payment,
+      loan: updatedLoan,
+    });
+  } catch (error: unknown) {
+    if (error instanceof LoanError) {
+      return NextResponse.json({ error: error.message }, { status: 400 });
+    }
+    console.error('Repay loan error:', error);
+    return NextResponse.json({ error: getErrorMessage(error, 'Failed to repay loan') }, { status: 500 });
+  }
+}
@@ -0,0 +1,167 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getAuthUserId } from '@/lib/auth';
+import { connectMongo } from '@/lib/db/mongo';
+import { CorporationModel } from '@/lib/models/Corporation';
+import { LoanModel } from '@/lib/models/Loan';
+import { LoanService, LoanError } from '@/lib/services/LoanService';
+import { RequestLoanSchema, ListLoansSchema } from '@/lib/validations/loans';
+import { calculateBalanceSheet } from '@/lib/utils/valuation';
+import { LOAN_CONFIG, quoteInterestRate, calculateHourlyPayment } from '@/lib/constants/loans';
+import { getErrorMessage } from '@/lib/utils';
+
+// GET /api/corporation/:id/loans - List loans for a corporation
+export async function GET(
+  request: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  try {
+    await connectMongo();
+    const corporationId = parseInt(params.id, 10);
+    if (isNaN(corporationId)) {
+      return NextResponse.json({ error: 'Invalid corporation ID' }, { status: 400 });
+    }
+
+    const searchParams = request.nextUrl.searchParams;
+    const validated = ListLoansSchema.safeParse({
+      status: searchParams.get('status') || undefined,
+      page: searchParams.has('page') ? parseInt(searchParams.get('page')!, 10) : undefined,
+      limit: searchParams.has('limit') ? parseInt(searchParams.get('limit')!, 10) : undefined,
+      sortBy: searchParams.get('sortBy') || undefined,
+      sortOrder: searchParams.get('sortOrder') || undefined,
+    });
+
+    if (!validated.success) {
+      return NextResponse.json(
+        { error: 'Validation failed', details: validated.error.issues },
+        { status: 400 }
+      );
+    }
+
+    const { status, page, limit, sortBy, sortOrder } = validated.data;
+
+    const corporation = await CorporationModel.findById(corporationId);
+    if (!corporation) {
+      return NextResponse.json({ error: 'Corporation not found' }, { status: 404 });
+    }
+
+    const [loans, total, outstandingPrincipal] = await Promise.all([
+      LoanModel.findByCorporationId(corporationId, { status, sortBy, sortOrder }, limit, (page - 1) * limit),
+      LoanModel.countByCorporationId(corporationId, status),
+      LoanModel.getOutstandingPrincipal(corporationId),
+    ]);
+
+    return NextResponse.json({
+      loans,
+      total,
+      page,
+      limit,
+      outstanding_principal: outstandingPrincipal,
+    });
+  } catch (error: unknown) {
+    console.error('List loans error:', error);
+    return NextResponse.json({ error: getErrorMessage(error, 'Failed to fetch loans') }, { status: 500 });
+  }
+}
+
+// POST /api/corporation/:id/loans - Request a loan (underwritten and disbursed immediately)
+export async function POST(
+  request: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  try {
+    await connectMongo();
+    const userId = await getAuthUserId(request);
+    if (!userId) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const corporationId = parseInt(params.id, 10);
+    if (isNaN(corporationId)) {
+      return NextResponse.json({ error: 'Invalid corporation ID' }, { status: 400 });
+    }
+
+    const body = await request.json();
+    const validated = RequestLoanSchema.safeParse(body);
+
+    if (!validated.success) {
+      return NextResponse.json(
+        { error: 'Validation failed', details: validated.error.issues },
+        { status: 400 }
+      );
+    }
+
+    const { amount, termMonths, interestRate, purpose, collateral, guarantorUserId } = validated.data;
+
+    const corporation = await CorporationModel.findById(corporationId);
+    if (!corporation) {
+      return NextResponse.json({ error: 'Corporation not found' }, { status: 404 });
+    }
+
+    const isCEO = corporation.ceo_id === userId || corporation.elected_ceo_id === userId;
+    if (!isCEO) {
+      return NextResponse.json({ error: 'Only the CEO can request loans' }, { status: 403 });
+    }
+
+    if (await LoanModel.hasDefaulted(corporationId)) {
+      return NextResponse.json({ error: 'Corporation has defaulted on a previous loan and cannot borrow' }, { status: 400 });
+    }
+
+    const activeLoans = await LoanModel.countByCorporationId(corporationId, 'active');
+    if (activeLoans >= LOAN_CONFIG.MAX_ACTIVE_LOANS) {
+      return NextResponse.json({
+        error: `Corporations may have at most ${LOAN_CONFIG.MAX_ACTIVE_LOANS} active loans`,
+      }, { status: 400 });
+    }
+
+    // Underwriting: debt-to-assets after disbursement must stay under the cap
+    const balanceSheet = await calculateBalanceSheet(corporationId);
+    const debtAfter = balanceSheet.totalLiabilities + amount;
+    const assetsAfter = balanceSheet.totalAssets + amount;
+    const debtToAssets = assetsAfter > 0 ? debtAfter / assetsAfter : 1;
+
+    if (debtToAssets > LOAN_CONFIG.MAX_DEBT_TO_ASSETS) {
+      const maxDebt = LOAN_CONFIG.MAX_DEBT_TO_ASSETS;
+      const maxBorrowable = Math.max(
+        0,
+        (maxDebt * balanceSheet.totalAssets - balanceSheet.totalLiabilities) / (1 - maxDebt)
+      );
+      return NextResponse.json({
+        error: `Loan would exceed the maximum debt-to-assets ratio of ${maxDebt * 100}%`,
+        max_borrowable: Math.floor(maxBorrowable),
+      }, { status: 400 });
+    }
+
+    const quotedRate = quoteInterestRate(debtToAssets);
+    if (interestRate < quotedRate) {
+      return NextResponse.json({
+        error: `Requested rate is below the quoted rate of ${quotedRate}%`,
+        quoted_rate: quotedRate,
+      }, { status: 400 });
+    }
+
+    const termHours = termMonths * LOAN_CONFIG.HOURS_PER_GAME_MONTH;
+    const hourlyPayment = calculateHourlyPayment(amount, interestRate, termHours);
+
+    // Disbursed into capital; the active loan limit is enforced again atomically
+    const loan = await LoanService.disburse({
+      corporation_id: corporationId,
+      requested_by: userId,
+      guarantor_user_id: guarantorUserId ?? null,
+      principal: amount,
+      interest_rate: interestRate,
+      term_months: termMonths,
+      term_hours: termHours,
+      hourly_payment: hourlyPayment,
+      purpose,
+      collateral: collateral ?? null,
+    });
+
+    return NextResponse.json({ loan, quoted_rate: quotedRate }, { status: 201 });
+  } catch (error: unknown) {
+    if (error instanceof LoanError) {
+      return NextResponse.json({ error: error.message }, { status: 400 });
+    }
+    console.error('Request loan error:', error);
+    return NextResponse.json({ error: getErrorMessage(error, 'Failed to request loan') }, { status: 500 });
+  }
+}
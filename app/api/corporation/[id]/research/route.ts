@@ -0,0 +1,85 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getAuthUserId } from '@/lib/auth';
+import { connectMongo } from '@/lib/db/mongo';
+import { CorporationModel } from '@/lib/models/Corporation';
+import { ResearchService, ResearchError } from '@/lib/services/ResearchService';
+import { StartResearchSchema } from '@/lib/validations/research';
+import { RESEARCH_CONFIG } from '@/lib/constants/research';
+import { getErrorMessage } from '@/lib/utils';
+
+// GET /api/corporation/:id/research - Research trees of the corporation's sectors and their progress
+export async function GET(
+  request: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  try {
+    await connectMongo();
+    const corporationId = parseInt(params.id, 10);
+    if (isNaN(corporationId)) {
+      return NextResponse.json({ error: 'Invalid corporation ID' }, { status: 400 });
+    }
+
+    const corporation = await CorporationModel.findById(corporationId);
+    if (!corporation) {
+      return NextResponse.json({ error: 'Corporation not found' }, { status: 404 });
+    }
+
+    const now = new Date();
+    const [sectors, completed] = await Promise.all([
+      ResearchService.getTrees(corporationId, now),
+      ResearchService.getCompleted(corporationId, now),
+    ]);
+
+    return NextResponse.json({
+      sectors,
+      completed,
+      max_active_projects: RESEARCH_CONFIG.MAX_ACTIVE_PROJECTS,
+    });
+  } catch (error: unknown) {
+    console.error('Get research error:', error);
+    return NextResponse.json({ error: getErrorMessage(error, 'Failed to fetch research') }, { status: 500 });
+  }
+}
+
+// POST /api/corporation/:id/research - Start a research project
+export async function POST(
+  request: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  try {
+    await connectMongo();
+    const userId = await getAuthUserId(request);
+    if (!userId) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const corporationId = parseInt(params.id, 10);
+    if (isNaN(corporationId)) {
+      return NextResponse.json({ error: 'Invalid corporation ID' }, { status: 400 });
+    }
+
+    const body = await request.json();
+    const validated = StartResearchSchema.safeParse(body);
+    if (!validated.success) {
+      return NextResponse.json(
+        { error: 'Validation failed', details: validated.error.issues },
+        { status: 400 }
+      );
+    }
+
+    const research = await ResearchService.start({
+      corporation_id: corporationId,
+      user_id: userId,
+      sector_type: validated.data.sector,
+      project_key: validated.data.projectKey,
+    });
+
+    return NextResponse.json({ success: true, research }, { status: 201 });
+  } catch (error: unknown) {
+    if (error instanceof ResearchError) {
+      return NextResponse.json({ error: error.message }, { status: 400 });
+    }
+    console.error('Start research error:', error);
+    return NextResponse.json({ error: getErrorMessage(error, 'Failed to start research') }, { status: 500 });
+  }
+}
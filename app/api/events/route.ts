@@ -0,0 +1,81 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getAuthUserId } from '@/lib/auth';
+import { connectMongo } from '@/lib/db/mongo';
+import { EventStreamService } from '@/lib/services/EventStreamService';
+import { EventStreamQuerySchema } from '@/lib/validations/events';
+import { EVENT_STREAM_CONFIG, formatSseMessage } from '@/lib/constants/events';
+import { getErrorMessage } from '@/lib/utils';
+
+// A long-lived stream per client
+export const dynamic = 'force-dynamic';
+export const runtime = 'nodejs';
+
+// GET /api/events?corporations=1,2 - Server-sent stream of trades, price ticks, board activity,
+// the viewer's incoming messages and notifications, and cron completions. Without a token only public events are sent.
+export async function GET(request: NextRequest) {
+  try {
+    await connectMongo();
+    const userId = await getAuthUserId(request);
+
+    const validated = EventStreamQuerySchema.safeParse({
+      corporations: request.nextUrl.searchParams.get('corporations') ?? undefined,
+    });
+    if (!validated.success) {
+      return NextResponse.json(
+        { error: 'Validation failed', details: validated.error.issues },
+        { status: 400 }
+      );
+    }
+
+    const subscription = { user_id: userId, corporation_ids: validated.data.corporations ?? null };
+    const encoder = new TextEncoder();
+    let cleanup = () => {};
+
+    const stream = new ReadableStream<Uint8Array>({
+      start(controller) {
+        let closed = false;
+        const send = (text: string) => {
+          if (closed) return;
+          try {
+            controller.enqueue(encoder.encode(text));
+          } catch {
+            cleanup();
+          }
+        };
+
+        const unsubscribe = EventStreamService.subscribe(subscription, event => send(formatSseMessage(event)));
+        const heartbeat = setInterval(() => send(': heartbeat\n\n'), EVENT_STREAM_CONFIG.HEARTBEAT_MS);
+
+        cleanup = () => {
+          if (closed) return;
+          closed = true;
+          clearInterval(heartbeat);
+          unsubscribe();
+          try {
+            controller.close();
+          } catch {
+            // Already closed by the client
+          }
+        };
+
+        request.signal.addEventListener('abort', () => cleanup());
+        send(': connected\n\n');
+      },
+      cancel() {
+        cleanup();
+      },
+    });
+
+    return new Response(stream, {
+      headers: {
+        'Content-Type': 'text/event-stream',
+        'Cache-Control': 'no-cache, no-transform',
+        Connection: 'keep-alive',
+        'X-Accel-Buffering': 'no',
+      },
+    });
+  } catch (error: unknown) {
+    console.error('Event stream error:', error);
+    return NextResponse.json({ error: getErrorMessage(error, 'Failed to open event stream') }, { status: 500 });
+  }
+}
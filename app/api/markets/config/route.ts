@@ -1,6 +1,7 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { requireAdmin } from '@/lib/auth';
 import { SectorConfigService } from '@/lib/services/SectorConfigService';
+import { SectorConfigRevisionService } from '@/lib/services/SectorConfigRevisionService';
 import { getErrorMessage } from '@/lib/utils';
 
 export const dynamic = 'force-dynamic';
@@ -22,7 +23,7 @@ export async function GET(req: NextRequest) {
 
 export async function PUT(req: NextRequest) {
   try {
-    await requireAdmin(req);
+    const admin = await requireAdmin(req);
     const body = await req.json();
     
     if (typeof body !== 'object' || body === null) {
@@ -36,7 +37,10 @@ export async function PUT(req: NextRequest) {
     // For now, let's assume the admin tool will be updated or we treat the body as a partial update.
     
     // We'll trust the body is a valid UnifiedSectorConfig or compatible partial
-    await SectorConfigService.updateConfiguration(body);
+    await SectorConfigRevisionService.applyEdit(async (session) => {
+      await SectorConfigService.updateConfiguration(body, session);
+      await SectorConfigRevisionService.recordEdit(admin, 'Updated configuration', session);
+    });
     
     return NextResponse.json({ ok: true });
   } catch (error: unknown) {
@@ -2,8 +2,14 @@ import { NextRequest, NextResponse } from 'next/server';
 import { connectMongo } from '@/lib/db/mongo';
 import { CorporationModel } from '@/lib/models/Corporation';
 import { MarketEntryModel } from '@/lib/models/MarketEntry';
+import { InventoryModel } from '@/lib/models/Inventory';
+import { InventoryLedgerModel } from '@/lib/models/InventoryLedger';
+import { SupplyContractModel } from '@/lib/models/SupplyContract';
+import { SupplyContractSettlementModel } from '@/lib/models/SupplyContractSettlement';
+import { DISPLAY_PERIOD_HOURS } from '@/lib/constants/sectors';
 import { calculateBalanceSheet } from '@/lib/utils/valuation';
 import { StateMetadataModel } from '@/lib/models/StateMetadata';
+import { SectorConfigRevisionService } from '@/lib/services/SectorConfigRevisionService';
 import { getErrorMessage } from '@/lib/utils';
 
 export async function GET(
@@ -35,7 +41,7 @@ export async function GET(
       : (corporation.special_dividend_last_amount || null);
 
     // Calculate finances with full income statement (CEO salary subtracted before dividends)
-    const [finances, balanceSheet] = await Promise.all([
+    const [finances, balanceSheet, inventoryItems, inventoryActivity, contracts, contractActivity, configRevision] = await Promise.all([
       MarketEntryModel.calculateCorporationFinances(corpId, undefined, {
         ceo_salary: ceoSalary,
         dividend_percentage: dividendPercentage,
@@ -44,6 +50,14 @@ export async function GET(
         special_dividend_last_amount: specialDividendLastAmount,
       }),
       calculateBalanceSheet(corpId),
+      InventoryModel.findByCorporation(corpId),
+      // Actual stock movements and cost of goods sold over the display period
+      InventoryLedgerModel.summarize(corpId, DISPLAY_PERIOD_HOURS),
+      SupplyContractModel.findByCorporation(corpId, ['proposed', 'active']),
+      // Contract deliveries, payments and penalties over the same period
+      SupplyContractSettlementModel.summarize(corpId, DISPLAY_PERIOD_HOURS),
+      // Sector config revision the figures are calculated under
+      SectorConfigRevisionService.getActiveRevisionId(),
     ]);
 
     const entries = await MarketEntryModel.findByCorporationIdWithUnits(corpId);
@@ -80,6 +94,15 @@ export async function GET(
       finances,
       balance_sheet: balanceSheet,
       market_entries: marketsWithDetails,
+      inventory: {
+        items: inventoryItems,
+        activity: inventoryActivity,
+      },
+      contracts: {
+        items: contracts,
+        activity: contractActivity,
+      },
+      config_revision: configRevision,
     });
   } catch (error: unknown) {
     console.error('Get corporation finances error:', error);
@@ -0,0 +1,35 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { connectMongo } from '@/lib/db/mongo';
+import { MarketIndexHistoryModel } from '@/lib/models/MarketIndexHistory';
+import { MARKET_INDEX_CONFIG, isMarketIndexKey } from '@/lib/constants/marketIndices';
+import { getErrorMessage } from '@/lib/utils';
+
+export const dynamic = 'force-dynamic';
+
+// GET /api/markets/indices/:key/history?hours=168 - Recorded levels of an index, newest first
+export async function GET(
+  request: NextRequest,
+  { params }: { params: { key: string } }
+) {
+  try {
+    await connectMongo();
+    const indexKey = decodeURIComponent(params.key);
+    if (!isMarketIndexKey(indexKey)) {
+      return NextResponse.json({ error: 'Index not found' }, { status: 404 });
+    }
+
+    const searchParams = request.nextUrl.searchParams;
+    const hours = Math.min(
+      parseInt(searchParams.get('hours') || String(MARKET_INDEX_CONFIG.DEFAULT_HISTORY_HOURS), 10) || MARKET_INDEX_CONFIG.DEFAULT_HISTORY_HOURS,
+      MARKET_INDEX_CONFIG.MAX_HISTORY_HOURS
+    );
+    const limit = parseInt(searchParams.get('limit') || '1000', 10);
+
+    const history = await MarketIndexHistoryModel.findByIndexKey(indexKey, limit, hours);
+
+    return NextResponse.json(history);
+  } catch (error: unknown) {
+    console.error('Get market index history error:', error);
+    return NextResponse.json({ error: getErrorMessage(error, 'Failed to fetch market index history') }, { status: 500 });
+  }
+}
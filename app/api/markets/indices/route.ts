@@ -0,0 +1,18 @@
+import { NextResponse } from 'next/server';
+import { connectMongo } from '@/lib/db/mongo';
+import { MarketIndexService } from '@/lib/services/MarketIndexService';
+import { getErrorMessage } from '@/lib/utils';
+
+export const dynamic = 'force-dynamic';
+
+// GET /api/markets/indices - Latest level and daily change of every market index
+export async function GET() {
+  try {
+    await connectMongo();
+    const indices = await MarketIndexService.getIndexSummaries();
+    return NextResponse.json({ indices });
+  } catch (error: unknown) {
+    console.error('Get market indices error:', error);
+    return NextResponse.json({ error: getErrorMessage(error, 'Failed to fetch market indices') }, { status: 500 });
+  }
+}
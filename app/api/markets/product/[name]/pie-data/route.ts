@@ -9,6 +9,7 @@ import {
   type Sector,
   type Product
 } from '@/lib/constants/sectors';
+import { ResearchService } from '@/lib/services/ResearchService';
 import { getErrorMessage } from '@/lib/utils';
 
 export async function GET(
@@ -52,7 +53,10 @@ export async function GET(
     const top10SuppliersValue = suppliers.reduce((sum, p) => sum + p.value, 0);
 
     // Get all corporations with their unit counts for demand calculation
-    const allCorpUnitCounts = await MarketEntryModel.getAllCorporationUnitCounts();
+    const [allCorpUnitCounts, research] = await Promise.all([
+      MarketEntryModel.getAllCorporationUnitCounts(),
+      ResearchService.getAllModifiers(),
+    ]);
 
     // Calculate demand per corporation (aggregated across all their sectors)
     const demandByCorp: Record<number, { corporation_id: number; corporation_name: string; corporation_logo: string | null; value: number }> = {};
@@ -65,7 +69,12 @@ export async function GET(
         extraction: row.extraction_units,
       };
       
-      const demand = businessUnitCalculator.computeTotalProductDemand(row.sector_type, productName, counts);
+      const demand = businessUnitCalculator.computeTotalProductDemand(
+        row.sector_type,
+        productName,
+        counts,
+        research.get(row.corporation_id)?.[row.sector_type]
+      );
       
       if (demand > 0) {
         if (!demandByCorp[row.corporation_id]) {
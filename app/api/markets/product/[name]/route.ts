@@ -11,6 +11,7 @@ import {
   Product,
   Sector,
 } from '@/lib/constants/sectors';
+import { ResearchService } from '@/lib/services/ResearchService';
 import { getErrorMessage } from '@/lib/utils';
 
 export async function GET(
@@ -88,7 +89,10 @@ export async function GET(
 
     } else {
       // Get demanders - fetch all unit counts and calculate demand
-      const allUnits = await MarketEntryModel.getAllCorporationEntryUnits();
+      const [allUnits, research] = await Promise.all([
+        MarketEntryModel.getAllCorporationEntryUnits(),
+        ResearchService.getAllModifiers(),
+      ]);
       
       // Calculate actual demand per entry
       const entriesWithDemand = allUnits.map<MarketListItem>(row => {
@@ -98,7 +102,12 @@ export async function GET(
           service: row.service_units,
           extraction: row.extraction_units,
         };
-        const demand = businessUnitCalculator.computeTotalProductDemand(row.sector_type, productName, counts);
+        const demand = businessUnitCalculator.computeTotalProductDemand(
+          row.sector_type,
+          productName,
+          counts,
+          research.get(row.corporation_id)?.[row.sector_type]
+        );
         
         return {
           corporation_id: row.corporation_id,
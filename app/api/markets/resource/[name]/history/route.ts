@@ -1,8 +1,13 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { connectMongo } from '@/lib/db/mongo';
 import { CommodityPriceHistoryModel } from '@/lib/models/CommodityPriceHistory';
+import { PriceHistoryService } from '@/lib/services/PriceHistoryService';
+import { getInventoryItemType } from '@/lib/constants/inventory';
+import { PriceCandlesQuerySchema } from '@/lib/validations/candles';
 import { getErrorMessage } from '@/lib/utils';
 
+// GET /api/markets/resource/[name]/history?hours=96 - Hourly recorded prices, newest first
+// GET /api/markets/resource/[name]/history?resolution=day&count=30 - OHLC candles with indicators, volume and VWAP
 export async function GET(
   request: NextRequest,
   { params }: { params: { name: string } }
@@ -11,6 +16,27 @@ export async function GET(
     await connectMongo();
     const resourceName = decodeURIComponent(params.name);
     const searchParams = request.nextUrl.searchParams;
+
+    if (searchParams.has('resolution')) {
+      if (getInventoryItemType(resourceName) !== 'resource') {
+        return NextResponse.json({ error: 'Resource not found' }, { status: 404 });
+      }
+
+      const validated = PriceCandlesQuerySchema.safeParse({
+        resolution: searchParams.get('resolution'),
+        count: searchParams.get('count') ?? undefined,
+      });
+      if (!validated.success) {
+        return NextResponse.json(
+          { error: 'Validation failed', details: validated.error.issues },
+          { status: 400 }
+        );
+      }
+
+      const { resolution, count } = validated.data;
+      return NextResponse.json(await PriceHistoryService.getItemCandles('resource', resourceName, resolution, count));
+    }
+
     const hours = parseInt(searchParams.get('hours') || '96', 10);
     const limit = parseInt(searchParams.get('limit') || '1000', 10);
     
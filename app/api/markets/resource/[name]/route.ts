@@ -2,6 +2,9 @@ import { NextRequest, NextResponse } from 'next/server';
 import { connectMongo } from '@/lib/db/mongo';
 import { MarketEntryModel } from '@/lib/models/MarketEntry';
 import { marketDataService } from '@/lib/services/MarketDataService';
+import { StateResourceReserveModel } from '@/lib/models/StateResourceReserve';
+import { ResourceReserveHistoryModel } from '@/lib/models/ResourceReserveHistory';
+import { calculateReserveYield, getReserveCapacity } from '@/lib/constants/reserves';
 import {
   RESOURCES,
   SECTOR_EXTRACTION,
@@ -9,6 +12,7 @@ import {
   Sector,
   Resource,
   getResourceInfo,
+  getStateLabel,
   EXTRACTION_OUTPUT_RATE,
   PRODUCTION_RESOURCE_CONSUMPTION,
 } from '@/lib/constants/sectors';
@@ -102,6 +106,24 @@ export async function GET(
 
     const totalDemand = actualDemand;
 
+    // What is left in the ground, by state and nationally over time
+    await StateResourceReserveModel.seedMissing();
+    const [reserves, reserveHistory] = await Promise.all([
+      StateResourceReserveModel.findByResource(resourceName),
+      ResourceReserveHistoryModel.findNationalByResource(resourceName),
+    ]);
+    const reserveStates = reserves.map(reserve => {
+      const capacity = getReserveCapacity(reserve);
+      return {
+        state_code: reserve.state_code,
+        state_name: getStateLabel(reserve.state_code) || reserve.state_code,
+        remaining: reserve.remaining,
+        capacity,
+        discovered: reserve.discovered,
+        yield: calculateReserveYield(reserve.remaining, capacity),
+      };
+    });
+
     return NextResponse.json({
       resource: resourceName,
       price: commodityPrice,
@@ -119,6 +141,16 @@ export async function GET(
         total: totalCount,
         total_pages: Math.ceil(totalCount / limit),
       },
+      reserves: {
+        states: reserveStates,
+        total_remaining: reserveStates.reduce((sum, state) => sum + state.remaining, 0),
+        total_capacity: reserveStates.reduce((sum, state) => sum + state.capacity, 0),
+        history: reserveHistory.map(row => ({
+          remaining: row.remaining,
+          capacity: row.capacity,
+          recorded_at: row.recorded_at.toISOString(),
+        })),
+      },
     });
 
   } catch (error: unknown) {
@@ -0,0 +1,54 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getAuthUserId } from '@/lib/auth';
+import { connectMongo } from '@/lib/db/mongo';
+import { CorporationModel } from '@/lib/models/Corporation';
+import { CommodityOrderModel } from '@/lib/models/CommodityOrder';
+import { CommodityMarketService } from '@/lib/services/CommodityMarketService';
+import { getErrorMessage } from '@/lib/utils';
+
+// DELETE /api/markets/spot/:item/orders/:orderId - Cancel an open order and release its escrow
+export async function DELETE(
+  req: NextRequest,
+  { params }: { params: { item: string; orderId: string } }
+) {
+  try {
+    await connectMongo();
+    const userId = await getAuthUserId(req);
+    if (!userId) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const item = decodeURIComponent(params.item);
+    const orderId = parseInt(params.orderId, 10);
+
+    if (isNaN(orderId)) {
+      return NextResponse.json({ error: 'Invalid order ID' }, { status: 400 });
+    }
+
+    const order = await CommodityOrderModel.findById(orderId);
+    if (!order || order.item !== item) {
+      return NextResponse.json({ error: 'Order not found' }, { status: 404 });
+    }
+
+    // Whoever is CEO now may cancel, even if the order was placed by a predecessor
+    const corporation = await CorporationModel.findById(order.corporation_id);
+    const isCEO = corporation && (corporation.ceo_id === userId || corporation.elected_ceo_id === userId);
+    if (!isCEO) {
+      return NextResponse.json({ error: "You can only cancel your corporation's orders" }, { status: 403 });
+    }
+
+    if (order.status !== 'open') {
+      return NextResponse.json({ error: `Order is already ${order.status}` }, { status: 400 });
+    }
+
+    const cancelled = await CommodityMarketService.cancelOrder(orderId);
+    if (!cancelled) {
+      return NextResponse.json({ error: 'Order is no longer open' }, { status: 400 });
+    }
+
+    return NextResponse.json({ success: true, order: cancelled });
+  } catch (error: unknown) {
+    console.error('Cancel spot order error:', error);
+    return NextResponse.json({ error: getErrorMessage(error, 'Failed to cancel order') }, { status: 500 });
+  }
+}
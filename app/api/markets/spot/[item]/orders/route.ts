@@ -0,0 +1,175 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getAuthUserId } from '@/lib/auth';
+import { connectMongo } from '@/lib/db/mongo';
+import { CorporationModel } from '@/lib/models/Corporation';
+import { CommodityOrderModel } from '@/lib/models/CommodityOrder';
+import { CommodityTradeModel } from '@/lib/models/CommodityTrade';
+import { InventoryModel } from '@/lib/models/Inventory';
+import { CommodityMarketService } from '@/lib/services/CommodityMarketService';
+import { TradeSettlementError } from '@/lib/services/TradeSettlementService';
+import { PlaceCommodityOrderSchema, ListCommodityOrdersSchema } from '@/lib/validations/commodities';
+import { SPOT_MARKET_CONFIG } from '@/lib/constants/orders';
+import { getInventoryItemType, roundQuantity } from '@/lib/constants/inventory';
+import { isValidStateCode } from '@/lib/constants/sectors';
+import { getErrorMessage } from '@/lib/utils';
+
+export const dynamic = 'force-dynamic';
+
+// GET /api/markets/spot/:item/orders - Book depth, recent fills and a page of orders (?corporationId= for one corporation's)
+export async function GET(
+  req: NextRequest,
+  { params }: { params: { item: string } }
+) {
+  try {
+    await connectMongo();
+    const item = decodeURIComponent(params.item);
+
+    if (!getInventoryItemType(item)) {
+      return NextResponse.json({ error: 'Item not found' }, { status: 404 });
+    }
+
+    const searchParams = req.nextUrl.searchParams;
+    const validated = ListCommodityOrdersSchema.safeParse({
+      status: searchParams.get('status') || undefined,
+      side: searchParams.get('side') || undefined,
+      corporationId: searchParams.has('corporationId') ? parseInt(searchParams.get('corporationId')!, 10) : undefined,
+      page: searchParams.has('page') ? parseInt(searchParams.get('page')!, 10) : undefined,
+      limit: searchParams.has('limit') ? parseInt(searchParams.get('limit')!, 10) : undefined,
+    });
+
+    if (!validated.success) {
+      return NextResponse.json(
+        { error: 'Validation failed', details: validated.error.issues },
+        { status: 400 }
+      );
+    }
+
+    const { status, side, corporationId, page, limit } = validated.data;
+
+    const [depth, trades, orders] = await Promise.all([
+      CommodityOrderModel.getBookDepth(item, SPOT_MARKET_CONFIG.BOOK_DEPTH_LEVELS),
+      CommodityTradeModel.findByItem(item, SPOT_MARKET_CONFIG.RECENT_TRADES),
+      CommodityOrderModel.findByItem(
+        item,
+        { corporation_id: corporationId, side, status: status ?? (corporationId ? undefined : 'open') },
+        limit,
+        (page - 1) * limit
+      ),
+    ]);
+
+    const bestBid = depth.bids[0]?.price ?? null;
+    const bestAsk = depth.asks[0]?.price ?? null;
+
+    return NextResponse.json({
+      item,
+      bids: depth.bids,
+      asks: depth.asks,
+      best_bid: bestBid,
+      best_ask: bestAsk,
+      spread: bestBid !== null && bestAsk !== null ? Math.round((bestAsk - bestBid) * 100) / 100 : null,
+      last_price: trades[0]?.price ?? null,
+      trades,
+      orders,
+      page,
+      limit,
+    });
+  } catch (error: unknown) {
+    console.error('Get spot order book error:', error);
+    return NextResponse.json({ error: getErrorMessage(error, 'Failed to fetch order book') }, { status: 500 });
+  }
+}
+
+// POST /api/markets/spot/:item/orders - Place a limit order for a corporation; it matches immediately where it crosses and rests otherwise
+export async function POST(
+  req: NextRequest,
+  { params }: { params: { item: string } }
+) {
+  try {
+    await connectMongo();
+    const userId = await getAuthUserId(req);
+    if (!userId) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const item = decodeURIComponent(params.item);
+    const itemType = getInventoryItemType(item);
+    if (!itemType) {
+      return NextResponse.json({ error: 'Item not found' }, { status: 404 });
+    }
+
+    const body = await req.json();
+    const validated = PlaceCommodityOrderSchema.safeParse(body);
+
+    if (!validated.success) {
+      return NextResponse.json(
+        { error: 'Validation failed', details: validated.error.issues },
+        { status: 400 }
+      );
+    }
+
+    const { corporationId, stateCode, side, quantity, limitPrice, expiresInHours } = validated.data;
+
+    if (!isValidStateCode(stateCode)) {
+      return NextResponse.json({ error: 'Invalid state code' }, { status: 400 });
+    }
+
+    const corporation = await CorporationModel.findById(corporationId);
+    if (!corporation) {
+      return NextResponse.json({ error: 'Corporation not found' }, { status: 404 });
+    }
+
+    const isCEO = corporation.ceo_id === userId || corporation.elected_ceo_id === userId;
+    if (!isCEO) {
+      return NextResponse.json({ error: 'Only the CEO can trade on behalf of the corporation' }, { status: 403 });
+    }
+
+    const openOrders = await CommodityOrderModel.countOpenByCorporation(corporationId);
+    if (openOrders >= SPOT_MARKET_CONFIG.MAX_OPEN_ORDERS_PER_CORPORATION) {
+      return NextResponse.json({
+        error: `A corporation may have at most ${SPOT_MARKET_CONFIG.MAX_OPEN_ORDERS_PER_CORPORATION} open spot orders`,
+      }, { status: 400 });
+    }
+
+    if (side === 'buy') {
+      const totalCost = limitPrice * quantity;
+      const capital = typeof corporation.capital === 'string' ? parseFloat(corporation.capital) : corporation.capital;
+      if (capital < totalCost) {
+        return NextResponse.json({
+          error: `Insufficient capital. The corporation has ${capital.toLocaleString('en-US', { style: 'currency', currency: 'USD' })} but needs ${totalCost.toLocaleString('en-US', { style: 'currency', currency: 'USD' })}`
+        }, { status: 400 });
+      }
+    } else {
+      const holding = await InventoryModel.findHolding(corporationId, stateCode, item);
+      if (!holding || holding.quantity < quantity) {
+        return NextResponse.json({
+          error: `Insufficient stock. The corporation holds ${holding?.quantity || 0} ${item} in ${stateCode}.`
+        }, { status: 400 });
+      }
+    }
+
+    const result = await CommodityMarketService.placeOrder({
+      corporationId,
+      userId,
+      item,
+      itemType,
+      stateCode,
+      side,
+      quantity,
+      limitPrice,
+      expiresAt: new Date(Date.now() + expiresInHours * 60 * 60 * 1000),
+    });
+
+    return NextResponse.json({
+      success: true,
+      order: result.order,
+      fills: result.fills,
+      quantity_filled: roundQuantity(result.fills.reduce((sum, fill) => sum + fill.quantity, 0)),
+    }, { status: 201 });
+  } catch (error: unknown) {
+    if (error instanceof TradeSettlementError) {
+      return NextResponse.json({ error: error.message }, { status: 400 });
+    }
+    console.error('Place spot order error:', error);
+    return NextResponse.json({ error: getErrorMessage(error, 'Failed to place order') }, { status: 500 });
+  }
+}
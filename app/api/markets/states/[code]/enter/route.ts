@@ -5,8 +5,10 @@ import { CorporationModel } from '@/lib/models/Corporation';
 import { UserModel } from '@/lib/models/User';
 import { MarketEntryModel } from '@/lib/models/MarketEntry';
 import { TransactionModel } from '@/lib/models/Transaction';
+import { BoardModel } from '@/lib/models/BoardProposal';
 import { ACTIONS_CONFIG } from '@/lib/constants/actions';
 import { marketDataService } from '@/lib/services/MarketDataService';
+import { NotificationService } from '@/lib/services/NotificationService';
 import { getErrorMessage } from '@/lib/utils';
 import {
   isValidStateCode,
@@ -106,6 +108,18 @@ export async function POST(
 
     try { marketDataService.invalidateAll(); } catch {}
 
+    const boardMembers = await BoardModel.getBoardMembers(corporation_id);
+    await NotificationService.notify(
+      boardMembers.map(member => member.user_id).filter(id => id !== userId),
+      {
+        category: 'market_entry',
+        title: `${corporation.name} entered ${getStateLabel(stateCode) || stateCode}`,
+        body: `${corporation.name} now operates in the ${sector_type} sector in ${getStateLabel(stateCode) || stateCode}.`,
+        link: `/corporation/${corporation_id}`,
+        corporation_id,
+      }
+    );
+
     return NextResponse.json({
       success: true,
       market_entry: marketEntry,
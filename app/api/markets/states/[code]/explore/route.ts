@@ -0,0 +1,59 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { connectMongo } from '@/lib/db/mongo';
+import { getAuthUserId } from '@/lib/auth';
+import { ResourceReserveService, ResourceReserveError } from '@/lib/services/ResourceReserveService';
+import { ExploreResourceSchema } from '@/lib/validations/reserves';
+import { isValidStateCode } from '@/lib/constants/sectors';
+import { getReserveCapacity } from '@/lib/constants/reserves';
+import { getErrorMessage } from '@/lib/utils';
+
+// POST /api/markets/states/:code/explore - Survey a state for more of a resource
+export async function POST(
+  req: NextRequest,
+  { params }: { params: { code: string } }
+) {
+  try {
+    await connectMongo();
+    const userId = await getAuthUserId(req);
+    if (!userId) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const stateCode = params.code.toUpperCase();
+    if (!isValidStateCode(stateCode)) {
+      return NextResponse.json({ error: 'Invalid state code' }, { status: 400 });
+    }
+
+    const body = await req.json();
+    const validated = ExploreResourceSchema.safeParse(body);
+    if (!validated.success) {
+      return NextResponse.json(
+        { error: 'Validation failed', details: validated.error.issues },
+        { status: 400 }
+      );
+    }
+
+    const { corporationId, resource } = validated.data;
+    const { exploration, reserve } = await ResourceReserveService.explore({
+      corporation_id: corporationId,
+      user_id: userId,
+      state_code: stateCode,
+      resource,
+    });
+
+    return NextResponse.json({
+      success: true,
+      exploration,
+      reserve: reserve && {
+        ...reserve,
+        capacity: getReserveCapacity(reserve),
+      },
+    }, { status: 201 });
+  } catch (error: unknown) {
+    if (error instanceof ResourceReserveError) {
+      return NextResponse.json({ error: error.message }, { status: 400 });
+    }
+    console.error('Explore resources error:', error);
+    return NextResponse.json({ error: getErrorMessage(error, 'Failed to explore for resources') }, { status: 500 });
+  }
+}
@@ -5,18 +5,25 @@ import { StateMetadataModel } from '@/lib/models/StateMetadata';
 import { MarketEntryModel } from '@/lib/models/MarketEntry';
 import { CorporationModel } from '@/lib/models/Corporation';
 import { BusinessUnitModel } from '@/lib/models/BusinessUnit';
+import { StateResourceReserveModel } from '@/lib/models/StateResourceReserve';
+import { ResourceReserveHistoryModel } from '@/lib/models/ResourceReserveHistory';
+import { ResourceExplorationModel } from '@/lib/models/ResourceExploration';
 import { normalizeImageUrl } from '@/lib/utils/imageUrl';
 import { getErrorMessage } from '@/lib/utils';
 import {
   SECTORS,
   SECTOR_RESOURCES,
+  RESOURCES,
+  PRODUCTS,
   isValidStateCode,
   getStateMultiplier,
   getStateSectorCapacity,
   getStateCapacityTier,
   getStateResources,
+  getStateRegion,
 } from '@/lib/constants/sectors';
 import { marketDataService } from '@/lib/services/MarketDataService';
+import { RESERVE_CONFIG, calculateReserveYield, getReserveCapacity } from '@/lib/constants/reserves';
 
 // GET /api/markets/states/:code - Get state details
 export async function GET(
@@ -170,6 +177,50 @@ export async function GET(
       totalResourceValue: totalStateValue,
     };
 
+    // Local prices against national prices; they diverge with the cost of shipping between regions
+    const marketData = await MarketEntryModel.getMarketData();
+    const region = getStateRegion(stateCode) ?? null;
+    const nationalPrices: Record<string, number> = { ...marketData.commodityPrices, ...marketData.productPrices };
+    const localPrices = marketData.localPrices[stateCode] ?? {};
+    const priceItems = [
+      ...RESOURCES.map(item => ({ item, item_type: 'resource' as const })),
+      ...PRODUCTS.map(item => ({ item, item_type: 'product' as const })),
+    ].map(({ item, item_type }) => {
+      const nationalPrice = nationalPrices[item] ?? 0;
+      const localPrice = localPrices[item] ?? nationalPrice;
+      const balance = region ? marketData.regionalBalances[item]?.[region] : undefined;
+      return {
+        item,
+        item_type,
+        national_price: nationalPrice,
+        local_price: localPrice,
+        difference_pct: nationalPrice > 0 ? ((localPrice - nationalPrice) / nationalPrice) * 100 : 0,
+        local_supply: balance?.supply ?? 0,
+        local_demand: balance?.demand ?? 0,
+      };
+    });
+
+    // Remaining reserves, their history and recent exploration
+    await StateResourceReserveModel.seedMissing();
+    const [reserves, reserveHistory, explorations] = await Promise.all([
+      StateResourceReserveModel.findByState(stateCode),
+      ResourceReserveHistoryModel.findByState(stateCode),
+      ResourceExplorationModel.findByState(stateCode, 10),
+    ]);
+    const reserveItems = reserves.map(reserve => {
+      const capacity = getReserveCapacity(reserve);
+      return {
+        resource: reserve.resource,
+        original_amount: reserve.original_amount,
+        discovered: reserve.discovered,
+        extracted: reserve.extracted,
+        remaining: reserve.remaining,
+        capacity,
+        remaining_pct: capacity > 0 ? (reserve.remaining / capacity) * 100 : 0,
+        yield: calculateReserveYield(reserve.remaining, capacity),
+      };
+    });
+
     // Build sector_resources mapping
     const sectorResources: Record<string, string | null> = {};
     for (const sector of SECTORS) {
@@ -193,6 +244,28 @@ export async function GET(
       resources: resourceBreakdown,
       user_corporation: userCorporation,
       user_market_entries: userMarketEntries,
+      prices: {
+        region,
+        items: priceItems,
+      },
+      reserves: {
+        items: reserveItems,
+        history: reserveHistory.map(row => ({
+          resource: row.resource,
+          remaining: row.remaining,
+          capacity: row.capacity,
+          recorded_at: row.recorded_at.toISOString(),
+        })),
+        explorations: explorations.map(row => ({
+          id: row.id,
+          corporation_id: row.corporation_id,
+          resource: row.resource,
+          discovered: row.discovered,
+          created_at: row.created_at.toISOString(),
+        })),
+        exploration_cost: RESERVE_CONFIG.EXPLORATION_COST,
+        exploration_cooldown_hours: RESERVE_CONFIG.EXPLORATION_COOLDOWN_HOURS,
+      },
     });
   } catch (error: unknown) {
     console.error('Get state detail error:', error);
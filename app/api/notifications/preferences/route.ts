@@ -0,0 +1,49 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getAuthUserId } from '@/lib/auth';
+import { connectMongo } from '@/lib/db/mongo';
+import { NotificationService } from '@/lib/services/NotificationService';
+import { UpdateNotificationPreferencesSchema } from '@/lib/validations/notifications';
+import { getErrorMessage } from '@/lib/utils';
+
+// GET /api/notifications/preferences - The viewer's delivery choice per category
+export async function GET(request: NextRequest) {
+  try {
+    await connectMongo();
+    const userId = await getAuthUserId(request);
+    if (!userId) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const preferences = await NotificationService.getPreferences(userId);
+    return NextResponse.json({ preferences });
+  } catch (error: unknown) {
+    console.error('Get notification preferences error:', error);
+    return NextResponse.json({ error: getErrorMessage(error, 'Failed to fetch notification preferences') }, { status: 500 });
+  }
+}
+
+// PUT /api/notifications/preferences - Replace the viewer's notification preferences
+export async function PUT(request: NextRequest) {
+  try {
+    await connectMongo();
+    const userId = await getAuthUserId(request);
+    if (!userId) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const body = await request.json();
+    const validated = UpdateNotificationPreferencesSchema.safeParse(body);
+    if (!validated.success) {
+      return NextResponse.json(
+        { error: 'Validation failed', details: validated.error.issues },
+        { status: 400 }
+      );
+    }
+
+    const preferences = await NotificationService.updatePreferences(userId, validated.data.preferences);
+    return NextResponse.json({ success: true, preferences });
+  } catch (error: unknown) {
+    console.error('Update notification preferences error:', error);
+    return NextResponse.json({ error: getErrorMessage(error, 'Failed to update notification preferences') }, { status: 500 });
+  }
+}
@@ -0,0 +1,34 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getAuthUserId } from '@/lib/auth';
+import { connectMongo } from '@/lib/db/mongo';
+import { NotificationModel } from '@/lib/models/Notification';
+import { MarkNotificationsReadSchema } from '@/lib/validations/notifications';
+import { getErrorMessage } from '@/lib/utils';
+
+// POST /api/notifications/read - Mark notifications read (all of the viewer's without ids)
+export async function POST(request: NextRequest) {
+  try {
+    await connectMongo();
+    const userId = await getAuthUserId(request);
+    if (!userId) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const body = await request.json().catch(() => ({}));
+    const validated = MarkNotificationsReadSchema.safeParse(body);
+    if (!validated.success) {
+      return NextResponse.json(
+        { error: 'Validation failed', details: validated.error.issues },
+        { status: 400 }
+      );
+    }
+
+    const updated = await NotificationModel.markRead(userId, validated.data.ids);
+    const unread = await NotificationModel.countUnread(userId);
+
+    return NextResponse.json({ success: true, updated, unread });
+  } catch (error: unknown) {
+    console.error('Mark notifications read error:', error);
+    return NextResponse.json({ error: getErrorMessage(error, 'Failed to mark notifications read') }, { status: 500 });
+  }
+}
@@ -0,0 +1,24 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getAuthUserId } from '@/lib/auth';
+import { connectMongo } from '@/lib/db/mongo';
+import { NotificationService } from '@/lib/services/NotificationService';
+import { getErrorMessage } from '@/lib/utils';
+
+// GET /api/notifications?unread=true - The viewer's latest notifications and unread count
+export async function GET(request: NextRequest) {
+  try {
+    await connectMongo();
+    const userId = await getAuthUserId(request);
+    if (!userId) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const unreadOnly = request.nextUrl.searchParams.get('unread') === 'true';
+    const result = await NotificationService.list(userId, unreadOnly);
+
+    return NextResponse.json(result);
+  } catch (error: unknown) {
+    console.error('Get notifications error:', error);
+    return NextResponse.json({ error: getErrorMessage(error, 'Failed to fetch notifications') }, { status: 500 });
+  }
+}
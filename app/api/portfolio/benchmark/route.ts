@@ -0,0 +1,23 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getAuthUserId } from '@/lib/auth';
+import { connectMongo } from '@/lib/db/mongo';
+import { MarketIndexService } from '@/lib/services/MarketIndexService';
+import { getErrorMessage } from '@/lib/utils';
+
+export const dynamic = 'force-dynamic';
+
+// GET /api/portfolio/benchmark - The viewer's holdings against their sector indices, and the portfolio against the market
+export async function GET(request: NextRequest) {
+  try {
+    await connectMongo();
+    const userId = await getAuthUserId(request);
+    if (!userId) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    return NextResponse.json(await MarketIndexService.getPortfolioBenchmark(userId));
+  } catch (error: unknown) {
+    console.error('Get portfolio benchmark error:', error);
+    return NextResponse.json({ error: getErrorMessage(error, 'Failed to fetch portfolio benchmark') }, { status: 500 });
+  }
+}
@@ -0,0 +1,22 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { requireAdmin } from '@/lib/auth';
+import { ProductionChainService } from '@/lib/services/ProductionChainService';
+import { getErrorMessage } from '@/lib/utils';
+
+export const dynamic = 'force-dynamic';
+
+// GET /api/sector-config/admin/analysis - Production chain integrity report at current prices
+export async function GET(req: NextRequest) {
+  try {
+    await requireAdmin(req);
+    const report = await ProductionChainService.analyze();
+    return NextResponse.json(report);
+  } catch (error: unknown) {
+    const errorMessage = getErrorMessage(error);
+    if (errorMessage === 'Unauthorized' || errorMessage === 'Forbidden') {
+      return NextResponse.json({ error: errorMessage }, { status: 401 });
+    }
+    console.error('Failed to analyze production chain:', error);
+    return NextResponse.json({ error: getErrorMessage(error, 'Failed to analyze production chain') }, { status: 500 });
+  }
+}
@@ -0,0 +1,46 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { requireAdmin } from '@/lib/auth';
+import { SectorConfigService } from '@/lib/services/SectorConfigService';
+import { sectorConfigToCsv } from '@/lib/constants/configTransfer';
+import { toSnapshot } from '@/lib/constants/configRevisions';
+import { getErrorMessage } from '@/lib/utils';
+
+export const dynamic = 'force-dynamic';
+
+// GET /api/sector-config/admin/export?format=json|csv - Download the complete configuration
+export async function GET(req: NextRequest) {
+  try {
+    await requireAdmin(req);
+
+    const format = req.nextUrl.searchParams.get('format') ?? 'json';
+    if (format !== 'json' && format !== 'csv') {
+      return NextResponse.json({ error: 'Format must be json or csv' }, { status: 400 });
+    }
+
+    const config = await SectorConfigService.getConfiguration();
+    const stamp = new Date().toISOString().slice(0, 10);
+
+    if (format === 'csv') {
+      return new NextResponse(sectorConfigToCsv(toSnapshot(config)), {
+        headers: {
+          'Content-Type': 'text/csv; charset=utf-8',
+          'Content-Disposition': `attachment; filename="sector-config-${stamp}.csv"`,
+        },
+      });
+    }
+
+    return new NextResponse(JSON.stringify(config, null, 2), {
+      headers: {
+        'Content-Type': 'application/json',
+        'Content-Disposition': `attachment; filename="sector-config-${stamp}.json"`,
+      },
+    });
+  } catch (error: unknown) {
+    const errorMessage = getErrorMessage(error);
+    if (errorMessage === 'Unauthorized' || errorMessage === 'Forbidden') {
+      return NextResponse.json({ error: errorMessage }, { status: 401 });
+    }
+    console.error('Failed to export sector config:', error);
+    return NextResponse.json({ error: getErrorMessage(error, 'Failed to export sector config') }, { status: 500 });
+  }
+}
@@ -0,0 +1,64 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { requireAdmin } from '@/lib/auth';
+import { SectorConfigImportError } from '@/lib/services/SectorConfigService';
+import { SectorConfigRevisionService } from '@/lib/services/SectorConfigRevisionService';
+import { ImportSectorConfigSchema, SectorConfigSnapshotSchema } from '@/lib/validations/sector-config';
+import { parseSectorConfigCsv } from '@/lib/constants/configTransfer';
+import { toSnapshot } from '@/lib/constants/configRevisions';
+import { getErrorMessage } from '@/lib/utils';
+
+// POST /api/sector-config/admin/import - Replace the complete configuration from JSON or CSV.
+// Every change, and the revision recording it, is applied in one transaction, or none is.
+export async function POST(req: NextRequest) {
+  try {
+    const admin = await requireAdmin(req);
+
+    const body = await req.json();
+    const validated = ImportSectorConfigSchema.safeParse(body);
+    if (!validated.success) {
+      return NextResponse.json(
+        { error: 'Validation failed', details: validated.error.issues },
+        { status: 400 }
+      );
+    }
+
+    let raw: unknown;
+    if (validated.data.format === 'csv') {
+      const parsed = parseSectorConfigCsv(validated.data.csv);
+      if (parsed.errors.length > 0) {
+        return NextResponse.json({ error: 'Invalid CSV', details: parsed.errors }, { status: 400 });
+      }
+      raw = parsed.config;
+    } else {
+      raw = validated.data.config;
+    }
+
+    const config = SectorConfigSnapshotSchema.safeParse(raw);
+    if (!config.success) {
+      return NextResponse.json(
+        { error: 'Validation failed', details: config.error.issues },
+        { status: 400 }
+      );
+    }
+
+    const reason = validated.data.reason || `Imported configuration (${validated.data.format.toUpperCase()})`;
+    const revision = await SectorConfigRevisionService.importConfiguration(toSnapshot(config.data), admin, reason);
+
+    return NextResponse.json({
+      message: revision
+        ? `Imported configuration: ${revision.changes.length} ${revision.changes.length === 1 ? 'change' : 'changes'}`
+        : 'Imported configuration: no changes',
+      revision,
+    });
+  } catch (error: unknown) {
+    if (error instanceof SectorConfigImportError) {
+      return NextResponse.json({ error: error.message, details: error.errors }, { status: 400 });
+    }
+    const errorMessage = getErrorMessage(error);
+    if (errorMessage === 'Unauthorized' || errorMessage === 'Forbidden') {
+      return NextResponse.json({ error: errorMessage }, { status: 401 });
+    }
+    console.error('Failed to import sector config:', error);
+    return NextResponse.json({ error: getErrorMessage(error, 'Failed to import sector config') }, { status: 500 });
+  }
+}
@@ -1,7 +1,7 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { requireAdmin } from '@/lib/auth';
 import { SectorConfigModel } from '@/lib/models/SectorConfig';
-import { SectorConfigService } from '@/lib/services/SectorConfigService';
+import { SectorConfigRevisionService } from '@/lib/services/SectorConfigRevisionService';
 import { getErrorMessage } from '@/lib/utils';
 
 export async function PUT(
@@ -9,7 +9,7 @@ export async function PUT(
   { params }: { params: { id: string } }
 ) {
   try {
-    await requireAdmin(req);
+    const admin = await requireAdmin(req);
     const id = parseInt(params.id);
     const body = await req.json();
     const { consumption_rate } = body;
@@ -18,13 +18,18 @@ export async function PUT(
       return NextResponse.json({ error: 'consumption_rate is required and must be a number' }, { status: 400 });
     }
 
-    const updated = await SectorConfigModel.updateInput(id, Number(consumption_rate));
+    const updated = await SectorConfigRevisionService.applyEdit(async (session) => {
+      const input = await SectorConfigModel.updateInput(id, Number(consumption_rate), session);
+      if (input) {
+        await SectorConfigRevisionService.recordEdit(admin, `Updated ${input.input_name} input of ${input.sector_name} ${input.unit_type} unit`, session);
+      }
+      return input;
+    });
 
     if (!updated) {
       return NextResponse.json({ error: 'Input not found' }, { status: 404 });
     }
 
-    SectorConfigService.invalidateCache();
     return NextResponse.json(updated);
   } catch (error: unknown) {
     const errorMessage = getErrorMessage(error);
@@ -41,15 +46,17 @@ export async function DELETE(
   { params }: { params: { id: string } }
 ) {
   try {
-    await requireAdmin(req);
+    const admin = await requireAdmin(req);
     const id = parseInt(params.id);
 
     if (isNaN(id)) {
       return NextResponse.json({ error: 'Invalid input ID' }, { status: 400 });
     }
 
-    await SectorConfigModel.deleteInput(id);
-    SectorConfigService.invalidateCache();
+    await SectorConfigRevisionService.applyEdit(async (session) => {
+      await SectorConfigModel.deleteInput(id, session);
+      await SectorConfigRevisionService.recordEdit(admin, `Removed input ${id}`, session);
+    });
     return NextResponse.json({ message: 'Input deleted successfully' });
   } catch (error: unknown) {
     const errorMessage = getErrorMessage(error);
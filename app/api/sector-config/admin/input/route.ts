@@ -1,12 +1,12 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { requireAdmin } from '@/lib/auth';
 import { SectorConfigModel, UnitType } from '@/lib/models/SectorConfig';
-import { SectorConfigService } from '@/lib/services/SectorConfigService';
+import { SectorConfigRevisionService } from '@/lib/services/SectorConfigRevisionService';
 import { getErrorMessage } from '@/lib/utils';
 
 export async function POST(req: NextRequest) {
   try {
-    await requireAdmin(req);
+    const admin = await requireAdmin(req);
     const body = await req.json();
     const { sectorName, unitType, inputName, inputType, consumptionRate } = body;
 
@@ -28,15 +28,18 @@ export async function POST(req: NextRequest) {
       return NextResponse.json({ error: 'Invalid unit type' }, { status: 400 });
     }
 
-    const created = await SectorConfigModel.createInput({
-      sectorName,
-      unitType: unitType as UnitType,
-      inputName,
-      inputType,
-      consumptionRate: Number(consumptionRate),
+    const created = await SectorConfigRevisionService.applyEdit(async (session) => {
+      const input = await SectorConfigModel.createInput({
+        sectorName,
+        unitType: unitType as UnitType,
+        inputName,
+        inputType,
+        consumptionRate: Number(consumptionRate),
+      }, session);
+      await SectorConfigRevisionService.recordEdit(admin, `Added ${inputName} input to ${sectorName} ${unitType} unit`, session);
+      return input;
     });
 
-    SectorConfigService.invalidateCache();
     return NextResponse.json({ id: created.id, message: 'Input created successfully', input: created }, { status: 201 });
   } catch (error: unknown) {
     const errorMessage = getErrorMessage(error);
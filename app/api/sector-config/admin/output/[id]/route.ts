@@ -1,7 +1,7 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { requireAdmin } from '@/lib/auth';
 import { SectorConfigModel } from '@/lib/models/SectorConfig';
-import { SectorConfigService } from '@/lib/services/SectorConfigService';
+import { SectorConfigRevisionService } from '@/lib/services/SectorConfigRevisionService';
 import { getErrorMessage } from '@/lib/utils';
 
 export async function PUT(
@@ -9,7 +9,7 @@ export async function PUT(
   { params }: { params: { id: string } }
 ) {
   try {
-    await requireAdmin(req);
+    const admin = await requireAdmin(req);
     const id = parseInt(params.id);
     const body = await req.json();
     const { output_rate } = body;
@@ -18,13 +18,18 @@ export async function PUT(
       return NextResponse.json({ error: 'output_rate is required and must be a number' }, { status: 400 });
     }
 
-    const updated = await SectorConfigModel.updateOutput(id, Number(output_rate));
+    const updated = await SectorConfigRevisionService.applyEdit(async (session) => {
+      const output = await SectorConfigModel.updateOutput(id, Number(output_rate), session);
+      if (output) {
+        await SectorConfigRevisionService.recordEdit(admin, `Updated ${output.output_name} output of ${output.sector_name} ${output.unit_type} unit`, session);
+      }
+      return output;
+    });
 
     if (!updated) {
       return NextResponse.json({ error: 'Output not found' }, { status: 404 });
     }
 
-    SectorConfigService.invalidateCache();
     return NextResponse.json(updated);
   } catch (error: unknown) {
     const errorMessage = getErrorMessage(error);
@@ -41,15 +46,17 @@ export async function DELETE(
   { params }: { params: { id: string } }
 ) {
   try {
-    await requireAdmin(req);
+    const admin = await requireAdmin(req);
     const id = parseInt(params.id);
 
     if (isNaN(id)) {
       return NextResponse.json({ error: 'Invalid output ID' }, { status: 400 });
     }
 
-    await SectorConfigModel.deleteOutput(id);
-    SectorConfigService.invalidateCache();
+    await SectorConfigRevisionService.applyEdit(async (session) => {
+      await SectorConfigModel.deleteOutput(id, session);
+      await SectorConfigRevisionService.recordEdit(admin, `Removed output ${id}`, session);
+    });
     return NextResponse.json({ message: 'Output deleted successfully' });
   } catch (error: unknown) {
     const errorMessage = getErrorMessage(error);
@@ -1,12 +1,12 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { requireAdmin } from '@/lib/auth';
 import { SectorConfigModel, UnitType } from '@/lib/models/SectorConfig';
-import { SectorConfigService } from '@/lib/services/SectorConfigService';
+import { SectorConfigRevisionService } from '@/lib/services/SectorConfigRevisionService';
 import { getErrorMessage } from '@/lib/utils';
 
 export async function POST(req: NextRequest) {
   try {
-    await requireAdmin(req);
+    const admin = await requireAdmin(req);
     const body = await req.json();
     const { sectorName, unitType, outputName, outputType, outputRate } = body;
 
@@ -28,15 +28,18 @@ export async function POST(req: NextRequest) {
       return NextResponse.json({ error: 'Invalid unit type' }, { status: 400 });
     }
 
-    const created = await SectorConfigModel.createOutput({
-      sectorName,
-      unitType: unitType as UnitType,
-      outputName,
-      outputType,
-      outputRate: Number(outputRate),
+    const created = await SectorConfigRevisionService.applyEdit(async (session) => {
+      const output = await SectorConfigModel.createOutput({
+        sectorName,
+        unitType: unitType as UnitType,
+        outputName,
+        outputType,
+        outputRate: Number(outputRate),
+      }, session);
+      await SectorConfigRevisionService.recordEdit(admin, `Added ${outputName} output to ${sectorName} ${unitType} unit`, session);
+      return output;
     });
 
-    SectorConfigService.invalidateCache();
     return NextResponse.json({ id: created.id, message: 'Output created successfully', output: created }, { status: 201 });
   } catch (error: unknown) {
     const errorMessage = getErrorMessage(error);
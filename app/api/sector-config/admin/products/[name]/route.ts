@@ -1,7 +1,7 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { requireAdmin } from '@/lib/auth';
 import { SectorConfigModel } from '@/lib/models/SectorConfig';
-import { SectorConfigService } from '@/lib/services/SectorConfigService';
+import { SectorConfigRevisionService } from '@/lib/services/SectorConfigRevisionService';
 import { getErrorMessage } from '@/lib/utils';
 
 export async function PUT(
@@ -9,21 +9,24 @@ export async function PUT(
   { params }: { params: { name: string } }
 ) {
   try {
-    await requireAdmin(req);
+    const admin = await requireAdmin(req);
     const { name } = params;
     const body = await req.json();
     const { reference_value, min_price } = body;
 
-    const updated = await SectorConfigModel.updateProduct(name, {
-      reference_value: reference_value !== undefined ? Number(reference_value) : undefined,
-      min_price: min_price !== undefined ? Number(min_price) : undefined,
+    const updated = await SectorConfigRevisionService.applyEdit(async (session) => {
+      const product = await SectorConfigModel.updateProduct(name, {
+        reference_value: reference_value !== undefined ? Number(reference_value) : undefined,
+        min_price: min_price !== undefined ? Number(min_price) : undefined,
+      }, session);
+      if (product) await SectorConfigRevisionService.recordEdit(admin, `Updated ${name} product`, session);
+      return product;
     });
 
     if (!updated) {
       return NextResponse.json({ error: 'Product not found or no changes' }, { status: 404 });
     }
 
-    SectorConfigService.invalidateCache();
     return NextResponse.json(updated);
   } catch (error: unknown) {
     const errorMessage = getErrorMessage(error);
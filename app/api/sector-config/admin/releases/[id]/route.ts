@@ -0,0 +1,32 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { requireAdmin } from '@/lib/auth';
+import { SectorConfigRevisionService, SectorConfigRevisionError } from '@/lib/services/SectorConfigRevisionService';
+import { getErrorMessage } from '@/lib/utils';
+
+// DELETE /api/sector-config/admin/releases/[id] - Cancel a scheduled release
+export async function DELETE(
+  req: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  try {
+    await requireAdmin(req);
+    const id = parseInt(params.id);
+
+    if (isNaN(id)) {
+      return NextResponse.json({ error: 'Invalid release ID' }, { status: 400 });
+    }
+
+    const release = await SectorConfigRevisionService.cancel(id);
+    return NextResponse.json(release);
+  } catch (error: unknown) {
+    if (error instanceof SectorConfigRevisionError) {
+      return NextResponse.json({ error: error.message }, { status: 400 });
+    }
+    const errorMessage = getErrorMessage(error);
+    if (errorMessage === 'Unauthorized' || errorMessage === 'Forbidden') {
+      return NextResponse.json({ error: errorMessage }, { status: 401 });
+    }
+    console.error('Failed to cancel sector config release:', error);
+    return NextResponse.json({ error: getErrorMessage(error, 'Failed to cancel release') }, { status: 500 });
+  }
+}
@@ -0,0 +1,42 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { requireAdmin } from '@/lib/auth';
+import { SectorConfigRevisionService, SectorConfigRevisionError } from '@/lib/services/SectorConfigRevisionService';
+import { ScheduleSectorConfigReleaseSchema } from '@/lib/validations/sector-config';
+import { getErrorMessage } from '@/lib/utils';
+
+// POST /api/sector-config/admin/releases - Schedule a config change for a future game quarter
+export async function POST(req: NextRequest) {
+  try {
+    const admin = await requireAdmin(req);
+
+    const body = await req.json();
+    const validated = ScheduleSectorConfigReleaseSchema.safeParse(body);
+    if (!validated.success) {
+      return NextResponse.json(
+        { error: 'Validation failed', details: validated.error.issues },
+        { status: 400 }
+      );
+    }
+
+    const { year, quarter, diff, revisionId, reason } = validated.data;
+    const release = await SectorConfigRevisionService.schedule({
+      author: admin,
+      game_time: { year, quarter },
+      reason,
+      diff,
+      restore_revision_id: revisionId,
+    });
+
+    return NextResponse.json(release, { status: 201 });
+  } catch (error: unknown) {
+    if (error instanceof SectorConfigRevisionError) {
+      return NextResponse.json({ error: error.message }, { status: 400 });
+    }
+    const errorMessage = getErrorMessage(error);
+    if (errorMessage === 'Unauthorized' || errorMessage === 'Forbidden') {
+      return NextResponse.json({ error: errorMessage }, { status: 401 });
+    }
+    console.error('Failed to schedule sector config release:', error);
+    return NextResponse.json({ error: getErrorMessage(error, 'Failed to schedule release') }, { status: 500 });
+  }
+}
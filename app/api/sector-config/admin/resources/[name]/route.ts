@@ -1,7 +1,7 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { requireAdmin } from '@/lib/auth';
 import { SectorConfigModel } from '@/lib/models/SectorConfig';
-import { SectorConfigService } from '@/lib/services/SectorConfigService';
+import { SectorConfigRevisionService } from '@/lib/services/SectorConfigRevisionService';
 import { getErrorMessage } from '@/lib/utils';
 
 export async function PUT(
@@ -9,7 +9,7 @@ export async function PUT(
   { params }: { params: { name: string } }
 ) {
   try {
-    await requireAdmin(req);
+    const admin = await requireAdmin(req);
     const { name } = params;
     const body = await req.json();
     const { base_price } = body;
@@ -18,15 +18,18 @@ export async function PUT(
       return NextResponse.json({ error: 'base_price is required and must be a number' }, { status: 400 });
     }
 
-    const updated = await SectorConfigModel.updateResource(name, {
-      base_price: Number(base_price),
+    const updated = await SectorConfigRevisionService.applyEdit(async (session) => {
+      const resource = await SectorConfigModel.updateResource(name, {
+        base_price: Number(base_price),
+      }, session);
+      if (resource) await SectorConfigRevisionService.recordEdit(admin, `Updated ${name} resource`, session);
+      return resource;
     });
 
     if (!updated) {
       return NextResponse.json({ error: 'Resource not found' }, { status: 404 });
     }
 
-    SectorConfigService.invalidateCache();
     return NextResponse.json(updated);
   } catch (error: unknown) {
     const errorMessage = getErrorMessage(error);
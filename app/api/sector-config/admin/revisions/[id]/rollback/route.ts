@@ -0,0 +1,42 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { requireAdmin } from '@/lib/auth';
+import { SectorConfigRevisionService, SectorConfigRevisionError } from '@/lib/services/SectorConfigRevisionService';
+import { RollbackSectorConfigSchema } from '@/lib/validations/sector-config';
+import { getErrorMessage } from '@/lib/utils';
+
+// POST /api/sector-config/admin/revisions/[id]/rollback - Restore a past revision now
+export async function POST(
+  req: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  try {
+    const admin = await requireAdmin(req);
+    const id = parseInt(params.id);
+
+    if (isNaN(id)) {
+      return NextResponse.json({ error: 'Invalid revision ID' }, { status: 400 });
+    }
+
+    const body = await req.json().catch(() => ({}));
+    const validated = RollbackSectorConfigSchema.safeParse(body);
+    if (!validated.success) {
+      return NextResponse.json(
+        { error: 'Validation failed', details: validated.error.issues },
+        { status: 400 }
+      );
+    }
+
+    const revision = await SectorConfigRevisionService.rollback(id, admin, validated.data.reason);
+    return NextResponse.json({ message: `Rolled back to revision ${id}`, revision }, { status: 201 });
+  } catch (error: unknown) {
+    if (error instanceof SectorConfigRevisionError) {
+      return NextResponse.json({ error: error.message }, { status: 400 });
+    }
+    const errorMessage = getErrorMessage(error);
+    if (errorMessage === 'Unauthorized' || errorMessage === 'Forbidden') {
+      return NextResponse.json({ error: errorMessage }, { status: 401 });
+    }
+    console.error('Failed to roll back sector config:', error);
+    return NextResponse.json({ error: getErrorMessage(error, 'Failed to roll back sector config') }, { status: 500 });
+  }
+}
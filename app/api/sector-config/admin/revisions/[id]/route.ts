@@ -0,0 +1,33 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { requireAdmin } from '@/lib/auth';
+import { SectorConfigRevisionModel } from '@/lib/models/SectorConfigRevision';
+import { getErrorMessage } from '@/lib/utils';
+
+// GET /api/sector-config/admin/revisions/[id] - One revision with its full configuration
+export async function GET(
+  req: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  try {
+    await requireAdmin(req);
+    const id = parseInt(params.id);
+
+    if (isNaN(id)) {
+      return NextResponse.json({ error: 'Invalid revision ID' }, { status: 400 });
+    }
+
+    const revision = await SectorConfigRevisionModel.findById(id);
+    if (!revision) {
+      return NextResponse.json({ error: 'Revision not found' }, { status: 404 });
+    }
+
+    return NextResponse.json(revision);
+  } catch (error: unknown) {
+    const errorMessage = getErrorMessage(error);
+    if (errorMessage === 'Unauthorized' || errorMessage === 'Forbidden') {
+      return NextResponse.json({ error: errorMessage }, { status: 401 });
+    }
+    console.error('Failed to get config revision:', error);
+    return NextResponse.json({ error: getErrorMessage(error, 'Failed to get config revision') }, { status: 500 });
+  }
+}
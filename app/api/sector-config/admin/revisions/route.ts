@@ -0,0 +1,26 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { requireAdmin } from '@/lib/auth';
+import { SectorConfigRevisionModel } from '@/lib/models/SectorConfigRevision';
+import { SectorConfigReleaseModel } from '@/lib/models/SectorConfigRelease';
+import { getErrorMessage } from '@/lib/utils';
+
+// GET /api/sector-config/admin/revisions - Recent config revisions and scheduled releases
+export async function GET(req: NextRequest) {
+  try {
+    await requireAdmin(req);
+
+    const [revisions, releases] = await Promise.all([
+      SectorConfigRevisionModel.findRecent(),
+      SectorConfigReleaseModel.findRecent(),
+    ]);
+
+    return NextResponse.json({ revisions, releases });
+  } catch (error: unknown) {
+    const errorMessage = getErrorMessage(error);
+    if (errorMessage === 'Unauthorized' || errorMessage === 'Forbidden') {
+      return NextResponse.json({ error: errorMessage }, { status: 401 });
+    }
+    console.error('Failed to get config revisions:', error);
+    return NextResponse.json({ error: getErrorMessage(error, 'Failed to get config revisions') }, { status: 500 });
+  }
+}
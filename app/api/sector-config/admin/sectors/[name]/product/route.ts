@@ -1,7 +1,7 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { requireAdmin } from '@/lib/auth';
 import { SectorConfigModel } from '@/lib/models/SectorConfig';
-import { SectorConfigService } from '@/lib/services/SectorConfigService';
+import { SectorConfigRevisionService } from '@/lib/services/SectorConfigRevisionService';
 import { getErrorMessage } from '@/lib/utils';
 
 export async function PUT(
@@ -9,7 +9,7 @@ export async function PUT(
   { params }: { params: { name: string } }
 ) {
   try {
-    await requireAdmin(req);
+    const admin = await requireAdmin(req);
     const { name } = params;
     const body = await req.json();
     const { producedProduct } = body;
@@ -18,15 +18,18 @@ export async function PUT(
       return NextResponse.json({ error: 'producedProduct is required' }, { status: 400 });
     }
 
-    const updated = await SectorConfigModel.updateSector(name, {
-      produced_product: producedProduct,
+    const updated = await SectorConfigRevisionService.applyEdit(async (session) => {
+      const sector = await SectorConfigModel.updateSector(name, {
+        produced_product: producedProduct,
+      }, session);
+      if (sector) await SectorConfigRevisionService.recordEdit(admin, `Changed ${name} produced product`, session);
+      return sector;
     });
 
     if (!updated) {
       return NextResponse.json({ error: 'Sector not found' }, { status: 404 });
     }
 
-    SectorConfigService.invalidateCache();
     return NextResponse.json({ message: 'Produced product updated successfully', sector: updated });
   } catch (error: unknown) {
     const errorMessage = getErrorMessage(error);
@@ -1,7 +1,7 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { requireAdmin } from '@/lib/auth';
 import { SectorConfigModel } from '@/lib/models/SectorConfig';
-import { SectorConfigService } from '@/lib/services/SectorConfigService';
+import { SectorConfigRevisionService } from '@/lib/services/SectorConfigRevisionService';
 import { getErrorMessage } from '@/lib/utils';
 
 export async function PUT(
@@ -9,23 +9,26 @@ export async function PUT(
   { params }: { params: { name: string } }
 ) {
   try {
-    await requireAdmin(req);
+    const admin = await requireAdmin(req);
     const { name } = params;
     const body = await req.json();
     const { is_production_only, can_extract, produced_product, primary_resource } = body;
 
-    const updated = await SectorConfigModel.updateSector(name, {
-      is_production_only,
-      can_extract,
-      produced_product,
-      primary_resource,
+    const updated = await SectorConfigRevisionService.applyEdit(async (session) => {
+      const sector = await SectorConfigModel.updateSector(name, {
+        is_production_only,
+        can_extract,
+        produced_product,
+        primary_resource,
+      }, session);
+      if (sector) await SectorConfigRevisionService.recordEdit(admin, `Updated ${name} sector`, session);
+      return sector;
     });
 
     if (!updated) {
       return NextResponse.json({ error: 'Sector not found or no changes' }, { status: 404 });
     }
 
-    SectorConfigService.invalidateCache();
     return NextResponse.json(updated);
   } catch (error: unknown) {
     const errorMessage = getErrorMessage(error);
@@ -0,0 +1,34 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { requireAdmin } from '@/lib/auth';
+import { SectorConfigService, SectorConfigSimulationError } from '@/lib/services/SectorConfigService';
+import { SimulateSectorConfigSchema } from '@/lib/validations/sector-config';
+import { getErrorMessage } from '@/lib/utils';
+
+// POST /api/sector-config/admin/simulate - Preview the effect of a config change without saving it
+export async function POST(req: NextRequest) {
+  try {
+    await requireAdmin(req);
+
+    const body = await req.json();
+    const validated = SimulateSectorConfigSchema.safeParse(body);
+    if (!validated.success) {
+      return NextResponse.json(
+        { error: 'Validation failed', details: validated.error.issues },
+        { status: 400 }
+      );
+    }
+
+    const simulation = await SectorConfigService.simulateConfiguration(validated.data);
+    return NextResponse.json(simulation);
+  } catch (error: unknown) {
+    if (error instanceof SectorConfigSimulationError) {
+      return NextResponse.json({ error: error.message }, { status: 400 });
+    }
+    const errorMessage = getErrorMessage(error);
+    if (errorMessage === 'Unauthorized' || errorMessage === 'Forbidden') {
+      return NextResponse.json({ error: errorMessage }, { status: 401 });
+    }
+    console.error('Failed to simulate sector config:', error);
+    return NextResponse.json({ error: getErrorMessage(error, 'Failed to simulate sector config') }, { status: 500 });
+  }
+}
@@ -1,7 +1,7 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { requireAdmin } from '@/lib/auth';
 import { SectorConfigModel, UnitType } from '@/lib/models/SectorConfig';
-import { SectorConfigService } from '@/lib/services/SectorConfigService';
+import { SectorConfigRevisionService } from '@/lib/services/SectorConfigRevisionService';
 import { getErrorMessage } from '@/lib/utils';
 
 export async function PUT(
@@ -9,7 +9,7 @@ export async function PUT(
   { params }: { params: { sector: string; unitType: string } }
 ) {
   try {
-    await requireAdmin(req);
+    const admin = await requireAdmin(req);
     const { sector, unitType } = params;
     const validUnitTypes: UnitType[] = ['production', 'retail', 'service', 'extraction'];
 
@@ -20,19 +20,22 @@ export async function PUT(
     const body = await req.json();
     const { is_enabled, base_revenue, base_cost, labor_cost, output_rate } = body;
 
-    const updated = await SectorConfigModel.updateUnitConfig(sector, unitType as UnitType, {
-      is_enabled,
-      base_revenue: base_revenue !== undefined ? Number(base_revenue) : undefined,
-      base_cost: base_cost !== undefined ? Number(base_cost) : undefined,
-      labor_cost: labor_cost !== undefined ? Number(labor_cost) : undefined,
-      output_rate: output_rate !== undefined ? Number(output_rate) : undefined,
+    const updated = await SectorConfigRevisionService.applyEdit(async (session) => {
+      const unit = await SectorConfigModel.updateUnitConfig(sector, unitType as UnitType, {
+        is_enabled,
+        base_revenue: base_revenue !== undefined ? Number(base_revenue) : undefined,
+        base_cost: base_cost !== undefined ? Number(base_cost) : undefined,
+        labor_cost: labor_cost !== undefined ? Number(labor_cost) : undefined,
+        output_rate: output_rate !== undefined ? Number(output_rate) : undefined,
+      }, session);
+      if (unit) await SectorConfigRevisionService.recordEdit(admin, `Updated ${sector} ${unitType} unit`, session);
+      return unit;
     });
 
     if (!updated) {
       return NextResponse.json({ error: 'Unit config not found or no changes' }, { status: 404 });
     }
 
-    SectorConfigService.invalidateCache();
     return NextResponse.json(updated);
   } catch (error: unknown) {
     const errorMessage = getErrorMessage(error);
@@ -0,0 +1,31 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { SectorConfigRevisionModel } from '@/lib/models/SectorConfigRevision';
+import { getErrorMessage } from '@/lib/utils';
+
+export const dynamic = 'force-dynamic';
+
+// GET /api/sector-config/revisions?at=<ISO date> - The config revision that was live at a moment
+export async function GET(req: NextRequest) {
+  try {
+    const at = req.nextUrl.searchParams.get('at');
+    const date = at ? new Date(at) : new Date();
+    if (isNaN(date.getTime())) {
+      return NextResponse.json({ error: 'Invalid date' }, { status: 400 });
+    }
+
+    const revision = await SectorConfigRevisionModel.findActiveAt(date);
+    return NextResponse.json({
+      at: date,
+      revision: revision && {
+        id: revision.id,
+        source: revision.source,
+        reason: revision.reason,
+        author_name: revision.author_name,
+        created_at: revision.created_at,
+      },
+    });
+  } catch (error: unknown) {
+    console.error('Failed to get active config revision:', error);
+    return NextResponse.json({ error: getErrorMessage(error, 'Failed to get config revision') }, { status: 500 });
+  }
+}
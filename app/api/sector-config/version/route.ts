@@ -1,11 +1,15 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { SectorConfigService } from '@/lib/services/SectorConfigService';
+import { SectorConfigRevisionService } from '@/lib/services/SectorConfigRevisionService';
 import { getErrorMessage } from '@/lib/utils';
 
 export async function GET(req: NextRequest) {
   try {
-    const version = await SectorConfigService.getConfigVersion();
-    return NextResponse.json({ version });
+    const [version, revision] = await Promise.all([
+      SectorConfigService.getConfigVersion(),
+      SectorConfigRevisionService.getActiveRevisionId(),
+    ]);
+    return NextResponse.json({ version, revision });
   } catch (error: unknown) {
     console.error('Failed to get config version:', error);
     return NextResponse.json({ error: getErrorMessage(error, 'Failed to get config version') }, { status: 500 });
@@ -2,11 +2,9 @@ import { NextRequest, NextResponse } from 'next/server';
 import { getAuthUserId } from '@/lib/auth';
 import { CorporationModel } from '@/lib/models/Corporation';
 import { BuySharesSchema } from '@/lib/validations/shares';
-import { ShareholderModel } from '@/lib/models/Shareholder';
-import { ShareTransactionModel } from '@/lib/models/ShareTransaction';
 import { SharePriceHistoryModel } from '@/lib/models/SharePriceHistory';
 import { UserModel } from '@/lib/models/User';
-import { TransactionModel } from '@/lib/models/Transaction';
+import { TradeSettlementService, TradeSettlementError } from '@/lib/services/TradeSettlementService';
 import { calculateStockPrice, updateStockPrice } from '@/lib/utils/valuation';
 import { getErrorMessage } from '@/lib/utils';
 
@@ -48,6 +46,9 @@ export async function POST(
     if (!corporation) {
       return NextResponse.json({ error: 'Corporation not found' }, { status: 404 });
     }
+    if (corporation.retired_at) {
+      return NextResponse.json({ error: 'This corporation has been merged into another' }, { status: 400 });
+    }
 
     // Check if enough public shares available
     if (corporation.public_shares < requestedShares) {
@@ -71,50 +72,8 @@ export async function POST(
       }, { status: 400 });
     }
 
-    // Deduct cash from user
-    await UserModel.updateCash(userId, -totalCost);
-
-    // Update corporation: reduce public shares (no capital change - just transferring ownership)
-    await CorporationModel.incrementPublicShares(corporationId, -requestedShares);
-    
-    // Update or create shareholder record
-    const shareholders = await ShareholderModel.findByCorporationId(corporationId);
-    const existingShareholder = shareholders.find(s => s.user_id === userId);
-    
-    if (existingShareholder) {
-      await ShareholderModel.updateShares(
-        corporationId,
-        userId,
-        existingShareholder.shares + requestedShares
-      );
-    } else {
-      await ShareholderModel.create({
-        corporation_id: corporationId,
-        user_id: userId,
-        shares: requestedShares,
-      });
-    }
-
-    // Record share transaction (for price calculation)
-    const shareTransaction = await ShareTransactionModel.create({
-      corporation_id: corporationId,
-      user_id: userId,
-      transaction_type: 'buy',
-      shares: requestedShares,
-      price_per_share: buyPrice,
-      total_amount: totalCost,
-    });
-
-    // Record financial transaction
-    await TransactionModel.create({
-      transaction_type: 'share_purchase',
-      amount: totalCost,
-      from_user_id: userId,
-      corporation_id: corporationId,
-      description: `Purchased ${requestedShares} shares at $${buyPrice.toFixed(2)}/share`,
-      reference_id: shareTransaction.id,
-      reference_type: 'share_transaction',
-    });
+    // Settle atomically: float, cash, holding and ledger entries commit together
+    await TradeSettlementService.buyFromFloat(corporationId, userId, requestedShares, buyPrice);
 
     // Recalculate stock price using fundamentals-based valuation
     const newPrice = await updateStockPrice(corporationId);
@@ -139,6 +98,9 @@ export async function POST(
       new_share_price: newPrice,
     });
   } catch (error: unknown) {
+    if (error instanceof TradeSettlementError) {
+      return NextResponse.json({ error: error.message }, { status: 400 });
+    }
     console.error('Buy shares error:', error);
     return NextResponse.json({ error: getErrorMessage(error, 'Failed to buy shares') }, { status: 500 });
   }
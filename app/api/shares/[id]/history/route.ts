@@ -1,21 +1,44 @@
 import { NextRequest, NextResponse } from 'next/server';
+import { connectMongo } from '@/lib/db/mongo';
 import { SharePriceHistoryModel } from '@/lib/models/SharePriceHistory';
+import { PriceHistoryService } from '@/lib/services/PriceHistoryService';
+import { PriceCandlesQuerySchema } from '@/lib/validations/candles';
 import { getErrorMessage } from '@/lib/utils';
 
 export const dynamic = 'force-dynamic';
 
+// GET /api/shares/[id]/history?limit=100 - Recorded share prices, newest first
+// GET /api/shares/[id]/history?resolution=day&count=30 - OHLC candles with indicators, volume and VWAP from fills
 export async function GET(
   req: NextRequest,
   { params }: { params: { id: string } }
 ) {
   try {
+    await connectMongo();
     const corporationId = parseInt(params.id, 10);
 
     if (isNaN(corporationId)) {
       return NextResponse.json({ error: 'Invalid corporation ID' }, { status: 400 });
     }
 
-    const limit = parseInt(req.nextUrl.searchParams.get('limit') || '100', 10);
+    const searchParams = req.nextUrl.searchParams;
+    if (searchParams.has('resolution')) {
+      const validated = PriceCandlesQuerySchema.safeParse({
+        resolution: searchParams.get('resolution'),
+        count: searchParams.get('count') ?? undefined,
+      });
+      if (!validated.success) {
+        return NextResponse.json(
+          { error: 'Validation failed', details: validated.error.issues },
+          { status: 400 }
+        );
+      }
+
+      const { resolution, count } = validated.data;
+      return NextResponse.json(await PriceHistoryService.getShareCandles(corporationId, resolution, count));
+    }
+
+    const limit = parseInt(searchParams.get('limit') || '100', 10);
     
     const history = await SharePriceHistoryModel.findByCorporationId(corporationId, limit);
 
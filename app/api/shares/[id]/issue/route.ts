@@ -4,6 +4,7 @@ import { CorporationModel } from '@/lib/models/Corporation';
 import { BuySharesSchema } from '@/lib/validations/shares';
 import { calculateStockPrice } from '@/lib/utils/valuation';
 import { UserModel } from '@/lib/models/User';
+import { TradeSettlementService, TradeSettlementError } from '@/lib/services/TradeSettlementService';
 import { getErrorMessage } from '@/lib/utils';
 
 export async function POST(
@@ -56,13 +57,8 @@ export async function POST(
     // Issue price (use current market price)
     const capitalRaised = sharesToIssue * currentPrice;
 
-    // Update corporation
-    // 1. Increase total shares
-    await CorporationModel.incrementShares(corporationId, sharesToIssue);
-    // 2. Increase public shares (they go to the market)
-    await CorporationModel.incrementPublicShares(corporationId, sharesToIssue);
-    // 3. Increase capital
-    await CorporationModel.incrementCapital(corporationId, capitalRaised);
+    // Increase total shares, public float (they go to the market) and capital in one transaction
+    await TradeSettlementService.issueShares(corporationId, userId, sharesToIssue, currentPrice);
 
     return NextResponse.json({
       message: 'Shares issued successfully',
@@ -73,6 +69,9 @@ export async function POST(
       new_public_shares: corporation.public_shares + sharesToIssue,
     });
   } catch (error: unknown) {
+    if (error instanceof TradeSettlementError) {
+      return NextResponse.json({ error: error.message }, { status: 400 });
+    }
     console.error('Issue shares error:', error);
     return NextResponse.json({ error: getErrorMessage(error, 'Failed to issue shares') }, { status: 500 });
   }
@@ -0,0 +1,103 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getAuthUserId, getOptionalAuthUserId } from '@/lib/auth';
+import { connectMongo } from '@/lib/db/mongo';
+import { CorporationModel } from '@/lib/models/Corporation';
+import { ShareholderModel } from '@/lib/models/Shareholder';
+import { ShortPositionModel } from '@/lib/models/ShortPosition';
+import { ShortSellingService } from '@/lib/services/ShortSellingService';
+import { SetShareLendingSchema } from '@/lib/validations/shares';
+import { getErrorMessage } from '@/lib/utils';
+
+export const dynamic = 'force-dynamic';
+
+// GET /api/shares/:id/lending - Lending pool summary, plus your own lending status when signed in
+export async function GET(
+  req: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  try {
+    await connectMongo();
+    const corporationId = parseInt(params.id, 10);
+
+    if (isNaN(corporationId)) {
+      return NextResponse.json({ error: 'Invalid corporation ID' }, { status: 400 });
+    }
+
+    const corporation = await CorporationModel.findById(corporationId);
+    if (!corporation) {
+      return NextResponse.json({ error: 'Corporation not found' }, { status: 404 });
+    }
+
+    const pool = await ShortSellingService.getLendingPool(corporationId);
+
+    let mine = null;
+    const userId = await getOptionalAuthUserId(req);
+    if (userId) {
+      const [holding, onLoan] = await Promise.all([
+        ShareholderModel.getShareholder(corporationId, userId),
+        ShortPositionModel.getSharesOnLoan(corporationId, userId),
+      ]);
+      mine = {
+        lending_enabled: holding?.lending_enabled ?? false,
+        shares: holding?.shares ?? 0,
+        shares_on_loan: onLoan,
+      };
+    }
+
+    return NextResponse.json({
+      corporation_id: corporationId,
+      ...pool,
+      mine,
+    });
+  } catch (error: unknown) {
+    console.error('Get lending pool error:', error);
+    return NextResponse.json({ error: getErrorMessage(error, 'Failed to fetch lending pool') }, { status: 500 });
+  }
+}
+
+// POST /api/shares/:id/lending - Opt your holding in or out of the lending pool
+export async function POST(
+  req: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  try {
+    await connectMongo();
+    const userId = await getAuthUserId(req);
+    if (!userId) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const corporationId = parseInt(params.id, 10);
+    if (isNaN(corporationId)) {
+      return NextResponse.json({ error: 'Invalid corporation ID' }, { status: 400 });
+    }
+
+    const body = await req.json();
+    const validated = SetShareLendingSchema.safeParse(body);
+
+    if (!validated.success) {
+      return NextResponse.json(
+        { error: 'Validation failed', details: validated.error.issues },
+        { status: 400 }
+      );
+    }
+
+    const holding = await ShareholderModel.setLendingEnabled(corporationId, userId, validated.data.enabled);
+    if (!holding) {
+      return NextResponse.json({ error: 'You do not hold shares in this corporation' }, { status: 400 });
+    }
+
+    // Shares already on loan stay out until the borrower covers; opting out only stops new loans
+    const onLoan = await ShortPositionModel.getSharesOnLoan(corporationId, userId);
+
+    return NextResponse.json({
+      success: true,
+      lending_enabled: holding.lending_enabled ?? false,
+      shares: holding.shares,
+      shares_on_loan: onLoan,
+    });
+  } catch (error: unknown) {
+    console.error('Set share lending error:', error);
+    return NextResponse.json({ error: getErrorMessage(error, 'Failed to update lending status') }, { status: 500 });
+  }
+}
@@ -0,0 +1,50 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getAuthUserId } from '@/lib/auth';
+import { connectMongo } from '@/lib/db/mongo';
+import { ShareOrderModel } from '@/lib/models/ShareOrder';
+import { OrderBookService } from '@/lib/services/OrderBookService';
+import { getErrorMessage } from '@/lib/utils';
+
+// DELETE /api/shares/:id/orders/:orderId - Cancel an open order and release its escrow
+export async function DELETE(
+  req: NextRequest,
+  { params }: { params: { id: string; orderId: string } }
+) {
+  try {
+    await connectMongo();
+    const userId = await getAuthUserId(req);
+    if (!userId) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const corporationId = parseInt(params.id, 10);
+    const orderId = parseInt(params.orderId, 10);
+
+    if (isNaN(corporationId) || isNaN(orderId)) {
+      return NextResponse.json({ error: 'Invalid order ID' }, { status: 400 });
+    }
+
+    const order = await ShareOrderModel.findById(orderId);
+    if (!order || order.corporation_id !== corporationId) {
+      return NextResponse.json({ error: 'Order not found' }, { status: 404 });
+    }
+
+    if (order.user_id !== userId) {
+      return NextResponse.json({ error: 'You can only cancel your own orders' }, { status: 403 });
+    }
+
+    if (order.status !== 'open') {
+      return NextResponse.json({ error: `Order is already ${order.status}` }, { status: 400 });
+    }
+
+    const cancelled = await OrderBookService.cancelOrder(orderId);
+    if (!cancelled) {
+      return NextResponse.json({ error: 'Order is no longer open' }, { status: 400 });
+    }
+
+    return NextResponse.json({ success: true, order: cancelled });
+  } catch (error: unknown) {
+    console.error('Cancel share order error:', error);
+    return NextResponse.json({ error: getErrorMessage(error, 'Failed to cancel order') }, { status: 500 });
+  }
+}
@@ -0,0 +1,170 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getAuthUserId, getOptionalAuthUserId } from '@/lib/auth';
+import { connectMongo } from '@/lib/db/mongo';
+import { CorporationModel } from '@/lib/models/Corporation';
+import { ShareholderModel } from '@/lib/models/Shareholder';
+import { ShareOrderModel } from '@/lib/models/ShareOrder';
+import { UserModel } from '@/lib/models/User';
+import { OrderBookService } from '@/lib/services/OrderBookService';
+import { TradeSettlementError } from '@/lib/services/TradeSettlementService';
+import { PlaceShareOrderSchema, ListShareOrdersSchema } from '@/lib/validations/shares';
+import { ORDER_BOOK_CONFIG } from '@/lib/constants/orders';
+import { getErrorMessage } from '@/lib/utils';
+
+export const dynamic = 'force-dynamic';
+
+// GET /api/shares/:id/orders - Order book depth plus a page of orders (?mine=true for your own)
+export async function GET(
+  req: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  try {
+    await connectMongo();
+    const corporationId = parseInt(params.id, 10);
+
+    if (isNaN(corporationId)) {
+      return NextResponse.json({ error: 'Invalid corporation ID' }, { status: 400 });
+    }
+
+    const searchParams = req.nextUrl.searchParams;
+    const validated = ListShareOrdersSchema.safeParse({
+      status: searchParams.get('status') || undefined,
+      side: searchParams.get('side') || undefined,
+      mine: searchParams.get('mine') === 'true',
+      page: searchParams.has('page') ? parseInt(searchParams.get('page')!, 10) : undefined,
+      limit: searchParams.has('limit') ? parseInt(searchParams.get('limit')!, 10) : undefined,
+    });
+
+    if (!validated.success) {
+      return NextResponse.json(
+        { error: 'Validation failed', details: validated.error.issues },
+        { status: 400 }
+      );
+    }
+
+    const { status, side, mine, page, limit } = validated.data;
+
+    let userId: number | undefined;
+    if (mine) {
+      const authUserId = await getOptionalAuthUserId(req);
+      if (!authUserId) {
+        return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+      }
+      userId = authUserId;
+    }
+
+    const [depth, orders] = await Promise.all([
+      ShareOrderModel.getBookDepth(corporationId, ORDER_BOOK_CONFIG.BOOK_DEPTH_LEVELS),
+      ShareOrderModel.findByCorporationId(
+        corporationId,
+        { user_id: userId, side, status: status ?? (mine ? undefined : 'open') },
+        limit,
+        (page - 1) * limit
+      ),
+    ]);
+
+    const bestBid = depth.bids[0]?.price ?? null;
+    const bestAsk = depth.asks[0]?.price ?? null;
+
+    return NextResponse.json({
+      corporation_id: corporationId,
+      bids: depth.bids,
+      asks: depth.asks,
+      best_bid: bestBid,
+      best_ask: bestAsk,
+      spread: bestBid !== null && bestAsk !== null ? Math.round((bestAsk - bestBid) * 100) / 100 : null,
+      orders,
+      page,
+      limit,
+    });
+  } catch (error: unknown) {
+    console.error('Get order book error:', error);
+    return NextResponse.json({ error: getErrorMessage(error, 'Failed to fetch order book') }, { status: 500 });
+  }
+}
+
+// POST /api/shares/:id/orders - Place a limit order; it matches immediately where it crosses and rests otherwise
+export async function POST(
+  req: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  try {
+    await connectMongo();
+    const userId = await getAuthUserId(req);
+    if (!userId) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const corporationId = parseInt(params.id, 10);
+    if (isNaN(corporationId)) {
+      return NextResponse.json({ error: 'Invalid corporation ID' }, { status: 400 });
+    }
+
+    const body = await req.json();
+    const validated = PlaceShareOrderSchema.safeParse(body);
+
+    if (!validated.success) {
+      return NextResponse.json(
+        { error: 'Validation failed', details: validated.error.issues },
+        { status: 400 }
+      );
+    }
+
+    const { side, shares, limitPrice, expiresInHours } = validated.data;
+
+    const corporation = await CorporationModel.findById(corporationId);
+    if (!corporation) {
+      return NextResponse.json({ error: 'Corporation not found' }, { status: 404 });
+    }
+    if (corporation.retired_at) {
+      return NextResponse.json({ error: 'This corporation has been merged into another' }, { status: 400 });
+    }
+
+    const openOrders = await ShareOrderModel.countOpenByUser(userId);
+    if (openOrders >= ORDER_BOOK_CONFIG.MAX_OPEN_ORDERS_PER_USER) {
+      return NextResponse.json({
+        error: `You may have at most ${ORDER_BOOK_CONFIG.MAX_OPEN_ORDERS_PER_USER} open orders`,
+      }, { status: 400 });
+    }
+
+    if (side === 'buy') {
+      const totalCost = limitPrice * shares;
+      const userCash = await UserModel.getCash(userId);
+      if (userCash < totalCost) {
+        return NextResponse.json({
+          error: `Insufficient funds. You have ${userCash.toLocaleString('en-US', { style: 'currency', currency: 'USD' })} but need ${totalCost.toLocaleString('en-US', { style: 'currency', currency: 'USD' })}`
+        }, { status: 400 });
+      }
+    } else {
+      const shareholder = await ShareholderModel.getShareholder(corporationId, userId);
+      if (!shareholder || shareholder.shares < shares) {
+        return NextResponse.json({
+          error: `Insufficient shares. You have ${shareholder?.shares || 0} shares.`
+        }, { status: 400 });
+      }
+    }
+
+    const result = await OrderBookService.placeOrder({
+      corporationId,
+      userId,
+      side,
+      shares,
+      limitPrice,
+      expiresAt: new Date(Date.now() + expiresInHours * 60 * 60 * 1000),
+    });
+
+    return NextResponse.json({
+      success: true,
+      order: result.order,
+      fills: result.fills,
+      shares_filled: result.fills.reduce((sum, fill) => sum + fill.shares, 0),
+      new_share_price: result.new_share_price,
+    }, { status: 201 });
+  } catch (error: unknown) {
+    if (error instanceof TradeSettlementError) {
+      return NextResponse.json({ error: error.message }, { status: 400 });
+    }
+    console.error('Place share order error:', error);
+    return NextResponse.json({ error: getErrorMessage(error, 'Failed to place order') }, { status: 500 });
+  }
+}
@@ -3,8 +3,7 @@ import { getAuthUserId } from '@/lib/auth';
 import { CorporationModel } from '@/lib/models/Corporation';
 import { SellSharesSchema } from '@/lib/validations/shares';
 import { ShareholderModel } from '@/lib/models/Shareholder';
-import { ShareTransactionModel } from '@/lib/models/ShareTransaction';
-import { UserModel } from '@/lib/models/User';
+import { TradeSettlementService, TradeSettlementError } from '@/lib/services/TradeSettlementService';
 import { calculateStockPrice } from '@/lib/utils/valuation';
 import { getErrorMessage } from '@/lib/utils';
 
@@ -46,6 +45,9 @@ export async function POST(
     if (!corporation) {
       return NextResponse.json({ error: 'Corporation not found' }, { status: 404 });
     }
+    if (corporation.retired_at) {
+      return NextResponse.json({ error: 'This corporation has been merged into another' }, { status: 400 });
+    }
 
     // Check user holdings
     const shareholders = await ShareholderModel.findByCorporationId(corporationId);
@@ -64,25 +66,8 @@ export async function POST(
     const sellPrice = Math.round(currentPrice * 0.99 * 100) / 100;
     const totalProceeds = sellPrice * sharesToSell;
 
-    // Add cash to user
-    await UserModel.updateCash(userId, totalProceeds);
-
-    // Update corporation: increase public shares
-    await CorporationModel.incrementPublicShares(corporationId, sharesToSell);
-
-    // Update shareholder record
-    const newShares = shareholder.shares - sharesToSell;
-    await ShareholderModel.updateShares(corporationId, userId, newShares);
-
-    // Record share transaction
-    await ShareTransactionModel.create({
-      corporation_id: corporationId,
-      user_id: userId,
-      transaction_type: 'sell',
-      shares: sharesToSell,
-      price_per_share: sellPrice,
-      total_amount: totalProceeds,
-    });
+    // Settle atomically: holding, float, cash and ledger entries commit together
+    await TradeSettlementService.sellToFloat(corporationId, userId, sharesToSell, sellPrice);
 
     return NextResponse.json({
       message: 'Shares sold successfully',
@@ -91,6 +76,9 @@ export async function POST(
       total_proceeds: totalProceeds,
     });
   } catch (error: unknown) {
+    if (error instanceof TradeSettlementError) {
+      return NextResponse.json({ error: error.message }, { status: 400 });
+    }
     console.error('Sell shares error:', error);
     return NextResponse.json({ error: getErrorMessage(error, 'Failed to sell shares') }, { status: 500 });
   }
@@ -0,0 +1,73 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getAuthUserId } from '@/lib/auth';
+import { connectMongo } from '@/lib/db/mongo';
+import { CorporationModel } from '@/lib/models/Corporation';
+import { ShortPositionModel } from '@/lib/models/ShortPosition';
+import { ShortSellingService } from '@/lib/services/ShortSellingService';
+import { TradeSettlementError } from '@/lib/services/TradeSettlementService';
+import { AddShortCollateralSchema } from '@/lib/validations/shares';
+import { calculateCollateralRatio } from '@/lib/constants/shorts';
+import { getErrorMessage } from '@/lib/utils';
+
+// POST /api/shares/:id/short/:positionId/collateral - Top up collateral to meet a margin call
+export async function POST(
+  req: NextRequest,
+  { params }: { params: { id: string; positionId: string } }
+) {
+  try {
+    await connectMongo();
+    const userId = await getAuthUserId(req);
+    if (!userId) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const corporationId = parseInt(params.id, 10);
+    const positionId = parseInt(params.positionId, 10);
+
+    if (isNaN(corporationId) || isNaN(positionId)) {
+      return NextResponse.json({ error: 'Invalid position ID' }, { status: 400 });
+    }
+
+    const body = await req.json();
+    const validated = AddShortCollateralSchema.safeParse(body);
+
+    if (!validated.success) {
+      return NextResponse.json(
+        { error: 'Validation failed', details: validated.error.issues },
+        { status: 400 }
+      );
+    }
+
+    const position = await ShortPositionModel.findById(positionId);
+    if (!position || position.corporation_id !== corporationId) {
+      return NextResponse.json({ error: 'Position not found' }, { status: 404 });
+    }
+
+    if (position.user_id !== userId) {
+      return NextResponse.json({ error: 'You can only add collateral to your own positions' }, { status: 403 });
+    }
+
+    if (position.status !== 'open') {
+      return NextResponse.json({ error: `Position is already ${position.status}` }, { status: 400 });
+    }
+
+    const corporation = await CorporationModel.findById(corporationId);
+    if (!corporation) {
+      return NextResponse.json({ error: 'Corporation not found' }, { status: 404 });
+    }
+
+    const updated = await ShortSellingService.addCollateral(position, validated.data.amount, corporation.share_price);
+
+    return NextResponse.json({
+      success: true,
+      position: updated,
+      collateral_ratio: calculateCollateralRatio(updated.collateral, updated.shares, corporation.share_price),
+    });
+  } catch (error: unknown) {
+    if (error instanceof TradeSettlementError) {
+      return NextResponse.json({ error: error.message }, { status: 400 });
+    }
+    console.error('Add short collateral error:', error);
+    return NextResponse.json({ error: getErrorMessage(error, 'Failed to add collateral') }, { status: 500 });
+  }
+}
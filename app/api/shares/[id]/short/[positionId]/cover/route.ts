@@ -0,0 +1,67 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getAuthUserId } from '@/lib/auth';
+import { connectMongo } from '@/lib/db/mongo';
+import { ShortPositionModel } from '@/lib/models/ShortPosition';
+import { ShortSellingService } from '@/lib/services/ShortSellingService';
+import { TradeSettlementError } from '@/lib/services/TradeSettlementService';
+import { SHORT_CONFIG } from '@/lib/constants/shorts';
+import { calculateStockPrice } from '@/lib/utils/valuation';
+import { getErrorMessage } from '@/lib/utils';
+
+// POST /api/shares/:id/short/:positionId/cover - Buy back borrowed shares and close the position
+export async function POST(
+  req: NextRequest,
+  { params }: { params: { id: string; positionId: string } }
+) {
+  try {
+    await connectMongo();
+    const userId = await getAuthUserId(req);
+    if (!userId) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const corporationId = parseInt(params.id, 10);
+    const positionId = parseInt(params.positionId, 10);
+
+    if (isNaN(corporationId) || isNaN(positionId)) {
+      return NextResponse.json({ error: 'Invalid position ID' }, { status: 400 });
+    }
+
+    const position = await ShortPositionModel.findById(positionId);
+    if (!position || position.corporation_id !== corporationId) {
+      return NextResponse.json({ error: 'Position not found' }, { status: 404 });
+    }
+
+    if (position.user_id !== userId) {
+      return NextResponse.json({ error: 'You can only cover your own positions' }, { status: 403 });
+    }
+
+    if (position.status !== 'open') {
+      return NextResponse.json({ error: `Position is already ${position.status}` }, { status: 400 });
+    }
+
+    // Covering is a purchase, so it pays the 1.01x buy spread
+    const valuation = await calculateStockPrice(corporationId);
+    const coverPrice = Math.round(valuation.calculatedPrice * SHORT_CONFIG.COVER_SPREAD * 100) / 100;
+
+    const result = await ShortSellingService.coverShort(position, coverPrice);
+
+    return NextResponse.json({
+      success: true,
+      position: result.position,
+      price: coverPrice,
+      cost: result.cost,
+      collateral_returned: result.collateral_returned,
+      shortfall: result.shortfall,
+      unpaid_deficit: result.unpaid_deficit,
+      bought_in: result.bought_in,
+      realized_pnl: result.position.realized_pnl,
+    });
+  } catch (error: unknown) {
+    if (error instanceof TradeSettlementError) {
+      return NextResponse.json({ error: error.message }, { status: 400 });
+    }
+    console.error('Cover short position error:', error);
+    return NextResponse.json({ error: getErrorMessage(error, 'Failed to cover short position') }, { status: 500 });
+  }
+}
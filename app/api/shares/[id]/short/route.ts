@@ -0,0 +1,139 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getAuthUserId } from '@/lib/auth';
+import { connectMongo } from '@/lib/db/mongo';
+import { CorporationModel } from '@/lib/models/Corporation';
+import { ShortPositionModel } from '@/lib/models/ShortPosition';
+import { UserModel } from '@/lib/models/User';
+import { ShortSellingService } from '@/lib/services/ShortSellingService';
+import { TradeSettlementError } from '@/lib/services/TradeSettlementService';
+import { OpenShortSchema } from '@/lib/validations/shares';
+import { SHORT_CONFIG, calculateInitialCollateral, calculateCollateralRatio } from '@/lib/constants/shorts';
+import { calculateStockPrice } from '@/lib/utils/valuation';
+import { getErrorMessage } from '@/lib/utils';
+
+export const dynamic = 'force-dynamic';
+
+// GET /api/shares/:id/short - Your short positions in this corporation
+export async function GET(
+  req: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  try {
+    await connectMongo();
+    const userId = await getAuthUserId(req);
+    if (!userId) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const corporationId = parseInt(params.id, 10);
+    if (isNaN(corporationId)) {
+      return NextResponse.json({ error: 'Invalid corporation ID' }, { status: 400 });
+    }
+
+    const corporation = await CorporationModel.findById(corporationId);
+    if (!corporation) {
+      return NextResponse.json({ error: 'Corporation not found' }, { status: 404 });
+    }
+
+    const positions = await ShortPositionModel.findByUser(userId, corporationId);
+
+    return NextResponse.json({
+      corporation_id: corporationId,
+      share_price: corporation.share_price,
+      positions: positions.map(position => ({
+        ...position,
+        collateral_ratio: position.status === 'open'
+          ? calculateCollateralRatio(position.collateral, position.shares, corporation.share_price)
+          : null,
+        unrealized_pnl: position.status === 'open'
+          ? position.proceeds - position.shares * corporation.share_price - position.fees_paid
+          : null,
+      })),
+      maintenance_margin: SHORT_CONFIG.MAINTENANCE_MARGIN,
+    });
+  } catch (error: unknown) {
+    console.error('Get short positions error:', error);
+    return NextResponse.json({ error: getErrorMessage(error, 'Failed to fetch short positions') }, { status: 500 });
+  }
+}
+
+// POST /api/shares/:id/short - Borrow shares from the lending pool and sell them
+export async function POST(
+  req: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  try {
+    await connectMongo();
+    const userId = await getAuthUserId(req);
+    if (!userId) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const corporationId = parseInt(params.id, 10);
+    if (isNaN(corporationId)) {
+      return NextResponse.json({ error: 'Invalid corporation ID' }, { status: 400 });
+    }
+
+    const body = await req.json();
+    const validated = OpenShortSchema.safeParse(body);
+
+    if (!validated.success) {
+      return NextResponse.json(
+        { error: 'Validation failed', details: validated.error.issues },
+        { status: 400 }
+      );
+    }
+
+    const { shares } = validated.data;
+
+    const corporation = await CorporationModel.findById(corporationId);
+    if (!corporation) {
+      return NextResponse.json({ error: 'Corporation not found' }, { status: 404 });
+    }
+    if (corporation.retired_at) {
+      return NextResponse.json({ error: 'This corporation has been merged into another' }, { status: 400 });
+    }
+
+    const openPositions = await ShortPositionModel.countOpenByUser(userId);
+    if (openPositions >= SHORT_CONFIG.MAX_OPEN_POSITIONS_PER_USER) {
+      return NextResponse.json({
+        error: `You may have at most ${SHORT_CONFIG.MAX_OPEN_POSITIONS_PER_USER} open short positions`,
+      }, { status: 400 });
+    }
+
+    const pool = await ShortSellingService.getLendingPool(corporationId, userId);
+    if (pool.lendable_shares < shares) {
+      return NextResponse.json({
+        error: `Only ${pool.lendable_shares} shares are available to borrow`,
+      }, { status: 400 });
+    }
+
+    // Short sales fill at the same 0.99x spread as a regular sale
+    const valuation = await calculateStockPrice(corporationId);
+    const salePrice = Math.round(valuation.calculatedPrice * SHORT_CONFIG.SHORT_SALE_SPREAD * 100) / 100;
+    const margin = calculateInitialCollateral(shares, salePrice) - salePrice * shares;
+
+    const userCash = await UserModel.getCash(userId);
+    if (userCash < margin) {
+      return NextResponse.json({
+        error: `Insufficient funds for margin. You have ${userCash.toLocaleString('en-US', { style: 'currency', currency: 'USD' })} but need ${margin.toLocaleString('en-US', { style: 'currency', currency: 'USD' })}`
+      }, { status: 400 });
+    }
+
+    const position = await ShortSellingService.openShort(corporationId, userId, shares, salePrice);
+
+    return NextResponse.json({
+      success: true,
+      position,
+      price: salePrice,
+      proceeds: position.proceeds,
+      margin_posted: margin,
+    }, { status: 201 });
+  } catch (error: unknown) {
+    if (error instanceof TradeSettlementError) {
+      return NextResponse.json({ error: error.message }, { status: 400 });
+    }
+    console.error('Open short position error:', error);
+    return NextResponse.json({ error: getErrorMessage(error, 'Failed to open short position') }, { status: 500 });
+  }
+}
@@ -0,0 +1,78 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getAuthUserId } from '@/lib/auth';
+import { connectMongo } from '@/lib/db/mongo';
+import { CorporationModel } from '@/lib/models/Corporation';
+import { TenderOfferModel } from '@/lib/models/TenderOffer';
+import { TenderOfferService, TenderOfferError } from '@/lib/services/TenderOfferService';
+import { getErrorMessage } from '@/lib/utils';
+
+export const dynamic = 'force-dynamic';
+
+// GET /api/tender-offers/:id - A single tender offer
+export async function GET(
+  req: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  try {
+    await connectMongo();
+
+    const offerId = parseInt(params.id, 10);
+    if (isNaN(offerId)) {
+      return NextResponse.json({ error: 'Invalid tender offer ID' }, { status: 400 });
+    }
+
+    const offer = await TenderOfferModel.findById(offerId);
+    if (!offer) {
+      return NextResponse.json({ error: 'Tender offer not found' }, { status: 404 });
+    }
+
+    return NextResponse.json({ offer });
+  } catch (error: unknown) {
+    console.error('Get tender offer error:', error);
+    return NextResponse.json({ error: getErrorMessage(error, 'Failed to fetch tender offer') }, { status: 500 });
+  }
+}
+
+// DELETE /api/tender-offers/:id - Withdraw an open offer (bidder only)
+export async function DELETE(
+  req: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  try {
+    await connectMongo();
+    const userId = await getAuthUserId(req);
+    if (!userId) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const offerId = parseInt(params.id, 10);
+    if (isNaN(offerId)) {
+      return NextResponse.json({ error: 'Invalid tender offer ID' }, { status: 400 });
+    }
+
+    const offer = await TenderOfferModel.findById(offerId);
+    if (!offer) {
+      return NextResponse.json({ error: 'Tender offer not found' }, { status: 404 });
+    }
+
+    // A corporation's offer belongs to whoever is its CEO now
+    let isBidder = offer.bidder_type === 'user' && offer.bidder_user_id === userId;
+    if (offer.bidder_corporation_id !== null) {
+      const bidderCorp = await CorporationModel.findById(offer.bidder_corporation_id);
+      isBidder = !!bidderCorp && (bidderCorp.ceo_id === userId || bidderCorp.elected_ceo_id === userId);
+    }
+    if (!isBidder) {
+      return NextResponse.json({ error: 'Only the bidder can withdraw this offer' }, { status: 403 });
+    }
+
+    const withdrawn = await TenderOfferService.withdrawOffer(offer);
+
+    return NextResponse.json({ success: true, offer: withdrawn, refund: withdrawn.escrow });
+  } catch (error: unknown) {
+    if (error instanceof TenderOfferError) {
+      return NextResponse.json({ error: error.message }, { status: 400 });
+    }
+    console.error('Withdraw tender offer error:', error);
+    return NextResponse.json({ error: getErrorMessage(error, 'Failed to withdraw tender offer') }, { status: 500 });
+  }
+}
@@ -0,0 +1,91 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getAuthUserId } from '@/lib/auth';
+import { connectMongo } from '@/lib/db/mongo';
+import { TenderOfferModel } from '@/lib/models/TenderOffer';
+import { TenderOfferService, TenderOfferError } from '@/lib/services/TenderOfferService';
+import { TenderSharesSchema } from '@/lib/validations/shares';
+import { getErrorMessage } from '@/lib/utils';
+
+export const dynamic = 'force-dynamic';
+
+// POST /api/tender-offers/:id/tender - Tender shares into an open offer
+export async function POST(
+  req: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  try {
+    await connectMongo();
+    const userId = await getAuthUserId(req);
+    if (!userId) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const offerId = parseInt(params.id, 10);
+    if (isNaN(offerId)) {
+      return NextResponse.json({ error: 'Invalid tender offer ID' }, { status: 400 });
+    }
+
+    const body = await req.json();
+    const validated = TenderSharesSchema.safeParse(body);
+
+    if (!validated.success) {
+      return NextResponse.json(
+        { error: 'Validation failed', details: validated.error.issues },
+        { status: 400 }
+      );
+    }
+
+    const offer = await TenderOfferModel.findById(offerId);
+    if (!offer) {
+      return NextResponse.json({ error: 'Tender offer not found' }, { status: 404 });
+    }
+
+    const updated = await TenderOfferService.tender(offer, userId, validated.data.shares);
+
+    return NextResponse.json({
+      success: true,
+      offer: updated,
+      my_tendered_shares: updated.tenders.find(t => t.user_id === userId)?.shares ?? 0,
+    });
+  } catch (error: unknown) {
+    if (error instanceof TenderOfferError) {
+      return NextResponse.json({ error: error.message }, { status: 400 });
+    }
+    console.error('Tender shares error:', error);
+    return NextResponse.json({ error: getErrorMessage(error, 'Failed to tender shares') }, { status: 500 });
+  }
+}
+
+// DELETE /api/tender-offers/:id/tender - Withdraw your tendered shares before the offer closes
+export async function DELETE(
+  req: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  try {
+    await connectMongo();
+    const userId = await getAuthUserId(req);
+    if (!userId) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const offerId = parseInt(params.id, 10);
+    if (isNaN(offerId)) {
+      return NextResponse.json({ error: 'Invalid tender offer ID' }, { status: 400 });
+    }
+
+    const offer = await TenderOfferModel.findById(offerId);
+    if (!offer) {
+      return NextResponse.json({ error: 'Tender offer not found' }, { status: 404 });
+    }
+
+    const result = await TenderOfferService.withdrawTender(offer, userId);
+
+    return NextResponse.json({ success: true, ...result });
+  } catch (error: unknown) {
+    if (error instanceof TenderOfferError) {
+      return NextResponse.json({ error: error.message }, { status: 400 });
+    }
+    console.error('Withdraw tender error:', error);
+    return NextResponse.json({ error: getErrorMessage(error, 'Failed to withdraw tendered shares') }, { status: 500 });
+  }
+}
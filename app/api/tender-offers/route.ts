@@ -0,0 +1,118 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getAuthUserId } from '@/lib/auth';
+import { connectMongo } from '@/lib/db/mongo';
+import { CorporationModel } from '@/lib/models/Corporation';
+import { TenderOfferModel, TenderOfferStatus } from '@/lib/models/TenderOffer';
+import { UserModel } from '@/lib/models/User';
+import { TenderOfferService, TenderOfferError } from '@/lib/services/TenderOfferService';
+import { LaunchTenderOfferSchema } from '@/lib/validations/shares';
+import { calculateStakePct } from '@/lib/constants/tenderOffers';
+import { getErrorMessage } from '@/lib/utils';
+
+export const dynamic = 'force-dynamic';
+
+const STATUSES: TenderOfferStatus[] = ['open', 'succeeded', 'failed', 'withdrawn'];
+
+// GET /api/tender-offers?corporation_id=X[&status=open] - Tender offers for a target corporation
+export async function GET(req: NextRequest) {
+  try {
+    await connectMongo();
+    const userId = await getAuthUserId(req);
+
+    const { searchParams } = new URL(req.url);
+    const corporationId = parseInt(searchParams.get('corporation_id') || '', 10);
+    if (isNaN(corporationId)) {
+      return NextResponse.json({ error: 'Invalid corporation ID' }, { status: 400 });
+    }
+
+    const statusParam = searchParams.get('status');
+    const status = STATUSES.find(s => s === statusParam);
+
+    const corporation = await CorporationModel.findById(corporationId);
+    if (!corporation) {
+      return NextResponse.json({ error: 'Corporation not found' }, { status: 404 });
+    }
+
+    const offers = await TenderOfferModel.findByTarget(corporationId, status);
+
+    const bidderCorpIds = [...new Set(offers.map(o => o.bidder_corporation_id).filter((id): id is number => id !== null))];
+    const bidderUserIds = [...new Set(offers.map(o => o.bidder_user_id))];
+    const [bidderCorps, bidderUsers] = await Promise.all([
+      Promise.all(bidderCorpIds.map(id => CorporationModel.findById(id))),
+      UserModel.findByIds(bidderUserIds),
+    ]);
+
+    const enriched = await Promise.all(offers.map(async offer => {
+      const bidderCorp = bidderCorps.find(c => c?.id === offer.bidder_corporation_id);
+      const bidderUser = bidderUsers.find(u => u.id === offer.bidder_user_id);
+      const held = offer.status === 'open' ? await TenderOfferService.getBidderHolding(offer) : 0;
+
+      return {
+        ...offer,
+        bidder_name: bidderCorp?.name ?? bidderUser?.username ?? 'Unknown',
+        bidder_shares_held: offer.status === 'open' ? held : null,
+        // Stake the bidder would hold if the offer closed now
+        projected_stake_pct: offer.status === 'open'
+          ? calculateStakePct(held + offer.shares_tendered, corporation.shares)
+          : offer.stake_pct_at_close,
+        my_tendered_shares: userId ? (offer.tenders.find(t => t.user_id === userId)?.shares ?? 0) : 0,
+        is_bidder: userId !== null && offer.bidder_user_id === userId,
+      };
+    }));
+
+    return NextResponse.json({
+      corporation_id: corporationId,
+      share_price: corporation.share_price,
+      outstanding_shares: corporation.shares,
+      offers: enriched,
+    });
+  } catch (error: unknown) {
+    console.error('Get tender offers error:', error);
+    return NextResponse.json({ error: getErrorMessage(error, 'Failed to fetch tender offers') }, { status: 500 });
+  }
+}
+
+// POST /api/tender-offers - Launch a tender offer, escrowing the full offer amount
+export async function POST(req: NextRequest) {
+  try {
+    await connectMongo();
+    const userId = await getAuthUserId(req);
+    if (!userId) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const body = await req.json();
+    const validated = LaunchTenderOfferSchema.safeParse(body);
+
+    if (!validated.success) {
+      return NextResponse.json(
+        { error: 'Validation failed', details: validated.error.issues },
+        { status: 400 }
+      );
+    }
+
+    const { target_corporation_id, corporation_id, price_per_share, max_shares, window_hours } = validated.data;
+
+    const target = await CorporationModel.findById(target_corporation_id);
+    if (!target) {
+      return NextResponse.json({ error: 'Corporation not found' }, { status: 404 });
+    }
+
+    const offer = await TenderOfferService.launch({
+      target_corporation_id,
+      bidder_user_id: userId,
+      bidder_corporation_id: corporation_id,
+      price_per_share,
+      max_shares,
+      window_hours,
+    });
+
+    return NextResponse.json({ success: true, offer }, { status: 201 });
+  } catch (error: unknown) {
+    if (error instanceof TenderOfferError) {
+      return NextResponse.json({ error: error.message }, { status: 400 });
+    }
+    console.error('Launch tender offer error:', error);
+    return NextResponse.json({ error: getErrorMessage(error, 'Failed to launch tender offer') }, { status: 500 });
+  }
+}
@@ -0,0 +1,34 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getAuthUserId } from '@/lib/auth';
+import { connectMongo } from '@/lib/db/mongo';
+import { WatchlistService } from '@/lib/services/WatchlistService';
+import { getErrorMessage } from '@/lib/utils';
+
+// DELETE /api/watchlist/:id - Stop watching an entry, removing its alerts
+export async function DELETE(
+  request: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  try {
+    await connectMongo();
+    const userId = await getAuthUserId(request);
+    if (!userId) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const itemId = parseInt(params.id, 10);
+    if (isNaN(itemId)) {
+      return NextResponse.json({ error: 'Invalid watchlist entry ID' }, { status: 400 });
+    }
+
+    const removed = await WatchlistService.removeItem(userId, itemId);
+    if (!removed) {
+      return NextResponse.json({ error: 'Watchlist entry not found' }, { status: 404 });
+    }
+
+    return NextResponse.json({ success: true });
+  } catch (error: unknown) {
+    console.error('Remove from watchlist error:', error);
+    return NextResponse.json({ error: getErrorMessage(error, 'Failed to remove from watchlist') }, { status: 500 });
+  }
+}
@@ -0,0 +1,34 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getAuthUserId } from '@/lib/auth';
+import { connectMongo } from '@/lib/db/mongo';
+import { WatchlistService } from '@/lib/services/WatchlistService';
+import { getErrorMessage } from '@/lib/utils';
+
+// DELETE /api/watchlist/alerts/:id - Delete a price alert
+export async function DELETE(
+  request: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  try {
+    await connectMongo();
+    const userId = await getAuthUserId(request);
+    if (!userId) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const alertId = parseInt(params.id, 10);
+    if (isNaN(alertId)) {
+      return NextResponse.json({ error: 'Invalid alert ID' }, { status: 400 });
+    }
+
+    const deleted = await WatchlistService.deleteAlert(userId, alertId);
+    if (!deleted) {
+      return NextResponse.json({ error: 'Alert not found' }, { status: 404 });
+    }
+
+    return NextResponse.json({ success: true });
+  } catch (error: unknown) {
+    console.error('Delete price alert error:', error);
+    return NextResponse.json({ error: getErrorMessage(error, 'Failed to delete price alert') }, { status: 500 });
+  }
+}
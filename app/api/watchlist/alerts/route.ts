@@ -0,0 +1,36 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getAuthUserId } from '@/lib/auth';
+import { connectMongo } from '@/lib/db/mongo';
+import { WatchlistService, WatchlistError } from '@/lib/services/WatchlistService';
+import { CreatePriceAlertSchema } from '@/lib/validations/watchlists';
+import { getErrorMessage } from '@/lib/utils';
+
+// POST /api/watchlist/alerts - Set a price alert on a watchlist entry
+export async function POST(request: NextRequest) {
+  try {
+    await connectMongo();
+    const userId = await getAuthUserId(request);
+    if (!userId) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const body = await request.json();
+    const validated = CreatePriceAlertSchema.safeParse(body);
+    if (!validated.success) {
+      return NextResponse.json(
+        { error: 'Validation failed', details: validated.error.issues },
+        { status: 400 }
+      );
+    }
+
+    const { watchlistItemId, condition, threshold } = validated.data;
+    const alert = await WatchlistService.createAlert(userId, watchlistItemId, condition, threshold);
+    return NextResponse.json({ success: true, alert }, { status: 201 });
+  } catch (error: unknown) {
+    if (error instanceof WatchlistError) {
+      return NextResponse.json({ error: error.message }, { status: 400 });
+    }
+    console.error('Create price alert error:', error);
+    return NextResponse.json({ error: getErrorMessage(error, 'Failed to create price alert') }, { status: 500 });
+  }
+}
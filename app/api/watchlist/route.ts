@@ -0,0 +1,55 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getAuthUserId } from '@/lib/auth';
+import { connectMongo } from '@/lib/db/mongo';
+import { WatchlistService, WatchlistError } from '@/lib/services/WatchlistService';
+import { AddWatchlistItemSchema } from '@/lib/validations/watchlists';
+import { getErrorMessage } from '@/lib/utils';
+
+// GET /api/watchlist - The viewer's watchlist with current prices, daily changes and alerts
+export async function GET(request: NextRequest) {
+  try {
+    await connectMongo();
+    const userId = await getAuthUserId(request);
+    if (!userId) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const items = await WatchlistService.getWatchlist(userId);
+    return NextResponse.json({ items });
+  } catch (error: unknown) {
+    console.error('Get watchlist error:', error);
+    return NextResponse.json({ error: getErrorMessage(error, 'Failed to fetch watchlist') }, { status: 500 });
+  }
+}
+
+// POST /api/watchlist - Watch a corporation, resource or product
+export async function POST(request: NextRequest) {
+  try {
+    await connectMongo();
+    const userId = await getAuthUserId(request);
+    if (!userId) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const body = await request.json();
+    const validated = AddWatchlistItemSchema.safeParse(body);
+    if (!validated.success) {
+      return NextResponse.json(
+        { error: 'Validation failed', details: validated.error.issues },
+        { status: 400 }
+      );
+    }
+
+    const item = await WatchlistService.addItem(userId, {
+      corporation_id: validated.data.corporationId,
+      item: validated.data.item,
+    });
+    return NextResponse.json({ success: true, item }, { status: 201 });
+  } catch (error: unknown) {
+    if (error instanceof WatchlistError) {
+      return NextResponse.json({ error: error.message }, { status: 400 });
+    }
+    console.error('Add to watchlist error:', error);
+    return NextResponse.json({ error: getErrorMessage(error, 'Failed to add to watchlist') }, { status: 500 });
+  }
+}
@@ -1,12 +1,14 @@
 'use client';
 
-import { useEffect, useState } from 'react';
+import { useCallback, useEffect, useState } from 'react';
 import { useParams } from 'next/navigation';
 import Link from 'next/link';
 import AppNavigation from '@/components/AppNavigation';
-import { marketsAPI, ResourceDetailResponse, MarketMetadataResponse, ResourcePieDataResponse, ResourceSupplierDemander } from '@/lib/api';
+import { marketsAPI, CandleResolution, ResourceDetailResponse, MarketMetadataResponse, ResourcePieDataResponse, ResourceSupplierDemander } from '@/lib/api';
 import { formatPriceLocalized, formatNumberLocalized, categorizeDemandLevel } from '@/lib/marketUtils';
 import PriceChart from '@/components/PriceChart';
+import CandlestickChart from '@/components/CandlestickChart';
+import SpotOrderBookPanel from '@/components/SpotOrderBookPanel';
 import CommodityPieChart from '@/components/CommodityPieChart';
 import ProductionChainDiagram from '@/components/ProductionChainDiagram';
 import {
@@ -115,6 +117,11 @@ export default function CommodityDetailPage() {
     }
   }, [showPieCharts, resourceName, pieData]);
 
+  const fetchCandles = useCallback(
+    (resolution: CandleResolution) => marketsAPI.getResourceCandles(resourceName, resolution),
+    [resourceName]
+  );
+
   const formatCurrency = (value: number) => formatPriceLocalized(value, locale);
   const formatNumber = (value: number) => formatNumberLocalized(value, locale);
 
@@ -151,6 +158,10 @@ export default function CommodityDetailPage() {
   const supplyingSectors = marketMetadata?.resource_suppliers?.[resourceName] || [];
   const demandingSectors = marketMetadata?.resource_consumers?.[resourceName] || data.demanding_sectors;
   const demandLevel = categorizeDemandLevel(data.total_supply, data.total_demand);
+  const reserves = data.reserves;
+  const reservesRemainingPct = reserves && reserves.total_capacity > 0 ? (reserves.total_remaining / reserves.total_capacity) * 100 : 0;
+  const oldestReserves = reserves?.history[0];
+  const reservesChange = reserves && oldestReserves ? reserves.total_remaining - oldestReserves.remaining : 0;
 
   return (
     <AppNavigation>
@@ -233,6 +244,12 @@ export default function CommodityDetailPage() {
               title={`${resourceName} Price`}
             />
 
+            {/* Candles */}
+            <CandlestickChart fetchCandles={fetchCandles} title={`${resourceName} Candles`} volumeLabel="Units" />
+
+            {/* Spot Market */}
+            <SpotOrderBookPanel item={resourceName} />
+
             {/* Supply & Demand */}
             <div className="relative rounded-2xl border border-gray-200/50 dark:border-gray-700/50 bg-gradient-to-br from-white via-white to-gray-50/50 dark:from-gray-900 dark:via-gray-900 dark:to-gray-800/50 shadow-xl overflow-hidden backdrop-blur-sm">
               <div className="relative p-6">
@@ -527,6 +544,48 @@ export default function CommodityDetailPage() {
               </div>
             </div>
 
+            {/* Remaining Reserves */}
+            {reserves && reserves.states.length > 0 && (
+              <div className="relative rounded-2xl border border-gray-200/50 dark:border-gray-700/50 bg-gradient-to-br from-white via-white to-gray-50/50 dark:from-gray-900 dark:via-gray-900 dark:to-gray-800/50 shadow-xl overflow-hidden backdrop-blur-sm">
+                <div className="relative p-6">
+                  <h3 className="text-lg font-bold text-gray-900 dark:text-white mb-1 flex items-center gap-2">
+                    <Droplets className="h-5 w-5 text-amber-500" />
+                    Remaining Reserves
+                  </h3>
+                  <p className="text-xs text-gray-500 dark:text-gray-400 mb-3">
+                    {formatNumber(reserves.total_remaining)} of {formatNumber(reserves.total_capacity)} units left ({reservesRemainingPct.toFixed(1)}%)
+                    {oldestReserves && Math.abs(reservesChange) >= 0.5 && (
+                      <span className={reservesChange < 0 ? 'text-amber-600 dark:text-amber-400' : 'text-emerald-600 dark:text-emerald-400'}>
+                        {' '}· {reservesChange > 0 ? '+' : ''}{formatNumber(reservesChange)} since {new Date(oldestReserves.recorded_at).toLocaleDateString()}
+                      </span>
+                    )}
+                  </p>
+                  <div className="space-y-2">
+                    {reserves.states.slice(0, 8).map((state) => (
+                      <Link
+                        key={state.state_code}
+                        href={`/states/${state.state_code}`}
+                        className="block p-2 rounded-lg hover:bg-gray-50 dark:hover:bg-gray-800/50 transition-colors"
+                      >
+                        <div className="flex items-center justify-between text-sm">
+                          <span className="font-medium text-gray-900 dark:text-white">{state.state_name}</span>
+                          <span className="font-mono text-xs text-gray-600 dark:text-gray-400">
+                            {formatNumber(state.remaining)} · {state.yield > 0 ? `${(state.yield * 100).toFixed(0)}% yield` : 'exhausted'}
+                          </span>
+                        </div>
+                        <div className="mt-1 h-1.5 rounded-full bg-gray-100 dark:bg-gray-800 overflow-hidden">
+                          <div
+                            className={`h-full rounded-full ${state.yield >= 1 ? 'bg-emerald-500' : state.yield > 0 ? 'bg-amber-500' : 'bg-red-500'}`}
+                            style={{ width: `${state.capacity > 0 ? Math.min(100, (state.remaining / state.capacity) * 100) : 0}%` }}
+                          />
+                        </div>
+                      </Link>
+                    ))}
+                  </div>
+                </div>
+              </div>
+            )}
+
             {/* Supplying Sectors */}
             <div className="relative rounded-2xl border border-gray-200/50 dark:border-gray-700/50 bg-gradient-to-br from-white via-white to-gray-50/50 dark:from-gray-900 dark:via-gray-900 dark:to-gray-800/50 shadow-xl overflow-hidden backdrop-blur-sm">
               <div className="relative p-6">
@@ -3,7 +3,16 @@
 import { useEffect, useMemo, useState } from 'react';
 import Link from 'next/link';
 import AppNavigation from '@/components/AppNavigation';
-import { authAPI, corporationAPI, corporateActionsAPI, CorporateAction, CorporationResponse } from '@/lib/api';
+import {
+  authAPI,
+  corporationAPI,
+  corporateActionsAPI,
+  marketsAPI,
+  CorporateAction,
+  CorporateActionConfig,
+  CorporationResponse,
+} from '@/lib/api';
+import { calculateActionCost, describeEffect, isStateScoped } from '@/lib/constants/corporateActions';
 import { trackEvent } from '@/lib/analytics';
 import { formatCash, getErrorMessage } from '@/lib/utils';
 import { AlertCircle, Building2 } from 'lucide-react';
@@ -13,7 +22,10 @@ export default function CorporateActionsPage() {
   const [error, setError] = useState('');
   const [corporation, setCorporation] = useState<CorporationResponse | null>(null);
   const [activeActions, setActiveActions] = useState<CorporateAction[]>([]);
-  const [activating, setActivating] = useState<'supply_rush' | 'marketing_campaign' | null>(null);
+  const [catalogue, setCatalogue] = useState<CorporateActionConfig[]>([]);
+  const [marketStates, setMarketStates] = useState<string[]>([]);
+  const [targetStates, setTargetStates] = useState<Record<string, string>>({});
+  const [activating, setActivating] = useState<string | null>(null);
   const [now, setNow] = useState(() => Date.now());
 
   useEffect(() => {
@@ -44,10 +56,16 @@ export default function CorporateActionsPage() {
         const corpData = await corporationAPI.getById(myCorp.id);
         setCorporation(corpData);
 
-        const actions = await corporateActionsAPI.getActiveActions(myCorp.id).catch((_err: unknown) =>
-          corporateActionsAPI.getAllActions(myCorp.id).catch((_err2: unknown) => [])
-        );
+        const [actions, available, finances] = await Promise.all([
+          corporateActionsAPI.getActiveActions(myCorp.id).catch((_err: unknown) =>
+            corporateActionsAPI.getAllActions(myCorp.id).catch((_err2: unknown) => [])
+          ),
+          corporateActionsAPI.getCatalogue().catch((_err: unknown) => []),
+          marketsAPI.getCorporationFinances(myCorp.id).catch((_err: unknown) => null),
+        ]);
         setActiveActions(actions);
+        setCatalogue(available);
+        setMarketStates(Array.from(new Set(finances?.market_entries.map((entry) => entry.state_code) ?? [])).sort());
       } catch (err: unknown) {
         setError('Please log in to view corporate actions.');
         setCorporation(null);
@@ -69,7 +87,10 @@ export default function CorporateActionsPage() {
     return effectiveTotalShares * (corporation.share_price || 0);
   }, [corporation]);
 
-  const actionCostValue = useMemo(() => 500_000 + marketCap * 0.01, [marketCap]);
+  const catalogueByType = useMemo(
+    () => new Map(catalogue.map((config) => [config.action_type, config])),
+    [catalogue]
+  );
 
   const getRemainingTime = (expiresAt: string) => {
     const diffMs = new Date(expiresAt).getTime() - now;
@@ -88,27 +109,16 @@ export default function CorporateActionsPage() {
     setActiveActions(actions);
   };
 
-  const handleActivateSupplyRush = async () => {
+  const handleActivate = async (config: CorporateActionConfig) => {
     if (!corporation) return;
-    setActivating('supply_rush');
+    const stateCode = isStateScoped(config.effects) ? targetStates[config.action_type] ?? marketStates[0] : undefined;
+    setActivating(config.action_type);
+    setError('');
     try {
-      await corporateActionsAPI.activateSupplyRush(corporation.id);
+      await corporateActionsAPI.activateAction(corporation.id, config.action_type, stateCode);
       await refreshActions(corporation.id);
     } catch (err: unknown) {
-      setError(getErrorMessage(err, 'Failed to activate Supply Rush.'));
-    } finally {
-      setActivating(null);
-    }
-  };
-
-  const handleActivateMarketingCampaign = async () => {
-    if (!corporation) return;
-    setActivating('marketing_campaign');
-    try {
-      await corporateActionsAPI.activateMarketingCampaign(corporation.id);
-      await refreshActions(corporation.id);
-    } catch (err: unknown) {
-      setError(getErrorMessage(err, 'Failed to activate Marketing Campaign.'));
+      setError(getErrorMessage(err, `Failed to activate ${config.name}.`));
     } finally {
       setActivating(null);
     }
@@ -240,9 +250,12 @@ export default function CorporateActionsPage() {
                       <div className="flex items-center justify-between">
                         <div>
                           <p className="font-bold text-gray-900 dark:text-white">
-                            {action.action_type === 'supply_rush' ? 'Supply Rush' : 'Marketing Campaign'}
+                            {action.name ?? catalogueByType.get(action.action_type)?.name ?? action.action_type}
+                            {action.state_code ? ` (${action.state_code})` : ''}
+                          </p>
+                          <p className="text-sm text-gray-600 dark:text-gray-400">
+                            {(action.effects ?? catalogueByType.get(action.action_type)?.effects ?? []).map(describeEffect).join(', ')}
                           </p>
-                          <p className="text-sm text-gray-600 dark:text-gray-400">+10% production and extraction output</p>
                         </div>
                         <div className="text-right">
                           <p className="text-sm font-bold text-green-600 dark:text-green-400">Active</p>
@@ -258,86 +271,84 @@ export default function CorporateActionsPage() {
             )}
 
             <h2 className="text-lg font-bold text-gray-900 dark:text-white mb-4">Available Actions</h2>
+            {catalogue.length === 0 && (
+              <p className="text-sm text-gray-600 dark:text-gray-400">No corporate actions are available right now.</p>
+            )}
             <div className="grid grid-cols-1 md:grid-cols-2 gap-6">
-              <div className="relative rounded-xl border border-gray-200 dark:border-gray-700 bg-white dark:bg-gray-800 p-6 shadow-lg">
-                <h3 className="text-xl font-bold text-gray-900 dark:text-white mb-3">Supply Rush</h3>
-                <p className="text-sm text-gray-600 dark:text-gray-400 mb-4">
-                  Accelerate all production and extraction operations by 10% for 4 hours.
-                </p>
-                <div className="space-y-2 mb-4">
-                  <div className="flex items-center justify-between text-sm">
-                    <span className="text-gray-600 dark:text-gray-400">Cost:</span>
-                    <span className="font-bold text-gray-900 dark:text-white">{formatCash(actionCostValue)}</span>
-                  </div>
-                  <div className="flex items-center justify-between text-sm">
-                    <span className="text-gray-600 dark:text-gray-400">Duration:</span>
-                    <span className="font-bold text-gray-900 dark:text-white">4 hours</span>
-                  </div>
-                  <div className="flex items-center justify-between text-sm">
-                    <span className="text-gray-600 dark:text-gray-400">Boost:</span>
-                    <span className="font-bold text-green-600 dark:text-green-400">+10%</span>
-                  </div>
-                </div>
-                <button
-                  onClick={handleActivateSupplyRush}
-                  disabled={activating !== null || activeActions.some((a) => a.action_type === 'supply_rush')}
-                  className="w-full px-4 py-3 bg-corporate-blue text-white rounded-lg hover:bg-corporate-blue-dark disabled:opacity-50 disabled:cursor-not-allowed transition-colors font-semibold"
-                >
-                  {activeActions.some((a) => a.action_type === 'supply_rush')
-                    ? 'Already Active'
-                    : activating === 'supply_rush'
-                      ? 'Activating...'
-                      : 'Activate Supply Rush'}
-                </button>
-              </div>
-
-              <div className="relative rounded-xl border border-gray-200 dark:border-gray-700 bg-white dark:bg-gray-800 p-6 shadow-lg">
-                <h3 className="text-xl font-bold text-gray-900 dark:text-white mb-3">Marketing Campaign</h3>
-                <p className="text-sm text-gray-600 dark:text-gray-400 mb-4">
-                  Launch a marketing campaign to boost all production and extraction by 10% for 4 hours.
-                </p>
-                <div className="space-y-2 mb-4">
-                  <div className="flex items-center justify-between text-sm">
-                    <span className="text-gray-600 dark:text-gray-400">Cost:</span>
-                    <span className="font-bold text-gray-900 dark:text-white">{formatCash(actionCostValue)}</span>
-                  </div>
-                  <div className="flex items-center justify-between text-sm">
-                    <span className="text-gray-600 dark:text-gray-400">Duration:</span>
-                    <span className="font-bold text-gray-900 dark:text-white">4 hours</span>
-                  </div>
-                  <div className="flex items-center justify-between text-sm">
-                    <span className="text-gray-600 dark:text-gray-400">Boost:</span>
-                    <span className="font-bold text-green-600 dark:text-green-400">+10%</span>
+              {catalogue.map((config) => {
+                const isActive = activeActions.some((a) => a.action_type === config.action_type);
+                const stateScoped = isStateScoped(config.effects);
+                const needsMarket = stateScoped && marketStates.length === 0;
+                return (
+                  <div
+                    key={config.action_type}
+                    className="relative rounded-xl border border-gray-200 dark:border-gray-700 bg-white dark:bg-gray-800 p-6 shadow-lg flex flex-col"
+                  >
+                    <h3 className="text-xl font-bold text-gray-900 dark:text-white mb-3">{config.name}</h3>
+                    <p className="text-sm text-gray-600 dark:text-gray-400 mb-4">{config.description}</p>
+                    <div className="space-y-2 mb-4 flex-1">
+                      <div className="flex items-center justify-between text-sm">
+                        <span className="text-gray-600 dark:text-gray-400">Cost:</span>
+                        <span className="font-bold text-gray-900 dark:text-white">
+                          {formatCash(calculateActionCost(config, marketCap))}
+                        </span>
+                      </div>
+                      <div className="flex items-center justify-between text-sm">
+                        <span className="text-gray-600 dark:text-gray-400">Duration:</span>
+                        <span className="font-bold text-gray-900 dark:text-white">{config.duration_hours} hours</span>
+                      </div>
+                      {config.cooldown_hours > 0 && (
+                        <div className="flex items-center justify-between text-sm">
+                          <span className="text-gray-600 dark:text-gray-400">Cooldown:</span>
+                          <span className="font-bold text-gray-900 dark:text-white">{config.cooldown_hours} hours</span>
+                        </div>
+                      )}
+                      <div className="flex items-start justify-between gap-4 text-sm">
+                        <span className="text-gray-600 dark:text-gray-400">Effect:</span>
+                        <span className="font-bold text-green-600 dark:text-green-400 text-right">
+                          {config.effects.map(describeEffect).join(', ')}
+                        </span>
+                      </div>
+                      {stateScoped && marketStates.length > 0 && (
+                        <div className="flex items-center justify-between text-sm">
+                          <span className="text-gray-600 dark:text-gray-400">Target state:</span>
+                          <select
+                            value={targetStates[config.action_type] ?? marketStates[0]}
+                            onChange={(e) => setTargetStates((prev) => ({ ...prev, [config.action_type]: e.target.value }))}
+                            className="rounded-md border border-gray-300 dark:border-gray-600 bg-white dark:bg-gray-900 px-2 py-1 text-sm text-gray-900 dark:text-white"
+                          >
+                            {marketStates.map((code) => (
+                              <option key={code} value={code}>{code}</option>
+                            ))}
+                          </select>
+                        </div>
+                      )}
+                    </div>
+                    <button
+                      onClick={() => handleActivate(config)}
+                      disabled={activating !== null || isActive || needsMarket}
+                      className="w-full px-4 py-3 bg-corporate-blue text-white rounded-lg hover:bg-corporate-blue-dark disabled:opacity-50 disabled:cursor-not-allowed transition-colors font-semibold"
+                    >
+                      {isActive
+                        ? 'Already Active'
+                        : needsMarket
+                          ? 'Requires a Market Entry'
+                          : activating === config.action_type
+                            ? 'Activating...'
+                            : `Activate ${config.name}`}
+                    </button>
                   </div>
-                </div>
-                <button
-                  onClick={handleActivateMarketingCampaign}
-                  disabled={activating !== null || activeActions.some((a) => a.action_type === 'marketing_campaign')}
-                  className="w-full px-4 py-3 bg-corporate-blue text-white rounded-lg hover:bg-corporate-blue-dark disabled:opacity-50 disabled:cursor-not-allowed transition-colors font-semibold"
-                >
-                  {activeActions.some((a) => a.action_type === 'marketing_campaign')
-                    ? 'Already Active'
-                    : activating === 'marketing_campaign'
-                      ? 'Activating...'
-                      : 'Activate Marketing Campaign'}
-                </button>
-              </div>
+                );
+              })}
             </div>
 
             <div className="mt-6 p-4 bg-gray-50 dark:bg-gray-800/50 rounded-lg">
               <h3 className="text-sm font-bold text-gray-900 dark:text-white mb-2">Cost Calculation</h3>
               <div className="space-y-1 text-xs text-gray-600 dark:text-gray-400">
-                <div className="flex items-center justify-between">
-                  <span>Base Cost:</span>
-                  <span className="font-mono">{formatCash(500000)}</span>
-                </div>
-                <div className="flex items-center justify-between">
-                  <span>1% of Market Cap ({formatCash(marketCap)}):</span>
-                  <span className="font-mono">{formatCash(marketCap * 0.01)}</span>
-                </div>
-                <div className="border-t border-gray-300 dark:border-gray-600 mt-2 pt-2 flex items-center justify-between font-bold text-gray-900 dark:text-white">
-                  <span>Total Cost:</span>
-                  <span className="font-mono">{formatCash(actionCostValue)}</span>
+                <p>Each action costs its base cost plus a percentage of market capitalization.</p>
+                <div className="flex items-center justify-between font-bold text-gray-900 dark:text-white">
+                  <span>Market Cap:</span>
+                  <span className="font-mono">{formatCash(marketCap)}</span>
                 </div>
               </div>
             </div>
@@ -3,6 +3,9 @@ import { notFound } from 'next/navigation';
 import { connectMongo } from '@/lib/db/mongo';
 import { CorporationModel } from '@/lib/models/Corporation';
 import { MarketEntryModel } from '@/lib/models/MarketEntry';
+import { InventoryModel } from '@/lib/models/Inventory';
+import { InventoryLedgerModel } from '@/lib/models/InventoryLedger';
+import { DISPLAY_PERIOD_HOURS } from '@/lib/constants/sectors';
 import { marketDataService, MarketItemSummary } from '@/lib/services/MarketDataService';
 import { calculateStockPrice, calculateBalanceSheet } from '@/lib/utils/valuation';
 import { SectorConfigService } from '@/lib/services/SectorConfigService';
@@ -37,7 +40,9 @@ export default async function CorporationPage({ params }: PageProps) {
     commoditySummary,
     productSummary,
     sectorConfig,
-    valuation
+    valuation,
+    inventoryItems,
+    inventoryActivity
   ] = await Promise.all([
     CorporationModel.findById(corpId),
     MarketEntryModel.calculateCorporationFinances(corpId),
@@ -46,7 +51,9 @@ export default async function CorporationPage({ params }: PageProps) {
     marketDataService.getCommoditySummary(),
     marketDataService.getProductSummary(),
     SectorConfigService.getConfiguration(),
-    calculateStockPrice(corpId).catch(() => null)
+    calculateStockPrice(corpId).catch(() => null),
+    InventoryModel.findByCorporation(corpId),
+    InventoryLedgerModel.summarize(corpId, DISPLAY_PERIOD_HOURS)
   ]);
 
   if (!corporation) {
@@ -157,6 +164,7 @@ export default async function CorporationPage({ params }: PageProps) {
         initialProductPrices={JSON.parse(JSON.stringify(productPrices))}
         initialMarketMetadata={JSON.parse(JSON.stringify(marketMetadata))}
         initialStockValuation={JSON.parse(JSON.stringify(valuation))}
+        initialInventory={JSON.parse(JSON.stringify({ items: inventoryItems, activity: inventoryActivity }))}
         sectorConfig={JSON.parse(JSON.stringify(sectorConfig))}
       />
     </Suspense>
@@ -4,6 +4,8 @@ import { useEffect, useState } from 'react';
 import { useRouter } from 'next/navigation';
 import Link from 'next/link';
 import AppNavigation from '@/components/AppNavigation';
+import WatchlistPanel from '@/components/WatchlistPanel';
+import PortfolioBenchmarkPanel from '@/components/PortfolioBenchmarkPanel';
 import { portfolioAPI, PortfolioResponse, authAPI } from '@/lib/api';
 import { getErrorMessage } from '@/lib/utils';
 import { Building2, TrendingUp, DollarSign, PieChart, ArrowRight } from 'lucide-react';
@@ -231,6 +233,10 @@ export default function PortfolioPage() {
           </div>
         )}
 
+        <PortfolioBenchmarkPanel />
+
+        <WatchlistPanel />
+
         {/* Link to Stock Market */}
         {sortedHoldings.length > 0 && (
           <div className="text-center">
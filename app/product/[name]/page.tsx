@@ -1,13 +1,15 @@
 'use client';
 
-import { useEffect, useState } from 'react';
+import { useCallback, useEffect, useState } from 'react';
 import { useParams } from 'next/navigation';
 import Link from 'next/link';
 import AppNavigation from '@/components/AppNavigation';
-import { marketsAPI, ProductDetailResponse, MarketMetadataResponse, ProductPieDataResponse } from '@/lib/api';
+import { marketsAPI, CandleResolution, ProductDetailResponse, MarketMetadataResponse, ProductPieDataResponse } from '@/lib/api';
 import { getErrorMessage } from '@/lib/utils';
 import { formatPriceLocalized, formatNumberLocalized, categorizeDemandLevel } from '@/lib/marketUtils';
 import PriceChart from '@/components/PriceChart';
+import CandlestickChart from '@/components/CandlestickChart';
+import SpotOrderBookPanel from '@/components/SpotOrderBookPanel';
 import CommodityPieChart from '@/components/CommodityPieChart';
 import ProductionChainDiagram from '@/components/ProductionChainDiagram';
 import {
@@ -121,6 +123,11 @@ export default function ProductDetailPage() {
     setPage(1);
   };
 
+  const fetchCandles = useCallback(
+    (resolution: CandleResolution) => marketsAPI.getProductCandles(productName, resolution),
+    [productName]
+  );
+
   const formatCurrency = (value: number) => formatPriceLocalized(value, locale);
   const formatNumber = (value: number) => formatNumberLocalized(value, locale);
 
@@ -237,6 +244,12 @@ export default function ProductDetailPage() {
               title={`${productName} Price`}
             />
 
+            {/* Candles */}
+            <CandlestickChart fetchCandles={fetchCandles} title={`${productName} Candles`} volumeLabel="Units" />
+
+            {/* Spot Market */}
+            <SpotOrderBookPanel item={productName} />
+
             {/* Supply & Demand */}
             <div className="relative rounded-2xl border border-gray-200/50 dark:border-gray-700/50 bg-gradient-to-br from-white via-white to-gray-50/50 dark:from-gray-900 dark:via-gray-900 dark:to-gray-800/50 shadow-xl overflow-hidden backdrop-blur-sm">
               <div className="relative p-6">
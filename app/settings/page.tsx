@@ -3,13 +3,26 @@
 import { useEffect, useState, ChangeEvent, useRef } from 'react';
 import { useRouter } from 'next/navigation';
 import { RefreshCw, Lock, Eye, EyeOff, Monitor } from 'lucide-react';
-import { authAPI, AuthResponse, profileAPI, normalizeImageUrl } from '@/lib/api';
-import { Button, Textarea } from "@heroui/react";
+import { authAPI, AuthResponse, profileAPI, normalizeImageUrl, notificationsAPI, NotificationPreferences } from '@/lib/api';
+import { Button, Select, SelectItem, Textarea } from "@heroui/react";
 import { getErrorMessage } from '@/lib/utils';
+import {
+  NOTIFICATION_CATEGORIES,
+  NOTIFICATION_CATEGORY_INFO,
+  NotificationCategory,
+  NotificationDelivery,
+  getNotificationDelivery,
+} from '@/lib/constants/notifications';
 import { useTheme } from '@/components/ThemeProvider';
 
 type CurrentUser = AuthResponse['user'] & { email: string };
 
+const deliveryOptions: Array<{ value: NotificationDelivery; label: string }> = [
+  { value: 'instant', label: 'Instant' },
+  { value: 'digest', label: 'Daily digest' },
+  { value: 'muted', label: 'Muted' },
+];
+
 export default function SettingsPage() {
   const router = useRouter();
   const { theme, setTheme } = useTheme();
@@ -23,6 +36,9 @@ export default function SettingsPage() {
   const [savingBio, setSavingBio] = useState(false);
   const [revealUsername, setRevealUsername] = useState(false);
   const [revealEmail, setRevealEmail] = useState(false);
+  const [notificationPreferences, setNotificationPreferences] = useState<NotificationPreferences>({});
+  const [savedNotificationPreferences, setSavedNotificationPreferences] = useState<NotificationPreferences>({});
+  const [savingNotifications, setSavingNotifications] = useState(false);
 
   useEffect(() => {
     const loadUser = async () => {
@@ -36,6 +52,14 @@ export default function SettingsPage() {
         const me = await authAPI.getMe();
         setUser(me);
         setBio(me.bio || "I'm a new user, say hi!");
+
+        try {
+          const { preferences } = await notificationsAPI.getPreferences();
+          setNotificationPreferences(preferences);
+          setSavedNotificationPreferences(preferences);
+        } catch (err: unknown) {
+          console.warn('Failed to fetch notification preferences:', getErrorMessage(err));
+        }
       } catch (err: unknown) {
         localStorage.removeItem('token');
         localStorage.removeItem('user');
@@ -82,6 +106,28 @@ export default function SettingsPage() {
     }
   };
 
+  const handleNotificationDeliveryChange = (category: NotificationCategory, delivery: NotificationDelivery) => {
+    setNotificationPreferences(prev => ({ ...prev, [category]: delivery }));
+  };
+
+  const notificationPreferencesChanged = NOTIFICATION_CATEGORIES.some(category =>
+    getNotificationDelivery(notificationPreferences, category) !== getNotificationDelivery(savedNotificationPreferences, category)
+  );
+
+  const handleSaveNotificationPreferences = async () => {
+    setSavingNotifications(true);
+    try {
+      const { preferences } = await notificationsAPI.updatePreferences(notificationPreferences);
+      setNotificationPreferences(preferences);
+      setSavedNotificationPreferences(preferences);
+    } catch (err: unknown) {
+      console.error('Notification preferences update failed:', err);
+      alert(getErrorMessage(err, 'Failed to update notification preferences'));
+    } finally {
+      setSavingNotifications(false);
+    }
+  };
+
   const handleAvatarChange = async (e: ChangeEvent<HTMLInputElement>) => {
     const file = e.target.files?.[0];
     if (!file) {
@@ -411,6 +457,63 @@ export default function SettingsPage() {
           </div>
         </section>
 
+        <section
+          className="rounded-xl shadow-sm border bloomberg:border-bloomberg-green"
+          style={{
+            backgroundColor: 'rgb(var(--background-start-rgb))',
+            borderColor: 'rgba(var(--foreground-rgb), 0.15)'
+          }}
+        >
+          <div className="px-6 py-4 border-b border-gray-100 dark:border-gray-700/60 bloomberg:border-bloomberg-green">
+            <div>
+              <h2 className="text-lg font-semibold">Notifications</h2>
+              <p className="text-sm text-gray-500 dark:text-gray-400 bloomberg:text-bloomberg-green-dim">
+                Choose how you hear about each kind of event. Digest notifications are collected and delivered together once a day.
+              </p>
+            </div>
+          </div>
+          <div className="px-6 py-6 space-y-4">
+            {NOTIFICATION_CATEGORIES.map((category) => (
+              <div key={category} className="flex flex-col sm:flex-row sm:items-center sm:justify-between gap-2">
+                <div>
+                  <div className="text-sm font-medium text-gray-700 dark:text-gray-200 bloomberg:text-bloomberg-green-bright">
+                    {NOTIFICATION_CATEGORY_INFO[category].label}
+                  </div>
+                  <p className="text-xs text-gray-500 dark:text-gray-400 bloomberg:text-bloomberg-green-dim">
+                    {NOTIFICATION_CATEGORY_INFO[category].description}
+                  </p>
+                </div>
+                <Select
+                  aria-label={`${NOTIFICATION_CATEGORY_INFO[category].label} delivery`}
+                  size="sm"
+                  variant="bordered"
+                  className="sm:w-44"
+                  disallowEmptySelection
+                  selectedKeys={[getNotificationDelivery(notificationPreferences, category)]}
+                  onChange={(e) => handleNotificationDeliveryChange(category, e.target.value as NotificationDelivery)}
+                >
+                  {deliveryOptions.map((option) => (
+                    <SelectItem key={option.value}>
+                      {option.label}
+                    </SelectItem>
+                  ))}
+                </Select>
+              </div>
+            ))}
+            <div className="flex justify-end">
+              <Button
+                onPress={handleSaveNotificationPreferences}
+                isDisabled={savingNotifications || !notificationPreferencesChanged}
+                isLoading={savingNotifications}
+                color="primary"
+                size="sm"
+              >
+                Save Preferences
+              </Button>
+            </div>
+          </div>
+        </section>
+
       </div>
     </div>
   );
@@ -32,6 +32,7 @@ import {
   Pickaxe,
   HelpCircle,
   Trash2,
+  Truck,
 } from 'lucide-react';
 
 // Resource icon mapping
@@ -321,6 +322,8 @@ export default function StateDetailPage() {
   const [commodityPrices, setCommodityPrices] = useState<Record<string, { currentPrice: number }>>({});
   const [productPrices, setProductPrices] = useState<Record<string, { currentPrice: number }>>({});
   const [marketMetadata, setMarketMetadata] = useState<MarketMetadataResponse | null>(null);
+  const [exploreResource, setExploreResource] = useState('');
+  const [exploring, setExploring] = useState(false);
 
   // FID-20251228-001: Build product reference values from unified config
   const productReferenceValues = useMemo(() => {
@@ -525,6 +528,27 @@ export default function StateDetailPage() {
     }
   };
 
+  const handleExplore = async (resource: string) => {
+    if (!stateData?.user_corporation || !resource || !stateData.reserves) return;
+    if (!confirm(`Survey ${stateData.state.name} for ${resource} for ${formatCurrency(stateData.reserves.exploration_cost)}?`)) return;
+
+    setExploring(true);
+    try {
+      const result = await marketsAPI.exploreResource(stateCode, stateData.user_corporation.id, resource);
+      const newData = await marketsAPI.getState(stateCode);
+      setStateData(newData);
+      const me = await authAPI.getMe().catch(() => null);
+      if (me) setUserActions(me.actions || 0);
+      alert(result.exploration.discovered > 0
+        ? `Found ${result.exploration.discovered.toLocaleString()} units of ${resource}!`
+        : `The survey found no new ${resource}.`);
+    } catch (err: unknown) {
+      alert(getErrorMessage(err, 'Failed to explore'));
+    } finally {
+      setExploring(false);
+    }
+  };
+
   const handleBuildUnit = async (entryId: number, unitType: 'retail' | 'production' | 'service' | 'extraction') => {
     if (!stateData?.user_corporation) return;
 
@@ -573,6 +597,15 @@ export default function StateDetailPage() {
     }).format(value);
   };
 
+  const formatPrice = (value: number) => {
+    return new Intl.NumberFormat('en-US', {
+      style: 'currency',
+      currency: 'USD',
+      minimumFractionDigits: 2,
+      maximumFractionDigits: 2,
+    }).format(value);
+  };
+
   const getMultiplierColor = (multiplier: number) => {
     if (multiplier >= 4.0) return 'text-emerald-600 dark:text-emerald-400';
     if (multiplier >= 3.0) return 'text-blue-600 dark:text-blue-400';
@@ -636,6 +669,17 @@ export default function StateDetailPage() {
 
   // Get sectors user is already in
   const userSectorsInState = stateData?.user_market_entries?.map((e) => e.sector_type) || [];
+
+  // Resources the user's corporation extracts here and may explore for
+  const explorableResources = [...new Set(userSectorsInState.flatMap((sector) => SECTORS_CAN_EXTRACT[sector] || []))];
+
+  // Change in each reserve since the oldest recorded snapshot
+  const reserveChanges: Record<string, number> = {};
+  for (const row of stateData?.reserves?.history ?? []) {
+    if (reserveChanges[row.resource] !== undefined) continue;
+    const current = stateData?.reserves?.items.find((item) => item.resource === row.resource);
+    if (current) reserveChanges[row.resource] = current.remaining - row.remaining;
+  }
   const availableSectors = stateData?.sectors?.filter((s) => !userSectorsInState.includes(s)) || [];
 
   const getRetailServiceUnitEconomicsForDisplay = (unitType: 'retail' | 'service') => {
@@ -1012,6 +1056,69 @@ export default function StateDetailPage() {
                 )}
               </div>
             </div>
+
+            {/* Local vs National Prices */}
+            {stateData.prices && stateData.prices.items.length > 0 && (
+              <div className="relative rounded-2xl border border-gray-200/50 dark:border-gray-700/50 bg-gradient-to-br from-white via-white to-gray-50/50 dark:from-gray-900 dark:via-gray-900 dark:to-gray-800/50 shadow-xl overflow-hidden backdrop-blur-sm">
+                <div className="absolute inset-0 bg-gradient-to-br from-corporate-blue/5 via-transparent to-corporate-blue-light/5 dark:from-corporate-blue/10 dark:via-transparent dark:to-corporate-blue-dark/10 pointer-events-none" />
+                <div className="relative p-6">
+                  <h2 className="text-xl font-bold text-gray-900 dark:text-white mb-1 flex items-center gap-2">
+                    <Truck className="h-5 w-5 text-corporate-blue" />
+                    Local vs National Prices
+                  </h2>
+                  <p className="text-xs text-gray-500 dark:text-gray-400 mb-4">
+                    {stateData.prices.region ? `${stateData.prices.region} region` : 'This state'} pays shipping on what it imports from other regions and nets less on what it ships out.
+                  </p>
+                  <div className="overflow-x-auto">
+                    <table className="w-full text-sm">
+                      <thead>
+                        <tr className="text-left text-xs text-gray-500 dark:text-gray-400 border-b border-gray-200 dark:border-gray-700">
+                          <th className="py-2 pr-4 font-medium">Item</th>
+                          <th className="py-2 pr-4 font-medium text-right">Regional Supply/h</th>
+                          <th className="py-2 pr-4 font-medium text-right">Regional Demand/h</th>
+                          <th className="py-2 pr-4 font-medium text-right">National</th>
+                          <th className="py-2 pr-4 font-medium text-right">Local</th>
+                          <th className="py-2 font-medium text-right">Difference</th>
+                        </tr>
+                      </thead>
+                      <tbody>
+                        {stateData.prices.items.map((price) => (
+                          <tr key={price.item} className="border-b border-gray-100 dark:border-gray-800 last:border-0">
+                            <td className="py-2 pr-4 text-gray-900 dark:text-white">
+                              <span className="flex items-center gap-2">
+                                {RESOURCE_ICONS[price.item] ?? <Package className="w-4 h-4 text-gray-400" />}
+                                {price.item}
+                              </span>
+                            </td>
+                            <td className="py-2 pr-4 text-right font-mono text-gray-600 dark:text-gray-400">
+                              {price.local_supply.toLocaleString(undefined, { maximumFractionDigits: 1 })}
+                            </td>
+                            <td className="py-2 pr-4 text-right font-mono text-gray-600 dark:text-gray-400">
+                              {price.local_demand.toLocaleString(undefined, { maximumFractionDigits: 1 })}
+                            </td>
+                            <td className="py-2 pr-4 text-right font-mono text-gray-600 dark:text-gray-400">
+                              {formatPrice(price.national_price)}
+                            </td>
+                            <td className="py-2 pr-4 text-right font-mono font-medium text-gray-900 dark:text-white">
+                              {formatPrice(price.local_price)}
+                            </td>
+                            <td className={`py-2 text-right font-mono ${
+                              price.difference_pct > 0.05
+                                ? 'text-red-600 dark:text-red-400'
+                                : price.difference_pct < -0.05
+                                  ? 'text-emerald-600 dark:text-emerald-400'
+                                  : 'text-gray-500 dark:text-gray-400'
+                            }`}>
+                              {price.difference_pct > 0 ? '+' : ''}{price.difference_pct.toFixed(1)}%
+                            </td>
+                          </tr>
+                        ))}
+                      </tbody>
+                    </table>
+                  </div>
+                </div>
+              </div>
+            )}
           </div>
 
           {/* Sidebar */}
@@ -1135,6 +1242,89 @@ export default function StateDetailPage() {
               </div>
             )}
 
+            {/* Resource Reserves */}
+            {stateData.reserves && (stateData.reserves.items.length > 0 || explorableResources.length > 0) && (
+              <div className="relative rounded-2xl border border-gray-200/50 dark:border-gray-700/50 bg-gradient-to-br from-white via-white to-gray-50/50 dark:from-gray-900 dark:via-gray-900 dark:to-gray-800/50 shadow-xl overflow-hidden backdrop-blur-sm">
+                <div className="absolute inset-0 bg-gradient-to-br from-corporate-blue/5 via-transparent to-corporate-blue-light/5 dark:from-corporate-blue/10 dark:via-transparent dark:to-corporate-blue-dark/10 pointer-events-none" />
+                <div className="relative p-6">
+                  <h3 className="text-lg font-bold text-gray-900 dark:text-white mb-1 flex items-center gap-2">
+                    <Pickaxe className="h-5 w-5 text-amber-500" />
+                    Resource Reserves
+                  </h3>
+                  <p className="text-xs text-gray-500 dark:text-gray-400 mb-4">
+                    Extraction draws reserves down, and yields fall once they run low.
+                  </p>
+
+                  <div className="space-y-3">
+                    {stateData.reserves.items.map((reserve) => {
+                      const change = reserveChanges[reserve.resource];
+                      return (
+                        <div key={reserve.resource}>
+                          <div className="flex items-center justify-between text-sm mb-1">
+                            <span className="flex items-center gap-2 font-medium text-gray-900 dark:text-white">
+                              {RESOURCE_ICONS[reserve.resource]}
+                              {reserve.resource}
+                            </span>
+                            <span className="font-mono text-xs text-gray-600 dark:text-gray-400">
+                              {Math.round(reserve.remaining).toLocaleString()} / {Math.round(reserve.capacity).toLocaleString()}
+                            </span>
+                          </div>
+                          <div className="h-2 rounded-full bg-gray-100 dark:bg-gray-800 overflow-hidden">
+                            <div
+                              className={`h-full rounded-full ${reserve.yield >= 1 ? 'bg-emerald-500' : reserve.yield > 0 ? 'bg-amber-500' : 'bg-red-500'}`}
+                              style={{ width: `${Math.min(100, reserve.remaining_pct)}%` }}
+                            />
+                          </div>
+                          <div className="flex items-center justify-between mt-1 text-xs text-gray-500 dark:text-gray-400">
+                            <span>
+                              {reserve.yield > 0 ? `${(reserve.yield * 100).toFixed(0)}% yield` : 'Exhausted'}
+                              {reserve.discovered > 0 && ` · ${Math.round(reserve.discovered).toLocaleString()} discovered`}
+                            </span>
+                            {change !== undefined && Math.abs(change) >= 0.5 && (
+                              <span className={change < 0 ? 'text-amber-600 dark:text-amber-400' : 'text-emerald-600 dark:text-emerald-400'}>
+                                {change > 0 ? '+' : ''}{Math.round(change).toLocaleString()} ({DISPLAY_PERIOD_HOURS}h)
+                              </span>
+                            )}
+                          </div>
+                        </div>
+                      );
+                    })}
+                  </div>
+
+                  {explorableResources.length > 0 && (
+                    <div className="mt-4 pt-4 border-t border-gray-100 dark:border-gray-800">
+                      <p className="text-xs font-medium text-gray-500 dark:text-gray-400 mb-2">
+                        Explore for new reserves · {formatCurrency(stateData.reserves.exploration_cost)}, {ACTIONS_CONFIG.COSTS.EXPLORATION} actions
+                      </p>
+                      <div className="flex gap-2">
+                        <Select
+                          size="sm"
+                          aria-label="Resource to explore for"
+                          placeholder="Resource"
+                          selectedKeys={exploreResource ? [exploreResource] : []}
+                          onChange={(e) => setExploreResource(e.target.value)}
+                        >
+                          {explorableResources.map((resource) => <SelectItem key={resource}>{resource}</SelectItem>)}
+                        </Select>
+                        <Button
+                          size="sm"
+                          color="primary"
+                          onPress={() => handleExplore(exploreResource)}
+                          isDisabled={exploring || !exploreResource || userActions < ACTIONS_CONFIG.COSTS.EXPLORATION}
+                          isLoading={exploring}
+                        >
+                          Explore
+                        </Button>
+                      </div>
+                      <p className="text-xs text-gray-400 dark:text-gray-500 mt-2">
+                        Each resource can be surveyed once every {stateData.reserves.exploration_cooldown_hours}h.
+                      </p>
+                    </div>
+                  )}
+                </div>
+              </div>
+            )}
+
             {/* Unit Economics */}
             <div className="relative rounded-2xl border border-gray-200/50 dark:border-gray-700/50 bg-gradient-to-br from-white via-white to-gray-50/50 dark:from-gray-900 dark:via-gray-900 dark:to-gray-800/50 shadow-xl overflow-hidden backdrop-blur-sm">
               <div className="absolute inset-0 bg-gradient-to-br from-corporate-blue/5 via-transparent to-corporate-blue-light/5 dark:from-corporate-blue/10 dark:via-transparent dark:to-corporate-blue-dark/10 pointer-events-none" />
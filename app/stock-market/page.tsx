@@ -3,10 +3,12 @@ import AppNavigation from '@/components/AppNavigation';
 import TickerTape from '@/components/TickerTape';
 import StockMarketTable from '@/components/stock-market/StockMarketTable';
 import CommoditiesView from '@/components/stock-market/CommoditiesView';
+import MarketIndicesPanel from '@/components/stock-market/MarketIndicesPanel';
 import { connectMongo } from '@/lib/db/mongo';
 import { CorporationModel } from '@/lib/models/Corporation';
 import { SharePriceHistoryModel } from '@/lib/models/SharePriceHistory';
 import { marketDataService, MarketItemSummary } from '@/lib/services/MarketDataService';
+import { MarketIndexService } from '@/lib/services/MarketIndexService';
 import { Clock, Plus, TrendingUp, Package, FileText } from 'lucide-react';
 import Link from 'next/link';
 import { CorporationResponse, SharePriceHistoryResponse } from '@/lib/api';
@@ -67,10 +69,11 @@ async function StockMarketContent({ searchParams }: PageProps) {
     ? marketDataService.getProductSummary()
     : Promise.resolve(null);
 
-  const [corporations, commodityData, productData] = await Promise.all([
+  const [corporations, commodityData, productData, indexSummaries] = await Promise.all([
     corporationsPromise,
     commoditiesPromise,
-    productsPromise
+    productsPromise,
+    MarketIndexService.getIndexSummaries(),
   ]);
 
   // Fetch price history for all corporations if we are on the stocks tab
@@ -100,6 +103,11 @@ async function StockMarketContent({ searchParams }: PageProps) {
     special_dividend_last_paid_at: c.special_dividend_last_paid_at?.toISOString() || null
   })) as unknown as CorporationResponse[];
 
+  const indices = indexSummaries.map(index => ({
+    ...index,
+    recorded_at: index.recorded_at.toISOString(),
+  }));
+
   // Prepare commodity data
   const commodities = commodityData?.summary.map((c: MarketItemSummary) => ({
     name: c.resource || '',
@@ -184,9 +192,12 @@ async function StockMarketContent({ searchParams }: PageProps) {
 
       {/* Ticker Tape - Only show for stocks */}
       {tab === 'stocks' && formattedCorporations.length > 0 && (
-        <TickerTape corporations={formattedCorporations} />
+        <TickerTape corporations={formattedCorporations} indices={indices} />
       )}
 
+      {/* Market Indices */}
+      {tab !== 'bonds' && <MarketIndicesPanel indices={indices} />}
+
       {/* Tab Content */}
       {tab === 'stocks' && (
         <StockMarketTable 
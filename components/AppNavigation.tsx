@@ -1,6 +1,6 @@
 'use client';
 
-import { useEffect, useState, useRef } from 'react';
+import { useCallback, useEffect, useState, useRef } from 'react';
 import { useRouter, usePathname } from 'next/navigation';
 import {
   Navbar, 
@@ -36,9 +36,21 @@ import {
   TrendingUp,
   Building2,
   Map,
-  FileText
+  FileText,
+  Bell,
+  CheckCheck
 } from 'lucide-react';
-import { authAPI, profileAPI, ProfileResponse, corporationAPI, messagesAPI, CorporationResponse } from '@/lib/api';
+import {
+  authAPI,
+  profileAPI,
+  ProfileResponse,
+  corporationAPI,
+  messagesAPI,
+  notificationsAPI,
+  CorporationResponse,
+  NotificationResponse,
+} from '@/lib/api';
+import { useEventStream } from '@/hooks/useEventStream';
 import ServerTimeFooter from './ServerTimeFooter';
 import { trackEvent } from '@/lib/analytics';
 import { formatCash, getErrorMessage } from '@/lib/utils';
@@ -66,6 +78,8 @@ export default function AppNavigation({ children }: AppNavigationProps) {
   const [myCorporationId, setMyCorporationId] = useState<number | null>(null);
   const [investmentsOpen, setInvestmentsOpen] = useState<boolean>(false);
   const [unreadCount, setUnreadCount] = useState<number>(0);
+  const [notifications, setNotifications] = useState<NotificationResponse[]>([]);
+  const [unreadNotifications, setUnreadNotifications] = useState<number>(0);
   const [userActions, setUserActions] = useState<number>(0);
   const [userCash, setUserCash] = useState<number>(0);
   const [corpCash, setCorpCash] = useState<number | null>(null);
@@ -98,6 +112,15 @@ export default function AppNavigation({ children }: AppNavigationProps) {
           console.warn('Failed to fetch unread count:', getErrorMessage(err));
         }
 
+        // Fetch notifications
+        try {
+          const result = await notificationsAPI.list();
+          setNotifications(result.notifications);
+          setUnreadNotifications(result.unread);
+        } catch (err: unknown) {
+          console.warn('Failed to fetch notifications:', getErrorMessage(err));
+        }
+
         // Check if user is CEO of any corporation
         try {
           const corporations = await corporationAPI.getAll();
@@ -126,38 +149,57 @@ export default function AppNavigation({ children }: AppNavigationProps) {
     loadViewer();
   }, []);
 
-  // Periodically refresh unread message count and cash
-  useEffect(() => {
-    if (!viewerProfileId) return;
+  const refreshNotifications = useCallback(async () => {
+    try {
+      const result = await notificationsAPI.list();
+      setNotifications(result.notifications);
+      setUnreadNotifications(result.unread);
+    } catch (err: unknown) {
+      // Silent fail for background updates
+    }
+  }, []);
 
-    const fetchData = async () => {
-      try {
-        // Refresh unread count
-        const { count } = await messagesAPI.getUnreadCount();
-        setUnreadCount(count);
+  // Refresh unread message count and cash when the event stream reports a change
+  const refreshCounters = useCallback(async () => {
+    try {
+      // Refresh unread count
+      const { count } = await messagesAPI.getUnreadCount();
+      setUnreadCount(count);
 
-        // Refresh user cash
-        const me = await authAPI.getMe();
-        setUserCash(typeof me.cash === 'number' && !Number.isNaN(me.cash) ? me.cash : 0);
-
-        // Refresh corporation cash if CEO
-        if (isCeo && myCorporationId) {
-          try {
-            const corpData = await corporationAPI.getById(myCorporationId);
-            setCorpCash(corpData.capital || 0);
-          } catch (err: unknown) {
-            // Silent fail
-          }
+      // Refresh user cash
+      const me = await authAPI.getMe();
+      setUserCash(typeof me.cash === 'number' && !Number.isNaN(me.cash) ? me.cash : 0);
+
+      // Refresh corporation cash if CEO
+      if (isCeo && myCorporationId) {
+        try {
+          const corpData = await corporationAPI.getById(myCorporationId);
+          setCorpCash(corpData.capital || 0);
+        } catch (err: unknown) {
+          // Silent fail
         }
-      } catch (err: unknown) {
-        // Silent fail for periodic updates
       }
-    };
+    } catch (err: unknown) {
+      // Silent fail for background updates
+    }
+  }, [isCeo, myCorporationId]);
 
-    // Refresh every 30 seconds
-    const interval = setInterval(fetchData, 30000);
-    return () => clearInterval(interval);
-  }, [viewerProfileId, isCeo, myCorporationId]);
+  // Own messages and trades, the corporation's trades, and cron runs (dividends, salaries) move the counters
+  useEventStream((event) => {
+    if (event.type === 'message_received' || event.type === 'share_trade' || event.type === 'cron_completed') {
+      refreshCounters();
+    }
+    if (event.type === 'notification_created') {
+      refreshNotifications();
+    }
+  }, {
+    corporationIds: myCorporationId ? [myCorporationId] : [],
+    enabled: viewerProfileId !== null,
+    onReconnect: () => {
+      refreshCounters();
+      refreshNotifications();
+    },
+  });
 
   // Auto-expand investments dropdown if on stock-market or portfolio page
   useEffect(() => {
@@ -192,6 +234,31 @@ export default function AppNavigation({ children }: AppNavigationProps) {
     router.push('/settings');
   };
 
+  const handleOpenNotification = async (notification: NotificationResponse) => {
+    if (!notification.read) {
+      try {
+        const { unread } = await notificationsAPI.markRead([notification.id]);
+        setUnreadNotifications(unread);
+        setNotifications(prev => prev.map(n => (n.id === notification.id ? { ...n, read: true } : n)));
+      } catch (err: unknown) {
+        console.warn('Failed to mark notification read:', getErrorMessage(err));
+      }
+    }
+    if (notification.link) {
+      router.push(notification.link);
+    }
+  };
+
+  const handleMarkAllNotificationsRead = async () => {
+    try {
+      const { unread } = await notificationsAPI.markRead();
+      setUnreadNotifications(unread);
+      setNotifications(prev => prev.map(n => ({ ...n, read: true })));
+    } catch (err: unknown) {
+      console.warn('Failed to mark notifications read:', getErrorMessage(err));
+    }
+  };
+
   const handleNavClick = (path: string) => {
     if (path === '#') return; // Placeholder links
     setIsMenuOpen(false);
@@ -284,6 +351,54 @@ export default function AppNavigation({ children }: AppNavigationProps) {
                 </div>
               </NavbarItem>
 
+              {/* Notifications */}
+              <Dropdown placement="bottom-end">
+                <DropdownTrigger>
+                  <button
+                    type="button"
+                    className="relative p-2 rounded-lg text-default-500 hover:bg-default-100 hover:text-foreground transition-colors"
+                    aria-label={unreadNotifications > 0 ? `Notifications (${unreadNotifications} unread)` : 'Notifications'}
+                  >
+                    <Badge content={unreadNotifications > 9 ? '9+' : unreadNotifications} color="danger" shape="circle" size="sm" isInvisible={unreadNotifications === 0}>
+                      <Bell className="w-5 h-5" />
+                    </Badge>
+                  </button>
+                </DropdownTrigger>
+                <DropdownMenu
+                  aria-label="Notifications"
+                  variant="flat"
+                  className="max-h-[420px] w-80 overflow-y-auto"
+                  emptyContent="No notifications"
+                  items={[
+                    ...(unreadNotifications > 0 ? [{ key: 'mark-all', notification: null }] : []),
+                    ...notifications.map(notification => ({ key: `notification-${notification.id}`, notification })),
+                  ]}
+                >
+                  {(item) => item.notification ? (
+                    <DropdownItem
+                      key={item.key}
+                      textValue={item.notification.title}
+                      onPress={() => handleOpenNotification(item.notification!)}
+                      startContent={!item.notification.read ? <span className="mt-1.5 h-2 w-2 flex-shrink-0 self-start rounded-full bg-primary" /> : <span className="w-2 flex-shrink-0" />}
+                      description={
+                        <span className="whitespace-pre-line line-clamp-3">{item.notification.body}</span>
+                      }
+                    >
+                      <div className="flex items-baseline justify-between gap-2">
+                        <span className={`truncate ${item.notification.read ? 'text-default-500' : 'font-semibold'}`}>{item.notification.title}</span>
+                        <span className="text-[10px] text-default-400 flex-shrink-0">
+                          {new Date(item.notification.created_at).toLocaleDateString()}
+                        </span>
+                      </div>
+                    </DropdownItem>
+                  ) : (
+                    <DropdownItem key={item.key} startContent={<CheckCheck className="w-4 h-4" />} onPress={handleMarkAllNotificationsRead} showDivider>
+                      Mark all as read
+                    </DropdownItem>
+                  )}
+                </DropdownMenu>
+              </Dropdown>
+
               <Dropdown placement="bottom-end">
                 <DropdownTrigger>
                   <div className="flex items-center gap-2 cursor-pointer">
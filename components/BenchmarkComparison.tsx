@@ -0,0 +1,44 @@
+'use client';
+
+import { BenchmarkPeriodResponse } from '@/lib/api';
+
+interface BenchmarkComparisonProps {
+  periods: BenchmarkPeriodResponse[];
+  subjectLabel: string;
+  benchmarkLabel: string;
+}
+
+const formatPercent = (value: number | null) => {
+  if (value === null) return '—';
+  return `${value >= 0 ? '+' : ''}${value.toFixed(2)}%`;
+};
+
+const getChangeClass = (value: number | null) => {
+  if (value === null) return 'text-gray-400';
+  return value >= 0 ? 'text-emerald-600 dark:text-emerald-400' : 'text-red-600 dark:text-red-400';
+};
+
+export default function BenchmarkComparison({ periods, subjectLabel, benchmarkLabel }: BenchmarkComparisonProps) {
+  return (
+    <table className="w-full text-sm">
+      <thead>
+        <tr className="text-xs uppercase tracking-wide text-gray-500 dark:text-gray-400">
+          <th className="text-left font-medium py-1">Period</th>
+          <th className="text-right font-medium py-1">{subjectLabel}</th>
+          <th className="text-right font-medium py-1">{benchmarkLabel}</th>
+          <th className="text-right font-medium py-1">Relative</th>
+        </tr>
+      </thead>
+      <tbody className="font-mono">
+        {periods.map(period => (
+          <tr key={period.label}>
+            <td className="py-1 font-sans text-gray-700 dark:text-gray-300">{period.label}</td>
+            <td className={`py-1 text-right ${getChangeClass(period.change_percent)}`}>{formatPercent(period.change_percent)}</td>
+            <td className={`py-1 text-right ${getChangeClass(period.benchmark_change_percent)}`}>{formatPercent(period.benchmark_change_percent)}</td>
+            <td className={`py-1 text-right font-bold ${getChangeClass(period.relative_percent)}`}>{formatPercent(period.relative_percent)}</td>
+          </tr>
+        ))}
+      </tbody>
+    </table>
+  );
+}
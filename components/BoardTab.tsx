@@ -2,12 +2,13 @@
 
 import { useState, useEffect, useCallback } from 'react';
 import Link from 'next/link';
-import { boardAPI, BoardResponse, BoardProposal, CreateProposalData, adminAPI, CorpFocus } from '@/lib/api';
+import { boardAPI, corporationAPI, BoardResponse, BoardProposal, CreateProposalData, CorporationResponse, adminAPI, CorpFocus } from '@/lib/api';
 import { getErrorMessage } from '@/lib/utils';
+import { useEventStream } from '@/hooks/useEventStream';
 import {
   Users, Crown, Clock, CheckCircle, XCircle,
   ThumbsUp, ThumbsDown, Plus, ChevronDown, ChevronUp,
-  Building2, MapPin, UsersRound, UserPlus, DollarSign, Percent, Gift, Split, Target
+  Building2, MapPin, UsersRound, UserPlus, DollarSign, Percent, Gift, Split, Target, GitMerge
 } from 'lucide-react';
 import {
   Card,
@@ -75,6 +76,11 @@ export default function BoardTab({ corporationId, corporationName, viewerUserId,
   const [newDividendPercentage, setNewDividendPercentage] = useState<number>(0);
   const [specialDividendCapitalPercentage, setSpecialDividendCapitalPercentage] = useState<number>(0);
   const [newFocus, setNewFocus] = useState<CorpFocus>('diversified');
+  const [arrearsLimit, setArrearsLimit] = useState<number>(3);
+  const [arrearsAction, setArrearsAction] = useState<'none' | 'ceo_nomination'>('ceo_nomination');
+  const [mergerTargetId, setMergerTargetId] = useState<number | ''>('');
+  const [exchangeRatio, setExchangeRatio] = useState<number>(1);
+  const [mergerCandidates, setMergerCandidates] = useState<CorporationResponse[]>([]);
 
   const fetchBoardData = useCallback(async () => {
     try {
@@ -96,6 +102,20 @@ export default function BoardTab({ corporationId, corporationName, viewerUserId,
     fetchBoardData();
   }, [fetchBoardData]);
 
+  // Pick up proposals, votes and resolutions as they happen
+  useEventStream((event) => {
+    if (event.type === 'proposal_created' || event.type === 'proposal_vote' || event.type === 'proposal_resolved') {
+      fetchBoardData();
+    }
+  }, { corporationIds: [corporationId], onReconnect: fetchBoardData });
+
+  useEffect(() => {
+    if (proposalType !== 'merger' || mergerCandidates.length > 0) return;
+    corporationAPI.getAll()
+      .then((corps) => setMergerCandidates(corps.filter(c => c.id !== corporationId)))
+      .catch((err: unknown) => console.error('Failed to load corporations:', err));
+  }, [proposalType, mergerCandidates.length, corporationId]);
+
   const handleCreateProposal = async (e: React.FormEvent) => {
     e.preventDefault();
     if (!boardData) return;
@@ -180,6 +200,27 @@ export default function BoardTab({ corporationId, corporationName, viewerUserId,
           }
           data = { proposal_type: 'focus_change', proposal_data: { new_focus: newFocus } };
           break;
+        case 'salary_arrears_policy':
+          if (!Number.isInteger(arrearsLimit) || arrearsLimit < 1 || arrearsLimit > 12) {
+            alert('Missed payments limit must be between 1 and 12');
+            setSubmitting(false);
+            return;
+          }
+          data = { proposal_type: 'salary_arrears_policy', proposal_data: { missed_payments_limit: arrearsLimit, action: arrearsAction } };
+          break;
+        case 'merger':
+          if (!mergerTargetId) {
+            alert('Please select a corporation to merge');
+            setSubmitting(false);
+            return;
+          }
+          if (!(exchangeRatio > 0) || exchangeRatio > 100) {
+            alert('Exchange ratio must be greater than 0 and at most 100');
+            setSubmitting(false);
+            return;
+          }
+          data = { proposal_type: 'merger', proposal_data: { target_corporation_id: Number(mergerTargetId), exchange_ratio: exchangeRatio } };
+          break;
         default:
           return;
       }
@@ -248,6 +289,10 @@ export default function BoardTab({ corporationId, corporationName, viewerUserId,
     setNewDividendPercentage(0);
     setSpecialDividendCapitalPercentage(0);
     setNewFocus(boardData?.corporation.focus || 'diversified');
+    setArrearsLimit(boardData?.corporation.salary_arrears_limit || 3);
+    setArrearsAction(boardData?.corporation.salary_arrears_action || 'ceo_nomination');
+    setMergerTargetId('');
+    setExchangeRatio(1);
   };
 
   const formatTimeRemaining = (expiresAt: string) => {
@@ -301,6 +346,12 @@ export default function BoardTab({ corporationId, corporationName, viewerUserId,
           diversified: 'Diversified',
         };
         return `Change corporate focus to ${focusLabels[proposal.proposal_data.new_focus || ''] || proposal.proposal_data.new_focus}`;
+      case 'salary_arrears_policy':
+        return proposal.proposal_data.action === 'ceo_nomination'
+          ? `Open a CEO vote after ${proposal.proposal_data.missed_payments_limit} missed salary payments`
+          : 'Take no action on missed salary payments';
+      case 'merger':
+        return `Merge ${proposal.proposal_data.target_name} into ${proposal.proposal_data.acquirer_name} at ${proposal.proposal_data.exchange_ratio} ${proposal.proposal_data.acquirer_name} shares per ${proposal.proposal_data.target_name} share`;
       default:
         return 'Unknown proposal';
     }
@@ -318,6 +369,8 @@ export default function BoardTab({ corporationId, corporationName, viewerUserId,
       case 'special_dividend': return <Gift className="w-4 h-4" />;
       case 'stock_split': return <Split className="w-4 h-4" />;
       case 'focus_change': return <Target className="w-4 h-4" />;
+      case 'salary_arrears_policy': return <DollarSign className="w-4 h-4" />;
+      case 'merger': return <GitMerge className="w-4 h-4" />;
       default: return <Users className="w-4 h-4" />;
     }
   };
@@ -490,6 +543,8 @@ export default function BoardTab({ corporationId, corporationName, viewerUserId,
                       <SelectItem key="special_dividend">Pay Special Dividend</SelectItem>
                       <SelectItem key="stock_split">Stock Split (2:1)</SelectItem>
                       <SelectItem key="focus_change">Change Corporate Focus</SelectItem>
+                      <SelectItem key="salary_arrears_policy">Salary Arrears Policy</SelectItem>
+                      <SelectItem key="merger">Merge Another Corporation Into This One</SelectItem>
                     </Select>
 
                     {proposalType === 'ceo_nomination' && (
@@ -707,6 +762,70 @@ export default function BoardTab({ corporationId, corporationName, viewerUserId,
                       </div>
                     )}
 
+                    {proposalType === 'salary_arrears_policy' && (
+                      <div>
+                        <Select
+                          label="When salary goes unpaid"
+                          selectedKeys={[arrearsAction]}
+                          onChange={(e) => setArrearsAction(e.target.value as 'none' | 'ceo_nomination')}
+                        >
+                          <SelectItem key="ceo_nomination">Open a CEO vote</SelectItem>
+                          <SelectItem key="none">Take no action</SelectItem>
+                        </Select>
+                        {arrearsAction === 'ceo_nomination' && (
+                          <Input
+                            type="number"
+                            label="Missed payments before the vote (1-12)"
+                            labelPlacement="outside"
+                            className="mt-3"
+                            min={1}
+                            max={12}
+                            step={1}
+                            value={String(arrearsLimit)}
+                            onValueChange={(val) => setArrearsLimit(Number(val))}
+                          />
+                        )}
+                        <div className="mt-2 text-xs text-default-500">
+                          <p>Salary is paid each game quarter (24h). Unpaid quarters are owed to the CEO as arrears.</p>
+                          {(boardData.corporation.salary_arrears || 0) > 0 && (
+                            <p className="text-warning font-semibold mt-1">
+                              Salary arrears owed: ${(boardData.corporation.salary_arrears || 0).toLocaleString()}
+                            </p>
+                          )}
+                        </div>
+                      </div>
+                    )}
+
+                    {proposalType === 'merger' && (
+                      <div>
+                        <Select
+                          label="Corporation to acquire"
+                          labelPlacement="outside"
+                          selectedKeys={mergerTargetId ? [String(mergerTargetId)] : []}
+                          onChange={(e) => setMergerTargetId(e.target.value ? Number(e.target.value) : '')}
+                        >
+                          {mergerCandidates.map((corp) => (
+                            <SelectItem key={String(corp.id)}>{corp.name}</SelectItem>
+                          ))}
+                        </Select>
+                        <Input
+                          type="number"
+                          label={`${corporationName} shares per target share`}
+                          labelPlacement="outside"
+                          className="mt-3"
+                          min={0.0001}
+                          max={100}
+                          step={0.0001}
+                          value={String(exchangeRatio)}
+                          onValueChange={(val) => setExchangeRatio(Number(val))}
+                        />
+                        <div className="mt-2 text-xs text-default-500">
+                          <p>The target&apos;s board votes on the same proposal; the merger completes only if both boards approve.</p>
+                          <p className="mt-1">Target shareholders receive shares of {corporationName} at this ratio, and its capital, loans and market entries move here. Units over a state&apos;s capacity are retired.</p>
+                        </div>
+                      </div>
+                    )}
+
                     <div className="flex gap-2">
                       <Button
                         type="submit"
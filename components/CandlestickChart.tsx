@@ -0,0 +1,277 @@
+'use client';
+
+import { useState, useEffect, useMemo, useCallback } from 'react';
+import { CandleResolution, CandleResponse, CandleSeriesResponse } from '@/lib/api';
+import { CANDLE_CONFIG } from '@/lib/constants/candles';
+import { getErrorMessage } from '@/lib/utils';
+import {
+  ComposedChart,
+  Bar,
+  Line,
+  XAxis,
+  YAxis,
+  CartesianGrid,
+  Tooltip,
+  ResponsiveContainer,
+} from 'recharts';
+import { ChartCandlestick, Activity } from 'lucide-react';
+
+interface CandlestickChartProps {
+  fetchCandles: (resolution: CandleResolution) => Promise<CandleSeriesResponse>;
+  title?: string;
+  volumeLabel?: string;
+}
+
+const RESOLUTIONS: Array<{ label: string; value: CandleResolution }> = [
+  { label: 'Hourly', value: 'hour' },
+  { label: 'Daily', value: 'day' },
+  { label: 'Quarterly', value: 'quarter' },
+];
+
+const UP_COLOR = '#10b981';
+const DOWN_COLOR = '#ef4444';
+
+// Bars span each candle's low to high; the shape draws the wick and the open-close body inside it
+type CandleDataPoint = CandleResponse & { range: [number, number] };
+
+interface CandleShapeProps {
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+  payload: CandleDataPoint;
+}
+
+const formatCurrency = (value: number) => {
+  return new Intl.NumberFormat('en-US', {
+    style: 'currency',
+    currency: 'USD',
+    minimumFractionDigits: 2,
+    maximumFractionDigits: 2,
+  }).format(value);
+};
+
+const formatVolume = (value: number) => {
+  return new Intl.NumberFormat('en-US', { notation: 'compact', maximumFractionDigits: 1 }).format(value);
+};
+
+const formatPercent = (value: number) => {
+  const sign = value >= 0 ? '+' : '';
+  return `${sign}${value.toFixed(2)}%`;
+};
+
+function CandleShape({ x, y, width, height, payload }: CandleShapeProps) {
+  const { open, close, high, low } = payload;
+  const color = close >= open ? UP_COLOR : DOWN_COLOR;
+  const center = x + width / 2;
+  const pixelsPerUnit = high > low ? height / (high - low) : 0;
+  const bodyTop = y + (high - Math.max(open, close)) * pixelsPerUnit;
+  const bodyHeight = Math.max(Math.abs(open - close) * pixelsPerUnit, 1);
+  const bodyWidth = Math.max(width * 0.7, 1);
+
+  return (
+    <g>
+      <line x1={center} x2={center} y1={y} y2={y + height} stroke={color} strokeWidth={1} />
+      <rect x={center - bodyWidth / 2} y={bodyTop} width={bodyWidth} height={bodyHeight} fill={color} />
+    </g>
+  );
+}
+
+export default function CandlestickChart({ fetchCandles, title = 'Candles', volumeLabel = 'Volume' }: CandlestickChartProps) {
+  const [resolution, setResolution] = useState<CandleResolution>('day');
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  const [series, setSeries] = useState<CandleSeriesResponse | null>(null);
+
+  const loadCandles = useCallback(async () => {
+    setLoading(true);
+    setError(null);
+    try {
+      setSeries(await fetchCandles(resolution));
+    } catch (err: unknown) {
+      console.error('Failed to fetch candles:', err);
+      setError(getErrorMessage(err, 'Failed to load candles'));
+    } finally {
+      setLoading(false);
+    }
+  }, [fetchCandles, resolution]);
+
+  useEffect(() => {
+    loadCandles();
+  }, [loadCandles]);
+
+  const chartData = useMemo((): CandleDataPoint[] => {
+    return (series?.candles ?? []).map(candle => ({ ...candle, range: [candle.low, candle.high] }));
+  }, [series]);
+
+  const yDomain = useMemo(() => {
+    if (chartData.length === 0) return [0, 1];
+    const min = Math.min(...chartData.map(d => d.low));
+    const max = Math.max(...chartData.map(d => d.high));
+    const padding = (max - min) * 0.1 || max * 0.05;
+    return [Math.max(0, min - padding), max + padding];
+  }, [chartData]);
+
+  const summary = series?.summary;
+  const isPositive = (summary?.change_percent ?? 0) >= 0;
+
+  interface CustomTooltipProps {
+    active?: boolean;
+    payload?: { payload: CandleDataPoint }[];
+  }
+
+  const CustomTooltip = ({ active, payload }: CustomTooltipProps) => {
+    if (!active || !payload || payload.length === 0) return null;
+    const candle = payload[0].payload;
+    return (
+      <div className="bg-white dark:bg-gray-800 rounded-lg shadow-xl border border-gray-200 dark:border-gray-700 p-3 text-xs font-mono space-y-0.5">
+        <p className="text-gray-500 dark:text-gray-400 font-sans mb-1">{candle.label}</p>
+        <p className="text-gray-900 dark:text-white">O {formatCurrency(candle.open)} H {formatCurrency(candle.high)}</p>
+        <p className="text-gray-900 dark:text-white">L {formatCurrency(candle.low)} C {formatCurrency(candle.close)}</p>
+        <p className="text-gray-500 dark:text-gray-400">
+          {volumeLabel} {formatVolume(candle.volume)}
+          {candle.vwap !== null && ` @ ${formatCurrency(candle.vwap)}`}
+        </p>
+        {candle.rsi !== null && <p className="text-gray-500 dark:text-gray-400">RSI {candle.rsi.toFixed(1)}</p>}
+      </div>
+    );
+  };
+
+  const stats: Array<{ label: string; value: string; className?: string }> = summary ? [
+    { label: 'Open', value: summary.open !== null ? formatCurrency(summary.open) : '—' },
+    { label: 'High', value: summary.high !== null ? formatCurrency(summary.high) : '—', className: 'text-emerald-600 dark:text-emerald-400' },
+    { label: 'Low', value: summary.low !== null ? formatCurrency(summary.low) : '—', className: 'text-red-600 dark:text-red-400' },
+    {
+      label: 'Change',
+      value: summary.change_percent !== null ? formatPercent(summary.change_percent) : '—',
+      className: isPositive ? 'text-emerald-600 dark:text-emerald-400' : 'text-red-600 dark:text-red-400',
+    },
+    { label: 'VWAP', value: summary.vwap !== null ? formatCurrency(summary.vwap) : '—' },
+    { label: 'Volatility', value: summary.volatility !== null ? `${summary.volatility.toFixed(2)}%` : '—' },
+    { label: `RSI (${CANDLE_CONFIG.RSI_PERIOD})`, value: summary.rsi !== null ? summary.rsi.toFixed(1) : '—' },
+    { label: volumeLabel, value: formatVolume(summary.volume) },
+  ] : [];
+
+  return (
+    <div className="relative rounded-2xl border border-gray-200/50 dark:border-gray-700/50 bg-gradient-to-br from-white via-white to-gray-50/50 dark:from-gray-900 dark:via-gray-900 dark:to-gray-800/50 shadow-2xl overflow-hidden backdrop-blur-sm">
+      <div className="relative p-6">
+        {/* Header */}
+        <div className="flex flex-col sm:flex-row sm:items-center sm:justify-between gap-4 mb-6">
+          <div className="flex items-center gap-3">
+            <div className="p-2 rounded-lg bg-corporate-blue/10">
+              <ChartCandlestick className="w-5 h-5 text-corporate-blue" />
+            </div>
+            <div>
+              <h2 className="text-xl font-bold text-gray-900 dark:text-white">{title}</h2>
+              <p className="text-xs text-gray-500 dark:text-gray-400">
+                SMA {CANDLE_CONFIG.SMA_FAST_PERIOD} / {CANDLE_CONFIG.SMA_SLOW_PERIOD}
+              </p>
+            </div>
+          </div>
+
+          {/* Resolution Selector */}
+          <div className="flex items-center gap-1 p-1 bg-gray-100 dark:bg-gray-800 rounded-lg">
+            {RESOLUTIONS.map((option) => (
+              <button
+                key={option.value}
+                onClick={() => setResolution(option.value)}
+                className={`px-3 py-1.5 text-xs font-semibold rounded-md transition-all duration-200 ${
+                  resolution === option.value
+                    ? 'bg-white dark:bg-gray-700 text-corporate-blue dark:text-corporate-blue-light shadow-sm'
+                    : 'text-gray-600 dark:text-gray-400 hover:text-gray-900 dark:hover:text-white'
+                }`}
+              >
+                {option.label}
+              </button>
+            ))}
+          </div>
+        </div>
+
+        {/* Stats Row */}
+        {stats.length > 0 && (
+          <div className="grid grid-cols-4 gap-3 mb-6">
+            {stats.map(stat => (
+              <div key={stat.label} className="text-center p-2 rounded-lg bg-gray-50 dark:bg-gray-800/50">
+                <p className="text-xs text-gray-500 dark:text-gray-400 uppercase tracking-wide">{stat.label}</p>
+                <p className={`text-sm font-bold font-mono ${stat.className ?? 'text-gray-900 dark:text-white'}`}>{stat.value}</p>
+              </div>
+            ))}
+          </div>
+        )}
+
+        {/* Chart */}
+        {loading ? (
+          <div className="flex items-center justify-center h-64 sm:h-80">
+            <div className="flex items-center gap-2 text-gray-500 dark:text-gray-400">
+              <Activity className="w-5 h-5 animate-pulse" />
+              <span>Loading candles...</span>
+            </div>
+          </div>
+        ) : error ? (
+          <div className="flex items-center justify-center h-64 sm:h-80">
+            <div className="text-center">
+              <p className="text-red-500 dark:text-red-400">{error}</p>
+              <button onClick={loadCandles} className="mt-2 text-sm text-corporate-blue hover:underline">
+                Retry
+              </button>
+            </div>
+          </div>
+        ) : chartData.length === 0 ? (
+          <div className="flex items-center justify-center h-64 sm:h-80 text-gray-500 dark:text-gray-400">
+            No price history for this period yet.
+          </div>
+        ) : (
+          <>
+            <div className="h-64 sm:h-80">
+              <ResponsiveContainer width="100%" height="100%">
+                <ComposedChart data={chartData} syncId={`candles-${title}`} margin={{ top: 10, right: 10, left: 0, bottom: 0 }}>
+                  <CartesianGrid strokeDasharray="3 3" stroke="rgba(156, 163, 175, 0.2)" vertical={false} />
+                  <XAxis dataKey="label" hide />
+                  <YAxis
+                    domain={yDomain}
+                    axisLine={false}
+                    tickLine={false}
+                    tick={{ fontSize: 11, fill: '#9ca3af' }}
+                    tickFormatter={(value) => `$${value.toFixed(2)}`}
+                    width={60}
+                  />
+                  <Tooltip content={<CustomTooltip />} />
+                  <Bar
+                    dataKey="range"
+                    shape={(props: unknown) => <CandleShape {...(props as CandleShapeProps)} />}
+                    isAnimationActive={false}
+                  />
+                  <Line type="monotone" dataKey="sma_fast" stroke="#3b82f6" strokeWidth={1.5} dot={false} connectNulls isAnimationActive={false} />
+                  <Line type="monotone" dataKey="sma_slow" stroke="#f59e0b" strokeWidth={1.5} dot={false} connectNulls isAnimationActive={false} />
+                </ComposedChart>
+              </ResponsiveContainer>
+            </div>
+            <div className="h-20">
+              <ResponsiveContainer width="100%" height="100%">
+                <ComposedChart data={chartData} syncId={`candles-${title}`} margin={{ top: 0, right: 10, left: 0, bottom: 0 }}>
+                  <XAxis
+                    dataKey="label"
+                    axisLine={false}
+                    tickLine={false}
+                    tick={{ fontSize: 11, fill: '#9ca3af' }}
+                    interval="preserveStartEnd"
+                    minTickGap={30}
+                  />
+                  <YAxis
+                    axisLine={false}
+                    tickLine={false}
+                    tick={{ fontSize: 11, fill: '#9ca3af' }}
+                    tickFormatter={formatVolume}
+                    width={60}
+                  />
+                  <Tooltip content={<CustomTooltip />} />
+                  <Bar dataKey="volume" fill="rgba(156, 163, 175, 0.5)" isAnimationActive={false} />
+                </ComposedChart>
+              </ResponsiveContainer>
+            </div>
+          </>
+        )}
+      </div>
+    </div>
+  );
+}
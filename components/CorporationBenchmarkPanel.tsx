@@ -0,0 +1,36 @@
+'use client';
+
+import { useEffect, useState } from 'react';
+import { corporationAPI, CorporationBenchmarkResponse } from '@/lib/api';
+import { getErrorMessage } from '@/lib/utils';
+import BenchmarkComparison from '@/components/BenchmarkComparison';
+import { Gauge } from 'lucide-react';
+
+interface CorporationBenchmarkPanelProps {
+  corporationId: number;
+}
+
+export default function CorporationBenchmarkPanel({ corporationId }: CorporationBenchmarkPanelProps) {
+  const [benchmark, setBenchmark] = useState<CorporationBenchmarkResponse | null>(null);
+
+  useEffect(() => {
+    corporationAPI.getBenchmark(corporationId)
+      .then(setBenchmark)
+      .catch((err: unknown) => console.warn('Failed to fetch benchmark:', getErrorMessage(err)));
+  }, [corporationId]);
+
+  if (!benchmark) {
+    return null;
+  }
+
+  return (
+    <div className="bg-white dark:bg-gray-800/50 rounded-xl shadow-sm border border-gray-100 dark:border-gray-700/50 p-6">
+      <h3 className="font-semibold text-gray-900 dark:text-white mb-1 flex items-center">
+        <Gauge className="w-5 h-5 mr-2 text-corporate-blue" />
+        Against the Benchmark
+      </h3>
+      <p className="text-xs text-gray-500 dark:text-gray-400 mb-4">Share price performance against the {benchmark.index_name}</p>
+      <BenchmarkComparison periods={benchmark.periods} subjectLabel="Shares" benchmarkLabel="Index" />
+    </div>
+  );
+}
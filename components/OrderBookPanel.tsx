@@ -0,0 +1,246 @@
+'use client';
+
+import { useState, useEffect, useCallback } from 'react';
+import { sharesAPI, OrderBookResponse, ShareOrderResponse, ShareOrderSide } from '@/lib/api';
+import { Input, Button } from '@heroui/react';
+import { BookOpen, X } from 'lucide-react';
+
+interface OrderBookPanelProps {
+  corporationId: number;
+  isLoggedIn: boolean;
+  onTrade?: () => void;
+}
+
+const formatCurrency = (value: number) => {
+  return new Intl.NumberFormat('en-US', {
+    style: 'currency',
+    currency: 'USD',
+    minimumFractionDigits: 2,
+    maximumFractionDigits: 2,
+  }).format(value);
+};
+
+const inputClassNames = {
+  input: 'bg-transparent',
+  inputWrapper: 'bg-gray-50 dark:bg-gray-900 border border-gray-200 dark:border-gray-700 hover:border-corporate-blue focus-within:!border-corporate-blue shadow-none',
+};
+
+export default function OrderBookPanel({ corporationId, isLoggedIn, onTrade }: OrderBookPanelProps) {
+  const [book, setBook] = useState<OrderBookResponse | null>(null);
+  const [myOrders, setMyOrders] = useState<ShareOrderResponse[]>([]);
+  const [side, setSide] = useState<ShareOrderSide>('buy');
+  const [shares, setShares] = useState('');
+  const [limitPrice, setLimitPrice] = useState('');
+  const [expiresInHours, setExpiresInHours] = useState('24');
+  const [submitting, setSubmitting] = useState(false);
+
+  const loadBook = useCallback(async () => {
+    try {
+      const [bookData, mine] = await Promise.all([
+        sharesAPI.getOrderBook(corporationId),
+        isLoggedIn
+          ? sharesAPI.getOrderBook(corporationId, { mine: true, status: 'open' })
+          : Promise.resolve(null),
+      ]);
+      setBook(bookData);
+      setMyOrders(mine?.orders ?? []);
+    } catch (err) {
+      console.error('Failed to load order book:', err);
+    }
+  }, [corporationId, isLoggedIn]);
+
+  useEffect(() => {
+    loadBook();
+  }, [loadBook]);
+
+  const getApiError = (err: unknown, fallback: string) => {
+    if (typeof err === 'object' && err !== null) {
+      const anyErr = err as { response?: { data?: { error?: string } } };
+      return anyErr.response?.data?.error || fallback;
+    }
+    return fallback;
+  };
+
+  const handlePlaceOrder = async () => {
+    const qty = parseInt(shares, 10);
+    const price = parseFloat(limitPrice);
+    const hours = parseInt(expiresInHours, 10);
+
+    if (isNaN(qty) || qty <= 0 || isNaN(price) || price <= 0) {
+      alert('Please enter a valid number of shares and limit price');
+      return;
+    }
+
+    setSubmitting(true);
+    try {
+      const result = await sharesAPI.placeOrder(corporationId, {
+        side,
+        shares: qty,
+        limitPrice: price,
+        expiresInHours: isNaN(hours) ? undefined : hours,
+      });
+
+      if (result.shares_filled > 0) {
+        alert(`Filled ${result.shares_filled.toLocaleString()} of ${qty.toLocaleString()} shares${result.order.remaining_shares > 0 ? '. The rest is resting in the book.' : '.'}`);
+        onTrade?.();
+      } else {
+        alert(`Order placed: ${side} ${qty.toLocaleString()} shares at ${formatCurrency(result.order.limit_price)}`);
+      }
+
+      setShares('');
+      setLimitPrice('');
+      await loadBook();
+    } catch (err: unknown) {
+      alert(getApiError(err, 'Failed to place order'));
+    } finally {
+      setSubmitting(false);
+    }
+  };
+
+  const handleCancel = async (orderId: number) => {
+    setSubmitting(true);
+    try {
+      await sharesAPI.cancelOrder(corporationId, orderId);
+      await loadBook();
+      onTrade?.();
+    } catch (err: unknown) {
+      alert(getApiError(err, 'Failed to cancel order'));
+    } finally {
+      setSubmitting(false);
+    }
+  };
+
+  const maxLevels = Math.max(book?.bids.length ?? 0, book?.asks.length ?? 0);
+
+  return (
+    <div className="bg-white dark:bg-gray-800/50 rounded-xl shadow-sm border border-gray-100 dark:border-gray-700/50 p-6">
+      <div className="flex items-center justify-between mb-4">
+        <h3 className="font-semibold text-gray-900 dark:text-white flex items-center">
+          <BookOpen className="w-5 h-5 mr-2 text-corporate-blue" />
+          Order Book
+        </h3>
+        {book?.spread !== null && book?.spread !== undefined && (
+          <div className="text-xs text-gray-500 dark:text-gray-400">
+            Spread: {formatCurrency(book.spread)}
+          </div>
+        )}
+      </div>
+
+      <div className="grid grid-cols-2 gap-4 mb-6 text-sm">
+        <div>
+          <div className="flex justify-between text-xs font-medium text-gray-500 dark:text-gray-400 mb-2">
+            <span>Bid</span>
+            <span>Shares</span>
+          </div>
+          {maxLevels === 0 && <div className="text-xs text-gray-400">No resting orders</div>}
+          {book?.bids.map(level => (
+            <div key={`bid-${level.price}`} className="flex justify-between py-0.5">
+              <span className="font-mono text-green-600 dark:text-green-400">{formatCurrency(level.price)}</span>
+              <span className="font-mono text-gray-700 dark:text-gray-300">{level.shares.toLocaleString()}</span>
+            </div>
+          ))}
+        </div>
+        <div>
+          <div className="flex justify-between text-xs font-medium text-gray-500 dark:text-gray-400 mb-2">
+            <span>Ask</span>
+            <span>Shares</span>
+          </div>
+          {book?.asks.map(level => (
+            <div key={`ask-${level.price}`} className="flex justify-between py-0.5">
+              <span className="font-mono text-red-600 dark:text-red-400">{formatCurrency(level.price)}</span>
+              <span className="font-mono text-gray-700 dark:text-gray-300">{level.shares.toLocaleString()}</span>
+            </div>
+          ))}
+        </div>
+      </div>
+
+      {isLoggedIn && (
+        <>
+          <div className="flex gap-2 mb-3">
+            <Button
+              size="sm"
+              onPress={() => setSide('buy')}
+              className={side === 'buy' ? 'bg-green-600 text-white' : 'bg-gray-100 dark:bg-gray-700 text-gray-700 dark:text-gray-300'}
+            >
+              Limit Buy
+            </Button>
+            <Button
+              size="sm"
+              onPress={() => setSide('sell')}
+              className={side === 'sell' ? 'bg-red-600 text-white' : 'bg-gray-100 dark:bg-gray-700 text-gray-700 dark:text-gray-300'}
+            >
+              Limit Sell
+            </Button>
+          </div>
+
+          <div className="grid grid-cols-3 gap-2 items-end mb-4">
+            <Input
+              label="Shares"
+              type="number"
+              value={shares}
+              onChange={(e) => setShares(e.target.value)}
+              placeholder="Amount"
+              labelPlacement="outside"
+              classNames={inputClassNames}
+            />
+            <Input
+              label="Limit Price"
+              type="number"
+              value={limitPrice}
+              onChange={(e) => setLimitPrice(e.target.value)}
+              placeholder="0.00"
+              labelPlacement="outside"
+              classNames={inputClassNames}
+            />
+            <Input
+              label="Expires (hours)"
+              type="number"
+              value={expiresInHours}
+              onChange={(e) => setExpiresInHours(e.target.value)}
+              labelPlacement="outside"
+              classNames={inputClassNames}
+            />
+          </div>
+
+          <Button
+            onPress={handlePlaceOrder}
+            isDisabled={submitting || !shares || !limitPrice}
+            className={`w-full text-white font-medium ${side === 'buy' ? 'bg-green-600 hover:bg-green-700' : 'bg-red-600 hover:bg-red-700'}`}
+          >
+            Place {side === 'buy' ? 'Buy' : 'Sell'} Order
+          </Button>
+
+          {myOrders.length > 0 && (
+            <div className="mt-6">
+              <div className="text-xs font-medium text-gray-500 dark:text-gray-400 mb-2">Your Open Orders</div>
+              <div className="space-y-1">
+                {myOrders.map(order => (
+                  <div key={order.id} className="flex items-center justify-between text-sm py-1 border-b border-gray-100 dark:border-gray-700/50">
+                    <span className={order.side === 'buy' ? 'text-green-600 dark:text-green-400' : 'text-red-600 dark:text-red-400'}>
+                      {order.side.toUpperCase()}
+                    </span>
+                    <span className="font-mono text-gray-700 dark:text-gray-300">
+                      {order.remaining_shares.toLocaleString()} @ {formatCurrency(order.limit_price)}
+                    </span>
+                    <span className="text-xs text-gray-500 dark:text-gray-400">
+                      until {new Date(order.expires_at).toLocaleString('en-US', { month: 'short', day: 'numeric', hour: 'numeric' })}
+                    </span>
+                    <button
+                      type="button"
+                      onClick={() => handleCancel(order.id)}
+                      disabled={submitting}
+                      className="text-gray-400 hover:text-red-600"
+                      aria-label="Cancel order"
+                    >
+                      <X className="w-4 h-4" />
+                    </button>
+                  </div>
+                ))}
+              </div>
+            </div>
+          )}
+        </>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,55 @@
+'use client';
+
+import { useEffect, useState } from 'react';
+import Link from 'next/link';
+import { portfolioAPI, PortfolioBenchmarkResponse } from '@/lib/api';
+import { formatCash, getErrorMessage } from '@/lib/utils';
+import BenchmarkComparison from '@/components/BenchmarkComparison';
+import { Gauge } from 'lucide-react';
+
+export default function PortfolioBenchmarkPanel() {
+  const [benchmark, setBenchmark] = useState<PortfolioBenchmarkResponse | null>(null);
+
+  useEffect(() => {
+    portfolioAPI.getBenchmark()
+      .then(setBenchmark)
+      .catch((err: unknown) => console.warn('Failed to fetch portfolio benchmark:', getErrorMessage(err)));
+  }, []);
+
+  if (!benchmark || benchmark.holdings.length === 0) {
+    return null;
+  }
+
+  return (
+    <div className="relative rounded-2xl border border-gray-200/50 dark:border-gray-700/50 bg-white/80 dark:bg-gray-900/80 shadow-xl backdrop-blur-sm p-6 space-y-6">
+      <div>
+        <h2 className="text-xl font-bold text-gray-900 dark:text-white flex items-center gap-2">
+          <Gauge className="w-5 h-5 text-corporate-blue" />
+          Performance vs Benchmarks
+        </h2>
+        <p className="text-sm text-gray-600 dark:text-gray-400">
+          Your holdings, weighted by current value, against the {benchmark.index_name}, and each holding against its sector index.
+        </p>
+      </div>
+
+      <BenchmarkComparison periods={benchmark.periods} subjectLabel="Portfolio" benchmarkLabel="Market" />
+
+      <div className="divide-y divide-gray-200/60 dark:divide-gray-700/50">
+        {benchmark.holdings.map(holding => (
+          <div key={holding.corporation_id} className="py-4 space-y-2">
+            <div className="flex items-center justify-between gap-4">
+              <div className="min-w-0">
+                <Link href={`/corporation/${holding.corporation_id}`} className="font-semibold text-gray-900 dark:text-white hover:text-corporate-blue">
+                  {holding.corporation_name}
+                </Link>
+                <span className="ml-2 text-xs text-gray-500 dark:text-gray-400">vs {holding.index_name}</span>
+              </div>
+              <span className="font-mono text-sm text-gray-700 dark:text-gray-300">{formatCash(holding.value)}</span>
+            </div>
+            <BenchmarkComparison periods={holding.periods} subjectLabel="Shares" benchmarkLabel="Sector" />
+          </div>
+        ))}
+      </div>
+    </div>
+  );
+}
@@ -22,6 +22,7 @@ import {
   Trophy,
   Circle,
   Zap,
+  GitMerge,
 } from 'lucide-react';
 import { authAPI, profileAPI, corporationAPI, portfolioAPI, marketsAPI, ProfileResponse, CorporationResponse, PortfolioResponse, CorporateHistoryItem, CorporationFinances } from '@/lib/api';
 import SendCashModal from './SendCashModal';
@@ -531,6 +532,12 @@ export default function ProfileDashboard({ profileId }: ProfileDashboardProps) {
                           icon: <Clock3 className="h-4 w-4" />,
                           label: `Resigned as CEO of ${historyItem.corporation_name}`,
                         };
+                      case 'merger':
+                        return {
+                          bgClass: 'bg-gradient-to-br from-accent to-accent-subtle text-white',
+                          icon: <GitMerge className="h-4 w-4" />,
+                          label: historyItem.details || `Merger into ${historyItem.corporation_name}`,
+                        };
                       default:
                         return {
                           bgClass: 'bg-surface-2 text-content-secondary',
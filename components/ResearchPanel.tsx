@@ -0,0 +1,128 @@
+'use client';
+
+import { useState } from 'react';
+import { researchAPI, CorporationResearchResponse, ResearchProjectResponse, ResearchStatus } from '@/lib/api';
+import { describeResearchEffect, type ResearchEffect } from '@/lib/constants/research';
+import { getErrorMessage } from '@/lib/utils';
+import { Button, Chip } from '@heroui/react';
+import { FlaskConical } from 'lucide-react';
+
+interface ResearchPanelProps {
+  corporationId: number;
+  isCeo: boolean;
+  research: CorporationResearchResponse | null;
+  onChange: () => void;
+}
+
+const STATUS_COLORS: Record<ResearchStatus, 'success' | 'primary' | 'default' | 'warning'> = {
+  completed: 'success',
+  in_progress: 'warning',
+  available: 'primary',
+  locked: 'default',
+};
+
+const STATUS_LABELS: Record<ResearchStatus, string> = {
+  completed: 'Researched',
+  in_progress: 'In progress',
+  available: 'Available',
+  locked: 'Locked',
+};
+
+const formatTimeLeft = (until: string) => {
+  const ms = new Date(until).getTime() - Date.now();
+  if (ms <= 0) return 'finishing';
+  const hours = Math.floor(ms / (60 * 60 * 1000));
+  const minutes = Math.floor((ms % (60 * 60 * 1000)) / (60 * 1000));
+  return hours > 0 ? `${hours}h ${minutes}m left` : `${minutes}m left`;
+};
+
+export default function ResearchPanel({ corporationId, isCeo, research, onChange }: ResearchPanelProps) {
+  const [starting, setStarting] = useState<string | null>(null);
+
+  if (!research || research.sectors.length === 0) return null;
+
+  const inProgress = research.sectors
+    .flatMap(sector => sector.projects)
+    .filter(project => project.status === 'in_progress').length;
+  const atLimit = inProgress >= research.max_active_projects;
+
+  const handleStart = async (sector: string, project: ResearchProjectResponse) => {
+    const cost = project.cost.toLocaleString('en-US', { style: 'currency', currency: 'USD', maximumFractionDigits: 0 });
+    if (!confirm(`Research ${project.name} in ${sector} for ${cost} and ${project.action_cost} actions?`)) return;
+    setStarting(`${sector}|${project.key}`);
+    try {
+      await researchAPI.start(corporationId, sector, project.key);
+      onChange();
+    } catch (err: unknown) {
+      alert(getErrorMessage(err, 'Failed to start research'));
+    } finally {
+      setStarting(null);
+    }
+  };
+
+  return (
+    <div className="bg-white dark:bg-gray-800/50 rounded-xl shadow-sm border border-gray-100 dark:border-gray-700/50 p-6 space-y-6">
+      <div>
+        <h3 className="text-lg font-semibold text-gray-900 dark:text-white flex items-center gap-2">
+          <FlaskConical className="w-5 h-5 text-corporate-blue" />
+          Research &amp; Development
+        </h3>
+        <p className="text-sm text-gray-500 dark:text-gray-400">
+          Completed research permanently improves this corporation&apos;s units in the sector.
+          {atLimit && inProgress > 0 && ' Wait for the current project to finish before starting another.'}
+        </p>
+      </div>
+
+      {research.sectors.map(sector => (
+        <div key={sector.sector_type}>
+          <h4 className="text-sm font-semibold text-gray-700 dark:text-gray-300 mb-2">{sector.sector_type}</h4>
+          <div className="grid grid-cols-1 md:grid-cols-2 gap-3">
+            {sector.projects.map(project => {
+              const key = `${sector.sector_type}|${project.key}`;
+              return (
+                <div
+                  key={project.key}
+                  className="rounded-lg border border-gray-100 dark:border-gray-700 p-3 space-y-2"
+                >
+                  <div className="flex items-start justify-between gap-2">
+                    <div className="font-medium text-sm text-gray-900 dark:text-white">{project.name}</div>
+                    <Chip size="sm" variant="flat" color={STATUS_COLORS[project.status]}>
+                      {project.status === 'in_progress' && project.completes_at
+                        ? formatTimeLeft(project.completes_at)
+                        : STATUS_LABELS[project.status]}
+                    </Chip>
+                  </div>
+                  <p className="text-xs text-gray-500 dark:text-gray-400">{project.description}</p>
+                  <ul className="text-xs text-gray-600 dark:text-gray-300">
+                    {project.effects.map((effect, i) => (
+                      <li key={i}>{describeResearchEffect(effect as ResearchEffect)}</li>
+                    ))}
+                  </ul>
+                  {project.status === 'locked' && (
+                    <p className="text-xs text-gray-400">
+                      Requires {project.requires
+                        .map(required => sector.projects.find(p => p.key === required)?.name ?? required)
+                        .join(', ')}
+                    </p>
+                  )}
+                  {isCeo && project.status === 'available' && (
+                    <Button
+                      size="sm"
+                      color="primary"
+                      variant="flat"
+                      isDisabled={atLimit || starting !== null}
+                      isLoading={starting === key}
+                      onPress={() => handleStart(sector.sector_type, project)}
+                    >
+                      Research · ${project.cost.toLocaleString()} · {project.action_cost} actions · {project.duration_hours}h
+                    </Button>
+                  )}
+                </div>
+              );
+            })}
+          </div>
+        </div>
+      ))}
+    </div>
+  );
+}
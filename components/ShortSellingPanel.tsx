@@ -0,0 +1,240 @@
+'use client';
+
+import { useState, useEffect, useCallback } from 'react';
+import { sharesAPI, LendingPoolResponse, ShortPositionResponse } from '@/lib/api';
+import { Input, Button, Switch } from '@heroui/react';
+import { TrendingDown, AlertTriangle } from 'lucide-react';
+
+interface ShortSellingPanelProps {
+  corporationId: number;
+  isLoggedIn: boolean;
+  onTrade?: () => void;
+}
+
+const formatCurrency = (value: number) => {
+  return new Intl.NumberFormat('en-US', {
+    style: 'currency',
+    currency: 'USD',
+    minimumFractionDigits: 2,
+    maximumFractionDigits: 2,
+  }).format(value);
+};
+
+const inputClassNames = {
+  input: 'bg-transparent',
+  inputWrapper: 'bg-gray-50 dark:bg-gray-900 border border-gray-200 dark:border-gray-700 hover:border-corporate-blue focus-within:!border-corporate-blue shadow-none',
+};
+
+export default function ShortSellingPanel({ corporationId, isLoggedIn, onTrade }: ShortSellingPanelProps) {
+  const [pool, setPool] = useState<LendingPoolResponse | null>(null);
+  const [positions, setPositions] = useState<ShortPositionResponse[]>([]);
+  const [shares, setShares] = useState('');
+  const [collateral, setCollateral] = useState<Record<number, string>>({});
+  const [submitting, setSubmitting] = useState(false);
+
+  const loadShorts = useCallback(async () => {
+    try {
+      const [poolData, mine] = await Promise.all([
+        sharesAPI.getLendingPool(corporationId),
+        isLoggedIn ? sharesAPI.getShortPositions(corporationId) : Promise.resolve(null),
+      ]);
+      setPool(poolData);
+      setPositions(mine?.positions.filter(p => p.status === 'open') ?? []);
+    } catch (err) {
+      console.error('Failed to load short positions:', err);
+    }
+  }, [corporationId, isLoggedIn]);
+
+  useEffect(() => {
+    loadShorts();
+  }, [loadShorts]);
+
+  const getApiError = (err: unknown, fallback: string) => {
+    if (typeof err === 'object' && err !== null) {
+      const anyErr = err as { response?: { data?: { error?: string } } };
+      return anyErr.response?.data?.error || fallback;
+    }
+    return fallback;
+  };
+
+  const handleToggleLending = async (enabled: boolean) => {
+    setSubmitting(true);
+    try {
+      await sharesAPI.setLending(corporationId, enabled);
+      await loadShorts();
+    } catch (err: unknown) {
+      alert(getApiError(err, 'Failed to update lending status'));
+    } finally {
+      setSubmitting(false);
+    }
+  };
+
+  const handleOpenShort = async () => {
+    const qty = parseInt(shares, 10);
+    if (isNaN(qty) || qty <= 0) {
+      alert('Please enter a valid number of shares');
+      return;
+    }
+
+    setSubmitting(true);
+    try {
+      const result = await sharesAPI.openShort(corporationId, qty);
+      alert(`Sold short ${qty.toLocaleString()} shares at ${formatCurrency(result.price)}. Margin posted: ${formatCurrency(result.margin_posted)}`);
+      setShares('');
+      await loadShorts();
+      onTrade?.();
+    } catch (err: unknown) {
+      alert(getApiError(err, 'Failed to open short position'));
+    } finally {
+      setSubmitting(false);
+    }
+  };
+
+  const handleCover = async (positionId: number) => {
+    setSubmitting(true);
+    try {
+      const result = await sharesAPI.coverShort(corporationId, positionId);
+      alert(`Covered at ${formatCurrency(result.price)}. Realized P&L: ${formatCurrency(result.realized_pnl)}`);
+      await loadShorts();
+      onTrade?.();
+    } catch (err: unknown) {
+      alert(getApiError(err, 'Failed to cover short position'));
+    } finally {
+      setSubmitting(false);
+    }
+  };
+
+  const handleAddCollateral = async (positionId: number) => {
+    const amount = parseFloat(collateral[positionId] ?? '');
+    if (isNaN(amount) || amount <= 0) {
+      alert('Please enter a valid amount');
+      return;
+    }
+
+    setSubmitting(true);
+    try {
+      await sharesAPI.addShortCollateral(corporationId, positionId, amount);
+      setCollateral(prev => ({ ...prev, [positionId]: '' }));
+      await loadShorts();
+      onTrade?.();
+    } catch (err: unknown) {
+      alert(getApiError(err, 'Failed to add collateral'));
+    } finally {
+      setSubmitting(false);
+    }
+  };
+
+  return (
+    <div className="bg-white dark:bg-gray-800/50 rounded-xl shadow-sm border border-gray-100 dark:border-gray-700/50 p-6">
+      <div className="flex items-center justify-between mb-4">
+        <h3 className="font-semibold text-gray-900 dark:text-white flex items-center">
+          <TrendingDown className="w-5 h-5 mr-2 text-corporate-blue" />
+          Short Selling
+        </h3>
+        {pool && (
+          <div className="text-xs text-gray-500 dark:text-gray-400">
+            Borrow fee: {pool.borrow_fee_rate}%/yr
+          </div>
+        )}
+      </div>
+
+      {pool && (
+        <div className="grid grid-cols-2 gap-4 mb-4 text-sm">
+          <div>
+            <div className="text-xs text-gray-500 dark:text-gray-400">Available to borrow</div>
+            <div className="font-mono text-gray-900 dark:text-white">{pool.lendable_shares.toLocaleString()}</div>
+          </div>
+          <div>
+            <div className="text-xs text-gray-500 dark:text-gray-400">On loan</div>
+            <div className="font-mono text-gray-900 dark:text-white">{pool.shares_on_loan.toLocaleString()}</div>
+          </div>
+        </div>
+      )}
+
+      {isLoggedIn && (
+        <>
+          {pool?.mine && pool.mine.shares + pool.mine.shares_on_loan > 0 && (
+            <div className="flex items-center justify-between mb-4 text-sm">
+              <span className="text-gray-700 dark:text-gray-300">
+                Lend my shares
+                {pool.mine.shares_on_loan > 0 && (
+                  <span className="text-xs text-gray-500 dark:text-gray-400"> ({pool.mine.shares_on_loan.toLocaleString()} on loan)</span>
+                )}
+              </span>
+              <Switch
+                size="sm"
+                isSelected={pool.mine.lending_enabled}
+                isDisabled={submitting}
+                onValueChange={handleToggleLending}
+              />
+            </div>
+          )}
+
+          <div className="flex gap-2 items-end mb-4">
+            <Input
+              label="Shares to short"
+              type="number"
+              value={shares}
+              onChange={(e) => setShares(e.target.value)}
+              placeholder="Amount"
+              labelPlacement="outside"
+              classNames={inputClassNames}
+            />
+            <Button
+              onPress={handleOpenShort}
+              isDisabled={submitting || !shares}
+              className="bg-red-600 hover:bg-red-700 text-white font-medium"
+            >
+              Sell Short
+            </Button>
+          </div>
+
+          {positions.length > 0 && (
+            <div className="space-y-3">
+              <div className="text-xs font-medium text-gray-500 dark:text-gray-400">Your Open Shorts</div>
+              {positions.map(position => (
+                <div key={position.id} className="text-sm py-2 border-b border-gray-100 dark:border-gray-700/50">
+                  <div className="flex items-center justify-between">
+                    <span className="font-mono text-gray-700 dark:text-gray-300">
+                      {position.shares.toLocaleString()} @ {formatCurrency(position.entry_price)}
+                    </span>
+                    {position.unrealized_pnl !== null && position.unrealized_pnl !== undefined && (
+                      <span className={`font-mono ${position.unrealized_pnl >= 0 ? 'text-green-600 dark:text-green-400' : 'text-red-600 dark:text-red-400'}`}>
+                        {formatCurrency(position.unrealized_pnl)}
+                      </span>
+                    )}
+                    <Button size="sm" onPress={() => handleCover(position.id)} isDisabled={submitting}>
+                      Cover
+                    </Button>
+                  </div>
+                  <div className="flex items-center justify-between mt-1 text-xs text-gray-500 dark:text-gray-400">
+                    <span>Collateral {formatCurrency(position.collateral)}</span>
+                    {position.collateral_ratio !== null && position.collateral_ratio !== undefined && (
+                      <span>{Math.round(position.collateral_ratio * 100)}% margin</span>
+                    )}
+                  </div>
+                  {position.margin_call_at && (
+                    <div className="flex items-center gap-2 mt-2">
+                      <AlertTriangle className="w-4 h-4 text-amber-500" />
+                      <Input
+                        size="sm"
+                        type="number"
+                        value={collateral[position.id] ?? ''}
+                        onChange={(e) => setCollateral(prev => ({ ...prev, [position.id]: e.target.value }))}
+                        placeholder="Add collateral"
+                        classNames={inputClassNames}
+                      />
+                      <Button size="sm" onPress={() => handleAddCollateral(position.id)} isDisabled={submitting}>
+                        Add
+                      </Button>
+                    </div>
+                  )}
+                </div>
+              ))}
+            </div>
+          )}
+        </>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,379 @@
+'use client';
+
+import { useState, useEffect, useCallback } from 'react';
+import {
+  authAPI,
+  corporationAPI,
+  marketsAPI,
+  SpotOrderBookResponse,
+  CommodityOrderResponse,
+  CorporationResponse,
+  InventoryItemResponse,
+  ShareOrderSide,
+} from '@/lib/api';
+import { Input, Button, Select, SelectItem } from '@heroui/react';
+import { BookOpen, X } from 'lucide-react';
+
+interface SpotOrderBookPanelProps {
+  item: string;
+}
+
+const REFRESH_INTERVAL_MS = 15000;
+
+const formatCurrency = (value: number) => {
+  return new Intl.NumberFormat('en-US', {
+    style: 'currency',
+    currency: 'USD',
+    minimumFractionDigits: 2,
+    maximumFractionDigits: 2,
+  }).format(value);
+};
+
+const formatQuantity = (value: number) => value.toLocaleString('en-US', { maximumFractionDigits: 2 });
+
+const inputClassNames = {
+  input: 'bg-transparent',
+  inputWrapper: 'bg-gray-50 dark:bg-gray-900 border border-gray-200 dark:border-gray-700 hover:border-corporate-blue focus-within:!border-corporate-blue shadow-none',
+};
+
+/**
+ * Live spot market for one resource or product: book depth, recent fills and,
+ * for CEOs, an order ticket that trades on behalf of their corporation.
+ */
+export default function SpotOrderBookPanel({ item }: SpotOrderBookPanelProps) {
+  const [book, setBook] = useState<SpotOrderBookResponse | null>(null);
+  const [corporations, setCorporations] = useState<CorporationResponse[]>([]);
+  const [corporationId, setCorporationId] = useState<number | null>(null);
+  const [states, setStates] = useState<string[]>([]);
+  const [stock, setStock] = useState<InventoryItemResponse[]>([]);
+  const [myOrders, setMyOrders] = useState<CommodityOrderResponse[]>([]);
+  const [side, setSide] = useState<ShareOrderSide>('buy');
+  const [stateCode, setStateCode] = useState('');
+  const [quantity, setQuantity] = useState('');
+  const [limitPrice, setLimitPrice] = useState('');
+  const [expiresInHours, setExpiresInHours] = useState('24');
+  const [submitting, setSubmitting] = useState(false);
+
+  // Corporations the viewer can trade for
+  useEffect(() => {
+    const loadViewer = async () => {
+      const token = typeof window !== 'undefined' ? localStorage.getItem('token') : null;
+      if (!token) return;
+
+      try {
+        const [me, all] = await Promise.all([authAPI.getMe(), corporationAPI.getAll()]);
+        const managed = all.filter(corp => corp.ceo_id === me.id || corp.elected_ceo_id === me.id);
+        setCorporations(managed);
+        if (managed.length > 0) setCorporationId(managed[0].id);
+      } catch (err) {
+        console.warn('Failed to load viewer corporations:', err);
+      }
+    };
+    loadViewer();
+  }, []);
+
+  // States the selected corporation operates in, and its stock of this item there
+  useEffect(() => {
+    if (!corporationId) return;
+
+    const loadHoldings = async () => {
+      try {
+        const [entries, finances] = await Promise.all([
+          marketsAPI.getCorporationEntries(corporationId),
+          marketsAPI.getCorporationFinances(corporationId),
+        ]);
+        const codes = Array.from(new Set(entries.map(entry => entry.state_code))).sort();
+        setStates(codes);
+        setStateCode(current => (codes.includes(current) ? current : codes[0] ?? ''));
+        setStock((finances.inventory?.items ?? []).filter(row => row.item === item));
+      } catch (err) {
+        console.warn('Failed to load corporation holdings:', err);
+      }
+    };
+    loadHoldings();
+  }, [corporationId, item]);
+
+  const loadBook = useCallback(async () => {
+    try {
+      const [bookData, mine] = await Promise.all([
+        marketsAPI.getSpotOrderBook(item),
+        corporationId
+          ? marketsAPI.getSpotOrderBook(item, { corporationId, status: 'open' })
+          : Promise.resolve(null),
+      ]);
+      setBook(bookData);
+      setMyOrders(mine?.orders ?? []);
+    } catch (err) {
+      console.error('Failed to load spot order book:', err);
+    }
+  }, [item, corporationId]);
+
+  useEffect(() => {
+    loadBook();
+    const interval = setInterval(loadBook, REFRESH_INTERVAL_MS);
+    return () => clearInterval(interval);
+  }, [loadBook]);
+
+  const getApiError = (err: unknown, fallback: string) => {
+    if (typeof err === 'object' && err !== null) {
+      const anyErr = err as { response?: { data?: { error?: string } } };
+      return anyErr.response?.data?.error || fallback;
+    }
+    return fallback;
+  };
+
+  const refreshStock = async () => {
+    if (!corporationId) return;
+    try {
+      const finances = await marketsAPI.getCorporationFinances(corporationId);
+      setStock((finances.inventory?.items ?? []).filter(row => row.item === item));
+    } catch {
+    }
+  };
+
+  const handlePlaceOrder = async () => {
+    const qty = parseFloat(quantity);
+    const price = parseFloat(limitPrice);
+    const hours = parseInt(expiresInHours, 10);
+
+    if (!corporationId || !stateCode) {
+      alert('Choose a corporation and state to trade from');
+      return;
+    }
+    if (isNaN(qty) || qty <= 0 || isNaN(price) || price <= 0) {
+      alert('Please enter a valid quantity and limit price');
+      return;
+    }
+
+    setSubmitting(true);
+    try {
+      const result = await marketsAPI.placeSpotOrder(item, {
+        corporationId,
+        stateCode,
+        side,
+        quantity: qty,
+        limitPrice: price,
+        expiresInHours: isNaN(hours) ? undefined : hours,
+      });
+
+      if (result.quantity_filled > 0) {
+        const shipping = result.fills.reduce((sum, fill) => sum + fill.shipping_cost, 0);
+        const shippingNote = shipping > 0 ? ` Shipping to ${stateCode} cost ${formatCurrency(shipping)}.` : '';
+        alert(`Filled ${formatQuantity(result.quantity_filled)} of ${formatQuantity(qty)} units${result.order.remaining_quantity > 0 ? '. The rest is resting in the book.' : '.'}${shippingNote}`);
+      } else {
+        alert(`Order placed: ${side} ${formatQuantity(qty)} ${item} at ${formatCurrency(result.order.limit_price)}`);
+      }
+
+      setQuantity('');
+      setLimitPrice('');
+      await Promise.all([loadBook(), refreshStock()]);
+    } catch (err: unknown) {
+      alert(getApiError(err, 'Failed to place order'));
+    } finally {
+      setSubmitting(false);
+    }
+  };
+
+  const handleCancel = async (orderId: number) => {
+    setSubmitting(true);
+    try {
+      await marketsAPI.cancelSpotOrder(item, orderId);
+      await Promise.all([loadBook(), refreshStock()]);
+    } catch (err: unknown) {
+      alert(getApiError(err, 'Failed to cancel order'));
+    } finally {
+      setSubmitting(false);
+    }
+  };
+
+  const maxLevels = Math.max(book?.bids.length ?? 0, book?.asks.length ?? 0);
+  const heldHere = stock.find(row => row.state_code === stateCode)?.quantity ?? 0;
+
+  return (
+    <div className="bg-white dark:bg-gray-800/50 rounded-xl shadow-sm border border-gray-100 dark:border-gray-700/50 p-6">
+      <div className="flex items-center justify-between mb-4">
+        <h3 className="font-semibold text-gray-900 dark:text-white flex items-center">
+          <BookOpen className="w-5 h-5 mr-2 text-corporate-blue" />
+          Spot Market
+        </h3>
+        <div className="flex gap-4 text-xs text-gray-500 dark:text-gray-400">
+          {book?.last_price !== null && book?.last_price !== undefined && (
+            <span>Last: {formatCurrency(book.last_price)}</span>
+          )}
+          {book?.spread !== null && book?.spread !== undefined && (
+            <span>Spread: {formatCurrency(book.spread)}</span>
+          )}
+        </div>
+      </div>
+
+      <div className="grid grid-cols-2 gap-4 mb-6 text-sm">
+        <div>
+          <div className="flex justify-between text-xs font-medium text-gray-500 dark:text-gray-400 mb-2">
+            <span>Bid</span>
+            <span>Units</span>
+          </div>
+          {maxLevels === 0 && <div className="text-xs text-gray-400">No resting orders</div>}
+          {book?.bids.map(level => (
+            <div key={`bid-${level.price}`} className="flex justify-between py-0.5">
+              <span className="font-mono text-green-600 dark:text-green-400">{formatCurrency(level.price)}</span>
+              <span className="font-mono text-gray-700 dark:text-gray-300">{formatQuantity(level.quantity)}</span>
+            </div>
+          ))}
+        </div>
+        <div>
+          <div className="flex justify-between text-xs font-medium text-gray-500 dark:text-gray-400 mb-2">
+            <span>Ask</span>
+            <span>Units</span>
+          </div>
+          {book?.asks.map(level => (
+            <div key={`ask-${level.price}`} className="flex justify-between py-0.5">
+              <span className="font-mono text-red-600 dark:text-red-400">{formatCurrency(level.price)}</span>
+              <span className="font-mono text-gray-700 dark:text-gray-300">{formatQuantity(level.quantity)}</span>
+            </div>
+          ))}
+        </div>
+      </div>
+
+      {book && book.trades.length > 0 && (
+        <div className="mb-6">
+          <div className="text-xs font-medium text-gray-500 dark:text-gray-400 mb-2">Recent Trades</div>
+          <div className="space-y-0.5 max-h-40 overflow-y-auto text-sm">
+            {book.trades.map(trade => (
+              <div key={trade.id} className="flex justify-between">
+                <span className="font-mono text-gray-900 dark:text-white">{formatCurrency(trade.price)}</span>
+                <span className="font-mono text-gray-700 dark:text-gray-300">{formatQuantity(trade.quantity)}</span>
+                <span className="text-xs text-gray-500 dark:text-gray-400">
+                  {new Date(trade.created_at).toLocaleString('en-US', { month: 'short', day: 'numeric', hour: 'numeric', minute: '2-digit' })}
+                </span>
+              </div>
+            ))}
+          </div>
+        </div>
+      )}
+
+      {corporations.length > 0 && corporationId && (
+        <>
+          <div className="grid grid-cols-2 gap-2 mb-3">
+            {corporations.length > 1 && (
+              <Select
+                label="Corporation"
+                selectedKeys={[corporationId.toString()]}
+                onChange={(e) => e.target.value && setCorporationId(parseInt(e.target.value, 10))}
+                labelPlacement="outside"
+                size="sm"
+              >
+                {corporations.map(corp => (
+                  <SelectItem key={corp.id.toString()}>{corp.name}</SelectItem>
+                ))}
+              </Select>
+            )}
+            <Select
+              label="State"
+              selectedKeys={stateCode ? [stateCode] : []}
+              onChange={(e) => setStateCode(e.target.value)}
+              labelPlacement="outside"
+              size="sm"
+              placeholder={states.length === 0 ? 'No markets entered' : 'Choose state'}
+              isDisabled={states.length === 0}
+            >
+              {states.map(code => (
+                <SelectItem key={code}>{code}</SelectItem>
+              ))}
+            </Select>
+          </div>
+
+          <div className="flex items-center justify-between mb-3">
+            <div className="flex gap-2">
+              <Button
+                size="sm"
+                onPress={() => setSide('buy')}
+                className={side === 'buy' ? 'bg-green-600 text-white' : 'bg-gray-100 dark:bg-gray-700 text-gray-700 dark:text-gray-300'}
+              >
+                Limit Buy
+              </Button>
+              <Button
+                size="sm"
+                onPress={() => setSide('sell')}
+                className={side === 'sell' ? 'bg-red-600 text-white' : 'bg-gray-100 dark:bg-gray-700 text-gray-700 dark:text-gray-300'}
+              >
+                Limit Sell
+              </Button>
+            </div>
+            {stateCode && (
+              <span className="text-xs text-gray-500 dark:text-gray-400">
+                In stock ({stateCode}): {formatQuantity(heldHere)}
+              </span>
+            )}
+          </div>
+
+          <div className="grid grid-cols-3 gap-2 items-end mb-4">
+            <Input
+              label="Quantity"
+              type="number"
+              value={quantity}
+              onChange={(e) => setQuantity(e.target.value)}
+              placeholder="Units"
+              labelPlacement="outside"
+              classNames={inputClassNames}
+            />
+            <Input
+              label="Limit Price"
+              type="number"
+              value={limitPrice}
+              onChange={(e) => setLimitPrice(e.target.value)}
+              placeholder="0.00"
+              labelPlacement="outside"
+              classNames={inputClassNames}
+            />
+            <Input
+              label="Expires (hours)"
+              type="number"
+              value={expiresInHours}
+              onChange={(e) => setExpiresInHours(e.target.value)}
+              labelPlacement="outside"
+              classNames={inputClassNames}
+            />
+          </div>
+
+          <Button
+            onPress={handlePlaceOrder}
+            isDisabled={submitting || !quantity || !limitPrice || !stateCode}
+            className={`w-full text-white font-medium ${side === 'buy' ? 'bg-green-600 hover:bg-green-700' : 'bg-red-600 hover:bg-red-700'}`}
+          >
+            Place {side === 'buy' ? 'Buy' : 'Sell'} Order
+          </Button>
+
+          {myOrders.length > 0 && (
+            <div className="mt-6">
+              <div className="text-xs font-medium text-gray-500 dark:text-gray-400 mb-2">Your Corporation&apos;s Open Orders</div>
+              <div className="space-y-1">
+                {myOrders.map(order => (
+                  <div key={order.id} className="flex items-center justify-between text-sm py-1 border-b border-gray-100 dark:border-gray-700/50">
+                    <span className={order.side === 'buy' ? 'text-green-600 dark:text-green-400' : 'text-red-600 dark:text-red-400'}>
+                      {order.side.toUpperCase()} {order.state_code}
+                    </span>
+                    <span className="font-mono text-gray-700 dark:text-gray-300">
+                      {formatQuantity(order.remaining_quantity)} @ {formatCurrency(order.limit_price)}
+                    </span>
+                    <span className="text-xs text-gray-500 dark:text-gray-400">
+                      until {new Date(order.expires_at).toLocaleString('en-US', { month: 'short', day: 'numeric', hour: 'numeric' })}
+                    </span>
+                    <button
+                      type="button"
+                      onClick={() => handleCancel(order.id)}
+                      disabled={submitting}
+                      className="text-gray-400 hover:text-red-600"
+                      aria-label="Cancel order"
+                    >
+                      <X className="w-4 h-4" />
+                    </button>
+                  </div>
+                ))}
+              </div>
+            </div>
+          )}
+        </>
+      )}
+    </div>
+  );
+}
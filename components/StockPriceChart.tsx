@@ -2,6 +2,7 @@
 
 import { useState, useEffect, useMemo } from 'react';
 import { sharesAPI, SharePriceHistoryResponse } from '@/lib/api';
+import { useEventStream } from '@/hooks/useEventStream';
 import {
   AreaChart,
   Area,
@@ -56,11 +57,26 @@ const formatPercent = (value: number) => {
   return `${sign}${value.toFixed(2)}%`;
 };
 
-export default function StockPriceChart({ corporationId, currentPrice }: StockPriceChartProps) {
+export default function StockPriceChart({ corporationId, currentPrice: initialPrice }: StockPriceChartProps) {
   const [timeFrame, setTimeFrame] = useState<TimeFrame>('96h');
   const [loading, setLoading] = useState(true);
   const [error, setError] = useState<string | null>(null);
   const [historyData, setHistoryData] = useState<SharePriceHistoryResponse[]>([]);
+  const [livePrice, setLivePrice] = useState<number | null>(null);
+  const currentPrice = livePrice ?? initialPrice;
+
+  // Extend the chart with price ticks as they happen
+  useEventStream((event) => {
+    if (event.type !== 'price_tick') return;
+    setLivePrice(event.share_price);
+    setHistoryData(prev => [...prev, {
+      id: 0,
+      corporation_id: event.corporation_id,
+      share_price: event.share_price,
+      capital: 0,
+      recorded_at: event.at,
+    }]);
+  }, { corporationIds: [corporationId] });
 
   const selectedTimeFrame = TIME_FRAMES.find(tf => tf.value === timeFrame)!;
 
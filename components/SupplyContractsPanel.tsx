@@ -0,0 +1,323 @@
+'use client';
+
+import { useState, useEffect, useCallback } from 'react';
+import {
+  contractsAPI,
+  corporationAPI,
+  SupplyContractResponse,
+  SupplyContractRole,
+  CorporationResponse,
+} from '@/lib/api';
+import { RESOURCES, PRODUCTS } from '@/lib/constants/sectors';
+import { SUPPLY_CONTRACT_CONFIG } from '@/lib/constants/contracts';
+import { Input, Button, Select, SelectItem } from '@heroui/react';
+import { FileSignature } from 'lucide-react';
+
+interface SupplyContractsPanelProps {
+  corporationId: number;
+  isCeo: boolean;
+  stateCodes: string[];   // States the corporation operates in
+  onChange?: () => void;
+}
+
+const formatCurrency = (value: number) => {
+  return new Intl.NumberFormat('en-US', {
+    style: 'currency',
+    currency: 'USD',
+    minimumFractionDigits: 2,
+    maximumFractionDigits: 2,
+  }).format(value);
+};
+
+const formatTimeLeft = (until: string) => {
+  const ms = new Date(until).getTime() - Date.now();
+  if (ms <= 0) return 'ending';
+  const hours = Math.floor(ms / (60 * 60 * 1000));
+  const minutes = Math.floor((ms % (60 * 60 * 1000)) / (60 * 1000));
+  return hours > 0 ? `${hours}h ${minutes}m left` : `${minutes}m left`;
+};
+
+const inputClassNames = {
+  input: 'bg-transparent',
+  inputWrapper: 'bg-gray-50 dark:bg-gray-900 border border-gray-200 dark:border-gray-700 hover:border-corporate-blue focus-within:!border-corporate-blue shadow-none',
+};
+
+const ITEMS = [...RESOURCES, ...PRODUCTS];
+
+export default function SupplyContractsPanel({
+  corporationId,
+  isCeo,
+  stateCodes,
+  onChange,
+}: SupplyContractsPanelProps) {
+  const [contracts, setContracts] = useState<SupplyContractResponse[]>([]);
+  const [counterparties, setCounterparties] = useState<CorporationResponse[]>([]);
+  const [acceptStates, setAcceptStates] = useState<Record<number, string>>({});
+  const [role, setRole] = useState<SupplyContractRole>('supplier');
+  const [counterpartyId, setCounterpartyId] = useState('');
+  const [stateCode, setStateCode] = useState('');
+  const [item, setItem] = useState('');
+  const [unitsPerHour, setUnitsPerHour] = useState('');
+  const [pricePerUnit, setPricePerUnit] = useState('');
+  const [quarters, setQuarters] = useState('4');
+  const [submitting, setSubmitting] = useState(false);
+  const defaultState = stateCodes[0] ?? '';
+
+  const loadContracts = useCallback(async () => {
+    try {
+      const data = await contractsAPI.list(corporationId);
+      setContracts(data.contracts.filter(c => c.status === 'proposed' || c.status === 'active'));
+    } catch (err) {
+      console.error('Failed to load supply contracts:', err);
+    }
+  }, [corporationId]);
+
+  useEffect(() => {
+    loadContracts();
+  }, [loadContracts]);
+
+  useEffect(() => {
+    if (!isCeo) return;
+    corporationAPI.getAll()
+      .then(corporations => setCounterparties(corporations.filter(c => c.id !== corporationId)))
+      .catch(err => console.error('Failed to load corporations:', err));
+  }, [isCeo, corporationId]);
+
+  const getApiError = (err: unknown, fallback: string) => {
+    if (typeof err === 'object' && err !== null) {
+      const anyErr = err as { response?: { data?: { error?: string } } };
+      return anyErr.response?.data?.error || fallback;
+    }
+    return fallback;
+  };
+
+  const run = async (action: () => Promise<void>, fallback: string) => {
+    setSubmitting(true);
+    try {
+      await action();
+      await loadContracts();
+      onChange?.();
+    } catch (err: unknown) {
+      alert(getApiError(err, fallback));
+    } finally {
+      setSubmitting(false);
+    }
+  };
+
+  const handleAccept = (contract: SupplyContractResponse) => {
+    const state = acceptStates[contract.id] || defaultState;
+    if (!state) {
+      alert('Choose the state to ship from or take delivery in');
+      return;
+    }
+    return run(async () => {
+      await contractsAPI.accept(contract.id, state);
+    }, 'Failed to accept contract');
+  };
+
+  const handleReject = (contract: SupplyContractResponse) => {
+    if (!confirm(`Reject supply contract #${contract.id}?`)) return;
+    return run(async () => {
+      await contractsAPI.reject(contract.id);
+    }, 'Failed to reject contract');
+  };
+
+  const handleWithdraw = (contract: SupplyContractResponse) => {
+    if (!confirm(`Withdraw your proposal #${contract.id}?`)) return;
+    return run(async () => {
+      await contractsAPI.withdraw(contract.id);
+    }, 'Failed to withdraw contract');
+  };
+
+  const handlePropose = () => {
+    const units = parseFloat(unitsPerHour);
+    const price = parseFloat(pricePerUnit);
+    const term = parseInt(quarters, 10);
+    const state = stateCode || defaultState;
+    if (!counterpartyId || !item || !state) {
+      alert('Choose a counterparty, an item and a state');
+      return;
+    }
+    if (isNaN(units) || units <= 0 || isNaN(price) || price <= 0 || isNaN(term)) {
+      alert('Please enter valid units per hour, price and term');
+      return;
+    }
+
+    return run(async () => {
+      await contractsAPI.propose({
+        corporationId,
+        counterpartyCorporationId: parseInt(counterpartyId, 10),
+        role,
+        stateCode: state,
+        item,
+        unitsPerHour: units,
+        pricePerUnit: price,
+        quarters: term,
+      });
+      setUnitsPerHour('');
+      setPricePerUnit('');
+    }, 'Failed to propose contract');
+  };
+
+  return (
+    <div className="bg-white dark:bg-gray-800/50 rounded-xl shadow-sm border border-gray-100 dark:border-gray-700/50 p-6">
+      <div className="flex items-center justify-between mb-4">
+        <h3 className="font-semibold text-gray-900 dark:text-white flex items-center">
+          <FileSignature className="w-5 h-5 mr-2 text-corporate-blue" />
+          Supply Contracts
+        </h3>
+        <div className="text-xs text-gray-500 dark:text-gray-400">
+          Shortfalls cost the supplier {SUPPLY_CONTRACT_CONFIG.SHORTFALL_PENALTY_PCT}% of the price
+        </div>
+      </div>
+
+      {contracts.length === 0 ? (
+        <p className="text-sm text-gray-500 dark:text-gray-400 mb-4">No active or proposed supply contracts.</p>
+      ) : (
+        <div className="space-y-4 mb-4">
+          {contracts.map(contract => {
+            const isProposal = contract.status === 'proposed';
+            return (
+              <div key={contract.id} className="text-sm py-3 border-b border-gray-100 dark:border-gray-700/50">
+                <div className="flex items-center justify-between">
+                  <span className="font-medium text-gray-900 dark:text-white">
+                    {contract.role === 'supplier' ? 'Supplying' : 'Buying from'} {contract.counterparty_name}
+                  </span>
+                  <span className="font-mono text-gray-700 dark:text-gray-300">
+                    {contract.units_per_hour} {contract.item}/h @ {formatCurrency(contract.price_per_unit)}
+                  </span>
+                </div>
+                <div className="flex items-center justify-between mt-1 text-xs text-gray-500 dark:text-gray-400">
+                  <span>
+                    {contract.source_state_code ?? '?'} → {contract.destination_state_code ?? '?'} · {contract.quarters} quarter{contract.quarters === 1 ? '' : 's'}
+                  </span>
+                  <span>
+                    {isProposal
+                      ? `${contract.awaiting_response ? 'Awaiting your answer' : 'Proposed'} · ${formatTimeLeft(contract.proposal_expires_at)}`
+                      : contract.ends_at && formatTimeLeft(contract.ends_at)}
+                  </span>
+                </div>
+                {!isProposal && (
+                  <div className="mt-1 text-xs text-gray-500 dark:text-gray-400">
+                    {contract.units_delivered.toLocaleString(undefined, { maximumFractionDigits: 2 })} delivered for {formatCurrency(contract.total_paid)}
+                    {contract.units_short > 0 && (
+                      <span className="text-amber-600 dark:text-amber-400">
+                        {' '}· {contract.units_short.toLocaleString(undefined, { maximumFractionDigits: 2 })} short, {formatCurrency(contract.total_penalties)} in penalties
+                      </span>
+                    )}
+                  </div>
+                )}
+
+                {isCeo && isProposal && contract.awaiting_response && (
+                  <div className="flex gap-2 items-end mt-3">
+                    <Select
+                      size="sm"
+                      aria-label={contract.role === 'supplier' ? 'Ship from' : 'Deliver to'}
+                      placeholder={contract.role === 'supplier' ? 'Ship from' : 'Deliver to'}
+                      selectedKeys={acceptStates[contract.id] || defaultState ? [acceptStates[contract.id] || defaultState] : []}
+                      onChange={(e) => setAcceptStates(prev => ({ ...prev, [contract.id]: e.target.value }))}
+                    >
+                      {stateCodes.map(code => <SelectItem key={code}>{code}</SelectItem>)}
+                    </Select>
+                    <Button size="sm" color="primary" onPress={() => handleAccept(contract)} isDisabled={submitting}>
+                      Accept
+                    </Button>
+                    <Button size="sm" color="danger" variant="flat" onPress={() => handleReject(contract)} isDisabled={submitting}>
+                      Reject
+                    </Button>
+                  </div>
+                )}
+
+                {isCeo && isProposal && !contract.awaiting_response && (
+                  <div className="flex justify-end mt-3">
+                    <Button size="sm" color="danger" variant="flat" onPress={() => handleWithdraw(contract)} isDisabled={submitting}>
+                      Withdraw
+                    </Button>
+                  </div>
+                )}
+              </div>
+            );
+          })}
+        </div>
+      )}
+
+      {isCeo && (
+        <div className="space-y-2">
+          <div className="text-xs font-medium text-gray-500 dark:text-gray-400">Propose a Contract</div>
+          <div className="grid grid-cols-2 gap-2">
+            <Select
+              size="sm"
+              aria-label="Our side"
+              selectedKeys={[role]}
+              onChange={(e) => setRole((e.target.value as SupplyContractRole) || 'supplier')}
+            >
+              <SelectItem key="supplier">We supply</SelectItem>
+              <SelectItem key="buyer">We buy</SelectItem>
+            </Select>
+            <Select
+              size="sm"
+              aria-label="Counterparty"
+              placeholder="Counterparty"
+              selectedKeys={counterpartyId ? [counterpartyId] : []}
+              onChange={(e) => setCounterpartyId(e.target.value)}
+            >
+              {counterparties.map(c => <SelectItem key={c.id.toString()}>{c.name}</SelectItem>)}
+            </Select>
+            <Select
+              size="sm"
+              aria-label="Item"
+              placeholder="Item"
+              selectedKeys={item ? [item] : []}
+              onChange={(e) => setItem(e.target.value)}
+            >
+              {ITEMS.map(name => <SelectItem key={name}>{name}</SelectItem>)}
+            </Select>
+            <Select
+              size="sm"
+              aria-label={role === 'supplier' ? 'Ship from' : 'Deliver to'}
+              placeholder={role === 'supplier' ? 'Ship from' : 'Deliver to'}
+              selectedKeys={stateCode || defaultState ? [stateCode || defaultState] : []}
+              onChange={(e) => setStateCode(e.target.value)}
+            >
+              {stateCodes.map(code => <SelectItem key={code}>{code}</SelectItem>)}
+            </Select>
+          </div>
+          <div className="grid grid-cols-3 gap-2">
+            <Input
+              size="sm"
+              type="number"
+              value={unitsPerHour}
+              onChange={(e) => setUnitsPerHour(e.target.value)}
+              placeholder="Units/hour"
+              classNames={inputClassNames}
+            />
+            <Input
+              size="sm"
+              type="number"
+              value={pricePerUnit}
+              onChange={(e) => setPricePerUnit(e.target.value)}
+              placeholder="Price/unit"
+              classNames={inputClassNames}
+            />
+            <Input
+              size="sm"
+              type="number"
+              value={quarters}
+              onChange={(e) => setQuarters(e.target.value)}
+              placeholder={`Quarters (${SUPPLY_CONTRACT_CONFIG.MIN_QUARTERS}-${SUPPLY_CONTRACT_CONFIG.MAX_QUARTERS})`}
+              classNames={inputClassNames}
+            />
+          </div>
+          <Button
+            onPress={handlePropose}
+            isDisabled={submitting || !counterpartyId || !item || !unitsPerHour || !pricePerUnit}
+            color="primary"
+            className="w-full font-medium"
+          >
+            Send Proposal
+          </Button>
+        </div>
+      )}
+    </div>
+  );
+}
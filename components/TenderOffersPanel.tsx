@@ -0,0 +1,370 @@
+'use client';
+
+import { useState, useEffect, useCallback } from 'react';
+import {
+  tenderOffersAPI,
+  sharesAPI,
+  boardAPI,
+  corporationAPI,
+  TenderOfferResponse,
+  CorporationResponse,
+} from '@/lib/api';
+import { Input, Button, Select, SelectItem, Progress } from '@heroui/react';
+import { Crosshair, ShieldAlert } from 'lucide-react';
+
+interface TenderOffersPanelProps {
+  corporationId: number;
+  corporationName: string;
+  sharePrice: number;
+  viewerUserId: number | null;
+  viewerShares: number;
+  isCeo: boolean;
+  onChange?: () => void;
+}
+
+const formatCurrency = (value: number) => {
+  return new Intl.NumberFormat('en-US', {
+    style: 'currency',
+    currency: 'USD',
+    minimumFractionDigits: 2,
+    maximumFractionDigits: 2,
+  }).format(value);
+};
+
+const formatTimeLeft = (expiresAt: string) => {
+  const ms = new Date(expiresAt).getTime() - Date.now();
+  if (ms <= 0) return 'closing';
+  const hours = Math.floor(ms / (60 * 60 * 1000));
+  const minutes = Math.floor((ms % (60 * 60 * 1000)) / (60 * 1000));
+  return hours > 0 ? `${hours}h ${minutes}m left` : `${minutes}m left`;
+};
+
+const inputClassNames = {
+  input: 'bg-transparent',
+  inputWrapper: 'bg-gray-50 dark:bg-gray-900 border border-gray-200 dark:border-gray-700 hover:border-corporate-blue focus-within:!border-corporate-blue shadow-none',
+};
+
+export default function TenderOffersPanel({
+  corporationId,
+  corporationName,
+  sharePrice,
+  viewerUserId,
+  viewerShares,
+  isCeo,
+  onChange,
+}: TenderOffersPanelProps) {
+  const [offers, setOffers] = useState<TenderOfferResponse[]>([]);
+  const [outstandingShares, setOutstandingShares] = useState(0);
+  const [myCorporations, setMyCorporations] = useState<CorporationResponse[]>([]);
+  const [tenderShares, setTenderShares] = useState<Record<number, string>>({});
+  const [offerPrice, setOfferPrice] = useState('');
+  const [offerShares, setOfferShares] = useState('');
+  const [offerWindow, setOfferWindow] = useState('24');
+  const [bidAs, setBidAs] = useState('self');
+  const [issueShares, setIssueShares] = useState('');
+  const [dividendPct, setDividendPct] = useState('');
+  const [submitting, setSubmitting] = useState(false);
+  const isLoggedIn = viewerUserId !== null;
+
+  const loadOffers = useCallback(async () => {
+    try {
+      const data = await tenderOffersAPI.list(corporationId, 'open');
+      setOffers(data.offers);
+      setOutstandingShares(data.outstanding_shares);
+    } catch (err) {
+      console.error('Failed to load tender offers:', err);
+    }
+  }, [corporationId]);
+
+  useEffect(() => {
+    loadOffers();
+  }, [loadOffers]);
+
+  useEffect(() => {
+    if (viewerUserId === null) return;
+    corporationAPI.getAll()
+      .then(corporations => setMyCorporations(corporations.filter(c =>
+        c.id !== corporationId && (c.ceo_id === viewerUserId || c.elected_ceo_id === viewerUserId)
+      )))
+      .catch(err => console.error('Failed to load your corporations:', err));
+  }, [viewerUserId, corporationId]);
+
+  const getApiError = (err: unknown, fallback: string) => {
+    if (typeof err === 'object' && err !== null) {
+      const anyErr = err as { response?: { data?: { error?: string } } };
+      return anyErr.response?.data?.error || fallback;
+    }
+    return fallback;
+  };
+
+  const run = async (action: () => Promise<void>, fallback: string) => {
+    setSubmitting(true);
+    try {
+      await action();
+      await loadOffers();
+      onChange?.();
+    } catch (err: unknown) {
+      alert(getApiError(err, fallback));
+    } finally {
+      setSubmitting(false);
+    }
+  };
+
+  const handleTender = (offer: TenderOfferResponse) => {
+    const qty = parseInt(tenderShares[offer.id] ?? '', 10);
+    if (isNaN(qty) || qty <= 0) {
+      alert('Please enter a valid number of shares');
+      return;
+    }
+    return run(async () => {
+      await tenderOffersAPI.tender(offer.id, qty);
+      setTenderShares(prev => ({ ...prev, [offer.id]: '' }));
+    }, 'Failed to tender shares');
+  };
+
+  const handleWithdrawTender = (offer: TenderOfferResponse) =>
+    run(async () => {
+      const result = await tenderOffersAPI.withdrawTender(offer.id);
+      alert(`${result.shares_returned.toLocaleString()} shares returned to your holding`);
+    }, 'Failed to withdraw tendered shares');
+
+  const handleWithdrawOffer = (offer: TenderOfferResponse) => {
+    if (!confirm('Withdraw this tender offer? Tendered shares will be returned and your escrow refunded.')) return;
+    return run(async () => {
+      await tenderOffersAPI.withdraw(offer.id);
+    }, 'Failed to withdraw tender offer');
+  };
+
+  const handleLaunch = () => {
+    const price = parseFloat(offerPrice);
+    const qty = parseInt(offerShares, 10);
+    const windowHours = parseInt(offerWindow, 10);
+    if (isNaN(price) || price <= 0 || isNaN(qty) || qty <= 0) {
+      alert('Please enter a valid price and number of shares');
+      return;
+    }
+    if (!confirm(`Offer ${formatCurrency(price)}/share for up to ${qty.toLocaleString()} shares of ${corporationName}? ${formatCurrency(price * qty)} will be held in escrow until the offer closes.`)) return;
+
+    return run(async () => {
+      await tenderOffersAPI.launch({
+        target_corporation_id: corporationId,
+        price_per_share: price,
+        max_shares: qty,
+        window_hours: isNaN(windowHours) ? undefined : windowHours,
+        corporation_id: bidAs === 'self' ? null : parseInt(bidAs, 10),
+      });
+      setOfferPrice('');
+      setOfferShares('');
+    }, 'Failed to launch tender offer');
+  };
+
+  const handleIssueShares = () => {
+    const qty = parseInt(issueShares, 10);
+    if (isNaN(qty) || qty <= 0) {
+      alert('Please enter a valid number of shares');
+      return;
+    }
+    return run(async () => {
+      const result = await sharesAPI.issue(corporationId, qty);
+      alert(`Issued ${result.shares_issued.toLocaleString()} shares at ${formatCurrency(result.price_per_share)}/share`);
+      setIssueShares('');
+    }, 'Failed to issue shares');
+  };
+
+  const handleProposeDividend = () => {
+    const pct = parseFloat(dividendPct);
+    if (isNaN(pct) || pct <= 0 || pct > 100) {
+      alert('Please enter a percentage of capital between 0 and 100');
+      return;
+    }
+    return run(async () => {
+      await boardAPI.createProposal(corporationId, {
+        proposal_type: 'special_dividend',
+        proposal_data: { capital_percentage: pct },
+      });
+      alert('Special dividend proposal submitted to the board');
+      setDividendPct('');
+    }, 'Failed to create proposal');
+  };
+
+  const hasOwnOffer = offers.some(o => o.is_bidder);
+
+  return (
+    <div className="bg-white dark:bg-gray-800/50 rounded-xl shadow-sm border border-gray-100 dark:border-gray-700/50 p-6">
+      <div className="flex items-center justify-between mb-4">
+        <h3 className="font-semibold text-gray-900 dark:text-white flex items-center">
+          <Crosshair className="w-5 h-5 mr-2 text-corporate-blue" />
+          Tender Offers
+        </h3>
+        <div className="text-xs text-gray-500 dark:text-gray-400">
+          {outstandingShares.toLocaleString()} shares outstanding
+        </div>
+      </div>
+
+      {offers.length === 0 ? (
+        <p className="text-sm text-gray-500 dark:text-gray-400 mb-4">No open tender offers for {corporationName}.</p>
+      ) : (
+        <div className="space-y-4 mb-4">
+          {offers.map(offer => {
+            const premium = sharePrice > 0 ? ((offer.price_per_share - sharePrice) / sharePrice) * 100 : 0;
+            const stake = offer.projected_stake_pct ?? 0;
+            return (
+              <div key={offer.id} className="text-sm py-3 border-b border-gray-100 dark:border-gray-700/50">
+                <div className="flex items-center justify-between">
+                  <span className="font-medium text-gray-900 dark:text-white">{offer.bidder_name}</span>
+                  <span className="font-mono text-gray-700 dark:text-gray-300">
+                    {formatCurrency(offer.price_per_share)}
+                    <span className={`ml-1 text-xs ${premium >= 0 ? 'text-green-600 dark:text-green-400' : 'text-red-600 dark:text-red-400'}`}>
+                      ({premium >= 0 ? '+' : ''}{premium.toFixed(1)}%)
+                    </span>
+                  </span>
+                </div>
+                <div className="flex items-center justify-between mt-1 text-xs text-gray-500 dark:text-gray-400">
+                  <span>{offer.shares_tendered.toLocaleString()} / {offer.max_shares.toLocaleString()} tendered</span>
+                  <span>{formatTimeLeft(offer.expires_at)}</span>
+                </div>
+                <Progress
+                  size="sm"
+                  className="mt-2"
+                  aria-label="Projected stake"
+                  value={Math.min(100, (stake / offer.control_threshold_pct) * 100)}
+                  color={stake >= offer.control_threshold_pct ? 'danger' : 'primary'}
+                />
+                <div className="mt-1 text-xs text-gray-500 dark:text-gray-400">
+                  Bidder stake if closed now: {stake.toFixed(1)}% (control at {offer.control_threshold_pct}%)
+                </div>
+
+                {isLoggedIn && !offer.is_bidder && (
+                  <div className="flex gap-2 items-end mt-3">
+                    {viewerShares > 0 && (
+                      <>
+                        <Input
+                          size="sm"
+                          type="number"
+                          value={tenderShares[offer.id] ?? ''}
+                          onChange={(e) => setTenderShares(prev => ({ ...prev, [offer.id]: e.target.value }))}
+                          placeholder={`Up to ${viewerShares.toLocaleString()}`}
+                          classNames={inputClassNames}
+                        />
+                        <Button size="sm" onPress={() => handleTender(offer)} isDisabled={submitting}>
+                          Tender
+                        </Button>
+                      </>
+                    )}
+                    {(offer.my_tendered_shares ?? 0) > 0 && (
+                      <Button size="sm" variant="flat" onPress={() => handleWithdrawTender(offer)} isDisabled={submitting}>
+                        Withdraw my {offer.my_tendered_shares?.toLocaleString()}
+                      </Button>
+                    )}
+                  </div>
+                )}
+
+                {offer.is_bidder && (
+                  <div className="flex justify-end mt-3">
+                    <Button size="sm" color="danger" variant="flat" onPress={() => handleWithdrawOffer(offer)} isDisabled={submitting}>
+                      Withdraw Offer
+                    </Button>
+                  </div>
+                )}
+              </div>
+            );
+          })}
+        </div>
+      )}
+
+      {isCeo && offers.length > 0 && (
+        <div className="mb-4 p-4 rounded-lg bg-amber-50 dark:bg-amber-900/20 border border-amber-200 dark:border-amber-800/50">
+          <div className="flex items-center text-sm font-medium text-amber-800 dark:text-amber-300 mb-3">
+            <ShieldAlert className="w-4 h-4 mr-2" />
+            Takeover Defenses
+          </div>
+          <p className="text-xs text-amber-700 dark:text-amber-400 mb-3">
+            Issuing shares dilutes the bidder&apos;s stake. A special dividend returns capital to shareholders before the bidder can acquire it.
+          </p>
+          <div className="flex gap-2 items-end mb-2">
+            <Input
+              size="sm"
+              type="number"
+              label="Issue shares"
+              labelPlacement="outside"
+              value={issueShares}
+              onChange={(e) => setIssueShares(e.target.value)}
+              placeholder="Amount"
+              classNames={inputClassNames}
+            />
+            <Button size="sm" color="primary" onPress={handleIssueShares} isDisabled={submitting || !issueShares}>
+              Issue
+            </Button>
+          </div>
+          <div className="flex gap-2 items-end">
+            <Input
+              size="sm"
+              type="number"
+              label="Special dividend (% of capital)"
+              labelPlacement="outside"
+              value={dividendPct}
+              onChange={(e) => setDividendPct(e.target.value)}
+              placeholder="e.g. 25"
+              classNames={inputClassNames}
+            />
+            <Button size="sm" color="primary" onPress={handleProposeDividend} isDisabled={submitting || !dividendPct}>
+              Propose
+            </Button>
+          </div>
+        </div>
+      )}
+
+      {isLoggedIn && !isCeo && !hasOwnOffer && (
+        <div className="space-y-2">
+          <div className="text-xs font-medium text-gray-500 dark:text-gray-400">Launch a Tender Offer</div>
+          {myCorporations.length > 0 && (
+            <Select
+              size="sm"
+              aria-label="Bid as"
+              selectedKeys={[bidAs]}
+              onChange={(e) => setBidAs(e.target.value || 'self')}
+            >
+              {[
+                <SelectItem key="self">My cash</SelectItem>,
+                ...myCorporations.map(c => <SelectItem key={c.id.toString()}>{c.name} (capital)</SelectItem>),
+              ]}
+            </Select>
+          )}
+          <div className="grid grid-cols-3 gap-2">
+            <Input
+              size="sm"
+              type="number"
+              value={offerPrice}
+              onChange={(e) => setOfferPrice(e.target.value)}
+              placeholder={`Price ≥ ${formatCurrency(sharePrice)}`}
+              classNames={inputClassNames}
+            />
+            <Input
+              size="sm"
+              type="number"
+              value={offerShares}
+              onChange={(e) => setOfferShares(e.target.value)}
+              placeholder="Max shares"
+              classNames={inputClassNames}
+            />
+            <Input
+              size="sm"
+              type="number"
+              value={offerWindow}
+              onChange={(e) => setOfferWindow(e.target.value)}
+              placeholder="Hours"
+              classNames={inputClassNames}
+            />
+          </div>
+          <Button
+            onPress={handleLaunch}
+            isDisabled={submitting || !offerPrice || !offerShares}
+            className="w-full bg-red-600 hover:bg-red-700 text-white font-medium"
+          >
+            Launch Offer
+          </Button>
+        </div>
+      )}
+    </div>
+  );
+}
@@ -1,16 +1,26 @@
 "use client";
 
 import { useState } from 'react';
-import { CorporationResponse } from '@/lib/api';
+import { CorporationResponse, MarketIndexSummaryResponse } from '@/lib/api';
+import { useEventStream } from '@/hooks/useEventStream';
 import { TrendingUp, TrendingDown } from 'lucide-react';
 import { Card, Button } from "@heroui/react";
 
 interface TickerTapeProps {
   corporations: CorporationResponse[];
+  indices?: MarketIndexSummaryResponse[];
 }
 
-export default function TickerTape({ corporations }: TickerTapeProps) {
+export default function TickerTape({ corporations, indices = [] }: TickerTapeProps) {
   const [activeTab, setActiveTab] = useState<'gainers' | 'losers'>('gainers');
+  const [livePrices, setLivePrices] = useState<Record<number, number>>({});
+
+  // Keep prices current between page loads
+  useEventStream((event) => {
+    if (event.type === 'price_tick') {
+      setLivePrices(prev => ({ ...prev, [event.corporation_id]: event.share_price }));
+    }
+  });
 
   if (corporations.length === 0) {
     return null;
@@ -42,7 +52,7 @@ export default function TickerTape({ corporations }: TickerTapeProps) {
   // Create ticker items with change data
   const tickerItems = corporations.map((corp) => {
     const symbol = getSymbol(corp.name);
-    const price = formatCurrency(corp.share_price);
+    const price = formatCurrency(livePrices[corp.id] ?? corp.share_price);
     const change = getChange(corp);
     const changeFormatted = `${change >= 0 ? '+' : ''}${change.toFixed(2)}%`;
     const isPositive = change >= 0;
@@ -62,6 +72,23 @@ export default function TickerTape({ corporations }: TickerTapeProps) {
 
   return (
     <Card className="rounded-xl border shadow-lg overflow-hidden border-default-200/60 bg-content1/80 backdrop-blur dark:border-default-200/60 dark:bg-content1/90">
+      {/* Market Indices */}
+      {indices.length > 0 && (
+        <div className="flex items-center gap-6 px-4 py-2 overflow-x-auto whitespace-nowrap border-b border-default-200/60 font-mono-numeric text-sm">
+          {indices.map((index) => (
+            <div key={index.index_key} className="inline-flex items-center gap-2" title={index.name}>
+              <span className="font-semibold text-primary">{index.symbol}</span>
+              <span className="text-foreground">{index.level.toFixed(2)}</span>
+              {index.change_percent !== null && (
+                <span className={index.change_percent >= 0 ? 'text-success' : 'text-danger'}>
+                  {index.change_percent >= 0 ? '+' : ''}{index.change_percent.toFixed(2)}%
+                </span>
+              )}
+            </div>
+          ))}
+        </div>
+      )}
+
       {/* Tabs */}
       <div className="flex border-b border-default-200/60">
         <Button
@@ -0,0 +1,282 @@
+'use client';
+
+import { useCallback, useEffect, useState } from 'react';
+import Link from 'next/link';
+import {
+  watchlistAPI,
+  corporationAPI,
+  CorporationResponse,
+  PriceAlertCondition,
+  WatchlistEntryResponse,
+} from '@/lib/api';
+import { useEventStream } from '@/hooks/useEventStream';
+import { PRODUCTS, RESOURCES } from '@/lib/constants/sectors';
+import { WATCHLIST_CONFIG, describePriceAlert } from '@/lib/constants/watchlists';
+import { formatCash, getErrorMessage } from '@/lib/utils';
+import { Button, Chip, Input, Select, SelectItem } from '@heroui/react';
+import { Bell, Eye, Plus, Trash2, X } from 'lucide-react';
+
+type TargetKind = 'corporation' | 'resource' | 'product';
+
+const CONDITION_LABELS: Record<PriceAlertCondition, string> = {
+  above: 'Price above',
+  below: 'Price below',
+  daily_move: 'Daily move (%)',
+};
+
+const getEntryLink = (entry: WatchlistEntryResponse) => {
+  if (entry.target_type === 'corporation') return `/corporation/${entry.corporation_id}`;
+  return `/${entry.target_type === 'resource' ? 'commodity' : 'product'}/${encodeURIComponent(entry.item ?? '')}`;
+};
+
+export default function WatchlistPanel() {
+  const [entries, setEntries] = useState<WatchlistEntryResponse[]>([]);
+  const [corporations, setCorporations] = useState<CorporationResponse[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [kind, setKind] = useState<TargetKind>('corporation');
+  const [target, setTarget] = useState('');
+  const [adding, setAdding] = useState(false);
+  const [alertEntryId, setAlertEntryId] = useState<number | null>(null);
+  const [alertCondition, setAlertCondition] = useState<PriceAlertCondition>('above');
+  const [alertThreshold, setAlertThreshold] = useState('');
+  const [savingAlert, setSavingAlert] = useState(false);
+
+  const fetchWatchlist = useCallback(async () => {
+    try {
+      const { items } = await watchlistAPI.getAll();
+      setEntries(items);
+    } catch (err: unknown) {
+      console.warn('Failed to fetch watchlist:', getErrorMessage(err));
+    } finally {
+      setLoading(false);
+    }
+  }, []);
+
+  useEffect(() => {
+    fetchWatchlist();
+    corporationAPI.getAll()
+      .then(setCorporations)
+      .catch((err: unknown) => console.warn('Failed to fetch corporations:', getErrorMessage(err)));
+  }, [fetchWatchlist]);
+
+  // Share prices move with every trade; resource and product prices with the hourly recording
+  const watchedCorporationIds = entries
+    .filter(entry => entry.corporation_id !== null)
+    .map(entry => entry.corporation_id as number);
+  useEventStream((event) => {
+    if (event.type === 'price_tick') {
+      setEntries(prev => prev.map(entry =>
+        entry.corporation_id === event.corporation_id ? { ...entry, price: event.share_price } : entry
+      ));
+    }
+    if (event.type === 'cron_completed' && event.job === 'prices') {
+      fetchWatchlist();
+    }
+  }, {
+    corporationIds: watchedCorporationIds,
+    onReconnect: fetchWatchlist,
+  });
+
+  const targetOptions: Array<{ key: string; label: string }> = kind === 'corporation'
+    ? corporations.map(corp => ({ key: String(corp.id), label: corp.name }))
+    : (kind === 'resource' ? RESOURCES : PRODUCTS).map(item => ({ key: item, label: item }));
+
+  const handleAdd = async () => {
+    if (!target) return;
+    setAdding(true);
+    try {
+      await watchlistAPI.add(kind === 'corporation' ? { corporationId: Number(target) } : { item: target });
+      setTarget('');
+      await fetchWatchlist();
+    } catch (err: unknown) {
+      alert(getErrorMessage(err, 'Failed to add to watchlist'));
+    } finally {
+      setAdding(false);
+    }
+  };
+
+  const handleRemove = async (entry: WatchlistEntryResponse) => {
+    if (entry.alerts.length > 0 && !confirm(`Stop watching ${entry.name} and delete its alerts?`)) return;
+    try {
+      await watchlistAPI.remove(entry.id);
+      setEntries(prev => prev.filter(e => e.id !== entry.id));
+    } catch (err: unknown) {
+      alert(getErrorMessage(err, 'Failed to remove from watchlist'));
+    }
+  };
+
+  const handleCreateAlert = async (entryId: number) => {
+    const threshold = parseFloat(alertThreshold);
+    if (!Number.isFinite(threshold) || threshold <= 0) return;
+    setSavingAlert(true);
+    try {
+      await watchlistAPI.createAlert({ watchlistItemId: entryId, condition: alertCondition, threshold });
+      setAlertEntryId(null);
+      setAlertThreshold('');
+      await fetchWatchlist();
+    } catch (err: unknown) {
+      alert(getErrorMessage(err, 'Failed to create alert'));
+    } finally {
+      setSavingAlert(false);
+    }
+  };
+
+  const handleDeleteAlert = async (alertId: number) => {
+    try {
+      await watchlistAPI.deleteAlert(alertId);
+      setEntries(prev => prev.map(entry => ({ ...entry, alerts: entry.alerts.filter(a => a.id !== alertId) })));
+    } catch (err: unknown) {
+      alert(getErrorMessage(err, 'Failed to delete alert'));
+    }
+  };
+
+  return (
+    <div className="relative rounded-2xl border border-gray-200/50 dark:border-gray-700/50 bg-white/80 dark:bg-gray-900/80 shadow-xl backdrop-blur-sm p-6 space-y-4">
+      <div className="flex flex-col md:flex-row md:items-end md:justify-between gap-4">
+        <div>
+          <h2 className="text-xl font-bold text-gray-900 dark:text-white flex items-center gap-2">
+            <Eye className="w-5 h-5 text-corporate-blue" />
+            Watchlist
+          </h2>
+          <p className="text-sm text-gray-600 dark:text-gray-400">
+            Follow corporations, resources and products, and get notified when prices cross your alerts.
+          </p>
+        </div>
+        <div className="flex flex-wrap items-end gap-2">
+          <Select
+            aria-label="Type"
+            size="sm"
+            className="w-36"
+            disallowEmptySelection
+            selectedKeys={[kind]}
+            onChange={(e) => {
+              setKind(e.target.value as TargetKind);
+              setTarget('');
+            }}
+          >
+            <SelectItem key="corporation">Corporation</SelectItem>
+            <SelectItem key="resource">Resource</SelectItem>
+            <SelectItem key="product">Product</SelectItem>
+          </Select>
+          <Select
+            aria-label="Watch"
+            placeholder="Choose..."
+            size="sm"
+            className="w-56"
+            selectedKeys={target ? [target] : []}
+            onChange={(e) => setTarget(e.target.value)}
+            items={targetOptions}
+          >
+            {(option) => <SelectItem key={option.key}>{option.label}</SelectItem>}
+          </Select>
+          <Button
+            size="sm"
+            color="primary"
+            startContent={<Plus className="w-4 h-4" />}
+            onPress={handleAdd}
+            isDisabled={!target || entries.length >= WATCHLIST_CONFIG.MAX_ITEMS}
+            isLoading={adding}
+          >
+            Watch
+          </Button>
+        </div>
+      </div>
+
+      {loading ? (
+        <p className="text-sm text-gray-500 dark:text-gray-400">Loading watchlist...</p>
+      ) : entries.length === 0 ? (
+        <p className="text-sm text-gray-500 dark:text-gray-400">Nothing watched yet.</p>
+      ) : (
+        <div className="divide-y divide-gray-200/60 dark:divide-gray-700/50">
+          {entries.map(entry => (
+            <div key={entry.id} className="py-3 space-y-2">
+              <div className="flex items-center gap-4">
+                <div className="flex-1 min-w-0">
+                  <Link href={getEntryLink(entry)} className="font-semibold text-gray-900 dark:text-white hover:text-corporate-blue">
+                    {entry.name}
+                  </Link>
+                  <span className="ml-2 text-xs uppercase tracking-wide text-gray-500 dark:text-gray-400">{entry.target_type}</span>
+                </div>
+                <span className="font-mono font-bold text-gray-900 dark:text-white">
+                  {entry.price !== null ? formatCash(entry.price) : '—'}
+                </span>
+                <span className={`w-20 text-right font-mono text-sm ${
+                  entry.change_percent === null ? 'text-gray-400'
+                    : entry.change_percent >= 0 ? 'text-emerald-600 dark:text-emerald-400' : 'text-red-600 dark:text-red-400'
+                }`}>
+                  {entry.change_percent !== null ? `${entry.change_percent >= 0 ? '+' : ''}${entry.change_percent.toFixed(2)}%` : '—'}
+                </span>
+                <Button
+                  isIconOnly
+                  size="sm"
+                  variant="light"
+                  aria-label={`Add alert for ${entry.name}`}
+                  onPress={() => setAlertEntryId(alertEntryId === entry.id ? null : entry.id)}
+                  isDisabled={entry.alerts.length >= WATCHLIST_CONFIG.MAX_ALERTS_PER_ITEM}
+                >
+                  <Bell className="w-4 h-4" />
+                </Button>
+                <Button isIconOnly size="sm" variant="light" color="danger" aria-label={`Stop watching ${entry.name}`} onPress={() => handleRemove(entry)}>
+                  <Trash2 className="w-4 h-4" />
+                </Button>
+              </div>
+
+              {entry.alerts.length > 0 && (
+                <div className="flex flex-wrap gap-2">
+                  {entry.alerts.map(priceAlert => (
+                    <Chip
+                      key={priceAlert.id}
+                      size="sm"
+                      variant="flat"
+                      color={priceAlert.armed ? 'primary' : 'warning'}
+                      endContent={
+                        <button type="button" aria-label="Delete alert" onClick={() => handleDeleteAlert(priceAlert.id)}>
+                          <X className="w-3 h-3" />
+                        </button>
+                      }
+                    >
+                      {describePriceAlert(priceAlert.condition, priceAlert.threshold)}
+                      {!priceAlert.armed && ' (triggered)'}
+                    </Chip>
+                  ))}
+                </div>
+              )}
+
+              {alertEntryId === entry.id && (
+                <div className="flex flex-wrap items-end gap-2">
+                  <Select
+                    aria-label="Condition"
+                    size="sm"
+                    className="w-44"
+                    disallowEmptySelection
+                    selectedKeys={[alertCondition]}
+                    onChange={(e) => setAlertCondition(e.target.value as PriceAlertCondition)}
+                  >
+                    {(Object.keys(CONDITION_LABELS) as PriceAlertCondition[]).map(condition => (
+                      <SelectItem key={condition}>{CONDITION_LABELS[condition]}</SelectItem>
+                    ))}
+                  </Select>
+                  <Input
+                    aria-label="Threshold"
+                    type="number"
+                    size="sm"
+                    className="w-32"
+                    min={0}
+                    step="0.01"
+                    value={alertThreshold}
+                    onValueChange={setAlertThreshold}
+                    startContent={alertCondition === 'daily_move' ? null : <span className="text-gray-400 text-sm">$</span>}
+                    endContent={alertCondition === 'daily_move' ? <span className="text-gray-400 text-sm">%</span> : null}
+                  />
+                  <Button size="sm" color="primary" onPress={() => handleCreateAlert(entry.id)} isLoading={savingAlert} isDisabled={!alertThreshold}>
+                    Set Alert
+                  </Button>
+                </div>
+              )}
+            </div>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+}
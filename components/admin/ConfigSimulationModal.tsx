@@ -0,0 +1,133 @@
+'use client';
+
+/**
+ * ConfigSimulationModal - Dry-run results of a sector configuration change
+ *
+ * Shows, before the change is saved:
+ * - How each resource and product price would move
+ * - Which corporations' sector profit would rise or fall the most
+ * - Changed fields the simulation cannot show the effect of
+ */
+
+import { TrendingUp, TrendingDown, AlertTriangle } from 'lucide-react';
+import {
+  Table,
+  TableHeader,
+  TableColumn,
+  TableBody,
+  TableRow,
+  TableCell,
+  Button,
+  Chip,
+  Modal,
+  ModalContent,
+  ModalHeader,
+  ModalBody,
+  ModalFooter,
+} from "@heroui/react";
+import { SectorConfigSimulation, SimulatedCorporation } from '@/lib/api';
+import { formatCash } from '@/lib/utils';
+
+interface ConfigSimulationModalProps {
+  simulation: SectorConfigSimulation | null;
+  onClose: () => void;
+}
+
+const formatPct = (value: number) => `${value > 0 ? '+' : ''}${value.toFixed(1)}%`;
+
+function MoverList({ title, corporations, positive }: { title: string; corporations: SimulatedCorporation[]; positive: boolean }) {
+  const Icon = positive ? TrendingUp : TrendingDown;
+  return (
+    <div className="rounded-lg border border-default-200 p-3">
+      <p className={`text-sm font-semibold flex items-center gap-1 mb-2 ${positive ? 'text-success' : 'text-danger'}`}>
+        <Icon className="w-4 h-4" />
+        {title}
+      </p>
+      {corporations.length === 0 ? (
+        <p className="text-xs text-default-400">None</p>
+      ) : (
+        <ul className="space-y-1">
+          {corporations.map(corporation => (
+            <li key={corporation.corporation_id} className="flex justify-between text-sm">
+              <span className="truncate">{corporation.corporation_name}</span>
+              <span className={`font-mono ${positive ? 'text-success' : 'text-danger'}`}>
+                {positive ? '+' : ''}{formatCash(corporation.profit_change)}
+              </span>
+            </li>
+          ))}
+        </ul>
+      )}
+    </div>
+  );
+}
+
+export default function ConfigSimulationModal({ simulation, onClose }: ConfigSimulationModalProps) {
+  const movedPrices = simulation?.prices.filter(price => Math.abs(price.change_pct) >= 0.05) ?? [];
+
+  return (
+    <Modal isOpen={simulation !== null} onClose={onClose} size="3xl" scrollBehavior="inside">
+      <ModalContent>
+        {simulation && (
+          <>
+            <ModalHeader className="flex flex-col gap-1">
+              Simulated Impact
+              <span className="text-xs font-normal text-default-500">
+                Current units, config version {simulation.version}. Profit is sector revenue less costs over {simulation.period_hours}h.
+              </span>
+            </ModalHeader>
+            <ModalBody className="space-y-4">
+              {simulation.unmodelled.length > 0 && (
+                <div className="flex items-start gap-2 text-sm text-warning-600 dark:text-warning-400">
+                  <AlertTriangle className="w-4 h-4 mt-0.5 shrink-0" />
+                  <span>Not reflected in prices or profits: {simulation.unmodelled.join(', ')}</span>
+                </div>
+              )}
+
+              <Table aria-label="Simulated price changes" removeWrapper>
+                <TableHeader>
+                  <TableColumn>ITEM</TableColumn>
+                  <TableColumn>SUPPLY/HR</TableColumn>
+                  <TableColumn>DEMAND/HR</TableColumn>
+                  <TableColumn>PRICE</TableColumn>
+                  <TableColumn>CHANGE</TableColumn>
+                </TableHeader>
+                <TableBody emptyContent="No price changes">
+                  {movedPrices.map(price => (
+                    <TableRow key={price.item}>
+                      <TableCell>
+                        <p className="text-sm font-medium">{price.item}</p>
+                        <p className="text-xs text-default-400 capitalize">{price.item_type}</p>
+                      </TableCell>
+                      <TableCell className="text-xs font-mono">
+                        {price.supply_before.toFixed(1)} → {price.supply_after.toFixed(1)}
+                      </TableCell>
+                      <TableCell className="text-xs font-mono">
+                        {price.demand_before.toFixed(1)} → {price.demand_after.toFixed(1)}
+                      </TableCell>
+                      <TableCell className="text-xs font-mono">
+                        ${price.price_before.toFixed(2)} → ${price.price_after.toFixed(2)}
+                      </TableCell>
+                      <TableCell>
+                        <Chip size="sm" variant="flat" color={price.change_pct > 0 ? 'success' : 'danger'}>
+                          {formatPct(price.change_pct)}
+                        </Chip>
+                      </TableCell>
+                    </TableRow>
+                  ))}
+                </TableBody>
+              </Table>
+
+              <div className="grid grid-cols-1 md:grid-cols-2 gap-3">
+                <MoverList title="Winners" corporations={simulation.winners} positive />
+                <MoverList title="Losers" corporations={simulation.losers} positive={false} />
+              </div>
+            </ModalBody>
+            <ModalFooter>
+              <Button variant="light" onPress={onClose}>Close</Button>
+            </ModalFooter>
+          </>
+        )}
+      </ModalContent>
+    </Modal>
+  );
+}
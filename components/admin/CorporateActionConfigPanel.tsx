@@ -0,0 +1,393 @@
+'use client';
+
+/**
+ * CorporateActionConfigPanel - Admin panel for the corporate action catalogue
+ *
+ * Allows administrators to:
+ * - Edit cost, duration, cooldown and effects of each action
+ * - Enable or disable actions
+ * - Add new actions and delete the ones they added
+ *
+ * Actions already running keep the effects they were activated with.
+ */
+
+import { useState, useEffect, useCallback } from 'react';
+import { Zap, Plus, Trash2, Pencil, CheckCircle2 } from 'lucide-react';
+import {
+  Table,
+  TableHeader,
+  TableColumn,
+  TableBody,
+  TableRow,
+  TableCell,
+  Input,
+  Button,
+  Switch,
+  Select,
+  SelectItem,
+  Checkbox,
+  Modal,
+  ModalContent,
+  ModalHeader,
+  ModalBody,
+  ModalFooter,
+  Chip,
+} from "@heroui/react";
+import {
+  corporateActionsAPI,
+  CorporateActionConfig,
+  CorporateActionConfigInput,
+  CorporateActionEffect,
+  CorporateActionEffectType,
+  CorporateActionScope,
+  UnitType,
+} from '@/lib/api';
+import { describeEffect } from '@/lib/constants/corporateActions';
+import { formatCash, getErrorMessage } from '@/lib/utils';
+
+const EFFECT_TYPES: { key: CorporateActionEffectType; label: string }[] = [
+  { key: 'revenue_multiplier', label: 'Revenue multiplier' },
+  { key: 'cost_reduction', label: 'Cost reduction' },
+  { key: 'capacity_increase', label: 'Capacity increase' },
+];
+
+const SCOPES: { key: CorporateActionScope; label: string }[] = [
+  { key: 'corporation', label: 'All markets' },
+  { key: 'state', label: 'One state (chosen on activation)' },
+];
+
+const UNIT_TYPES: UnitType[] = ['retail', 'production', 'service', 'extraction'];
+
+const EMPTY_FORM: CorporateActionConfigInput = {
+  action_type: '',
+  name: '',
+  description: '',
+  base_cost: 500000,
+  market_cap_cost_pct: 1,
+  duration_hours: 4,
+  cooldown_hours: 0,
+  effects: [{ type: 'revenue_multiplier', value: 0.1, unit_types: null, scope: 'corporation' }],
+  is_enabled: true,
+  display_order: 0,
+};
+
+export default function CorporateActionConfigPanel() {
+  const [actions, setActions] = useState<CorporateActionConfig[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState('');
+  const [successMessage, setSuccessMessage] = useState<string | null>(null);
+  const [saving, setSaving] = useState<string | null>(null);
+
+  // Editor modal: existing action type, or null when creating
+  const [editor, setEditor] = useState<{ actionType: string | null; form: CorporateActionConfigInput } | null>(null);
+
+  const loadActions = useCallback(async () => {
+    try {
+      setLoading(true);
+      setActions(await corporateActionsAPI.getAdminCatalogue());
+    } catch (err: unknown) {
+      setError(getErrorMessage(err, 'Failed to load corporate actions'));
+    } finally {
+      setLoading(false);
+    }
+  }, []);
+
+  useEffect(() => {
+    loadActions();
+  }, [loadActions]);
+
+  const showSuccess = (message: string) => {
+    setSuccessMessage(message);
+    setTimeout(() => setSuccessMessage(null), 3000);
+  };
+
+  const handleToggle = async (action: CorporateActionConfig, enabled: boolean) => {
+    try {
+      setSaving(action.action_type);
+      await corporateActionsAPI.updateActionConfig(action.action_type, { is_enabled: enabled });
+      await loadActions();
+      showSuccess(`${action.name} ${enabled ? 'enabled' : 'disabled'}`);
+    } catch (err: unknown) {
+      setError(getErrorMessage(err, 'Failed to update corporate action'));
+    } finally {
+      setSaving(null);
+    }
+  };
+
+  const handleDelete = async (action: CorporateActionConfig) => {
+    if (!confirm(`Delete ${action.name}? Running activations are not affected.`)) return;
+    try {
+      setSaving(action.action_type);
+      await corporateActionsAPI.deleteActionConfig(action.action_type);
+      await loadActions();
+      showSuccess(`${action.name} deleted`);
+    } catch (err: unknown) {
+      setError(getErrorMessage(err, 'Failed to delete corporate action'));
+    } finally {
+      setSaving(null);
+    }
+  };
+
+  const openEditor = (action?: CorporateActionConfig) => {
+    setError('');
+    if (!action) {
+      setEditor({ actionType: null, form: { ...EMPTY_FORM, display_order: actions.length + 1 } });
+      return;
+    }
+    const { id: _id, created_at: _created, updated_at: _updated, ...form } = action;
+    setEditor({ actionType: action.action_type, form });
+  };
+
+  const updateForm = (changes: Partial<CorporateActionConfigInput>) => {
+    setEditor(prev => prev && { ...prev, form: { ...prev.form, ...changes } });
+  };
+
+  const updateEffect = (index: number, changes: Partial<CorporateActionEffect>) => {
+    if (!editor) return;
+    updateForm({ effects: editor.form.effects.map((effect, i) => i === index ? { ...effect, ...changes } : effect) });
+  };
+
+  const toggleEffectUnit = (index: number, unitType: UnitType, checked: boolean) => {
+    if (!editor) return;
+    const current = editor.form.effects[index].unit_types ?? UNIT_TYPES;
+    const next = checked ? [...current, unitType] : current.filter(u => u !== unitType);
+    // All unit types selected is stored as null (applies to every unit type)
+    updateEffect(index, { unit_types: next.length === UNIT_TYPES.length ? null : UNIT_TYPES.filter(u => next.includes(u)) });
+  };
+
+  const handleSave = async () => {
+    if (!editor) return;
+    try {
+      setSaving('editor');
+      if (editor.actionType) {
+        const { action_type: _actionType, ...data } = editor.form;
+        await corporateActionsAPI.updateActionConfig(editor.actionType, data);
+      } else {
+        await corporateActionsAPI.createActionConfig(editor.form);
+      }
+      setEditor(null);
+      await loadActions();
+      showSuccess(`${editor.form.name} saved`);
+    } catch (err: unknown) {
+      setError(getErrorMessage(err, 'Failed to save corporate action'));
+    } finally {
+      setSaving(null);
+    }
+  };
+
+  return (
+    <div className="bg-white dark:bg-gray-800 rounded-xl shadow-sm border border-gray-100 dark:border-gray-700/50 p-6">
+      <div className="flex items-start justify-between gap-4 mb-4">
+        <div>
+          <h3 className="text-sm font-semibold text-gray-700 dark:text-gray-300 flex items-center gap-2">
+            <Zap className="w-4 h-4 text-amber-500" />
+            Corporate Actions
+          </h3>
+          <p className="text-xs text-gray-500 dark:text-gray-400">
+            Actions CEOs can buy. Cost is the base cost plus a percentage of market cap.
+          </p>
+        </div>
+        <Button size="sm" variant="flat" onPress={() => openEditor()} startContent={<Plus className="w-4 h-4" />}>
+          New Action
+        </Button>
+      </div>
+
+      {successMessage && (
+        <div className="mb-4 flex items-center gap-2 text-sm text-green-700 dark:text-green-400">
+          <CheckCircle2 className="w-4 h-4" />
+          {successMessage}
+        </div>
+      )}
+      {error && !editor && (
+        <div className="mb-4 text-sm text-red-600 dark:text-red-400">{error}</div>
+      )}
+
+      <Table aria-label="Corporate action catalogue" removeWrapper>
+        <TableHeader>
+          <TableColumn>ACTION</TableColumn>
+          <TableColumn>COST</TableColumn>
+          <TableColumn>DURATION</TableColumn>
+          <TableColumn>COOLDOWN</TableColumn>
+          <TableColumn>EFFECTS</TableColumn>
+          <TableColumn>ENABLED</TableColumn>
+          <TableColumn> </TableColumn>
+        </TableHeader>
+        <TableBody emptyContent={loading ? 'Loading...' : 'No corporate actions configured'}>
+          {actions.map(action => (
+            <TableRow key={action.action_type}>
+              <TableCell>
+                <p className="text-sm font-medium">{action.name}</p>
+                <p className="text-xs text-gray-500 font-mono">{action.action_type}</p>
+              </TableCell>
+              <TableCell className="text-xs">
+                {formatCash(action.base_cost)} + {action.market_cap_cost_pct}% cap
+              </TableCell>
+              <TableCell className="text-xs">{action.duration_hours}h</TableCell>
+              <TableCell className="text-xs">{action.cooldown_hours > 0 ? `${action.cooldown_hours}h` : '—'}</TableCell>
+              <TableCell>
+                <div className="flex flex-wrap gap-1">
+                  {action.effects.map((effect, i) => (
+                    <Chip key={i} size="sm" variant="flat" color={effect.type === 'cost_reduction' ? 'primary' : 'success'}>
+                      {describeEffect(effect)}
+                    </Chip>
+                  ))}
+                </div>
+              </TableCell>
+              <TableCell>
+                <Switch
+                  size="sm"
+                  isSelected={action.is_enabled}
+                  onValueChange={(checked) => handleToggle(action, checked)}
+                  isDisabled={saving === action.action_type}
+                  aria-label={`Toggle ${action.name}`}
+                />
+              </TableCell>
+              <TableCell>
+                <div className="flex gap-1">
+                  <Button isIconOnly size="sm" variant="light" onPress={() => openEditor(action)} aria-label={`Edit ${action.name}`}>
+                    <Pencil className="w-3 h-3" />
+                  </Button>
+                  <Button
+                    isIconOnly
+                    size="sm"
+                    variant="light"
+                    color="danger"
+                    onPress={() => handleDelete(action)}
+                    isDisabled={saving === action.action_type}
+                    aria-label={`Delete ${action.name}`}
+                  >
+                    <Trash2 className="w-3 h-3" />
+                  </Button>
+                </div>
+              </TableCell>
+            </TableRow>
+          ))}
+        </TableBody>
+      </Table>
+
+      <Modal isOpen={editor !== null} onClose={() => setEditor(null)} size="2xl" scrollBehavior="inside">
+        <ModalContent>
+          {editor && (
+            <>
+              <ModalHeader>{editor.actionType ? `Edit ${editor.form.name}` : 'New Corporate Action'}</ModalHeader>
+              <ModalBody className="space-y-3">
+                {error && <div className="text-sm text-red-600 dark:text-red-400">{error}</div>}
+                <div className="grid grid-cols-2 gap-3">
+                  <Input
+                    label="Key"
+                    description="Lowercase, used in the activation URL"
+                    value={editor.form.action_type}
+                    onValueChange={(val) => updateForm({ action_type: val })}
+                    isDisabled={editor.actionType !== null}
+                  />
+                  <Input label="Name" value={editor.form.name} onValueChange={(val) => updateForm({ name: val })} />
+                </div>
+                <Input
+                  label="Description"
+                  value={editor.form.description}
+                  onValueChange={(val) => updateForm({ description: val })}
+                />
+                <div className="grid grid-cols-4 gap-3">
+                  <Input
+                    label="Base cost ($)"
+                    type="number"
+                    value={String(editor.form.base_cost)}
+                    onValueChange={(val) => updateForm({ base_cost: Number(val) })}
+                  />
+                  <Input
+                    label="% of market cap"
+                    type="number"
+                    value={String(editor.form.market_cap_cost_pct)}
+                    onValueChange={(val) => updateForm({ market_cap_cost_pct: Number(val) })}
+                  />
+                  <Input
+                    label="Duration (h)"
+                    type="number"
+                    value={String(editor.form.duration_hours)}
+                    onValueChange={(val) => updateForm({ duration_hours: Number(val) })}
+                  />
+                  <Input
+                    label="Cooldown (h)"
+                    type="number"
+                    value={String(editor.form.cooldown_hours)}
+                    onValueChange={(val) => updateForm({ cooldown_hours: Number(val) })}
+                  />
+                </div>
+
+                <div className="flex items-center justify-between">
+                  <p className="text-sm font-semibold">Effects</p>
+                  <Button
+                    size="sm"
+                    variant="light"
+                    startContent={<Plus className="w-3 h-3" />}
+                    onPress={() => updateForm({ effects: [...editor.form.effects, { ...EMPTY_FORM.effects[0] }] })}
+                  >
+                    Add Effect
+                  </Button>
+                </div>
+                {editor.form.effects.map((effect, index) => (
+                  <div key={index} className="rounded-lg border border-gray-200 dark:border-gray-700 p-3 space-y-2">
+                    <div className="grid grid-cols-[1fr_7rem_1fr_auto] gap-2 items-end">
+                      <Select
+                        label="Type"
+                        size="sm"
+                        selectedKeys={[effect.type]}
+                        onChange={(e) => e.target.value && updateEffect(index, { type: e.target.value as CorporateActionEffectType })}
+                      >
+                        {EFFECT_TYPES.map(t => <SelectItem key={t.key}>{t.label}</SelectItem>)}
+                      </Select>
+                      <Input
+                        label="Value (%)"
+                        size="sm"
+                        type="number"
+                        value={String(Math.round(effect.value * 1000) / 10)}
+                        onValueChange={(val) => updateEffect(index, { value: Number(val) / 100 })}
+                      />
+                      <Select
+                        label="Scope"
+                        size="sm"
+                        selectedKeys={[effect.scope]}
+                        onChange={(e) => e.target.value && updateEffect(index, { scope: e.target.value as CorporateActionScope })}
+                      >
+                        {SCOPES.map(s => <SelectItem key={s.key}>{s.label}</SelectItem>)}
+                      </Select>
+                      <Button
+                        isIconOnly
+                        size="sm"
+                        variant="light"
+                        color="danger"
+                        isDisabled={editor.form.effects.length === 1}
+                        onPress={() => updateForm({ effects: editor.form.effects.filter((_, i) => i !== index) })}
+                        aria-label="Remove effect"
+                      >
+                        <Trash2 className="w-3 h-3" />
+                      </Button>
+                    </div>
+                    <div className="flex flex-wrap gap-4">
+                      {UNIT_TYPES.map(unitType => (
+                        <Checkbox
+                          key={unitType}
+                          size="sm"
+                          isSelected={!effect.unit_types || effect.unit_types.includes(unitType)}
+                          onValueChange={(checked) => toggleEffectUnit(index, unitType, checked)}
+                        >
+                          <span className="capitalize text-sm">{unitType}</span>
+                        </Checkbox>
+                      ))}
+                    </div>
+                  </div>
+                ))}
+              </ModalBody>
+              <ModalFooter>
+                <Button variant="light" onPress={() => setEditor(null)}>Cancel</Button>
+                <Button color="primary" onPress={handleSave} isLoading={saving === 'editor'}>
+                  Save
+                </Button>
+              </ModalFooter>
+            </>
+          )}
+        </ModalContent>
+      </Modal>
+    </div>
+  );
+}
@@ -0,0 +1,232 @@
+'use client';
+
+/**
+ * CronJobsPanel - Admin panel for scheduled jobs
+ *
+ * Shows the run history recorded by the cron job runner and lets administrators:
+ * - Run any job immediately
+ * - Re-run a failed (or, forced, a succeeded) tick
+ */
+
+import { useState, useEffect, useCallback } from 'react';
+import { Play, RefreshCw, RotateCcw, Timer } from 'lucide-react';
+import {
+  Table,
+  TableHeader,
+  TableColumn,
+  TableBody,
+  TableRow,
+  TableCell,
+  Button,
+  Select,
+  SelectItem,
+  Chip,
+} from "@heroui/react";
+import { adminAPI, CronJobInfo, CronRun, CronRunStatus } from '@/lib/api';
+import { getErrorMessage } from '@/lib/utils';
+
+const STATUS_COLORS: Record<CronRunStatus, "primary" | "success" | "danger"> = {
+  running: 'primary',
+  succeeded: 'success',
+  failed: 'danger',
+};
+
+function formatTick(date: string): string {
+  return new Date(date).toLocaleString('en-US', {
+    month: 'short',
+    day: 'numeric',
+    hour: '2-digit',
+    minute: '2-digit',
+  });
+}
+
+function formatDuration(run: CronRun): string {
+  if (!run.finished_at) return '—';
+  const ms = new Date(run.finished_at).getTime() - new Date(run.started_at).getTime();
+  return ms < 1000 ? `${ms}ms` : `${(ms / 1000).toFixed(1)}s`;
+}
+
+function formatResult(run: CronRun): string {
+  if (run.error) return run.error;
+  if (!run.result) return '';
+  return Object.entries(run.result)
+    .map(([key, value]) => `${key}: ${typeof value === 'number' ? Math.round(value * 100) / 100 : String(value)}`)
+    .join(', ');
+}
+
+export default function CronJobsPanel() {
+  const [jobs, setJobs] = useState<CronJobInfo[]>([]);
+  const [runs, setRuns] = useState<CronRun[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [jobFilter, setJobFilter] = useState('');
+  const [selectedJob, setSelectedJob] = useState('');
+  const [running, setRunning] = useState<string | null>(null);
+
+  const loadHistory = useCallback(async () => {
+    try {
+      setLoading(true);
+      const data = await adminAPI.getCronHistory({ job: jobFilter || undefined, limit: 50 });
+      setJobs(data.jobs);
+      setRuns(data.runs);
+    } catch (err: unknown) {
+      console.error('Load cron history error:', err);
+    } finally {
+      setLoading(false);
+    }
+  }, [jobFilter]);
+
+  useEffect(() => {
+    loadHistory();
+  }, [loadHistory]);
+
+  const handleRunNow = async () => {
+    if (!selectedJob) return;
+    const job = jobs.find(j => j.name === selectedJob);
+    if (!confirm(`Run ${job?.label ?? selectedJob} now? This runs in addition to its schedule.`)) return;
+
+    try {
+      setRunning(selectedJob);
+      await adminAPI.triggerCronJob(selectedJob);
+    } catch (err: unknown) {
+      alert(getErrorMessage(err, 'Failed to run job'));
+    } finally {
+      setRunning(null);
+      await loadHistory();
+    }
+  };
+
+  const handleRerun = async (run: CronRun) => {
+    const force = run.status === 'succeeded';
+    const prompt = force
+      ? `This tick already succeeded. Re-running it repeats its effects (e.g. paying revenue twice). Continue?`
+      : `Re-run ${run.job} for ${formatTick(run.scheduled_for)}?`;
+    if (!confirm(prompt)) return;
+
+    try {
+      setRunning(`run-${run.id}`);
+      await adminAPI.rerunCronRun(run.id, force);
+    } catch (err: unknown) {
+      alert(getErrorMessage(err, 'Failed to re-run job'));
+    } finally {
+      setRunning(null);
+      await loadHistory();
+    }
+  };
+
+  const jobLabel = (name: string) => jobs.find(j => j.name === name)?.label ?? name;
+
+  return (
+    <div className="bg-white dark:bg-gray-800 rounded-xl shadow-sm border border-gray-100 dark:border-gray-700/50 p-6">
+      <div className="flex items-start justify-between gap-4 mb-4">
+        <div>
+          <h3 className="text-sm font-semibold text-gray-700 dark:text-gray-300 flex items-center gap-2">
+            <Timer className="w-4 h-4 text-indigo-500" />
+            Scheduled Jobs
+          </h3>
+          <p className="text-xs text-gray-500 dark:text-gray-400">
+            Each tick runs once across all instances. Missed hourly ticks are backfilled on restart.
+          </p>
+        </div>
+        <Button
+          size="sm"
+          variant="flat"
+          onClick={loadHistory}
+          isLoading={loading}
+          startContent={!loading && <RefreshCw className="w-4 h-4" />}
+        >
+          Refresh
+        </Button>
+      </div>
+
+      <div className="grid md:grid-cols-4 gap-3 mb-4">
+        <div className="md:col-span-2">
+          <Select
+            label="Job"
+            labelPlacement="outside"
+            placeholder="Select a job"
+            selectedKeys={selectedJob ? [selectedJob] : []}
+            onChange={(e) => setSelectedJob(e.target.value)}
+            classNames={{
+              trigger: "bg-white dark:bg-gray-900 border border-gray-200 dark:border-gray-700",
+            }}
+          >
+            {jobs.map(job => (
+              <SelectItem key={job.name}>{`${job.label} (${job.schedule})`}</SelectItem>
+            ))}
+          </Select>
+        </div>
+        <div className="flex items-end">
+          <Button
+            onClick={handleRunNow}
+            disabled={!selectedJob || running !== null}
+            className="w-full font-medium bg-indigo-600 text-white"
+            isLoading={running === selectedJob && selectedJob !== ''}
+            startContent={running !== selectedJob && <Play className="w-4 h-4" />}
+          >
+            Run Now
+          </Button>
+        </div>
+        <div>
+          <Select
+            label="Show"
+            labelPlacement="outside"
+            selectedKeys={[jobFilter || 'all']}
+            onChange={(e) => setJobFilter(e.target.value === 'all' ? '' : e.target.value)}
+            classNames={{
+              trigger: "bg-white dark:bg-gray-900 border border-gray-200 dark:border-gray-700",
+            }}
+          >
+            {[{ name: 'all', label: 'All jobs' }, ...jobs].map(job => (
+              <SelectItem key={job.name}>{job.label}</SelectItem>
+            ))}
+          </Select>
+        </div>
+      </div>
+
+      <Table aria-label="Cron run history" removeWrapper>
+        <TableHeader>
+          <TableColumn>JOB</TableColumn>
+          <TableColumn>TICK</TableColumn>
+          <TableColumn>TRIGGER</TableColumn>
+          <TableColumn>STATUS</TableColumn>
+          <TableColumn>DURATION</TableColumn>
+          <TableColumn>RESULT</TableColumn>
+          <TableColumn> </TableColumn>
+        </TableHeader>
+        <TableBody emptyContent={loading ? 'Loading...' : 'No runs recorded yet'}>
+          {runs.map(run => (
+            <TableRow key={run.id}>
+              <TableCell className="text-sm font-medium">{jobLabel(run.job)}</TableCell>
+              <TableCell className="text-xs text-gray-600 dark:text-gray-400">{formatTick(run.scheduled_for)}</TableCell>
+              <TableCell className="text-xs capitalize">{run.triggered_by}</TableCell>
+              <TableCell>
+                <Chip size="sm" variant="flat" color={STATUS_COLORS[run.status]}>
+                  {run.status}{run.attempt > 1 ? ` (#${run.attempt})` : ''}
+                </Chip>
+              </TableCell>
+              <TableCell className="text-xs">{formatDuration(run)}</TableCell>
+              <TableCell className={`text-xs max-w-xs truncate ${run.error ? 'text-red-600 dark:text-red-400' : 'text-gray-600 dark:text-gray-400'}`}>
+                {formatResult(run)}
+              </TableCell>
+              <TableCell>
+                {run.status !== 'running' && (
+                  <Button
+                    size="sm"
+                    variant="light"
+                    color={run.status === 'failed' ? 'danger' : 'default'}
+                    onClick={() => handleRerun(run)}
+                    isLoading={running === `run-${run.id}`}
+                    disabled={running !== null}
+                    startContent={running !== `run-${run.id}` && <RotateCcw className="w-3 h-3" />}
+                  >
+                    Re-run
+                  </Button>
+                )}
+              </TableCell>
+            </TableRow>
+          ))}
+        </TableBody>
+      </Table>
+    </div>
+  );
+}
@@ -0,0 +1,163 @@
+'use client';
+
+/**
+ * ProductionChainReportPanel - Integrity report on the production graph
+ *
+ * Allows administrators to:
+ * - Find loops and dead ends in what sectors consume and produce
+ * - Find resources no sector uses
+ * - Find units that lose money running flat out, and price floors above cost
+ *
+ * Every finding links to the sector, product or resource settings to fix it.
+ */
+
+import { useState, useEffect, useCallback, ReactNode } from 'react';
+import { Network, RefreshCw, CheckCircle2, AlertTriangle } from 'lucide-react';
+import { Button, Chip } from "@heroui/react";
+import { sectorConfigAPI, ProductionChainReport } from '@/lib/api';
+import { getErrorMessage } from '@/lib/utils';
+
+const sectorLink = (sector: string) => `#sector-config/sectors/${encodeURIComponent(sector)}`;
+
+const formatMoney = (value: number) =>
+  value.toLocaleString(undefined, { style: 'currency', currency: 'USD', maximumFractionDigits: 2 });
+
+function SettingsLink({ href, children }: { href: string; children: ReactNode }) {
+  return (
+    <a href={href} className="text-primary hover:underline">
+      {children}
+    </a>
+  );
+}
+
+function Finding({ title, count, children }: { title: string; count: number; children: ReactNode }) {
+  return (
+    <div>
+      <h4 className="text-xs font-semibold text-gray-600 dark:text-gray-400 flex items-center gap-2 mb-1">
+        {title}
+        <Chip size="sm" variant="flat" color={count > 0 ? 'warning' : 'success'}>{count}</Chip>
+      </h4>
+      {count === 0 ? (
+        <p className="text-xs text-default-400">None found</p>
+      ) : (
+        <ul className="space-y-0.5 text-xs">{children}</ul>
+      )}
+    </div>
+  );
+}
+
+export default function ProductionChainReportPanel() {
+  const [report, setReport] = useState<ProductionChainReport | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState('');
+
+  const loadReport = useCallback(async () => {
+    try {
+      setLoading(true);
+      setError('');
+      setReport(await sectorConfigAPI.getChainAnalysis());
+    } catch (err: unknown) {
+      setError(getErrorMessage(err, 'Failed to analyze production chain'));
+    } finally {
+      setLoading(false);
+    }
+  }, []);
+
+  useEffect(() => {
+    loadReport();
+  }, [loadReport]);
+
+  const issueCount = report
+    ? report.graph_errors.length + report.cycles.length + report.dead_end_products.length
+      + report.unconsumed_resources.length + report.negative_margins.length + report.min_price_above_cost.length
+    : 0;
+
+  return (
+    <div className="bg-white dark:bg-gray-800 rounded-xl shadow-sm border border-gray-100 dark:border-gray-700/50 p-6 space-y-4">
+      <div className="flex items-start justify-between gap-4">
+        <div>
+          <h3 className="text-sm font-semibold text-gray-700 dark:text-gray-300 flex items-center gap-2">
+            <Network className="w-4 h-4 text-primary" />
+            Production Chain Analysis
+          </h3>
+          <p className="text-xs text-gray-500 dark:text-gray-400">
+            Checks the production graph of the live configuration, with margins at current market prices.
+          </p>
+        </div>
+        <Button
+          size="sm"
+          variant="flat"
+          onPress={loadReport}
+          isLoading={loading}
+          startContent={loading ? undefined : <RefreshCw className="w-4 h-4" />}
+        >
+          Analyze
+        </Button>
+      </div>
+
+      {error && (
+        <div className="text-sm text-red-600 dark:text-red-400">{error}</div>
+      )}
+
+      {report && (
+        <>
+          <div className={`flex items-center gap-2 text-sm ${issueCount > 0 ? 'text-warning-600' : 'text-green-700 dark:text-green-400'}`}>
+            {issueCount > 0 ? <AlertTriangle className="w-4 h-4" /> : <CheckCircle2 className="w-4 h-4" />}
+            {issueCount > 0 ? `${issueCount} finding${issueCount === 1 ? '' : 's'}` : 'No problems found'}
+            <span className="text-xs text-default-400">
+              as of {new Date(report.analyzed_at).toLocaleString()}
+            </span>
+          </div>
+
+          <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+            <Finding title="Graph Errors" count={report.graph_errors.length}>
+              {report.graph_errors.map(message => <li key={message}>{message}</li>)}
+            </Finding>
+
+            <Finding title="Cycles" count={report.cycles.length}>
+              {report.cycles.map(cycle => (
+                <li key={cycle.join('|')}>{cycle.join(' → ')}{cycle.length > 1 ? ` → ${cycle[0]}` : ' → itself'}</li>
+              ))}
+            </Finding>
+
+            <Finding title="Products Nothing Consumes" count={report.dead_end_products.length}>
+              {report.dead_end_products.map(product => (
+                <li key={product}>
+                  <SettingsLink href="#sector-config/products">{product}</SettingsLink>
+                </li>
+              ))}
+            </Finding>
+
+            <Finding title="Resources Nothing Consumes" count={report.unconsumed_resources.length}>
+              {report.unconsumed_resources.map(resource => (
+                <li key={resource}>
+                  <SettingsLink href="#sector-config/resources">{resource}</SettingsLink>
+                </li>
+              ))}
+            </Finding>
+
+            <Finding title="Loss-Making Units" count={report.negative_margins.length}>
+              {report.negative_margins.map(unit => (
+                <li key={`${unit.sector}-${unit.unit_type}`}>
+                  <SettingsLink href={sectorLink(unit.sector)}>{unit.sector}</SettingsLink>{' '}
+                  {unit.unit_type}: {formatMoney(unit.revenue)} revenue, {formatMoney(unit.cost)} cost,{' '}
+                  <span className="text-danger">{formatMoney(unit.margin)}</span>/hour
+                </li>
+              ))}
+            </Finding>
+
+            <Finding title="Minimum Price Above Cost" count={report.min_price_above_cost.length}>
+              {report.min_price_above_cost.map(issue => (
+                <li key={issue.product}>
+                  <SettingsLink href="#sector-config/products">{issue.product}</SettingsLink>{' '}
+                  minimum {formatMoney(issue.min_price)}, costs {formatMoney(issue.unit_cost)} to make in{' '}
+                  <SettingsLink href={sectorLink(issue.producer)}>{issue.producer}</SettingsLink>
+                </li>
+              ))}
+            </Finding>
+          </div>
+        </>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,211 @@
+'use client';
+
+/**
+ * ResourceReservesPanel - Admin panel for finite state resource reserves
+ *
+ * Allows administrators to:
+ * - See how far every state's reserves have been drawn down
+ * - Seed reserves for state resource pools that have none yet
+ * - Regenerate reserves, optionally for one state or resource or to a set amount
+ *
+ * Regenerating resets extraction and discoveries; it cannot be undone.
+ */
+
+import { useState, useEffect, useCallback } from 'react';
+import { Pickaxe, Sprout, RotateCcw, CheckCircle2 } from 'lucide-react';
+import {
+  Table,
+  TableHeader,
+  TableColumn,
+  TableBody,
+  TableRow,
+  TableCell,
+  Input,
+  Button,
+  Select,
+  SelectItem,
+  Chip,
+} from "@heroui/react";
+import { adminAPI, AdminResourceReserve } from '@/lib/api';
+import { RESOURCES, US_STATES, getStateLabel } from '@/lib/constants/sectors';
+import { getErrorMessage } from '@/lib/utils';
+
+export default function ResourceReservesPanel() {
+  const [reserves, setReserves] = useState<AdminResourceReserve[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState('');
+  const [successMessage, setSuccessMessage] = useState<string | null>(null);
+  const [saving, setSaving] = useState<'seed' | 'regenerate' | null>(null);
+
+  // Regeneration filter: empty means every state / resource
+  const [stateCode, setStateCode] = useState('');
+  const [resource, setResource] = useState('');
+  const [amount, setAmount] = useState('');
+
+  const loadReserves = useCallback(async () => {
+    try {
+      setLoading(true);
+      setReserves(await adminAPI.getResourceReserves());
+    } catch (err: unknown) {
+      setError(getErrorMessage(err, 'Failed to load resource reserves'));
+    } finally {
+      setLoading(false);
+    }
+  }, []);
+
+  useEffect(() => {
+    loadReserves();
+  }, [loadReserves]);
+
+  const showSuccess = (message: string) => {
+    setSuccessMessage(message);
+    setTimeout(() => setSuccessMessage(null), 3000);
+  };
+
+  const handleSeed = async () => {
+    try {
+      setSaving('seed');
+      setError('');
+      const result = await adminAPI.seedResourceReserves();
+      await loadReserves();
+      showSuccess(result.message);
+    } catch (err: unknown) {
+      setError(getErrorMessage(err, 'Failed to seed resource reserves'));
+    } finally {
+      setSaving(null);
+    }
+  };
+
+  const handleRegenerate = async () => {
+    const scope = [stateCode && (getStateLabel(stateCode) || stateCode), resource].filter(Boolean).join(' ') || 'every';
+    if (!confirm(`Regenerate ${scope} reserve pools? Extraction and discoveries are reset.`)) return;
+    try {
+      setSaving('regenerate');
+      setError('');
+      const result = await adminAPI.regenerateResourceReserves({
+        stateCode: stateCode || undefined,
+        resource: resource || undefined,
+        amount: amount === '' ? undefined : Number(amount),
+      });
+      await loadReserves();
+      showSuccess(result.message);
+    } catch (err: unknown) {
+      setError(getErrorMessage(err, 'Failed to regenerate resource reserves'));
+    } finally {
+      setSaving(null);
+    }
+  };
+
+  const visible = reserves.filter(reserve =>
+    (!stateCode || reserve.state_code === stateCode) && (!resource || reserve.resource === resource)
+  );
+
+  return (
+    <div className="bg-white dark:bg-gray-800 rounded-xl shadow-sm border border-gray-100 dark:border-gray-700/50 p-6">
+      <div className="flex items-start justify-between gap-4 mb-4">
+        <div>
+          <h3 className="text-sm font-semibold text-gray-700 dark:text-gray-300 flex items-center gap-2">
+            <Pickaxe className="w-4 h-4 text-amber-600" />
+            Resource Reserves
+          </h3>
+          <p className="text-xs text-gray-500 dark:text-gray-400">
+            Units left to extract in each state. Yield falls once a reserve is below half its capacity.
+          </p>
+        </div>
+        <Button
+          size="sm"
+          variant="flat"
+          onPress={handleSeed}
+          isLoading={saving === 'seed'}
+          startContent={saving === 'seed' ? undefined : <Sprout className="w-4 h-4" />}
+        >
+          Seed Missing
+        </Button>
+      </div>
+
+      {successMessage && (
+        <div className="mb-4 flex items-center gap-2 text-sm text-green-700 dark:text-green-400">
+          <CheckCircle2 className="w-4 h-4" />
+          {successMessage}
+        </div>
+      )}
+      {error && (
+        <div className="mb-4 text-sm text-red-600 dark:text-red-400">{error}</div>
+      )}
+
+      <div className="grid grid-cols-[1fr_1fr_10rem_auto] gap-3 items-end mb-4">
+        <Select
+          label="State"
+          size="sm"
+          placeholder="All states"
+          selectedKeys={stateCode ? [stateCode] : []}
+          onChange={(e) => setStateCode(e.target.value)}
+        >
+          {US_STATES.map(state => <SelectItem key={state.value}>{state.label}</SelectItem>)}
+        </Select>
+        <Select
+          label="Resource"
+          size="sm"
+          placeholder="All resources"
+          selectedKeys={resource ? [resource] : []}
+          onChange={(e) => setResource(e.target.value)}
+        >
+          {RESOURCES.map(r => <SelectItem key={r}>{r}</SelectItem>)}
+        </Select>
+        <Input
+          label="Amount"
+          size="sm"
+          type="number"
+          placeholder="Original"
+          value={amount}
+          onValueChange={setAmount}
+        />
+        <Button
+          size="sm"
+          color="warning"
+          variant="flat"
+          onPress={handleRegenerate}
+          isLoading={saving === 'regenerate'}
+          startContent={saving === 'regenerate' ? undefined : <RotateCcw className="w-4 h-4" />}
+        >
+          Regenerate
+        </Button>
+      </div>
+
+      <Table aria-label="Resource reserves" removeWrapper isHeaderSticky classNames={{ base: 'max-h-96 overflow-y-auto' }}>
+        <TableHeader>
+          <TableColumn>STATE</TableColumn>
+          <TableColumn>RESOURCE</TableColumn>
+          <TableColumn>REMAINING</TableColumn>
+          <TableColumn>CAPACITY</TableColumn>
+          <TableColumn>EXTRACTED</TableColumn>
+          <TableColumn>DISCOVERED</TableColumn>
+          <TableColumn>YIELD</TableColumn>
+        </TableHeader>
+        <TableBody emptyContent={loading ? 'Loading...' : 'No reserves seeded'}>
+          {visible.map(reserve => (
+            <TableRow key={`${reserve.state_code}-${reserve.resource}`}>
+              <TableCell className="text-sm">{getStateLabel(reserve.state_code) || reserve.state_code}</TableCell>
+              <TableCell className="text-sm">{reserve.resource}</TableCell>
+              <TableCell className="text-xs font-mono">{Math.round(reserve.remaining).toLocaleString()}</TableCell>
+              <TableCell className="text-xs font-mono">{reserve.capacity.toLocaleString()}</TableCell>
+              <TableCell className="text-xs font-mono">{Math.round(reserve.extracted).toLocaleString()}</TableCell>
+              <TableCell className="text-xs font-mono">
+                {reserve.discovered > 0 ? reserve.discovered.toLocaleString() : '—'}
+              </TableCell>
+              <TableCell>
+                <Chip
+                  size="sm"
+                  variant="flat"
+                  color={reserve.yield >= 1 ? 'success' : reserve.yield > 0 ? 'warning' : 'danger'}
+                >
+                  {Math.round(reserve.yield * 100)}%
+                </Chip>
+              </TableCell>
+            </TableRow>
+          ))}
+        </TableBody>
+      </Table>
+    </div>
+  );
+}
@@ -0,0 +1,290 @@
+'use client';
+
+/**
+ * SectorConfigHistoryPanel - Revision history of the sector configuration
+ *
+ * Allows administrators to:
+ * - See every configuration revision: who made it, when, and what changed
+ * - Roll the live configuration back to a past revision
+ * - Follow and cancel changes scheduled for a future game quarter
+ */
+
+import { useState, useEffect, useCallback } from 'react';
+import { History, RotateCcw, RefreshCw, CalendarClock, CheckCircle2, X } from 'lucide-react';
+import {
+  Table,
+  TableHeader,
+  TableColumn,
+  TableBody,
+  TableRow,
+  TableCell,
+  Button,
+  Chip,
+} from "@heroui/react";
+import {
+  sectorConfigAPI,
+  SectorConfigRevisionSummary,
+  SectorConfigRelease,
+  SectorConfigChange,
+} from '@/lib/api';
+import { getGameTimeForQuarter } from '@/lib/utils/gameTime';
+import { getErrorMessage } from '@/lib/utils';
+
+const SOURCE_COLORS: Record<SectorConfigRevisionSummary['source'], 'default' | 'primary' | 'warning' | 'secondary'> = {
+  initial: 'default',
+  edit: 'primary',
+  rollback: 'warning',
+  release: 'secondary',
+};
+
+const STATUS_COLORS: Record<SectorConfigRelease['status'], 'default' | 'primary' | 'success' | 'danger'> = {
+  scheduled: 'primary',
+  released: 'success',
+  cancelled: 'default',
+  failed: 'danger',
+};
+
+const formatQuarter = (quarterIndex: number) => {
+  const { year, quarter } = getGameTimeForQuarter(quarterIndex);
+  return `Q${quarter} ${year}`;
+};
+
+const formatValue = (value: unknown) => {
+  if (value === undefined) return '—';
+  if (Array.isArray(value)) {
+    return value.map(flow => `${flow.name} ${flow.rate}`).join(', ') || 'none';
+  }
+  return String(value);
+};
+
+function ChangeList({ changes }: { changes: SectorConfigChange[] }) {
+  if (changes.length === 0) {
+    return <p className="text-xs text-default-400">No changes</p>;
+  }
+  return (
+    <ul className="space-y-0.5">
+      {changes.map(change => (
+        <li key={change.path} className="text-xs font-mono">
+          <span className="text-default-500">{change.path}</span>{' '}
+          {formatValue(change.before)} → {formatValue(change.after)}
+        </li>
+      ))}
+    </ul>
+  );
+}
+
+export default function SectorConfigHistoryPanel() {
+  const [revisions, setRevisions] = useState<SectorConfigRevisionSummary[]>([]);
+  const [releases, setReleases] = useState<SectorConfigRelease[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState('');
+  const [successMessage, setSuccessMessage] = useState<string | null>(null);
+  const [expanded, setExpanded] = useState<number | null>(null);
+  const [saving, setSaving] = useState<string | null>(null);
+
+  const loadHistory = useCallback(async () => {
+    try {
+      setLoading(true);
+      const history = await sectorConfigAPI.getRevisions();
+      setRevisions(history.revisions);
+      setReleases(history.releases);
+    } catch (err: unknown) {
+      setError(getErrorMessage(err, 'Failed to load configuration history'));
+    } finally {
+      setLoading(false);
+    }
+  }, []);
+
+  useEffect(() => {
+    loadHistory();
+  }, [loadHistory]);
+
+  const showSuccess = (message: string) => {
+    setSuccessMessage(message);
+    setTimeout(() => setSuccessMessage(null), 3000);
+  };
+
+  const handleRollback = async (revision: SectorConfigRevisionSummary) => {
+    const reason = prompt(`Roll the live configuration back to revision ${revision.id}? Reason (optional):`);
+    if (reason === null) return;
+    try {
+      setSaving(`rollback-${revision.id}`);
+      setError('');
+      const result = await sectorConfigAPI.rollback(revision.id, reason || undefined);
+      await loadHistory();
+      showSuccess(result.message);
+    } catch (err: unknown) {
+      setError(getErrorMessage(err, 'Failed to roll back configuration'));
+    } finally {
+      setSaving(null);
+    }
+  };
+
+  const handleCancelRelease = async (release: SectorConfigRelease) => {
+    if (!confirm(`Cancel the release scheduled for ${formatQuarter(release.release_quarter)}?`)) return;
+    try {
+      setSaving(`release-${release.id}`);
+      setError('');
+      await sectorConfigAPI.cancelRelease(release.id);
+      await loadHistory();
+      showSuccess('Release cancelled');
+    } catch (err: unknown) {
+      setError(getErrorMessage(err, 'Failed to cancel release'));
+    } finally {
+      setSaving(null);
+    }
+  };
+
+  const latestId = revisions[0]?.id;
+
+  return (
+    <div className="bg-white dark:bg-gray-800 rounded-xl shadow-sm border border-gray-100 dark:border-gray-700/50 p-6 space-y-6">
+      <div className="flex items-start justify-between gap-4">
+        <div>
+          <h3 className="text-sm font-semibold text-gray-700 dark:text-gray-300 flex items-center gap-2">
+            <History className="w-4 h-4 text-primary" />
+            Configuration History
+          </h3>
+          <p className="text-xs text-gray-500 dark:text-gray-400">
+            Every change to the sector configuration is kept as a revision. Rolling back writes a new revision.
+          </p>
+        </div>
+        <Button
+          size="sm"
+          variant="flat"
+          onPress={loadHistory}
+          isLoading={loading}
+          startContent={loading ? undefined : <RefreshCw className="w-4 h-4" />}
+        >
+          Refresh
+        </Button>
+      </div>
+
+      {successMessage && (
+        <div className="flex items-center gap-2 text-sm text-green-700 dark:text-green-400">
+          <CheckCircle2 className="w-4 h-4" />
+          {successMessage}
+        </div>
+      )}
+      {error && (
+        <div className="text-sm text-red-600 dark:text-red-400">{error}</div>
+      )}
+
+      <div>
+        <h4 className="text-xs font-semibold text-gray-600 dark:text-gray-400 flex items-center gap-2 mb-2">
+          <CalendarClock className="w-4 h-4" />
+          Scheduled Releases
+        </h4>
+        <Table aria-label="Scheduled configuration releases" removeWrapper>
+          <TableHeader>
+            <TableColumn>QUARTER</TableColumn>
+            <TableColumn>CHANGE</TableColumn>
+            <TableColumn>REASON</TableColumn>
+            <TableColumn>BY</TableColumn>
+            <TableColumn>STATUS</TableColumn>
+            <TableColumn>{' '}</TableColumn>
+          </TableHeader>
+          <TableBody emptyContent={loading ? 'Loading...' : 'No releases scheduled'}>
+            {releases.map(release => (
+              <TableRow key={release.id}>
+                <TableCell className="text-sm">{formatQuarter(release.release_quarter)}</TableCell>
+                <TableCell className="text-xs">
+                  {release.restore_revision_id !== null ? `Restore revision ${release.restore_revision_id}` : 'Edits'}
+                </TableCell>
+                <TableCell className="text-xs">{release.reason}</TableCell>
+                <TableCell className="text-xs">{release.author_name}</TableCell>
+                <TableCell>
+                  <Chip size="sm" variant="flat" color={STATUS_COLORS[release.status]}>
+                    {release.status}{release.revision_id !== null ? ` #${release.revision_id}` : ''}
+                  </Chip>
+                  {release.error && <p className="text-xs text-danger mt-1">{release.error}</p>}
+                </TableCell>
+                <TableCell>
+                  {release.status === 'scheduled' && (
+                    <Button
+                      size="sm"
+                      variant="light"
+                      color="danger"
+                      isIconOnly
+                      aria-label="Cancel release"
+                      onPress={() => handleCancelRelease(release)}
+                      isLoading={saving === `release-${release.id}`}
+                    >
+                      <X className="w-4 h-4" />
+                    </Button>
+                  )}
+                </TableCell>
+              </TableRow>
+            ))}
+          </TableBody>
+        </Table>
+      </div>
+
+      <div>
+        <h4 className="text-xs font-semibold text-gray-600 dark:text-gray-400 flex items-center gap-2 mb-2">
+          <History className="w-4 h-4" />
+          Revisions
+        </h4>
+        <Table aria-label="Configuration revisions" removeWrapper isHeaderSticky classNames={{ base: 'max-h-[32rem] overflow-y-auto' }}>
+          <TableHeader>
+            <TableColumn>#</TableColumn>
+            <TableColumn>WHEN</TableColumn>
+            <TableColumn>BY</TableColumn>
+            <TableColumn>SOURCE</TableColumn>
+            <TableColumn>REASON</TableColumn>
+            <TableColumn>CHANGES</TableColumn>
+            <TableColumn>{' '}</TableColumn>
+          </TableHeader>
+          <TableBody emptyContent={loading ? 'Loading...' : 'No revisions yet. The first edit records one.'}>
+            {revisions.map(revision => (
+              <TableRow key={revision.id}>
+                <TableCell className="text-xs font-mono">{revision.id}</TableCell>
+                <TableCell className="text-xs whitespace-nowrap">{new Date(revision.created_at).toLocaleString()}</TableCell>
+                <TableCell className="text-xs">{revision.author_name ?? 'System'}</TableCell>
+                <TableCell>
+                  <Chip size="sm" variant="flat" color={SOURCE_COLORS[revision.source]}>
+                    {revision.source}
+                  </Chip>
+                </TableCell>
+                <TableCell className="text-xs">{revision.reason}</TableCell>
+                <TableCell>
+                  {expanded === revision.id ? (
+                    <div className="space-y-1">
+                      <ChangeList changes={revision.changes} />
+                      <Button size="sm" variant="light" onPress={() => setExpanded(null)}>Hide</Button>
+                    </div>
+                  ) : (
+                    <Button
+                      size="sm"
+                      variant="light"
+                      isDisabled={revision.changes.length === 0}
+                      onPress={() => setExpanded(revision.id)}
+                    >
+                      {revision.changes.length} {revision.changes.length === 1 ? 'change' : 'changes'}
+                    </Button>
+                  )}
+                </TableCell>
+                <TableCell>
+                  {revision.id === latestId ? (
+                    <Chip size="sm" variant="dot" color="success">Live</Chip>
+                  ) : (
+                    <Button
+                      size="sm"
+                      variant="flat"
+                      color="warning"
+                      onPress={() => handleRollback(revision)}
+                      isLoading={saving === `rollback-${revision.id}`}
+                      startContent={saving === `rollback-${revision.id}` ? undefined : <RotateCcw className="w-4 h-4" />}
+                    >
+                      Roll Back
+                    </Button>
+                  )}
+                </TableCell>
+              </TableRow>
+            ))}
+          </TableBody>
+        </Table>
+      </div>
+    </div>
+  );
+}
@@ -10,10 +10,17 @@
  * - Unit type configurations (economics)
  * - Input consumption rates
  * - Output production rates
+ *
+ * Unsaved edits can be previewed: the simulator shows how they would move
+ * prices and corporation profits before anything is saved. They can also be
+ * scheduled to go live at the start of a future game quarter instead.
+ *
+ * Other admin panels link to a section with a URL hash: #sector-config/sectors/<name>
+ * opens that sector, #sector-config/products and #sector-config/resources their tabs.
  */
 
 import { useState, useEffect, useCallback, Key } from 'react';
-import { Save, AlertCircle, CheckCircle2, Factory, Store, Briefcase, Pickaxe, Package, Gem, Plus, Trash2, X, ChevronDown, ChevronRight } from 'lucide-react';
+import { Save, AlertCircle, CheckCircle2, Factory, Store, Briefcase, Pickaxe, Package, Gem, Plus, Trash2, X, ChevronDown, ChevronRight, FlaskConical, CalendarClock } from 'lucide-react';
 import {
   Table,
   TableHeader,
@@ -44,6 +51,7 @@ import {
 } from "@heroui/react";
 import {
   sectorConfigAPI,
+  gameAPI,
   AdminSectorConfigData,
   SectorConfig,
   SectorUnitConfig,
@@ -52,8 +60,12 @@ import {
   ProductConfig,
   ResourceConfig,
   UnitType,
+  SectorConfigDiff,
+  SectorConfigSimulation,
 } from '@/lib/api';
 import { getErrorMessage } from '@/lib/utils';
+import { calculateGameTime } from '@/lib/gameTime';
+import ConfigSimulationModal from '@/components/admin/ConfigSimulationModal';
 
 interface SectorConfigPanelProps {
   onError?: (message: string) => void;
@@ -77,6 +89,7 @@ export default function SectorConfigPanel({ onError }: SectorConfigPanelProps) {
   const [loading, setLoading] = useState(true);
   const [data, setData] = useState<AdminSectorConfigData | null>(null);
   const [activeTab, setActiveTab] = useState<string>('sectors');
+  const [expandedSectors, setExpandedSectors] = useState<Set<string>>(new Set());
   const [saving, setSaving] = useState<string | null>(null);
   const [successMessage, setSuccessMessage] = useState<string | null>(null);
 
@@ -88,6 +101,13 @@ export default function SectorConfigPanel({ onError }: SectorConfigPanelProps) {
   const [editingUnitConfig, setEditingUnitConfig] = useState<{ sector: string; unitType: UnitType; field: string; value: string } | null>(null);
   const [togglingUnit, setTogglingUnit] = useState<string | null>(null);
 
+  // Dry run of the edits in progress
+  const [simulation, setSimulation] = useState<SectorConfigSimulation | null>(null);
+  const [simulating, setSimulating] = useState(false);
+
+  // Scheduling unsaved edits for a future quarter
+  const [scheduleModal, setScheduleModal] = useState<{ year: string; quarter: string; reason: string } | null>(null);
+
   // FID-20251228-003: Modal states for add/delete operations
   const [addInputModal, setAddInputModal] = useState<{
     sectorName: string;
@@ -136,11 +156,136 @@ export default function SectorConfigPanel({ onError }: SectorConfigPanelProps) {
     loadData();
   }, [loadData]);
 
+  // Open the section a #sector-config/... link points at
+  useEffect(() => {
+    const openLinkedSection = () => {
+      const [anchor, tab, name] = window.location.hash.slice(1).split('/').map(decodeURIComponent);
+      if (anchor !== 'sector-config' || !['sectors', 'products', 'resources'].includes(tab)) return;
+      setActiveTab(tab);
+      if (tab === 'sectors' && name) setExpandedSectors(new Set([name]));
+      document.getElementById('sector-config')?.scrollIntoView({ behavior: 'smooth' });
+    };
+    openLinkedSection();
+    window.addEventListener('hashchange', openLinkedSection);
+    return () => window.removeEventListener('hashchange', openLinkedSection);
+  }, []);
+
   const showSuccess = (message: string) => {
     setSuccessMessage(message);
     setTimeout(() => setSuccessMessage(null), 3000);
   };
 
+  /**
+   * The open edits, combined into one proposed change for the simulator
+   */
+  const buildPendingDiff = (): SectorConfigDiff | null => {
+    if (!data) return null;
+    const diff: SectorConfigDiff = {};
+    const unitDiff = (sectorName: string, unitType: UnitType) => {
+      diff.sectors ??= {};
+      diff.sectors[sectorName] ??= {};
+      const units = diff.sectors[sectorName].units ??= {};
+      return units[unitType] ??= {};
+    };
+    const parse = (value: string) => {
+      const parsed = parseFloat(value);
+      return isNaN(parsed) || parsed < 0 ? null : parsed;
+    };
+
+    if (editingInput) {
+      const input = data.inputs.find(i => i.id === editingInput.id);
+      const rate = parse(editingInput.value);
+      if (input && rate !== null) {
+        unitDiff(input.sector_name, input.unit_type).inputs = data.inputs
+          .filter(i => i.sector_name === input.sector_name && i.unit_type === input.unit_type)
+          .map(i => ({ type: i.input_type, name: i.input_name, rate: i.id === input.id ? rate : i.consumption_rate }));
+      }
+    }
+
+    if (editingOutput) {
+      const output = data.outputs.find(o => o.id === editingOutput.id);
+      const rate = parse(editingOutput.value);
+      if (output && rate !== null) {
+        unitDiff(output.sector_name, output.unit_type).outputs = data.outputs
+          .filter(o => o.sector_name === output.sector_name && o.unit_type === output.unit_type)
+          .map(o => ({ type: o.output_type, name: o.output_name, rate: o.id === output.id ? rate : o.output_rate }));
+      }
+    }
+
+    if (editingUnitConfig) {
+      const value = parse(editingUnitConfig.value);
+      const fields: Record<string, 'baseRevenue' | 'baseCost' | 'laborCost'> = {
+        base_revenue: 'baseRevenue',
+        base_cost: 'baseCost',
+        labor_cost: 'laborCost',
+      };
+      const field = fields[editingUnitConfig.field];
+      if (field && value !== null) unitDiff(editingUnitConfig.sector, editingUnitConfig.unitType)[field] = value;
+    }
+
+    if (editingProduct) {
+      const value = parse(editingProduct.value);
+      const field = editingProduct.field === 'reference_value' ? 'referenceValue' : 'minPrice';
+      if (value !== null) diff.products = { [editingProduct.name]: { [field]: value } };
+    }
+
+    if (editingResource) {
+      const value = parse(editingResource.value);
+      if (value !== null) diff.resources = { [editingResource.name]: { basePrice: value } };
+    }
+
+    return Object.keys(diff).length > 0 ? diff : null;
+  };
+
+  const pendingDiff = buildPendingDiff();
+
+  const handleSimulate = async () => {
+    if (!pendingDiff) return;
+    setSimulating(true);
+    try {
+      setSimulation(await sectorConfigAPI.simulateConfig(pendingDiff));
+    } catch (err: unknown) {
+      console.error('Failed to simulate config change:', err);
+      onError?.(getErrorMessage(err, 'Failed to simulate configuration change'));
+    } finally {
+      setSimulating(false);
+    }
+  };
+
+  const handleOpenSchedule = async () => {
+    try {
+      const time = await gameAPI.getTime();
+      const { year, quarter } = calculateGameTime(time.game_start_date, time.server_time);
+      // Default to the next quarter
+      const next = quarter === 4 ? { year: year + 1, quarter: 1 } : { year, quarter: quarter + 1 };
+      setScheduleModal({ year: String(next.year), quarter: String(next.quarter), reason: '' });
+    } catch (err: unknown) {
+      onError?.(getErrorMessage(err, 'Failed to load game time'));
+    }
+  };
+
+  const handleSchedule = async () => {
+    if (!pendingDiff || !scheduleModal) return;
+    setModalSaving(true);
+    try {
+      const year = parseInt(scheduleModal.year);
+      const quarter = parseInt(scheduleModal.quarter);
+      await sectorConfigAPI.scheduleRelease({ year, quarter, reason: scheduleModal.reason, diff: pendingDiff });
+      setScheduleModal(null);
+      setEditingInput(null);
+      setEditingOutput(null);
+      setEditingUnitConfig(null);
+      setEditingProduct(null);
+      setEditingResource(null);
+      showSuccess(`Scheduled for Q${quarter} ${year}`);
+    } catch (err: unknown) {
+      console.error('Failed to schedule config change:', err);
+      onError?.(getErrorMessage(err, 'Failed to schedule configuration change'));
+    } finally {
+      setModalSaving(false);
+    }
+  };
+
   // Save handlers
   const handleSaveInput = async (input: SectorUnitInput) => {
     if (!editingInput || editingInput.id !== input.id) return;
@@ -382,7 +527,7 @@ export default function SectorConfigPanel({ onError }: SectorConfigPanelProps) {
   }
 
   return (
-    <div className="space-y-4">
+    <div id="sector-config" className="space-y-4 scroll-mt-4">
       {/* Success Message */}
       {successMessage && (
         <div className="fixed top-4 right-4 z-50 flex items-center gap-2 px-4 py-2 bg-success text-white rounded-lg shadow-lg animate-in fade-in slide-in-from-top-2">
@@ -391,6 +536,35 @@ export default function SectorConfigPanel({ onError }: SectorConfigPanelProps) {
         </div>
       )}
 
+      {/* Preview of unsaved edits */}
+      {pendingDiff && (
+        <div className="sticky top-2 z-40 flex items-center justify-between gap-3 px-4 py-2 rounded-lg border border-primary-200 bg-primary-50 dark:bg-primary-900/20 dark:border-primary-800">
+          <span className="text-sm text-primary-700 dark:text-primary-300">
+            Unsaved edits. Preview what they would do to prices and profits before saving.
+          </span>
+          <div className="flex gap-2">
+            <Button
+              size="sm"
+              color="primary"
+              variant="flat"
+              onPress={handleSimulate}
+              isLoading={simulating}
+              startContent={simulating ? undefined : <FlaskConical className="w-4 h-4" />}
+            >
+              Preview Impact
+            </Button>
+            <Button
+              size="sm"
+              variant="flat"
+              onPress={handleOpenSchedule}
+              startContent={<CalendarClock className="w-4 h-4" />}
+            >
+              Schedule
+            </Button>
+          </div>
+        </div>
+      )}
+
       <Tabs 
         aria-label="Configuration Options" 
         color="primary" 
@@ -408,7 +582,13 @@ export default function SectorConfigPanel({ onError }: SectorConfigPanelProps) {
           }
         >
           <div className="space-y-2 mt-4">
-            <Accordion variant="splitted">
+            <Accordion
+              variant="splitted"
+              selectedKeys={expandedSectors}
+              onSelectionChange={(keys) => setExpandedSectors(
+                keys === 'all' ? new Set(data.sectors.map(sector => sector.sector_name)) : new Set(Array.from(keys, String))
+              )}
+            >
               {data.sectors.map((sector) => {
                 const unitConfigs = data.unitConfigs.filter(uc => uc.sector_name === sector.sector_name);
                 const sectorInputs = data.inputs.filter(i => i.sector_name === sector.sector_name);
@@ -1087,6 +1267,58 @@ export default function SectorConfigPanel({ onError }: SectorConfigPanelProps) {
           )}
         </ModalContent>
       </Modal>
+
+      {/* Schedule Edits Modal */}
+      <Modal isOpen={scheduleModal !== null} onClose={() => setScheduleModal(null)}>
+        <ModalContent>
+          {(onClose) => (
+            <>
+              <ModalHeader>Schedule Edits</ModalHeader>
+              <ModalBody>
+                <p className="text-sm text-default-500">
+                  The open edits go live at the start of the chosen game quarter, applied to the configuration live then.
+                </p>
+                <div className="grid grid-cols-2 gap-3">
+                  <Input
+                    label="Year"
+                    type="number"
+                    value={scheduleModal?.year ?? ''}
+                    onValueChange={(year) => setScheduleModal(prev => prev && { ...prev, year })}
+                  />
+                  <Select
+                    label="Quarter"
+                    selectedKeys={scheduleModal ? [scheduleModal.quarter] : []}
+                    onChange={(e) => setScheduleModal(prev => prev && { ...prev, quarter: e.target.value })}
+                  >
+                    {['1', '2', '3', '4'].map(q => <SelectItem key={q}>{`Q${q}`}</SelectItem>)}
+                  </Select>
+                </div>
+                <Input
+                  label="Reason"
+                  placeholder="Why this change is being made"
+                  value={scheduleModal?.reason ?? ''}
+                  onValueChange={(reason) => setScheduleModal(prev => prev && { ...prev, reason })}
+                />
+              </ModalBody>
+              <ModalFooter>
+                <Button variant="light" onPress={onClose}>
+                  Cancel
+                </Button>
+                <Button
+                  color="primary"
+                  onPress={handleSchedule}
+                  isLoading={modalSaving}
+                  isDisabled={!scheduleModal?.reason.trim() || !scheduleModal?.quarter}
+                >
+                  Schedule
+                </Button>
+              </ModalFooter>
+            </>
+          )}
+        </ModalContent>
+      </Modal>
+
+      <ConfigSimulationModal simulation={simulation} onClose={() => setSimulation(null)} />
     </div>
   );
 }
@@ -0,0 +1,185 @@
+'use client';
+
+/**
+ * SectorConfigTransferPanel - Bulk export and import of the sector configuration
+ *
+ * Allows administrators to:
+ * - Download the complete configuration as JSON or as CSV for spreadsheets
+ * - Upload an edited file to replace the configuration in one step
+ *
+ * An import is checked against the production graph and applied all at once,
+ * or not at all; every problem found is listed.
+ */
+
+import { useRef, useState } from 'react';
+import { ArrowLeftRight, Download, Upload, CheckCircle2, AlertCircle } from 'lucide-react';
+import { Button, Input } from "@heroui/react";
+import { sectorConfigAPI } from '@/lib/api';
+import { getErrorMessage } from '@/lib/utils';
+
+// Problems the import route listed, as readable lines
+const getErrorDetails = (err: unknown): string[] => {
+  const details = (err as { response?: { data?: { details?: unknown } } }).response?.data?.details;
+  if (!Array.isArray(details)) return [];
+  return details.map((detail: unknown) => {
+    if (typeof detail === 'string') return detail;
+    const issue = detail as { path?: Array<string | number>; message?: string };
+    return issue.path?.length ? `${issue.path.join('.')}: ${issue.message}` : String(issue.message);
+  });
+};
+
+const download = (content: string, filename: string, type: string) => {
+  const url = URL.createObjectURL(new Blob([content], { type }));
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = filename;
+  link.click();
+  URL.revokeObjectURL(url);
+};
+
+export default function SectorConfigTransferPanel() {
+  const fileInput = useRef<HTMLInputElement>(null);
+  const [file, setFile] = useState<File | null>(null);
+  const [reason, setReason] = useState('');
+  const [saving, setSaving] = useState<'json' | 'csv' | 'import' | null>(null);
+  const [successMessage, setSuccessMessage] = useState<string | null>(null);
+  const [error, setError] = useState('');
+  const [errorDetails, setErrorDetails] = useState<string[]>([]);
+
+  const showError = (err: unknown, fallback: string) => {
+    setError(getErrorMessage(err, fallback));
+    setErrorDetails(getErrorDetails(err));
+  };
+
+  const handleExport = async (format: 'json' | 'csv') => {
+    try {
+      setSaving(format);
+      setError('');
+      const content = await sectorConfigAPI.exportConfig(format);
+      const stamp = new Date().toISOString().slice(0, 10);
+      download(content, `sector-config-${stamp}.${format}`, format === 'csv' ? 'text/csv' : 'application/json');
+    } catch (err: unknown) {
+      showError(err, 'Failed to export configuration');
+    } finally {
+      setSaving(null);
+    }
+  };
+
+  const handleImport = async () => {
+    if (!file) return;
+    if (!confirm(`Replace the live sector configuration with ${file.name}?`)) return;
+    try {
+      setSaving('import');
+      setError('');
+      setErrorDetails([]);
+      const text = await file.text();
+      const isCsv = file.name.toLowerCase().endsWith('.csv');
+      let config: unknown = null;
+      if (!isCsv) {
+        try {
+          config = JSON.parse(text);
+        } catch {
+          setError(`${file.name} is not valid JSON`);
+          return;
+        }
+      }
+      const result = await sectorConfigAPI.importConfig({
+        ...(isCsv ? { format: 'csv' as const, csv: text } : { format: 'json' as const, config }),
+        reason: reason.trim() || undefined,
+      });
+      setFile(null);
+      setReason('');
+      if (fileInput.current) fileInput.current.value = '';
+      setSuccessMessage(result.message);
+      setTimeout(() => setSuccessMessage(null), 3000);
+    } catch (err: unknown) {
+      showError(err, 'Failed to import configuration');
+    } finally {
+      setSaving(null);
+    }
+  };
+
+  return (
+    <div className="bg-white dark:bg-gray-800 rounded-xl shadow-sm border border-gray-100 dark:border-gray-700/50 p-6">
+      <div className="flex items-start justify-between gap-4 mb-4">
+        <div>
+          <h3 className="text-sm font-semibold text-gray-700 dark:text-gray-300 flex items-center gap-2">
+            <ArrowLeftRight className="w-4 h-4 text-primary" />
+            Import / Export
+          </h3>
+          <p className="text-xs text-gray-500 dark:text-gray-400">
+            Download the whole configuration to balance offline, then upload it to apply every change at once.
+          </p>
+        </div>
+        <div className="flex gap-2">
+          <Button
+            size="sm"
+            variant="flat"
+            onPress={() => handleExport('json')}
+            isLoading={saving === 'json'}
+            startContent={saving === 'json' ? undefined : <Download className="w-4 h-4" />}
+          >
+            JSON
+          </Button>
+          <Button
+            size="sm"
+            variant="flat"
+            onPress={() => handleExport('csv')}
+            isLoading={saving === 'csv'}
+            startContent={saving === 'csv' ? undefined : <Download className="w-4 h-4" />}
+          >
+            CSV
+          </Button>
+        </div>
+      </div>
+
+      {successMessage && (
+        <div className="mb-4 flex items-center gap-2 text-sm text-green-700 dark:text-green-400">
+          <CheckCircle2 className="w-4 h-4" />
+          {successMessage}
+        </div>
+      )}
+      {error && (
+        <div className="mb-4 text-sm text-red-600 dark:text-red-400">
+          <p className="flex items-center gap-2">
+            <AlertCircle className="w-4 h-4" />
+            {error}
+          </p>
+          {errorDetails.length > 0 && (
+            <ul className="mt-1 ml-6 list-disc text-xs max-h-40 overflow-y-auto">
+              {errorDetails.map(detail => <li key={detail}>{detail}</li>)}
+            </ul>
+          )}
+        </div>
+      )}
+
+      <div className="grid grid-cols-[auto_1fr_auto] gap-3 items-center">
+        <input
+          ref={fileInput}
+          type="file"
+          accept=".json,.csv"
+          className="text-xs text-default-500 file:mr-2 file:rounded-md file:border-0 file:bg-default-100 file:px-3 file:py-1.5 file:text-xs"
+          onChange={(e) => setFile(e.target.files?.[0] ?? null)}
+        />
+        <Input
+          size="sm"
+          label="Reason"
+          placeholder="Imported configuration"
+          value={reason}
+          onValueChange={setReason}
+        />
+        <Button
+          size="sm"
+          color="warning"
+          variant="flat"
+          onPress={handleImport}
+          isDisabled={!file}
+          isLoading={saving === 'import'}
+          startContent={saving === 'import' ? undefined : <Upload className="w-4 h-4" />}
+        >
+          Import
+        </Button>
+      </div>
+    </div>
+  );
+}
@@ -1,18 +1,26 @@
 'use client';
 
-import { useEffect, useState, useMemo } from 'react';
+import { useEffect, useState, useMemo, useCallback } from 'react';
 import { useRouter } from 'next/navigation';
 import Link from 'next/link';
 import AppNavigation from '@/components/AppNavigation';
-import { corporationAPI, CorporationResponse, authAPI, sharesAPI, marketsAPI, CorporationFinances, MarketEntryWithUnits, BalanceSheet, CommodityPrice, ProductMarketData, MarketMetadataResponse, MarketUnitFlow } from '@/lib/api';
+import { corporationAPI, CorporationResponse, authAPI, sharesAPI, marketsAPI, CorporationFinances, MarketEntryWithUnits, BalanceSheet, CommodityPrice, ProductMarketData, MarketMetadataResponse, MarketUnitFlow, CorporationFinancesResponse, researchAPI, CorporationResearchResponse, CandleResolution } from '@/lib/api';
 import { StockValuation } from '@/lib/utils/valuation';
 import { formatCash, getErrorMessage } from '@/lib/utils';
 import { Input, Button } from "@heroui/react";
 import { Building2, Edit, Trash2, TrendingUp, DollarSign, Users, User, Calendar, ArrowUp, ArrowDown, TrendingDown, Plus, BarChart3, MapPin, Store, Factory, Briefcase, Layers, Droplets, Package, Cpu, Zap, Wheat, Trees, FlaskConical, Box, Lightbulb, Pill, Wrench, Truck, Shield, UtensilsCrossed, Info, ArrowRight, Pickaxe, HelpCircle } from 'lucide-react';
 import BoardTab from '@/components/BoardTab';
 import StockPriceChart from '@/components/StockPriceChart';
+import CandlestickChart from '@/components/CandlestickChart';
+import CorporationBenchmarkPanel from '@/components/CorporationBenchmarkPanel';
+import OrderBookPanel from '@/components/OrderBookPanel';
+import ShortSellingPanel from '@/components/ShortSellingPanel';
+import TenderOffersPanel from '@/components/TenderOffersPanel';
+import SupplyContractsPanel from '@/components/SupplyContractsPanel';
+import ResearchPanel from '@/components/ResearchPanel';
 import SectorCard from '@/components/SectorCard';
 import { computeFinancialStatements } from '@/lib/finance';
+import { getResearchModifiers } from '@/lib/constants/research';
 import { UnifiedSectorConfig } from '@/lib/models/SectorConfig';
 
 // Sector to Resource mapping (must match backend)
@@ -229,6 +237,7 @@ interface CorporationDashboardProps {
   initialProductPrices: Record<string, ProductMarketData>;
   initialMarketMetadata: MarketMetadataResponse | null;
   initialStockValuation: StockValuation | null;
+  initialInventory?: CorporationFinancesResponse['inventory'] | null;
   sectorConfig: UnifiedSectorConfig | null;
 }
 
@@ -241,6 +250,7 @@ export default function CorporationDashboard({
   initialProductPrices,
   initialMarketMetadata,
   initialStockValuation,
+  initialInventory = null,
   sectorConfig,
 }: CorporationDashboardProps) {
   const router = useRouter();
@@ -248,6 +258,7 @@ export default function CorporationDashboard({
   const [corporation, setCorporation] = useState<CorporationResponse>(initialCorporation);
   const [corpFinances, setCorpFinances] = useState<CorporationFinances | null>(initialFinances);
   const [balanceSheet, setBalanceSheet] = useState<BalanceSheet | null>(initialBalanceSheet);
+  const [inventory, setInventory] = useState<CorporationFinancesResponse['inventory'] | null>(initialInventory);
   const [marketEntries, setMarketEntries] = useState<MarketEntryWithUnits[]>(initialMarketEntries);
   const [commodityPrices, setCommodityPrices] = useState<Record<string, CommodityPrice>>(initialCommodityPrices);
   const [productPrices, setProductPrices] = useState<Record<string, ProductMarketData>>(initialProductPrices);
@@ -263,6 +274,24 @@ export default function CorporationDashboard({
   const [activeTab, setActiveTab] = useState<'overview' | 'sectors' | 'finance' | 'board'>('overview');
   const [abandoningUnit, setAbandoningUnit] = useState<string | null>(null);
   const [building, setBuilding] = useState<string | null>(null);
+  const [research, setResearch] = useState<CorporationResearchResponse | null>(null);
+
+  const loadResearch = useCallback(async () => {
+    try {
+      setResearch(await researchAPI.get(corporation.id));
+    } catch (err: unknown) {
+      console.error('Failed to load research:', err);
+    }
+  }, [corporation.id]);
+
+  useEffect(() => {
+    loadResearch();
+  }, [loadResearch]);
+
+  const fetchCandles = useCallback(
+    (resolution: CandleResolution) => sharesAPI.getCandles(corporation.id, resolution),
+    [corporation.id]
+  );
 
   // Fetch user data on mount
   useEffect(() => {
@@ -432,6 +461,8 @@ export default function CorporationDashboard({
       return {
         revenue: corpFinances.display_revenue,
         variableCosts: corpFinances.display_costs,
+        costOfGoodsSold: inventory?.activity.cost_of_goods_sold ?? 0,
+        inventoryChange: inventory?.activity.inventory_change ?? 0,
         fixedCosts: corpFinances.ceo_salary_96h,
         operatingIncome: corpFinances.operating_income_96h,
         dividends: corpFinances.dividend_payout_96h,
@@ -460,14 +491,22 @@ export default function CorporationDashboard({
     return computeFinancialStatements({
       entries,
       sectorUnitFlows: flows,
+      research: research ? getResearchModifiers(research.completed) : undefined,
       commodityPrices: comPrices,
       productPrices: prodPrices,
       unitEconomics: UNIT_ECONOMICS,
       periodHours: DISPLAY_PERIOD_HOURS,
       fixedCosts: { ceoSalary: corporation?.ceo_salary || 0 },
       dividendPercentage: corporation?.dividend_percentage || 0,
+      inventory: inventory?.activity.cycles
+        ? {
+            openingValue: inventory.activity.opening_value,
+            closingValue: inventory.activity.closing_value,
+            purchases: inventory.activity.purchases,
+          }
+        : undefined,
     });
-  }, [corpFinances, marketEntries, initialMarketMetadata, commodityPrices, productPrices, corporation]);
+  }, [corpFinances, marketEntries, initialMarketMetadata, commodityPrices, productPrices, corporation, inventory, research]);
 
   const productReferenceValues = useMemo(() => {
     if (!sectorConfig) return undefined;
@@ -657,6 +696,19 @@ export default function CorporationDashboard({
     }
   };
 
+  const handleOrderBookTrade = async () => {
+    if (!corporation) return;
+    try {
+      const updatedCorp = await corporationAPI.getById(corporation.id);
+      setCorporation(updatedCorp);
+
+      const userShareholder = updatedCorp.shareholders?.find(sh => sh.user_id === viewerUserId);
+      setUserOwnedShares(userShareholder?.shares || 0);
+    } catch (err: unknown) {
+      console.error('Failed to refresh corporation:', getErrorMessage(err));
+    }
+  };
+
   const handleIssueShares = async () => {
     if (!corporation || !issueShares) return;
     
@@ -711,6 +763,7 @@ export default function CorporationDashboard({
       if (financesData) {
         setCorpFinances(financesData.finances);
         setBalanceSheet(financesData.balance_sheet || null);
+        setInventory(financesData.inventory || null);
         setMarketEntries(financesData.market_entries || []);
       }
     } catch (err: unknown) {
@@ -734,6 +787,7 @@ export default function CorporationDashboard({
       if (financesData) {
         setCorpFinances(financesData.finances);
         setBalanceSheet(financesData.balance_sheet || null);
+        setInventory(financesData.inventory || null);
         setMarketEntries(financesData.market_entries || []);
       }
     } catch (err: unknown) {
@@ -803,6 +857,15 @@ export default function CorporationDashboard({
             </div>
           </div>
 
+          {corporation.retired_at && corporation.merged_into_id && (
+            <div className="mb-8 rounded-xl border border-amber-200 dark:border-amber-800 bg-amber-50 dark:bg-amber-900/20 p-4 text-amber-800 dark:text-amber-300">
+              {corporation.name} was merged on {formatDate(corporation.retired_at)} and no longer operates.{' '}
+              <Link href={`/corporation/${corporation.merged_into_id}`} className="font-semibold underline">
+                View the surviving corporation
+              </Link>
+            </div>
+          )}
+
           {/* Key Metrics Grid */}
           <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-4 gap-4 mb-8">
             <div className="bg-white dark:bg-gray-800/50 rounded-xl shadow-sm border border-gray-100 dark:border-gray-700/50 p-4">
@@ -889,6 +952,10 @@ export default function CorporationDashboard({
                       </div>
                     </div>
 
+                    <CandlestickChart fetchCandles={fetchCandles} title="Share Price Candles" volumeLabel="Shares" />
+
+                    <CorporationBenchmarkPanel corporationId={corporation.id} />
+
                     <div className="grid grid-cols-1 md:grid-cols-2 gap-6">
                        {/* Trading Panel */}
                        <div className="bg-white dark:bg-gray-800/50 rounded-xl shadow-sm border border-gray-100 dark:border-gray-700/50 p-6">
@@ -1011,6 +1078,28 @@ export default function CorporationDashboard({
                          </div>
                        )}
                     </div>
+
+                    <OrderBookPanel
+                      corporationId={corporation.id}
+                      isLoggedIn={viewerUserId !== null}
+                      onTrade={handleOrderBookTrade}
+                    />
+
+                    <ShortSellingPanel
+                      corporationId={corporation.id}
+                      isLoggedIn={viewerUserId !== null}
+                      onTrade={handleOrderBookTrade}
+                    />
+
+                    <TenderOffersPanel
+                      corporationId={corporation.id}
+                      corporationName={corporation.name}
+                      sharePrice={corporation.share_price}
+                      viewerUserId={viewerUserId}
+                      viewerShares={corporation.shareholders?.find(sh => sh.user_id === viewerUserId)?.shares ?? 0}
+                      isCeo={viewerUserId !== null && (isCeo || viewerUserId === corporation.elected_ceo_id)}
+                      onChange={handleOrderBookTrade}
+                    />
                   </>
                 )}
 
@@ -1094,6 +1183,13 @@ export default function CorporationDashboard({
                         />
                       ))
                     )}
+
+                    <ResearchPanel
+                      corporationId={corporation.id}
+                      isCeo={viewerUserId !== null && (isCeo || viewerUserId === corporation.elected_ceo_id)}
+                      research={research}
+                      onChange={loadResearch}
+                    />
                   </div>
                 )}
 
@@ -1117,6 +1213,20 @@ export default function CorporationDashboard({
                             <span className="text-gray-600 dark:text-gray-400">Variable Costs</span>
                             <span className="font-medium text-red-600 dark:text-red-400">-{formatCash(statements.variableCosts)}</span>
                           </div>
+                          {!!inventory?.activity.cycles && (
+                            <>
+                              <div className="flex justify-between items-center py-1 pl-4 text-sm">
+                                <span className="text-gray-500 dark:text-gray-400">Cost of Goods Sold (from stock)</span>
+                                <span className="text-gray-700 dark:text-gray-300">-{formatCash(statements.costOfGoodsSold)}</span>
+                              </div>
+                              <div className="flex justify-between items-center py-1 pl-4 text-sm border-b border-gray-100 dark:border-gray-800">
+                                <span className="text-gray-500 dark:text-gray-400">Inventory Change</span>
+                                <span className={statements.inventoryChange >= 0 ? 'text-green-600 dark:text-green-400' : 'text-red-600 dark:text-red-400'}>
+                                  {statements.inventoryChange >= 0 ? '+' : ''}{formatCash(statements.inventoryChange)}
+                                </span>
+                              </div>
+                            </>
+                          )}
                           <div className="flex justify-between items-center py-2 border-b border-gray-100 dark:border-gray-800">
                             <span className="text-gray-600 dark:text-gray-400">Fixed Costs (CEO Salary)</span>
                             <span className="font-medium text-red-600 dark:text-red-400">-{formatCash(statements.fixedCosts)}</span>
@@ -1161,6 +1271,12 @@ export default function CorporationDashboard({
                                 <span className="text-gray-600 dark:text-gray-400">Business Units</span>
                                 <span className="font-medium text-gray-900 dark:text-white">{formatCash(balanceSheet.businessUnitAssets)}</span>
                               </div>
+                              {!!balanceSheet.inventoryValue && (
+                                <div className="flex justify-between items-center py-2 border-b border-gray-100 dark:border-gray-800">
+                                  <span className="text-gray-600 dark:text-gray-400">Inventory</span>
+                                  <span className="font-medium text-gray-900 dark:text-white">{formatCash(balanceSheet.inventoryValue)}</span>
+                                </div>
+                              )}
                               <div className="flex justify-between items-center py-2 border-t-2 border-gray-200 dark:border-gray-700 mt-2">
                                 <span className="font-bold text-gray-900 dark:text-white">Total Assets</span>
                                 <span className="font-bold text-gray-900 dark:text-white">{formatCash(balanceSheet.totalAssets)}</span>
@@ -1171,6 +1287,14 @@ export default function CorporationDashboard({
                           <div>
                             <h4 className="text-sm font-semibold text-gray-500 dark:text-gray-400 uppercase tracking-wider mb-4">Liabilities & Equity</h4>
                             <div className="space-y-3">
+                              <div className="flex justify-between items-center py-2 border-b border-gray-100 dark:border-gray-800">
+                                <span className="text-gray-600 dark:text-gray-400">Loans Payable</span>
+                                <span className="font-medium text-red-600 dark:text-red-400">{formatCash(balanceSheet.loansPayable ?? 0)}</span>
+                              </div>
+                              <div className="flex justify-between items-center py-2 border-b border-gray-100 dark:border-gray-800">
+                                <span className="text-gray-600 dark:text-gray-400">Salary Arrears</span>
+                                <span className="font-medium text-red-600 dark:text-red-400">{formatCash(balanceSheet.salaryArrears ?? 0)}</span>
+                              </div>
                               <div className="flex justify-between items-center py-2 border-b border-gray-100 dark:border-gray-800">
                                 <span className="text-gray-600 dark:text-gray-400">Total Liabilities</span>
                                 <span className="font-medium text-gray-900 dark:text-white">{formatCash(balanceSheet.totalLiabilities)}</span>
@@ -1188,6 +1312,59 @@ export default function CorporationDashboard({
                         </div>
                       </div>
                     )}
+
+                    {inventory && inventory.items.length > 0 && (
+                      <div className="bg-white dark:bg-gray-800/50 rounded-xl shadow-sm border border-gray-100 dark:border-gray-700/50 overflow-hidden">
+                        <div className="p-4 border-b border-gray-100 dark:border-gray-700/50 flex items-center justify-between">
+                          <h3 className="font-semibold text-gray-900 dark:text-white flex items-center">
+                            <Package className="w-5 h-5 mr-2 text-corporate-blue" />
+                            Inventory
+                          </h3>
+                          <div className="flex flex-col items-end gap-0.5">
+                            {inventory.activity.idle_unit_hours >= 0.01 && (
+                              <span className="text-xs text-amber-600 dark:text-amber-400">
+                                {inventory.activity.idle_unit_hours.toFixed(1)} unit-hours idle for lack of inputs (96h)
+                              </span>
+                            )}
+                            {(inventory.activity.logistics_cost ?? 0) >= 0.01 && (
+                              <span className="text-xs text-gray-500 dark:text-gray-400">
+                                {formatCurrency(inventory.activity.logistics_cost)} paid in shipping on inputs (96h)
+                              </span>
+                            )}
+                          </div>
+                        </div>
+                        <div className="overflow-x-auto">
+                          <table className="w-full text-sm">
+                            <thead className="bg-gray-50 dark:bg-gray-800/80 text-gray-500 dark:text-gray-400">
+                              <tr>
+                                <th className="px-4 py-2 text-left font-medium">State</th>
+                                <th className="px-4 py-2 text-left font-medium">Item</th>
+                                <th className="px-4 py-2 text-right font-medium">Quantity</th>
+                                <th className="px-4 py-2 text-right font-medium">Unit Cost</th>
+                                <th className="px-4 py-2 text-right font-medium">Value</th>
+                              </tr>
+                            </thead>
+                            <tbody className="divide-y divide-gray-100 dark:divide-gray-800">
+                              {inventory.items.map((row) => (
+                                <tr key={row.id}>
+                                  <td className="px-4 py-2 text-gray-700 dark:text-gray-300">{US_STATES[row.state_code] || row.state_code}</td>
+                                  <td className="px-4 py-2 text-gray-900 dark:text-white">{row.item}</td>
+                                  <td className="px-4 py-2 text-right text-gray-700 dark:text-gray-300">{row.quantity.toLocaleString(undefined, { maximumFractionDigits: 2 })}</td>
+                                  <td className="px-4 py-2 text-right text-gray-700 dark:text-gray-300">{formatCash(row.quantity > 0 ? row.value / row.quantity : 0)}</td>
+                                  <td className="px-4 py-2 text-right font-medium text-gray-900 dark:text-white">{formatCash(row.value)}</td>
+                                </tr>
+                              ))}
+                            </tbody>
+                          </table>
+                        </div>
+                      </div>
+                    )}
+
+                    <SupplyContractsPanel
+                      corporationId={corporation.id}
+                      isCeo={viewerUserId !== null && (isCeo || viewerUserId === corporation.elected_ceo_id)}
+                      stateCodes={[...new Set(marketEntries.map(entry => entry.state_code))]}
+                    />
                   </div>
                 )}
 
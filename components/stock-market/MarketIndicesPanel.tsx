@@ -0,0 +1,111 @@
+"use client";
+
+import { useEffect, useMemo, useState } from 'react';
+import { marketsAPI, MarketIndexHistoryResponse, MarketIndexKey, MarketIndexSummaryResponse } from '@/lib/api';
+import { MARKET_INDEX_CONFIG } from '@/lib/constants/marketIndices';
+import { getErrorMessage } from '@/lib/utils';
+import { LineChart, Line, XAxis, YAxis, CartesianGrid, Tooltip, ResponsiveContainer } from 'recharts';
+import { Card, CardBody } from "@heroui/react";
+import { Gauge } from 'lucide-react';
+
+interface MarketIndicesPanelProps {
+  indices: MarketIndexSummaryResponse[];
+}
+
+export default function MarketIndicesPanel({ indices }: MarketIndicesPanelProps) {
+  const [selectedKey, setSelectedKey] = useState<MarketIndexKey>(indices[0]?.index_key ?? 'market');
+  const [history, setHistory] = useState<MarketIndexHistoryResponse[]>([]);
+  const [loading, setLoading] = useState(true);
+
+  useEffect(() => {
+    setLoading(true);
+    marketsAPI.getIndexHistory(selectedKey, MARKET_INDEX_CONFIG.DEFAULT_HISTORY_HOURS)
+      .then(setHistory)
+      .catch((err: unknown) => {
+        console.warn('Failed to fetch index history:', getErrorMessage(err));
+        setHistory([]);
+      })
+      .finally(() => setLoading(false));
+  }, [selectedKey]);
+
+  const chartData = useMemo(() => {
+    return [...history]
+      .sort((a, b) => new Date(a.recorded_at).getTime() - new Date(b.recorded_at).getTime())
+      .map(point => ({
+        time: new Date(point.recorded_at).toLocaleDateString('en-US', { month: 'short', day: 'numeric', hour: 'numeric', hour12: true }),
+        level: point.level,
+      }));
+  }, [history]);
+
+  if (indices.length === 0) {
+    return null;
+  }
+
+  const selected = indices.find(index => index.index_key === selectedKey) ?? indices[0];
+  const isPositive = (selected.change_percent ?? 0) >= 0;
+
+  return (
+    <Card className="rounded-xl border shadow-lg border-default-200/60 bg-content1/80 backdrop-blur dark:border-default-200/60 dark:bg-content1/90">
+      <CardBody className="p-4 sm:p-6 space-y-4">
+        <div className="flex items-center gap-2">
+          <Gauge className="w-5 h-5 text-primary" />
+          <h2 className="text-lg font-bold text-foreground">Market Indices</h2>
+        </div>
+
+        <div className="flex gap-2 overflow-x-auto pb-1">
+          {indices.map((index) => (
+            <button
+              key={index.index_key}
+              onClick={() => setSelectedKey(index.index_key)}
+              className={`shrink-0 text-left rounded-lg border px-3 py-2 transition-colors ${
+                index.index_key === selected.index_key
+                  ? 'border-primary bg-primary-50 dark:bg-primary-900/20'
+                  : 'border-default-200/60 hover:bg-content2'
+              }`}
+            >
+              <p className="text-xs text-default-500">{index.name}</p>
+              <p className="font-mono-numeric text-sm">
+                <span className="font-semibold text-foreground">{index.level.toFixed(2)}</span>
+                {index.change_percent !== null && (
+                  <span className={`ml-2 ${index.change_percent >= 0 ? 'text-success' : 'text-danger'}`}>
+                    {index.change_percent >= 0 ? '+' : ''}{index.change_percent.toFixed(2)}%
+                  </span>
+                )}
+              </p>
+            </button>
+          ))}
+        </div>
+
+        <div>
+          <p className="text-xs text-default-500 mb-2">
+            {selected.name} · {selected.constituent_count} constituents · base {MARKET_INDEX_CONFIG.BASE_LEVEL}
+          </p>
+          <div className="h-48">
+            {loading ? (
+              <div className="flex items-center justify-center h-full text-sm text-default-400">Loading index history...</div>
+            ) : chartData.length < 2 ? (
+              <div className="flex items-center justify-center h-full text-sm text-default-400">Not enough history yet</div>
+            ) : (
+              <ResponsiveContainer width="100%" height="100%">
+                <LineChart data={chartData} margin={{ top: 5, right: 10, left: 0, bottom: 0 }}>
+                  <CartesianGrid strokeDasharray="3 3" stroke="rgba(156, 163, 175, 0.2)" vertical={false} />
+                  <XAxis dataKey="time" axisLine={false} tickLine={false} tick={{ fontSize: 11, fill: '#9ca3af' }} minTickGap={40} />
+                  <YAxis
+                    domain={['auto', 'auto']}
+                    axisLine={false}
+                    tickLine={false}
+                    tick={{ fontSize: 11, fill: '#9ca3af' }}
+                    tickFormatter={(value: number) => value.toFixed(0)}
+                    width={50}
+                  />
+                  <Tooltip formatter={(value) => [Number(value).toFixed(2), selected.symbol]} />
+                  <Line type="monotone" dataKey="level" stroke={isPositive ? '#10b981' : '#ef4444'} strokeWidth={2} dot={false} />
+                </LineChart>
+              </ResponsiveContainer>
+            )}
+          </div>
+        </div>
+      </CardBody>
+    </Card>
+  );
+}
@@ -0,0 +1,105 @@
+/**
+ * useEventStream Hook
+ *
+ * Subscribes a component to the server-sent event stream for as long as it is mounted:
+ * - Share trades and price ticks of the given corporations (all when omitted)
+ * - Board proposals, votes and resolutions of those corporations
+ * - The viewer's incoming messages, notifications and own trades, and cron job completions
+ *
+ * All components on a page share one connection, subscribed to the union of their
+ * corporations; each receives only the events of its own. The handlers may change on
+ * every render; the subscription only changes with the subscribed corporations.
+ */
+
+import { useEffect, useRef } from 'react';
+import { eventsAPI, StreamEvent } from '@/lib/api';
+import { eventMatches } from '@/lib/constants/events';
+
+interface UseEventStreamOptions {
+  corporationIds?: number[] | null;   // Omitted or null = every corporation
+  enabled?: boolean;
+  onReconnect?: () => void;           // Events may have been missed while disconnected
+}
+
+interface Subscriber {
+  corporationIds: number[] | null;
+  onEvent: (event: StreamEvent) => void;
+  onReconnect: () => void;
+}
+
+// Module-level connection shared by every mounted subscriber
+const subscribers = new Set<Subscriber>();
+let connection: { key: string; close: () => void } | null = null;
+
+const getViewerId = (): number | null => {
+  try {
+    const user = JSON.parse(localStorage.getItem('user') ?? 'null') as { id?: number } | null;
+    return typeof user?.id === 'number' ? user.id : null;
+  } catch {
+    return null;
+  }
+};
+
+// Open, reopen or close the shared connection to match the current subscribers
+const syncConnection = () => {
+  if (subscribers.size === 0) {
+    connection?.close();
+    connection = null;
+    return;
+  }
+
+  const all = [...subscribers].some(subscriber => subscriber.corporationIds === null);
+  const corporationIds = all
+    ? null
+    : [...new Set([...subscribers].flatMap(subscriber => subscriber.corporationIds ?? []))].sort((a, b) => a - b);
+  const key = corporationIds === null ? '*' : corporationIds.join(',');
+  if (connection?.key === key) return;
+
+  connection?.close();
+  connection = {
+    key,
+    close: eventsAPI.subscribe({
+      corporationIds,
+      onEvent: (event) => {
+        const viewerId = getViewerId();
+        subscribers.forEach(subscriber => {
+          if (eventMatches(event, { user_id: viewerId, corporation_ids: subscriber.corporationIds })) {
+            subscriber.onEvent(event);
+          }
+        });
+      },
+      onReconnect: () => subscribers.forEach(subscriber => subscriber.onReconnect()),
+    }),
+  };
+};
+
+export function useEventStream(
+  onEvent: (event: StreamEvent) => void,
+  { corporationIds = null, enabled = true, onReconnect }: UseEventStreamOptions = {}
+): void {
+  const handlers = useRef({ onEvent, onReconnect });
+  useEffect(() => {
+    handlers.current = { onEvent, onReconnect };
+  });
+
+  const corporationKey = corporationIds === null ? null : corporationIds.join(',');
+
+  useEffect(() => {
+    if (!enabled) return;
+
+    const subscriber: Subscriber = {
+      corporationIds: corporationKey === null ? null : corporationKey.split(',').filter(Boolean).map(Number),
+      onEvent: (event) => handlers.current.onEvent(event),
+      onReconnect: () => handlers.current.onReconnect?.(),
+    };
+    subscribers.add(subscriber);
+    syncConnection();
+
+    return () => {
+      subscribers.delete(subscriber);
+      syncConnection();
+    };
+  }, [corporationKey, enabled]);
+}
+
+export default useEventStream;
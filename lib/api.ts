@@ -1,4 +1,9 @@
 import axios from 'axios';
+import { EVENT_STREAM_CONFIG, parseSseMessages, type StreamEvent, type StreamEventType } from './constants/events';
+import type { NotificationCategory, NotificationDelivery, NotificationPreferences } from './constants/notifications';
+import type { PriceAlertCondition, WatchTargetType } from './constants/watchlists';
+import type { CandleResolution, CandleSummary } from './constants/candles';
+import type { MarketIndexKey } from './constants/marketIndices';
 
 // Automatically detect API URL based on current location
 // In production (behind nginx), use same origin and proxy /api to backend.
@@ -164,6 +169,8 @@ export interface CorporationResponse {
   special_dividend_last_paid_at?: string | null;
   special_dividend_last_amount?: number | null;
   focus?: CorpFocus;
+  retired_at?: string | null;
+  merged_into_id?: number | null;
   created_at: string;
   price_change_4h?: number;
   ceo?: {
@@ -271,7 +278,7 @@ export const authAPI = {
 };
 
 export interface CorporateHistoryItem {
-  type: 'founded' | 'elected_ceo' | 'lost_ceo' | 'ceo_resigned';
+  type: 'founded' | 'elected_ceo' | 'lost_ceo' | 'ceo_resigned' | 'merger';
   corporation_id: number;
   corporation_name: string;
   date: string;
@@ -361,6 +368,10 @@ export const corporationAPI = {
     const corp = await corporationAPI.getById(id);
     return corp.shareholders || [];
   },
+  getBenchmark: async (id: number): Promise<CorporationBenchmarkResponse> => {
+    const response = await api.get(`/api/corporation/${id}/benchmark`);
+    return response.data;
+  },
 };
 
 export const portfolioAPI = {
@@ -368,6 +379,10 @@ export const portfolioAPI = {
     const response = await api.get(`/api/portfolio/${userId}`);
     return response.data;
   },
+  getBenchmark: async (): Promise<PortfolioBenchmarkResponse> => {
+    const response = await api.get('/api/portfolio/benchmark');
+    return response.data;
+  },
 };
 
 export interface ShareTransactionResponse {
@@ -396,6 +411,145 @@ export interface SharePriceHistoryResponse {
   recorded_at: string;
 }
 
+export interface CandleResponse {
+  start: string;
+  label: string;
+  open: number;
+  high: number;
+  low: number;
+  close: number;
+  volume: number;
+  vwap: number | null;
+  sma_fast: number | null;
+  sma_slow: number | null;
+  volatility: number | null;
+  rsi: number | null;
+}
+
+export interface CandleSeriesResponse {
+  resolution: CandleResolution;
+  candles: CandleResponse[];
+  summary: CandleSummary;
+}
+
+export type { CandleResolution, CandleSummary };
+
+export type ShareOrderSide = 'buy' | 'sell';
+export type ShareOrderStatus = 'open' | 'filled' | 'cancelled' | 'expired';
+
+export interface ShareOrderResponse {
+  id: number;
+  corporation_id: number;
+  user_id: number;
+  side: ShareOrderSide;
+  limit_price: number;
+  shares: number;
+  remaining_shares: number;
+  reserved_cash: number;
+  status: ShareOrderStatus;
+  expires_at: string;
+  created_at: string;
+  updated_at: string;
+  closed_at: string | null;
+}
+
+export interface ShareOrderFill {
+  buy_order_id: number;
+  sell_order_id: number;
+  buyer_id: number;
+  seller_id: number;
+  shares: number;
+  price_per_share: number;
+  total_amount: number;
+}
+
+export interface OrderBookLevel {
+  price: number;
+  shares: number;
+  orders: number;
+}
+
+export interface OrderBookResponse {
+  corporation_id: number;
+  bids: OrderBookLevel[];
+  asks: OrderBookLevel[];
+  best_bid: number | null;
+  best_ask: number | null;
+  spread: number | null;
+  orders: ShareOrderResponse[];
+  page: number;
+  limit: number;
+}
+
+export interface PlaceShareOrderResponse {
+  success: boolean;
+  order: ShareOrderResponse;
+  fills: ShareOrderFill[];
+  shares_filled: number;
+  new_share_price: number | null;
+}
+
+export type ShortPositionStatus = 'open' | 'covered' | 'liquidated';
+
+export interface ShortPositionResponse {
+  id: number;
+  corporation_id: number;
+  user_id: number;
+  shares: number;
+  entry_price: number;
+  proceeds: number;
+  collateral: number;
+  borrow_fee_rate: number;
+  fees_paid: number;
+  lenders: { user_id: number; shares: number }[];
+  status: ShortPositionStatus;
+  margin_call_at: string | null;
+  last_fee_at: string | null;
+  exit_price: number | null;
+  realized_pnl: number | null;
+  unpaid_deficit?: number;
+  opened_at: string;
+  closed_at: string | null;
+  collateral_ratio?: number | null;
+  unrealized_pnl?: number | null;
+}
+
+export interface ShortPositionsResponse {
+  corporation_id: number;
+  share_price: number;
+  positions: ShortPositionResponse[];
+  maintenance_margin: number;
+}
+
+export interface OpenShortResponse {
+  success: boolean;
+  position: ShortPositionResponse;
+  price: number;
+  proceeds: number;
+  margin_posted: number;
+}
+
+export interface CoverShortResponse {
+  success: boolean;
+  position: ShortPositionResponse;
+  price: number;
+  cost: number;
+  collateral_returned: number;
+  shortfall: number;
+  unpaid_deficit: number;
+  bought_in: number;
+  realized_pnl: number;
+}
+
+export interface LendingPoolResponse {
+  corporation_id: number;
+  lendable_shares: number;
+  shares_on_loan: number;
+  lenders: number;
+  borrow_fee_rate: number;
+  mine: { lending_enabled: boolean; shares: number; shares_on_loan: number } | null;
+}
+
 export const sharesAPI = {
   buy: async (corporationId: number, shares: number): Promise<ShareTransactionResponse> => {
     const response = await api.post(`/api/shares/${corporationId}/buy`, { shares });
@@ -423,6 +577,16 @@ export const sharesAPI = {
     );
     return response.data;
   },
+  getCandles: async (
+    corporationId: number,
+    resolution: CandleResolution,
+    count?: number
+  ): Promise<CandleSeriesResponse> => {
+    const response = await api.get(`/api/shares/${corporationId}/history`, {
+      params: { resolution, count },
+    });
+    return response.data;
+  },
   getValuation: async (corporationId: number): Promise<{
     corporation_id: number;
     current_price: number;
@@ -444,6 +608,304 @@ export const sharesAPI = {
     const response = await api.get(`/api/shares/${corporationId}/valuation`);
     return response.data;
   },
+  getOrderBook: async (
+    corporationId: number,
+    params?: { mine?: boolean; status?: ShareOrderStatus; side?: ShareOrderSide; page?: number; limit?: number }
+  ): Promise<OrderBookResponse> => {
+    const query = new URLSearchParams();
+    if (params?.mine) query.append('mine', 'true');
+    if (params?.status) query.append('status', params.status);
+    if (params?.side) query.append('side', params.side);
+    if (params?.page) query.append('page', params.page.toString());
+    if (params?.limit) query.append('limit', params.limit.toString());
+    const qs = query.toString();
+    const response = await api.get(`/api/shares/${corporationId}/orders${qs ? `?${qs}` : ''}`);
+    return response.data;
+  },
+  placeOrder: async (
+    corporationId: number,
+    data: { side: ShareOrderSide; shares: number; limitPrice: number; expiresInHours?: number }
+  ): Promise<PlaceShareOrderResponse> => {
+    const response = await api.post(`/api/shares/${corporationId}/orders`, data);
+    return response.data;
+  },
+  cancelOrder: async (corporationId: number, orderId: number): Promise<{ success: boolean; order: ShareOrderResponse }> => {
+    const response = await api.delete(`/api/shares/${corporationId}/orders/${orderId}`);
+    return response.data;
+  },
+  getLendingPool: async (corporationId: number): Promise<LendingPoolResponse> => {
+    const response = await api.get(`/api/shares/${corporationId}/lending`);
+    return response.data;
+  },
+  setLending: async (
+    corporationId: number,
+    enabled: boolean
+  ): Promise<{ success: boolean; lending_enabled: boolean; shares: number; shares_on_loan: number }> => {
+    const response = await api.post(`/api/shares/${corporationId}/lending`, { enabled });
+    return response.data;
+  },
+  getShortPositions: async (corporationId: number): Promise<ShortPositionsResponse> => {
+    const response = await api.get(`/api/shares/${corporationId}/short`);
+    return response.data;
+  },
+  openShort: async (corporationId: number, shares: number): Promise<OpenShortResponse> => {
+    const response = await api.post(`/api/shares/${corporationId}/short`, { shares });
+    return response.data;
+  },
+  coverShort: async (corporationId: number, positionId: number): Promise<CoverShortResponse> => {
+    const response = await api.post(`/api/shares/${corporationId}/short/${positionId}/cover`);
+    return response.data;
+  },
+  addShortCollateral: async (
+    corporationId: number,
+    positionId: number,
+    amount: number
+  ): Promise<{ success: boolean; position: ShortPositionResponse; collateral_ratio: number }> => {
+    const response = await api.post(`/api/shares/${corporationId}/short/${positionId}/collateral`, { amount });
+    return response.data;
+  },
+};
+
+export type TenderOfferStatus = 'open' | 'succeeded' | 'failed' | 'withdrawn';
+
+export interface TenderOfferResponse {
+  id: number;
+  target_corporation_id: number;
+  bidder_type: 'user' | 'corporation';
+  bidder_user_id: number;
+  bidder_corporation_id: number | null;
+  price_per_share: number;
+  max_shares: number;
+  control_threshold_pct: number;
+  escrow: number;
+  shares_tendered: number;
+  status: TenderOfferStatus;
+  stake_pct_at_close: number | null;
+  created_at: string;
+  expires_at: string;
+  resolved_at: string | null;
+  bidder_name?: string;
+  bidder_shares_held?: number | null;
+  projected_stake_pct?: number | null;
+  my_tendered_shares?: number;
+  is_bidder?: boolean;
+}
+
+export interface TenderOffersResponse {
+  corporation_id: number;
+  share_price: number;
+  outstanding_shares: number;
+  offers: TenderOfferResponse[];
+}
+
+export const tenderOffersAPI = {
+  list: async (corporationId: number, status?: TenderOfferStatus): Promise<TenderOffersResponse> => {
+    const query = new URLSearchParams({ corporation_id: corporationId.toString() });
+    if (status) query.append('status', status);
+    const response = await api.get(`/api/tender-offers?${query.toString()}`);
+    return response.data;
+  },
+  launch: async (data: {
+    target_corporation_id: number;
+    price_per_share: number;
+    max_shares: number;
+    window_hours?: number;
+    corporation_id?: number | null;
+  }): Promise<{ success: boolean; offer: TenderOfferResponse }> => {
+    const response = await api.post('/api/tender-offers', data);
+    return response.data;
+  },
+  withdraw: async (offerId: number): Promise<{ success: boolean; offer: TenderOfferResponse; refund: number }> => {
+    const response = await api.delete(`/api/tender-offers/${offerId}`);
+    return response.data;
+  },
+  tender: async (offerId: number, shares: number): Promise<{ success: boolean; offer: TenderOfferResponse; my_tendered_shares: number }> => {
+    const response = await api.post(`/api/tender-offers/${offerId}/tender`, { shares });
+    return response.data;
+  },
+  withdrawTender: async (offerId: number): Promise<{ success: boolean; offer: TenderOfferResponse; shares_returned: number }> => {
+    const response = await api.delete(`/api/tender-offers/${offerId}/tender`);
+    return response.data;
+  },
+};
+
+export type SupplyContractStatus = 'proposed' | 'active' | 'completed' | 'rejected' | 'withdrawn' | 'expired';
+export type SupplyContractRole = 'supplier' | 'buyer';
+
+export interface SupplyContractResponse {
+  id: number;
+  supplier_corporation_id: number;
+  buyer_corporation_id: number;
+  item: string;
+  item_type: 'resource' | 'product';
+  units_per_hour: number;
+  price_per_unit: number;
+  quarters: number;
+  source_state_code: string | null;
+  destination_state_code: string | null;
+  proposed_by: SupplyContractRole;
+  proposer_user_id: number;
+  acceptor_user_id: number | null;
+  status: SupplyContractStatus;
+  proposal_expires_at: string;
+  starts_at: string | null;
+  ends_at: string | null;
+  units_delivered: number;
+  units_short: number;
+  total_paid: number;
+  total_penalties: number;
+  last_settled_at: string | null;
+  created_at: string;
+  updated_at: string;
+  // From the listing corporation's side (GET /api/contracts)
+  role?: SupplyContractRole;
+  counterparty_corporation_id?: number;
+  counterparty_name?: string;
+  awaiting_response?: boolean;
+}
+
+export interface SupplyContractActivityResponse {
+  settlements: number;
+  sales: number;
+  purchases: number;
+  penalties_paid: number;
+  penalties_received: number;
+  units_delivered: number;
+  units_received: number;
+  units_short: number;
+}
+
+export const contractsAPI = {
+  list: async (corporationId: number, status?: SupplyContractStatus): Promise<{ corporation_id: number; contracts: SupplyContractResponse[] }> => {
+    const query = new URLSearchParams({ corporation_id: corporationId.toString() });
+    if (status) query.append('status', status);
+    const response = await api.get(`/api/contracts?${query.toString()}`);
+    return response.data;
+  },
+  propose: async (data: {
+    corporationId: number;
+    counterpartyCorporationId: number;
+    role: SupplyContractRole;
+    stateCode: string;
+    item: string;
+    unitsPerHour: number;
+    pricePerUnit: number;
+    quarters: number;
+  }): Promise<{ success: boolean; contract: SupplyContractResponse }> => {
+    const response = await api.post('/api/contracts', data);
+    return response.data;
+  },
+  accept: async (contractId: number, stateCode: string): Promise<{ success: boolean; contract: SupplyContractResponse }> => {
+    const response = await api.post(`/api/contracts/${contractId}/accept`, { stateCode });
+    return response.data;
+  },
+  reject: async (contractId: number): Promise<{ success: boolean; contract: SupplyContractResponse }> => {
+    const response = await api.post(`/api/contracts/${contractId}/reject`);
+    return response.data;
+  },
+  withdraw: async (contractId: number): Promise<{ success: boolean; contract: SupplyContractResponse }> => {
+    const response = await api.delete(`/api/contracts/${contractId}`);
+    return response.data;
+  },
+};
+
+export type LoanStatus = 'pending' | 'active' | 'paid' | 'defaulted' | 'rejected';
+
+export interface LoanResponse {
+  id: number;
+  corporation_id: number;
+  requested_by: number;
+  principal: number;
+  outstanding_principal: number;
+  interest_rate: number;
+  term_months: number;
+  term_hours: number;
+  hourly_payment: number;
+  purpose: string;
+  collateral: string | null;
+  status: LoanStatus;
+  total_interest_paid: number;
+  total_principal_paid: number;
+  missed_payments: number;
+  last_payment_at: string | null;
+  created_at: string;
+  closed_at: string | null;
+}
+
+export interface LoansListResponse {
+  loans: LoanResponse[];
+  total: number;
+  page: number;
+  limit: number;
+  outstanding_principal: number;
+}
+
+export const loansAPI = {
+  list: async (corporationId: number, status?: LoanStatus): Promise<LoansListResponse> => {
+    const query = status ? `?status=${status}` : '';
+    const response = await api.get(`/api/corporation/${corporationId}/loans${query}`);
+    return response.data;
+  },
+  request: async (corporationId: number, data: {
+    amount: number;
+    termMonths: number;
+    interestRate: number;
+    purpose: string;
+    collateral?: string;
+  }): Promise<{ loan: LoanResponse; quoted_rate: number }> => {
+    const response = await api.post(`/api/corporation/${corporationId}/loans`, data);
+    return response.data;
+  },
+  repay: async (corporationId: number, loanId: number, amount: number, isFullPayoff: boolean = false): Promise<{
+    success: boolean;
+    amount_paid: number;
+    loan: LoanResponse;
+  }> => {
+    const response = await api.post(`/api/corporation/${corporationId}/loans/repay`, { loanId, amount, isFullPayoff });
+    return response.data;
+  },
+};
+
+export type ResearchStatus = 'completed' | 'in_progress' | 'available' | 'locked';
+
+export interface ResearchEffect {
+  type: 'output_increase' | 'labor_reduction' | 'input_reduction' | 'product_unlock';
+  value: number;
+  unit_types: MarketUnitType[] | null;
+  product?: string;
+}
+
+export interface ResearchProjectResponse {
+  key: string;
+  name: string;
+  description: string;
+  cost: number;
+  action_cost: number;
+  duration_hours: number;
+  requires: string[];
+  effects: ResearchEffect[];
+  status: ResearchStatus;
+  completes_at: string | null;
+}
+
+export interface CorporationResearchResponse {
+  sectors: Array<{ sector_type: string; projects: ResearchProjectResponse[] }>;
+  completed: Record<string, string[]>;  // Completed project keys per sector
+  max_active_projects: number;
+}
+
+export const researchAPI = {
+  get: async (corporationId: number): Promise<CorporationResearchResponse> => {
+    const response = await api.get(`/api/corporation/${corporationId}/research`);
+    return response.data;
+  },
+  start: async (corporationId: number, sector: string, projectKey: string): Promise<{
+    success: boolean;
+    research: { id: number; sector_type: string; project_key: string; completes_at: string };
+  }> => {
+    const response = await api.post(`/api/corporation/${corporationId}/research`, { sector, projectKey });
+    return response.data;
+  },
 };
 
 export interface IssueReportData {
@@ -531,6 +993,35 @@ export interface AdminGameTimeResetResponse {
   applied_at: string;
 }
 
+export type CronRunStatus = 'running' | 'succeeded' | 'failed';
+
+export interface CronJobInfo {
+  name: string;
+  label: string;
+  schedule: string;
+  backfill: boolean;
+}
+
+export interface CronRun {
+  id: number;
+  job: string;
+  scheduled_for: string;
+  triggered_by: 'schedule' | 'backfill' | 'manual';
+  triggered_by_user_id: number | null;
+  status: CronRunStatus;
+  attempt: number;
+  owner: string;
+  started_at: string;
+  finished_at: string | null;
+  result: Record<string, unknown> | null;
+  error: string | null;
+}
+
+export interface CronHistoryResponse {
+  jobs: CronJobInfo[];
+  runs: CronRun[];
+}
+
 // Transaction types
 export type TransactionType = 
   | 'corp_revenue'
@@ -788,6 +1279,37 @@ export const adminAPI = {
     const response = await api.post(`/api/admin/users/${userId}/reset`);
     return response.data;
   },
+  getCronHistory: async (filters?: { job?: string; status?: CronRunStatus; limit?: number }): Promise<CronHistoryResponse> => {
+    const params = new URLSearchParams();
+    if (filters?.job) params.append('job', filters.job);
+    if (filters?.status) params.append('status', filters.status);
+    if (filters?.limit) params.append('limit', filters.limit.toString());
+    const query = params.toString();
+    const response = await api.get(`/api/admin/cron/trigger${query ? `?${query}` : ''}`);
+    return response.data;
+  },
+  triggerCronJob: async (type: string): Promise<{ message: string; run: CronRun }> => {
+    const response = await api.post('/api/admin/cron/trigger', { type });
+    return response.data;
+  },
+  rerunCronRun: async (runId: number, force: boolean = false): Promise<{ message: string; run: CronRun }> => {
+    const response = await api.post('/api/admin/cron/trigger', { run_id: runId, force });
+    return response.data;
+  },
+  getResourceReserves: async (): Promise<AdminResourceReserve[]> => {
+    const response = await api.get('/api/admin/resource-reserves');
+    return response.data.reserves;
+  },
+  seedResourceReserves: async (): Promise<{ success: boolean; seeded: number; message: string }> => {
+    const response = await api.post('/api/admin/resource-reserves', { action: 'seed' });
+    return response.data;
+  },
+  regenerateResourceReserves: async (
+    filter: { stateCode?: string; resource?: string; amount?: number } = {}
+  ): Promise<{ success: boolean; regenerated: number; message: string }> => {
+    const response = await api.post('/api/admin/resource-reserves', { action: 'regenerate', ...filter });
+    return response.data;
+  },
 };
 
 export interface MessageResponse {
@@ -835,6 +1357,44 @@ export interface SendMessageData {
   body: string;
 }
 
+export interface NotificationResponse {
+  id: number;
+  user_id: number;
+  category: NotificationCategory | 'digest';
+  title: string;
+  body: string;
+  link: string | null;
+  corporation_id: number | null;
+  read: boolean;
+  created_at: string;
+}
+
+export type { NotificationCategory, NotificationDelivery, NotificationPreferences };
+
+export interface PriceAlertResponse {
+  id: number;
+  watchlist_item_id: number;
+  condition: PriceAlertCondition;
+  threshold: number;
+  armed: boolean;
+  last_triggered_at: string | null;
+  created_at: string;
+}
+
+export interface WatchlistEntryResponse {
+  id: number;
+  target_type: WatchTargetType;
+  corporation_id: number | null;
+  item: string | null;
+  name: string;
+  price: number | null;
+  change_percent: number | null;
+  alerts: PriceAlertResponse[];
+  created_at: string;
+}
+
+export type { PriceAlertCondition, WatchTargetType };
+
 export interface TransferCashData {
   recipient_id: number;
   amount: number;
@@ -900,6 +1460,48 @@ export const messagesAPI = {
   },
 };
 
+export const notificationsAPI = {
+  list: async (unreadOnly?: boolean): Promise<{ notifications: NotificationResponse[]; unread: number }> => {
+    const response = await api.get(`/api/notifications${unreadOnly ? '?unread=true' : ''}`);
+    return response.data;
+  },
+  markRead: async (ids?: number[]): Promise<{ success: boolean; updated: number; unread: number }> => {
+    const response = await api.post('/api/notifications/read', ids ? { ids } : {});
+    return response.data;
+  },
+  getPreferences: async (): Promise<{ preferences: NotificationPreferences }> => {
+    const response = await api.get('/api/notifications/preferences');
+    return response.data;
+  },
+  updatePreferences: async (preferences: NotificationPreferences): Promise<{ success: boolean; preferences: NotificationPreferences }> => {
+    const response = await api.put('/api/notifications/preferences', { preferences });
+    return response.data;
+  },
+};
+
+export const watchlistAPI = {
+  getAll: async (): Promise<{ items: WatchlistEntryResponse[] }> => {
+    const response = await api.get('/api/watchlist');
+    return response.data;
+  },
+  add: async (target: { corporationId: number } | { item: string }): Promise<{ success: boolean; item: WatchlistEntryResponse }> => {
+    const response = await api.post('/api/watchlist', target);
+    return response.data;
+  },
+  remove: async (id: number): Promise<{ success: boolean }> => {
+    const response = await api.delete(`/api/watchlist/${id}`);
+    return response.data;
+  },
+  createAlert: async (data: { watchlistItemId: number; condition: PriceAlertCondition; threshold: number }): Promise<{ success: boolean; alert: PriceAlertResponse }> => {
+    const response = await api.post('/api/watchlist/alerts', data);
+    return response.data;
+  },
+  deleteAlert: async (id: number): Promise<{ success: boolean }> => {
+    const response = await api.delete(`/api/watchlist/alerts/${id}`);
+    return response.data;
+  },
+};
+
 export const cashAPI = {
   transfer: async (data: TransferCashData): Promise<TransferCashResponse> => {
     const response = await api.post('/api/cash/transfer', data);
@@ -924,7 +1526,7 @@ export interface BoardProposal {
   id: number;
   corporation_id: number;
   proposer_id: number;
-  proposal_type: 'ceo_nomination' | 'sector_change' | 'hq_change' | 'board_size' | 'appoint_member' | 'ceo_salary_change' | 'dividend_change' | 'special_dividend' | 'stock_split' | 'focus_change';
+  proposal_type: 'ceo_nomination' | 'sector_change' | 'hq_change' | 'board_size' | 'appoint_member' | 'ceo_salary_change' | 'dividend_change' | 'special_dividend' | 'stock_split' | 'focus_change' | 'salary_arrears_policy' | 'merger';
   proposal_data: {
     nominee_id?: number;
     nominee_name?: string;
@@ -937,6 +1539,14 @@ export interface BoardProposal {
     new_percentage?: number;
     capital_percentage?: number;
     new_focus?: CorpFocus;
+    missed_payments_limit?: number;
+    action?: 'none' | 'ceo_nomination';
+    merger_id?: number;
+    acquirer_corporation_id?: number;
+    acquirer_name?: string;
+    target_corporation_id?: number;
+    target_name?: string;
+    exchange_ratio?: number;
   };
   status: 'active' | 'passed' | 'failed';
   created_at: string;
@@ -974,6 +1584,9 @@ export interface BoardResponse {
     special_dividend_last_paid_at?: string | null;
     special_dividend_last_amount?: number | null;
     focus?: CorpFocus;
+    salary_arrears_limit?: number;
+    salary_arrears_action?: 'none' | 'ceo_nomination';
+    salary_arrears?: number;
   };
   board_members: BoardMember[];
   effective_ceo: { userId: number; isActing: boolean } | null;
@@ -992,7 +1605,7 @@ export interface BoardResponse {
 }
 
 export interface CreateProposalData {
-  proposal_type: 'ceo_nomination' | 'sector_change' | 'hq_change' | 'board_size' | 'appoint_member' | 'ceo_salary_change' | 'dividend_change' | 'special_dividend' | 'stock_split' | 'focus_change';
+  proposal_type: 'ceo_nomination' | 'sector_change' | 'hq_change' | 'board_size' | 'appoint_member' | 'ceo_salary_change' | 'dividend_change' | 'special_dividend' | 'stock_split' | 'focus_change' | 'salary_arrears_policy' | 'merger';
   proposal_data: {
     nominee_id?: number;
     new_sector?: string;
@@ -1003,6 +1616,10 @@ export interface CreateProposalData {
     new_percentage?: number;
     capital_percentage?: number;
     new_focus?: CorpFocus;
+    missed_payments_limit?: number;
+    action?: 'none' | 'ceo_nomination';
+    target_corporation_id?: number;
+    exchange_ratio?: number;
   };
 }
 
@@ -1050,6 +1667,69 @@ export const gameAPI = {
   },
 };
 
+// Real-time event types
+export type { StreamEvent, StreamEventType };
+
+export interface EventStreamOptions {
+  corporationIds?: number[] | null;    // Omitted or null = every corporation
+  onEvent: (event: StreamEvent) => void;
+  onReconnect?: () => void;            // Events may have been missed while disconnected
+}
+
+export const eventsAPI = {
+  /**
+   * Open the server-sent event stream, reconnecting with backoff until closed.
+   * Uses fetch rather than EventSource so the token travels in the Authorization header.
+   * Returns a function that closes the stream.
+   */
+  subscribe: ({ corporationIds, onEvent, onReconnect }: EventStreamOptions): (() => void) => {
+    const controller = new AbortController();
+    const params = corporationIds ? `?corporations=${corporationIds.join(',')}` : '';
+    let delay: number = EVENT_STREAM_CONFIG.RECONNECT_MIN_MS;
+    let connections = 0;
+
+    const connect = async () => {
+      while (!controller.signal.aborted) {
+        try {
+          const token = localStorage.getItem('token');
+          const response = await fetch(`${getApiUrl()}/api/events${params}`, {
+            headers: token ? { Authorization: `Bearer ${token}` } : {},
+            signal: controller.signal,
+          });
+          if (!response.ok || !response.body) {
+            throw new Error(`Event stream failed with status ${response.status}`);
+          }
+
+          if (connections++ > 0) onReconnect?.();
+          delay = EVENT_STREAM_CONFIG.RECONNECT_MIN_MS;
+
+          const reader = response.body.getReader();
+          const decoder = new TextDecoder();
+          let buffer = '';
+          for (;;) {
+            const { value, done } = await reader.read();
+            if (done) break;
+            const parsed = parseSseMessages(buffer + decoder.decode(value, { stream: true }));
+            buffer = parsed.rest;
+            for (const data of parsed.data) {
+              onEvent(JSON.parse(data) as StreamEvent);
+            }
+          }
+        } catch (err: unknown) {
+          if (controller.signal.aborted) return;
+          console.warn('Event stream disconnected:', err);
+        }
+
+        await new Promise(resolve => setTimeout(resolve, delay));
+        delay = Math.min(delay * 2, EVENT_STREAM_CONFIG.RECONNECT_MAX_MS);
+      }
+    };
+
+    connect();
+    return () => controller.abort();
+  },
+};
+
 // Markets/States types
 export interface StateInfo {
   code: string;
@@ -1139,6 +1819,68 @@ export interface StateDetailResponse {
     created_at: string;
     units: UnitCounts;
   }>;
+  prices?: StateLocalPrices;
+  reserves?: StateReserves;
+}
+
+export interface StateReserveItem {
+  resource: string;
+  original_amount: number;
+  discovered: number;
+  extracted: number;
+  remaining: number;
+  capacity: number;       // Original reserve plus discoveries
+  remaining_pct: number;
+  yield: number;          // Share of the normal extraction rate, 0-1
+}
+
+export interface StateReserves {
+  items: StateReserveItem[];
+  history: Array<{ resource: string; remaining: number; capacity: number; recorded_at: string }>;
+  explorations: Array<{ id: number; corporation_id: number; resource: string; discovered: number; created_at: string }>;
+  exploration_cost: number;
+  exploration_cooldown_hours: number;
+}
+
+export interface AdminResourceReserve {
+  state_code: string;
+  resource: string;
+  original_amount: number;
+  discovered: number;
+  extracted: number;
+  remaining: number;
+  capacity: number;
+  yield: number;
+  updated_at: string;
+}
+
+export interface ExploreResourceResponse {
+  success: boolean;
+  exploration: {
+    id: number;
+    corporation_id: number;
+    state_code: string;
+    resource: string;
+    cost: number;
+    discovered: number;
+    created_at: string;
+  };
+  reserve: (Omit<AdminResourceReserve, 'yield'>) | null;
+}
+
+export interface StateLocalPrice {
+  item: string;
+  item_type: 'resource' | 'product';
+  national_price: number;
+  local_price: number;
+  difference_pct: number;
+  local_supply: number;   // Hourly, across the state's region
+  local_demand: number;
+}
+
+export interface StateLocalPrices {
+  region: string | null;
+  items: StateLocalPrice[];
 }
 
 export interface CorporationFinances {
@@ -1171,11 +1913,14 @@ export interface CorporationFinances {
 export interface BalanceSheet {
   cash: number;
   businessUnitAssets: number;
+  inventoryValue?: number;
   totalAssets: number;
   retailAssetValue: number;
   productionAssetValue: number;
   serviceAssetValue: number;
   extractionAssetValue: number;
+  loansPayable?: number;
+  salaryArrears?: number;
   totalLiabilities: number;
   shareholdersEquity: number;
   bookValuePerShare: number;
@@ -1186,11 +1931,44 @@ export interface BalanceSheet {
   marketsCount: number;
 }
 
+export interface InventoryItemResponse {
+  id: number;
+  corporation_id: number;
+  state_code: string;
+  item: string;
+  item_type: 'resource' | 'product';
+  quantity: number;
+  value: number;
+  updated_at: string;
+}
+
+export interface InventoryActivityResponse {
+  cycles: number;
+  revenue: number;
+  wholesale_revenue: number;
+  labor_cost: number;
+  purchases: number;
+  logistics_cost: number;
+  cost_of_goods_sold: number;
+  opening_value: number;
+  closing_value: number;
+  inventory_change: number;
+  idle_unit_hours: number;
+}
+
 export interface CorporationFinancesResponse {
   corporation_id: number;
   finances: CorporationFinances;
   balance_sheet?: BalanceSheet;
   market_entries: MarketEntryWithUnits[];
+  inventory?: {
+    items: InventoryItemResponse[];
+    activity: InventoryActivityResponse;
+  };
+  contracts?: {
+    items: SupplyContractResponse[];
+    activity: SupplyContractActivityResponse;
+  };
 }
 
 export interface EnterMarketResponse {
@@ -1279,6 +2057,48 @@ export interface MarketUnitFlow {
   };
 }
 
+export interface MarketIndexSummaryResponse {
+  index_key: MarketIndexKey;
+  name: string;
+  symbol: string;
+  level: number;
+  change_percent: number | null;
+  constituent_count: number;
+  recorded_at: string;
+}
+
+export interface MarketIndexHistoryResponse {
+  id: number;
+  index_key: MarketIndexKey;
+  level: number;
+  value: number;
+  recorded_at: string;
+}
+
+export interface BenchmarkPeriodResponse {
+  label: string;
+  hours: number;
+  change_percent: number | null;
+  benchmark_change_percent: number | null;
+  relative_percent: number | null;
+}
+
+export interface CorporationBenchmarkResponse {
+  corporation_id: number;
+  index_key: MarketIndexKey;
+  index_name: string;
+  periods: BenchmarkPeriodResponse[];
+}
+
+export interface PortfolioBenchmarkResponse {
+  index_key: MarketIndexKey;
+  index_name: string;
+  periods: BenchmarkPeriodResponse[];
+  holdings: Array<CorporationBenchmarkResponse & { corporation_name: string; value: number }>;
+}
+
+export type { MarketIndexKey };
+
 export interface MarketMetadataResponse {
   sector_unit_flows: Record<string, Record<MarketUnitType, MarketUnitFlow>>;
   product_consumers: Record<string, string[]>;
@@ -1344,6 +2164,19 @@ export interface ResourceDetailResponse {
   }>;
   filter: 'producers' | 'demanders';
   pagination: PaginationInfo;
+  reserves?: {
+    states: Array<{
+      state_code: string;
+      state_name: string;
+      remaining: number;
+      capacity: number;
+      discovered: number;
+      yield: number;
+    }>;
+    total_remaining: number;
+    total_capacity: number;
+    history: Array<{ remaining: number; capacity: number; recorded_at: string }>;
+  };
 }
 
 export interface ResourcePieDataEntry {
@@ -1400,11 +2233,92 @@ export interface ProductPieDataResponse {
   };
 }
 
+// Spot market (corporation-to-corporation trading of resources and products)
+export interface CommodityOrderResponse {
+  id: number;
+  corporation_id: number;
+  user_id: number;
+  item: string;
+  item_type: 'resource' | 'product';
+  state_code: string;
+  side: ShareOrderSide;
+  limit_price: number;
+  quantity: number;
+  remaining_quantity: number;
+  reserved_cash: number;
+  reserved_value: number;
+  status: ShareOrderStatus;
+  expires_at: string;
+  created_at: string;
+  updated_at: string;
+  closed_at: string | null;
+}
+
+export interface CommodityTradeResponse {
+  id: number;
+  item: string;
+  buy_order_id: number;
+  sell_order_id: number;
+  buyer_corporation_id: number;
+  seller_corporation_id: number;
+  quantity: number;
+  price: number;
+  total_amount: number;
+  created_at: string;
+}
+
+export interface CommodityBookLevel {
+  price: number;
+  quantity: number;
+  orders: number;
+}
+
+export interface SpotOrderBookResponse {
+  item: string;
+  bids: CommodityBookLevel[];
+  asks: CommodityBookLevel[];
+  best_bid: number | null;
+  best_ask: number | null;
+  spread: number | null;
+  last_price: number | null;
+  trades: CommodityTradeResponse[];
+  orders: CommodityOrderResponse[];
+  page: number;
+  limit: number;
+}
+
+export interface PlaceSpotOrderResponse {
+  success: boolean;
+  order: CommodityOrderResponse;
+  fills: Array<{
+    trade_id: number;
+    buy_order_id: number;
+    sell_order_id: number;
+    buyer_corporation_id: number;
+    seller_corporation_id: number;
+    quantity: number;
+    price: number;
+    total_amount: number;
+    shipping_cost: number;
+  }>;
+  quantity_filled: number;
+}
+
 export const marketsAPI = {
   getCommodities: async (): Promise<CommoditiesResponse> => {
     const response = await api.get('/api/markets/commodities');
     return response.data;
   },
+  getIndices: async (): Promise<{ indices: MarketIndexSummaryResponse[] }> => {
+    const response = await api.get('/api/markets/indices');
+    return response.data;
+  },
+  getIndexHistory: async (indexKey: MarketIndexKey, hours: number = 168): Promise<MarketIndexHistoryResponse[]> => {
+    const response = await api.get(`/api/markets/indices/${encodeURIComponent(indexKey)}/history`, {
+      params: { hours },
+    });
+    return response.data;
+  },
   getMarketMetadata: async (): Promise<MarketMetadataResponse> => {
     const response = await api.get('/api/markets/metadata');
     return response.data;
@@ -1421,6 +2335,8 @@ export const marketsAPI = {
     price: number;
     supply: number;
     demand: number;
+    traded_price?: number | null;
+    traded_volume?: number;
     recorded_at: string;
   }>> => {
     const response = await api.get(`/api/markets/resource/${encodeURIComponent(resourceName)}/history`, {
@@ -1428,6 +2344,12 @@ export const marketsAPI = {
     });
     return response.data;
   },
+  getResourceCandles: async (resourceName: string, resolution: CandleResolution, count?: number): Promise<CandleSeriesResponse> => {
+    const response = await api.get(`/api/markets/resource/${encodeURIComponent(resourceName)}/history`, {
+      params: { resolution, count },
+    });
+    return response.data;
+  },
   getResourcePieData: async (resourceName: string): Promise<ResourcePieDataResponse> => {
     const response = await api.get(`/api/markets/resource/${encodeURIComponent(resourceName)}/pie-data`);
     return response.data;
@@ -1444,6 +2366,8 @@ export const marketsAPI = {
     price: number;
     supply: number;
     demand: number;
+    traded_price?: number | null;
+    traded_volume?: number;
     recorded_at: string;
   }>> => {
     const response = await api.get(`/api/markets/product/${encodeURIComponent(productName)}/history`, {
@@ -1451,10 +2375,34 @@ export const marketsAPI = {
     });
     return response.data;
   },
+  getProductCandles: async (productName: string, resolution: CandleResolution, count?: number): Promise<CandleSeriesResponse> => {
+    const response = await api.get(`/api/markets/product/${encodeURIComponent(productName)}/history`, {
+      params: { resolution, count },
+    });
+    return response.data;
+  },
   getProductPieData: async (productName: string): Promise<ProductPieDataResponse> => {
     const response = await api.get(`/api/markets/product/${encodeURIComponent(productName)}/pie-data`);
     return response.data;
   },
+  getSpotOrderBook: async (
+    item: string,
+    params?: { corporationId?: number; status?: ShareOrderStatus; side?: ShareOrderSide; page?: number; limit?: number }
+  ): Promise<SpotOrderBookResponse> => {
+    const response = await api.get(`/api/markets/spot/${encodeURIComponent(item)}/orders`, { params });
+    return response.data;
+  },
+  placeSpotOrder: async (
+    item: string,
+    data: { corporationId: number; stateCode: string; side: ShareOrderSide; quantity: number; limitPrice: number; expiresInHours?: number }
+  ): Promise<PlaceSpotOrderResponse> => {
+    const response = await api.post(`/api/markets/spot/${encodeURIComponent(item)}/orders`, data);
+    return response.data;
+  },
+  cancelSpotOrder: async (item: string, orderId: number): Promise<{ success: boolean; order: CommodityOrderResponse }> => {
+    const response = await api.delete(`/api/markets/spot/${encodeURIComponent(item)}/orders/${orderId}`);
+    return response.data;
+  },
   getStates: async (): Promise<StatesListResponse> => {
     const response = await api.get('/api/markets/states');
     return response.data;
@@ -1463,6 +2411,10 @@ export const marketsAPI = {
     const response = await api.get(`/api/markets/states/${stateCode}`);
     return response.data;
   },
+  exploreResource: async (stateCode: string, corporationId: number, resource: string): Promise<ExploreResourceResponse> => {
+    const response = await api.post(`/api/markets/states/${stateCode}/explore`, { corporationId, resource });
+    return response.data;
+  },
   enterMarket: async (
     stateCode: string,
     sectorType: string,
@@ -1510,18 +2462,53 @@ export const marketsAPI = {
 };
 
 // Corporate Actions API types
+export type CorporateActionEffectType = 'revenue_multiplier' | 'cost_reduction' | 'capacity_increase';
+export type CorporateActionScope = 'corporation' | 'state';
+
+export interface CorporateActionEffect {
+  type: CorporateActionEffectType;
+  value: number; // Fraction: 0.10 = 10%
+  unit_types: UnitType[] | null;
+  scope: CorporateActionScope;
+}
+
 export interface CorporateAction {
   id: number;
   corporation_id: number;
-  action_type: 'supply_rush' | 'marketing_campaign';
+  action_type: string;
+  name?: string;
   cost: number;
+  state_code?: string | null;
+  effects?: CorporateActionEffect[];
   started_at: string;
   expires_at: string;
   created_at: string;
 }
 
+export interface CorporateActionConfig {
+  id: number;
+  action_type: string;
+  name: string;
+  description: string;
+  base_cost: number;
+  market_cap_cost_pct: number;
+  duration_hours: number;
+  cooldown_hours: number;
+  effects: CorporateActionEffect[];
+  is_enabled: boolean;
+  display_order: number;
+  created_at: string;
+  updated_at: string;
+}
+
+export type CorporateActionConfigInput = Omit<CorporateActionConfig, 'id' | 'created_at' | 'updated_at'>;
+
 // Corporate Actions API
 export const corporateActionsAPI = {
+  getCatalogue: async (): Promise<CorporateActionConfig[]> => {
+    const response = await api.get('/api/corporate-action-config');
+    return response.data.actions;
+  },
   getAllActions: async (corporationId: number): Promise<CorporateAction[]> => {
     const response = await api.get(`/api/corporate-actions/${corporationId}`);
     return response.data;
@@ -1530,12 +2517,31 @@ export const corporateActionsAPI = {
     const response = await api.get(`/api/corporate-actions/${corporationId}/active`);
     return response.data;
   },
-  activateSupplyRush: async (corporationId: number): Promise<CorporateAction> => {
-    const response = await api.post(`/api/corporate-actions/${corporationId}/supply-rush`);
+  activateAction: async (corporationId: number, actionType: string, stateCode?: string): Promise<CorporateAction> => {
+    const response = await api.post(
+      `/api/corporate-actions/${corporationId}/${encodeURIComponent(actionType)}`,
+      stateCode ? { state_code: stateCode } : {}
+    );
     return response.data;
   },
-  activateMarketingCampaign: async (corporationId: number): Promise<CorporateAction> => {
-    const response = await api.post(`/api/corporate-actions/${corporationId}/marketing-campaign`);
+  // Admin endpoints
+  getAdminCatalogue: async (): Promise<CorporateActionConfig[]> => {
+    const response = await api.get('/api/corporate-action-config/admin');
+    return response.data.actions;
+  },
+  createActionConfig: async (data: CorporateActionConfigInput): Promise<CorporateActionConfig> => {
+    const response = await api.post('/api/corporate-action-config/admin', data);
+    return response.data;
+  },
+  updateActionConfig: async (
+    actionType: string,
+    data: Partial<Omit<CorporateActionConfigInput, 'action_type'>>
+  ): Promise<CorporateActionConfig> => {
+    const response = await api.put(`/api/corporate-action-config/admin/${encodeURIComponent(actionType)}`, data);
+    return response.data;
+  },
+  deleteActionConfig: async (actionType: string): Promise<{ message: string }> => {
+    const response = await api.delete(`/api/corporate-action-config/admin/${encodeURIComponent(actionType)}`);
     return response.data;
   },
 };
@@ -1685,6 +2691,116 @@ export interface UnifiedSectorConfig {
   }>;
 }
 
+type SectorUnitConfigShape = UnifiedSectorConfig['sectors'][string]['units'][UnitType];
+
+// Proposed change for the simulator: only the fields given change, and a unit's
+// inputs or outputs, when given, replace its whole list
+export interface SectorConfigDiff {
+  sectors?: Record<string, { units?: Partial<Record<UnitType, Partial<SectorUnitConfigShape>>> }>;
+  products?: Record<string, { referenceValue?: number; minPrice?: number }>;
+  resources?: Record<string, { basePrice?: number }>;
+}
+
+export interface SimulatedPrice {
+  item: string;
+  item_type: 'resource' | 'product';
+  supply_before: number;
+  supply_after: number;
+  demand_before: number;
+  demand_after: number;
+  price_before: number;
+  price_after: number;
+  change_pct: number;
+}
+
+export interface SimulatedCorporation {
+  corporation_id: number;
+  corporation_name: string;
+  revenue_before: number;
+  revenue_after: number;
+  costs_before: number;
+  costs_after: number;
+  profit_before: number;
+  profit_after: number;
+  profit_change: number;
+}
+
+export interface SectorConfigSimulation {
+  version: string;
+  period_hours: number;
+  prices: SimulatedPrice[];
+  corporations: SimulatedCorporation[];
+  winners: SimulatedCorporation[];
+  losers: SimulatedCorporation[];
+  unmodelled: string[];
+}
+
+export type SectorConfigRevisionSource = 'initial' | 'edit' | 'rollback' | 'release';
+
+export interface SectorConfigChange {
+  path: string;
+  before: unknown;
+  after: unknown;
+}
+
+export interface SectorConfigRevisionSummary {
+  id: number;
+  changes: SectorConfigChange[];
+  source: SectorConfigRevisionSource;
+  reason: string;
+  author_id: number | null;
+  author_name: string | null;
+  rolled_back_to: number | null;
+  release_id: number | null;
+  created_at: string;
+}
+
+export interface SectorConfigRevision extends SectorConfigRevisionSummary {
+  config: Omit<UnifiedSectorConfig, 'version'>;
+}
+
+export interface SectorConfigRelease {
+  id: number;
+  diff: SectorConfigDiff | null;
+  restore_revision_id: number | null;
+  reason: string;
+  author_id: number;
+  author_name: string;
+  release_quarter: number;
+  release_at: string;
+  status: 'scheduled' | 'released' | 'cancelled' | 'failed';
+  revision_id: number | null;
+  error: string | null;
+  created_at: string;
+  updated_at: string;
+}
+
+export interface UnitMargin {
+  sector: string;
+  unit_type: UnitType;
+  revenue: number;
+  cost: number;
+  margin: number;
+}
+
+export interface MinPriceIssue {
+  product: string;
+  min_price: number;
+  unit_cost: number;
+  producer: string;
+}
+
+export interface ProductionChainReport {
+  version: string;
+  analyzed_at: string;
+  graph_errors: string[];
+  cycles: string[][];
+  dead_end_products: string[];
+  unconsumed_resources: string[];
+  negative_margins: UnitMargin[];
+  min_price_above_cost: MinPriceIssue[];
+}
+
 export interface AdminSectorConfigData {
   sectors: SectorConfig[];
   unitConfigs: SectorUnitConfig[];
@@ -1701,7 +2817,7 @@ export const sectorConfigAPI = {
     const response = await api.get('/api/sector-config');
     return response.data;
   },
-  getVersion: async (): Promise<{ version: string }> => {
+  getVersion: async (): Promise<{ version: string; revision: number | null }> => {
     const response = await api.get('/api/sector-config/version');
     return response.data;
   },
@@ -1775,6 +2891,64 @@ export const sectorConfigAPI = {
     );
     return response.data;
   },
+
+  simulateConfig: async (diff: SectorConfigDiff): Promise<SectorConfigSimulation> => {
+    const response = await api.post('/api/sector-config/admin/simulate', diff);
+    return response.data;
+  },
+
+  // Revision history
+  getRevisions: async (): Promise<{ revisions: SectorConfigRevisionSummary[]; releases: SectorConfigRelease[] }> => {
+    const response = await api.get('/api/sector-config/admin/revisions');
+    return response.data;
+  },
+
+  getRevision: async (id: number): Promise<SectorConfigRevision> => {
+    const response = await api.get(`/api/sector-config/admin/revisions/${id}`);
+    return response.data;
+  },
+
+  rollback: async (id: number, reason?: string): Promise<{ message: string; revision: SectorConfigRevision }> => {
+    const response = await api.post(`/api/sector-config/admin/revisions/${id}/rollback`, { reason });
+    return response.data;
+  },
+
+  scheduleRelease: async (params: {
+    year: number;
+    quarter: number;
+    reason: string;
+    diff?: SectorConfigDiff;
+    revisionId?: number;
+  }): Promise<SectorConfigRelease> => {
+    const response = await api.post('/api/sector-config/admin/releases', params);
+    return response.data;
+  },
+
+  cancelRelease: async (id: number): Promise<SectorConfigRelease> => {
+    const response = await api.delete(`/api/sector-config/admin/releases/${id}`);
+    return response.data;
+  },
+
+  getChainAnalysis: async (): Promise<ProductionChainReport> => {
+    const response = await api.get('/api/sector-config/admin/analysis');
+    return response.data;
+  },
+
+  // Bulk import/export of the whole configuration
+  exportConfig: async (format: 'json' | 'csv'): Promise<string> => {
+    const response = await api.get('/api/sector-config/admin/export', {
+      params: { format },
+      responseType: 'text',
+    });
+    return response.data;
+  },
+
+  importConfig: async (
+    params: ({ format: 'json'; config: unknown } | { format: 'csv'; csv: string }) & { reason?: string }
+  ): Promise<{ message: string; revision: SectorConfigRevision | null }> => {
+    const response = await api.post('/api/sector-config/admin/import', params);
+    return response.data;
+  },
 };
 
 export default api;
@@ -14,5 +14,6 @@ export const ACTIONS_CONFIG = {
     ABANDON_SECTOR: 5, // New cost for leaving a market
     SPECIAL_ACTION: 3, // Placeholder for future special actions
     NAME_CHANGE: 10, // Cost to change corporation name
+    EXPLORATION: 2, // Surveying a state for new resource reserves
   }
 } as const;
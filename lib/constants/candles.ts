@@ -0,0 +1,255 @@
+import {
+  MILLISECONDS_PER_HOUR,
+  MILLISECONDS_PER_QUARTER,
+  getGameTimeForQuarter,
+  getQuarterIndex,
+  getQuarterStartDate,
+} from '../utils/gameTime';
+
+/**
+ * Candle periods:
+ * - hour / day: calendar hours and days (UTC)
+ * - quarter: game quarters, counted from the game start
+ */
+export const CANDLE_RESOLUTIONS = ['hour', 'day', 'quarter'] as const;
+export type CandleResolution = typeof CANDLE_RESOLUTIONS[number];
+
+export const CANDLE_CONFIG = {
+  SMA_FAST_PERIOD: 5,             // Candles per fast moving average
+  SMA_SLOW_PERIOD: 20,            // Candles per slow moving average
+  VOLATILITY_PERIOD: 20,          // Candle returns per volatility reading
+  RSI_PERIOD: 14,                 // Candles per relative strength reading
+  MAX_CANDLES: 500,
+  DEFAULT_CANDLES: { hour: 96, day: 30, quarter: 30 } as Record<CandleResolution, number>,
+} as const;
+
+// One recorded price
+export interface PriceSample {
+  at: Date;
+  price: number;
+}
+
+// Trading at a price: share fills, or an hour of a spot market's trades at their average price
+export interface VolumeSample {
+  at: Date;
+  price: number;
+  volume: number;
+}
+
+export interface Candle {
+  start: Date;
+  open: number;
+  high: number;
+  low: number;
+  close: number;
+  volume: number;
+  vwap: number | null;            // Volume-weighted average traded price; null without trades
+}
+
+export interface CandleIndicators {
+  sma_fast: number | null;
+  sma_slow: number | null;
+  volatility: number | null;      // Standard deviation of candle-to-candle returns, in percent
+  rsi: number | null;             // Relative strength index, 0-100
+}
+
+export type CandleWithIndicators = Candle & CandleIndicators;
+
+export interface CandleSummary {
+  open: number | null;
+  close: number | null;
+  high: number | null;
+  low: number | null;
+  change_percent: number | null;
+  volume: number;
+  vwap: number | null;
+  volatility: number | null;      // Over every candle in the range
+  rsi: number | null;             // At the latest candle
+}
+
+export function getPeriodMs(resolution: CandleResolution): number {
+  switch (resolution) {
+    case 'hour':
+      return MILLISECONDS_PER_HOUR;
+    case 'day':
+      return 24 * MILLISECONDS_PER_HOUR;
+    case 'quarter':
+      return MILLISECONDS_PER_QUARTER;
+  }
+}
+
+/**
+ * Start of the candle period containing a date
+ */
+export function getCandleStart(date: Date, resolution: CandleResolution, gameStart?: Date): Date {
+  if (resolution === 'quarter') {
+    return getQuarterStartDate(getQuarterIndex(date, gameStart), gameStart);
+  }
+  const periodMs = getPeriodMs(resolution);
+  return new Date(Math.floor(date.getTime() / periodMs) * periodMs);
+}
+
+/**
+ * Label of a candle's period: the hour, the day, or the game quarter ("Q2 1931")
+ */
+export function formatCandleLabel(start: Date, resolution: CandleResolution, gameStart?: Date): string {
+  switch (resolution) {
+    case 'hour':
+      return start.toLocaleString('en-US', { month: 'short', day: 'numeric', hour: 'numeric', hour12: true, timeZone: 'UTC' });
+    case 'day':
+      return start.toLocaleDateString('en-US', { month: 'short', day: 'numeric', timeZone: 'UTC' });
+    case 'quarter': {
+      const gameTime = getGameTimeForQuarter(getQuarterIndex(start, gameStart), gameStart);
+      return `Q${gameTime.quarter} ${gameTime.year}`;
+    }
+  }
+}
+
+/**
+ * Aggregate price samples into candles, with volume and VWAP from trades in the same
+ * periods. Periods without a price sample have no candle.
+ */
+export function buildCandles(
+  samples: PriceSample[],
+  trades: VolumeSample[],
+  resolution: CandleResolution,
+  gameStart?: Date
+): Candle[] {
+  const candles = new Map<number, Candle & { traded_value: number }>();
+
+  const sorted = [...samples].sort((a, b) => a.at.getTime() - b.at.getTime());
+  for (const sample of sorted) {
+    const start = getCandleStart(sample.at, resolution, gameStart);
+    const candle = candles.get(start.getTime());
+    if (!candle) {
+      candles.set(start.getTime(), {
+        start,
+        open: sample.price,
+        high: sample.price,
+        low: sample.price,
+        close: sample.price,
+        volume: 0,
+        vwap: null,
+        traded_value: 0,
+      });
+      continue;
+    }
+    candle.high = Math.max(candle.high, sample.price);
+    candle.low = Math.min(candle.low, sample.price);
+    candle.close = sample.price;
+  }
+
+  for (const trade of trades) {
+    if (trade.volume <= 0) continue;
+    const candle = candles.get(getCandleStart(trade.at, resolution, gameStart).getTime());
+    if (!candle) continue;
+    candle.volume += trade.volume;
+    candle.traded_value += trade.price * trade.volume;
+  }
+
+  return [...candles.values()]
+    .sort((a, b) => a.start.getTime() - b.start.getTime())
+    .map(({ traded_value, ...candle }) => ({
+      ...candle,
+      vwap: candle.volume > 0 ? traded_value / candle.volume : null,
+    }));
+}
+
+/**
+ * Simple moving average of the last `period` values at each point; null until there are enough
+ */
+export function simpleMovingAverage(values: number[], period: number): Array<number | null> {
+  let sum = 0;
+  return values.map((value, i) => {
+    sum += value;
+    if (i >= period) sum -= values[i - period];
+    return i >= period - 1 ? sum / period : null;
+  });
+}
+
+function getReturns(closes: number[]): number[] {
+  return closes.slice(1).map((close, i) => (closes[i] > 0 ? ((close - closes[i]) / closes[i]) * 100 : 0));
+}
+
+function standardDeviation(values: number[]): number {
+  const mean = values.reduce((sum, value) => sum + value, 0) / values.length;
+  return Math.sqrt(values.reduce((sum, value) => sum + (value - mean) ** 2, 0) / values.length);
+}
+
+/**
+ * Standard deviation of the last `period` candle-to-candle returns (in percent) at each point
+ */
+export function rollingVolatility(closes: number[], period: number): Array<number | null> {
+  const returns = getReturns(closes);
+  return closes.map((_, i) => (i >= period ? standardDeviation(returns.slice(i - period, i)) : null));
+}
+
+/**
+ * Wilder's relative strength index at each point: 100 when every move over the period
+ * was up, 0 when every move was down
+ */
+export function relativeStrengthIndex(closes: number[], period: number): Array<number | null> {
+  const result: Array<number | null> = closes.map(() => null);
+  if (closes.length <= period) return result;
+
+  let gain = 0;
+  let loss = 0;
+  for (let i = 1; i <= period; i++) {
+    const move = closes[i] - closes[i - 1];
+    gain += Math.max(move, 0);
+    loss += Math.max(-move, 0);
+  }
+  gain /= period;
+  loss /= period;
+
+  const rsi = () => (loss === 0 ? (gain === 0 ? 50 : 100) : 100 - 100 / (1 + gain / loss));
+  result[period] = rsi();
+
+  for (let i = period + 1; i < closes.length; i++) {
+    const move = closes[i] - closes[i - 1];
+    gain = (gain * (period - 1) + Math.max(move, 0)) / period;
+    loss = (loss * (period - 1) + Math.max(-move, 0)) / period;
+    result[i] = rsi();
+  }
+  return result;
+}
+
+export function withIndicators(candles: Candle[]): CandleWithIndicators[] {
+  const closes = candles.map(candle => candle.close);
+  const smaFast = simpleMovingAverage(closes, CANDLE_CONFIG.SMA_FAST_PERIOD);
+  const smaSlow = simpleMovingAverage(closes, CANDLE_CONFIG.SMA_SLOW_PERIOD);
+  const volatility = rollingVolatility(closes, CANDLE_CONFIG.VOLATILITY_PERIOD);
+  const rsi = relativeStrengthIndex(closes, CANDLE_CONFIG.RSI_PERIOD);
+
+  return candles.map((candle, i) => ({
+    ...candle,
+    sma_fast: smaFast[i],
+    sma_slow: smaSlow[i],
+    volatility: volatility[i],
+    rsi: rsi[i],
+  }));
+}
+
+export function summarizeCandles(candles: CandleWithIndicators[]): CandleSummary {
+  if (candles.length === 0) {
+    return { open: null, close: null, high: null, low: null, change_percent: null, volume: 0, vwap: null, volatility: null, rsi: null };
+  }
+
+  const first = candles[0];
+  const last = candles[candles.length - 1];
+  const volume = candles.reduce((sum, candle) => sum + candle.volume, 0);
+  const tradedValue = candles.reduce((sum, candle) => sum + (candle.vwap ?? 0) * candle.volume, 0);
+  const returns = getReturns(candles.map(candle => candle.close));
+
+  return {
+    open: first.open,
+    close: last.close,
+    high: Math.max(...candles.map(candle => candle.high)),
+    low: Math.min(...candles.map(candle => candle.low)),
+    change_percent: first.open > 0 ? ((last.close - first.open) / first.open) * 100 : null,
+    volume,
+    vwap: volume > 0 ? tradedValue / volume : null,
+    volatility: returns.length > 1 ? standardDeviation(returns) : null,
+    rsi: last.rsi,
+  };
+}
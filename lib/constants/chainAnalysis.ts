@@ -0,0 +1,173 @@
+import type { UnifiedSectorConfig, UnitType } from '../models/SectorConfig';
+import { computeFinancialStatements } from '../finance';
+import { validateProductionGraph } from '../productionChain';
+import { buildSectorUnitFlows, getSectorUnitEconomics, toPriceMap } from './configSimulation';
+
+const UNIT_TYPES: UnitType[] = ['retail', 'production', 'service', 'extraction'];
+
+// Hourly revenue and cost of one unit running flat out, by the financial statements
+export interface UnitMargin {
+  sector: string;
+  unit_type: UnitType;
+  revenue: number;
+  cost: number;
+  margin: number;
+}
+
+export interface MinPriceIssue {
+  product: string;
+  min_price: number;
+  unit_cost: number;      // Cheapest cost to make one unit at current prices
+  producer: string;       // Sector that makes it that cheaply
+}
+
+export interface ChainAnalysisReport {
+  graph_errors: string[];                 // Unknown items, orphan inputs, products nothing produces
+  cycles: string[][];                     // Items that feed back into themselves through production
+  dead_end_products: string[];            // Products nothing consumes
+  unconsumed_resources: string[];         // Resources nothing consumes
+  negative_margins: UnitMargin[];         // Enabled units that lose money even running flat out
+  min_price_above_cost: MinPriceIssue[];  // Price floors above what the product costs to make
+}
+
+/**
+ * Groups of items that depend on each other in a loop (Tarjan's strongly connected
+ * components). An item feeding straight back into itself is a loop of one.
+ */
+function findCycles(edges: Map<string, Set<string>>): string[][] {
+  const index = new Map<string, number>();
+  const lowLink = new Map<string, number>();
+  const stack: string[] = [];
+  const onStack = new Set<string>();
+  const cycles: string[][] = [];
+  let counter = 0;
+
+  const visit = (node: string) => {
+    index.set(node, counter);
+    lowLink.set(node, counter);
+    counter++;
+    stack.push(node);
+    onStack.add(node);
+
+    for (const next of edges.get(node) ?? []) {
+      if (!index.has(next)) {
+        visit(next);
+        lowLink.set(node, Math.min(lowLink.get(node)!, lowLink.get(next)!));
+      } else if (onStack.has(next)) {
+        lowLink.set(node, Math.min(lowLink.get(node)!, index.get(next)!));
+      }
+    }
+
+    if (lowLink.get(node) === index.get(node)) {
+      const component: string[] = [];
+      let member: string;
+      do {
+        member = stack.pop()!;
+        onStack.delete(member);
+        component.push(member);
+      } while (member !== node);
+
+      if (component.length > 1 || edges.get(node)?.has(node)) {
+        cycles.push(component.sort());
+      }
+    }
+  };
+
+  for (const node of [...edges.keys()].sort()) {
+    if (!index.has(node)) visit(node);
+  }
+  return cycles;
+}
+
+/**
+ * Check the economics of the production graph at the given prices. Only enabled
+ * units count: a unit consumes its inputs and makes its outputs, and a sector's
+ * production units also make its produced product.
+ */
+export function analyzeProductionChain(
+  config: UnifiedSectorConfig,
+  prices: Record<string, number>
+): ChainAnalysisReport {
+  const edges = new Map<string, Set<string>>();
+  const consumed = new Set<string>();
+  const addEdge = (from: string, to: string) => {
+    if (!edges.has(from)) edges.set(from, new Set());
+    edges.get(from)!.add(to);
+  };
+
+  for (const sector of Object.values(config.sectors)) {
+    for (const unitType of UNIT_TYPES) {
+      const unit = sector.units[unitType];
+      if (!unit.isEnabled) continue;
+      const outputs = unit.outputs.map(output => output.name);
+      if (unitType === 'production' && sector.producedProduct) outputs.push(sector.producedProduct);
+      for (const input of unit.inputs) {
+        consumed.add(input.name);
+        for (const output of outputs) addEdge(input.name, output);
+      }
+    }
+  }
+
+  // One unit for one hour of each enabled unit type, through the financial statements
+  const flows = buildSectorUnitFlows(config);
+  const commodityPrices = toPriceMap(prices, Object.keys(config.resources));
+  const productPrices = toPriceMap(prices, Object.keys(config.products));
+  const margins: UnitMargin[] = [];
+  for (const [sectorName, sector] of Object.entries(config.sectors)) {
+    for (const unitType of UNIT_TYPES) {
+      if (!sector.units[unitType].isEnabled) continue;
+      const statement = computeFinancialStatements({
+        entries: [{ sector_type: sectorName, [`${unitType}_count`]: 1 }],
+        sectorUnitFlows: flows,
+        commodityPrices,
+        productPrices,
+        unitEconomics: getSectorUnitEconomics(config, sectorName),
+        periodHours: 1,
+      });
+      const { revenue, cost } = statement.sectors[0].unitBreakdown[unitType];
+      margins.push({ sector: sectorName, unit_type: unitType, revenue, cost, margin: revenue - cost });
+    }
+  }
+
+  // Cost of one unit of each product from each unit that makes it
+  const cheapest = new Map<string, { unit_cost: number; producer: string }>();
+  for (const { sector: sectorName, unit_type: unitType, cost } of margins) {
+    const sector = config.sectors[sectorName];
+    const unit = sector.units[unitType];
+    const rates = unit.outputs
+      .filter(output => output.type === 'product')
+      .map(output => ({ product: output.name, rate: output.rate }));
+    // A produced product with no output rows is made at the unit's output rate
+    if (unitType === 'production' && sector.producedProduct && rates.length === 0 && unit.outputRate) {
+      rates.push({ product: sector.producedProduct, rate: unit.outputRate });
+    }
+    for (const { product, rate } of rates) {
+      if (rate <= 0) continue;
+      const unitCost = cost / rate;
+      const best = cheapest.get(product);
+      if (!best || unitCost < best.unit_cost) {
+        cheapest.set(product, { unit_cost: unitCost, producer: sectorName });
+      }
+    }
+  }
+
+  const round = (value: number) => Math.round(value * 100) / 100;
+
+  return {
+    graph_errors: validateProductionGraph(config),
+    cycles: findCycles(edges),
+    dead_end_products: Object.keys(config.products).filter(product => !consumed.has(product)),
+    unconsumed_resources: Object.keys(config.resources).filter(resource => !consumed.has(resource)),
+    negative_margins: margins
+      .filter(margin => margin.margin < 0)
+      .sort((a, b) => a.margin - b.margin)
+      .map(margin => ({ ...margin, revenue: round(margin.revenue), cost: round(margin.cost), margin: round(margin.margin) })),
+    min_price_above_cost: Object.entries(config.products)
+      .flatMap(([product, { minPrice }]) => {
+        const best = cheapest.get(product);
+        return best && minPrice > best.unit_cost
+          ? [{ product, min_price: minPrice, unit_cost: round(best.unit_cost), producer: best.producer }]
+          : [];
+      }),
+  };
+}
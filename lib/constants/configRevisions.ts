@@ -0,0 +1,45 @@
+import type { UnifiedSectorConfig } from '../models/SectorConfig';
+
+// The sector configuration as stored in a revision: everything but the derived version string
+export type SectorConfigSnapshot = Omit<UnifiedSectorConfig, 'version'>;
+
+// One field that differs between two configurations. Unit input and output lists
+// are compared as a whole.
+export interface SectorConfigChange {
+  path: string;        // e.g. "resources.Oil.basePrice", "sectors.Energy.units.production.inputs"
+  before: unknown;     // undefined when the field was added
+  after: unknown;      // undefined when the field was removed
+}
+
+const isPlainObject = (value: unknown): value is Record<string, unknown> =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+
+/**
+ * Every field that differs between two configurations, in path order
+ */
+export function diffSectorConfigs(before: SectorConfigSnapshot, after: SectorConfigSnapshot): SectorConfigChange[] {
+  const changes: SectorConfigChange[] = [];
+
+  const walk = (path: string, a: unknown, b: unknown) => {
+    if (isPlainObject(a) && isPlainObject(b)) {
+      const keys = Array.from(new Set([...Object.keys(a), ...Object.keys(b)])).sort();
+      for (const key of keys) {
+        walk(path ? `${path}.${key}` : key, a[key], b[key]);
+      }
+      return;
+    }
+    if (JSON.stringify(a) !== JSON.stringify(b)) {
+      changes.push({ path, before: a, after: b });
+    }
+  };
+
+  walk('', toSnapshot(before), toSnapshot(after));
+  return changes;
+}
+
+/**
+ * The stored part of a configuration, dropping its version string
+ */
+export function toSnapshot(config: SectorConfigSnapshot | UnifiedSectorConfig): SectorConfigSnapshot {
+  return { sectors: config.sectors, products: config.products, resources: config.resources };
+}
@@ -0,0 +1,353 @@
+import type { UnifiedSectorConfig, UnitType } from '../models/SectorConfig';
+import type { MarketUnitFlow } from '../api';
+import { computeFinancialStatements, type PriceMap, type UnitEconomics } from '../finance';
+import { DISPLAY_PERIOD_HOURS } from './sectors';
+
+export const SIMULATION_CONFIG = {
+  // Corporations listed on each side of the winners and losers report
+  TOP_MOVERS: 5,
+  // Same floor as calculateCommodityPrice; products have none
+  MIN_COMMODITY_PRICE: 10,
+} as const;
+
+const UNIT_TYPES: UnitType[] = ['retail', 'production', 'service', 'extraction'];
+
+type UnitConfig = UnifiedSectorConfig['sectors'][string]['units'][UnitType];
+
+/**
+ * Proposed changes to the sector configuration. Only the fields given change;
+ * a unit's inputs or outputs, when given, replace its whole list.
+ */
+export interface SectorConfigDiff {
+  sectors?: Record<string, {
+    units?: Partial<Record<UnitType, Partial<Omit<UnitConfig, 'inputs' | 'outputs'>> & Partial<Pick<UnitConfig, 'inputs' | 'outputs'>>>>;
+  }>;
+  products?: Record<string, { referenceValue?: number; minPrice?: number }>;
+  resources?: Record<string, { basePrice?: number }>;
+}
+
+// One corporation's units of each type in one sector, across all its states
+export interface SimulationUnits {
+  corporation_id: number;
+  corporation_name: string;
+  sector_type: string;
+  retail_units: number;
+  production_units: number;
+  service_units: number;
+  extraction_units: number;
+}
+
+export interface ConfigMarket {
+  supply: Record<string, number>;
+  demand: Record<string, number>;
+  prices: Record<string, number>;
+}
+
+export interface SimulatedPrice {
+  item: string;
+  item_type: 'resource' | 'product';
+  supply_before: number;
+  supply_after: number;
+  demand_before: number;
+  demand_after: number;
+  price_before: number;
+  price_after: number;
+  change_pct: number;
+}
+
+export interface SimulatedCorporation {
+  corporation_id: number;
+  corporation_name: string;
+  revenue_before: number;
+  revenue_after: number;
+  costs_before: number;
+  costs_after: number;
+  profit_before: number;
+  profit_after: number;
+  profit_change: number;
+}
+
+export interface SimulationResult {
+  period_hours: number;
+  prices: SimulatedPrice[];          // Largest price moves first
+  corporations: SimulatedCorporation[];
+  winners: SimulatedCorporation[];
+  losers: SimulatedCorporation[];
+  unmodelled: string[];              // Changed fields the simulation cannot show the effect of
+}
+
+/**
+ * The configuration with a proposed diff applied, leaving the original untouched
+ */
+export function applySectorConfigDiff(config: UnifiedSectorConfig, diff: SectorConfigDiff): UnifiedSectorConfig {
+  const sectors = { ...config.sectors };
+  for (const [sectorName, sectorDiff] of Object.entries(diff.sectors ?? {})) {
+    const sector = sectors[sectorName];
+    if (!sector || !sectorDiff.units) continue;
+    const units = { ...sector.units };
+    for (const [unitType, unitDiff] of Object.entries(sectorDiff.units) as Array<[UnitType, Partial<UnitConfig>]>) {
+      if (!units[unitType] || !unitDiff) continue;
+      units[unitType] = { ...units[unitType], ...unitDiff };
+    }
+    sectors[sectorName] = { ...sector, units };
+  }
+
+  const products = { ...config.products };
+  for (const [name, productDiff] of Object.entries(diff.products ?? {})) {
+    if (products[name]) products[name] = { ...products[name], ...productDiff };
+  }
+
+  const resources = { ...config.resources };
+  for (const [name, resourceDiff] of Object.entries(diff.resources ?? {})) {
+    if (resources[name]) resources[name] = { ...resources[name], ...resourceDiff };
+  }
+
+  return { ...config, sectors, products, resources };
+}
+
+/**
+ * Names in a diff that the configuration does not have
+ */
+export function findUnknownDiffKeys(config: UnifiedSectorConfig, diff: SectorConfigDiff): string[] {
+  const unknown: string[] = [];
+  for (const [sectorName, sectorDiff] of Object.entries(diff.sectors ?? {})) {
+    if (!config.sectors[sectorName]) {
+      unknown.push(`sector ${sectorName}`);
+      continue;
+    }
+    for (const [, unitDiff] of Object.entries(sectorDiff.units ?? {})) {
+      for (const flow of [...(unitDiff?.inputs ?? []), ...(unitDiff?.outputs ?? [])]) {
+        const known = flow.type === 'resource' ? config.resources[flow.name] : config.products[flow.name];
+        if (!known) unknown.push(`${flow.type} ${flow.name}`);
+      }
+    }
+  }
+  for (const name of Object.keys(diff.products ?? {})) {
+    if (!config.products[name]) unknown.push(`product ${name}`);
+  }
+  for (const name of Object.keys(diff.resources ?? {})) {
+    if (!config.resources[name]) unknown.push(`resource ${name}`);
+  }
+  return unknown;
+}
+
+/**
+ * Hourly supply and demand of every item from the units running in each sector, and the
+ * prices they set. Uses the scarcity formulas of calculateCommodityPrice and
+ * calculateProductPrice, with the configuration's inputs, outputs and base prices.
+ */
+export function calculateConfigMarket(config: UnifiedSectorConfig, units: SimulationUnits[]): ConfigMarket {
+  const sectorUnits: Record<string, Record<UnitType, number>> = {};
+  for (const row of units) {
+    const counts = sectorUnits[row.sector_type] ??= { retail: 0, production: 0, service: 0, extraction: 0 };
+    counts.retail += row.retail_units || 0;
+    counts.production += row.production_units || 0;
+    counts.service += row.service_units || 0;
+    counts.extraction += row.extraction_units || 0;
+  }
+
+  const supply: Record<string, number> = {};
+  const demand: Record<string, number> = {};
+  for (const name of [...Object.keys(config.resources), ...Object.keys(config.products)]) {
+    supply[name] = 0;
+    demand[name] = 0;
+  }
+
+  for (const [sectorName, sector] of Object.entries(config.sectors)) {
+    const counts = sectorUnits[sectorName];
+    if (!counts) continue;
+    for (const unitType of UNIT_TYPES) {
+      const count = counts[unitType];
+      if (!count) continue;
+      for (const output of sector.units[unitType].outputs) {
+        supply[output.name] = (supply[output.name] ?? 0) + count * output.rate;
+      }
+      for (const input of sector.units[unitType].inputs) {
+        demand[input.name] = (demand[input.name] ?? 0) + count * input.rate;
+      }
+    }
+  }
+
+  const scarcity = (name: string) =>
+    supply[name] > 0 || demand[name] > 0 ? demand[name] / Math.max(0.01, supply[name]) : 1;
+
+  const prices: Record<string, number> = {};
+  for (const [name, resource] of Object.entries(config.resources)) {
+    const raw = Math.round(resource.basePrice * scarcity(name) * 100) / 100;
+    prices[name] = Math.max(SIMULATION_CONFIG.MIN_COMMODITY_PRICE, raw);
+  }
+  for (const [name, product] of Object.entries(config.products)) {
+    prices[name] = Math.round(product.referenceValue * scarcity(name) * 100) / 100;
+  }
+
+  return { supply, demand, prices };
+}
+
+/**
+ * Per-unit inputs and outputs of every sector, in the shape computeFinancialStatements takes
+ */
+export function buildSectorUnitFlows(config: UnifiedSectorConfig): Record<string, Record<UnitType, MarketUnitFlow>> {
+  const flows: Record<string, Record<UnitType, MarketUnitFlow>> = {};
+  for (const [sectorName, sector] of Object.entries(config.sectors)) {
+    flows[sectorName] = {} as Record<UnitType, MarketUnitFlow>;
+    for (const unitType of UNIT_TYPES) {
+      const flow: MarketUnitFlow = {
+        inputs: { resources: {}, products: {} },
+        outputs: { resources: {}, products: {} },
+      };
+      for (const input of sector.units[unitType].inputs) {
+        flow.inputs[input.type === 'resource' ? 'resources' : 'products'][input.name] = input.rate;
+      }
+      for (const output of sector.units[unitType].outputs) {
+        flow.outputs[output.type === 'resource' ? 'resources' : 'products'][output.name] = output.rate;
+      }
+      flows[sectorName][unitType] = flow;
+    }
+  }
+  return flows;
+}
+
+/**
+ * One sector's unit economics, in the shape computeFinancialStatements takes
+ */
+export function getSectorUnitEconomics(config: UnifiedSectorConfig, sectorName: string): UnitEconomics {
+  const units = config.sectors[sectorName]?.units;
+  const economics = {} as UnitEconomics;
+  for (const unitType of UNIT_TYPES) {
+    economics[unitType] = {
+      baseRevenue: units?.[unitType].baseRevenue ?? 0,
+      baseCost: units?.[unitType].baseCost ?? 0,
+    };
+  }
+  return economics;
+}
+
+export function toPriceMap(prices: Record<string, number>, names: string[]): PriceMap {
+  return Object.fromEntries(names.map(name => [name, { currentPrice: prices[name] ?? 0 }]));
+}
+
+/**
+ * Sector revenue and costs of each corporation over the display period, by
+ * computeFinancialStatements, under the given configuration and prices
+ */
+function calculateCorporationResults(
+  config: UnifiedSectorConfig,
+  market: ConfigMarket,
+  units: SimulationUnits[]
+): Map<number, { corporation_name: string; revenue: number; costs: number }> {
+  const flows = buildSectorUnitFlows(config);
+  const commodityPrices = toPriceMap(market.prices, Object.keys(config.resources));
+  const productPrices = toPriceMap(market.prices, Object.keys(config.products));
+
+  const results = new Map<number, { corporation_name: string; revenue: number; costs: number }>();
+  for (const row of units) {
+    const statement = computeFinancialStatements({
+      entries: [{
+        sector_type: row.sector_type,
+        retail_count: row.retail_units,
+        production_count: row.production_units,
+        service_count: row.service_units,
+        extraction_count: row.extraction_units,
+      }],
+      sectorUnitFlows: flows,
+      commodityPrices,
+      productPrices,
+      // Each sector's own unit economics rather than one set for the whole corporation
+      unitEconomics: getSectorUnitEconomics(config, row.sector_type),
+      periodHours: DISPLAY_PERIOD_HOURS,
+    });
+
+    const result = results.get(row.corporation_id) ?? { corporation_name: row.corporation_name, revenue: 0, costs: 0 };
+    result.revenue += statement.revenue;
+    result.costs += statement.variableCosts;
+    results.set(row.corporation_id, result);
+  }
+  return results;
+}
+
+/**
+ * Fields changed by a diff that neither the price formulas nor the financial statements
+ * read, so the simulation shows no effect from them
+ */
+function findUnmodelledChanges(diff: SectorConfigDiff): string[] {
+  const unmodelled: string[] = [];
+  for (const [sectorName, sectorDiff] of Object.entries(diff.sectors ?? {})) {
+    for (const [unitType, unitDiff] of Object.entries(sectorDiff.units ?? {})) {
+      if (unitDiff?.laborCost !== undefined) unmodelled.push(`${sectorName} ${unitType} labor cost`);
+      if (unitDiff?.outputRate !== undefined) unmodelled.push(`${sectorName} ${unitType} output rate`);
+      // Disabling a unit type stops new building; units already built keep running
+      if (unitDiff?.isEnabled !== undefined) unmodelled.push(`${sectorName} ${unitType} enabled`);
+    }
+  }
+  for (const [name, productDiff] of Object.entries(diff.products ?? {})) {
+    if (productDiff.minPrice !== undefined) unmodelled.push(`${name} minimum price`);
+  }
+  return unmodelled;
+}
+
+/**
+ * Dry run of a sector configuration change against the units corporations run today.
+ *
+ * Both sides are computed by the same model from the configuration, so every difference
+ * comes from the diff alone.
+ */
+export function simulateSectorConfig(
+  config: UnifiedSectorConfig,
+  diff: SectorConfigDiff,
+  units: SimulationUnits[]
+): SimulationResult {
+  const proposed = applySectorConfigDiff(config, diff);
+  const before = calculateConfigMarket(config, units);
+  const after = calculateConfigMarket(proposed, units);
+
+  const items: Array<{ item: string; item_type: 'resource' | 'product' }> = [
+    ...Object.keys(proposed.resources).map(item => ({ item, item_type: 'resource' as const })),
+    ...Object.keys(proposed.products).map(item => ({ item, item_type: 'product' as const })),
+  ];
+  const prices: SimulatedPrice[] = items.map(({ item, item_type }) => {
+    const priceBefore = before.prices[item] ?? 0;
+    const priceAfter = after.prices[item] ?? 0;
+    return {
+      item,
+      item_type,
+      supply_before: before.supply[item] ?? 0,
+      supply_after: after.supply[item] ?? 0,
+      demand_before: before.demand[item] ?? 0,
+      demand_after: after.demand[item] ?? 0,
+      price_before: priceBefore,
+      price_after: priceAfter,
+      change_pct: priceBefore > 0 ? ((priceAfter - priceBefore) / priceBefore) * 100 : 0,
+    };
+  });
+  prices.sort((a, b) => Math.abs(b.change_pct) - Math.abs(a.change_pct));
+
+  const resultsBefore = calculateCorporationResults(config, before, units);
+  const resultsAfter = calculateCorporationResults(proposed, after, units);
+  const corporations: SimulatedCorporation[] = [];
+  for (const [corporationId, beforeResult] of resultsBefore) {
+    const afterResult = resultsAfter.get(corporationId) ?? { revenue: 0, costs: 0 };
+    const profitBefore = beforeResult.revenue - beforeResult.costs;
+    const profitAfter = afterResult.revenue - afterResult.costs;
+    corporations.push({
+      corporation_id: corporationId,
+      corporation_name: beforeResult.corporation_name,
+      revenue_before: beforeResult.revenue,
+      revenue_after: afterResult.revenue,
+      costs_before: beforeResult.costs,
+      costs_after: afterResult.costs,
+      profit_before: profitBefore,
+      profit_after: profitAfter,
+      profit_change: profitAfter - profitBefore,
+    });
+  }
+  corporations.sort((a, b) => b.profit_change - a.profit_change);
+
+  return {
+    period_hours: DISPLAY_PERIOD_HOURS,
+    prices,
+    corporations,
+    winners: corporations.filter(c => c.profit_change > 0).slice(0, SIMULATION_CONFIG.TOP_MOVERS),
+    losers: corporations.filter(c => c.profit_change < 0).reverse().slice(0, SIMULATION_CONFIG.TOP_MOVERS),
+    unmodelled: findUnmodelledChanges(diff),
+  };
+}
@@ -0,0 +1,236 @@
+import type { UnitType } from '../models/SectorConfig';
+import type { SectorConfigSnapshot } from './configRevisions';
+
+/**
+ * Sector configuration as a spreadsheet: one CSV row per field, so a whole
+ * configuration can be exported, balanced offline and imported back.
+ *
+ *   section   sector     unit_type   item_type  item    field          value
+ *   sector    Forestry                                  canExtract     true
+ *   unit      Forestry   extraction                     baseCost       700
+ *   output    Forestry   extraction  resource   Lumber  rate           2
+ *   product                                    Steel   referenceValue 140
+ *   resource                                   Lumber  basePrice      40
+ *
+ * Empty values are null. Unit input and output rows list a unit's whole flows:
+ * a unit without input rows has no inputs.
+ */
+
+export const CONFIG_CSV_COLUMNS = ['section', 'sector', 'unit_type', 'item_type', 'item', 'field', 'value'] as const;
+
+const UNIT_TYPES: UnitType[] = ['production', 'retail', 'service', 'extraction'];
+
+const SECTOR_FIELDS = ['displayOrder', 'isProductionOnly', 'canExtract', 'producedProduct', 'primaryResource'] as const;
+const UNIT_FIELDS = ['isEnabled', 'baseRevenue', 'baseCost', 'laborCost', 'outputRate'] as const;
+const PRODUCT_FIELDS = ['referenceValue', 'minPrice', 'displayOrder'] as const;
+const RESOURCE_FIELDS = ['basePrice', 'displayOrder'] as const;
+
+type FieldKind = 'number' | 'boolean' | 'string';
+
+const FIELD_KINDS: Record<string, FieldKind> = {
+  displayOrder: 'number',
+  isProductionOnly: 'boolean',
+  canExtract: 'boolean',
+  producedProduct: 'string',
+  primaryResource: 'string',
+  isEnabled: 'boolean',
+  baseRevenue: 'number',
+  baseCost: 'number',
+  laborCost: 'number',
+  outputRate: 'number',
+  referenceValue: 'number',
+  minPrice: 'number',
+  basePrice: 'number',
+  rate: 'number',
+};
+
+const SECTION_FIELDS: Record<string, readonly string[]> = {
+  sector: SECTOR_FIELDS,
+  unit: UNIT_FIELDS,
+  input: ['rate'],
+  output: ['rate'],
+  product: PRODUCT_FIELDS,
+  resource: RESOURCE_FIELDS,
+};
+
+const escapeCsv = (value: string) => /[",\r\n]/.test(value) ? `"${value.replace(/"/g, '""')}"` : value;
+
+const formatValue = (value: unknown) => value === null || value === undefined ? '' : String(value);
+
+/**
+ * The configuration as CSV, sectors in display order
+ */
+export function sectorConfigToCsv(config: SectorConfigSnapshot): string {
+  const rows: string[][] = [[...CONFIG_CSV_COLUMNS]];
+
+  const sectors = Object.entries(config.sectors).sort(([, a], [, b]) => a.displayOrder - b.displayOrder);
+  for (const [sectorName, sector] of sectors) {
+    for (const field of SECTOR_FIELDS) {
+      rows.push(['sector', sectorName, '', '', '', field, formatValue(sector[field])]);
+    }
+    for (const unitType of UNIT_TYPES) {
+      const unit = sector.units[unitType];
+      if (!unit) continue;
+      for (const field of UNIT_FIELDS) {
+        rows.push(['unit', sectorName, unitType, '', '', field, formatValue(unit[field])]);
+      }
+      for (const input of unit.inputs) {
+        rows.push(['input', sectorName, unitType, input.type, input.name, 'rate', String(input.rate)]);
+      }
+      for (const output of unit.outputs) {
+        rows.push(['output', sectorName, unitType, output.type, output.name, 'rate', String(output.rate)]);
+      }
+    }
+  }
+
+  for (const [name, product] of Object.entries(config.products)) {
+    for (const field of PRODUCT_FIELDS) {
+      rows.push(['product', '', '', '', name, field, formatValue(product[field])]);
+    }
+  }
+  for (const [name, resource] of Object.entries(config.resources)) {
+    for (const field of RESOURCE_FIELDS) {
+      rows.push(['resource', '', '', '', name, field, formatValue(resource[field])]);
+    }
+  }
+
+  return rows.map(row => row.map(escapeCsv).join(',')).join('\n') + '\n';
+}
+
+/**
+ * Split CSV text into rows of cells, honouring quoted cells
+ */
+export function parseCsvRows(text: string): string[][] {
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let cell = '';
+  let quoted = false;
+
+  for (let i = 0; i < text.length; i++) {
+    const char = text[i];
+    if (quoted) {
+      if (char === '"' && text[i + 1] === '"') {
+        cell += '"';
+        i++;
+      } else if (char === '"') {
+        quoted = false;
+      } else {
+        cell += char;
+      }
+    } else if (char === '"') {
+      quoted = true;
+    } else if (char === ',') {
+      row.push(cell);
+      cell = '';
+    } else if (char === '\n' || char === '\r') {
+      if (char === '\r' && text[i + 1] === '\n') i++;
+      row.push(cell);
+      rows.push(row);
+      row = [];
+      cell = '';
+    } else {
+      cell += char;
+    }
+  }
+  if (cell !== '' || row.length > 0) {
+    row.push(cell);
+    rows.push(row);
+  }
+
+  // Blank lines, e.g. a trailing newline or spreadsheet padding
+  return rows.filter(cells => cells.some(value => value.trim() !== ''));
+}
+
+const parseValue = (kind: FieldKind, raw: string): { value: unknown } | { error: string } => {
+  const value = raw.trim();
+  if (value === '') return { value: null };
+  if (kind === 'boolean') {
+    if (value.toLowerCase() === 'true') return { value: true };
+    if (value.toLowerCase() === 'false') return { value: false };
+    return { error: `"${value}" is not true or false` };
+  }
+  if (kind === 'number') {
+    const number = Number(value);
+    return Number.isFinite(number) ? { value: number } : { error: `"${value}" is not a number` };
+  }
+  return { value };
+};
+
+/**
+ * Build a configuration from CSV rows. Problems are reported per line; the result
+ * still needs schema validation, which reports fields the rows left out.
+ */
+export function parseSectorConfigCsv(text: string): { config: Record<string, unknown>; errors: string[] } {
+  const errors: string[] = [];
+  const sectors: Record<string, Record<string, unknown> & { units: Record<string, Record<string, unknown>> }> = {};
+  const products: Record<string, Record<string, unknown>> = {};
+  const resources: Record<string, Record<string, unknown>> = {};
+  const config = { sectors, products, resources };
+
+  const [header, ...rows] = parseCsvRows(text);
+  if (!header || CONFIG_CSV_COLUMNS.some((column, i) => header[i]?.trim() !== column)) {
+    return { config, errors: [`Line 1: expected the columns ${CONFIG_CSV_COLUMNS.join(',')}`] };
+  }
+
+  rows.forEach((cells, index) => {
+    const line = `Line ${index + 2}`;
+    const [section, sector, unitType, itemType, item, field, raw = ''] = cells.map(cell => cell.trim());
+
+    if (!SECTION_FIELDS[section]) {
+      errors.push(`${line}: unknown section "${section}"`);
+      return;
+    }
+    if (!SECTION_FIELDS[section].includes(field)) {
+      errors.push(`${line}: unknown ${section} field "${field}"`);
+      return;
+    }
+    const parsed = parseValue(FIELD_KINDS[field], raw);
+    if ('error' in parsed) {
+      errors.push(`${line}: ${field} ${parsed.error}`);
+      return;
+    }
+
+    if (section === 'product' || section === 'resource') {
+      if (!item) {
+        errors.push(`${line}: ${section} name is missing`);
+        return;
+      }
+      const target = section === 'product' ? products : resources;
+      (target[item] ??= {})[field] = parsed.value;
+      return;
+    }
+
+    if (!sector) {
+      errors.push(`${line}: sector is missing`);
+      return;
+    }
+    const sectorConfig = sectors[sector] ??= { units: {} };
+    if (section === 'sector') {
+      sectorConfig[field] = parsed.value;
+      return;
+    }
+
+    if (!UNIT_TYPES.includes(unitType as UnitType)) {
+      errors.push(`${line}: unknown unit type "${unitType}"`);
+      return;
+    }
+    const unit = sectorConfig.units[unitType] ??= { inputs: [], outputs: [] };
+    if (section === 'unit') {
+      unit[field] = parsed.value;
+      return;
+    }
+
+    if (itemType !== 'resource' && itemType !== 'product') {
+      errors.push(`${line}: item type must be resource or product`);
+      return;
+    }
+    if (!item) {
+      errors.push(`${line}: ${section} name is missing`);
+      return;
+    }
+    const flows = unit[section === 'input' ? 'inputs' : 'outputs'] as Array<{ type: string; name: string; rate: unknown }>;
+    flows.push({ type: itemType, name: item, rate: parsed.value });
+  });
+
+  return { config, errors };
+}
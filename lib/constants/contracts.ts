@@ -0,0 +1,71 @@
+import { INVENTORY_CONFIG, roundQuantity } from './inventory';
+import { roundToCents } from './orders';
+
+export const SUPPLY_CONTRACT_CONFIG = {
+  // Terms are counted in game quarters (1 quarter = 24 real hours)
+  MIN_QUARTERS: 1,
+  MAX_QUARTERS: 16,
+
+  // A proposal the counterparty hasn't accepted lapses after this long
+  PROPOSAL_EXPIRY_HOURS: 24,
+
+  // Each undelivered unit costs the supplier this share of the contract price, paid to the buyer
+  SHORTFALL_PENALTY_PCT: 50,
+
+  // Active and proposed contracts a corporation may be party to at once
+  MAX_OPEN_CONTRACTS_PER_CORPORATION: 10,
+} as const;
+
+export interface ContractHourInput {
+  units_per_hour: number;
+  price_per_unit: number;
+  supplier_stock: number;     // Quantity the supplier holds in the source state
+  buyer_capital: number;
+  supplier_capital: number;   // Before this hour's payment
+  shipping_cost_pct: number;  // Shipping from the source to the destination state, as a share of the payment
+}
+
+export interface ContractHourSettlement {
+  units_delivered: number;
+  units_short: number;        // Units the supplier failed to deliver from stock
+  units_unpaid: number;       // Units held back because the buyer could not pay for them
+  payment: number;
+  shipping_cost: number;      // Paid by the supplier to deliver
+  penalty: number;
+}
+
+/**
+ * Settle one hour of a supply contract.
+ *
+ * The supplier delivers what it has in stock, up to the contracted amount, and the buyer
+ * pays the fixed price for what it can afford. Units the supplier could not deliver are
+ * penalised; units the buyer could not pay for are simply not shipped. The supplier pays
+ * to ship what it delivers out of the payment, and the penalty is capped at the capital
+ * it has left.
+ */
+export function settleContractHour(input: ContractHourInput): ContractHourSettlement {
+  const { units_per_hour, price_per_unit } = input;
+
+  const fromStock = roundQuantity(Math.min(units_per_hour, Math.max(0, input.supplier_stock)));
+  // Round down, so the buyer is never charged more than it holds
+  const factor = 10 ** INVENTORY_CONFIG.QUANTITY_DECIMALS;
+  const affordable = price_per_unit > 0
+    ? Math.floor((Math.max(0, input.buyer_capital) / price_per_unit) * factor) / factor
+    : fromStock;
+  const delivered = roundQuantity(Math.min(fromStock, affordable));
+  const payment = Math.min(roundToCents(delivered * price_per_unit), Math.max(0, input.buyer_capital));
+
+  const unitsShort = roundQuantity(units_per_hour - fromStock);
+  const penaltyDue = roundToCents(unitsShort * price_per_unit * SUPPLY_CONTRACT_CONFIG.SHORTFALL_PENALTY_PCT / 100);
+  const shippingCost = roundToCents(payment * input.shipping_cost_pct / 100);
+  const supplierCapital = Math.max(0, input.supplier_capital + payment - shippingCost);
+
+  return {
+    units_delivered: delivered,
+    units_short: unitsShort,
+    units_unpaid: roundQuantity(fromStock - delivered),
+    payment,
+    shipping_cost: shippingCost,
+    penalty: Math.min(penaltyDue, roundToCents(supplierCapital)),
+  };
+}
@@ -0,0 +1,179 @@
+import type { UnitType } from './sectors';
+
+export const CORPORATE_ACTION_EFFECT_TYPES = ['revenue_multiplier', 'cost_reduction', 'capacity_increase'] as const;
+export type CorporateActionEffectType = typeof CORPORATE_ACTION_EFFECT_TYPES[number];
+
+export const CORPORATE_ACTION_SCOPES = ['corporation', 'state'] as const;
+export type CorporateActionScope = typeof CORPORATE_ACTION_SCOPES[number];
+
+/**
+ * One effect of a corporate action while it is active.
+ * - revenue_multiplier: unit revenue +value (0.10 = +10%)
+ * - cost_reduction: unit operating costs -value
+ * - capacity_increase: units run at +value output, scaling revenue and costs alike
+ * A state-scoped effect only applies to the market the action was activated in.
+ */
+export interface CorporateActionEffect {
+  type: CorporateActionEffectType;
+  value: number;
+  unit_types: UnitType[] | null; // null = all unit types
+  scope: CorporateActionScope;
+}
+
+export interface CorporateActionDefinition {
+  action_type: string;
+  name: string;
+  description: string;
+  base_cost: number;
+  market_cap_cost_pct: number; // % of market cap added to base_cost
+  duration_hours: number;
+  cooldown_hours: number; // Wait after expiry before it can be activated again
+  effects: CorporateActionEffect[];
+  is_enabled: boolean;
+  display_order: number;
+}
+
+export const CORPORATE_ACTION_CONFIG = {
+  MAX_DURATION_HOURS: 96,
+  MAX_COOLDOWN_HOURS: 96 * 4,
+  MAX_EFFECT_VALUE: 1, // +100% / -100%
+} as const;
+
+// Seeded into corporate_action_configs when the catalogue is empty
+export const DEFAULT_CORPORATE_ACTIONS: CorporateActionDefinition[] = [
+  {
+    action_type: 'supply_rush',
+    name: 'Supply Rush',
+    description: 'Push every unit to run overtime, boosting output by 10% for 4 hours.',
+    base_cost: 500000,
+    market_cap_cost_pct: 1,
+    duration_hours: 4,
+    cooldown_hours: 0,
+    effects: [{ type: 'capacity_increase', value: 0.10, unit_types: null, scope: 'corporation' }],
+    is_enabled: true,
+    display_order: 1,
+  },
+  {
+    action_type: 'marketing_campaign',
+    name: 'Marketing Campaign',
+    description: 'Launch a nationwide campaign, lifting sales volume by 10% for 4 hours.',
+    base_cost: 500000,
+    market_cap_cost_pct: 1,
+    duration_hours: 4,
+    cooldown_hours: 0,
+    effects: [{ type: 'capacity_increase', value: 0.10, unit_types: null, scope: 'corporation' }],
+    is_enabled: true,
+    display_order: 2,
+  },
+  {
+    action_type: 'cost_cutting',
+    name: 'Cost Cutting Drive',
+    description: 'Renegotiate suppliers and trim overhead, cutting unit costs by 15% for 8 hours.',
+    base_cost: 750000,
+    market_cap_cost_pct: 0.5,
+    duration_hours: 8,
+    cooldown_hours: 24,
+    effects: [{ type: 'cost_reduction', value: 0.15, unit_types: null, scope: 'corporation' }],
+    is_enabled: true,
+    display_order: 3,
+  },
+  {
+    action_type: 'regional_promotion',
+    name: 'Regional Promotion',
+    description: 'Saturate one state with promotions, raising retail and service revenue there by 25% for 6 hours.',
+    base_cost: 250000,
+    market_cap_cost_pct: 0.25,
+    duration_hours: 6,
+    cooldown_hours: 12,
+    effects: [{ type: 'revenue_multiplier', value: 0.25, unit_types: ['retail', 'service'], scope: 'state' }],
+    is_enabled: true,
+    display_order: 4,
+  },
+  {
+    action_type: 'capacity_expansion',
+    name: 'Temporary Capacity Expansion',
+    description: 'Bring contract crews online, raising production and extraction capacity by 20% for 12 hours.',
+    base_cost: 1000000,
+    market_cap_cost_pct: 1,
+    duration_hours: 12,
+    cooldown_hours: 48,
+    effects: [{ type: 'capacity_increase', value: 0.20, unit_types: ['production', 'extraction'], scope: 'corporation' }],
+    is_enabled: true,
+    display_order: 5,
+  },
+];
+
+/**
+ * Normalize an action type from a URL segment: 'supply-rush' and 'supply_rush' are the same action
+ */
+export function normalizeActionType(actionType: string): string {
+  return actionType.trim().toLowerCase().replace(/-/g, '_');
+}
+
+/**
+ * Activation cost: base cost plus a percentage of market capitalization
+ */
+export function calculateActionCost(definition: Pick<CorporateActionDefinition, 'base_cost' | 'market_cap_cost_pct'>, marketCap: number): number {
+  return definition.base_cost + (marketCap * definition.market_cap_cost_pct / 100);
+}
+
+export function isStateScoped(effects: CorporateActionEffect[]): boolean {
+  return effects.some(effect => effect.scope === 'state');
+}
+
+// An active action's effects, with the state it was activated in for state-scoped effects
+export interface ActiveActionEffects {
+  state_code: string | null;
+  effects: CorporateActionEffect[];
+}
+
+export interface UnitEconomicsModifier {
+  revenueMultiplier: number;
+  costMultiplier: number;
+}
+
+/**
+ * Combine the effects of all active actions on one unit type in one state.
+ * Effects of the same type add up (two +10% capacity boosts give +20%);
+ * capacity scales revenue and costs, revenue and cost effects then apply on top.
+ */
+export function getUnitEconomicsModifier(
+  actions: ActiveActionEffects[],
+  unitType: UnitType,
+  stateCode: string
+): UnitEconomicsModifier {
+  let capacity = 0;
+  let revenue = 0;
+  let costReduction = 0;
+
+  for (const action of actions) {
+    for (const effect of action.effects) {
+      if (effect.unit_types && !effect.unit_types.includes(unitType)) continue;
+      if (effect.scope === 'state' && action.state_code !== stateCode) continue;
+
+      if (effect.type === 'capacity_increase') capacity += effect.value;
+      else if (effect.type === 'revenue_multiplier') revenue += effect.value;
+      else if (effect.type === 'cost_reduction') costReduction += effect.value;
+    }
+  }
+
+  return {
+    revenueMultiplier: (1 + capacity) * (1 + revenue),
+    costMultiplier: (1 + capacity) * Math.max(0, 1 - costReduction),
+  };
+}
+
+/**
+ * Short human-readable summary of an effect, e.g. "+10% capacity (production, extraction)"
+ */
+export function describeEffect(effect: CorporateActionEffect): string {
+  const pct = Math.round(effect.value * 1000) / 10;
+  const label = effect.type === 'cost_reduction'
+    ? `-${pct}% costs`
+    : effect.type === 'revenue_multiplier'
+      ? `+${pct}% revenue`
+      : `+${pct}% capacity`;
+  const units = effect.unit_types ? ` (${effect.unit_types.join(', ')})` : '';
+  const scope = effect.scope === 'state' ? ' in one state' : '';
+  return `${label}${units}${scope}`;
+}
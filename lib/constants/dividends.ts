@@ -0,0 +1,16 @@
+export const DIVIDEND_CONFIG = {
+  // Skip payouts too small to be worth a transaction per holder
+  MIN_DIVIDEND_PER_SHARE: 0.01,
+
+  // Never let a dividend take capital below this floor
+  MIN_CAPITAL_AFTER_PAYOUT: 100000,
+} as const;
+
+/**
+ * Dividend per share from operating income accrued since the last record date.
+ * Only positive earnings are distributed; losses carry forward.
+ */
+export function calculateDividendPerShare(earnings: number, dividendPercentage: number, totalShares: number): number {
+  if (earnings <= 0 || dividendPercentage <= 0 || totalShares <= 0) return 0;
+  return Math.floor((earnings * (dividendPercentage / 100) / totalShares) * 100) / 100;
+}
@@ -0,0 +1,77 @@
+/**
+ * Events pushed to clients over the /api/events stream.
+ *
+ * Corporation events reach subscribers of that corporation; events carrying a
+ * user_id also reach that user. Events with neither (cron completions) reach everyone.
+ */
+export type StreamEvent =
+  | {
+      type: 'share_trade';
+      corporation_id: number;
+      user_id: number;
+      transaction_type: 'buy' | 'sell';
+      shares: number;
+      price_per_share: number;
+      at: string;
+    }
+  | { type: 'price_tick'; corporation_id: number; share_price: number; at: string }
+  | { type: 'proposal_created'; corporation_id: number; proposal_id: number; proposal_type: string; at: string }
+  | { type: 'proposal_vote'; corporation_id: number; proposal_id: number; voter_id: number; vote: 'aye' | 'nay'; at: string }
+  | { type: 'proposal_resolved'; corporation_id: number; proposal_id: number; status: 'passed' | 'failed'; at: string }
+  | { type: 'message_received'; user_id: number; message_id: number; sender_id: number; at: string }
+  | { type: 'notification_created'; user_id: number; notification_id: number; category: string; title: string; at: string }
+  | { type: 'cron_completed'; job: string; run_id: number; status: 'succeeded' | 'failed'; at: string };
+
+export type StreamEventType = StreamEvent['type'];
+
+export interface EventSubscription {
+  user_id: number | null;               // Authenticated viewer, for their own events
+  corporation_ids: number[] | null;     // null = every corporation
+}
+
+export const EVENT_STREAM_CONFIG = {
+  HEARTBEAT_MS: 25000,                  // Comment line that keeps proxies from closing an idle stream
+  MAX_CORPORATIONS: 50,                 // Per subscription
+  RECONNECT_MIN_MS: 1000,
+  RECONNECT_MAX_MS: 30000,
+} as const;
+
+/**
+ * Whether a subscriber receives an event
+ */
+export function eventMatches(event: StreamEvent, subscription: EventSubscription): boolean {
+  const userId = 'user_id' in event ? event.user_id : null;
+  const corporationId = 'corporation_id' in event ? event.corporation_id : null;
+
+  if (userId !== null && userId === subscription.user_id) return true;
+  if (corporationId !== null) {
+    return subscription.corporation_ids === null || subscription.corporation_ids.includes(corporationId);
+  }
+  // Private to a user, and not this one
+  if (userId !== null) return false;
+  return true;
+}
+
+/**
+ * Encode an event as a server-sent event message
+ */
+export function formatSseMessage(event: StreamEvent): string {
+  return `event: ${event.type}\ndata: ${JSON.stringify(event)}\n\n`;
+}
+
+/**
+ * Split a server-sent event buffer into complete messages' data and the unfinished remainder.
+ * Comment lines (heartbeats) are dropped.
+ */
+export function parseSseMessages(buffer: string): { data: string[]; rest: string } {
+  const blocks = buffer.replace(/\r\n/g, '\n').split('\n\n');
+  const rest = blocks.pop() ?? '';
+  const data = blocks
+    .map(block => block
+      .split('\n')
+      .filter(line => line.startsWith('data:'))
+      .map(line => line.slice(5).replace(/^ /, ''))
+      .join('\n'))
+    .filter(payload => payload.length > 0);
+  return { data, rest };
+}
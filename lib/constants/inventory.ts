@@ -0,0 +1,480 @@
+import {
+  EXTRACTION_OUTPUT_RATE,
+  PRODUCTS,
+  RESOURCES,
+  getDynamicUnitEconomics,
+  type MarketPriceOverrides,
+  type Product,
+  type Resource,
+  type UnitType,
+} from './sectors';
+import type { UnitEconomicsModifier } from './corporateActions';
+import { NO_RESEARCH, type ResearchModifier } from './research';
+import { calculateReserveYield } from './reserves';
+
+export type InventoryItemType = 'resource' | 'product';
+
+export const INVENTORY_CONFIG = {
+  // Producers keep this many hours of their own consumption in each state before selling surplus
+  RESERVE_HOURS: 4,
+
+  // When the market stockpile runs short, imports can cover up to this share of the shortfall
+  IMPORT_SHARE: 0.5,
+  IMPORT_PREMIUM: 0.25, // Imports cost 25% above the market price
+
+  // Idle units still pay part of their labor
+  IDLE_LABOR_SHARE: 0.5,
+
+  // Quantities are stored to four decimal places; anything smaller is treated as empty
+  QUANTITY_DECIMALS: 4,
+} as const;
+
+// Units run in supply-chain order, so extracted resources can feed production in the same hour
+export const CYCLE_STAGES: UnitType[] = ['extraction', 'production', 'service', 'retail'];
+
+export function roundQuantity(quantity: number): number {
+  const factor = 10 ** INVENTORY_CONFIG.QUANTITY_DECIMALS;
+  return Math.round(quantity * factor) / factor;
+}
+
+export function getInventoryItemType(item: string): InventoryItemType | null {
+  if ((RESOURCES as readonly string[]).includes(item)) return 'resource';
+  if ((PRODUCTS as readonly string[]).includes(item)) return 'product';
+  return null;
+}
+
+export function isInventoryItem(item: string): item is Resource | Product {
+  return getInventoryItemType(item) !== null;
+}
+
+// ============================================================================
+// HOURLY PRODUCTION CYCLE
+// ============================================================================
+
+export interface CycleEntry {
+  corporation_id: number;
+  state_code: string;
+  sector_type: string;
+  units: Record<UnitType, number>;
+}
+
+export interface CycleStock {
+  corporation_id: number;
+  state_code: string;
+  item: string;
+  quantity: number;
+  value: number;
+}
+
+// Units a corporation has contracted to deliver from a state each hour
+export interface CycleCommitment {
+  corporation_id: number;
+  state_code: string;
+  item: string;
+  quantity: number;
+}
+
+// What is left of a state's reserve of a resource
+export interface CycleReserve {
+  state_code: string;
+  resource: string;
+  remaining: number;
+  capacity: number;
+}
+
+export interface CycleInput {
+  entries: CycleEntry[];
+  inventories: CycleStock[];
+  stockpiles: Record<string, number>;   // Market stockpile quantity per item
+  prices: Required<MarketPriceOverrides>;
+  getModifier?: (corporationId: number, unitType: UnitType, stateCode: string) => UnitEconomicsModifier;
+  getResearch?: (corporationId: number, sectorType: string, unitType: UnitType) => ResearchModifier;
+  commitments?: CycleCommitment[];      // Held in reserve like the corporation's own consumption
+  localPrices?: Record<string, Record<string, number>>;   // Per state, then per item; national prices otherwise
+  reserves?: CycleReserve[];            // Extraction is limited by these; pools not listed are unlimited
+}
+
+export interface CorporationCycleResult {
+  corporation_id: number;
+  revenue: number;
+  wholesale_revenue: number;
+  labor_cost: number;
+  purchases: number;
+  logistics_cost: number;     // Part of purchases paid above the national price to ship inputs in
+  cost_of_goods_sold: number;
+  opening_value: number;
+  closing_value: number;
+  cash_flow: number;          // Revenue - labor - purchases: what capital moves by
+  operating_income: number;   // Revenue - labor - cost of goods sold
+  unit_hours: Record<UnitType, { scheduled: number; operated: number }>;
+}
+
+export interface CycleOutcome {
+  corporations: CorporationCycleResult[];
+  inventoryChanges: Array<CycleStock & { item_type: InventoryItemType }>;
+  stockpileChanges: Record<string, number>;
+  reserveDepletion: Array<{ state_code: string; resource: string; quantity: number }>;
+}
+
+interface UnitPlan {
+  entry: CycleEntry;
+  unitType: UnitType;
+  count: number;
+  inputs: Record<string, number>;      // Per unit per hour
+  output: { item: string; amount: number } | null;
+  byproducts: Array<{ item: string; amount: number }>;   // Products research unlocked, per unit per hour
+  consumerRevenue: number;             // Per unit per hour, for retail and service
+  laborCost: number;
+  inputCostFactor: number;             // Wholesale discount retail and service units buy at
+  modifier: UnitEconomicsModifier;
+}
+
+const stockKey = (corporationId: number, stateCode: string, item: string) => `${corporationId}|${stateCode}|${item}`;
+
+const NO_MODIFIER: UnitEconomicsModifier = { revenueMultiplier: 1, costMultiplier: 1 };
+
+/**
+ * Run one hour of production against physical stock.
+ *
+ * Each stage draws its inputs from the corporation's own stock in the same state
+ * first, then from the market stockpile, and when that runs short from imports
+ * (limited, and at a premium). Scarce market supply is rationed pro rata, and a
+ * unit runs at the fraction its scarcest input allows; the rest of the hour it idles.
+ * Extraction and production deposit their output into stock at the cost of the
+ * inputs used, and anything beyond a few hours of the corporation's own needs in
+ * that state is sold into the market stockpile. Extraction yields less as the
+ * state's reserve runs down and stops when it is exhausted. Market purchases and
+ * sales use the state's local price when one is given, so shipping between regions
+ * is paid for. Completed research scales a corporation's outputs, inputs and labor,
+ * and can add products its production units make alongside their own.
+ */
+export function simulateProductionCycle(input: CycleInput): CycleOutcome {
+  const { prices } = input;
+  const stock = new Map<string, { quantity: number; value: number }>();
+  const opening = new Map<number, number>();
+  for (const row of input.inventories) {
+    stock.set(stockKey(row.corporation_id, row.state_code, row.item), { quantity: row.quantity, value: row.value });
+    opening.set(row.corporation_id, (opening.get(row.corporation_id) ?? 0) + row.value);
+  }
+  const initialStock = new Map([...stock].map(([key, level]) => [key, { ...level }]));
+  const pool: Record<string, number> = { ...input.stockpiles };
+
+  const results = new Map<number, CorporationCycleResult>();
+  const resultFor = (corporationId: number): CorporationCycleResult => {
+    let result = results.get(corporationId);
+    if (!result) {
+      result = {
+        corporation_id: corporationId,
+        revenue: 0,
+        wholesale_revenue: 0,
+        labor_cost: 0,
+        purchases: 0,
+        logistics_cost: 0,
+        cost_of_goods_sold: 0,
+        opening_value: opening.get(corporationId) ?? 0,
+        closing_value: 0,
+        cash_flow: 0,
+        operating_income: 0,
+        unit_hours: {
+          retail: { scheduled: 0, operated: 0 },
+          production: { scheduled: 0, operated: 0 },
+          service: { scheduled: 0, operated: 0 },
+          extraction: { scheduled: 0, operated: 0 },
+        },
+      };
+      results.set(corporationId, result);
+    }
+    return result;
+  };
+
+  const unitPrice = (item: string): number =>
+    prices.commodityPrices[item as Resource] ?? prices.productPrices[item as Product] ?? 0;
+  const localPrice = (stateCode: string, item: string): number =>
+    input.localPrices?.[stateCode]?.[item] ?? unitPrice(item);
+
+  // Build a plan for every staffed unit type, and total each corporation's hourly needs per state
+  const plans: UnitPlan[] = [];
+  const hourlyNeeds = new Map<string, number>();
+  for (const entry of input.entries) {
+    resultFor(entry.corporation_id);
+    for (const unitType of CYCLE_STAGES) {
+      const count = entry.units[unitType] || 0;
+      if (count <= 0) continue;
+
+      const eco = getDynamicUnitEconomics(unitType, entry.sector_type, prices);
+      const modifier = input.getModifier?.(entry.corporation_id, unitType, entry.state_code) ?? NO_MODIFIER;
+      const research = input.getResearch?.(entry.corporation_id, entry.sector_type, unitType) ?? NO_RESEARCH;
+
+      // Units without a physical supply chain keep their flat economics
+      if (!eco.isDynamic) {
+        const result = resultFor(entry.corporation_id);
+        result.revenue += eco.hourlyRevenue * count * modifier.revenueMultiplier * research.outputMultiplier;
+        result.labor_cost += eco.hourlyCost * count * modifier.costMultiplier * research.laborMultiplier;
+        result.unit_hours[unitType].scheduled += count;
+        result.unit_hours[unitType].operated += count;
+        continue;
+      }
+
+      const inputs: Record<string, number> = {};
+      for (const [item, amount] of Object.entries({ ...eco.resourceConsumedAmounts, ...eco.productConsumedAmounts })) {
+        if (amount && amount > 0) inputs[item] = amount * research.inputMultiplier;
+      }
+
+      let output: UnitPlan['output'] = null;
+      if (unitType === 'extraction' && eco.resourceConsumed) {
+        output = { item: eco.resourceConsumed, amount: EXTRACTION_OUTPUT_RATE * research.outputMultiplier };
+      } else if (unitType === 'production' && eco.productProduced) {
+        output = { item: eco.productProduced, amount: eco.productProducedAmount * research.outputMultiplier };
+      }
+      const byproducts = Object.entries(research.unlockedOutputs)
+        .filter(([, amount]) => amount > 0)
+        .map(([item, amount]) => ({ item, amount }));
+
+      const isConsumer = unitType === 'retail' || unitType === 'service';
+      const listCost = Object.entries(inputs).reduce((sum, [item, amount]) => sum + amount * unitPrice(item), 0);
+
+      plans.push({
+        entry,
+        unitType,
+        count,
+        inputs,
+        output,
+        byproducts,
+        consumerRevenue: isConsumer ? eco.hourlyRevenue : 0,
+        laborCost: eco.laborCost * research.laborMultiplier,
+        inputCostFactor: isConsumer && listCost > 0 ? eco.productCost / listCost : 1,
+        modifier,
+      });
+
+      for (const [item, amount] of Object.entries(inputs)) {
+        const key = stockKey(entry.corporation_id, entry.state_code, item);
+        hourlyNeeds.set(key, (hourlyNeeds.get(key) ?? 0) + amount * count);
+      }
+    }
+  }
+
+  // Extraction yields less as a state's reserve runs down, and never more than is left
+  const reserves = new Map((input.reserves ?? []).map(reserve => [`${reserve.state_code}|${reserve.resource}`, reserve]));
+  const extractionPlans = new Map<string, UnitPlan[]>();
+  for (const plan of plans) {
+    if (plan.unitType !== 'extraction' || !plan.output) continue;
+    const key = `${plan.entry.state_code}|${plan.output.item}`;
+    const reserve = reserves.get(key);
+    if (!reserve) continue;
+    plan.output.amount *= calculateReserveYield(reserve.remaining, reserve.capacity);
+    extractionPlans.set(key, [...(extractionPlans.get(key) ?? []), plan]);
+  }
+  for (const [key, reservePlans] of extractionPlans) {
+    const planned = reservePlans.reduce((sum, plan) => sum + plan.output!.amount * plan.count, 0);
+    const remaining = Math.max(0, reserves.get(key)!.remaining);
+    if (planned > remaining) {
+      for (const plan of reservePlans) {
+        plan.output!.amount *= remaining / planned;
+      }
+    }
+  }
+  const depletion = new Map<string, number>();
+
+  for (const commitment of input.commitments ?? []) {
+    const key = stockKey(commitment.corporation_id, commitment.state_code, commitment.item);
+    hourlyNeeds.set(key, (hourlyNeeds.get(key) ?? 0) + commitment.quantity);
+  }
+
+  for (const stage of CYCLE_STAGES) {
+    const stagePlans = plans.filter(plan => plan.unitType === stage);
+    if (stagePlans.length === 0) continue;
+
+    // What each plan can cover from its own stock, and what it must buy
+    const shortfalls = stagePlans.map(plan => {
+      const own: Record<string, number> = {};
+      const short: Record<string, number> = {};
+      for (const [item, amount] of Object.entries(plan.inputs)) {
+        const need = amount * plan.count;
+        const held = stock.get(stockKey(plan.entry.corporation_id, plan.entry.state_code, item))?.quantity ?? 0;
+        own[item] = Math.min(held, need);
+        short[item] = need - own[item];
+      }
+      return { own, short };
+    });
+
+    const totalShort: Record<string, number> = {};
+    for (const { short } of shortfalls) {
+      for (const [item, amount] of Object.entries(short)) {
+        totalShort[item] = (totalShort[item] ?? 0) + amount;
+      }
+    }
+
+    // Share of each plan's shortfall the market can fill
+    const fillRatio: Record<string, number> = {};
+    for (const [item, total] of Object.entries(totalShort)) {
+      if (total <= 0) { fillRatio[item] = 1; continue; }
+      const inPool = Math.max(0, pool[item] ?? 0);
+      const imports = Math.max(0, total - inPool) * INVENTORY_CONFIG.IMPORT_SHARE;
+      fillRatio[item] = Math.min(1, (inPool + imports) / total);
+    }
+
+    // Each plan runs at the fraction its scarcest input allows
+    const utilization = stagePlans.map((plan, i) => {
+      let fraction = 1;
+      for (const [item, amount] of Object.entries(plan.inputs)) {
+        const need = amount * plan.count;
+        const available = shortfalls[i].own[item] + shortfalls[i].short[item] * (fillRatio[item] ?? 1);
+        fraction = Math.min(fraction, need > 0 ? available / need : 1);
+      }
+      return Math.max(0, fraction);
+    });
+
+    // Market draws are settled together: the stockpile is used first, imports make up the rest
+    const marketDraw: Record<string, number> = {};
+    const draws = stagePlans.map((plan, i) => {
+      const fromOwn: Record<string, number> = {};
+      const fromMarket: Record<string, number> = {};
+      for (const [item, amount] of Object.entries(plan.inputs)) {
+        const used = amount * plan.count * utilization[i];
+        fromOwn[item] = Math.min(shortfalls[i].own[item], used);
+        fromMarket[item] = used - fromOwn[item];
+        marketDraw[item] = (marketDraw[item] ?? 0) + fromMarket[item];
+      }
+      return { fromOwn, fromMarket };
+    });
+
+    const importShare: Record<string, number> = {};
+    for (const [item, drawn] of Object.entries(marketDraw)) {
+      const inPool = Math.max(0, pool[item] ?? 0);
+      const fromPool = Math.min(inPool, drawn);
+      importShare[item] = drawn > 0 ? (drawn - fromPool) / drawn : 0;
+      pool[item] = (pool[item] ?? 0) - fromPool;
+    }
+
+    const depositedKeys = new Set<string>();
+    stagePlans.forEach((plan, i) => {
+      const { entry, modifier } = plan;
+      const result = resultFor(entry.corporation_id);
+      const fraction = utilization[i];
+      let inputValue = 0;
+
+      for (const item of Object.keys(plan.inputs)) {
+        const taken = draws[i].fromOwn[item];
+        if (taken > 0) {
+          const level = stock.get(stockKey(entry.corporation_id, entry.state_code, item))!;
+          const value = level.quantity > 0 ? level.value * (taken / level.quantity) : 0;
+          level.quantity -= taken;
+          level.value -= value;
+          inputValue += value;
+        }
+
+        const bought = draws[i].fromMarket[item];
+        if (bought > 0) {
+          const factor = plan.inputCostFactor * modifier.costMultiplier;
+          const price = localPrice(entry.state_code, item) * (1 + importShare[item] * INVENTORY_CONFIG.IMPORT_PREMIUM);
+          const cost = bought * price * factor;
+          result.purchases += cost;
+          result.logistics_cost += bought * Math.max(0, localPrice(entry.state_code, item) - unitPrice(item)) * factor;
+          inputValue += cost;
+        }
+      }
+
+      const staffedShare = fraction + (1 - fraction) * INVENTORY_CONFIG.IDLE_LABOR_SHARE;
+      result.labor_cost += plan.laborCost * plan.count * staffedShare * modifier.costMultiplier;
+      result.revenue += plan.consumerRevenue * plan.count * fraction * modifier.revenueMultiplier;
+      result.unit_hours[plan.unitType].scheduled += plan.count;
+      result.unit_hours[plan.unitType].operated += plan.count * fraction;
+
+      if (plan.output && fraction > 0) {
+        const key = stockKey(entry.corporation_id, entry.state_code, plan.output.item);
+        const level = stock.get(key) ?? { quantity: 0, value: 0 };
+        const produced = plan.output.amount * plan.count * fraction;
+        level.quantity += produced;
+        level.value += inputValue;
+        stock.set(key, level);
+        depositedKeys.add(key);
+
+        const reserveKey = `${entry.state_code}|${plan.output.item}`;
+        if (plan.unitType === 'extraction' && reserves.has(reserveKey)) {
+          depletion.set(reserveKey, (depletion.get(reserveKey) ?? 0) + produced);
+        }
+      }
+
+      // Unlocked products come out of the same inputs, so they carry no book value of their own
+      for (const byproduct of fraction > 0 ? plan.byproducts : []) {
+        const key = stockKey(entry.corporation_id, entry.state_code, byproduct.item);
+        const level = stock.get(key) ?? { quantity: 0, value: 0 };
+        level.quantity += byproduct.amount * plan.count * fraction;
+        stock.set(key, level);
+        depositedKeys.add(key);
+      }
+    });
+
+    // Sell output beyond the reserve into the market stockpile
+    for (const key of depositedKeys) {
+      const [corporationIdRaw, stateCode, item] = key.split('|');
+      const corporationId = parseInt(corporationIdRaw, 10);
+      const level = stock.get(key)!;
+      const reserve = (hourlyNeeds.get(key) ?? 0) * INVENTORY_CONFIG.RESERVE_HOURS;
+      const surplus = level.quantity - reserve;
+      if (surplus <= 0) continue;
+
+      const modifier = input.getModifier?.(corporationId, stage, stateCode) ?? NO_MODIFIER;
+      const proceeds = surplus * localPrice(stateCode, item) * modifier.revenueMultiplier;
+      const result = resultFor(corporationId);
+      result.revenue += proceeds;
+      result.wholesale_revenue += proceeds;
+
+      level.value -= level.value * (surplus / level.quantity);
+      level.quantity = reserve;
+      pool[item] = (pool[item] ?? 0) + surplus;
+    }
+  }
+
+  for (const [key, level] of stock) {
+    const corporationId = parseInt(key.split('|')[0], 10);
+    if (results.has(corporationId)) {
+      resultFor(corporationId).closing_value += level.value;
+    }
+  }
+
+  for (const result of results.values()) {
+    result.cost_of_goods_sold = result.opening_value + result.purchases - result.closing_value;
+    result.cash_flow = result.revenue - result.labor_cost - result.purchases;
+    result.operating_income = result.revenue - result.labor_cost - result.cost_of_goods_sold;
+  }
+
+  const inventoryChanges: CycleOutcome['inventoryChanges'] = [];
+  for (const [key, level] of stock) {
+    const before = initialStock.get(key) ?? { quantity: 0, value: 0 };
+    const quantity = roundQuantity(level.quantity - before.quantity);
+    const value = level.value - before.value;
+    if (quantity === 0 && Math.abs(value) < 1e-9) continue;
+
+    const [corporationIdRaw, stateCode, item] = key.split('|');
+    const itemType = getInventoryItemType(item);
+    if (!itemType) continue;
+    inventoryChanges.push({
+      corporation_id: parseInt(corporationIdRaw, 10),
+      state_code: stateCode,
+      item,
+      item_type: itemType,
+      quantity,
+      value,
+    });
+  }
+
+  const stockpileChanges: Record<string, number> = {};
+  for (const [item, quantity] of Object.entries(pool)) {
+    const change = roundQuantity(quantity - (input.stockpiles[item] ?? 0));
+    if (change !== 0) stockpileChanges[item] = change;
+  }
+
+  const reserveDepletion: CycleOutcome['reserveDepletion'] = [];
+  for (const [key, quantity] of depletion) {
+    const [stateCode, resource] = key.split('|');
+    if (quantity > 0) reserveDepletion.push({ state_code: stateCode, resource, quantity: roundQuantity(quantity) });
+  }
+
+  return {
+    corporations: [...results.values()],
+    inventoryChanges,
+    stockpileChanges,
+    reserveDepletion,
+  };
+}
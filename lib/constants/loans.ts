@@ -0,0 +1,42 @@
+export const LOAN_CONFIG = {
+  // Game time: 1 quarter = 24 real hours, so 1 game month = 8 hours and 1 game year = 96 hours
+  HOURS_PER_GAME_MONTH: 8,
+  HOURS_PER_GAME_YEAR: 96,
+
+  // Underwriting
+  BASE_INTEREST_RATE: 5, // Annual %, quoted to a debt-free corporation
+  LEVERAGE_RATE_PREMIUM: 20, // Extra annual % at 100% debt-to-assets
+  MAX_DEBT_TO_ASSETS: 0.5, // Total outstanding principal may not exceed 50% of total assets
+  MAX_ACTIVE_LOANS: 3,
+
+  // Servicing
+  MAX_MISSED_PAYMENTS: 24, // Consecutive missed hourly payments (3 game months) before default
+  PAID_OFF_THRESHOLD: 0.01, // Balances below one cent are treated as repaid
+} as const;
+
+/**
+ * Quote an annual interest rate (%) for a borrower with the given debt-to-assets ratio.
+ * Ratio is measured after the new loan is added.
+ */
+export function quoteInterestRate(debtToAssets: number): number {
+  const leverage = Math.min(1, Math.max(0, debtToAssets));
+  const rate = LOAN_CONFIG.BASE_INTEREST_RATE + leverage * LOAN_CONFIG.LEVERAGE_RATE_PREMIUM;
+  return Math.round(rate * 100) / 100;
+}
+
+/**
+ * Convert an annual interest rate (%) into the rate charged per hourly payment period
+ */
+export function getHourlyInterestRate(annualRatePercent: number): number {
+  return annualRatePercent / 100 / LOAN_CONFIG.HOURS_PER_GAME_YEAR;
+}
+
+/**
+ * Level hourly payment that fully amortizes the principal over the term (standard annuity formula)
+ */
+export function calculateHourlyPayment(principal: number, annualRatePercent: number, termHours: number): number {
+  if (principal <= 0 || termHours <= 0) return 0;
+  const r = getHourlyInterestRate(annualRatePercent);
+  if (r === 0) return principal / termHours;
+  return (principal * r) / (1 - Math.pow(1 + r, -termHours));
+}
@@ -0,0 +1,153 @@
+import { US_REGIONS, getStateMultiplier, getStateRegion } from './sectors';
+import { roundToCents } from './orders';
+
+export const LOGISTICS_CONFIG = {
+  // Shipping a unit across one region boundary costs this share of its national price
+  COST_PER_HOP_PCT: 4,
+
+  // Delivery from a region's hub into one of its states, in hops, for a state with a
+  // population multiplier of 1. Larger states are hubs themselves, so this shrinks
+  // with the multiplier.
+  INTRA_REGION_HOPS: 0.5,
+
+  // Alaska and Hawaii are reached by sea or air
+  REMOTE_STATES: ['AK', 'HI'] as readonly string[],
+  REMOTE_EXTRA_HOPS: 2,
+
+  // Distance assumed when no other region has the surplus (or shortage) to trade with
+  DEFAULT_HOPS: 1,
+} as const;
+
+// Regions that share a border. Northeast and West are two hops apart.
+export const REGION_ADJACENCY: Record<string, string[]> = {
+  'Northeast': ['Midwest', 'South'],
+  'Midwest': ['Northeast', 'South', 'West'],
+  'South': ['Northeast', 'Midwest', 'West'],
+  'West': ['Midwest', 'South'],
+};
+
+/**
+ * Region boundaries crossed on the shortest route between two regions
+ */
+export function getRegionHops(fromRegion: string, toRegion: string): number {
+  if (fromRegion === toRegion) return 0;
+
+  const visited = new Set([fromRegion]);
+  let frontier = [fromRegion];
+  for (let hops = 1; frontier.length > 0; hops++) {
+    const next: string[] = [];
+    for (const region of frontier) {
+      for (const neighbour of REGION_ADJACENCY[region] ?? []) {
+        if (neighbour === toRegion) return hops;
+        if (!visited.has(neighbour)) {
+          visited.add(neighbour);
+          next.push(neighbour);
+        }
+      }
+    }
+    frontier = next;
+  }
+  return Object.keys(US_REGIONS).length;
+}
+
+/**
+ * Hops from a state's regional hub to the state itself
+ */
+export function getStateDeliveryHops(stateCode: string): number {
+  const hubHops = LOGISTICS_CONFIG.INTRA_REGION_HOPS / getStateMultiplier(stateCode);
+  return LOGISTICS_CONFIG.REMOTE_STATES.includes(stateCode)
+    ? hubHops + LOGISTICS_CONFIG.REMOTE_EXTRA_HOPS
+    : hubHops;
+}
+
+/**
+ * Shipping between two states, as a share (in percent) of the value of the goods:
+ * the region boundaries crossed plus delivery into the destination state.
+ * Goods that stay in one state ship for free.
+ */
+export function getShippingCostPct(fromStateCode: string, toStateCode: string): number {
+  if (fromStateCode === toStateCode) return 0;
+
+  const fromRegion = getStateRegion(fromStateCode);
+  const toRegion = getStateRegion(toStateCode);
+  const regionHops = fromRegion && toRegion ? getRegionHops(fromRegion, toRegion) : LOGISTICS_CONFIG.DEFAULT_HOPS;
+  return (regionHops + getStateDeliveryHops(toStateCode)) * LOGISTICS_CONFIG.COST_PER_HOP_PCT;
+}
+
+// ============================================================================
+// REGIONAL PRICES
+// ============================================================================
+
+// Hourly supply and demand of one item within one region
+export interface RegionalBalance {
+  supply: number;
+  demand: number;
+}
+
+/**
+ * Average hops to the regions on the other side of the market, weighted by how much
+ * each of them has to trade (surplus when importing, shortage when exporting)
+ */
+function weightedHops(
+  region: string,
+  balances: Record<string, RegionalBalance>,
+  side: 'surplus' | 'shortage'
+): number {
+  let weight = 0;
+  let hops = 0;
+  for (const [other, balance] of Object.entries(balances)) {
+    if (other === region) continue;
+    const amount = side === 'surplus' ? balance.supply - balance.demand : balance.demand - balance.supply;
+    if (amount <= 0) continue;
+    weight += amount;
+    hops += amount * getRegionHops(other, region);
+  }
+  return weight > 0 ? hops / weight : LOGISTICS_CONFIG.DEFAULT_HOPS;
+}
+
+/**
+ * Local price of an item in a state.
+ *
+ * A region that consumes more than it produces imports the difference from the regions
+ * with a surplus, so the imported share of its demand costs the national price plus
+ * shipping. A region that produces more than it consumes has to ship the surplus out,
+ * so its producers net the national price less shipping. Local prices therefore diverge
+ * from the national price by at most the cost of moving goods between regions.
+ */
+export function calculateLocalPrice(
+  nationalPrice: number,
+  stateCode: string,
+  balances: Record<string, RegionalBalance>
+): number {
+  const region = getStateRegion(stateCode);
+  if (!region || nationalPrice <= 0) return nationalPrice;
+
+  const { supply, demand } = balances[region] ?? { supply: 0, demand: 0 };
+  const importedShare = demand > 0 ? Math.max(0, demand - supply) / demand : 0;
+  const exportedShare = supply > 0 ? Math.max(0, supply - demand) / supply : 0;
+  const deliveryHops = getStateDeliveryHops(stateCode);
+
+  const premiumHops = importedShare * (weightedHops(region, balances, 'surplus') + deliveryHops);
+  const discountHops = exportedShare * (weightedHops(region, balances, 'shortage') + deliveryHops);
+
+  const adjustment = (premiumHops - discountHops) * LOGISTICS_CONFIG.COST_PER_HOP_PCT / 100;
+  return roundToCents(nationalPrice * Math.max(0, 1 + adjustment));
+}
+
+/**
+ * Local prices of every item in every given state, keyed by state code then item
+ */
+export function calculateLocalPrices(
+  nationalPrices: Record<string, number>,
+  balances: Record<string, Record<string, RegionalBalance>>,
+  stateCodes: readonly string[]
+): Record<string, Record<string, number>> {
+  const prices: Record<string, Record<string, number>> = {};
+  for (const stateCode of stateCodes) {
+    prices[stateCode] = {};
+    for (const [item, nationalPrice] of Object.entries(nationalPrices)) {
+      prices[stateCode][item] = calculateLocalPrice(nationalPrice, stateCode, balances[item] ?? {});
+    }
+  }
+  return prices;
+}
@@ -0,0 +1,118 @@
+import { SECTORS, Sector, isValidSector } from './sectors';
+
+/**
+ * Market indices:
+ * - market: every listed corporation, weighted by market cap
+ * - sector:<Sector>: the corporations of one sector (Corporation.type), weighted by market cap
+ * - commodities: every resource, weighted equally
+ */
+export type SectorIndexKey = `sector:${Sector}`;
+export type MarketIndexKey = 'market' | 'commodities' | SectorIndexKey;
+
+export const MARKET_INDEX_CONFIG = {
+  BASE_LEVEL: 1000,               // Level of an index at its first recording
+  DEFAULT_HISTORY_HOURS: 168,
+  MAX_HISTORY_HOURS: 720,
+  BENCHMARK_PERIODS: [
+    { label: '1D', hours: 24 },
+    { label: '7D', hours: 168 },
+  ],
+} as const;
+
+// A holding of the index: `units` of something priced at `price`
+export interface IndexConstituent {
+  key: string;
+  price: number;
+  units: number;
+}
+
+export interface IndexSnapshot {
+  level: number;
+  constituents: IndexConstituent[];
+}
+
+export function getSectorIndexKey(sector: Sector): SectorIndexKey {
+  return `sector:${sector}`;
+}
+
+export function getIndexSector(key: MarketIndexKey): Sector | null {
+  return key.startsWith('sector:') ? (key.slice('sector:'.length) as Sector) : null;
+}
+
+export function isMarketIndexKey(value: string): value is MarketIndexKey {
+  if (value === 'market' || value === 'commodities') return true;
+  return value.startsWith('sector:') && isValidSector(value.slice('sector:'.length));
+}
+
+// Every index, in display order
+export const MARKET_INDEX_KEYS: MarketIndexKey[] = ['market', 'commodities', ...SECTORS.map(getSectorIndexKey)];
+
+/**
+ * The index a corporation is measured against: its sector's, or the whole market's
+ * when it has no sector
+ */
+export function getBenchmarkIndexKey(corporationType: string | null): MarketIndexKey {
+  return corporationType && isValidSector(corporationType) ? getSectorIndexKey(corporationType) : 'market';
+}
+
+export function getMarketIndexName(key: MarketIndexKey): string {
+  if (key === 'market') return 'All-Corporation Index';
+  if (key === 'commodities') return 'Commodity Basket Index';
+  return `${getIndexSector(key)} Sector Index`;
+}
+
+export function getMarketIndexSymbol(key: MarketIndexKey): string {
+  if (key === 'market') return 'MKT';
+  if (key === 'commodities') return 'CMDTY';
+  return (getIndexSector(key) as string).slice(0, 4).toUpperCase();
+}
+
+/**
+ * Corporations held at their shares outstanding, so each weighs in at its market cap
+ */
+export function getCapWeightedConstituents(
+  corporations: Array<{ id: number; share_price: number; shares: number }>
+): IndexConstituent[] {
+  return corporations
+    .filter(corp => Number(corp.share_price) > 0 && corp.shares > 0)
+    .map(corp => ({ key: String(corp.id), price: Number(corp.share_price), units: corp.shares }));
+}
+
+/**
+ * Items held at one dollar's worth each, so each weighs in equally
+ */
+export function getEqualWeightedConstituents(prices: Record<string, number>): IndexConstituent[] {
+  return Object.entries(prices)
+    .filter(([, price]) => price > 0)
+    .map(([key, price]) => ({ key, price, units: 1 / price }));
+}
+
+/**
+ * Next level of a chain-linked index: the previous level moved by the return on the
+ * previous holdings at current prices. Constituents that joined since only count from
+ * the next recording, and those that left are dropped, so membership changes never
+ * move the level on their own.
+ */
+export function getNextIndexLevel(previous: IndexSnapshot | null, constituents: IndexConstituent[]): number {
+  if (!previous) return MARKET_INDEX_CONFIG.BASE_LEVEL;
+
+  const prices = new Map(constituents.map(constituent => [constituent.key, constituent.price]));
+  let previousValue = 0;
+  let currentValue = 0;
+  for (const held of previous.constituents) {
+    const price = prices.get(held.key);
+    if (price === undefined) continue;
+    previousValue += held.price * held.units;
+    currentValue += price * held.units;
+  }
+
+  return previousValue > 0 ? previous.level * (currentValue / previousValue) : previous.level;
+}
+
+/**
+ * Performance against a benchmark, in percent: positive when the asset beat it
+ */
+export function getRelativePerformance(changePercent: number | null, benchmarkChangePercent: number | null): number | null {
+  if (changePercent === null || benchmarkChangePercent === null || benchmarkChangePercent <= -100) return null;
+  return ((1 + changePercent / 100) / (1 + benchmarkChangePercent / 100) - 1) * 100;
+}
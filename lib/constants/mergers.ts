@@ -0,0 +1,19 @@
+export const MERGER_CONFIG = {
+  // Acquirer shares issued per target share
+  MIN_EXCHANGE_RATIO: 0.0001,
+  MAX_EXCHANGE_RATIO: 100,
+  EXCHANGE_RATIO_DECIMALS: 4,
+} as const;
+
+export function roundExchangeRatio(ratio: number): number {
+  const factor = 10 ** MERGER_CONFIG.EXCHANGE_RATIO_DECIMALS;
+  return Math.round(ratio * factor) / factor;
+}
+
+/**
+ * Acquirer shares a holding of target shares converts into.
+ * Rounded to whole shares, so a tiny holding at a small ratio can convert to none.
+ */
+export function convertShares(targetShares: number, exchangeRatio: number): number {
+  return Math.round(targetShares * exchangeRatio);
+}
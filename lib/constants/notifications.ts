@@ -0,0 +1,86 @@
+export const NOTIFICATION_CATEGORIES = [
+  'dividend_received',
+  'proposal_opened',
+  'proposal_resolved',
+  'vote_needed',
+  'price_alert',
+  'ceo_change',
+  'salary_paid',
+  'market_entry',
+  'tender_offer',
+  'merger',
+  'margin_call',
+  'supply_contract',
+] as const;
+
+export type NotificationCategory = typeof NOTIFICATION_CATEGORIES[number];
+
+/**
+ * How a user receives a category:
+ * - instant: shown in the notification menu as it happens
+ * - digest: held, then summed up in one notification per digest run
+ * - muted: not recorded at all
+ */
+export const NOTIFICATION_DELIVERIES = ['instant', 'digest', 'muted'] as const;
+export type NotificationDelivery = typeof NOTIFICATION_DELIVERIES[number];
+
+// Categories a user has changed from the default (instant)
+export type NotificationPreferences = Partial<Record<NotificationCategory, NotificationDelivery>>;
+
+export const NOTIFICATION_CATEGORY_INFO: Record<NotificationCategory, { label: string; description: string }> = {
+  dividend_received: { label: 'Dividends received', description: 'Dividends paid on shares you hold or lent out' },
+  proposal_opened: { label: 'Proposals opened', description: 'New board proposals at corporations you hold shares in' },
+  proposal_resolved: { label: 'Proposals resolved', description: 'Results of board votes on boards you sit on' },
+  vote_needed: { label: 'Votes needed', description: 'Proposals waiting for your vote as a board member' },
+  price_alert: { label: 'Price alerts', description: 'Prices crossing the alerts you have set' },
+  ceo_change: { label: 'CEO changes', description: 'CEO elections and resignations on boards you sit on' },
+  salary_paid: { label: 'Salary paid', description: 'CEO salary payments to you' },
+  market_entry: { label: 'Market entries', description: 'New markets entered by corporations whose board you sit on' },
+  tender_offer: { label: 'Tender offers', description: 'Offers for shares you hold, and the outcome of offers you made or tendered into' },
+  merger: { label: 'Mergers', description: 'Mergers completed or failed at corporations you run or hold shares in' },
+  margin_call: { label: 'Margin calls', description: 'Short positions of yours that fell below the maintenance margin' },
+  supply_contract: { label: 'Supply contracts', description: 'Answers to the supply contracts your corporations proposed' },
+};
+
+export const NOTIFICATION_CONFIG = {
+  LIST_LIMIT: 50,                 // Most recent notifications returned to the menu
+  RETENTION_DAYS: 30,             // Notifications older than this are deleted by the digest job
+  DIGEST_MAX_TITLES: 5,           // Titles listed per category in a digest before "and N more"
+} as const;
+
+export function getNotificationDelivery(preferences: NotificationPreferences | null, category: NotificationCategory): NotificationDelivery {
+  return preferences?.[category] ?? 'instant';
+}
+
+/**
+ * Sum up held notifications in one digest: a line per category with its count and
+ * the latest titles. Returns null when nothing is held.
+ */
+export function buildNotificationDigest(
+  held: Array<{ category: NotificationCategory; title: string }>
+): { title: string; body: string } | null {
+  if (held.length === 0) return null;
+
+  const byCategory = new Map<NotificationCategory, string[]>();
+  for (const notification of held) {
+    byCategory.set(notification.category, [...(byCategory.get(notification.category) ?? []), notification.title]);
+  }
+
+  const sections = NOTIFICATION_CATEGORIES
+    .filter(category => byCategory.has(category))
+    .map(category => {
+      const titles = byCategory.get(category)!;
+      const shown = titles.slice(-NOTIFICATION_CONFIG.DIGEST_MAX_TITLES).reverse();
+      const more = titles.length - shown.length;
+      return [
+        `${NOTIFICATION_CATEGORY_INFO[category].label} (${titles.length})`,
+        ...shown.map(title => `• ${title}`),
+        ...(more > 0 ? [`• and ${more} more`] : []),
+      ].join('\n');
+    });
+
+  return {
+    title: `Digest: ${held.length} notification${held.length === 1 ? '' : 's'}`,
+    body: sections.join('\n\n'),
+  };
+}
@@ -0,0 +1,17 @@
+export const ORDER_BOOK_CONFIG = {
+  MAX_OPEN_ORDERS_PER_USER: 20,
+  BOOK_DEPTH_LEVELS: 10, // Price levels returned per side of the book
+} as const;
+
+/**
+ * Round a price to whole cents (all limit prices and fills are quoted in cents)
+ */
+export function roundToCents(value: number): number {
+  return Math.round(value * 100) / 100;
+}
+
+export const SPOT_MARKET_CONFIG = {
+  MAX_OPEN_ORDERS_PER_CORPORATION: 20,
+  BOOK_DEPTH_LEVELS: 10,  // Price levels returned per side of each item's book
+  RECENT_TRADES: 20,      // Fills shown alongside the book
+} as const;
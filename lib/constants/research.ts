@@ -0,0 +1,210 @@
+import type { Product, Sector, UnitType } from './sectors';
+
+export const RESEARCH_EFFECT_TYPES = ['output_increase', 'labor_reduction', 'input_reduction', 'product_unlock'] as const;
+export type ResearchEffectType = typeof RESEARCH_EFFECT_TYPES[number];
+
+/**
+ * One permanent effect of a completed research project on a corporation's units in its sector.
+ * - output_increase: units produce +value output from the same inputs (0.10 = +10%)
+ * - labor_reduction: unit labor costs -value
+ * - input_reduction: units consume -value inputs for the same output
+ * - product_unlock: production units also make `value` of `product` per unit-hour
+ */
+export interface ResearchEffect {
+  type: ResearchEffectType;
+  value: number;
+  unit_types: UnitType[] | null; // null = all unit types
+  product?: Product;             // product_unlock only
+}
+
+export interface ResearchProject {
+  key: string;
+  name: string;
+  description: string;
+  cost: number;
+  action_cost: number;
+  duration_hours: number;
+  requires: string[];            // Project keys that must be completed first
+  effects: ResearchEffect[];
+}
+
+export const RESEARCH_CONFIG = {
+  MAX_ACTIVE_PROJECTS: 1,        // A corporation researches one project at a time
+} as const;
+
+// Every sector researches the same core tree
+const CORE_PROJECTS: ResearchProject[] = [
+  {
+    key: 'process_engineering',
+    name: 'Process Engineering',
+    description: 'Retool lines and rigs for throughput: +10% production and extraction output.',
+    cost: 2000000,
+    action_cost: 3,
+    duration_hours: 24,
+    requires: [],
+    effects: [{ type: 'output_increase', value: 0.10, unit_types: ['production', 'extraction'] }],
+  },
+  {
+    key: 'workforce_training',
+    name: 'Workforce Training',
+    description: 'Train staff across every unit: -10% labor costs.',
+    cost: 1500000,
+    action_cost: 2,
+    duration_hours: 24,
+    requires: [],
+    effects: [{ type: 'labor_reduction', value: 0.10, unit_types: null }],
+  },
+  {
+    key: 'material_efficiency',
+    name: 'Material Efficiency',
+    description: 'Cut waste on the factory floor: production units use 10% fewer inputs.',
+    cost: 3000000,
+    action_cost: 3,
+    duration_hours: 48,
+    requires: ['process_engineering'],
+    effects: [{ type: 'input_reduction', value: 0.10, unit_types: ['production'] }],
+  },
+  {
+    key: 'automation',
+    name: 'Automation',
+    description: 'Automate routine work: +15% production and extraction output and -10% labor costs.',
+    cost: 5000000,
+    action_cost: 5,
+    duration_hours: 72,
+    requires: ['process_engineering', 'workforce_training'],
+    effects: [
+      { type: 'output_increase', value: 0.15, unit_types: ['production', 'extraction'] },
+      { type: 'labor_reduction', value: 0.10, unit_types: null },
+    ],
+  },
+];
+
+// Sectors whose production units can learn to make a second product
+export const SECTOR_PRODUCT_UNLOCKS: Partial<Record<Sector, { product: Product; rate: number; name: string }>> = {
+  'Heavy Industry': { product: 'Manufactured Goods', rate: 0.2, name: 'Steel Fabrication' },
+  'Light Industry': { product: 'Technology Products', rate: 0.1, name: 'Consumer Electronics' },
+  'Technology': { product: 'Defense Equipment', rate: 0.1, name: 'Defense Electronics' },
+  'Agriculture': { product: 'Electricity', rate: 0.2, name: 'Biofuels' },
+  'Pharmaceuticals': { product: 'Food Products', rate: 0.2, name: 'Nutritional Supplements' },
+  'Construction': { product: 'Logistics Capacity', rate: 0.2, name: 'Heavy Haulage' },
+};
+
+/**
+ * The research tree of a sector: the core projects, plus a product unlock where the sector has one
+ */
+export function getSectorResearchTree(sector: string): ResearchProject[] {
+  const unlock = SECTOR_PRODUCT_UNLOCKS[sector as Sector];
+  if (!unlock) return CORE_PROJECTS;
+  return [
+    ...CORE_PROJECTS,
+    {
+      key: 'product_development',
+      name: unlock.name,
+      description: `Production units also make ${unlock.rate} ${unlock.product} per hour.`,
+      cost: 4000000,
+      action_cost: 4,
+      duration_hours: 48,
+      requires: ['material_efficiency'],
+      effects: [{ type: 'product_unlock', value: unlock.rate, unit_types: ['production'], product: unlock.product }],
+    },
+  ];
+}
+
+export function findResearchProject(sector: string, projectKey: string): ResearchProject | null {
+  return getSectorResearchTree(sector).find(project => project.key === projectKey) ?? null;
+}
+
+export interface ResearchModifier {
+  outputMultiplier: number;
+  laborMultiplier: number;
+  inputMultiplier: number;
+  unlockedOutputs: Partial<Record<Product, number>>;  // Extra products per unit-hour
+}
+
+export const NO_RESEARCH: ResearchModifier = {
+  outputMultiplier: 1,
+  laborMultiplier: 1,
+  inputMultiplier: 1,
+  unlockedOutputs: {},
+};
+
+/**
+ * Combine the effects of a corporation's completed projects in a sector on one unit type.
+ * Effects of the same type add up (+10% and +15% output give +25%).
+ */
+export function getResearchModifier(completedKeys: string[], sector: string, unitType: UnitType): ResearchModifier {
+  let output = 0;
+  let labor = 0;
+  let input = 0;
+  const unlockedOutputs: ResearchModifier['unlockedOutputs'] = {};
+
+  for (const project of getSectorResearchTree(sector)) {
+    if (!completedKeys.includes(project.key)) continue;
+    for (const effect of project.effects) {
+      if (effect.unit_types && !effect.unit_types.includes(unitType)) continue;
+
+      if (effect.type === 'output_increase') output += effect.value;
+      else if (effect.type === 'labor_reduction') labor += effect.value;
+      else if (effect.type === 'input_reduction') input += effect.value;
+      else if (effect.type === 'product_unlock' && effect.product) {
+        unlockedOutputs[effect.product] = (unlockedOutputs[effect.product] ?? 0) + effect.value;
+      }
+    }
+  }
+
+  return {
+    outputMultiplier: 1 + output,
+    laborMultiplier: Math.max(0, 1 - labor),
+    inputMultiplier: Math.max(0, 1 - input),
+    unlockedOutputs,
+  };
+}
+
+// Completed project keys per sector, for one corporation
+export type CompletedResearch = Record<string, string[]>;
+
+/**
+ * Research modifiers of every unit type in every sector a corporation has research in
+ */
+export function getResearchModifiers(completed: CompletedResearch): Record<string, Record<UnitType, ResearchModifier>> {
+  return Object.fromEntries(Object.entries(completed).map(([sector, keys]) => [sector, {
+    production: getResearchModifier(keys, sector, 'production'),
+    retail: getResearchModifier(keys, sector, 'retail'),
+    service: getResearchModifier(keys, sector, 'service'),
+    extraction: getResearchModifier(keys, sector, 'extraction'),
+  }]));
+}
+
+export type ResearchStatus = 'completed' | 'in_progress' | 'available' | 'locked';
+
+/**
+ * Where a project stands for a corporation, from the projects it has started in the sector.
+ * A project is completed once its completion time has passed.
+ */
+export function getResearchStatus(
+  project: ResearchProject,
+  started: Array<{ project_key: string; completes_at: Date }>,
+  now: Date = new Date()
+): ResearchStatus {
+  const isDone = (key: string) => started.some(record => record.project_key === key && record.completes_at <= now);
+  const record = started.find(entry => entry.project_key === project.key);
+  if (record) return record.completes_at <= now ? 'completed' : 'in_progress';
+  return project.requires.every(isDone) ? 'available' : 'locked';
+}
+
+/**
+ * Short human-readable summary of an effect, e.g. "+10% output (production, extraction)"
+ */
+export function describeResearchEffect(effect: ResearchEffect): string {
+  if (effect.type === 'product_unlock') {
+    return `Makes ${effect.value} ${effect.product}/hour`;
+  }
+  const pct = Math.round(effect.value * 1000) / 10;
+  const label = effect.type === 'output_increase'
+    ? `+${pct}% output`
+    : effect.type === 'labor_reduction'
+      ? `-${pct}% labor`
+      : `-${pct}% inputs`;
+  const units = effect.unit_types ? ` (${effect.unit_types.join(', ')})` : '';
+  return `${label}${units}`;
+}
@@ -0,0 +1,69 @@
+import { getStateResourceAmount, type Resource } from './sectors';
+
+export const RESERVE_CONFIG = {
+  // A state's STATE_RESOURCES figure times this is the number of units it can extract
+  // before its reserves run dry
+  UNITS_PER_POOL_POINT: 100,
+
+  // Yield stays full until a reserve falls below this share of its capacity, then
+  // falls in proportion down to MIN_YIELD as the last units are extracted
+  FULL_YIELD_SHARE: 0.5,
+  MIN_YIELD: 0.1,
+
+  // Exploration
+  EXPLORATION_COST: 250000,
+  EXPLORATION_COOLDOWN_HOURS: 24,     // Per corporation, state and resource
+  SUCCESS_CHANCE: 0.5,                // Where the state already has deposits of the resource
+  FRONTIER_SUCCESS_CHANCE: 0.1,       // Where it has none yet
+  // Size of a find, as a share of the state's original reserve (or of FRONTIER_RESERVE)
+  DISCOVERY_MIN_SHARE: 0.05,
+  DISCOVERY_MAX_SHARE: 0.25,
+  FRONTIER_RESERVE: 20000,
+} as const;
+
+/**
+ * Extractable units a state starts with, from its static resource pool
+ */
+export function getOriginalReserve(stateCode: string, resource: Resource): number {
+  return getStateResourceAmount(stateCode, resource) * RESERVE_CONFIG.UNITS_PER_POOL_POINT;
+}
+
+/**
+ * Original reserve plus everything discovered since
+ */
+export function getReserveCapacity(reserve: { original_amount: number; discovered: number }): number {
+  return reserve.original_amount + reserve.discovered;
+}
+
+/**
+ * Share of the normal extraction rate a state's reserve still yields
+ *
+ * @param remaining - Units left in the ground
+ * @param capacity - Original reserve plus everything discovered since
+ */
+export function calculateReserveYield(remaining: number, capacity: number): number {
+  if (remaining <= 0 || capacity <= 0) return 0;
+
+  const share = remaining / capacity;
+  if (share >= RESERVE_CONFIG.FULL_YIELD_SHARE) return 1;
+
+  return RESERVE_CONFIG.MIN_YIELD + (1 - RESERVE_CONFIG.MIN_YIELD) * (share / RESERVE_CONFIG.FULL_YIELD_SHARE);
+}
+
+/**
+ * Units found by one exploration, or 0 if it came up dry
+ *
+ * @param originalReserve - The state's original reserve of the resource (0 if it had none)
+ * @param random - Source of uniform numbers in [0, 1); the first draw decides success,
+ *   the second the size of the find
+ */
+export function rollExploration(originalReserve: number, random: () => number = Math.random): number {
+  const isFrontier = originalReserve <= 0;
+  const chance = isFrontier ? RESERVE_CONFIG.FRONTIER_SUCCESS_CHANCE : RESERVE_CONFIG.SUCCESS_CHANCE;
+  if (random() >= chance) return 0;
+
+  const base = isFrontier ? RESERVE_CONFIG.FRONTIER_RESERVE : originalReserve;
+  const share = RESERVE_CONFIG.DISCOVERY_MIN_SHARE
+    + (RESERVE_CONFIG.DISCOVERY_MAX_SHARE - RESERVE_CONFIG.DISCOVERY_MIN_SHARE) * random();
+  return Math.round(base * share);
+}
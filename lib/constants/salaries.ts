@@ -0,0 +1,20 @@
+import { QUARTERS_PER_YEAR } from '../utils/gameTime';
+
+// What happens once a corporation has missed too many salary payments
+export type SalaryArrearsAction = 'none' | 'ceo_nomination';
+
+export const SALARY_CONFIG = {
+  DEFAULT_CEO_SALARY_PER_96H: 100000, // $100,000 per 96 hours (one game year)
+
+  // Board-configurable arrears policy defaults
+  DEFAULT_MISSED_PAYMENTS_LIMIT: 3,
+  DEFAULT_ARREARS_ACTION: 'ceo_nomination' as SalaryArrearsAction,
+  MAX_MISSED_PAYMENTS_LIMIT: 12,
+} as const;
+
+/**
+ * Salary accrued for one game quarter from a per-96h (per game year) salary
+ */
+export function getSalaryPerQuarter(salaryPer96h: number): number {
+  return salaryPer96h / QUARTERS_PER_YEAR;
+}
@@ -1,3 +1,5 @@
+import type { UnitEconomicsModifier } from './corporateActions';
+
 // Predefined list of corporation sectors
 export const SECTORS = [
   'Technology',
@@ -2291,7 +2293,8 @@ export function calculateMarketEntryEconomics(
   productionCount: number,
   serviceCount: number,
   extractionCount: number,
-  marketPrices?: MarketPriceOverrides
+  marketPrices?: MarketPriceOverrides,
+  getModifier?: (unitType: UnitType) => UnitEconomicsModifier // Active corporate action effects
 ): {
   hourlyRevenue: number;
   hourlyCost: number;
@@ -2305,29 +2308,33 @@ export function calculateMarketEntryEconomics(
   // Retail
   if (retailCount > 0) {
     const eco = getDynamicUnitEconomics('retail', sector, marketPrices);
-    hourlyRevenue += eco.hourlyRevenue * retailCount;
-    hourlyCost += eco.hourlyCost * retailCount;
+    const mod = getModifier?.('retail');
+    hourlyRevenue += eco.hourlyRevenue * retailCount * (mod?.revenueMultiplier ?? 1);
+    hourlyCost += eco.hourlyCost * retailCount * (mod?.costMultiplier ?? 1);
   }
 
   // Production
   if (productionCount > 0) {
     const eco = getDynamicUnitEconomics('production', sector, marketPrices);
-    hourlyRevenue += eco.hourlyRevenue * productionCount;
-    hourlyCost += eco.hourlyCost * productionCount;
+    const mod = getModifier?.('production');
+    hourlyRevenue += eco.hourlyRevenue * productionCount * (mod?.revenueMultiplier ?? 1);
+    hourlyCost += eco.hourlyCost * productionCount * (mod?.costMultiplier ?? 1);
   }
 
   // Service
   if (serviceCount > 0) {
     const eco = getDynamicUnitEconomics('service', sector, marketPrices);
-    hourlyRevenue += eco.hourlyRevenue * serviceCount;
-    hourlyCost += eco.hourlyCost * serviceCount;
+    const mod = getModifier?.('service');
+    hourlyRevenue += eco.hourlyRevenue * serviceCount * (mod?.revenueMultiplier ?? 1);
+    hourlyCost += eco.hourlyCost * serviceCount * (mod?.costMultiplier ?? 1);
   }
 
   // Extraction
   if (extractionCount > 0) {
     const eco = getDynamicUnitEconomics('extraction', sector, marketPrices);
-    hourlyRevenue += eco.hourlyRevenue * extractionCount;
-    hourlyCost += eco.hourlyCost * extractionCount;
+    const mod = getModifier?.('extraction');
+    hourlyRevenue += eco.hourlyRevenue * extractionCount * (mod?.revenueMultiplier ?? 1);
+    hourlyCost += eco.hourlyCost * extractionCount * (mod?.costMultiplier ?? 1);
   }
 
   return {
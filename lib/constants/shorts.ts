@@ -0,0 +1,39 @@
+export const SHORT_CONFIG = {
+  // Game time: 1 game year = 96 real hours
+  HOURS_PER_GAME_YEAR: 96,
+
+  // Margin: collateral must cover this multiple of the position's current value
+  INITIAL_MARGIN: 1.5, // Sale proceeds plus 50% of position value posted from cash
+  MAINTENANCE_MARGIN: 1.3, // Below this a margin call is issued
+  MARGIN_CALL_GRACE_HOURS: 8, // One game month to top up or cover before forced liquidation
+
+  // Borrowing
+  BORROW_FEE_RATE: 12, // Annual % of position value, paid hourly to lenders
+  MAX_OPEN_POSITIONS_PER_USER: 5,
+
+  // Trade spreads match the market buy/sell routes
+  SHORT_SALE_SPREAD: 0.99,
+  COVER_SPREAD: 1.01,
+} as const;
+
+/**
+ * Collateral required to open a short of `shares` at `price`
+ */
+export function calculateInitialCollateral(shares: number, price: number): number {
+  return shares * price * SHORT_CONFIG.INITIAL_MARGIN;
+}
+
+/**
+ * Collateral as a multiple of the position's current market value
+ */
+export function calculateCollateralRatio(collateral: number, shares: number, price: number): number {
+  const value = shares * price;
+  return value > 0 ? collateral / value : Infinity;
+}
+
+/**
+ * Borrow fee owed for one hour on a position of `shares` at `price`
+ */
+export function calculateHourlyBorrowFee(shares: number, price: number, annualRatePercent: number = SHORT_CONFIG.BORROW_FEE_RATE): number {
+  return (shares * price * annualRatePercent) / 100 / SHORT_CONFIG.HOURS_PER_GAME_YEAR;
+}
@@ -0,0 +1,26 @@
+export const TENDER_OFFER_CONFIG = {
+  // Acceptance window: one game quarter by default (1 game year = 96 real hours)
+  DEFAULT_WINDOW_HOURS: 24,
+  MIN_WINDOW_HOURS: 4,
+  MAX_WINDOW_HOURS: 96,
+
+  // % of outstanding shares the bidder must hold after the offer closes to take control
+  CONTROL_THRESHOLD_PCT: 50,
+
+  // Offers must be at or above the current share price
+  MIN_PREMIUM_PCT: 0,
+} as const;
+
+/**
+ * Bidder's stake as a % of outstanding shares.
+ * Measured against the target's share count when the offer closes, so shares
+ * issued while the offer is open dilute the bidder.
+ */
+export function calculateStakePct(bidderShares: number, outstandingShares: number): number {
+  if (outstandingShares <= 0) return 0;
+  return (bidderShares / outstandingShares) * 100;
+}
+
+export function calculateMinimumOfferPrice(sharePrice: number): number {
+  return Math.round(sharePrice * (1 + TENDER_OFFER_CONFIG.MIN_PREMIUM_PCT / 100) * 100) / 100;
+}
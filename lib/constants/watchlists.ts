@@ -0,0 +1,69 @@
+import type { InventoryItemType } from './inventory';
+
+// Corporations are watched by share price, resources and products by market price
+export type WatchTargetType = 'corporation' | InventoryItemType;
+
+export interface WatchTarget {
+  target_type: WatchTargetType;
+  corporation_id: number | null;  // Corporations only
+  item: string | null;            // Resources and products only
+}
+
+export const PRICE_ALERT_CONDITIONS = ['above', 'below', 'daily_move'] as const;
+
+/**
+ * When an alert fires:
+ * - above / below: the price crosses the threshold (a price)
+ * - daily_move: the price has moved by at least the threshold (a percentage) either way
+ *   since the same time the day before
+ */
+export type PriceAlertCondition = typeof PRICE_ALERT_CONDITIONS[number];
+
+export const WATCHLIST_CONFIG = {
+  MAX_ITEMS: 50,                  // Per user
+  MAX_ALERTS_PER_ITEM: 5,
+  DAILY_MOVE_HOURS: 24,           // Window daily_move alerts and the watchlist's change are measured over
+} as const;
+
+// Current price of a watched target, and its price a day earlier (null without history that old)
+export interface PriceQuote {
+  price: number;
+  previous: number | null;
+}
+
+export function getWatchTargetKey(target: Pick<WatchTarget, 'target_type' | 'corporation_id' | 'item'>): string {
+  return target.target_type === 'corporation' ? `corporation:${target.corporation_id}` : `${target.target_type}:${target.item}`;
+}
+
+export function getPriceChangePercent(quote: PriceQuote): number | null {
+  if (quote.previous === null || quote.previous <= 0) return null;
+  return ((quote.price - quote.previous) / quote.previous) * 100;
+}
+
+/**
+ * Whether an alert's condition holds at a quote. An alert fires when this becomes
+ * true and re-arms once it is false again, so it fires once per crossing.
+ */
+export function isAlertConditionMet(condition: PriceAlertCondition, threshold: number, quote: PriceQuote): boolean {
+  switch (condition) {
+    case 'above':
+      return quote.price >= threshold;
+    case 'below':
+      return quote.price <= threshold;
+    case 'daily_move': {
+      const change = getPriceChangePercent(quote);
+      return change !== null && Math.abs(change) >= threshold;
+    }
+  }
+}
+
+export function describePriceAlert(condition: PriceAlertCondition, threshold: number): string {
+  switch (condition) {
+    case 'above':
+      return `rises to $${threshold.toFixed(2)} or more`;
+    case 'below':
+      return `falls to $${threshold.toFixed(2)} or less`;
+    case 'daily_move':
+      return `moves ${threshold}% or more in a day`;
+  }
+}
@@ -4,18 +4,36 @@ import { CorporationModel } from '../models/Corporation';
 import { BoardProposalModel } from '../models/BoardProposal';
 import { MarketEntryModel } from '../models/MarketEntry';
 import { TransactionModel } from '../models/Transaction';
-import { ShareholderModel } from '../models/Shareholder';
 import { updateStockPrice } from '../utils/valuation';
 import { SharePriceHistoryModel } from '../models/SharePriceHistory';
 import { CommodityPriceHistoryModel } from '../models/CommodityPriceHistory';
 import { ProductPriceHistoryModel } from '../models/ProductPriceHistory';
-import { getDb } from '../db/mongo';
+import { CommodityTradeModel } from '../models/CommodityTrade';
+import { LoanModel } from '../models/Loan';
+import { LoanService } from '../services/LoanService';
+import { OrderBookService } from '../services/OrderBookService';
+import { CommodityMarketService } from '../services/CommodityMarketService';
+import { SupplyContractService } from '../services/SupplyContractService';
+import { ShortSellingService } from '../services/ShortSellingService';
+import { TenderOfferService, TenderOfferRunResult } from '../services/TenderOfferService';
+import { DividendService } from '../services/DividendService';
+import { SalaryService, SalaryRunResult } from '../services/SalaryService';
+import { InventoryService } from '../services/InventoryService';
+import { ResourceReserveService } from '../services/ResourceReserveService';
+import { SectorConfigRevisionService } from '../services/SectorConfigRevisionService';
+import { NotificationService, DigestRunResult } from '../services/NotificationService';
+import { WatchlistService } from '../services/WatchlistService';
+import { MarketIndexService } from '../services/MarketIndexService';
+import { CorporateActionModel } from '../models/CorporateAction';
+import { CorporateActionConfigModel } from '../models/CorporateActionConfig';
+import { CronJobDefinition, runScheduledJob, CRON_RUNNER_CONFIG } from './runner';
 import { ACTIONS_CONFIG } from '../constants/actions';
 import { getErrorMessage } from '../utils';
 import { RESOURCES, PRODUCTS } from '../constants/sectors';
+import { LOAN_CONFIG, getHourlyInterestRate } from '../constants/loans';
+import { ActiveActionEffects } from '../constants/corporateActions';
 
-// Default CEO salary constants (used only as fallback)
-const DEFAULT_CEO_SALARY_PER_96H = 100000; // $100,000 per 96 hours
+const { HOUR_MS, MINUTE_MS } = CRON_RUNNER_CONFIG;
 
 /**
  * Hourly cron job to add actions to all users
@@ -37,212 +55,291 @@ export async function triggerActionsIncrement(): Promise<{ updated: number; ceoC
   return { updated: result.updated, ceoCount: uniqueCeoUserIds.length };
 }
 
+/**
+ * Load the effects of all active corporate actions, grouped by corporation.
+ * Actions carry the catalogue effects they were activated with; actions created
+ * before the catalogue existed use the current catalogue entry.
+ */
+async function loadActiveActionEffects(): Promise<{
+  effects: Map<number, ActiveActionEffects[]>;
+  names: Map<number, string[]>;
+}> {
+  const [actions, catalogue] = await Promise.all([
+    CorporateActionModel.findAllActive(),
+    CorporateActionConfigModel.findAll(),
+  ]);
+  const catalogueByType = new Map(catalogue.map(config => [config.action_type, config]));
+
+  const effects = new Map<number, ActiveActionEffects[]>();
+  const names = new Map<number, string[]>();
+  for (const action of actions) {
+    const config = catalogueByType.get(action.action_type);
+    const actionEffects = action.effects ?? config?.effects ?? [];
+    if (actionEffects.length === 0) continue;
+
+    if (!effects.has(action.corporation_id)) {
+      effects.set(action.corporation_id, []);
+      names.set(action.corporation_id, []);
+    }
+    effects.get(action.corporation_id)!.push({ state_code: action.state_code ?? null, effects: actionEffects });
+    names.get(action.corporation_id)!.push(action.name ?? config?.name ?? action.action_type);
+  }
+
+  return { effects, names };
+}
+
 /**
  * Process market revenue/costs for all corporations with business units
- * Called hourly to add net profit to corporation capital
- * Applies 10% boost from active Supply Rush or Marketing Campaign actions
+ * Called hourly: runs the production cycle against physical inventories and
+ * credits each corporation's net cash flow (sales less labor and input purchases) to capital
+ * Applies the effects of active corporate actions (see the corporate action catalogue)
+ * Then settles one hour of every active supply contract
  */
-export async function triggerMarketRevenue(): Promise<{ processed: number; totalProfit: number }> {
+export async function triggerMarketRevenue(): Promise<{ processed: number; totalProfit: number; idleUnits: number; contractsSettled: number }> {
   try {
     console.log('[Cron] Processing market revenue/costs...');
+
+    // Effects of active corporate actions are applied per unit type and state
+    const activeActions = await loadActiveActionEffects();
+
+    // Run every unit against stock; units short of inputs idle. Each corporation's
+    // stock, ledger and capital are written in one transaction
+    const cycleResults = await InventoryService.runCycle(activeActions.effects, activeActions.names);
     
-    // Get all corporations with their hourly financials
-    const corpFinancials = await MarketEntryModel.getAllCorporationsFinancials();
-    
-    if (corpFinancials.length === 0) {
+    if (cycleResults.length === 0) {
       console.log('[Cron] No corporations with business units to process');
-      return { processed: 0, totalProfit: 0 };
     }
 
-    // Get all active corporate actions for performance boost
-    const db = getDb();
-    const activeActionsQuery = await db.collection('corporate_actions')
-      .find({ expires_at: { $gt: new Date() } })
-      .toArray();
+    let totalProcessed = 0;
+    let totalRevenue = 0;
+    let totalIdle = 0;
+
+    for (const result of cycleResults) {
+      totalIdle += Object.values(result.unit_hours)
+        .reduce((sum, hours) => sum + hours.scheduled - hours.operated, 0);
+      if (!result.posted) continue;
+
+      totalProcessed++;
+      totalRevenue += result.cash_flow;
+    }
     
-    // Build a map of corporation_id -> set of active action types
-    const activeCorporateActions = new Map<number, Set<string>>();
-    for (const action of activeActionsQuery) {
-      if (!activeCorporateActions.has(action.corporation_id)) {
-        activeCorporateActions.set(action.corporation_id, new Set());
-      }
-      activeCorporateActions.get(action.corporation_id)!.add(action.action_type);
+    console.log(`[Cron] Processed financials for ${totalProcessed} corporations. Net total: ${totalRevenue}, idle units: ${totalIdle.toFixed(2)}`);
+
+    // Supply contracts settle against the stock and capital left after the cycle
+    const contracts = await SupplyContractService.settleAll();
+    if (contracts.settled > 0 || contracts.completed > 0) {
+      console.log(`[Cron] Settled ${contracts.settled} supply contracts (${contracts.units_delivered} units delivered, ${contracts.units_short} short), ${contracts.completed} completed`);
     }
 
-    let totalProcessed = 0;
-    let totalRevenue = 0;
+    return { processed: totalProcessed, totalProfit: totalRevenue, idleUnits: totalIdle, contractsSettled: contracts.settled };
+  } catch (error: unknown) {
+    console.error('[Cron] Error in market revenue job:', getErrorMessage(error));
+    throw error;
+  }
+}
 
-    for (const { corporation_id, hourly_profit } of corpFinancials) {
-      if (hourly_profit === 0) continue;
+/**
+ * Service all active loans
+ * - Runs every hour, after market revenue has been credited
+ * - Accrues one hour of interest and collects the level amortizing payment from capital
+ * - If capital cannot cover the payment, the interest is capitalized and the payment is missed
+ * - After too many consecutive missed payments the loan defaults: remaining capital is
+ *   seized toward the balance and the rest is written off
+ */
+export async function triggerLoanServicing(): Promise<{ serviced: number; missed: number; defaulted: number; paidOff: number }> {
+  let serviced = 0;
+  let missed = 0;
+  let defaulted = 0;
+  let paidOff = 0;
+
+  try {
+    const loans = await LoanModel.findAllActive();
+
+    if (loans.length === 0) {
+      console.log('[Cron] No active loans to service');
+      return { serviced, missed, defaulted, paidOff };
+    }
 
+    for (const loan of loans) {
       try {
-        // Get current corporation capital
-        const corp = await CorporationModel.findById(corporation_id);
+        const corp = await CorporationModel.findById(loan.corporation_id);
         if (!corp) continue;
 
-        const currentCapital = typeof corp.capital === 'string' ? parseFloat(corp.capital) : corp.capital;
-
-        // Apply corporate action boost if active
-        let adjustedProfit = hourly_profit;
-        const activeActions = activeCorporateActions.get(corporation_id);
-        
-        let boostNote = '';
-        if (activeActions) {
-          let boostMultiplier = 1.0;
-          let boostDescription = '';
-          
-          if (activeActions.has('supply_rush')) {
-            boostMultiplier += 0.10; // +10% boost
-            boostDescription = ' (Supply Rush +10%)';
-          }
-          
-          if (activeActions.has('marketing_campaign')) {
-            boostMultiplier += 0.10; // +10% boost
-            boostDescription += boostDescription ? ', Marketing Campaign +10%' : ' (Marketing Campaign +10%)';
-          }
-          
-          if (boostMultiplier > 1.0) {
-            adjustedProfit = hourly_profit * boostMultiplier;
-            boostNote = boostDescription;
-          }
+        const interest = loan.outstanding_principal * getHourlyInterestRate(loan.interest_rate);
+        const payment = Math.min(loan.hourly_payment, loan.outstanding_principal + interest);
+
+        const paid = await LoanService.collectPayment(loan, payment, interest);
+        if (paid) {
+          serviced++;
+          if (paid.status === 'paid') paidOff++;
+          continue;
         }
 
-        // Add profit (or subtract loss)
-        const newCapital = currentCapital + adjustedProfit;
-        
-        await CorporationModel.update(corporation_id, { capital: newCapital });
-        
-        // Log transaction
-        await TransactionModel.create({
-          corporation_id,
-          transaction_type: adjustedProfit >= 0 ? 'market_revenue' : 'market_cost',
-          amount: Math.abs(adjustedProfit),
-          description: `Hourly market ${adjustedProfit >= 0 ? 'revenue' : 'costs'}${boostNote}`,
-          from_user_id: null // System transaction
-        });
+        // Capital cannot cover the payment: capitalize interest and count the miss
+        const updated = await LoanModel.recordMissedPayment(loan.id, interest);
+        missed++;
+
+        if (!updated || updated.missed_payments < LOAN_CONFIG.MAX_MISSED_PAYMENTS) {
+          console.log(`[Cron] Corp ${corp.id} missed payment on loan ${loan.id} (${updated?.missed_payments ?? '?'}/${LOAN_CONFIG.MAX_MISSED_PAYMENTS})`);
+          continue;
+        }
+
+        // Default: seize whatever capital remains and write off the rest
+        await LoanService.defaultLoan(updated);
 
-        totalProcessed++;
-        totalRevenue += adjustedProfit;
+        await updateStockPrice(corp.id);
+        defaulted++;
+        console.log(`[Cron] Corp ${corp.id} defaulted on loan ${loan.id}`);
       } catch (err: unknown) {
-        console.error(`[Cron] Error processing financials for corp ${corporation_id}:`, getErrorMessage(err));
+        console.error(`[Cron] Error servicing loan ${loan.id}:`, getErrorMessage(err));
       }
     }
-    
-    console.log(`[Cron] Processed financials for ${totalProcessed} corporations. Net total: ${totalRevenue}`);
-    return { processed: totalProcessed, totalProfit: totalRevenue };
+
+    console.log(`[Cron] Loans serviced: ${serviced}, missed: ${missed}, defaulted: ${defaulted}, paid off: ${paidOff}`);
+    return { serviced, missed, defaulted, paidOff };
   } catch (error: unknown) {
-    console.error('[Cron] Error in market revenue job:', getErrorMessage(error));
-    return { processed: 0, totalProfit: 0 };
+    console.error('[Cron] Error in loan servicing job:', getErrorMessage(error));
+    throw error;
   }
 }
 
 /**
- * Pay CEO salaries
- * - Runs every 96 hours (4 days) - but simplified here to check last payment
- * - Checks if 96h has passed since last salary payment
- * - Deducts from corp capital, adds to CEO cash
+ * Expire resting share orders
+ * - Runs every 10 minutes
+ * - Closes open limit orders past their expiry and releases escrowed cash/shares
  */
-export async function triggerCeoSalaries(): Promise<void> {
+export async function triggerShareOrderExpiry(): Promise<{ expired: number }> {
   try {
-    // This logic is complex because we need to track when salary was last paid
-    // For now, let's assume this is triggered by an external scheduler that handles the 96h interval
-    // OR we can implement a check here if we store 'last_salary_paid_at' on the corp
-    
-    const corporations = await CorporationModel.findAll();
-    
-    let paidCount = 0;
-    
-    for (const corp of corporations) {
-      if (!corp.ceo_id) continue;
-      
-      // Determine salary amount (use default if not set)
-      const salary = corp.ceo_salary || DEFAULT_CEO_SALARY_PER_96H;
-      
-      // Check if corp has enough capital
-      if (corp.capital < salary) {
-        console.log(`[Cron] Corp ${corp.id} cannot afford CEO salary (${salary}). Capital: ${corp.capital}`);
-        // Optionally: CEO could be fired or salary unpaid
-        continue;
-      }
-      
-      // Pay CEO
-      try {
-        await CorporationModel.update(corp.id, { capital: corp.capital - salary });
-        await UserModel.updateCash(corp.ceo_id, salary);
-        
-        await TransactionModel.create({
-          corporation_id: corp.id,
-          transaction_type: 'ceo_salary',
-          amount: salary,
-          description: `CEO Salary Payment`,
-          to_user_id: corp.ceo_id
-        });
-        
-        paidCount++;
-      } catch (err: unknown) {
-        console.error(`[Cron] Error paying CEO of corp ${corp.id}:`, getErrorMessage(err));
-      }
+    const expired = await OrderBookService.expireOrders();
+
+    if (expired === 0) {
+      console.log('[Cron] No share orders to expire');
+    } else {
+      console.log(`[Cron] Expired ${expired} share orders`);
     }
-    
-    console.log(`[Cron] Paid salaries for ${paidCount} CEOs`);
+    return { expired };
+  } catch (error: unknown) {
+    console.error('[Cron] Error in share order expiry:', getErrorMessage(error));
+    throw error;
+  }
+}
+
+/**
+ * Expire resting spot market orders
+ * - Runs every 10 minutes
+ * - Closes open commodity orders past their expiry and returns escrowed capital/stock
+ */
+export async function triggerCommodityOrderExpiry(): Promise<{ expired: number }> {
+  try {
+    const expired = await CommodityMarketService.expireOrders();
+
+    if (expired === 0) {
+      console.log('[Cron] No commodity orders to expire');
+    } else {
+      console.log(`[Cron] Expired ${expired} commodity orders`);
+    }
+    return { expired };
+  } catch (error: unknown) {
+    console.error('[Cron] Error in commodity order expiry:', getErrorMessage(error));
+    throw error;
+  }
+}
+
+/**
+ * Service short positions
+ * - Runs every hour (after market revenue, loans and price updates)
+ * - Charges the hourly borrow fee and pays it to the lenders
+ * - Issues margin calls and liquidates positions past the grace period
+ */
+export async function triggerShortPositionServicing(): Promise<{ charged: number; marginCalls: number; liquidated: number }> {
+  try {
+    const result = await ShortSellingService.servicePositions();
+
+    if (result.charged === 0) {
+      console.log('[Cron] No open short positions to service');
+    } else {
+      console.log(`[Cron] Serviced ${result.charged} short positions (${result.marginCalls} margin calls, ${result.liquidated} liquidated)`);
+    }
+    return result;
+  } catch (error: unknown) {
+    console.error('[Cron] Error in short position servicing:', getErrorMessage(error));
+    throw error;
+  }
+}
+
+/**
+ * Settle tender offers
+ * - Runs every hour (at minute 50); each run settles every offer whose window has ended
+ * - Offers reaching the control threshold buy the tendered shares and change the CEO and board
+ * - Offers falling short return tendered shares and refund the bidder's escrow
+ */
+export async function triggerTenderOfferSettlement(): Promise<TenderOfferRunResult> {
+  try {
+    const result = await TenderOfferService.run();
+
+    if (result.settled === 0) {
+      console.log('[Cron] No tender offers to settle');
+    } else {
+      console.log(`[Cron] Settled ${result.settled} tender offers (${result.succeeded} succeeded, ${result.failed} failed)`);
+    }
+    return result;
+  } catch (error: unknown) {
+    console.error('[Cron] Error in tender offer settlement:', getErrorMessage(error));
+    throw error;
+  }
+}
+
+/**
+ * Pay CEO salaries
+ * - Runs every hour; salary accrues once per completed game quarter (24h)
+ * - Each quarter is written to the salary ledger, then paid from capital oldest first
+ * - Unpaid quarters stay on the ledger as arrears owed to the CEO
+ * - After the board's missed-payment limit, applies its arrears policy (e.g. a CEO vote)
+ */
+export async function triggerCeoSalaries(): Promise<SalaryRunResult> {
+  try {
+    const result = await SalaryService.run();
+
+    console.log(`[Cron] Accrued ${result.accrued} salary periods, paid ${result.paid} (${result.inArrears} corporations in arrears, ${result.nominations} CEO votes opened)`);
+    return result;
   } catch (error: unknown) {
     console.error('[Cron] Error in CEO salary job:', getErrorMessage(error));
+    throw error;
   }
 }
 
 /**
  * Pay Dividends
  * - Runs every 24 hours (1 year in game time)
- * - Pays dividend_percentage of profits/capital to shareholders
+ * - Pays dividend_percentage of the operating income accrued since the last record date
+ * - Snapshots holders at the record date and writes a dividend transaction per holder
  */
-export async function triggerDividends(): Promise<void> {
+export async function triggerDividends(): Promise<{ declared: number; paid: number; totalPaid: number }> {
   try {
-    const corporations = await CorporationModel.findAll();
-    let paidCount = 0;
-    
-    for (const corp of corporations) {
-      if (corp.dividend_percentage <= 0) continue;
-      
-      // Calculate dividend amount based on policy
-      // Usually dividends are % of annual profit, but here we might simplify to % of capital or a fixed amount
-      // Let's assume for now it's a small % of capital as a placeholder, 
-      // but in a real game it should be based on earnings.
-      
-      // SAFEGUARD: Don't pay out if capital is low
-      if (corp.capital < 100000) continue;
-      
-      const totalDividend = corp.capital * (corp.dividend_percentage / 100);
-      const dividendPerShare = totalDividend / corp.shares;
-      
-      if (dividendPerShare < 0.01) continue;
-      
-      // Get all shareholders
-      const shareholders = await ShareholderModel.findByCorporationId(corp.id);
-      
-      // Pay each shareholder
-      for (const sh of shareholders) {
-        const payout = dividendPerShare * sh.shares;
-        if (payout > 0) {
-          await UserModel.updateCash(sh.user_id, payout);
-        }
-      }
-      
-      // Deduct from corp
-      await CorporationModel.update(corp.id, { capital: corp.capital - totalDividend });
-      
-      await TransactionModel.create({
-        corporation_id: corp.id,
-        transaction_type: 'dividend',
-        amount: totalDividend,
-        description: `Dividend Payment (${corp.dividend_percentage}%)`
-      });
-      
-      paidCount++;
-    }
-    
-    console.log(`[Cron] Paid dividends for ${paidCount} corporations`);
+    const result = await DividendService.run();
+
+    console.log(`[Cron] Paid dividends for ${result.declared} corporations (${result.totalPaid.toFixed(2)} total)`);
+    return result;
   } catch (error: unknown) {
     console.error('[Cron] Error in dividend job:', getErrorMessage(error));
+    throw error;
+  }
+}
+
+/**
+ * Send notification digests
+ * - Runs daily at 08:00
+ * - Sums up each user's held notifications in one, and deletes notifications past retention
+ */
+export async function triggerNotificationDigests(): Promise<DigestRunResult> {
+  try {
+    const result = await NotificationService.sendDigests();
+
+    console.log(`[Cron] Sent ${result.digests} notification digests (${result.released} notifications), deleted ${result.deleted} old notifications`);
+    return result;
+  } catch (error: unknown) {
+    console.error('[Cron] Error in notification digest job:', getErrorMessage(error));
+    throw error;
   }
 }
 
@@ -250,8 +347,11 @@ export async function triggerDividends(): Promise<void> {
  * Record price history for all commodities and products
  * - Runs every hour
  * - Saves current prices along with supply/demand for historical tracking
+ * - Snapshots every state's remaining resource reserves alongside them
+ * - Records the market indices at current share and resource prices
+ * - Then checks resource and product price alerts against the new prices
  */
-export async function triggerPriceHistoryRecording(): Promise<{ commodities: number; products: number }> {
+export async function triggerPriceHistoryRecording(): Promise<{ commodities: number; products: number; reserves: number; indices: number; alertsTriggered: number }> {
   try {
     console.log('[Cron] Recording market price history...');
 
@@ -259,6 +359,12 @@ export async function triggerPriceHistoryRecording(): Promise<{ commodities: num
     const marketData = await MarketEntryModel.getMarketData();
     const { commodityPrices, commoditySupply, commodityDemand, productPrices, productSupply, productDemand } = marketData;
 
+    // Spot market fills over the past hour are recorded alongside the formula price
+    const tradedPrices = await CommodityTradeModel.getTradedPrices(new Date(Date.now() - HOUR_MS));
+
+    // Each row notes the config revision its prices were set under
+    const configRevision = await SectorConfigRevisionService.getActiveRevisionId();
+
     let commoditiesRecorded = 0;
     let productsRecorded = 0;
 
@@ -274,6 +380,9 @@ export async function triggerPriceHistoryRecording(): Promise<{ commodities: num
           price,
           supply,
           demand,
+          traded_price: tradedPrices[resource]?.price ?? null,
+          traded_volume: tradedPrices[resource]?.volume ?? 0,
+          config_revision: configRevision,
         });
         commoditiesRecorded++;
       } catch (err: unknown) {
@@ -293,6 +402,9 @@ export async function triggerPriceHistoryRecording(): Promise<{ commodities: num
           price,
           supply,
           demand,
+          traded_price: tradedPrices[product]?.price ?? null,
+          traded_volume: tradedPrices[product]?.volume ?? 0,
+          config_revision: configRevision,
         });
         productsRecorded++;
       } catch (err: unknown) {
@@ -300,11 +412,53 @@ export async function triggerPriceHistoryRecording(): Promise<{ commodities: num
       }
     }
 
-    console.log(`[Cron] Recorded prices for ${commoditiesRecorded} commodities and ${productsRecorded} products`);
-    return { commodities: commoditiesRecorded, products: productsRecorded };
+    let reservesRecorded = 0;
+    try {
+      reservesRecorded = await ResourceReserveService.recordHistory();
+    } catch (err: unknown) {
+      console.error('[Cron] Error recording resource reserves:', getErrorMessage(err));
+    }
+
+    let indicesRecorded = 0;
+    try {
+      indicesRecorded = await MarketIndexService.recordIndices(commodityPrices);
+    } catch (err: unknown) {
+      console.error('[Cron] Error recording market indices:', getErrorMessage(err));
+    }
+
+    let alertsTriggered = 0;
+    try {
+      alertsTriggered = (await WatchlistService.evaluateAlerts(['resource', 'product'])).triggered;
+    } catch (err: unknown) {
+      console.error('[Cron] Error checking price alerts:', getErrorMessage(err));
+    }
+
+    console.log(`[Cron] Recorded prices for ${commoditiesRecorded} commodities and ${productsRecorded} products, ${reservesRecorded} resource reserves, ${indicesRecorded} market indices; ${alertsTriggered} price alerts triggered`);
+    return { commodities: commoditiesRecorded, products: productsRecorded, reserves: reservesRecorded, indices: indicesRecorded, alertsTriggered };
   } catch (error: unknown) {
     console.error('[Cron] Error in price history recording:', getErrorMessage(error));
-    return { commodities: 0, products: 0 };
+    throw error;
+  }
+}
+
+/**
+ * Put scheduled sector config releases live
+ * - Runs every 10 minutes
+ * - Applies every release whose game quarter has started and records it as a revision
+ */
+export async function triggerSectorConfigReleases(): Promise<{ released: number; failed: number }> {
+  try {
+    const result = await SectorConfigRevisionService.runDueReleases();
+
+    if (result.released === 0 && result.failed === 0) {
+      console.log('[Cron] No sector config releases due');
+    } else {
+      console.log(`[Cron] Sector config releases: ${result.released} released, ${result.failed} failed`);
+    }
+    return result;
+  } catch (error: unknown) {
+    console.error('[Cron] Error in sector config releases:', getErrorMessage(error));
+    throw error;
   }
 }
 
@@ -312,30 +466,72 @@ export async function triggerPriceHistoryRecording(): Promise<{ commodities: num
  * Check for expired board proposals and resolve them
  * - Runs every hour
  */
-export async function resolveExpiredProposals(): Promise<void> {
+export async function resolveExpiredProposals(): Promise<{ resolved: number }> {
   try {
     const expiredProposals = await BoardProposalModel.getExpiredActiveProposals();
     
     if (expiredProposals.length === 0) {
       console.log('[Cron] No expired proposals to resolve');
-      return;
+      return { resolved: 0 };
     }
 
     console.log(`[Cron] Found ${expiredProposals.length} expired proposals to resolve`);
 
+    let resolved = 0;
+
     for (const proposal of expiredProposals) {
       try {
         await BoardProposalModel.resolve(proposal.id);
         console.log(`[Cron] Resolved proposal ${proposal.id}`);
+        resolved++;
       } catch (err: unknown) {
         console.error(`[Cron] Error resolving proposal ${proposal.id}:`, getErrorMessage(err));
       }
     }
+    return { resolved };
   } catch (error: unknown) {
     console.error('[Cron] Error in proposal resolution:', getErrorMessage(error));
+    throw error;
   }
 }
 
+/**
+ * Every scheduled job. Schedules are UTC; each tick is run once across all instances
+ * by the job runner, and hourly jobs that move money backfill ticks missed during downtime.
+ */
+export const CRON_JOBS: CronJobDefinition[] = [
+  // 1. Actions Increment: Every hour
+  { name: 'actions', label: 'Actions increment', schedule: '0 * * * *', intervalMs: HOUR_MS, offsetMs: 0, backfill: true, run: triggerActionsIncrement },
+  // 2. Market Revenue: Every hour (at minute 30 to distribute load)
+  { name: 'market', label: 'Market revenue', schedule: '30 * * * *', intervalMs: HOUR_MS, offsetMs: 30 * MINUTE_MS, backfill: true, run: triggerMarketRevenue },
+  // 2b. Loan Servicing: Every hour (at minute 35, after market revenue is credited)
+  { name: 'loans', label: 'Loan servicing', schedule: '35 * * * *', intervalMs: HOUR_MS, offsetMs: 35 * MINUTE_MS, backfill: true, run: triggerLoanServicing },
+  // 2c. Short Position Servicing: Every hour (at minute 40, after loans settle)
+  { name: 'shorts', label: 'Short position servicing', schedule: '40 * * * *', intervalMs: HOUR_MS, offsetMs: 40 * MINUTE_MS, backfill: true, run: triggerShortPositionServicing },
+  // 3. Proposal Resolution: Every 10 minutes (each run sweeps everything expired, so no backfill)
+  { name: 'proposals', label: 'Proposal resolution', schedule: '*/10 * * * *', intervalMs: 10 * MINUTE_MS, offsetMs: 0, backfill: false, run: resolveExpiredProposals },
+  // 3b. Share Order Expiry: Every 10 minutes
+  { name: 'orders', label: 'Share order expiry', schedule: '*/10 * * * *', intervalMs: 10 * MINUTE_MS, offsetMs: 0, backfill: false, run: triggerShareOrderExpiry },
+  // 3c. Commodity Order Expiry: Every 10 minutes
+  { name: 'commodity_orders', label: 'Commodity order expiry', schedule: '*/10 * * * *', intervalMs: 10 * MINUTE_MS, offsetMs: 0, backfill: false, run: triggerCommodityOrderExpiry },
+  // 3d. Sector Config Releases: Every 10 minutes; each run applies every release that is due
+  { name: 'config_releases', label: 'Sector config releases', schedule: '*/10 * * * *', intervalMs: 10 * MINUTE_MS, offsetMs: 0, backfill: false, run: triggerSectorConfigReleases },
+  // 4. Price History Recording: Every hour (at minute 15); a missed hour has no prices to record
+  { name: 'prices', label: 'Price history', schedule: '15 * * * *', intervalMs: HOUR_MS, offsetMs: 15 * MINUTE_MS, backfill: false, run: triggerPriceHistoryRecording },
+  // 5. CEO Salaries: Every hour (at minute 45); the salary ledger catches up missed quarters itself
+  { name: 'salaries', label: 'CEO salaries', schedule: '45 * * * *', intervalMs: HOUR_MS, offsetMs: 45 * MINUTE_MS, backfill: false, run: triggerCeoSalaries },
+  // 5b. Tender Offers: Every hour (at minute 50); each run settles every expired offer, so no backfill
+  { name: 'tender_offers', label: 'Tender offer settlement', schedule: '50 * * * *', intervalMs: HOUR_MS, offsetMs: 50 * MINUTE_MS, backfill: false, run: triggerTenderOfferSettlement },
+  // 6. Dividends: Daily at 12:00; a run pays all earnings accrued since the last one
+  { name: 'dividends', label: 'Dividends', schedule: '0 12 * * *', intervalMs: 24 * HOUR_MS, offsetMs: 12 * HOUR_MS, backfill: false, run: triggerDividends },
+  // 7. Notification Digests: Daily at 08:00; a run sums up everything held since the last one
+  { name: 'notification_digests', label: 'Notification digests', schedule: '0 8 * * *', intervalMs: 24 * HOUR_MS, offsetMs: 8 * HOUR_MS, backfill: false, run: triggerNotificationDigests },
+];
+
+export function getCronJob(name: string): CronJobDefinition | undefined {
+  return CRON_JOBS.find(job => job.name === name);
+}
+
 /**
  * Start all cron jobs
  * Should be called from instrumentation.ts or server startup
@@ -343,43 +539,28 @@ export async function resolveExpiredProposals(): Promise<void> {
 export function startActionsCron() {
   console.log('[Cron] Initializing cron jobs...');
 
-  // 1. Actions Increment: Every hour
-  cron.schedule('0 * * * *', async () => {
-    console.log('[Cron] Running hourly actions increment...');
-    await triggerActionsIncrement();
-  });
+  for (const job of CRON_JOBS) {
+    cron.schedule(job.schedule, async () => {
+      console.log(`[Cron] Running ${job.label}...`);
+      try {
+        await runScheduledJob(job);
+      } catch (error: unknown) {
+        console.error(`[Cron] Job runner error for ${job.label}:`, getErrorMessage(error));
+      }
+    }, { timezone: 'UTC' });
+  }
 
-  // 2. Market Revenue: Every hour (at minute 30 to distribute load)
-  cron.schedule('30 * * * *', async () => {
-    console.log('[Cron] Running hourly market revenue...');
-    await triggerMarketRevenue();
-  });
-  
-  // 3. Proposal Resolution: Every 10 minutes
-  cron.schedule('*/10 * * * *', async () => {
-    console.log('[Cron] Checking for expired proposals...');
-    await resolveExpiredProposals();
-  });
-
-  // 4. Price History Recording: Every hour (at minute 15 to distribute load)
-  cron.schedule('15 * * * *', async () => {
-    console.log('[Cron] Recording market price history...');
-    await triggerPriceHistoryRecording();
-  });
-
-  // 5. CEO Salaries: Every 4 days (at midnight)
-  // 0 0 */4 * * -> At 00:00 on every 4th day-of-month
-  // This is approximation.
-  cron.schedule('0 0 */4 * *', async () => {
-    console.log('[Cron] Running CEO salary check...');
-    await triggerCeoSalaries();
-  });
-
-  // 6. Dividends: Daily at 12:00
-  cron.schedule('0 12 * * *', async () => {
-    console.log('[Cron] Running daily dividend check...');
-    await triggerDividends();
-  });
-
-  console.log('[Cron] Jobs scheduled: Actions(1h), Market(1h), Proposals(10m), Prices(1h), Salaries(4d), Dividends(24h)');
+  // Catch up on ticks missed while the server was down
+  void Promise.all(CRON_JOBS.filter(job => job.backfill).map(job =>
+    runScheduledJob(job, new Date(), true).catch((error: unknown) => {
+      console.error(`[Cron] Backfill error for ${job.label}:`, getErrorMessage(error));
+    })
+  ));
+
+  console.log(`[Cron] Jobs scheduled: ${CRON_JOBS.map(job => `${job.label} (${formatInterval(job.intervalMs)})`).join(', ')}`);
+}
+
+// e.g. "10m", "1h", "24h"
+function formatInterval(intervalMs: number): string {
+  return intervalMs % HOUR_MS === 0 ? `${intervalMs / HOUR_MS}h` : `${intervalMs / MINUTE_MS}m`;
 }
@@ -0,0 +1,185 @@
+import os from 'os';
+import { CronRun, CronRunModel, CronRunTrigger } from '../models/CronRun';
+import { CronLockModel } from '../models/CronLock';
+import { getErrorMessage } from '../utils';
+
+const HOUR_MS = 60 * 60 * 1000;
+const MINUTE_MS = 60 * 1000;
+
+export const CRON_RUNNER_CONFIG = {
+  LEASE_MS: 10 * MINUTE_MS,     // How long a job lock or running claim is held before presumed dead
+  MAX_BACKFILL_TICKS: 24,       // Missed ticks caught up after downtime (a day of hourly jobs)
+  TICK_GRACE_MS: MINUTE_MS,     // Tolerance for a scheduler firing slightly early
+  HOUR_MS,
+  MINUTE_MS,
+} as const;
+
+export interface CronJobDefinition {
+  name: string;
+  label: string;
+  schedule: string;             // node-cron expression, evaluated in UTC
+  intervalMs: number;           // Time between ticks
+  offsetMs: number;             // Where in the interval the tick fires (e.g. minute 30 of the hour)
+  backfill: boolean;            // Re-run ticks missed while no instance was up
+  run: () => Promise<object | void>;
+}
+
+/**
+ * Raised for runner requests that cannot be honoured (job busy, run not re-runnable)
+ */
+export class CronRunnerError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'CronRunnerError';
+  }
+}
+
+// Identifies this process as the holder of locks and claims
+const OWNER = `${os.hostname()}:${process.pid}`;
+
+/**
+ * The scheduled tick a moment falls in, e.g. 10:30 for an hourly job at minute 30 run at 11:15
+ */
+export function getTickTime(job: CronJobDefinition, now: Date = new Date()): Date {
+  const sinceOffset = now.getTime() - job.offsetMs + CRON_RUNNER_CONFIG.TICK_GRACE_MS;
+  return new Date(Math.floor(sinceOffset / job.intervalMs) * job.intervalMs + job.offsetMs);
+}
+
+/**
+ * Ticks to run now: the current tick, preceded by any missed since the last scheduled run
+ * if the job backfills. Never reaches back before the job's first recorded run; with
+ * `catchUpOnly` (server startup) a job with no run history has nothing due.
+ */
+export async function getDueTicks(job: CronJobDefinition, now: Date = new Date(), catchUpOnly: boolean = false): Promise<Date[]> {
+  const current = getTickTime(job, now);
+  if (!job.backfill) return catchUpOnly ? [] : [current];
+
+  const latest = await CronRunModel.findLatestScheduled(job.name);
+  if (!latest) return catchUpOnly ? [] : [current];
+
+  const ticks: Date[] = [];
+  for (let t = latest.scheduled_for.getTime() + job.intervalMs; t < current.getTime(); t += job.intervalMs) {
+    ticks.push(new Date(t));
+  }
+  ticks.push(current);
+
+  return ticks.slice(-CRON_RUNNER_CONFIG.MAX_BACKFILL_TICKS);
+}
+
+async function execute(job: CronJobDefinition, run: CronRun): Promise<CronRun> {
+  try {
+    const result = await job.run();
+    const done = await CronRunModel.complete(run.id, OWNER, (result ?? null) as Record<string, unknown> | null);
+    return done ?? run;
+  } catch (error: unknown) {
+    const message = getErrorMessage(error);
+    console.error(`[Cron] ${job.label} failed for tick ${run.scheduled_for.toISOString()}:`, message);
+    const failed = await CronRunModel.fail(run.id, OWNER, message);
+    return failed ?? run;
+  }
+}
+
+/**
+ * Run a job's due ticks under its distributed lock. Each tick is claimed before it runs,
+ * so with several instances scheduling the same job, every tick runs exactly once.
+ * Returns the runs this instance executed.
+ */
+export async function runScheduledJob(job: CronJobDefinition, now: Date = new Date(), catchUpOnly: boolean = false): Promise<CronRun[]> {
+  if (!await CronLockModel.acquire(job.name, OWNER, CRON_RUNNER_CONFIG.LEASE_MS)) {
+    return [];
+  }
+
+  const runs: CronRun[] = [];
+  try {
+    const ticks = await getDueTicks(job, now, catchUpOnly);
+    if (ticks.length === 0) return runs;
+    const current = ticks[ticks.length - 1];
+
+    for (const tick of ticks) {
+      const trigger: CronRunTrigger = tick.getTime() === current.getTime() ? 'schedule' : 'backfill';
+      const run = await CronRunModel.claim({
+        job: job.name,
+        scheduled_for: tick,
+        triggered_by: trigger,
+        owner: OWNER,
+        lease_ms: CRON_RUNNER_CONFIG.LEASE_MS,
+      });
+      if (!run) continue;
+
+      if (trigger === 'backfill') {
+        console.log(`[Cron] Backfilling ${job.label} for missed tick ${tick.toISOString()}`);
+      }
+      runs.push(await execute(job, run));
+      await CronLockModel.renew(job.name, OWNER, CRON_RUNNER_CONFIG.LEASE_MS);
+    }
+  } finally {
+    await CronLockModel.release(job.name, OWNER);
+  }
+
+  return runs;
+}
+
+/**
+ * Run a job immediately outside its schedule (admin trigger). Recorded as a manual run,
+ * which does not count as a scheduled tick for backfill.
+ */
+export async function runJobNow(job: CronJobDefinition, userId: number | null = null): Promise<CronRun> {
+  if (!await CronLockModel.acquire(job.name, OWNER, CRON_RUNNER_CONFIG.LEASE_MS)) {
+    throw new CronRunnerError(`${job.label} is already running`);
+  }
+
+  try {
+    const run = await CronRunModel.claim({
+      job: job.name,
+      scheduled_for: new Date(),
+      triggered_by: 'manual',
+      triggered_by_user_id: userId,
+      owner: OWNER,
+      lease_ms: CRON_RUNNER_CONFIG.LEASE_MS,
+    });
+    if (!run) throw new CronRunnerError(`${job.label} was just run, try again`);
+
+    return await execute(job, run);
+  } finally {
+    await CronLockModel.release(job.name, OWNER);
+  }
+}
+
+/**
+ * Re-run the tick of an earlier run. Failed runs, and running claims whose runner died,
+ * can be re-run; a succeeded tick only with `force`, since re-running it repeats its effects.
+ */
+export async function rerunCronRun(
+  jobs: CronJobDefinition[],
+  runId: number,
+  userId: number | null = null,
+  force: boolean = false
+): Promise<CronRun> {
+  const previous = await CronRunModel.findById(runId);
+  if (!previous) throw new CronRunnerError('Cron run not found');
+
+  const job = jobs.find(j => j.name === previous.job);
+  if (!job) throw new CronRunnerError(`Unknown cron job: ${previous.job}`);
+
+  if (!await CronLockModel.acquire(job.name, OWNER, CRON_RUNNER_CONFIG.LEASE_MS)) {
+    throw new CronRunnerError(`${job.label} is already running`);
+  }
+
+  try {
+    const run = await CronRunModel.retake(previous.job, previous.scheduled_for, {
+      owner: OWNER,
+      triggered_by_user_id: userId,
+      lease_ms: CRON_RUNNER_CONFIG.LEASE_MS,
+    }, force);
+    if (!run) {
+      throw new CronRunnerError(previous.status === 'succeeded'
+        ? 'This run already succeeded; force a re-run to repeat it'
+        : 'This run is still in progress');
+    }
+
+    console.log(`[Cron] Re-running ${job.label} for tick ${run.scheduled_for.toISOString()} (attempt ${run.attempt})`);
+    return await execute(job, run);
+  } finally {
+    await CronLockModel.release(job.name, OWNER);
+  }
+}
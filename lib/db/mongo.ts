@@ -1,4 +1,4 @@
-import { Db, MongoClient } from 'mongodb';
+import { ClientSession, Db, MongoClient } from 'mongodb';
 
 declare global {
   var _mongoClient: MongoClient | undefined;
@@ -90,6 +90,20 @@ export const getNextId = async (sequenceName: string): Promise<number> => {
   return result.seq;
 };
 
+/**
+ * Run a unit of work inside a session transaction. Every write that is passed the
+ * session commits or aborts together; transient write conflicts are retried by the driver.
+ * Requires a replica set (Atlas, or a single-node replica set locally).
+ */
+export const withTransaction = async <T>(work: (session: ClientSession) => Promise<T>): Promise<T> => {
+  const session = getMongoClient().startSession();
+  try {
+    return await session.withTransaction(work);
+  } finally {
+    await session.endSession();
+  }
+};
+
 export const ensureMongoIndexes = async (): Promise<void> => {
   const db = getDb();
 
@@ -112,6 +126,81 @@ export const ensureMongoIndexes = async (): Promise<void> => {
   await db.collection('share_transactions').createIndex({ corporation_id: 1, created_at: -1 });
   await db.collection('share_transactions').createIndex({ user_id: 1, created_at: -1 });
 
+  await db.collection('share_orders').createIndex({ id: 1 }, { unique: true });
+  await db.collection('share_orders').createIndex({ corporation_id: 1, side: 1, status: 1, limit_price: 1, created_at: 1 });
+  await db.collection('share_orders').createIndex({ user_id: 1, status: 1 });
+  await db.collection('share_orders').createIndex({ status: 1, expires_at: 1 });
+  await db.collection('short_positions').createIndex({ id: 1 }, { unique: true });
+  await db.collection('short_positions').createIndex({ user_id: 1, status: 1 });
+  await db.collection('short_positions').createIndex({ corporation_id: 1, status: 1 });
+  await db.collection('short_positions').createIndex({ status: 1 });
+  await db.collection('tender_offers').createIndex({ id: 1 }, { unique: true });
+  await db.collection('tender_offers').createIndex({ target_corporation_id: 1, status: 1 });
+  await db.collection('tender_offers').createIndex({ status: 1, expires_at: 1 });
+  await db.collection('corporate_holdings').createIndex({ holder_corporation_id: 1, corporation_id: 1 }, { unique: true });
+  await db.collection('corporate_holdings').createIndex({ corporation_id: 1 });
+  await db.collection('mergers').createIndex({ id: 1 }, { unique: true });
+  await db.collection('mergers').createIndex({ acquirer_corporation_id: 1, status: 1 });
+  await db.collection('mergers').createIndex({ target_corporation_id: 1, status: 1 });
+  await db.collection('mergers').createIndex({ 'converted_holders.user_id': 1 });
+  await db.collection('dividend_payouts').createIndex({ id: 1 }, { unique: true });
+  await db.collection('dividend_payouts').createIndex({ corporation_id: 1, record_date: -1 });
+  await db.collection('dividend_payouts').createIndex({ status: 1 });
+  await db.collection('salary_ledger').createIndex({ id: 1 }, { unique: true });
+  await db.collection('salary_ledger').createIndex({ corporation_id: 1, period_index: 1 }, { unique: true });
+  await db.collection('salary_ledger').createIndex({ corporation_id: 1, status: 1 });
+  await db.collection('inventories').createIndex({ corporation_id: 1, state_code: 1, item: 1 }, { unique: true });
+  await db.collection('inventories').createIndex({ quantity: 1 });
+  await db.collection('market_stockpiles').createIndex({ item: 1 }, { unique: true });
+  await db.collection('inventory_ledger').createIndex({ id: 1 }, { unique: true });
+  await db.collection('inventory_ledger').createIndex({ corporation_id: 1, cycle_at: -1 });
+  await db.collection('commodity_orders').createIndex({ id: 1 }, { unique: true });
+  await db.collection('commodity_orders').createIndex({ item: 1, side: 1, status: 1, limit_price: 1, created_at: 1 });
+  await db.collection('commodity_orders').createIndex({ corporation_id: 1, status: 1 });
+  await db.collection('commodity_orders').createIndex({ status: 1, expires_at: 1 });
+  await db.collection('commodity_trades').createIndex({ id: 1 }, { unique: true });
+  await db.collection('commodity_trades').createIndex({ item: 1, created_at: -1 });
+  await db.collection('commodity_trades').createIndex({ created_at: -1 });
+  await db.collection('supply_contracts').createIndex({ id: 1 }, { unique: true });
+  await db.collection('supply_contracts').createIndex({ supplier_corporation_id: 1, status: 1 });
+  await db.collection('supply_contracts').createIndex({ buyer_corporation_id: 1, status: 1 });
+  await db.collection('supply_contracts').createIndex({ status: 1, ends_at: 1 });
+  await db.collection('supply_contracts').createIndex({ status: 1, proposal_expires_at: 1 });
+  await db.collection('supply_contract_settlements').createIndex({ id: 1 }, { unique: true });
+  await db.collection('supply_contract_settlements').createIndex({ contract_id: 1, settled_at: -1 });
+  await db.collection('supply_contract_settlements').createIndex({ supplier_corporation_id: 1, settled_at: -1 });
+  await db.collection('supply_contract_settlements').createIndex({ buyer_corporation_id: 1, settled_at: -1 });
+  await db.collection('state_resource_reserves').createIndex({ state_code: 1, resource: 1 }, { unique: true });
+  await db.collection('state_resource_reserves').createIndex({ resource: 1, remaining: -1 });
+  await db.collection('resource_reserve_history').createIndex({ state_code: 1, recorded_at: -1 });
+  await db.collection('resource_reserve_history').createIndex({ resource: 1, recorded_at: -1 });
+  await db.collection('resource_explorations').createIndex({ id: 1 }, { unique: true });
+  await db.collection('resource_explorations').createIndex({ corporation_id: 1, state_code: 1, resource: 1, created_at: -1 });
+  await db.collection('resource_explorations').createIndex({ state_code: 1, created_at: -1 });
+  await db.collection('corporation_research').createIndex({ id: 1 }, { unique: true });
+  await db.collection('corporation_research').createIndex({ corporation_id: 1, sector_type: 1, project_key: 1 }, { unique: true });
+  await db.collection('corporation_research').createIndex({ completes_at: 1 });
+  await db.collection('notifications').createIndex({ id: 1 }, { unique: true });
+  await db.collection('notifications').createIndex({ user_id: 1, held: 1, created_at: -1 });
+  await db.collection('notifications').createIndex({ user_id: 1, held: 1, read: 1 });
+  await db.collection('notifications').createIndex({ held: 1, created_at: 1 });
+  await db.collection('notification_preferences').createIndex({ user_id: 1 }, { unique: true });
+  await db.collection('watchlist_items').createIndex({ id: 1 }, { unique: true });
+  await db.collection('watchlist_items').createIndex({ user_id: 1, target_type: 1, corporation_id: 1, item: 1 }, { unique: true });
+  await db.collection('price_alerts').createIndex({ id: 1 }, { unique: true });
+  await db.collection('price_alerts').createIndex({ user_id: 1, created_at: 1 });
+  await db.collection('price_alerts').createIndex({ watchlist_item_id: 1 });
+  await db.collection('price_alerts').createIndex({ target_type: 1, corporation_id: 1 });
+  await db.collection('sector_config_revisions').createIndex({ id: 1 }, { unique: true });
+  await db.collection('sector_config_revisions').createIndex({ created_at: -1 });
+  await db.collection('sector_config_releases').createIndex({ id: 1 }, { unique: true });
+  await db.collection('sector_config_releases').createIndex({ status: 1, release_quarter: 1 });
+  await db.collection('cron_runs').createIndex({ id: 1 }, { unique: true });
+  await db.collection('cron_runs').createIndex({ job: 1, scheduled_for: 1 }, { unique: true });
+  await db.collection('cron_runs').createIndex({ job: 1, triggered_by: 1, scheduled_for: -1 });
+  await db.collection('cron_runs').createIndex({ started_at: -1 });
+  await db.collection('cron_locks').createIndex({ job: 1 }, { unique: true });
+
   await db.collection('share_price_history').createIndex({ corporation_id: 1, recorded_at: -1 });
 
   await db.collection('market_entries').createIndex(
@@ -141,9 +230,20 @@ export const ensureMongoIndexes = async (): Promise<void> => {
 
   await db.collection('corporate_actions').createIndex({ corporation_id: 1, expires_at: 1 });
   await db.collection('corporate_actions').createIndex({ expires_at: 1 });
+  await db.collection('corporate_actions').createIndex(
+    { corporation_id: 1, action_type: 1 },
+    { unique: true, partialFilterExpression: { current: true } }
+  );
+  await db.collection('corporate_action_configs').createIndex({ action_type: 1 }, { unique: true });
 
-  await db.collection('commodity_price_history').createIndex({ commodity_name: 1, recorded_at: -1 });
+  await db.collection('commodity_price_history').createIndex({ resource_name: 1, recorded_at: -1 });
   await db.collection('product_price_history').createIndex({ product_name: 1, recorded_at: -1 });
+  await db.collection('market_index_history').createIndex({ id: 1 }, { unique: true });
+  await db.collection('market_index_history').createIndex({ index_key: 1, recorded_at: -1 });
+
+  await db.collection('loans').createIndex({ id: 1 }, { unique: true });
+  await db.collection('loans').createIndex({ corporation_id: 1, created_at: -1 });
+  await db.collection('loans').createIndex({ status: 1 });
 
   await db.collection('sector_configs').createIndex({ sector_name: 1, unit_type: 1 }, { unique: true });
   await db.collection('board_proposals').createIndex({ corporation_id: 1, created_at: -1 });
@@ -1,4 +1,5 @@
 import type { MarketUnitFlow, MarketUnitType } from '@/lib/api';
+import { NO_RESEARCH, type ResearchModifier } from '@/lib/constants/research';
 
 export type SectorUnits = {
   retail?: number;
@@ -22,10 +23,18 @@ export type FixedCosts = {
   perPeriod?: number;
 };
 
+// Actual stock movements over the period, from the hourly production cycle
+export type InventoryActivity = {
+  openingValue: number;  // Book value of stock at the start of the period
+  closingValue: number;  // Book value of stock at the end of the period
+  purchases: number;     // Inputs bought from the market during the period
+};
+
 export type SectorStatement = {
   sector: string;
   revenue: number;
   variableCosts: number;
+  inputCosts: number;       // Notional cost of the inputs the sector's units consume
   fixedCosts: number;
   netIncome: number;
   unitBreakdown: Record<MarketUnitType, { revenue: number; cost: number; units: number; producedUnits: number; demandedUnits: number }>;
@@ -34,6 +43,8 @@ export type SectorStatement = {
 export type ConsolidatedStatement = {
   revenue: number;
   variableCosts: number;
+  costOfGoodsSold: number;  // Part of variable costs: opening stock + purchases - closing stock
+  inventoryChange: number;  // Closing stock - opening stock
   fixedCosts: number;
   operatingIncome: number;  // Revenue - Variable Costs - Fixed Costs (before dividends)
   dividends: number;        // Operating Income * dividend_percentage
@@ -53,6 +64,8 @@ type ComputeParams = {
   periodHours?: number;
   fixedCosts?: FixedCosts;
   dividendPercentage?: number;  // 0-100, percentage of operating income paid as dividends
+  inventory?: InventoryActivity;  // When given, input costs come from actual stock instead of consumption rates
+  research?: Record<string, Partial<Record<MarketUnitType, ResearchModifier>>>;  // Per sector, from completed research
 };
 
 const clampNonNegative = (n: number) => (isFinite(n) && n > 0 ? n : 0);
@@ -82,6 +95,7 @@ export function computeFinancialStatements(params: ComputeParams): ConsolidatedS
   const commodityPrices = params.commodityPrices || {};
   const productPrices = params.productPrices || {};
   const fixedCosts = params.fixedCosts || {};
+  const usesStock = !!params.inventory;
 
   const sectors: SectorStatement[] = [];
 
@@ -98,10 +112,12 @@ export function computeFinancialStatements(params: ComputeParams): ConsolidatedS
       extraction: clampNonNegative(entry.extraction_count || 0),
     };
 
+    const researchFor = (unitType: MarketUnitType) => params.research?.[sector]?.[unitType] ?? NO_RESEARCH;
     const sectorFlow = flows[sector] || { retail: { inputs: { resources: {}, products: {} }, outputs: { resources: {}, products: {} } }, production: { inputs: { resources: {}, products: {} }, outputs: { resources: {}, products: {} } }, service: { inputs: { resources: {}, products: {} }, outputs: { resources: {}, products: {} } }, extraction: { inputs: { resources: {}, products: {} }, outputs: { resources: {}, products: {} } } };
 
     let revenue = 0;
     let variableCosts = 0;
+    let inputCosts = 0;
     const unitBreakdown: Record<MarketUnitType, { revenue: number; cost: number; units: number; producedUnits: number; demandedUnits: number }> = {
       retail: { revenue: 0, cost: 0, units: units.retail || 0, producedUnits: 0, demandedUnits: 0 },
       production: { revenue: 0, cost: 0, units: units.production || 0, producedUnits: 0, demandedUnits: 0 },
@@ -111,7 +127,7 @@ export function computeFinancialStatements(params: ComputeParams): ConsolidatedS
 
     if ((units.retail || 0) > 0) {
       const flow = sectorFlow.retail;
-      const laborCost = UNIT_LABOR_COSTS.retail;
+      const laborCost = UNIT_LABOR_COSTS.retail * researchFor('retail').laborMultiplier;
       let totalProductCost = 0;
       let revenueRaw = 0;
 
@@ -140,12 +156,13 @@ export function computeFinancialStatements(params: ComputeParams): ConsolidatedS
 
       const minRevenue = totalProductCost * (1 + RETAIL_MIN_GROSS_MARGIN_PCT);
       const unitRevenuePerHour = Math.max(revenueRaw, minRevenue);
-      const unitCostPerHour = laborCost + totalProductCost;
+      const unitCostPerHour = laborCost + (usesStock ? 0 : totalProductCost);
 
       const r = unitRevenuePerHour * periodHours * (units.retail || 0);
       const c = unitCostPerHour * periodHours * (units.retail || 0);
       revenue += r;
       variableCosts += c;
+      inputCosts += totalProductCost * periodHours * (units.retail || 0);
       unitBreakdown.retail.revenue += r;
       unitBreakdown.retail.cost += c;
       unitBreakdown.retail.demandedUnits = Math.round(Object.values(flow.inputs.products || {}).reduce((s, v) => s + v, 0) * (units.retail || 0) * periodHours);
@@ -153,39 +170,48 @@ export function computeFinancialStatements(params: ComputeParams): ConsolidatedS
 
     if ((units.production || 0) > 0) {
       const flow = sectorFlow.production;
-      let unitRevenuePerHour = unitEconomics.production.baseRevenue;
-      let unitCostPerHour = unitEconomics.production.baseCost;
+      const research = researchFor('production');
+      let unitRevenuePerHour = unitEconomics.production.baseRevenue * research.outputMultiplier;
+      let unitCostPerHour = unitEconomics.production.baseCost * research.laborMultiplier;
+      let unitInputCostPerHour = 0;
 
       const producedProduct = Object.keys(flow.outputs.products || {})[0] || null;
       if (producedProduct) {
-        const outputRate = flow.outputs.products[producedProduct] || 0;
+        const outputRate = (flow.outputs.products[producedProduct] || 0) * research.outputMultiplier;
         const productPrice = productPrices[producedProduct]?.currentPrice || 0;
         unitRevenuePerHour = productPrice * outputRate;
 
         unitCostPerHour = 0;
         Object.entries(flow.inputs.resources || {}).forEach(([resource, amount]) => {
           const price = commodityPrices[resource]?.currentPrice || 0;
-          unitCostPerHour += amount * price;
+          unitCostPerHour += amount * research.inputMultiplier * price;
         });
         Object.entries(flow.inputs.products || {}).forEach(([product, amount]) => {
           const price = productPrices[product]?.currentPrice || 0;
-          unitCostPerHour += amount * price;
+          unitCostPerHour += amount * research.inputMultiplier * price;
         });
+        unitInputCostPerHour = unitCostPerHour;
+        if (usesStock) unitCostPerHour = 0;
       }
+      // Products research unlocked are sold alongside the unit's own
+      Object.entries(research.unlockedOutputs).forEach(([product, amount]) => {
+        unitRevenuePerHour += (amount || 0) * (productPrices[product]?.currentPrice || 0);
+      });
 
       const r = unitRevenuePerHour * periodHours * (units.production || 0);
       const c = unitCostPerHour * periodHours * (units.production || 0);
       revenue += r;
       variableCosts += c;
+      inputCosts += unitInputCostPerHour * periodHours * (units.production || 0);
       unitBreakdown.production.revenue += r;
       unitBreakdown.production.cost += c;
-      unitBreakdown.production.producedUnits = Math.round((flow.outputs.products && producedProduct ? (flow.outputs.products[producedProduct] || 0) : 0) * (units.production || 0) * periodHours);
-      unitBreakdown.production.demandedUnits = Math.round(Object.values(flow.inputs.products || {}).reduce((s, v) => s + v, 0) * (units.production || 0) * periodHours);
+      unitBreakdown.production.producedUnits = Math.round((flow.outputs.products && producedProduct ? (flow.outputs.products[producedProduct] || 0) : 0) * research.outputMultiplier * (units.production || 0) * periodHours);
+      unitBreakdown.production.demandedUnits = Math.round(Object.values(flow.inputs.products || {}).reduce((s, v) => s + v, 0) * research.inputMultiplier * (units.production || 0) * periodHours);
     }
 
     if ((units.service || 0) > 0) {
       const flow = sectorFlow.service;
-      const laborCost = UNIT_LABOR_COSTS.service;
+      const laborCost = UNIT_LABOR_COSTS.service * researchFor('service').laborMultiplier;
       let totalProductCost = 0;
       let revenueRaw = 0;
 
@@ -216,12 +242,13 @@ export function computeFinancialStatements(params: ComputeParams): ConsolidatedS
 
       const minRevenue = totalProductCost * (1 + SERVICE_MIN_GROSS_MARGIN_PCT);
       const unitRevenuePerHour = Math.max(revenueRaw, minRevenue);
-      const unitCostPerHour = laborCost + totalProductCost;
+      const unitCostPerHour = laborCost + (usesStock ? 0 : totalProductCost);
 
       const r = unitRevenuePerHour * periodHours * (units.service || 0);
       const c = unitCostPerHour * periodHours * (units.service || 0);
       revenue += r;
       variableCosts += c;
+      inputCosts += totalProductCost * periodHours * (units.service || 0);
       unitBreakdown.service.revenue += r;
       unitBreakdown.service.cost += c;
       unitBreakdown.service.demandedUnits = Math.round(Object.values(flow.inputs.products || {}).reduce((s, v) => s + v, 0) * (units.service || 0) * periodHours);
@@ -229,11 +256,12 @@ export function computeFinancialStatements(params: ComputeParams): ConsolidatedS
 
     if ((units.extraction || 0) > 0) {
       const flow = sectorFlow.extraction;
+      const research = researchFor('extraction');
       const producedResource = Object.keys(flow.outputs.resources || {})[0] || null;
-      let unitRevenuePerHour = unitEconomics.extraction.baseRevenue;
-      let unitCostPerHour = unitEconomics.extraction.baseCost;
+      let unitRevenuePerHour = unitEconomics.extraction.baseRevenue * research.outputMultiplier;
+      const unitCostPerHour = unitEconomics.extraction.baseCost * research.laborMultiplier;
       if (producedResource) {
-        const outputRate = flow.outputs.resources[producedResource] || 0;
+        const outputRate = (flow.outputs.resources[producedResource] || 0) * research.outputMultiplier;
         const price = commodityPrices[producedResource]?.currentPrice || 0;
         unitRevenuePerHour = price * outputRate;
       }
@@ -243,7 +271,7 @@ export function computeFinancialStatements(params: ComputeParams): ConsolidatedS
       variableCosts += c;
       unitBreakdown.extraction.revenue += r;
       unitBreakdown.extraction.cost += c;
-      unitBreakdown.extraction.producedUnits = Math.round((flow.outputs.resources && producedResource ? (flow.outputs.resources[producedResource] || 0) : 0) * (units.extraction || 0) * periodHours);
+      unitBreakdown.extraction.producedUnits = Math.round((flow.outputs.resources && producedResource ? (flow.outputs.resources[producedResource] || 0) : 0) * research.outputMultiplier * (units.extraction || 0) * periodHours);
       unitBreakdown.extraction.demandedUnits = 0;
     }
 
@@ -255,6 +283,7 @@ export function computeFinancialStatements(params: ComputeParams): ConsolidatedS
       sector,
       revenue,
       variableCosts,
+      inputCosts,
       fixedCosts: fixed,
       netIncome: net,
       unitBreakdown,
@@ -262,7 +291,13 @@ export function computeFinancialStatements(params: ComputeParams): ConsolidatedS
   });
 
   const consolidatedRevenue = sectors.reduce((s, x) => s + x.revenue, 0);
-  const consolidatedVariable = sectors.reduce((s, x) => s + x.variableCosts, 0);
+  // With actual stock, inputs are costed once for the whole corporation rather than per sector
+  const inventory = params.inventory;
+  const costOfGoodsSold = inventory
+    ? inventory.openingValue + inventory.purchases - inventory.closingValue
+    : sectors.reduce((s, x) => s + x.inputCosts, 0);
+  const inventoryChange = inventory ? inventory.closingValue - inventory.openingValue : 0;
+  const consolidatedVariable = sectors.reduce((s, x) => s + x.variableCosts, 0) + (inventory ? costOfGoodsSold : 0);
   const corporateFixed = clampNonNegative((fixedCosts.ceoSalary || 0) + (fixedCosts.overhead || 0));
   const consolidatedFixed = sectors.reduce((s, x) => s + x.fixedCosts, 0) + corporateFixed;
 
@@ -279,6 +314,8 @@ export function computeFinancialStatements(params: ComputeParams): ConsolidatedS
   return {
     revenue: consolidatedRevenue,
     variableCosts: consolidatedVariable,
+    costOfGoodsSold,
+    inventoryChange,
     fixedCosts: consolidatedFixed,
     operatingIncome,
     dividends,
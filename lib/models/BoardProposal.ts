@@ -5,11 +5,15 @@ import { CorporationModel } from './Corporation';
 import { UserModel } from './User';
 import type { BoardMember, VoterDetails } from './Board';
 import { TransactionModel } from './Transaction';
-import { MessageModel } from './Message';
+import { MergerModel } from './Merger';
+import { MergerService } from '../services/MergerService';
+import { NotificationService } from '../services/NotificationService';
+import { WatchlistService } from '../services/WatchlistService';
 import { getErrorMessage } from '../utils';
+import type { SalaryArrearsAction } from '../constants/salaries';
 
 // Proposal types
-export type ProposalType = 'ceo_nomination' | 'sector_change' | 'hq_change' | 'board_size' | 'appoint_member' | 'ceo_salary_change' | 'dividend_change' | 'special_dividend' | 'stock_split' | 'focus_change';
+export type ProposalType = 'ceo_nomination' | 'sector_change' | 'hq_change' | 'board_size' | 'appoint_member' | 'ceo_salary_change' | 'dividend_change' | 'special_dividend' | 'stock_split' | 'focus_change' | 'salary_arrears_policy' | 'merger';
 
 // Proposal data structures
 export interface CeoNominationData {
@@ -54,7 +58,22 @@ export interface FocusChangeData {
   new_focus: 'extraction' | 'production' | 'retail' | 'service' | 'diversified';
 }
 
-export type ProposalData = CeoNominationData | SectorChangeData | HqChangeData | BoardSizeData | AppointMemberData | CeoSalaryChangeData | DividendChangeData | SpecialDividendData | StockSplitData | FocusChangeData;
+export interface SalaryArrearsPolicyData {
+  missed_payments_limit: number;
+  action: SalaryArrearsAction;
+}
+
+// Mirrored onto both boards; the merger completes once both proposals pass
+export interface MergerData {
+  merger_id: number;
+  acquirer_corporation_id: number;
+  acquirer_name: string;
+  target_corporation_id: number;
+  target_name: string;
+  exchange_ratio: number; // Acquirer shares per target share
+}
+
+export type ProposalData = CeoNominationData | SectorChangeData | HqChangeData | BoardSizeData | AppointMemberData | CeoSalaryChangeData | DividendChangeData | SpecialDividendData | StockSplitData | FocusChangeData | SalaryArrearsPolicyData | MergerData;
 
 export interface BoardProposal {
   id: number;
@@ -148,14 +167,14 @@ export class BoardProposalModel {
 
   // Get user's corporate history (CEO elections, founding, etc.)
   static async getUserCorporateHistory(userId: number, limit: number = 50): Promise<{
-    type: 'founded' | 'elected_ceo' | 'lost_ceo' | 'ceo_resigned';
+    type: 'founded' | 'elected_ceo' | 'lost_ceo' | 'ceo_resigned' | 'merger';
     corporation_id: number;
     corporation_name: string;
     date: Date;
     details?: string;
   }[]> {
     const history: {
-      type: 'founded' | 'elected_ceo' | 'lost_ceo' | 'ceo_resigned';
+      type: 'founded' | 'elected_ceo' | 'lost_ceo' | 'ceo_resigned' | 'merger';
       corporation_id: number;
       corporation_name: string;
       date: Date;
@@ -262,6 +281,39 @@ export class BoardProposalModel {
       }
     }
 
+    // 4. Mergers this user led as a CEO of either side, or whose shares were converted
+    const mergers = await MergerModel.findCompletedByUser(userId, limit);
+    const mergerCorps = await CorporationModel.findByIds([
+      ...new Set(mergers.flatMap(m => [m.acquirer_corporation_id, m.target_corporation_id])),
+    ]);
+    const mergerCorpNames = new Map(mergerCorps.map(c => [c.id, c.name]));
+
+    for (const merger of mergers) {
+      const acquirerName = mergerCorpNames.get(merger.acquirer_corporation_id) || 'Unknown';
+      const targetName = mergerCorpNames.get(merger.target_corporation_id) || 'Unknown';
+      const conversion = merger.converted_holders.find(h => h.user_id === userId);
+
+      let details: string;
+      if (merger.acquirer_ceo_id === userId) {
+        details = `Acquired ${targetName} by merger as CEO`;
+      } else if (merger.target_ceo_id === userId) {
+        details = `Led ${targetName} into a merger with ${acquirerName} as CEO`;
+      } else {
+        details = `${targetName} merged into ${acquirerName}`;
+      }
+      if (conversion) {
+        details += `; ${conversion.old_shares.toLocaleString()} shares converted into ${conversion.new_shares.toLocaleString()} ${acquirerName} shares`;
+      }
+
+      history.push({
+        type: 'merger',
+        corporation_id: merger.acquirer_corporation_id,
+        corporation_name: acquirerName,
+        date: merger.resolved_at ?? merger.created_at,
+        details,
+      });
+    }
+
     // Sort by date descending
     history.sort((a, b) => new Date(b.date).getTime() - new Date(a.date).getTime());
 
@@ -414,27 +466,68 @@ export class BoardProposalModel {
     if (passed) {
       // Apply the changes
       await this.applyChanges(proposal);
+    } else if (proposal.proposal_type === 'merger' && 'merger_id' in proposal.proposal_data) {
+      // Either board rejecting a merger rejects it on both
+      await MergerService.reject(proposal.proposal_data.merger_id);
     }
 
-    // Notify board members of outcome (system message)
+    // Notify board members of outcome
     const boardMembers = await BoardModel.getBoardMembers(proposal.corporation_id);
     const corporation = await CorporationModel.findById(proposal.corporation_id);
     const proposalDescription = this.getProposalDescription(proposal.proposal_type, proposal.proposal_data);
 
-    for (const member of boardMembers) {
-      try {
-        await MessageModel.create({
-          sender_id: 1, // System user ID
-          recipient_id: member.user_id,
-          subject: `Board Vote Result: ${corporation?.name || 'Corporation'}`,
-          body: `The proposal "${proposalDescription}" has ${passed ? 'PASSED' : 'FAILED'}.\n\nVotes: ${voteCounts.aye} Aye, ${voteCounts.nay} Nay`,
-        });
-      } catch (msgErr: unknown) {
-        console.warn(`Failed to send vote notification to user ${member.user_id}:`, msgErr);
-      }
+    await NotificationService.notify(boardMembers.map(member => member.user_id), {
+      category: 'proposal_resolved',
+      title: `Proposal ${passed ? 'passed' : 'failed'}: ${corporation?.name || 'Corporation'}`,
+      body: `The proposal "${proposalDescription}" has ${passed ? 'PASSED' : 'FAILED'}.\n\nVotes: ${voteCounts.aye} Aye, ${voteCounts.nay} Nay`,
+      link: `/corporation/${proposal.corporation_id}`,
+      corporation_id: proposal.corporation_id,
+    });
+
+    if (passed && proposal.proposal_type === 'ceo_nomination' && 'nominee_id' in proposal.proposal_data) {
+      const boardIds = boardMembers.map(member => member.user_id);
+      await NotificationService.notify([...boardIds, proposal.proposal_data.nominee_id], {
+        category: 'ceo_change',
+        title: `New CEO: ${corporation?.name || 'Corporation'}`,
+        body: `The board has elected ${proposal.proposal_data.nominee_name || 'a new CEO'} as CEO of ${corporation?.name || 'the corporation'}.`,
+        link: `/corporation/${proposal.corporation_id}`,
+        corporation_id: proposal.corporation_id,
+      });
     }
   }
 
+  /**
+   * Announce a new proposal: board members other than the proposer are asked to vote,
+   * and shareholders off the board are told it is open.
+   */
+  static async announce(proposal: BoardProposal, corporationName: string, voteBody: string): Promise<void> {
+    const [boardMembers, shareholders] = await Promise.all([
+      BoardModel.getBoardMembers(proposal.corporation_id),
+      ShareholderModel.findByCorporationId(proposal.corporation_id),
+    ]);
+    const boardIds = new Set(boardMembers.map(member => member.user_id));
+    const link = `/corporation/${proposal.corporation_id}`;
+
+    await NotificationService.notify([...boardIds].filter(id => id !== proposal.proposer_id), {
+      category: 'vote_needed',
+      title: `Vote needed: ${corporationName}`,
+      body: voteBody,
+      link,
+      corporation_id: proposal.corporation_id,
+    });
+
+    await NotificationService.notify(
+      shareholders.filter(sh => sh.shares > 0 && !boardIds.has(sh.user_id)).map(sh => sh.user_id),
+      {
+        category: 'proposal_opened',
+        title: `New proposal: ${corporationName}`,
+        body: this.getProposalDescription(proposal.proposal_type, proposal.proposal_data),
+        link,
+        corporation_id: proposal.corporation_id,
+      }
+    );
+  }
+
   // Apply passed proposal changes
   static async applyChanges(proposal: BoardProposal): Promise<void> {
     const corpId = proposal.corporation_id;
@@ -565,6 +658,7 @@ export class BoardProposalModel {
             share_price: newPrice,
             shares: splitCorp.shares * 2 // Total shares doubled
           });
+          await WatchlistService.evaluateShareAlerts(corpId);
         }
         break;
 
@@ -573,6 +667,22 @@ export class BoardProposalModel {
           await CorporationModel.update(corpId, { focus: data.new_focus });
         }
         break;
+
+      case 'salary_arrears_policy':
+        if ('missed_payments_limit' in data) {
+          await CorporationModel.update(corpId, {
+            salary_arrears_limit: data.missed_payments_limit,
+            salary_arrears_action: data.action,
+          });
+        }
+        break;
+
+      case 'merger':
+        if ('merger_id' in data) {
+          // Completes the merger once the other board has approved too
+          await MergerService.approve(data.merger_id, corpId);
+        }
+        break;
     }
   }
 
@@ -589,6 +699,14 @@ export class BoardProposalModel {
       case 'special_dividend': return `Pay special dividend of ${'capital_percentage' in data ? data.capital_percentage : 'unknown'}% capital`;
       case 'stock_split': return `2:1 Stock Split`;
       case 'focus_change': return `Change focus to ${'new_focus' in data ? data.new_focus : 'unknown'}`;
+      case 'salary_arrears_policy': return 'missed_payments_limit' in data
+        ? (data.action === 'ceo_nomination'
+          ? `Open a CEO vote after ${data.missed_payments_limit} missed salary payments`
+          : 'Take no action on missed salary payments')
+        : 'Change salary arrears policy';
+      case 'merger': return 'merger_id' in data
+        ? `Merge ${data.target_name} into ${data.acquirer_name} at ${data.exchange_ratio} ${data.acquirer_name} shares per ${data.target_name} share`
+        : 'Merge corporations';
       default: return type;
     }
   }
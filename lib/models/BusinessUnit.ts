@@ -1,4 +1,5 @@
 import { getDb, getNextId } from '../db/mongo';
+import { ClientSession } from 'mongodb';
 
 export type UnitType = 'retail' | 'production' | 'service' | 'extraction';
 
@@ -109,10 +110,11 @@ export class BusinessUnitModel {
   static async setUnitCount(
     marketEntryId: number,
     unitType: UnitType,
-    count: number
+    count: number,
+    session?: ClientSession
   ): Promise<BusinessUnit> {
     const db = getDb();
-    const existing = await db.collection<BusinessUnit>('business_units').findOne({ market_entry_id: marketEntryId, unit_type: unitType });
+    const existing = await db.collection<BusinessUnit>('business_units').findOne({ market_entry_id: marketEntryId, unit_type: unitType }, { session });
 
     if (existing) {
       const result = await db.collection<BusinessUnit>('business_units').findOneAndUpdate(
@@ -120,7 +122,7 @@ export class BusinessUnitModel {
         { 
           $set: { count, updated_at: new Date() }
         },
-        { returnDocument: 'after' }
+        { returnDocument: 'after', session }
       );
       if (!result) throw new Error('Failed to update business unit');
       return result;
@@ -135,7 +137,7 @@ export class BusinessUnitModel {
         created_at: now,
         updated_at: now,
       };
-      await db.collection('business_units').insertOne(doc);
+      await db.collection('business_units').insertOne(doc, { session });
       return doc;
     }
   }
@@ -222,7 +224,7 @@ export class BusinessUnitModel {
     await getDb().collection('business_units').deleteOne({ id });
   }
 
-  static async deleteByMarketEntryId(marketEntryId: number): Promise<void> {
-    await getDb().collection('business_units').deleteMany({ market_entry_id: marketEntryId });
+  static async deleteByMarketEntryId(marketEntryId: number, session?: ClientSession): Promise<void> {
+    await getDb().collection('business_units').deleteMany({ market_entry_id: marketEntryId }, { session });
   }
 }
@@ -0,0 +1,238 @@
+import { getDb, getNextId } from '../db/mongo';
+import { ClientSession, Filter } from 'mongodb';
+import { INVENTORY_CONFIG, InventoryItemType, roundQuantity } from '../constants/inventory';
+
+export type CommodityOrderSide = 'buy' | 'sell';
+export type CommodityOrderStatus = 'open' | 'filled' | 'cancelled' | 'expired';
+
+/**
+ * A resting limit order in a resource's or product's spot market, placed by a
+ * corporation's CEO on the corporation's behalf.
+ * Escrow is taken when the order is placed: buy orders hold capital at the limit price,
+ * sell orders hold the stock taken out of the corporation's inventory in `state_code`
+ * (along with its book value). Whatever is left is released on cancel or expiry.
+ * Bought stock is delivered to the buyer's inventory in the buy order's state.
+ */
+export interface CommodityOrder {
+  id: number;
+  corporation_id: number;
+  user_id: number;
+  item: string;
+  item_type: InventoryItemType;
+  state_code: string;
+  side: CommodityOrderSide;
+  limit_price: number;
+  quantity: number;
+  remaining_quantity: number;
+  reserved_cash: number;      // Buy orders only: capital still held in escrow
+  reserved_value: number;     // Sell orders only: book value of the stock still held in escrow
+  status: CommodityOrderStatus;
+  expires_at: Date;
+  created_at: Date;
+  updated_at: Date;
+  closed_at: Date | null;
+}
+
+export interface CommodityOrderInput {
+  corporation_id: number;
+  user_id: number;
+  item: string;
+  item_type: InventoryItemType;
+  state_code: string;
+  side: CommodityOrderSide;
+  limit_price: number;
+  quantity: number;
+  reserved_value?: number;
+  expires_at: Date;
+}
+
+export interface CommodityOrderFilters {
+  corporation_id?: number;
+  side?: CommodityOrderSide;
+  status?: CommodityOrderStatus;
+}
+
+export interface CommodityBookLevel {
+  price: number;
+  quantity: number;
+  orders: number;
+}
+
+export class CommodityOrderModel {
+  static async create(data: CommodityOrderInput, session?: ClientSession): Promise<CommodityOrder> {
+    const id = await getNextId('commodity_orders_id');
+    const now = new Date();
+
+    const doc: CommodityOrder = {
+      id,
+      corporation_id: data.corporation_id,
+      user_id: data.user_id,
+      item: data.item,
+      item_type: data.item_type,
+      state_code: data.state_code,
+      side: data.side,
+      limit_price: data.limit_price,
+      quantity: data.quantity,
+      remaining_quantity: data.quantity,
+      reserved_cash: data.side === 'buy' ? data.limit_price * data.quantity : 0,
+      reserved_value: data.side === 'sell' ? data.reserved_value ?? 0 : 0,
+      status: 'open',
+      expires_at: data.expires_at,
+      created_at: now,
+      updated_at: now,
+      closed_at: null,
+    };
+
+    await getDb().collection<CommodityOrder>('commodity_orders').insertOne(doc, { session });
+    return doc;
+  }
+
+  static async findById(id: number): Promise<CommodityOrder | null> {
+    return await getDb().collection<CommodityOrder>('commodity_orders').findOne({ id });
+  }
+
+  static async findByItem(
+    item: string,
+    filters: CommodityOrderFilters = {},
+    limit: number = 50,
+    offset: number = 0
+  ): Promise<CommodityOrder[]> {
+    const match: Filter<CommodityOrder> = { item };
+    if (filters.corporation_id !== undefined) match.corporation_id = filters.corporation_id;
+    if (filters.side) match.side = filters.side;
+    if (filters.status) match.status = filters.status;
+
+    return await getDb().collection<CommodityOrder>('commodity_orders')
+      .find(match)
+      .sort({ created_at: -1 })
+      .skip(offset)
+      .limit(limit)
+      .toArray();
+  }
+
+  static async findOpenByCorporation(corporationId: number, session?: ClientSession): Promise<CommodityOrder[]> {
+    return await getDb().collection<CommodityOrder>('commodity_orders')
+      .find({ corporation_id: corporationId, status: 'open' }, { session })
+      .toArray();
+  }
+
+  static async countOpenByCorporation(corporationId: number): Promise<number> {
+    return await getDb().collection<CommodityOrder>('commodity_orders').countDocuments({
+      corporation_id: corporationId,
+      status: 'open',
+    });
+  }
+
+  /**
+   * Resting orders on the opposite side that cross the given limit price,
+   * in price-time priority (best price first, then oldest first).
+   * The book is national: orders match across states, and the buyer pays the shipping
+   * on each fill. The taker corporation's own orders are skipped so it cannot trade with itself.
+   */
+  static async findMatchingOrders(
+    item: string,
+    takerSide: CommodityOrderSide,
+    limitPrice: number,
+    takerCorporationId: number
+  ): Promise<CommodityOrder[]> {
+    const isBuy = takerSide === 'buy';
+
+    return await getDb().collection<CommodityOrder>('commodity_orders')
+      .find({
+        item,
+        side: isBuy ? 'sell' : 'buy',
+        status: 'open',
+        corporation_id: { $ne: takerCorporationId },
+        expires_at: { $gt: new Date() },
+        limit_price: isBuy ? { $lte: limitPrice } : { $gte: limitPrice },
+      })
+      .sort({ limit_price: isBuy ? 1 : -1, created_at: 1, id: 1 })
+      .toArray();
+  }
+
+  /**
+   * Aggregated open quantity per price level.
+   * Bids are sorted best (highest) first, asks best (lowest) first.
+   */
+  static async getBookDepth(
+    item: string,
+    levels: number = 10
+  ): Promise<{ bids: CommodityBookLevel[]; asks: CommodityBookLevel[] }> {
+    const depth = async (side: CommodityOrderSide): Promise<CommodityBookLevel[]> => {
+      const rows = await getDb().collection('commodity_orders').aggregate([
+        { $match: { item, side, status: 'open', expires_at: { $gt: new Date() } } },
+        { $group: { _id: '$limit_price', quantity: { $sum: '$remaining_quantity' }, orders: { $sum: 1 } } },
+        { $sort: { _id: side === 'buy' ? -1 : 1 } },
+        { $limit: levels },
+      ]).toArray();
+
+      return rows.map(row => ({ price: row._id, quantity: roundQuantity(row.quantity), orders: row.orders }));
+    };
+
+    const [bids, asks] = await Promise.all([depth('buy'), depth('sell')]);
+    return { bids, asks };
+  }
+
+  // Get open orders past their expiry (for the expiry cron job)
+  static async findExpired(now: Date = new Date()): Promise<CommodityOrder[]> {
+    return await getDb().collection<CommodityOrder>('commodity_orders')
+      .find({ status: 'open', expires_at: { $lte: now } })
+      .sort({ expires_at: 1 })
+      .toArray();
+  }
+
+  /**
+   * Fill part of an open order. Only succeeds if the order is still open with enough
+   * remaining quantity, so a concurrently cancelled or filled order is never overfilled.
+   * Marks the order filled once nothing remains.
+   */
+  static async applyFill(
+    id: number,
+    quantity: number,
+    releasedCash: number,
+    releasedValue: number,
+    session?: ClientSession
+  ): Promise<CommodityOrder | null> {
+    const now = new Date();
+    const result = await getDb().collection<CommodityOrder>('commodity_orders').findOneAndUpdate(
+      { id, status: 'open', remaining_quantity: { $gte: quantity } },
+      [
+        {
+          $set: {
+            remaining_quantity: { $round: [{ $subtract: ['$remaining_quantity', quantity] }, INVENTORY_CONFIG.QUANTITY_DECIMALS] },
+            reserved_cash: { $max: [0, { $subtract: ['$reserved_cash', releasedCash] }] },
+            reserved_value: { $max: [0, { $subtract: ['$reserved_value', releasedValue] }] },
+            updated_at: now,
+          },
+        },
+        {
+          $set: {
+            status: { $cond: [{ $lte: ['$remaining_quantity', 0] }, 'filled', '$status'] },
+            closed_at: { $cond: [{ $lte: ['$remaining_quantity', 0] }, now, '$closed_at'] },
+          },
+        },
+      ],
+      { returnDocument: 'after', session }
+    );
+    return result ?? null;
+  }
+
+  /**
+   * Close an open order as cancelled or expired.
+   * Returns the order as it was before closing so the caller can release its escrow,
+   * or null if the order was no longer open.
+   */
+  static async close(
+    id: number,
+    status: 'cancelled' | 'expired',
+    session?: ClientSession
+  ): Promise<CommodityOrder | null> {
+    const now = new Date();
+    const result = await getDb().collection<CommodityOrder>('commodity_orders').findOneAndUpdate(
+      { id, status: 'open' },
+      { $set: { status, reserved_cash: 0, reserved_value: 0, updated_at: now, closed_at: now } },
+      { returnDocument: 'before', session }
+    );
+    return result ?? null;
+  }
+}
@@ -6,6 +6,9 @@ export interface CommodityPriceHistory {
   price: number;
   supply: number;
   demand: number;
+  traded_price: number | null;  // Volume-weighted spot market price over the hour, if it traded
+  traded_volume: number;
+  config_revision?: number | null;  // Sector config revision live when recorded (absent on older rows)
   recorded_at: Date;
 }
 
@@ -14,11 +17,14 @@ export interface CommodityPriceHistoryInput {
   price: number;
   supply: number;
   demand: number;
+  traded_price?: number | null;
+  traded_volume?: number;
+  config_revision?: number | null;
 }
 
 export class CommodityPriceHistoryModel {
   static async create(historyData: CommodityPriceHistoryInput): Promise<CommodityPriceHistory> {
-    const { resource_name, price, supply, demand } = historyData;
+    const { resource_name, price, supply, demand, traded_price = null, traded_volume = 0, config_revision = null } = historyData;
 
     const id = await getNextId('commodity_price_history_id');
     const now = new Date();
@@ -29,6 +35,9 @@ export class CommodityPriceHistoryModel {
       price,
       supply,
       demand,
+      traded_price,
+      traded_volume,
+      config_revision,
       recorded_at: now,
     };
 
@@ -75,4 +84,12 @@ export class CommodityPriceHistoryModel {
 
     return result ? result.price : null;
   }
+
+  static async findSince(resourceName: string, since: Date): Promise<CommodityPriceHistory[]> {
+    return await getDb()
+      .collection<CommodityPriceHistory>('commodity_price_history')
+      .find({ resource_name: resourceName, recorded_at: { $gte: since } })
+      .sort({ recorded_at: 1 })
+      .toArray();
+  }
 }
@@ -0,0 +1,76 @@
+import { getDb, getNextId } from '../db/mongo';
+import { ClientSession } from 'mongodb';
+import { InventoryItemType, roundQuantity } from '../constants/inventory';
+import { roundToCents } from '../constants/orders';
+
+// One fill between a buy and a sell order in a spot market
+export interface CommodityTrade {
+  id: number;
+  item: string;
+  item_type: InventoryItemType;
+  buy_order_id: number;
+  sell_order_id: number;
+  buyer_corporation_id: number;
+  seller_corporation_id: number;
+  quantity: number;
+  price: number;
+  total_amount: number;
+  created_at: Date;
+}
+
+export type CommodityTradeInput = Omit<CommodityTrade, 'id' | 'created_at'>;
+
+export interface TradedPrice {
+  price: number;    // Volume-weighted average price
+  volume: number;
+  trades: number;
+}
+
+export class CommodityTradeModel {
+  static async create(data: CommodityTradeInput, session?: ClientSession): Promise<CommodityTrade> {
+    const doc: CommodityTrade = {
+      id: await getNextId('commodity_trades_id'),
+      ...data,
+      created_at: new Date(),
+    };
+    await getDb().collection<CommodityTrade>('commodity_trades').insertOne(doc, { session });
+    return doc;
+  }
+
+  static async findByItem(item: string, limit: number = 20): Promise<CommodityTrade[]> {
+    return await getDb().collection<CommodityTrade>('commodity_trades')
+      .find({ item })
+      .sort({ created_at: -1, id: -1 })
+      .limit(limit)
+      .toArray();
+  }
+
+  /**
+   * Volume-weighted traded price of every item that traded since `since`,
+   * keyed by item name (for the hourly price history)
+   */
+  static async getTradedPrices(since: Date): Promise<Record<string, TradedPrice>> {
+    const rows = await getDb().collection('commodity_trades').aggregate([
+      { $match: { created_at: { $gte: since } } },
+      {
+        $group: {
+          _id: '$item',
+          amount: { $sum: '$total_amount' },
+          volume: { $sum: '$quantity' },
+          trades: { $sum: 1 },
+        },
+      },
+    ]).toArray();
+
+    const prices: Record<string, TradedPrice> = {};
+    for (const row of rows) {
+      if (row.volume <= 0) continue;
+      prices[row._id] = {
+        price: roundToCents(row.amount / row.volume),
+        volume: roundQuantity(row.volume),
+        trades: row.trades,
+      };
+    }
+    return prices;
+  }
+}
@@ -1,33 +1,51 @@
+import { ClientSession } from 'mongodb';
 import { getDb, getNextId } from '../db/mongo';
+import { CorporateActionEffect } from '../constants/corporateActions';
 
-export type ActionType = 'supply_rush' | 'marketing_campaign';
+// Key of an action in the corporate action catalogue (corporate_action_configs)
+export type ActionType = string;
 
 export interface CorporateAction {
   id: number;
   corporation_id: number;
   action_type: ActionType;
+  name?: string;
   cost: number;
+  state_code?: string | null; // Market targeted by state-scoped effects
+  effects?: CorporateActionEffect[]; // Catalogue effects at activation; older actions fall back to the catalogue
   started_at: Date;
   expires_at: Date;
+  available_at?: Date;  // When it may be activated again, after its cooldown
+  current?: boolean;    // The latest of its type for the corporation; older actions predate the flag
   created_at: Date;
 }
 
 export interface CreateCorporateActionData {
   corporation_id: number;
   action_type: ActionType;
+  name: string;
   cost: number;
+  state_code?: string | null;
+  effects: CorporateActionEffect[];
   started_at?: Date;
   expires_at: Date;
+  available_at?: Date;
+  current?: boolean;
 }
 
 export class CorporateActionModel {
-  static async create(actionData: CreateCorporateActionData): Promise<CorporateAction> {
+  static async create(actionData: CreateCorporateActionData, session?: ClientSession): Promise<CorporateAction> {
     const {
       corporation_id,
       action_type,
+      name,
       cost,
+      state_code = null,
+      effects,
       started_at = new Date(),
       expires_at,
+      available_at,
+      current,
     } = actionData;
 
     const id = await getNextId('corporate_actions_id');
@@ -37,16 +55,51 @@ export class CorporateActionModel {
       id,
       corporation_id,
       action_type,
+      name,
       cost,
+      state_code,
+      effects,
       started_at,
       expires_at,
+      ...(available_at ? { available_at } : {}),
+      ...(current !== undefined ? { current } : {}),
       created_at: now,
     };
 
-    await getDb().collection<CorporateAction>('corporate_actions').insertOne(doc);
+    await getDb().collection<CorporateAction>('corporate_actions').insertOne(doc, { session });
     return doc;
   }
 
+  /**
+   * Start an action within the caller's transaction. One action per corporation and type
+   * is current at a time (a unique partial index); the previous one stops being current
+   * once its cooldown has passed. Returns null while it is still active or cooling down.
+   */
+  static async activate(
+    actionData: CreateCorporateActionData & { available_at: Date },
+    session: ClientSession
+  ): Promise<CorporateAction | null> {
+    await getDb().collection<CorporateAction>('corporate_actions').updateOne(
+      {
+        corporation_id: actionData.corporation_id,
+        action_type: actionData.action_type,
+        current: true,
+        available_at: { $lte: new Date() },
+      },
+      { $set: { current: false } },
+      { session }
+    );
+
+    try {
+      return await this.create({ ...actionData, current: true }, session);
+    } catch (error: unknown) {
+      if (typeof error === 'object' && error !== null && (error as { code?: number }).code === 11000) {
+        return null;
+      }
+      throw error;
+    }
+  }
+
   static async findById(id: number): Promise<CorporateAction | null> {
     return await getDb().collection<CorporateAction>('corporate_actions').findOne({ id });
   }
@@ -85,6 +138,22 @@ export class CorporateActionModel {
       .toArray();
   }
 
+  // Most recent action of a type, active or not (cooldown checks)
+  static async findLatestAction(corporationId: number, actionType: ActionType, session?: ClientSession): Promise<CorporateAction | null> {
+    return await getDb().collection<CorporateAction>('corporate_actions').findOne(
+      { corporation_id: corporationId, action_type: actionType },
+      { sort: { expires_at: -1 }, session }
+    );
+  }
+
+  // Get all active actions across corporations (hourly revenue)
+  static async findAllActive(): Promise<CorporateAction[]> {
+    return await getDb()
+      .collection<CorporateAction>('corporate_actions')
+      .find({ expires_at: { $gt: new Date() } })
+      .toArray();
+  }
+
   // Check if a corporation has an active action of a specific type
   static async hasActiveAction(corporationId: number, actionType: ActionType): Promise<boolean> {
     const action = await this.findActiveAction(corporationId, actionType);
@@ -0,0 +1,75 @@
+import { getDb, getNextId } from '../db/mongo';
+import { CorporateActionDefinition, DEFAULT_CORPORATE_ACTIONS } from '../constants/corporateActions';
+
+export interface CorporateActionConfig extends CorporateActionDefinition {
+  id: number;
+  created_at: Date;
+  updated_at: Date;
+}
+
+export type UpdateCorporateActionConfigData = Partial<Omit<CorporateActionDefinition, 'action_type'>>;
+
+export class CorporateActionConfigModel {
+  /**
+   * Seed the default catalogue if no actions are configured yet
+   */
+  static async ensureDefaults(): Promise<void> {
+    const collection = getDb().collection<CorporateActionConfig>('corporate_action_configs');
+    if (await collection.countDocuments({}, { limit: 1 }) > 0) return;
+
+    for (const definition of DEFAULT_CORPORATE_ACTIONS) {
+      try {
+        await this.create(definition);
+      } catch (error: unknown) {
+        // Another request seeded it first
+        if (typeof error === 'object' && error !== null && (error as { code?: number }).code === 11000) continue;
+        throw error;
+      }
+    }
+  }
+
+  static async findAll(includeDisabled: boolean = true): Promise<CorporateActionConfig[]> {
+    await this.ensureDefaults();
+    return await getDb()
+      .collection<CorporateActionConfig>('corporate_action_configs')
+      .find(includeDisabled ? {} : { is_enabled: true })
+      .sort({ display_order: 1, id: 1 })
+      .toArray();
+  }
+
+  static async findByActionType(actionType: string): Promise<CorporateActionConfig | null> {
+    await this.ensureDefaults();
+    return await getDb().collection<CorporateActionConfig>('corporate_action_configs').findOne({ action_type: actionType });
+  }
+
+  static async create(data: CorporateActionDefinition): Promise<CorporateActionConfig> {
+    const id = await getNextId('corporate_action_configs_id');
+    const now = new Date();
+
+    const doc: CorporateActionConfig = {
+      id,
+      ...data,
+      created_at: now,
+      updated_at: now,
+    };
+
+    await getDb().collection<CorporateActionConfig>('corporate_action_configs').insertOne(doc);
+    return doc;
+  }
+
+  static async update(actionType: string, data: UpdateCorporateActionConfigData): Promise<CorporateActionConfig | null> {
+    if (Object.keys(data).length === 0) return null;
+
+    const result = await getDb().collection<CorporateActionConfig>('corporate_action_configs').findOneAndUpdate(
+      { action_type: actionType },
+      { $set: { ...data, updated_at: new Date() } },
+      { returnDocument: 'after' }
+    );
+    return result ?? null;
+  }
+
+  static async delete(actionType: string): Promise<boolean> {
+    const result = await getDb().collection<CorporateActionConfig>('corporate_action_configs').deleteOne({ action_type: actionType });
+    return result.deletedCount > 0;
+  }
+}
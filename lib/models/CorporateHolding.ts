@@ -0,0 +1,71 @@
+import { getDb, getNextId } from '../db/mongo';
+import { ClientSession } from 'mongodb';
+
+/**
+ * Shares of one corporation owned by another, acquired through a tender offer.
+ * Holdings count toward the holder's stake in later offers and carry control
+ * (the holder's CEO takes the target's CEO seat), but they are not shareholder
+ * rows: they do not vote on the board or receive dividends.
+ */
+export interface CorporateHolding {
+  id: number;
+  holder_corporation_id: number;
+  corporation_id: number;
+  shares: number;
+  acquired_at: Date;
+}
+
+export class CorporateHoldingModel {
+  static async addShares(
+    holderCorporationId: number,
+    corporationId: number,
+    shares: number,
+    session?: ClientSession
+  ): Promise<CorporateHolding> {
+    const collection = getDb().collection<CorporateHolding>('corporate_holdings');
+
+    const existing = await collection.findOneAndUpdate(
+      { holder_corporation_id: holderCorporationId, corporation_id: corporationId },
+      { $inc: { shares } },
+      { returnDocument: 'after', session }
+    );
+    if (existing) return existing;
+
+    const doc: CorporateHolding = {
+      id: await getNextId('corporate_holdings_id'),
+      holder_corporation_id: holderCorporationId,
+      corporation_id: corporationId,
+      shares,
+      acquired_at: new Date(),
+    };
+    await collection.insertOne(doc, { session });
+    return doc;
+  }
+
+  static async getHolding(holderCorporationId: number, corporationId: number, session?: ClientSession): Promise<CorporateHolding | null> {
+    return await getDb().collection<CorporateHolding>('corporate_holdings').findOne(
+      { holder_corporation_id: holderCorporationId, corporation_id: corporationId },
+      { session }
+    );
+  }
+
+  static async findByHolder(holderCorporationId: number, session?: ClientSession): Promise<CorporateHolding[]> {
+    return await getDb().collection<CorporateHolding>('corporate_holdings')
+      .find({ holder_corporation_id: holderCorporationId, shares: { $gt: 0 } }, { session })
+      .sort({ shares: -1 })
+      .toArray();
+  }
+
+  static async findByCorporation(corporationId: number, session?: ClientSession): Promise<CorporateHolding[]> {
+    return await getDb().collection<CorporateHolding>('corporate_holdings')
+      .find({ corporation_id: corporationId, shares: { $gt: 0 } }, { session })
+      .sort({ shares: -1 })
+      .toArray();
+  }
+
+  // Remove holdings that have been converted or passed on (when a corporation is merged away)
+  static async deleteByIds(ids: number[], session?: ClientSession): Promise<void> {
+    if (ids.length === 0) return;
+    await getDb().collection('corporate_holdings').deleteMany({ id: { $in: ids } }, { session });
+  }
+}
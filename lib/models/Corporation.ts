@@ -1,5 +1,7 @@
 import { getDb, getNextId } from '../db/mongo';
+import { ClientSession } from 'mongodb';
 import { isValidSector, isValidCorpFocus, CorpFocus, Sector } from '@/lib/constants/sectors';
+import type { SalaryArrearsAction } from '@/lib/constants/salaries';
 
 export interface Corporation {
   id: number;
@@ -18,7 +20,14 @@ export interface Corporation {
   dividend_percentage: number;
   special_dividend_last_paid_at: Date | null;
   special_dividend_last_amount: number | null;
+  undistributed_earnings?: number;  // Operating income accrued since the last dividend record date
+  last_dividend_at?: Date | null;
+  last_salary_paid_at?: Date | null;
+  salary_arrears_limit?: number;              // Missed payments before the arrears action applies
+  salary_arrears_action?: SalaryArrearsAction;
   focus: CorpFocus;
+  retired_at?: Date | null;       // Set when the corporation was merged into another
+  merged_into_id?: number | null;
   created_at: Date;
 }
 
@@ -49,6 +58,9 @@ export interface UpdateCorporationData {
   dividend_percentage?: number;
   special_dividend_last_paid_at?: Date | null;
   special_dividend_last_amount?: number | null;
+  last_salary_paid_at?: Date | null;
+  salary_arrears_limit?: number;
+  salary_arrears_action?: SalaryArrearsAction;
   focus?: CorpFocus;
 }
 
@@ -97,6 +109,9 @@ export class CorporationModel {
       dividend_percentage: 0, // Default?
       special_dividend_last_paid_at: null,
       special_dividend_last_amount: null,
+      undistributed_earnings: 0,
+      last_dividend_at: null,
+      last_salary_paid_at: null,
       created_at: now,
     };
 
@@ -111,8 +126,8 @@ export class CorporationModel {
     return doc;
   }
 
-  static async findById(id: number): Promise<Corporation | null> {
-    return getDb().collection<Corporation>('corporations').findOne({ id });
+  static async findById(id: number, session?: ClientSession): Promise<Corporation | null> {
+    return getDb().collection<Corporation>('corporations').findOne({ id }, { session });
   }
 
   static async findByName(name: string): Promise<Corporation | null> {
@@ -126,7 +141,7 @@ export class CorporationModel {
 
   static async findAll(): Promise<Corporation[]> {
     return await getDb().collection<Corporation>('corporations')
-      .find({})
+      .find({ retired_at: null })
       .sort({ created_at: -1 })
       .toArray();
   }
@@ -134,14 +149,14 @@ export class CorporationModel {
   static async search(query: string, limit: number = 20): Promise<Corporation[]> {
     const db = getDb();
     return db.collection<Corporation>('corporations')
-      .find({ name: { $regex: query, $options: 'i' } })
+      .find({ name: { $regex: query, $options: 'i' }, retired_at: null })
       .limit(limit)
       .toArray();
   }
 
   static async findByCeoId(ceoId: number): Promise<Corporation[]> {
     return await getDb().collection<Corporation>('corporations')
-      .find({ ceo_id: ceoId })
+      .find({ ceo_id: ceoId, retired_at: null })
       .sort({ created_at: -1 })
       .toArray();
   }
@@ -160,7 +175,8 @@ export class CorporationModel {
     const allowedFields = [
       'name', 'logo', 'type', 'share_price', 'capital', 'public_shares', 'shares',
       'hq_state', 'board_size', 'elected_ceo_id', 'ceo_salary', 'dividend_percentage',
-      'special_dividend_last_paid_at', 'special_dividend_last_amount', 'focus'
+      'special_dividend_last_paid_at', 'special_dividend_last_amount', 'focus',
+      'last_salary_paid_at', 'salary_arrears_limit', 'salary_arrears_action'
     ];
     
     const setUpdates: Record<string, any> = {};
@@ -198,38 +214,129 @@ export class CorporationModel {
   }
 
   // Set elected CEO
-  static async setElectedCeo(id: number, ceoUserId: number): Promise<Corporation | null> {
+  static async setElectedCeo(id: number, ceoUserId: number, session?: ClientSession): Promise<Corporation | null> {
     const result = await getDb().collection<Corporation>('corporations').findOneAndUpdate(
       { id },
       { $set: { elected_ceo_id: ceoUserId } },
-      { returnDocument: 'after' }
+      { returnDocument: 'after', session }
     );
     return result ?? null;
   }
 
-  static async incrementCapital(id: number, amount: number): Promise<Corporation | null> {
+  // Hand the corporation to a new CEO outright (change of control): the founder's seat goes too
+  static async transferCeo(id: number, ceoUserId: number, session?: ClientSession): Promise<Corporation | null> {
+    const result = await getDb().collection<Corporation>('corporations').findOneAndUpdate(
+      { id },
+      { $set: { ceo_id: ceoUserId, elected_ceo_id: ceoUserId } },
+      { returnDocument: 'after', session }
+    );
+    return result ?? null;
+  }
+
+  /**
+   * Retire a corporation merged into another: its shares and capital go to zero and
+   * it drops out of listings. Returns the corporation as it was before, or null if
+   * it had already been retired.
+   */
+  static async retire(id: number, mergedIntoId: number, session?: ClientSession): Promise<Corporation | null> {
+    const result = await getDb().collection<Corporation>('corporations').findOneAndUpdate(
+      { id, retired_at: null },
+      {
+        $set: {
+          shares: 0,
+          public_shares: 0,
+          capital: 0,
+          undistributed_earnings: 0,
+          elected_ceo_id: null,
+          retired_at: new Date(),
+          merged_into_id: mergedIntoId,
+        },
+      },
+      { returnDocument: 'before', session }
+    );
+    return result ?? null;
+  }
+
+  static async incrementCapital(id: number, amount: number, session?: ClientSession): Promise<Corporation | null> {
     const result = await getDb().collection<Corporation>('corporations').findOneAndUpdate(
       { id },
       { $inc: { capital: amount } },
-      { returnDocument: 'after' }
+      { returnDocument: 'after', session }
     );
     return result ?? null;
   }
 
-  static async incrementPublicShares(id: number, amount: number): Promise<Corporation | null> {
+  /**
+   * Take capital only if the corporation has at least that much.
+   * Returns null otherwise, so capital cannot be overdrawn.
+   */
+  static async debitCapital(id: number, amount: number, session?: ClientSession): Promise<Corporation | null> {
+    const result = await getDb().collection<Corporation>('corporations').findOneAndUpdate(
+      { id, capital: { $gte: amount } },
+      { $inc: { capital: -amount } },
+      { returnDocument: 'after', session }
+    );
+    return result ?? null;
+  }
+
+  // Add (or, for losses and salary, subtract) operating income toward the next dividend
+  static async accrueEarnings(id: number, amount: number, session?: ClientSession): Promise<Corporation | null> {
+    const result = await getDb().collection<Corporation>('corporations').findOneAndUpdate(
+      { id },
+      { $inc: { undistributed_earnings: amount } },
+      { returnDocument: 'after', session }
+    );
+    return result ?? null;
+  }
+
+  /**
+   * Mark earnings as distributed at a dividend record date. Decrements rather than
+   * resets, so income accrued while the dividend is being declared is kept.
+   */
+  static async markEarningsDistributed(
+    id: number,
+    earnings: number,
+    recordDate: Date,
+    session?: ClientSession
+  ): Promise<Corporation | null> {
+    const result = await getDb().collection<Corporation>('corporations').findOneAndUpdate(
+      { id },
+      {
+        $inc: { undistributed_earnings: -earnings },
+        $set: { last_dividend_at: recordDate },
+      },
+      { returnDocument: 'after', session }
+    );
+    return result ?? null;
+  }
+
+  static async incrementPublicShares(id: number, amount: number, session?: ClientSession): Promise<Corporation | null> {
     const result = await getDb().collection<Corporation>('corporations').findOneAndUpdate(
       { id },
       { $inc: { public_shares: amount } },
-      { returnDocument: 'after' }
+      { returnDocument: 'after', session }
     );
     return result ?? null;
   }
 
-  static async incrementShares(id: number, amount: number): Promise<Corporation | null> {
+  /**
+   * Take shares out of the public float only if enough are available.
+   * Returns null when the float is too small, so it can never go negative.
+   */
+  static async decrementPublicShares(id: number, amount: number, session?: ClientSession): Promise<Corporation | null> {
+    const result = await getDb().collection<Corporation>('corporations').findOneAndUpdate(
+      { id, public_shares: { $gte: amount } },
+      { $inc: { public_shares: -amount } },
+      { returnDocument: 'after', session }
+    );
+    return result ?? null;
+  }
+
+  static async incrementShares(id: number, amount: number, session?: ClientSession): Promise<Corporation | null> {
     const result = await getDb().collection<Corporation>('corporations').findOneAndUpdate(
       { id },
       { $inc: { shares: amount } },
-      { returnDocument: 'after' }
+      { returnDocument: 'after', session }
     );
     return result ?? null;
   }
@@ -0,0 +1,81 @@
+import { ClientSession } from 'mongodb';
+import { getDb, getNextId } from '../db/mongo';
+
+// One research project a corporation started in a sector; it is completed once completes_at has passed
+export interface CorporationResearch {
+  id: number;
+  corporation_id: number;
+  sector_type: string;
+  project_key: string;
+  user_id: number;
+  cost: number;
+  action_cost: number;
+  started_at: Date;
+  completes_at: Date;
+}
+
+export type CorporationResearchInput = Omit<CorporationResearch, 'id' | 'started_at'>;
+
+export class CorporationResearchModel {
+  static async create(data: CorporationResearchInput, session?: ClientSession): Promise<CorporationResearch> {
+    const doc: CorporationResearch = {
+      id: await getNextId('corporation_research_id'),
+      ...data,
+      started_at: new Date(),
+    };
+    await getDb().collection<CorporationResearch>('corporation_research').insertOne(doc, { session });
+    return doc;
+  }
+
+  static async findByCorporationId(corporationId: number): Promise<CorporationResearch[]> {
+    return await getDb().collection<CorporationResearch>('corporation_research')
+      .find({ corporation_id: corporationId })
+      .sort({ started_at: 1 })
+      .toArray();
+  }
+
+  static async countInProgress(corporationId: number, now: Date = new Date()): Promise<number> {
+    return await getDb().collection<CorporationResearch>('corporation_research')
+      .countDocuments({ corporation_id: corporationId, completes_at: { $gt: now } });
+  }
+
+  static async findCompleted(now: Date = new Date()): Promise<CorporationResearch[]> {
+    return await getDb().collection<CorporationResearch>('corporation_research')
+      .find({ completes_at: { $lte: now } })
+      .toArray();
+  }
+
+  /**
+   * Move a merged corporation's completed research to the acquirer. Projects the acquirer
+   * has already completed stay behind; one it still has in progress is replaced by the
+   * completed record. Returns the number of records moved.
+   */
+  static async transferCompleted(
+    fromCorporationId: number,
+    toCorporationId: number,
+    now: Date = new Date(),
+    session?: ClientSession
+  ): Promise<number> {
+    const collection = getDb().collection<CorporationResearch>('corporation_research');
+    const projectKey = (record: CorporationResearch) => `${record.sector_type}:${record.project_key}`;
+
+    const held = await collection.find({ corporation_id: toCorporationId }, { session }).toArray();
+    const completedKeys = new Set(held.filter(record => record.completes_at <= now).map(projectKey));
+    const moving = (await collection.find({ corporation_id: fromCorporationId, completes_at: { $lte: now } }, { session }).toArray())
+      .filter(record => !completedKeys.has(projectKey(record)));
+    if (moving.length === 0) return 0;
+
+    const movingKeys = new Set(moving.map(projectKey));
+    const superseded = held.filter(record => movingKeys.has(projectKey(record))).map(record => record.id);
+    if (superseded.length > 0) {
+      await collection.deleteMany({ id: { $in: superseded } }, { session });
+    }
+
+    const result = await collection.updateMany(
+      { id: { $in: moving.map(record => record.id) } },
+      { $set: { corporation_id: toCorporationId } },
+      { session }
+    );
+    return result.modifiedCount;
+  }
+}
@@ -0,0 +1,51 @@
+import { getDb } from '../db/mongo';
+
+// Lease held by one instance while it runs a cron job
+export interface CronLock {
+  job: string;
+  owner: string;
+  locked_until: Date;
+  acquired_at: Date;
+}
+
+export class CronLockModel {
+  /**
+   * Take the lease on a job if it is free or expired. Only one holder at a time: the
+   * upsert on a held lock hits the unique job index and fails, reported as not acquired.
+   */
+  static async acquire(job: string, owner: string, leaseMs: number): Promise<boolean> {
+    const now = new Date();
+
+    try {
+      await getDb().collection<CronLock>('cron_locks').findOneAndUpdate(
+        { job, locked_until: { $lt: now } },
+        { $set: { owner, locked_until: new Date(now.getTime() + leaseMs), acquired_at: now } },
+        { upsert: true }
+      );
+      return true;
+    } catch (error: unknown) {
+      if (typeof error === 'object' && error !== null && (error as { code?: number }).code === 11000) {
+        return false;
+      }
+      throw error;
+    }
+  }
+
+  /**
+   * Extend a held lease (long backfills). Returns false if the lease was lost.
+   */
+  static async renew(job: string, owner: string, leaseMs: number): Promise<boolean> {
+    const result = await getDb().collection<CronLock>('cron_locks').updateOne(
+      { job, owner },
+      { $set: { locked_until: new Date(Date.now() + leaseMs) } }
+    );
+    return result.matchedCount > 0;
+  }
+
+  static async release(job: string, owner: string): Promise<void> {
+    await getDb().collection<CronLock>('cron_locks').updateOne(
+      { job, owner },
+      { $set: { locked_until: new Date(0) } }
+    );
+  }
+}
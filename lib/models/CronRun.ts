@@ -0,0 +1,157 @@
+import { getDb, getNextId } from '../db/mongo';
+
+export type CronRunStatus = 'running' | 'succeeded' | 'failed';
+export type CronRunTrigger = 'schedule' | 'backfill' | 'manual';
+
+// One execution of one scheduled tick of a cron job
+export interface CronRun {
+  id: number;
+  job: string;
+  scheduled_for: Date;           // The tick this run covers; unique per job, so a tick runs once
+  triggered_by: CronRunTrigger;
+  triggered_by_user_id: number | null;
+  status: CronRunStatus;
+  attempt: number;
+  owner: string;                 // Instance that claimed the run (host:pid)
+  started_at: Date;
+  finished_at: Date | null;
+  lease_expires_at: Date;        // A 'running' claim past this is presumed crashed and can be retaken
+  result: Record<string, unknown> | null;
+  error: string | null;
+}
+
+export interface ClaimCronRunInput {
+  job: string;
+  scheduled_for: Date;
+  triggered_by: CronRunTrigger;
+  triggered_by_user_id?: number | null;
+  owner: string;
+  lease_ms: number;
+}
+
+export interface CronRunFilters {
+  job?: string;
+  status?: CronRunStatus;
+  limit?: number;
+}
+
+export class CronRunModel {
+  /**
+   * Claim a tick for execution. The unique (job, scheduled_for) index makes this the
+   * idempotency check: returns null if the tick has already been claimed, so a tick is
+   * never run twice automatically. Failed ticks are only re-run by an admin (see retake).
+   */
+  static async claim(data: ClaimCronRunInput): Promise<CronRun | null> {
+    const now = new Date();
+    const id = await getNextId('cron_run_id');
+
+    const doc: CronRun = {
+      id,
+      job: data.job,
+      scheduled_for: data.scheduled_for,
+      triggered_by: data.triggered_by,
+      triggered_by_user_id: data.triggered_by_user_id ?? null,
+      status: 'running',
+      attempt: 1,
+      owner: data.owner,
+      started_at: now,
+      finished_at: null,
+      lease_expires_at: new Date(now.getTime() + data.lease_ms),
+      result: null,
+      error: null,
+    };
+
+    try {
+      await getDb().collection<CronRun>('cron_runs').insertOne(doc);
+      return doc;
+    } catch (error: unknown) {
+      if (typeof error === 'object' && error !== null && (error as { code?: number }).code === 11000) {
+        return null;
+      }
+      throw error;
+    }
+  }
+
+  /**
+   * Re-claim an existing tick for an admin re-run: a failed run, or a running claim whose
+   * lease expired (its runner died). With `force`, a tick that succeeded is re-run too.
+   */
+  static async retake(
+    job: string,
+    scheduledFor: Date,
+    data: Pick<CronRun, 'owner' | 'triggered_by_user_id'> & { lease_ms: number },
+    force: boolean = false
+  ): Promise<CronRun | null> {
+    const now = new Date();
+    const claimable: Record<string, unknown>[] = [
+      { status: 'failed' },
+      { status: 'running', lease_expires_at: { $lt: now } },
+    ];
+    if (force) claimable.push({ status: 'succeeded' });
+
+    const result = await getDb().collection<CronRun>('cron_runs').findOneAndUpdate(
+      { job, scheduled_for: scheduledFor, $or: claimable },
+      {
+        $set: {
+          status: 'running',
+          triggered_by_user_id: data.triggered_by_user_id,
+          owner: data.owner,
+          started_at: now,
+          finished_at: null,
+          lease_expires_at: new Date(now.getTime() + data.lease_ms),
+          result: null,
+          error: null,
+        },
+        $inc: { attempt: 1 },
+      },
+      { returnDocument: 'after' }
+    );
+    return result ?? null;
+  }
+
+  static async complete(id: number, owner: string, result: Record<string, unknown> | null): Promise<CronRun | null> {
+    const updated = await getDb().collection<CronRun>('cron_runs').findOneAndUpdate(
+      { id, owner, status: 'running' },
+      { $set: { status: 'succeeded', finished_at: new Date(), result } },
+      { returnDocument: 'after' }
+    );
+    return updated ?? null;
+  }
+
+  static async fail(id: number, owner: string, error: string): Promise<CronRun | null> {
+    const updated = await getDb().collection<CronRun>('cron_runs').findOneAndUpdate(
+      { id, owner, status: 'running' },
+      { $set: { status: 'failed', finished_at: new Date(), error } },
+      { returnDocument: 'after' }
+    );
+    return updated ?? null;
+  }
+
+  static async findById(id: number): Promise<CronRun | null> {
+    return await getDb().collection<CronRun>('cron_runs').findOne({ id });
+  }
+
+  /**
+   * Most recent scheduled (non-manual) tick of a job, used as the starting point for backfill
+   */
+  static async findLatestScheduled(job: string): Promise<CronRun | null> {
+    const runs = await getDb().collection<CronRun>('cron_runs')
+      .find({ job, triggered_by: { $ne: 'manual' } })
+      .sort({ scheduled_for: -1 })
+      .limit(1)
+      .toArray();
+    return runs[0] ?? null;
+  }
+
+  static async findRecent(filters: CronRunFilters = {}): Promise<CronRun[]> {
+    const query: Record<string, unknown> = {};
+    if (filters.job) query.job = filters.job;
+    if (filters.status) query.status = filters.status;
+
+    return await getDb().collection<CronRun>('cron_runs')
+      .find(query)
+      .sort({ started_at: -1 })
+      .limit(filters.limit ?? 50)
+      .toArray();
+  }
+}
@@ -0,0 +1,105 @@
+import { getDb, getNextId } from '../db/mongo';
+import { ClientSession } from 'mongodb';
+
+export type DividendPayoutStatus = 'pending' | 'paid';
+
+// One holder's entitlement, fixed at the record date
+export interface DividendEntitlement {
+  user_id: number;
+  shares: number;
+  amount: number;
+  // Set when the shares were out on loan: the short seller pays the lender instead of the corporation
+  short_position_id: number | null;
+  payer_user_id: number | null;
+  paid: boolean;
+}
+
+export interface DividendPayout {
+  id: number;
+  corporation_id: number;
+  record_date: Date;
+  earnings: number;              // Operating income accrued since the previous record date
+  dividend_percentage: number;
+  dividend_per_share: number;
+  total_amount: number;          // Paid out of corporate capital (excludes short seller payments)
+  entitlements: DividendEntitlement[];
+  status: DividendPayoutStatus;
+  created_at: Date;
+  paid_at: Date | null;
+}
+
+export interface DividendPayoutInput {
+  corporation_id: number;
+  record_date: Date;
+  earnings: number;
+  dividend_percentage: number;
+  dividend_per_share: number;
+  total_amount: number;
+  entitlements: Omit<DividendEntitlement, 'paid'>[];
+}
+
+export class DividendPayoutModel {
+  static async create(data: DividendPayoutInput, session?: ClientSession): Promise<DividendPayout> {
+    const id = await getNextId('dividend_payouts_id');
+
+    const doc: DividendPayout = {
+      id,
+      corporation_id: data.corporation_id,
+      record_date: data.record_date,
+      earnings: data.earnings,
+      dividend_percentage: data.dividend_percentage,
+      dividend_per_share: data.dividend_per_share,
+      total_amount: data.total_amount,
+      entitlements: data.entitlements.map(e => ({ ...e, paid: false })),
+      status: 'pending',
+      created_at: new Date(),
+      paid_at: null,
+    };
+
+    await getDb().collection<DividendPayout>('dividend_payouts').insertOne(doc, { session });
+    return doc;
+  }
+
+  static async findById(id: number): Promise<DividendPayout | null> {
+    return await getDb().collection<DividendPayout>('dividend_payouts').findOne({ id });
+  }
+
+  static async findByCorporationId(corporationId: number, limit: number = 20): Promise<DividendPayout[]> {
+    return await getDb().collection<DividendPayout>('dividend_payouts')
+      .find({ corporation_id: corporationId })
+      .sort({ record_date: -1 })
+      .limit(limit)
+      .toArray();
+  }
+
+  // Payouts declared but not fully paid (e.g. the job stopped part way through)
+  static async findPending(): Promise<DividendPayout[]> {
+    return await getDb().collection<DividendPayout>('dividend_payouts')
+      .find({ status: 'pending' })
+      .sort({ record_date: 1 })
+      .toArray();
+  }
+
+  /**
+   * Flag one entitlement as paid. Only succeeds once, so a holder cannot be paid twice.
+   */
+  static async markEntitlementPaid(
+    id: number,
+    index: number,
+    session?: ClientSession
+  ): Promise<DividendPayout | null> {
+    const result = await getDb().collection<DividendPayout>('dividend_payouts').findOneAndUpdate(
+      { id, status: 'pending', [`entitlements.${index}.paid`]: false },
+      { $set: { [`entitlements.${index}.paid`]: true } },
+      { returnDocument: 'after', session }
+    );
+    return result ?? null;
+  }
+
+  static async markPaid(id: number): Promise<void> {
+    await getDb().collection<DividendPayout>('dividend_payouts').updateOne(
+      { id, status: 'pending' },
+      { $set: { status: 'paid', paid_at: new Date() } }
+    );
+  }
+}
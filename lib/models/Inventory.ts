@@ -0,0 +1,130 @@
+import { getDb, getNextId } from '../db/mongo';
+import { ClientSession } from 'mongodb';
+import { INVENTORY_CONFIG, InventoryItemType, roundQuantity } from '../constants/inventory';
+
+/**
+ * Physical stock of one resource or product held by a corporation in one state.
+ * Stock is carried at cost: `value` is the total book value of the quantity held,
+ * so the average unit cost is value / quantity.
+ */
+export interface InventoryItem {
+  id: number;
+  corporation_id: number;
+  state_code: string;
+  item: string;
+  item_type: InventoryItemType;
+  quantity: number;
+  value: number;
+  updated_at: Date;
+}
+
+export class InventoryModel {
+  /**
+   * Add (or with negative amounts, remove) quantity and book value,
+   * creating the stock row the first time an item is held in a state
+   */
+  static async adjust(
+    corporationId: number,
+    stateCode: string,
+    item: string,
+    itemType: InventoryItemType,
+    quantity: number,
+    value: number,
+    session?: ClientSession
+  ): Promise<InventoryItem> {
+    const collection = getDb().collection<InventoryItem>('inventories');
+    const now = new Date();
+
+    const existing = await collection.findOneAndUpdate(
+      { corporation_id: corporationId, state_code: stateCode, item },
+      { $inc: { quantity: roundQuantity(quantity), value }, $set: { updated_at: now } },
+      { returnDocument: 'after', session }
+    );
+    if (existing) return existing;
+
+    const doc: InventoryItem = {
+      id: await getNextId('inventories_id'),
+      corporation_id: corporationId,
+      state_code: stateCode,
+      item,
+      item_type: itemType,
+      quantity: roundQuantity(quantity),
+      value,
+      updated_at: now,
+    };
+    await collection.insertOne(doc, { session });
+    return doc;
+  }
+
+  /**
+   * Take quantity out of stock at its average cost, only if that much is held.
+   * Returns the book value removed, or null if the stock was short.
+   */
+  static async withdraw(
+    corporationId: number,
+    stateCode: string,
+    item: string,
+    quantity: number,
+    session?: ClientSession
+  ): Promise<number | null> {
+    const amount = roundQuantity(quantity);
+    const result = await getDb().collection<InventoryItem>('inventories').findOneAndUpdate(
+      { corporation_id: corporationId, state_code: stateCode, item, quantity: { $gte: amount } },
+      [
+        {
+          $set: {
+            value: { $subtract: ['$value', { $multiply: ['$value', { $divide: [amount, '$quantity'] }] }] },
+            quantity: { $round: [{ $subtract: ['$quantity', amount] }, INVENTORY_CONFIG.QUANTITY_DECIMALS] },
+            updated_at: new Date(),
+          },
+        },
+      ],
+      { returnDocument: 'before', session }
+    );
+    if (!result) return null;
+
+    return result.value * (amount / result.quantity);
+  }
+
+  static async findByCorporation(corporationId: number): Promise<InventoryItem[]> {
+    return await getDb().collection<InventoryItem>('inventories')
+      .find({ corporation_id: corporationId, quantity: { $gt: 0 } })
+      .sort({ state_code: 1, item: 1 })
+      .toArray();
+  }
+
+  static async findHolding(corporationId: number, stateCode: string, item: string): Promise<InventoryItem | null> {
+    return await getDb().collection<InventoryItem>('inventories').findOne({
+      corporation_id: corporationId,
+      state_code: stateCode,
+      item,
+    });
+  }
+
+  static async findAll(): Promise<InventoryItem[]> {
+    return await getDb().collection<InventoryItem>('inventories')
+      .find({ quantity: { $gt: 0 } })
+      .toArray();
+  }
+
+  // Book value of everything a corporation holds, across all states
+  static async getTotalValue(corporationId: number): Promise<number> {
+    const result = await getDb().collection('inventories').aggregate([
+      { $match: { corporation_id: corporationId, quantity: { $gt: 0 } } },
+      { $group: { _id: null, total: { $sum: '$value' } } },
+    ]).toArray();
+    return result.length > 0 ? result[0].total : 0;
+  }
+
+  // Move all of one corporation's stock to another (when it is merged away)
+  static async transferCorporation(fromCorporationId: number, toCorporationId: number, session?: ClientSession): Promise<void> {
+    const rows = await getDb().collection<InventoryItem>('inventories')
+      .find({ corporation_id: fromCorporationId, quantity: { $gt: 0 } }, { session })
+      .toArray();
+
+    for (const row of rows) {
+      await this.adjust(toCorporationId, row.state_code, row.item, row.item_type, row.quantity, row.value, session);
+    }
+    await getDb().collection('inventories').deleteMany({ corporation_id: fromCorporationId }, { session });
+  }
+}
@@ -0,0 +1,99 @@
+import { getDb, getNextId } from '../db/mongo';
+import { ClientSession } from 'mongodb';
+import type { UnitType } from '../constants/sectors';
+
+export type UnitHours = Record<UnitType, { scheduled: number; operated: number }>;
+
+// One corporation's results from one hourly production cycle
+export interface InventoryLedgerEntry {
+  id: number;
+  corporation_id: number;
+  cycle_at: Date;
+  revenue: number;              // Consumer sales plus surplus sold to the market
+  wholesale_revenue: number;    // Part of revenue from surplus sold to the market
+  labor_cost: number;
+  purchases: number;            // Inputs bought from the market stockpile or imported
+  logistics_cost?: number;      // Part of purchases paid for shipping above the national price
+  cost_of_goods_sold: number;   // Opening stock + purchases - closing stock
+  opening_value: number;        // Book value of all stock before the cycle
+  closing_value: number;        // Book value of all stock after the cycle
+  unit_hours: UnitHours;        // Units scheduled vs. units that had inputs to run
+  config_revision?: number | null; // Sector config revision the cycle ran under
+}
+
+export type InventoryLedgerInput = Omit<InventoryLedgerEntry, 'id' | 'cycle_at'>;
+
+export interface InventoryActivitySummary {
+  cycles: number;
+  revenue: number;
+  wholesale_revenue: number;
+  labor_cost: number;
+  purchases: number;
+  logistics_cost: number;
+  cost_of_goods_sold: number;
+  opening_value: number;
+  closing_value: number;
+  inventory_change: number;
+  idle_unit_hours: number;
+}
+
+export class InventoryLedgerModel {
+  static async create(data: InventoryLedgerInput, cycleAt: Date = new Date(), session?: ClientSession): Promise<InventoryLedgerEntry> {
+    const doc: InventoryLedgerEntry = {
+      id: await getNextId('inventory_ledger_id'),
+      cycle_at: cycleAt,
+      ...data,
+    };
+    await getDb().collection<InventoryLedgerEntry>('inventory_ledger').insertOne(doc, { session });
+    return doc;
+  }
+
+  static async findByCorporation(corporationId: number, limit: number = 24): Promise<InventoryLedgerEntry[]> {
+    return await getDb().collection<InventoryLedgerEntry>('inventory_ledger')
+      .find({ corporation_id: corporationId })
+      .sort({ cycle_at: -1 })
+      .limit(limit)
+      .toArray();
+  }
+
+  /**
+   * Totals over the cycles of the last `hours` hours. Opening value is the stock
+   * before the first of those cycles and closing value the stock after the last.
+   */
+  static async summarize(corporationId: number, hours: number): Promise<InventoryActivitySummary> {
+    const since = new Date(Date.now() - hours * 60 * 60 * 1000);
+    const entries = await getDb().collection<InventoryLedgerEntry>('inventory_ledger')
+      .find({ corporation_id: corporationId, cycle_at: { $gte: since } })
+      .sort({ cycle_at: 1 })
+      .toArray();
+
+    const summary: InventoryActivitySummary = {
+      cycles: entries.length,
+      revenue: 0,
+      wholesale_revenue: 0,
+      labor_cost: 0,
+      purchases: 0,
+      logistics_cost: 0,
+      cost_of_goods_sold: 0,
+      opening_value: entries.length > 0 ? entries[0].opening_value : 0,
+      closing_value: entries.length > 0 ? entries[entries.length - 1].closing_value : 0,
+      inventory_change: 0,
+      idle_unit_hours: 0,
+    };
+
+    for (const entry of entries) {
+      summary.revenue += entry.revenue;
+      summary.wholesale_revenue += entry.wholesale_revenue;
+      summary.labor_cost += entry.labor_cost;
+      summary.purchases += entry.purchases;
+      summary.logistics_cost += entry.logistics_cost ?? 0;
+      summary.cost_of_goods_sold += entry.cost_of_goods_sold;
+      for (const hours of Object.values(entry.unit_hours)) {
+        summary.idle_unit_hours += hours.scheduled - hours.operated;
+      }
+    }
+    summary.inventory_change = summary.closing_value - summary.opening_value;
+
+    return summary;
+  }
+}
@@ -0,0 +1,232 @@
+import { getDb, getNextId } from '../db/mongo';
+import { ClientSession, Filter } from 'mongodb';
+
+export type LoanStatus = 'pending' | 'active' | 'paid' | 'defaulted' | 'rejected';
+
+export interface Loan {
+  id: number;
+  corporation_id: number;
+  requested_by: number;
+  guarantor_user_id: number | null;
+  principal: number;
+  outstanding_principal: number;
+  interest_rate: number;      // Annual % (per 96-hour game year)
+  term_months: number;        // Game months (8 hours each)
+  term_hours: number;
+  hourly_payment: number;     // Level amortizing payment
+  purpose: string;
+  collateral: string | null;
+  status: LoanStatus;
+  total_interest_paid: number;
+  total_principal_paid: number;
+  missed_payments: number;    // Consecutive missed hourly payments
+  last_payment_at: Date | null;
+  created_at: Date;
+  closed_at: Date | null;
+}
+
+export interface LoanInput {
+  corporation_id: number;
+  requested_by: number;
+  guarantor_user_id?: number | null;
+  principal: number;
+  interest_rate: number;
+  term_months: number;
+  term_hours: number;
+  hourly_payment: number;
+  purpose: string;
+  collateral?: string | null;
+}
+
+export interface LoanFilters {
+  status?: LoanStatus;
+  sortBy?: 'amount' | 'interestRate' | 'termMonths' | 'createdAt' | 'status';
+  sortOrder?: 'asc' | 'desc';
+}
+
+const SORT_FIELDS: Record<NonNullable<LoanFilters['sortBy']>, keyof Loan> = {
+  amount: 'principal',
+  interestRate: 'interest_rate',
+  termMonths: 'term_months',
+  createdAt: 'created_at',
+  status: 'status',
+};
+
+export class LoanModel {
+  /**
+   * Create a new loan. Loans are disbursed on creation, so they start active.
+   */
+  static async create(data: LoanInput, session?: ClientSession): Promise<Loan> {
+    const id = await getNextId('loans_id');
+    const now = new Date();
+
+    const doc: Loan = {
+      id,
+      corporation_id: data.corporation_id,
+      requested_by: data.requested_by,
+      guarantor_user_id: data.guarantor_user_id ?? null,
+      principal: data.principal,
+      outstanding_principal: data.principal,
+      interest_rate: data.interest_rate,
+      term_months: data.term_months,
+      term_hours: data.term_hours,
+      hourly_payment: data.hourly_payment,
+      purpose: data.purpose,
+      collateral: data.collateral ?? null,
+      status: 'active',
+      total_interest_paid: 0,
+      total_principal_paid: 0,
+      missed_payments: 0,
+      last_payment_at: null,
+      created_at: now,
+      closed_at: null,
+    };
+
+    await getDb().collection<Loan>('loans').insertOne(doc, { session });
+    return doc;
+  }
+
+  static async findById(id: number): Promise<Loan | null> {
+    return await getDb().collection<Loan>('loans').findOne({ id });
+  }
+
+  /**
+   * Get loans for a corporation with optional status filter, sorting and pagination
+   */
+  static async findByCorporationId(
+    corporationId: number,
+    filters: LoanFilters = {},
+    limit: number = 20,
+    offset: number = 0
+  ): Promise<Loan[]> {
+    const match: Filter<Loan> = { corporation_id: corporationId };
+    if (filters.status) {
+      match.status = filters.status;
+    }
+
+    const sortField = SORT_FIELDS[filters.sortBy || 'createdAt'];
+    const sortDirection = filters.sortOrder === 'asc' ? 1 : -1;
+
+    return await getDb().collection<Loan>('loans')
+      .find(match)
+      .sort({ [sortField]: sortDirection })
+      .skip(offset)
+      .limit(limit)
+      .toArray();
+  }
+
+  static async countByCorporationId(corporationId: number, status?: LoanStatus, session?: ClientSession): Promise<number> {
+    const match: Filter<Loan> = { corporation_id: corporationId };
+    if (status) {
+      match.status = status;
+    }
+    return await getDb().collection<Loan>('loans').countDocuments(match, { session });
+  }
+
+  // Get all active loans (for the servicing cron job)
+  static async findAllActive(): Promise<Loan[]> {
+    return await getDb().collection<Loan>('loans')
+      .find({ status: 'active' })
+      .sort({ created_at: 1 })
+      .toArray();
+  }
+
+  // Check if a corporation has ever defaulted
+  static async hasDefaulted(corporationId: number): Promise<boolean> {
+    const count = await getDb().collection<Loan>('loans').countDocuments({
+      corporation_id: corporationId,
+      status: 'defaulted',
+    });
+    return count > 0;
+  }
+
+  /**
+   * Total outstanding principal across a corporation's active loans (balance sheet liability)
+   */
+  static async getOutstandingPrincipal(corporationId: number): Promise<number> {
+    const result = await getDb().collection('loans').aggregate([
+      { $match: { corporation_id: corporationId, status: 'active' } },
+      { $group: { _id: null, total: { $sum: '$outstanding_principal' } } },
+    ]).toArray();
+
+    return result.length > 0 ? result[0].total : 0;
+  }
+
+  /**
+   * Move a corporation's pending and active loans to another corporation (on a merger).
+   * Closed loans stay with the original borrower's history. Returns the number moved.
+   */
+  static async reassignOpenLoans(fromCorporationId: number, toCorporationId: number, session?: ClientSession): Promise<number> {
+    const result = await getDb().collection<Loan>('loans').updateMany(
+      { corporation_id: fromCorporationId, status: { $in: ['pending', 'active'] } },
+      { $set: { corporation_id: toCorporationId } },
+      { session }
+    );
+    return result.modifiedCount;
+  }
+
+  /**
+   * Apply a payment. Interest is expensed; principal reduces the outstanding balance.
+   * Resets the missed payment counter and closes the loan once it is repaid.
+   */
+  static async applyPayment(
+    id: number,
+    interestPaid: number,
+    principalPaid: number,
+    paidOffThreshold: number,
+    session?: ClientSession
+  ): Promise<Loan | null> {
+    const now = new Date();
+    const result = await getDb().collection<Loan>('loans').findOneAndUpdate(
+      // A payment computed from a stale balance must not overpay the principal
+      { id, status: 'active', outstanding_principal: { $gte: principalPaid - paidOffThreshold } },
+      [
+        {
+          $set: {
+            outstanding_principal: { $max: [0, { $subtract: ['$outstanding_principal', principalPaid] }] },
+            total_interest_paid: { $add: ['$total_interest_paid', interestPaid] },
+            total_principal_paid: { $add: ['$total_principal_paid', principalPaid] },
+            missed_payments: 0,
+            last_payment_at: now,
+          },
+        },
+        {
+          $set: {
+            status: { $cond: [{ $lt: ['$outstanding_principal', paidOffThreshold] }, 'paid', '$status'] },
+            closed_at: { $cond: [{ $lt: ['$outstanding_principal', paidOffThreshold] }, now, '$closed_at'] },
+          },
+        },
+      ],
+      { returnDocument: 'after', session }
+    );
+    return result ?? null;
+  }
+
+  /**
+   * Record a missed payment. Unpaid interest is capitalized into the outstanding principal.
+   */
+  static async recordMissedPayment(id: number, unpaidInterest: number): Promise<Loan | null> {
+    const result = await getDb().collection<Loan>('loans').findOneAndUpdate(
+      { id, status: 'active' },
+      { $inc: { outstanding_principal: unpaidInterest, missed_payments: 1 } },
+      { returnDocument: 'after' }
+    );
+    return result ?? null;
+  }
+
+  /**
+   * Mark a loan as defaulted after any seized capital has been applied.
+   * The remaining balance is written off and no longer counts as a liability.
+   */
+  static async markDefaulted(id: number, recoveredAmount: number, session?: ClientSession): Promise<Loan | null> {
+    const result = await getDb().collection<Loan>('loans').findOneAndUpdate(
+      { id, status: 'active' },
+      {
+        $set: { status: 'defaulted', closed_at: new Date() },
+        $inc: { total_principal_paid: recoveredAmount, outstanding_principal: -recoveredAmount },
+      },
+      { returnDocument: 'after', session }
+    );
+    return result ?? null;
+  }
+}
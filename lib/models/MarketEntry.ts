@@ -1,5 +1,5 @@
 import { getDb, getNextId, connectMongo } from '../db/mongo';
-import { Document } from 'mongodb';
+import { ClientSession, Document } from 'mongodb';
 import { 
   DISPLAY_PERIOD_HOURS,
   calculateMarketEntryEconomics,
@@ -23,10 +23,15 @@ import {
   SECTOR_SERVICE_DEMANDS,
   SERVICE_ELECTRICITY_CONSUMPTION,
   SERVICE_PRODUCT_CONSUMPTION,
+  US_REGIONS,
+  US_STATE_CODES,
+  getStateRegion,
   type Product,
   type Resource,
   type Sector,
 } from '../constants/sectors';
+import { ActiveActionEffects, getUnitEconomicsModifier } from '../constants/corporateActions';
+import { calculateLocalPrices, type RegionalBalance } from '../constants/logistics';
 
 export interface MarketEntry {
   id: number;
@@ -76,73 +81,29 @@ export interface CorporationFinances {
   special_dividend_per_share_last?: number | null;
 }
 
+// Units of each type, keyed by sector
+interface SectorUnitCounts {
+  retail: Record<string, number>;
+  production: Record<string, number>;
+  service: Record<string, number>;
+  extraction: Record<string, number>;
+}
+
 export class MarketEntryModel {
   private static _marketPricesCache: { prices: MarketPriceOverrides; timestamp: number } | null = null;
   private static readonly MARKET_PRICES_CACHE_TTL_MS = 60_000;
 
-  private static async getMarketDataInternal(): Promise<{
-    commodityPrices: Record<Resource, number>;
-    productPrices: Record<Product, number>;
+  /**
+   * Hourly supply and demand of every resource and product produced by the given units,
+   * keyed by sector
+   */
+  private static calculateSupplyDemand(units: SectorUnitCounts): {
     commoditySupply: Record<Resource, number>;
     commodityDemand: Record<Resource, number>;
     productSupply: Record<Product, number>;
     productDemand: Record<Product, number>;
-  }> {
-    await connectMongo();
-    const db = getDb();
-    const result = await db.collection('market_entries').aggregate([
-      {
-        $lookup: {
-          from: 'business_units',
-          localField: 'id',
-          foreignField: 'market_entry_id',
-          as: 'units'
-        }
-      },
-      {
-        $unwind: {
-          path: '$units',
-          preserveNullAndEmptyArrays: true
-        }
-      },
-      {
-        $group: {
-          _id: '$sector_type',
-          retail_units: {
-            $sum: {
-              $cond: [{ $eq: ['$units.unit_type', 'retail'] }, '$units.count', 0]
-            }
-          },
-          production_units: {
-            $sum: {
-              $cond: [{ $eq: ['$units.unit_type', 'production'] }, '$units.count', 0]
-            }
-          },
-          service_units: {
-            $sum: {
-              $cond: [{ $eq: ['$units.unit_type', 'service'] }, '$units.count', 0]
-            }
-          },
-          extraction_units: {
-            $sum: {
-              $cond: [{ $eq: ['$units.unit_type', 'extraction'] }, '$units.count', 0]
-            }
-          }
-        }
-      }
-    ]).toArray();
-
-    const sectorRetailUnits: Record<string, number> = {};
-    const sectorProductionUnits: Record<string, number> = {};
-    const sectorServiceUnits: Record<string, number> = {};
-    const sectorExtractionUnits: Record<string, number> = {};
-    for (const row of result) {
-      const sector = row._id as string;
-      sectorRetailUnits[sector] = row.retail_units || 0;
-      sectorProductionUnits[sector] = row.production_units || 0;
-      sectorServiceUnits[sector] = row.service_units || 0;
-      sectorExtractionUnits[sector] = row.extraction_units || 0;
-    }
+  } {
+    const { retail: sectorRetailUnits, production: sectorProductionUnits, service: sectorServiceUnits, extraction: sectorExtractionUnits } = units;
 
     const commoditySupply: Record<Resource, number> = {} as Record<Resource, number>;
     const commodityDemand: Record<Resource, number> = {} as Record<Resource, number>;
@@ -166,11 +127,6 @@ export class MarketEntryModel {
       commodityDemand[resource] = demand;
     }
 
-    const commodityPrices: Record<Resource, number> = {} as Record<Resource, number>;
-    for (const resource of RESOURCES) {
-      commodityPrices[resource] = calculateCommodityPrice(resource, commoditySupply[resource], commodityDemand[resource]).currentPrice;
-    }
-
     const productSupply: Record<Product, number> = {} as Record<Product, number>;
     for (const product of PRODUCTS) {
       let supply = 0;
@@ -217,18 +173,123 @@ export class MarketEntryModel {
       productDemand[product] = demand;
     }
 
+    return { commoditySupply, commodityDemand, productSupply, productDemand };
+  }
+
+  private static async getMarketDataInternal(): Promise<{
+    commodityPrices: Record<Resource, number>;
+    productPrices: Record<Product, number>;
+    commoditySupply: Record<Resource, number>;
+    commodityDemand: Record<Resource, number>;
+    productSupply: Record<Product, number>;
+    productDemand: Record<Product, number>;
+    // Per item, then per region
+    regionalBalances: Record<string, Record<string, RegionalBalance>>;
+    // Per state, then per item
+    localPrices: Record<string, Record<string, number>>;
+  }> {
+    await connectMongo();
+    const db = getDb();
+    const result = await db.collection('market_entries').aggregate([
+      {
+        $lookup: {
+          from: 'business_units',
+          localField: 'id',
+          foreignField: 'market_entry_id',
+          as: 'units'
+        }
+      },
+      {
+        $unwind: {
+          path: '$units',
+          preserveNullAndEmptyArrays: true
+        }
+      },
+      {
+        $group: {
+          _id: { sector: '$sector_type', state: '$state_code' },
+          retail_units: {
+            $sum: {
+              $cond: [{ $eq: ['$units.unit_type', 'retail'] }, '$units.count', 0]
+            }
+          },
+          production_units: {
+            $sum: {
+              $cond: [{ $eq: ['$units.unit_type', 'production'] }, '$units.count', 0]
+            }
+          },
+          service_units: {
+            $sum: {
+              $cond: [{ $eq: ['$units.unit_type', 'service'] }, '$units.count', 0]
+            }
+          },
+          extraction_units: {
+            $sum: {
+              $cond: [{ $eq: ['$units.unit_type', 'extraction'] }, '$units.count', 0]
+            }
+          }
+        }
+      }
+    ]).toArray();
+
+    const emptyUnits = (): SectorUnitCounts => ({ retail: {}, production: {}, service: {}, extraction: {} });
+    const nationalUnits = emptyUnits();
+    const regionalUnits: Record<string, SectorUnitCounts> = {};
+    for (const region of Object.keys(US_REGIONS)) {
+      regionalUnits[region] = emptyUnits();
+    }
+
+    for (const row of result) {
+      const sector = row._id.sector as string;
+      const region = getStateRegion(row._id.state as string);
+      for (const units of region ? [nationalUnits, regionalUnits[region]] : [nationalUnits]) {
+        units.retail[sector] = (units.retail[sector] || 0) + (row.retail_units || 0);
+        units.production[sector] = (units.production[sector] || 0) + (row.production_units || 0);
+        units.service[sector] = (units.service[sector] || 0) + (row.service_units || 0);
+        units.extraction[sector] = (units.extraction[sector] || 0) + (row.extraction_units || 0);
+      }
+    }
+
+    const { commoditySupply, commodityDemand, productSupply, productDemand } = this.calculateSupplyDemand(nationalUnits);
+
+    const commodityPrices: Record<Resource, number> = {} as Record<Resource, number>;
+    for (const resource of RESOURCES) {
+      commodityPrices[resource] = calculateCommodityPrice(resource, commoditySupply[resource], commodityDemand[resource]).currentPrice;
+    }
+
     const productPrices: Record<Product, number> = {} as Record<Product, number>;
     for (const product of PRODUCTS) {
       productPrices[product] = calculateProductPrice(product, productSupply[product], productDemand[product]).currentPrice;
     }
 
+    const regionalBalances: Record<string, Record<string, RegionalBalance>> = {};
+    for (const [region, units] of Object.entries(regionalUnits)) {
+      const regional = this.calculateSupplyDemand(units);
+      for (const resource of RESOURCES) {
+        regionalBalances[resource] ??= {};
+        regionalBalances[resource][region] = { supply: regional.commoditySupply[resource], demand: regional.commodityDemand[resource] };
+      }
+      for (const product of PRODUCTS) {
+        regionalBalances[product] ??= {};
+        regionalBalances[product][region] = { supply: regional.productSupply[product], demand: regional.productDemand[product] };
+      }
+    }
+
+    const localPrices = calculateLocalPrices(
+      { ...commodityPrices, ...productPrices },
+      regionalBalances,
+      US_STATE_CODES
+    );
+
     return {
       commodityPrices,
       productPrices,
       commoditySupply,
       commodityDemand,
       productSupply,
-      productDemand
+      productDemand,
+      regionalBalances,
+      localPrices
     };
   }
 
@@ -277,9 +338,9 @@ export class MarketEntryModel {
     return await getDb().collection<MarketEntry>('market_entries').findOne({ id });
   }
 
-  static async findByCorporationId(corporationId: number): Promise<MarketEntry[]> {
+  static async findByCorporationId(corporationId: number, session?: ClientSession): Promise<MarketEntry[]> {
     return await getDb().collection<MarketEntry>('market_entries')
-      .find({ corporation_id: corporationId })
+      .find({ corporation_id: corporationId }, { session })
       .sort({ created_at: -1 })
       .toArray();
   }
@@ -534,8 +595,18 @@ export class MarketEntryModel {
     return count > 0;
   }
 
-  static async delete(id: number): Promise<void> {
-    await getDb().collection('market_entries').deleteOne({ id });
+  static async delete(id: number, session?: ClientSession): Promise<void> {
+    await getDb().collection('market_entries').deleteOne({ id }, { session });
+  }
+
+  // Hand an entry (and the business units under it) to another corporation
+  static async reassign(id: number, corporationId: number, session?: ClientSession): Promise<MarketEntry | null> {
+    const result = await getDb().collection<MarketEntry>('market_entries').findOneAndUpdate(
+      { id },
+      { $set: { corporation_id: corporationId } },
+      { returnDocument: 'after', session }
+    );
+    return result ?? null;
   }
 
   // Get market entries with unit counts
@@ -1290,6 +1361,7 @@ export class MarketEntryModel {
   // Calculate corporation finances from all market entries
   // Uses dynamic economics based on sector, commodity prices, and product prices
   // When corporationData is provided, calculates full income statement with CEO salary and dividends
+  // When actionEffects is provided, applies active corporate action effects per unit type and state
 
   static async calculateCorporationFinances(
     corporationId: number,
@@ -1300,7 +1372,8 @@ export class MarketEntryModel {
       shares: number;
       special_dividend_last_paid_at?: Date | string | null;
       special_dividend_last_amount?: number | null;
-    }
+    },
+    actionEffects?: ActiveActionEffects[]
   ): Promise<CorporationFinances> {
     // Get all market entries with their units
     const entries = await this.findByCorporationIdWithUnits(corporationId);
@@ -1322,7 +1395,10 @@ export class MarketEntryModel {
         entry.production_count,
         entry.service_count,
         entry.extraction_count,
-        prices
+        prices,
+        actionEffects?.length
+          ? (unitType) => getUnitEconomicsModifier(actionEffects, unitType, entry.state_code)
+          : undefined
       );
 
       hourlyRevenue += economics.hourlyRevenue;
@@ -1399,7 +1475,10 @@ export class MarketEntryModel {
 
   // Get all corporations with their hourly financials (for cron job)
   // Now uses dynamic economics per-corporation for accurate commodity-based pricing
-  static async getAllCorporationsFinancials(): Promise<{ 
+  // Active corporate action effects are applied per corporation when provided
+  static async getAllCorporationsFinancials(
+    actionEffects?: Map<number, ActiveActionEffects[]>
+  ): Promise<{ 
     corporation_id: number; 
     hourly_revenue: number;
     hourly_costs: number;
@@ -1418,7 +1497,7 @@ export class MarketEntryModel {
     const prices = await this.getCurrentMarketPrices();
 
     for (const corpId of corporationIds) {
-      const finances = await this.calculateCorporationFinances(corpId, prices);
+      const finances = await this.calculateCorporationFinances(corpId, prices, undefined, actionEffects?.get(corpId));
       if (finances.hourly_profit !== 0 || 
           finances.total_retail_units > 0 || 
           finances.total_production_units > 0 || 
@@ -0,0 +1,73 @@
+import { getDb, getNextId } from '../db/mongo';
+import type { IndexConstituent, MarketIndexKey } from '../constants/marketIndices';
+
+export interface MarketIndexHistory {
+  id: number;
+  index_key: MarketIndexKey;
+  level: number;
+  value: number;                          // Market value of the constituents
+  constituents: IndexConstituent[];       // Holdings the next recording is chain-linked from
+  recorded_at: Date;
+}
+
+export interface MarketIndexHistoryInput {
+  index_key: MarketIndexKey;
+  level: number;
+  constituents: IndexConstituent[];
+}
+
+export class MarketIndexHistoryModel {
+  static async create(historyData: MarketIndexHistoryInput): Promise<MarketIndexHistory> {
+    const { index_key, level, constituents } = historyData;
+
+    const id = await getNextId('market_index_history_id');
+    const doc: MarketIndexHistory = {
+      id,
+      index_key,
+      level,
+      value: constituents.reduce((sum, constituent) => sum + constituent.price * constituent.units, 0),
+      constituents,
+      recorded_at: new Date(),
+    };
+
+    await getDb().collection<MarketIndexHistory>('market_index_history').insertOne(doc);
+    return doc;
+  }
+
+  static async findByIndexKey(
+    indexKey: MarketIndexKey,
+    limit: number = 1000,
+    hours?: number
+  ): Promise<MarketIndexHistory[]> {
+    const filter: Record<string, unknown> = { index_key: indexKey };
+    if (hours) {
+      filter.recorded_at = { $gte: new Date(Date.now() - hours * 60 * 60 * 1000) };
+    }
+
+    return await getDb()
+      .collection<MarketIndexHistory>('market_index_history')
+      .find(filter, { projection: { constituents: 0 } })
+      .sort({ recorded_at: -1 })
+      .limit(limit)
+      .toArray();
+  }
+
+  static async findLatest(indexKey: MarketIndexKey): Promise<MarketIndexHistory | null> {
+    return await getDb()
+      .collection<MarketIndexHistory>('market_index_history')
+      .findOne({ index_key: indexKey }, { sort: { recorded_at: -1 } });
+  }
+
+  static async getLevelFromHoursAgo(indexKey: MarketIndexKey, hoursAgo: number): Promise<number | null> {
+    const cutoff = new Date(Date.now() - hoursAgo * 60 * 60 * 1000);
+
+    const result = await getDb()
+      .collection<MarketIndexHistory>('market_index_history')
+      .findOne(
+        { index_key: indexKey, recorded_at: { $lte: cutoff } },
+        { sort: { recorded_at: -1 }, projection: { level: 1 } }
+      );
+
+    return result ? result.level : null;
+  }
+}
@@ -0,0 +1,38 @@
+import { getDb } from '../db/mongo';
+import { InventoryItemType, roundQuantity } from '../constants/inventory';
+
+/**
+ * National market stock of one resource or product: surplus sold by producers
+ * that consumers buy their inputs from
+ */
+export interface MarketStockpile {
+  item: string;
+  item_type: InventoryItemType;
+  quantity: number;
+  updated_at: Date;
+}
+
+export class MarketStockpileModel {
+  static async findAll(): Promise<MarketStockpile[]> {
+    return await getDb().collection<MarketStockpile>('market_stockpiles')
+      .find({})
+      .sort({ item: 1 })
+      .toArray();
+  }
+
+  static async findByItem(item: string): Promise<MarketStockpile | null> {
+    return await getDb().collection<MarketStockpile>('market_stockpiles').findOne({ item });
+  }
+
+  static async adjust(item: string, itemType: InventoryItemType, quantity: number): Promise<void> {
+    await getDb().collection<MarketStockpile>('market_stockpiles').updateOne(
+      { item },
+      {
+        $inc: { quantity: roundQuantity(quantity) },
+        $set: { updated_at: new Date() },
+        $setOnInsert: { item_type: itemType },
+      },
+      { upsert: true }
+    );
+  }
+}
@@ -0,0 +1,180 @@
+import { getDb, getNextId } from '../db/mongo';
+import { ClientSession } from 'mongodb';
+
+export type MergerStatus = 'pending' | 'completed' | 'rejected' | 'failed';
+
+// One holder's target shares and the acquirer shares they were exchanged for
+export interface ConvertedHolding {
+  user_id: number;
+  old_shares: number;
+  new_shares: number;
+}
+
+export interface Merger {
+  id: number;
+  acquirer_corporation_id: number;
+  target_corporation_id: number;
+  exchange_ratio: number;                  // Acquirer shares issued per target share
+  proposer_id: number;
+  acquirer_proposal_id: number | null;
+  target_proposal_id: number | null;
+  acquirer_approved_at: Date | null;
+  target_approved_at: Date | null;
+  status: MergerStatus;
+  failure_reason: string | null;
+  acquirer_ceo_id: number | null;          // CEOs of both sides when the merger completed
+  target_ceo_id: number | null;
+  converted_holders: ConvertedHolding[];
+  created_at: Date;
+  resolved_at: Date | null;
+}
+
+export interface MergerInput {
+  acquirer_corporation_id: number;
+  target_corporation_id: number;
+  exchange_ratio: number;
+  proposer_id: number;
+}
+
+export interface MergerCompletion {
+  acquirer_ceo_id: number | null;
+  target_ceo_id: number | null;
+  converted_holders: ConvertedHolding[];
+}
+
+export class MergerModel {
+  static async create(data: MergerInput): Promise<Merger> {
+    const id = await getNextId('mergers_id');
+
+    const doc: Merger = {
+      id,
+      acquirer_corporation_id: data.acquirer_corporation_id,
+      target_corporation_id: data.target_corporation_id,
+      exchange_ratio: data.exchange_ratio,
+      proposer_id: data.proposer_id,
+      acquirer_proposal_id: null,
+      target_proposal_id: null,
+      acquirer_approved_at: null,
+      target_approved_at: null,
+      status: 'pending',
+      failure_reason: null,
+      acquirer_ceo_id: null,
+      target_ceo_id: null,
+      converted_holders: [],
+      created_at: new Date(),
+      resolved_at: null,
+    };
+
+    await getDb().collection<Merger>('mergers').insertOne(doc);
+    return doc;
+  }
+
+  static async findById(id: number): Promise<Merger | null> {
+    return await getDb().collection<Merger>('mergers').findOne({ id });
+  }
+
+  static async findByCorporation(corporationId: number, limit: number = 20): Promise<Merger[]> {
+    return await getDb().collection<Merger>('mergers')
+      .find({ $or: [{ acquirer_corporation_id: corporationId }, { target_corporation_id: corporationId }] })
+      .sort({ created_at: -1 })
+      .limit(limit)
+      .toArray();
+  }
+
+  // A pending merger either corporation is already party to, on either side
+  static async findPendingInvolving(corporationIds: number[]): Promise<Merger | null> {
+    return await getDb().collection<Merger>('mergers').findOne({
+      status: 'pending',
+      $or: [
+        { acquirer_corporation_id: { $in: corporationIds } },
+        { target_corporation_id: { $in: corporationIds } },
+      ],
+    });
+  }
+
+  // Completed mergers a user took part in as a CEO of either side or as a converted holder
+  static async findCompletedByUser(userId: number, limit: number = 50): Promise<Merger[]> {
+    return await getDb().collection<Merger>('mergers')
+      .find({
+        status: 'completed',
+        $or: [
+          { acquirer_ceo_id: userId },
+          { target_ceo_id: userId },
+          { 'converted_holders.user_id': userId },
+        ],
+      })
+      .sort({ resolved_at: -1 })
+      .limit(limit)
+      .toArray();
+  }
+
+  static async setProposals(id: number, acquirerProposalId: number, targetProposalId: number): Promise<Merger | null> {
+    const result = await getDb().collection<Merger>('mergers').findOneAndUpdate(
+      { id },
+      { $set: { acquirer_proposal_id: acquirerProposalId, target_proposal_id: targetProposalId } },
+      { returnDocument: 'after' }
+    );
+    return result ?? null;
+  }
+
+  /**
+   * Record one board's approval. Returns null if the merger is no longer pending
+   * or that board had already approved, so an approval is only counted once.
+   */
+  static async recordApproval(id: number, corporationId: number): Promise<Merger | null> {
+    const collection = getDb().collection<Merger>('mergers');
+    const now = new Date();
+
+    const asAcquirer = await collection.findOneAndUpdate(
+      { id, status: 'pending', acquirer_corporation_id: corporationId, acquirer_approved_at: null },
+      { $set: { acquirer_approved_at: now } },
+      { returnDocument: 'after' }
+    );
+    if (asAcquirer) return asAcquirer;
+
+    const result = await collection.findOneAndUpdate(
+      { id, status: 'pending', target_corporation_id: corporationId, target_approved_at: null },
+      { $set: { target_approved_at: now } },
+      { returnDocument: 'after' }
+    );
+    return result ?? null;
+  }
+
+  /**
+   * Move a pending merger to rejected or failed. Returns null if it had already been resolved.
+   */
+  static async close(
+    id: number,
+    status: 'rejected' | 'failed',
+    failureReason: string | null = null,
+    session?: ClientSession
+  ): Promise<Merger | null> {
+    const result = await getDb().collection<Merger>('mergers').findOneAndUpdate(
+      { id, status: 'pending' },
+      { $set: { status, failure_reason: failureReason, resolved_at: new Date() } },
+      { returnDocument: 'after', session }
+    );
+    return result ?? null;
+  }
+
+  /**
+   * Mark a fully approved merger completed. Only succeeds once, so the merge itself
+   * cannot run twice if both approvals race.
+   */
+  static async complete(id: number, completion: MergerCompletion, session?: ClientSession): Promise<Merger | null> {
+    const result = await getDb().collection<Merger>('mergers').findOneAndUpdate(
+      { id, status: 'pending', acquirer_approved_at: { $ne: null }, target_approved_at: { $ne: null } },
+      {
+        $set: {
+          status: 'completed',
+          acquirer_ceo_id: completion.acquirer_ceo_id,
+          target_ceo_id: completion.target_ceo_id,
+          converted_holders: completion.converted_holders,
+          resolved_at: new Date(),
+        },
+      },
+      { returnDocument: 'after', session }
+    );
+    return result ?? null;
+  }
+}
@@ -0,0 +1,85 @@
+import { getDb, getNextId } from '../db/mongo';
+import type { NotificationCategory } from '../constants/notifications';
+
+// One notification to one user. Held notifications wait for the user's next digest
+// and are not shown until then.
+export interface Notification {
+  id: number;
+  user_id: number;
+  category: NotificationCategory | 'digest';
+  title: string;
+  body: string;
+  link: string | null;            // Page the notification opens
+  corporation_id: number | null;
+  read: boolean;
+  held: boolean;
+  created_at: Date;
+}
+
+export type NotificationInput = Omit<Notification, 'id' | 'read' | 'created_at'>;
+
+export class NotificationModel {
+  static async createMany(data: NotificationInput[]): Promise<Notification[]> {
+    if (data.length === 0) return [];
+
+    const now = new Date();
+    const docs: Notification[] = [];
+    for (const item of data) {
+      docs.push({
+        id: await getNextId('notifications_id'),
+        ...item,
+        read: false,
+        created_at: now,
+      });
+    }
+    await getDb().collection<Notification>('notifications').insertMany(docs);
+    return docs;
+  }
+
+  static async findByUserId(userId: number, limit: number, unreadOnly: boolean = false): Promise<Notification[]> {
+    return await getDb().collection<Notification>('notifications')
+      .find({ user_id: userId, held: false, ...(unreadOnly ? { read: false } : {}) })
+      .sort({ created_at: -1, id: -1 })
+      .limit(limit)
+      .toArray();
+  }
+
+  static async countUnread(userId: number): Promise<number> {
+    return await getDb().collection<Notification>('notifications')
+      .countDocuments({ user_id: userId, held: false, read: false });
+  }
+
+  /**
+   * Mark notifications read; all of the user's when no ids are given. Returns the number changed.
+   */
+  static async markRead(userId: number, ids?: number[]): Promise<number> {
+    const result = await getDb().collection<Notification>('notifications').updateMany(
+      { user_id: userId, held: false, read: false, ...(ids ? { id: { $in: ids } } : {}) },
+      { $set: { read: true } }
+    );
+    return result.modifiedCount;
+  }
+
+  static async findHeld(): Promise<Notification[]> {
+    return await getDb().collection<Notification>('notifications')
+      .find({ held: true })
+      .sort({ created_at: 1, id: 1 })
+      .toArray();
+  }
+
+  /**
+   * Show held notifications once their digest is out. They are already summed up in it, so they arrive read.
+   */
+  static async release(ids: number[]): Promise<void> {
+    await getDb().collection<Notification>('notifications').updateMany(
+      { id: { $in: ids } },
+      { $set: { held: false, read: true } }
+    );
+  }
+
+  static async deleteOlderThan(before: Date): Promise<number> {
+    const result = await getDb().collection<Notification>('notifications')
+      .deleteMany({ held: false, created_at: { $lt: before } });
+    return result.deletedCount;
+  }
+}
@@ -0,0 +1,32 @@
+import { getDb } from '../db/mongo';
+import type { NotificationPreferences } from '../constants/notifications';
+
+// A user's delivery choice per notification category; categories not listed are instant
+export interface NotificationPreference {
+  user_id: number;
+  preferences: NotificationPreferences;
+  updated_at: Date;
+}
+
+export class NotificationPreferenceModel {
+  static async findByUserId(userId: number): Promise<NotificationPreferences> {
+    const doc = await getDb().collection<NotificationPreference>('notification_preferences').findOne({ user_id: userId });
+    return doc?.preferences ?? {};
+  }
+
+  static async findByUserIds(userIds: number[]): Promise<Map<number, NotificationPreferences>> {
+    const docs = await getDb().collection<NotificationPreference>('notification_preferences')
+      .find({ user_id: { $in: userIds } })
+      .toArray();
+    return new Map(docs.map(doc => [doc.user_id, doc.preferences]));
+  }
+
+  static async upsert(userId: number, preferences: NotificationPreferences): Promise<NotificationPreferences> {
+    await getDb().collection<NotificationPreference>('notification_preferences').updateOne(
+      { user_id: userId },
+      { $set: { preferences, updated_at: new Date() } },
+      { upsert: true }
+    );
+    return preferences;
+  }
+}
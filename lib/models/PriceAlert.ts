@@ -0,0 +1,87 @@
+import { getDb, getNextId } from '../db/mongo';
+import type { PriceAlertCondition, WatchTarget, WatchTargetType } from '../constants/watchlists';
+
+// A threshold alert on a watchlist item. The target is copied from the item so alerts
+// can be evaluated without it. An alert is disarmed when it fires and re-armed once its
+// condition no longer holds.
+export interface PriceAlert extends WatchTarget {
+  id: number;
+  user_id: number;
+  watchlist_item_id: number;
+  condition: PriceAlertCondition;
+  threshold: number;
+  armed: boolean;
+  last_triggered_at: Date | null;
+  created_at: Date;
+}
+
+export type PriceAlertInput = Omit<PriceAlert, 'id' | 'armed' | 'last_triggered_at' | 'created_at'>;
+
+export class PriceAlertModel {
+  static async create(data: PriceAlertInput): Promise<PriceAlert> {
+    const doc: PriceAlert = {
+      id: await getNextId('price_alerts_id'),
+      ...data,
+      armed: true,
+      last_triggered_at: null,
+      created_at: new Date(),
+    };
+    await getDb().collection<PriceAlert>('price_alerts').insertOne(doc);
+    return doc;
+  }
+
+  static async findById(id: number): Promise<PriceAlert | null> {
+    return await getDb().collection<PriceAlert>('price_alerts').findOne({ id });
+  }
+
+  static async findByUserId(userId: number): Promise<PriceAlert[]> {
+    return await getDb().collection<PriceAlert>('price_alerts')
+      .find({ user_id: userId })
+      .sort({ created_at: 1, id: 1 })
+      .toArray();
+  }
+
+  static async findByTargetTypes(targetTypes: WatchTargetType[]): Promise<PriceAlert[]> {
+    return await getDb().collection<PriceAlert>('price_alerts')
+      .find({ target_type: { $in: targetTypes } })
+      .toArray();
+  }
+
+  static async findByCorporationId(corporationId: number): Promise<PriceAlert[]> {
+    return await getDb().collection<PriceAlert>('price_alerts')
+      .find({ target_type: 'corporation', corporation_id: corporationId })
+      .toArray();
+  }
+
+  static async countByWatchlistItemId(watchlistItemId: number): Promise<number> {
+    return await getDb().collection<PriceAlert>('price_alerts').countDocuments({ watchlist_item_id: watchlistItemId });
+  }
+
+  // Disarms the alert; false when another run already triggered it
+  static async markTriggered(id: number, at: Date): Promise<boolean> {
+    const result = await getDb().collection<PriceAlert>('price_alerts').updateOne(
+      { id, armed: true },
+      { $set: { armed: false, last_triggered_at: at } }
+    );
+    return result.modifiedCount === 1;
+  }
+
+  static async rearm(ids: number[]): Promise<number> {
+    if (ids.length === 0) return 0;
+    const result = await getDb().collection<PriceAlert>('price_alerts').updateMany(
+      { id: { $in: ids } },
+      { $set: { armed: true } }
+    );
+    return result.modifiedCount;
+  }
+
+  static async delete(id: number): Promise<boolean> {
+    const result = await getDb().collection<PriceAlert>('price_alerts').deleteOne({ id });
+    return result.deletedCount > 0;
+  }
+
+  static async deleteByWatchlistItemId(watchlistItemId: number): Promise<number> {
+    const result = await getDb().collection<PriceAlert>('price_alerts').deleteMany({ watchlist_item_id: watchlistItemId });
+    return result.deletedCount;
+  }
+}
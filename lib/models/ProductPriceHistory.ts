@@ -6,6 +6,9 @@ export interface ProductPriceHistory {
   price: number;
   supply: number;
   demand: number;
+  traded_price: number | null;  // Volume-weighted spot market price over the hour, if it traded
+  traded_volume: number;
+  config_revision?: number | null;  // Sector config revision live when recorded (absent on older rows)
   recorded_at: Date;
 }
 
@@ -14,11 +17,14 @@ export interface ProductPriceHistoryInput {
   price: number;
   supply: number;
   demand: number;
+  traded_price?: number | null;
+  traded_volume?: number;
+  config_revision?: number | null;
 }
 
 export class ProductPriceHistoryModel {
   static async create(historyData: ProductPriceHistoryInput): Promise<ProductPriceHistory> {
-    const { product_name, price, supply, demand } = historyData;
+    const { product_name, price, supply, demand, traded_price = null, traded_volume = 0, config_revision = null } = historyData;
 
     const id = await getNextId('product_price_history_id');
     const now = new Date();
@@ -29,6 +35,9 @@ export class ProductPriceHistoryModel {
       price,
       supply,
       demand,
+      traded_price,
+      traded_volume,
+      config_revision,
       recorded_at: now,
     };
 
@@ -73,4 +82,12 @@ export class ProductPriceHistoryModel {
 
     return result ? result.price : null;
   }
+
+  static async findSince(productName: string, since: Date): Promise<ProductPriceHistory[]> {
+    return await getDb()
+      .collection<ProductPriceHistory>('product_price_history')
+      .find({ product_name: productName, recorded_at: { $gte: since } })
+      .sort({ recorded_at: 1 })
+      .toArray();
+  }
 }
@@ -0,0 +1,43 @@
+import { ClientSession } from 'mongodb';
+import { getDb, getNextId } from '../db/mongo';
+
+// One survey a corporation paid for, and what it found
+export interface ResourceExploration {
+  id: number;
+  corporation_id: number;
+  user_id: number;
+  state_code: string;
+  resource: string;
+  cost: number;
+  discovered: number;   // 0 when the survey came up dry
+  created_at: Date;
+}
+
+export type ResourceExplorationInput = Omit<ResourceExploration, 'id' | 'created_at'>;
+
+export class ResourceExplorationModel {
+  static async create(data: ResourceExplorationInput, session?: ClientSession): Promise<ResourceExploration> {
+    const doc: ResourceExploration = {
+      id: await getNextId('resource_explorations_id'),
+      ...data,
+      created_at: new Date(),
+    };
+    await getDb().collection<ResourceExploration>('resource_explorations').insertOne(doc, { session });
+    return doc;
+  }
+
+  static async findLatest(corporationId: number, stateCode: string, resource: string): Promise<ResourceExploration | null> {
+    return await getDb().collection<ResourceExploration>('resource_explorations').findOne(
+      { corporation_id: corporationId, state_code: stateCode, resource },
+      { sort: { created_at: -1 } }
+    );
+  }
+
+  static async findByState(stateCode: string, limit: number = 20): Promise<ResourceExploration[]> {
+    return await getDb().collection<ResourceExploration>('resource_explorations')
+      .find({ state_code: stateCode.toUpperCase() })
+      .sort({ created_at: -1 })
+      .limit(limit)
+      .toArray();
+  }
+}
@@ -0,0 +1,65 @@
+import { getDb, getNextId } from '../db/mongo';
+import { getReserveCapacity } from '../constants/reserves';
+import type { StateResourceReserve } from './StateResourceReserve';
+
+// Hourly snapshot of one state's reserve of one resource
+export interface ResourceReserveHistory {
+  id: number;
+  state_code: string;
+  resource: string;
+  remaining: number;
+  capacity: number;      // Original reserve plus discoveries at the time
+  extracted: number;     // Cumulative
+  recorded_at: Date;
+}
+
+export class ResourceReserveHistoryModel {
+  static async recordAll(reserves: StateResourceReserve[], recordedAt: Date = new Date()): Promise<number> {
+    if (reserves.length === 0) return 0;
+
+    const docs: ResourceReserveHistory[] = [];
+    for (const reserve of reserves) {
+      docs.push({
+        id: await getNextId('resource_reserve_history_id'),
+        state_code: reserve.state_code,
+        resource: reserve.resource,
+        remaining: reserve.remaining,
+        capacity: getReserveCapacity(reserve),
+        extracted: reserve.extracted,
+        recorded_at: recordedAt,
+      });
+    }
+    await getDb().collection<ResourceReserveHistory>('resource_reserve_history').insertMany(docs);
+    return docs.length;
+  }
+
+  static async findByState(stateCode: string, hours: number = 96): Promise<ResourceReserveHistory[]> {
+    return await getDb().collection<ResourceReserveHistory>('resource_reserve_history')
+      .find({
+        state_code: stateCode.toUpperCase(),
+        recorded_at: { $gte: new Date(Date.now() - hours * 60 * 60 * 1000) },
+      })
+      .sort({ recorded_at: 1 })
+      .toArray();
+  }
+
+  /**
+   * National reserve of a resource at each recording, summed across states
+   */
+  static async findNationalByResource(
+    resource: string,
+    hours: number = 96
+  ): Promise<Array<{ recorded_at: Date; remaining: number; capacity: number }>> {
+    const rows = await getDb().collection<ResourceReserveHistory>('resource_reserve_history').aggregate<{
+      _id: Date;
+      remaining: number;
+      capacity: number;
+    }>([
+      { $match: { resource, recorded_at: { $gte: new Date(Date.now() - hours * 60 * 60 * 1000) } } },
+      { $group: { _id: '$recorded_at', remaining: { $sum: '$remaining' }, capacity: { $sum: '$capacity' } } },
+      { $sort: { _id: 1 } },
+    ]).toArray();
+
+    return rows.map(row => ({ recorded_at: row._id, remaining: row.remaining, capacity: row.capacity }));
+  }
+}
@@ -0,0 +1,114 @@
+import { getDb, getNextId } from '../db/mongo';
+import { ClientSession } from 'mongodb';
+
+export type SalaryLedgerStatus = 'paid' | 'arrears';
+
+// One game quarter of CEO salary for one corporation
+export interface SalaryLedgerEntry {
+  id: number;
+  corporation_id: number;
+  ceo_id: number;            // CEO during the period; arrears stay owed to them after a change of CEO
+  period_index: number;      // Game quarter index from lib/utils/gameTime
+  game_year: number;
+  game_quarter: number;
+  amount_due: number;
+  status: SalaryLedgerStatus;
+  accrued_at: Date;
+  paid_at: Date | null;
+}
+
+export interface SalaryLedgerInput {
+  corporation_id: number;
+  ceo_id: number;
+  period_index: number;
+  game_year: number;
+  game_quarter: number;
+  amount_due: number;
+}
+
+export class SalaryLedgerModel {
+  /**
+   * Accrue a period as arrears. The unique (corporation_id, period_index) index makes
+   * this idempotent: returns null if the period was already accrued. An upsert rather than
+   * an insert, so an already accrued period does not abort the caller's transaction.
+   */
+  static async accrue(data: SalaryLedgerInput, session?: ClientSession): Promise<SalaryLedgerEntry | null> {
+    const id = await getNextId('salary_ledger_id');
+
+    const doc: SalaryLedgerEntry = {
+      id,
+      corporation_id: data.corporation_id,
+      ceo_id: data.ceo_id,
+      period_index: data.period_index,
+      game_year: data.game_year,
+      game_quarter: data.game_quarter,
+      amount_due: data.amount_due,
+      status: 'arrears',
+      accrued_at: new Date(),
+      paid_at: null,
+    };
+
+    try {
+      const result = await getDb().collection<SalaryLedgerEntry>('salary_ledger').updateOne(
+        { corporation_id: data.corporation_id, period_index: data.period_index },
+        { $setOnInsert: doc },
+        { upsert: true, session }
+      );
+      return result.upsertedCount === 1 ? doc : null;
+    } catch (error: unknown) {
+      // Outside a transaction, a concurrent upsert of the same period can still hit the index
+      if (typeof error === 'object' && error !== null && (error as { code?: number }).code === 11000) {
+        return null;
+      }
+      throw error;
+    }
+  }
+
+  static async findByCorporationId(corporationId: number, limit: number = 20): Promise<SalaryLedgerEntry[]> {
+    return await getDb().collection<SalaryLedgerEntry>('salary_ledger')
+      .find({ corporation_id: corporationId })
+      .sort({ period_index: -1 })
+      .limit(limit)
+      .toArray();
+  }
+
+  static async getLatestPeriod(corporationId: number): Promise<number | null> {
+    const latest = await getDb().collection<SalaryLedgerEntry>('salary_ledger')
+      .find({ corporation_id: corporationId })
+      .sort({ period_index: -1 })
+      .limit(1)
+      .toArray();
+    return latest.length > 0 ? latest[0].period_index : null;
+  }
+
+  // Unpaid periods, oldest first (the order they are paid off in)
+  static async findArrears(corporationId: number): Promise<SalaryLedgerEntry[]> {
+    return await getDb().collection<SalaryLedgerEntry>('salary_ledger')
+      .find({ corporation_id: corporationId, status: 'arrears' })
+      .sort({ period_index: 1 })
+      .toArray();
+  }
+
+  /**
+   * Total unpaid salary owed by a corporation (balance sheet liability)
+   */
+  static async getArrearsTotal(corporationId: number): Promise<number> {
+    const result = await getDb().collection('salary_ledger').aggregate([
+      { $match: { corporation_id: corporationId, status: 'arrears' } },
+      { $group: { _id: null, total: { $sum: '$amount_due' } } },
+    ]).toArray();
+    return result.length > 0 ? result[0].total : 0;
+  }
+
+  /**
+   * Mark an entry paid. Only succeeds once, so a period cannot be paid twice.
+   */
+  static async markPaid(id: number, session?: ClientSession): Promise<SalaryLedgerEntry | null> {
+    const result = await getDb().collection<SalaryLedgerEntry>('salary_ledger').findOneAndUpdate(
+      { id, status: 'arrears' },
+      { $set: { status: 'paid', paid_at: new Date() } },
+      { returnDocument: 'after', session }
+    );
+    return result ?? null;
+  }
+}
@@ -1,3 +1,4 @@
+import { ClientSession } from 'mongodb';
 import { getDb, getNextId } from '../db/mongo';
 
 // ============================================================================
@@ -111,9 +112,9 @@ export class SectorConfigModel {
   // SECTOR QUERIES
   // --------------------------------------------------------------------------
 
-  static async getAllSectors(): Promise<SectorConfig[]> {
+  static async getAllSectors(session?: ClientSession): Promise<SectorConfig[]> {
     return await getDb().collection<SectorConfig>('sector_configs')
-      .find({})
+      .find({}, { session })
       .sort({ display_order: 1 })
       .toArray();
   }
@@ -124,7 +125,8 @@ export class SectorConfigModel {
 
   static async updateSector(
     sectorName: string,
-    data: Partial<Pick<SectorConfig, 'is_production_only' | 'can_extract' | 'produced_product' | 'primary_resource'>>
+    data: Partial<Pick<SectorConfig, 'is_production_only' | 'can_extract' | 'produced_product' | 'primary_resource'>>,
+    session?: ClientSession
   ): Promise<SectorConfig | null> {
     if (Object.keys(data).length === 0) return null;
 
@@ -133,7 +135,7 @@ export class SectorConfigModel {
       { 
         $set: { ...data, updated_at: new Date() } 
       },
-      { returnDocument: 'after' }
+      { returnDocument: 'after', session }
     );
     return result || null;
   }
@@ -142,9 +144,9 @@ export class SectorConfigModel {
   // UNIT CONFIG QUERIES
   // --------------------------------------------------------------------------
 
-  static async getAllUnitConfigs(): Promise<SectorUnitConfig[]> {
+  static async getAllUnitConfigs(session?: ClientSession): Promise<SectorUnitConfig[]> {
     return await getDb().collection<SectorUnitConfig>('sector_unit_configs')
-      .find({})
+      .find({}, { session })
       .sort({ sector_name: 1, unit_type: 1 })
       .toArray();
   }
@@ -166,7 +168,8 @@ export class SectorConfigModel {
   static async updateUnitConfig(
     sectorName: string,
     unitType: UnitType,
-    data: Partial<Pick<SectorUnitConfig, 'is_enabled' | 'base_revenue' | 'base_cost' | 'labor_cost' | 'output_rate'>>
+    data: Partial<Pick<SectorUnitConfig, 'is_enabled' | 'base_revenue' | 'base_cost' | 'labor_cost' | 'output_rate'>>,
+    session?: ClientSession
   ): Promise<SectorUnitConfig | null> {
     if (Object.keys(data).length === 0) return null;
 
@@ -175,7 +178,7 @@ export class SectorConfigModel {
       { 
         $set: { ...data, updated_at: new Date() } 
       },
-      { returnDocument: 'after' }
+      { returnDocument: 'after', session }
     );
     return result || null;
   }
@@ -184,9 +187,9 @@ export class SectorConfigModel {
   // INPUT QUERIES
   // --------------------------------------------------------------------------
 
-  static async getAllInputs(): Promise<SectorUnitInput[]> {
+  static async getAllInputs(session?: ClientSession): Promise<SectorUnitInput[]> {
     return await getDb().collection<SectorUnitInput>('sector_unit_inputs')
-      .find({})
+      .find({}, { session })
       .sort({ sector_name: 1, unit_type: 1, input_type: 1, input_name: 1 })
       .toArray();
   }
@@ -198,13 +201,13 @@ export class SectorConfigModel {
       .toArray();
   }
 
-  static async updateInput(id: number, consumptionRate: number): Promise<SectorUnitInput | null> {
+  static async updateInput(id: number, consumptionRate: number, session?: ClientSession): Promise<SectorUnitInput | null> {
     const result = await getDb().collection<SectorUnitInput>('sector_unit_inputs').findOneAndUpdate(
       { id },
       { 
         $set: { consumption_rate: consumptionRate, updated_at: new Date() } 
       },
-      { returnDocument: 'after' }
+      { returnDocument: 'after', session }
     );
     return result || null;
   }
@@ -219,7 +222,7 @@ export class SectorConfigModel {
     inputName: string;
     inputType: 'resource' | 'product';
     consumptionRate: number;
-  }): Promise<SectorUnitInput> {
+  }, session?: ClientSession): Promise<SectorUnitInput> {
     const { sectorName, unitType, inputName, inputType, consumptionRate } = params;
     const db = getDb();
 
@@ -229,7 +232,7 @@ export class SectorConfigModel {
       unit_type: unitType,
       input_name: inputName,
       input_type: inputType
-    });
+    }, { session });
 
     if (existing) {
       throw new Error(`Input ${inputName} already exists for ${sectorName} ${unitType}`);
@@ -249,12 +252,12 @@ export class SectorConfigModel {
       updated_at: now,
     };
 
-    await db.collection<SectorUnitInput>('sector_unit_inputs').insertOne(doc);
+    await db.collection<SectorUnitInput>('sector_unit_inputs').insertOne(doc, { session });
     return doc;
   }
 
-  static async deleteInput(inputId: number): Promise<void> {
-    const result = await getDb().collection('sector_unit_inputs').deleteOne({ id: inputId });
+  static async deleteInput(inputId: number, session?: ClientSession): Promise<void> {
+    const result = await getDb().collection('sector_unit_inputs').deleteOne({ id: inputId }, { session });
     if (result.deletedCount === 0) {
       throw new Error(`Input ${inputId} not found`);
     }
@@ -264,9 +267,9 @@ export class SectorConfigModel {
   // OUTPUT QUERIES
   // --------------------------------------------------------------------------
 
-  static async getAllOutputs(): Promise<SectorUnitOutput[]> {
+  static async getAllOutputs(session?: ClientSession): Promise<SectorUnitOutput[]> {
     return await getDb().collection<SectorUnitOutput>('sector_unit_outputs')
-      .find({})
+      .find({}, { session })
       .sort({ sector_name: 1, unit_type: 1, output_type: 1, output_name: 1 })
       .toArray();
   }
@@ -278,13 +281,13 @@ export class SectorConfigModel {
       .toArray();
   }
 
-  static async updateOutput(id: number, outputRate: number): Promise<SectorUnitOutput | null> {
+  static async updateOutput(id: number, outputRate: number, session?: ClientSession): Promise<SectorUnitOutput | null> {
     const result = await getDb().collection<SectorUnitOutput>('sector_unit_outputs').findOneAndUpdate(
       { id },
       { 
         $set: { output_rate: outputRate, updated_at: new Date() } 
       },
-      { returnDocument: 'after' }
+      { returnDocument: 'after', session }
     );
     return result || null;
   }
@@ -299,7 +302,7 @@ export class SectorConfigModel {
     outputName: string;
     outputType: 'resource' | 'product';
     outputRate: number;
-  }): Promise<SectorUnitOutput> {
+  }, session?: ClientSession): Promise<SectorUnitOutput> {
     const { sectorName, unitType, outputName, outputType, outputRate } = params;
     const db = getDb();
 
@@ -309,7 +312,7 @@ export class SectorConfigModel {
       unit_type: unitType,
       output_name: outputName,
       output_type: outputType
-    });
+    }, { session });
 
     if (existing) {
       throw new Error(`Output ${outputName} already exists for ${sectorName} ${unitType}`);
@@ -329,15 +332,15 @@ export class SectorConfigModel {
       updated_at: now,
     };
 
-    await db.collection<SectorUnitOutput>('sector_unit_outputs').insertOne(doc);
+    await db.collection<SectorUnitOutput>('sector_unit_outputs').insertOne(doc, { session });
     return doc;
   }
 
-  static async deleteOutput(outputId: number): Promise<void> {
+  static async deleteOutput(outputId: number, session?: ClientSession): Promise<void> {
     const db = getDb();
     
     // Get the output to find sector_name and unit_type
-    const output = await db.collection<SectorUnitOutput>('sector_unit_outputs').findOne({ id: outputId });
+    const output = await db.collection<SectorUnitOutput>('sector_unit_outputs').findOne({ id: outputId }, { session });
 
     if (!output) {
       throw new Error(`Output ${outputId} not found`);
@@ -349,13 +352,13 @@ export class SectorConfigModel {
     const count = await db.collection('sector_unit_outputs').countDocuments({
       sector_name,
       unit_type
-    });
+    }, { session });
 
     if (count <= 1) {
       throw new Error(`Cannot delete the last output for ${sector_name} ${unit_type}`);
     }
 
-    const result = await db.collection('sector_unit_outputs').deleteOne({ id: outputId });
+    const result = await db.collection('sector_unit_outputs').deleteOne({ id: outputId }, { session });
     if (result.deletedCount === 0) {
       throw new Error(`Output ${outputId} not found`);
     }
@@ -372,9 +375,9 @@ export class SectorConfigModel {
   // PRODUCT CONFIG QUERIES
   // --------------------------------------------------------------------------
 
-  static async getAllProducts(): Promise<ProductConfig[]> {
+  static async getAllProducts(session?: ClientSession): Promise<ProductConfig[]> {
     return await getDb().collection<ProductConfig>('product_configs')
-      .find({})
+      .find({}, { session })
       .sort({ display_order: 1 })
       .toArray();
   }
@@ -385,7 +388,8 @@ export class SectorConfigModel {
 
   static async updateProduct(
     productName: string,
-    data: Partial<Pick<ProductConfig, 'reference_value' | 'min_price'>>
+    data: Partial<Pick<ProductConfig, 'reference_value' | 'min_price'>>,
+    session?: ClientSession
   ): Promise<ProductConfig | null> {
     if (Object.keys(data).length === 0) return null;
 
@@ -394,7 +398,7 @@ export class SectorConfigModel {
       { 
         $set: { ...data, updated_at: new Date() } 
       },
-      { returnDocument: 'after' }
+      { returnDocument: 'after', session }
     );
     return result || null;
   }
@@ -403,9 +407,9 @@ export class SectorConfigModel {
   // RESOURCE CONFIG QUERIES
   // --------------------------------------------------------------------------
 
-  static async getAllResources(): Promise<ResourceConfig[]> {
+  static async getAllResources(session?: ClientSession): Promise<ResourceConfig[]> {
     return await getDb().collection<ResourceConfig>('resource_configs')
-      .find({})
+      .find({}, { session })
       .sort({ display_order: 1 })
       .toArray();
   }
@@ -416,7 +420,8 @@ export class SectorConfigModel {
 
   static async updateResource(
     resourceName: string,
-    data: Partial<Pick<ResourceConfig, 'base_price'>>
+    data: Partial<Pick<ResourceConfig, 'base_price'>>,
+    session?: ClientSession
   ): Promise<ResourceConfig | null> {
     if (data.base_price === undefined) return null;
 
@@ -425,7 +430,7 @@ export class SectorConfigModel {
       { 
         $set: { base_price: data.base_price, updated_at: new Date() } 
       },
-      { returnDocument: 'after' }
+      { returnDocument: 'after', session }
     );
     return result || null;
   }
@@ -434,14 +439,14 @@ export class SectorConfigModel {
   // UNIFIED CONFIGURATION
   // --------------------------------------------------------------------------
 
-  static async getFullConfiguration(): Promise<UnifiedSectorConfig> {
+  static async getFullConfiguration(session?: ClientSession): Promise<UnifiedSectorConfig> {
     const [sectors, unitConfigs, inputs, outputs, products, resources] = await Promise.all([
-      this.getAllSectors(),
-      this.getAllUnitConfigs(),
-      this.getAllInputs(),
-      this.getAllOutputs(),
-      this.getAllProducts(),
-      this.getAllResources(),
+      this.getAllSectors(session),
+      this.getAllUnitConfigs(session),
+      this.getAllInputs(session),
+      this.getAllOutputs(session),
+      this.getAllProducts(session),
+      this.getAllResources(session),
     ]);
 
     const sectorMap: UnifiedSectorConfig['sectors'] = {};
@@ -533,7 +538,7 @@ export class SectorConfigModel {
     };
   }
 
-  static async createNewVersion(config: UnifiedSectorConfig, reason: string): Promise<void> {
+  static async createNewVersion(config: UnifiedSectorConfig, reason: string, session?: ClientSession): Promise<void> {
     const db = getDb();
     
     // This is a bulk update operation.
@@ -563,7 +568,7 @@ export class SectorConfigModel {
             created_at: new Date()
           }
         },
-        { upsert: true }
+        { upsert: true, session }
       );
 
       // 2. Unit Configs
@@ -584,11 +589,11 @@ export class SectorConfigModel {
               created_at: new Date()
             }
           },
-          { upsert: true }
+          { upsert: true, session }
         );
 
         // 3. Inputs (Replace strategy for simplicity: delete all for this unit, then insert new)
-        await db.collection('sector_unit_inputs').deleteMany({ sector_name: sectorName, unit_type: unitType });
+        await db.collection('sector_unit_inputs').deleteMany({ sector_name: sectorName, unit_type: unitType }, { session });
         if (unitData.inputs && unitData.inputs.length > 0) {
           const inputs = [];
           for (const input of unitData.inputs) {
@@ -604,12 +609,12 @@ export class SectorConfigModel {
             });
           }
           if (inputs.length > 0) {
-             await db.collection('sector_unit_inputs').insertMany(inputs);
+             await db.collection('sector_unit_inputs').insertMany(inputs, { session });
           }
         }
 
         // Outputs (Replace strategy)
-        await db.collection('sector_unit_outputs').deleteMany({ sector_name: sectorName, unit_type: unitType });
+        await db.collection('sector_unit_outputs').deleteMany({ sector_name: sectorName, unit_type: unitType }, { session });
         if (unitData.outputs && unitData.outputs.length > 0) {
            const outputs = [];
            for (const output of unitData.outputs) {
@@ -625,7 +630,7 @@ export class SectorConfigModel {
              });
            }
            if (outputs.length > 0) {
-             await db.collection('sector_unit_outputs').insertMany(outputs);
+             await db.collection('sector_unit_outputs').insertMany(outputs, { session });
            }
         }
       }
@@ -648,7 +653,7 @@ export class SectorConfigModel {
                created_at: new Date()
             }
           },
-          { upsert: true }
+          { upsert: true, session }
         );
       }
     }
@@ -669,12 +674,60 @@ export class SectorConfigModel {
                created_at: new Date()
              }
           },
-          { upsert: true }
+          { upsert: true, session }
         );
       }
     }
   }
 
+  /**
+   * Delete the sectors (with their units, inputs and outputs), products and resources
+   * that the given configuration no longer names. Together with createNewVersion this
+   * replaces the whole configuration.
+   */
+  /**
+   * Sectors, products and resources `config` leaves out that the game still uses: by
+   * corporations, market entries (and so their units), inventories, open spot orders
+   * or open supply contracts. One line per name, for error reporting.
+   */
+  static async findRemovedInUse(config: Omit<UnifiedSectorConfig, 'version'>, session?: ClientSession): Promise<string[]> {
+    const db = getDb();
+    const live = await this.getFullConfiguration(session);
+    const sectors = Object.keys(live.sectors).filter(name => !(name in config.sectors));
+    const items = [
+      ...Object.keys(live.products).filter(name => !(name in config.products)),
+      ...Object.keys(live.resources).filter(name => !(name in config.resources)),
+    ];
+
+    const uses = new Map<string, string[]>();
+    const collect = async (names: string[], label: string, collectionName: string, field: string, filter: Record<string, unknown> = {}) => {
+      if (names.length === 0) return;
+      const used = await db.collection(collectionName).distinct(field, { ...filter, [field]: { $in: names } }, { session });
+      for (const name of used as string[]) {
+        uses.set(name, [...(uses.get(name) ?? []), label]);
+      }
+    };
+
+    await collect(sectors, 'corporations', 'corporations', 'type', { retired_at: null });
+    await collect(sectors, 'market entries', 'market_entries', 'sector_type');
+    await collect(items, 'inventories', 'inventories', 'item', { quantity: { $gt: 0 } });
+    await collect(items, 'spot orders', 'commodity_orders', 'item', { status: 'open' });
+    await collect(items, 'supply contracts', 'supply_contracts', 'item', { status: { $in: ['proposed', 'active'] } });
+
+    return [...uses].map(([name, labels]) => `${name} is still used by ${labels.join(', ')}`);
+  }
+
+  static async removeMissing(config: Omit<UnifiedSectorConfig, 'version'>, session?: ClientSession): Promise<void> {
+    const db = getDb();
+    const sectorNames = Object.keys(config.sectors);
+
+    for (const collectionName of ['sector_configs', 'sector_unit_configs', 'sector_unit_inputs', 'sector_unit_outputs']) {
+      await db.collection(collectionName).deleteMany({ sector_name: { $nin: sectorNames } }, { session });
+    }
+    await db.collection('product_configs').deleteMany({ product_name: { $nin: Object.keys(config.products) } }, { session });
+    await db.collection('resource_configs').deleteMany({ resource_name: { $nin: Object.keys(config.resources) } }, { session });
+  }
+
   static async getConfigVersion(): Promise<string> {
     const db = getDb();
     
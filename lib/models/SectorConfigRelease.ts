@@ -0,0 +1,94 @@
+import { getDb, getNextId } from '../db/mongo';
+import { ClientSession } from 'mongodb';
+import type { SectorConfigDiff } from '../constants/configSimulation';
+
+export type SectorConfigReleaseStatus = 'scheduled' | 'released' | 'cancelled' | 'failed';
+
+/**
+ * A configuration change scheduled to go live at the start of a future game quarter:
+ * either a diff applied to whatever is live then, or a past revision restored.
+ */
+export interface SectorConfigRelease {
+  id: number;
+  diff: SectorConfigDiff | null;
+  restore_revision_id: number | null;
+  reason: string;
+  author_id: number;
+  author_name: string;
+  release_quarter: number;            // Game quarter index
+  release_at: Date;                   // Real-world start of that quarter when scheduled
+  status: SectorConfigReleaseStatus;
+  revision_id: number | null;         // Revision written when it went live
+  error: string | null;               // Why it failed to go live
+  created_at: Date;
+  updated_at: Date;
+}
+
+export type SectorConfigReleaseInput = Pick<
+  SectorConfigRelease,
+  'diff' | 'restore_revision_id' | 'reason' | 'author_id' | 'author_name' | 'release_quarter' | 'release_at'
+>;
+
+export class SectorConfigReleaseModel {
+  static async create(data: SectorConfigReleaseInput): Promise<SectorConfigRelease> {
+    const now = new Date();
+    const doc: SectorConfigRelease = {
+      id: await getNextId('sector_config_releases_id'),
+      ...data,
+      status: 'scheduled',
+      revision_id: null,
+      error: null,
+      created_at: now,
+      updated_at: now,
+    };
+    await getDb().collection<SectorConfigRelease>('sector_config_releases').insertOne(doc);
+    return doc;
+  }
+
+  static async findById(id: number): Promise<SectorConfigRelease | null> {
+    return await getDb().collection<SectorConfigRelease>('sector_config_releases').findOne({ id });
+  }
+
+  static async findRecent(limit: number = 50): Promise<SectorConfigRelease[]> {
+    return await getDb().collection<SectorConfigRelease>('sector_config_releases')
+      .find({})
+      .sort({ release_at: -1, id: -1 })
+      .limit(limit)
+      .toArray();
+  }
+
+  /**
+   * Scheduled releases whose quarter has started. Compared by quarter index, so a
+   * game time reset moves them along with the calendar.
+   */
+  static async findDue(currentQuarter: number): Promise<SectorConfigRelease[]> {
+    return await getDb().collection<SectorConfigRelease>('sector_config_releases')
+      .find({ status: 'scheduled', release_quarter: { $lte: currentQuarter } })
+      .sort({ release_at: 1, id: 1 })
+      .toArray();
+  }
+
+  /**
+   * Move a scheduled release to its final status. Returns null if it was no longer scheduled.
+   */
+  static async finish(
+    id: number,
+    status: Exclude<SectorConfigReleaseStatus, 'scheduled'>,
+    result: { revision_id?: number; error?: string } = {},
+    session?: ClientSession
+  ): Promise<SectorConfigRelease | null> {
+    const updated = await getDb().collection<SectorConfigRelease>('sector_config_releases').findOneAndUpdate(
+      { id, status: 'scheduled' },
+      {
+        $set: {
+          status,
+          revision_id: result.revision_id ?? null,
+          error: result.error ?? null,
+          updated_at: new Date(),
+        },
+      },
+      { returnDocument: 'after', session }
+    );
+    return updated ?? null;
+  }
+}
@@ -0,0 +1,69 @@
+import { getDb, getNextId } from '../db/mongo';
+import { ClientSession } from 'mongodb';
+import type { SectorConfigChange, SectorConfigSnapshot } from '../constants/configRevisions';
+
+export type SectorConfigRevisionSource = 'initial' | 'edit' | 'rollback' | 'release';
+
+/**
+ * The sector configuration as it went live at one point in time. Revisions are
+ * never changed once written; the active one at any moment is the latest created
+ * at or before it.
+ */
+export interface SectorConfigRevision {
+  id: number;                         // Revision number, increasing
+  config: SectorConfigSnapshot;
+  changes: SectorConfigChange[];      // Against the revision before (empty for the first)
+  source: SectorConfigRevisionSource;
+  reason: string;
+  author_id: number | null;           // null when written by the system
+  author_name: string | null;
+  rolled_back_to: number | null;      // Revision restored, for rollbacks
+  release_id: number | null;          // Scheduled release that went live, for releases
+  created_at: Date;
+}
+
+export type SectorConfigRevisionInput = Omit<SectorConfigRevision, 'id' | 'created_at'>;
+
+// A revision without its full configuration, for listings
+export type SectorConfigRevisionSummary = Omit<SectorConfigRevision, 'config'>;
+
+export class SectorConfigRevisionModel {
+  static async create(data: SectorConfigRevisionInput, session?: ClientSession): Promise<SectorConfigRevision> {
+    const doc: SectorConfigRevision = {
+      id: await getNextId('sector_config_revisions_id'),
+      ...data,
+      created_at: new Date(),
+    };
+    await getDb().collection<SectorConfigRevision>('sector_config_revisions').insertOne(doc, { session });
+    return doc;
+  }
+
+  static async findById(id: number): Promise<SectorConfigRevision | null> {
+    return await getDb().collection<SectorConfigRevision>('sector_config_revisions').findOne({ id });
+  }
+
+  static async findLatest(session?: ClientSession): Promise<SectorConfigRevision | null> {
+    return await getDb().collection<SectorConfigRevision>('sector_config_revisions').findOne(
+      {},
+      { sort: { id: -1 }, session }
+    );
+  }
+
+  /**
+   * The revision that was live at the given moment, or null if it predates them all
+   */
+  static async findActiveAt(at: Date): Promise<SectorConfigRevision | null> {
+    return await getDb().collection<SectorConfigRevision>('sector_config_revisions').findOne(
+      { created_at: { $lte: at } },
+      { sort: { created_at: -1, id: -1 } }
+    );
+  }
+
+  static async findRecent(limit: number = 50): Promise<SectorConfigRevisionSummary[]> {
+    return await getDb().collection<SectorConfigRevision>('sector_config_revisions')
+      .find({}, { projection: { config: 0 } })
+      .sort({ id: -1 })
+      .limit(limit)
+      .toArray();
+  }
+}
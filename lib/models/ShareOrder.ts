@@ -0,0 +1,219 @@
+import { getDb, getNextId } from '../db/mongo';
+import { ClientSession, Filter } from 'mongodb';
+
+export type ShareOrderSide = 'buy' | 'sell';
+export type ShareOrderStatus = 'open' | 'filled' | 'cancelled' | 'expired';
+
+/**
+ * A resting limit order in a corporation's order book.
+ * Escrow is taken when the order is placed: buy orders hold cash at the limit price,
+ * sell orders hold the shares. Whatever is left is released on cancel or expiry.
+ */
+export interface ShareOrder {
+  id: number;
+  corporation_id: number;
+  user_id: number;
+  side: ShareOrderSide;
+  limit_price: number;
+  shares: number;
+  remaining_shares: number;
+  reserved_cash: number;      // Buy orders only: cash still held in escrow
+  status: ShareOrderStatus;
+  expires_at: Date;
+  created_at: Date;
+  updated_at: Date;
+  closed_at: Date | null;
+}
+
+export interface ShareOrderInput {
+  corporation_id: number;
+  user_id: number;
+  side: ShareOrderSide;
+  limit_price: number;
+  shares: number;
+  expires_at: Date;
+}
+
+export interface ShareOrderFilters {
+  user_id?: number;
+  side?: ShareOrderSide;
+  status?: ShareOrderStatus;
+}
+
+export interface OrderBookLevel {
+  price: number;
+  shares: number;
+  orders: number;
+}
+
+export class ShareOrderModel {
+  static async create(data: ShareOrderInput, session?: ClientSession): Promise<ShareOrder> {
+    const id = await getNextId('share_orders_id');
+    const now = new Date();
+
+    const doc: ShareOrder = {
+      id,
+      corporation_id: data.corporation_id,
+      user_id: data.user_id,
+      side: data.side,
+      limit_price: data.limit_price,
+      shares: data.shares,
+      remaining_shares: data.shares,
+      reserved_cash: data.side === 'buy' ? data.limit_price * data.shares : 0,
+      status: 'open',
+      expires_at: data.expires_at,
+      created_at: now,
+      updated_at: now,
+      closed_at: null,
+    };
+
+    await getDb().collection<ShareOrder>('share_orders').insertOne(doc, { session });
+    return doc;
+  }
+
+  static async findById(id: number): Promise<ShareOrder | null> {
+    return await getDb().collection<ShareOrder>('share_orders').findOne({ id });
+  }
+
+  static async findByCorporationId(
+    corporationId: number,
+    filters: ShareOrderFilters = {},
+    limit: number = 50,
+    offset: number = 0
+  ): Promise<ShareOrder[]> {
+    const match: Filter<ShareOrder> = { corporation_id: corporationId };
+    if (filters.user_id !== undefined) match.user_id = filters.user_id;
+    if (filters.side) match.side = filters.side;
+    if (filters.status) match.status = filters.status;
+
+    return await getDb().collection<ShareOrder>('share_orders')
+      .find(match)
+      .sort({ created_at: -1 })
+      .skip(offset)
+      .limit(limit)
+      .toArray();
+  }
+
+  static async findOpenByCorporationId(corporationId: number, session?: ClientSession): Promise<ShareOrder[]> {
+    return await getDb().collection<ShareOrder>('share_orders')
+      .find({ corporation_id: corporationId, status: 'open' }, { session })
+      .toArray();
+  }
+
+  static async countOpenByUser(userId: number): Promise<number> {
+    return await getDb().collection<ShareOrder>('share_orders').countDocuments({
+      user_id: userId,
+      status: 'open',
+    });
+  }
+
+  /**
+   * Resting orders on the opposite side that cross the given limit price,
+   * in price-time priority (best price first, then oldest first).
+   * The taker's own orders are skipped so players cannot trade with themselves.
+   */
+  static async findMatchingOrders(
+    corporationId: number,
+    takerSide: ShareOrderSide,
+    limitPrice: number,
+    takerUserId: number
+  ): Promise<ShareOrder[]> {
+    const isBuy = takerSide === 'buy';
+
+    return await getDb().collection<ShareOrder>('share_orders')
+      .find({
+        corporation_id: corporationId,
+        side: isBuy ? 'sell' : 'buy',
+        status: 'open',
+        user_id: { $ne: takerUserId },
+        expires_at: { $gt: new Date() },
+        limit_price: isBuy ? { $lte: limitPrice } : { $gte: limitPrice },
+      })
+      .sort({ limit_price: isBuy ? 1 : -1, created_at: 1, id: 1 })
+      .toArray();
+  }
+
+  /**
+   * Aggregated open interest per price level.
+   * Bids are sorted best (highest) first, asks best (lowest) first.
+   */
+  static async getBookDepth(
+    corporationId: number,
+    levels: number = 10
+  ): Promise<{ bids: OrderBookLevel[]; asks: OrderBookLevel[] }> {
+    const depth = async (side: ShareOrderSide): Promise<OrderBookLevel[]> => {
+      const rows = await getDb().collection('share_orders').aggregate([
+        { $match: { corporation_id: corporationId, side, status: 'open', expires_at: { $gt: new Date() } } },
+        { $group: { _id: '$limit_price', shares: { $sum: '$remaining_shares' }, orders: { $sum: 1 } } },
+        { $sort: { _id: side === 'buy' ? -1 : 1 } },
+        { $limit: levels },
+      ]).toArray();
+
+      return rows.map(row => ({ price: row._id, shares: row.shares, orders: row.orders }));
+    };
+
+    const [bids, asks] = await Promise.all([depth('buy'), depth('sell')]);
+    return { bids, asks };
+  }
+
+  // Get open orders past their expiry (for the expiry cron job)
+  static async findExpired(now: Date = new Date()): Promise<ShareOrder[]> {
+    return await getDb().collection<ShareOrder>('share_orders')
+      .find({ status: 'open', expires_at: { $lte: now } })
+      .sort({ expires_at: 1 })
+      .toArray();
+  }
+
+  /**
+   * Fill part of an open order. Only succeeds if the order is still open with enough
+   * remaining shares, so a concurrently cancelled or filled order is never overfilled.
+   * Marks the order filled once nothing remains.
+   */
+  static async applyFill(
+    id: number,
+    shares: number,
+    releasedCash: number,
+    session?: ClientSession
+  ): Promise<ShareOrder | null> {
+    const now = new Date();
+    const result = await getDb().collection<ShareOrder>('share_orders').findOneAndUpdate(
+      { id, status: 'open', remaining_shares: { $gte: shares } },
+      [
+        {
+          $set: {
+            remaining_shares: { $subtract: ['$remaining_shares', shares] },
+            reserved_cash: { $max: [0, { $subtract: ['$reserved_cash', releasedCash] }] },
+            updated_at: now,
+          },
+        },
+        {
+          $set: {
+            status: { $cond: [{ $lte: ['$remaining_shares', 0] }, 'filled', '$status'] },
+            closed_at: { $cond: [{ $lte: ['$remaining_shares', 0] }, now, '$closed_at'] },
+          },
+        },
+      ],
+      { returnDocument: 'after', session }
+    );
+    return result ?? null;
+  }
+
+  /**
+   * Close an open order as cancelled or expired.
+   * Returns the order as it was before closing so the caller can release its escrow,
+   * or null if the order was no longer open.
+   */
+  static async close(
+    id: number,
+    status: 'cancelled' | 'expired',
+    session?: ClientSession
+  ): Promise<ShareOrder | null> {
+    const now = new Date();
+    const result = await getDb().collection<ShareOrder>('share_orders').findOneAndUpdate(
+      { id, status: 'open' },
+      { $set: { status, reserved_cash: 0, updated_at: now, closed_at: now } },
+      { returnDocument: 'before', session }
+    );
+    return result ?? null;
+  }
+}
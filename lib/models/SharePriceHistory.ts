@@ -49,4 +49,31 @@ export class SharePriceHistoryModel {
       .limit(limit)
       .toArray();
   }
+
+  static async getPriceFromHoursAgo(
+    corporationId: number,
+    hoursAgo: number = 1
+  ): Promise<number | null> {
+    const cutoff = new Date(Date.now() - hoursAgo * 60 * 60 * 1000);
+
+    const result = await getDb()
+      .collection<SharePriceHistory>('share_price_history')
+      .findOne(
+        {
+          corporation_id: corporationId,
+          recorded_at: { $lte: cutoff }
+        },
+        { sort: { recorded_at: -1 } }
+      );
+
+    return result ? result.share_price : null;
+  }
+
+  static async findSince(corporationId: number, since: Date): Promise<SharePriceHistory[]> {
+    return await getDb()
+      .collection<SharePriceHistory>('share_price_history')
+      .find({ corporation_id: corporationId, recorded_at: { $gte: since } })
+      .sort({ recorded_at: 1 })
+      .toArray();
+  }
 }
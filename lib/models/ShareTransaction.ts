@@ -1,4 +1,5 @@
 import { getDb, getNextId } from '../db/mongo';
+import { ClientSession } from 'mongodb';
 
 export interface ShareTransaction {
   id: number;
@@ -8,6 +9,7 @@ export interface ShareTransaction {
   shares: number;
   price_per_share: number;
   total_amount: number;
+  order_id?: number | null;   // Set when the trade filled a limit order
   created_at: Date;
 }
 
@@ -18,11 +20,12 @@ export interface ShareTransactionInput {
   shares: number;
   price_per_share: number;
   total_amount: number;
+  order_id?: number | null;
 }
 
 export class ShareTransactionModel {
-  static async create(transactionData: ShareTransactionInput): Promise<ShareTransaction> {
-    const { corporation_id, user_id, transaction_type, shares, price_per_share, total_amount } = transactionData;
+  static async create(transactionData: ShareTransactionInput, session?: ClientSession): Promise<ShareTransaction> {
+    const { corporation_id, user_id, transaction_type, shares, price_per_share, total_amount, order_id } = transactionData;
 
     const id = await getNextId('share_transactions_id');
     const now = new Date();
@@ -35,10 +38,11 @@ export class ShareTransactionModel {
       shares,
       price_per_share,
       total_amount,
+      order_id: order_id ?? null,
       created_at: now,
     };
 
-    await getDb().collection<ShareTransaction>('share_transactions').insertOne(doc);
+    await getDb().collection<ShareTransaction>('share_transactions').insertOne(doc, { session });
     return doc;
   }
 
@@ -71,4 +75,12 @@ export class ShareTransactionModel {
       .sort({ created_at: -1 })
       .toArray();
   }
+
+  static async findByCorporationIdSince(corporationId: number, since: Date): Promise<ShareTransaction[]> {
+    return await getDb()
+      .collection<ShareTransaction>('share_transactions')
+      .find({ corporation_id: corporationId, created_at: { $gte: since } })
+      .sort({ created_at: 1 })
+      .toArray();
+  }
 }
@@ -1,10 +1,12 @@
 import { getDb, getNextId } from '../db/mongo';
+import { ClientSession } from 'mongodb';
 
 export interface Shareholder {
   id: number;
   corporation_id: number;
   user_id: number;
   shares: number;
+  lending_enabled?: boolean;  // Opted in to lend shares to short sellers
   purchased_at: Date;
 }
 
@@ -15,7 +17,7 @@ export interface ShareholderInput {
 }
 
 export class ShareholderModel {
-  static async create(shareholderData: ShareholderInput): Promise<Shareholder> {
+  static async create(shareholderData: ShareholderInput, session?: ClientSession): Promise<Shareholder> {
     const { corporation_id, user_id, shares } = shareholderData;
     const db = getDb();
     
@@ -23,16 +25,15 @@ export class ShareholderModel {
     // We can use findOneAndUpdate with upsert, but we need to handle ID generation for new docs
     // Since Mongo doesn't support auto-increment on upsert easily without a sequence call
     
-    const existing = await db.collection<Shareholder>('shareholders').findOne({ corporation_id, user_id });
+    const existing = await db.collection<Shareholder>('shareholders').findOne({ corporation_id, user_id }, { session });
     
     if (existing) {
       const result = await db.collection<Shareholder>('shareholders').findOneAndUpdate(
         { corporation_id, user_id },
         { $inc: { shares: shares } },
-        { returnDocument: 'after' }
+        { returnDocument: 'after', session }
       );
       if (!result) throw new Error('Failed to update shareholder');
-      if (!result) throw new Error('Failed to update shareholder');
       return result;
     } else {
       const id = await getNextId('shareholders_id');
@@ -43,14 +44,14 @@ export class ShareholderModel {
         shares,
         purchased_at: new Date(),
       };
-      await db.collection('shareholders').insertOne(doc);
+      await db.collection('shareholders').insertOne(doc, { session });
       return doc;
     }
   }
 
-  static async findByCorporationId(corporationId: number): Promise<Shareholder[]> {
+  static async findByCorporationId(corporationId: number, session?: ClientSession): Promise<Shareholder[]> {
     return await getDb().collection<Shareholder>('shareholders')
-      .find({ corporation_id: corporationId })
+      .find({ corporation_id: corporationId }, { session })
       .sort({ shares: -1 })
       .toArray();
   }
@@ -62,8 +63,8 @@ export class ShareholderModel {
       .toArray();
   }
 
-  static async getShareholder(corporationId: number, userId: number): Promise<Shareholder | null> {
-    return await getDb().collection<Shareholder>('shareholders').findOne({ corporation_id: corporationId, user_id: userId });
+  static async getShareholder(corporationId: number, userId: number, session?: ClientSession): Promise<Shareholder | null> {
+    return await getDb().collection<Shareholder>('shareholders').findOne({ corporation_id: corporationId, user_id: userId }, { session });
   }
 
   static async updateShares(
@@ -79,6 +80,59 @@ export class ShareholderModel {
     return result;
   }
 
+  /**
+   * Remove shares from a holding only if the holder owns at least that many.
+   * Returns null when the holding is too small, so shares cannot be oversold.
+   */
+  static async decrementShares(
+    corporationId: number,
+    userId: number,
+    shares: number,
+    session?: ClientSession
+  ): Promise<Shareholder | null> {
+    const result = await getDb().collection<Shareholder>('shareholders').findOneAndUpdate(
+      { corporation_id: corporationId, user_id: userId, shares: { $gte: shares } },
+      { $inc: { shares: -shares } },
+      { returnDocument: 'after', session }
+    );
+    return result ?? null;
+  }
+
+  static async setLendingEnabled(
+    corporationId: number,
+    userId: number,
+    enabled: boolean,
+    session?: ClientSession
+  ): Promise<Shareholder | null> {
+    const result = await getDb().collection<Shareholder>('shareholders').findOneAndUpdate(
+      { corporation_id: corporationId, user_id: userId },
+      { $set: { lending_enabled: enabled } },
+      { returnDocument: 'after', session }
+    );
+    return result ?? null;
+  }
+
+  /**
+   * Holdings opted in to the lending pool, largest first (the borrower's own holding is skipped)
+   */
+  static async findLenders(corporationId: number, excludeUserId?: number): Promise<Shareholder[]> {
+    return await getDb().collection<Shareholder>('shareholders')
+      .find({
+        corporation_id: corporationId,
+        lending_enabled: true,
+        shares: { $gt: 0 },
+        ...(excludeUserId !== undefined ? { user_id: { $ne: excludeUserId } } : {}),
+      })
+      .sort({ shares: -1, purchased_at: 1 })
+      .toArray();
+  }
+
+  static async deleteByIds(ids: number[], session?: ClientSession): Promise<number> {
+    if (ids.length === 0) return 0;
+    const result = await getDb().collection('shareholders').deleteMany({ id: { $in: ids } }, { session });
+    return result.deletedCount;
+  }
+
   static async delete(corporationId: number, userId: number): Promise<void> {
     await getDb().collection('shareholders').deleteOne({
       corporation_id: corporationId,
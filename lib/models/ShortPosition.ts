@@ -0,0 +1,191 @@
+import { getDb, getNextId } from '../db/mongo';
+import { ClientSession, Filter } from 'mongodb';
+
+export type ShortPositionStatus = 'open' | 'covered' | 'liquidated';
+
+// Shares borrowed from one lender; returned to them when the position closes
+export interface ShareLoanAllocation {
+  user_id: number;
+  shares: number;
+}
+
+export interface ShortPosition {
+  id: number;
+  corporation_id: number;
+  user_id: number;
+  shares: number;
+  entry_price: number;        // Price the borrowed shares were sold at
+  proceeds: number;
+  collateral: number;         // Sale proceeds plus posted margin, held until the position closes
+  borrow_fee_rate: number;    // Annual % (per 96-hour game year)
+  fees_paid: number;          // Borrow fees plus dividends owed to lenders
+  lenders: ShareLoanAllocation[];
+  status: ShortPositionStatus;
+  margin_call_at: Date | null;
+  last_fee_at: Date | null;
+  exit_price: number | null;
+  realized_pnl: number | null;
+  unpaid_deficit: number;     // Cover cost beyond collateral that the holder's cash could not pay
+  opened_at: Date;
+  closed_at: Date | null;
+}
+
+export interface ShortPositionInput {
+  corporation_id: number;
+  user_id: number;
+  shares: number;
+  entry_price: number;
+  proceeds: number;
+  collateral: number;
+  borrow_fee_rate: number;
+  lenders: ShareLoanAllocation[];
+}
+
+export class ShortPositionModel {
+  static async create(data: ShortPositionInput, session?: ClientSession): Promise<ShortPosition> {
+    const id = await getNextId('short_positions_id');
+
+    const doc: ShortPosition = {
+      id,
+      corporation_id: data.corporation_id,
+      user_id: data.user_id,
+      shares: data.shares,
+      entry_price: data.entry_price,
+      proceeds: data.proceeds,
+      collateral: data.collateral,
+      borrow_fee_rate: data.borrow_fee_rate,
+      fees_paid: 0,
+      lenders: data.lenders,
+      status: 'open',
+      margin_call_at: null,
+      last_fee_at: null,
+      exit_price: null,
+      realized_pnl: null,
+      unpaid_deficit: 0,
+      opened_at: new Date(),
+      closed_at: null,
+    };
+
+    await getDb().collection<ShortPosition>('short_positions').insertOne(doc, { session });
+    return doc;
+  }
+
+  static async findById(id: number): Promise<ShortPosition | null> {
+    return await getDb().collection<ShortPosition>('short_positions').findOne({ id });
+  }
+
+  static async findByUser(userId: number, corporationId?: number, status?: ShortPositionStatus): Promise<ShortPosition[]> {
+    const match: Filter<ShortPosition> = { user_id: userId };
+    if (corporationId !== undefined) match.corporation_id = corporationId;
+    if (status) match.status = status;
+
+    return await getDb().collection<ShortPosition>('short_positions')
+      .find(match)
+      .sort({ opened_at: -1 })
+      .toArray();
+  }
+
+  static async countOpenByUser(userId: number): Promise<number> {
+    return await getDb().collection<ShortPosition>('short_positions').countDocuments({
+      user_id: userId,
+      status: 'open',
+    });
+  }
+
+  // Get all open positions (for the hourly servicing cron job)
+  static async findAllOpen(session?: ClientSession): Promise<ShortPosition[]> {
+    return await getDb().collection<ShortPosition>('short_positions')
+      .find({ status: 'open' }, { session })
+      .sort({ opened_at: 1 })
+      .toArray();
+  }
+
+  /**
+   * Total shares currently out on loan for a corporation, and optionally from one lender
+   */
+  static async getSharesOnLoan(corporationId: number, lenderUserId?: number): Promise<number> {
+    const pipeline: object[] = [
+      { $match: { corporation_id: corporationId, status: 'open' } },
+      { $unwind: '$lenders' },
+    ];
+    if (lenderUserId !== undefined) {
+      pipeline.push({ $match: { 'lenders.user_id': lenderUserId } });
+    }
+    pipeline.push({ $group: { _id: null, total: { $sum: '$lenders.shares' } } });
+
+    const result = await getDb().collection('short_positions').aggregate(pipeline).toArray();
+    return result.length > 0 ? result[0].total : 0;
+  }
+
+  static async addCollateral(id: number, amount: number, session?: ClientSession): Promise<ShortPosition | null> {
+    const result = await getDb().collection<ShortPosition>('short_positions').findOneAndUpdate(
+      { id, status: 'open' },
+      { $inc: { collateral: amount } },
+      { returnDocument: 'after', session }
+    );
+    return result ?? null;
+  }
+
+  /**
+   * Record a borrow fee payment. `fromCollateral` is the part that could not be paid from cash.
+   */
+  static async recordFee(id: number, fee: number, fromCollateral: number, session?: ClientSession): Promise<ShortPosition | null> {
+    const result = await getDb().collection<ShortPosition>('short_positions').findOneAndUpdate(
+      { id, status: 'open' },
+      {
+        $inc: { fees_paid: fee, collateral: -fromCollateral },
+        $set: { last_fee_at: new Date() },
+      },
+      { returnDocument: 'after', session }
+    );
+    return result ?? null;
+  }
+
+  static async setMarginCall(id: number, marginCallAt: Date | null): Promise<ShortPosition | null> {
+    const result = await getDb().collection<ShortPosition>('short_positions').findOneAndUpdate(
+      { id, status: 'open' },
+      { $set: { margin_call_at: marginCallAt } },
+      { returnDocument: 'after' }
+    );
+    return result ?? null;
+  }
+
+  /**
+   * Close an open position. Only succeeds once, so a position cannot be covered twice.
+   */
+  static async close(
+    id: number,
+    status: 'covered' | 'liquidated',
+    exitPrice: number,
+    realizedPnl: number,
+    session?: ClientSession
+  ): Promise<ShortPosition | null> {
+    const result = await getDb().collection<ShortPosition>('short_positions').findOneAndUpdate(
+      { id, status: 'open' },
+      {
+        $set: {
+          status,
+          exit_price: exitPrice,
+          realized_pnl: realizedPnl,
+          collateral: 0,
+          margin_call_at: null,
+          closed_at: new Date(),
+        },
+      },
+      { returnDocument: 'before', session }
+    );
+    return result ?? null;
+  }
+
+  /**
+   * Record the part of a closed position's cover cost its holder could not pay
+   */
+  static async recordDeficit(id: number, amount: number, session?: ClientSession): Promise<ShortPosition | null> {
+    const result = await getDb().collection<ShortPosition>('short_positions').findOneAndUpdate(
+      { id, status: { $ne: 'open' } },
+      { $set: { unpaid_deficit: amount } },
+      { returnDocument: 'after', session }
+    );
+    return result ?? null;
+  }
+}
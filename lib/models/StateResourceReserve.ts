@@ -0,0 +1,151 @@
+import { ClientSession } from 'mongodb';
+import { getDb } from '../db/mongo';
+import { roundQuantity } from '../constants/inventory';
+import { RESOURCES, STATE_RESOURCES, type Resource } from '../constants/sectors';
+import { getOriginalReserve } from '../constants/reserves';
+
+/**
+ * Units of one resource left to extract in one state. Extraction draws it down;
+ * exploration adds to it.
+ */
+export interface StateResourceReserve {
+  state_code: string;
+  resource: string;
+  original_amount: number;   // Seeded from the state's static resource pool
+  discovered: number;        // Added by exploration since seeding
+  extracted: number;
+  remaining: number;
+  created_at: Date;
+  updated_at: Date;
+}
+
+export class StateResourceReserveModel {
+  static async findAll(): Promise<StateResourceReserve[]> {
+    return await getDb().collection<StateResourceReserve>('state_resource_reserves')
+      .find({})
+      .sort({ state_code: 1, resource: 1 })
+      .toArray();
+  }
+
+  static async findByState(stateCode: string): Promise<StateResourceReserve[]> {
+    return await getDb().collection<StateResourceReserve>('state_resource_reserves')
+      .find({ state_code: stateCode.toUpperCase() })
+      .sort({ resource: 1 })
+      .toArray();
+  }
+
+  static async findByResource(resource: string): Promise<StateResourceReserve[]> {
+    return await getDb().collection<StateResourceReserve>('state_resource_reserves')
+      .find({ resource })
+      .sort({ remaining: -1 })
+      .toArray();
+  }
+
+  static async findOne(stateCode: string, resource: string): Promise<StateResourceReserve | null> {
+    return await getDb().collection<StateResourceReserve>('state_resource_reserves')
+      .findOne({ state_code: stateCode.toUpperCase(), resource });
+  }
+
+  /**
+   * Create the reserve of every state resource pool that has none yet, leaving
+   * existing reserves as they are. Returns how many were created.
+   */
+  static async seedMissing(): Promise<number> {
+    const now = new Date();
+    const operations = [];
+    for (const [stateCode, pool] of Object.entries(STATE_RESOURCES)) {
+      for (const resource of RESOURCES) {
+        if (!pool[resource]) continue;
+        const amount = getOriginalReserve(stateCode, resource);
+        operations.push({
+          updateOne: {
+            filter: { state_code: stateCode, resource },
+            update: {
+              $setOnInsert: {
+                state_code: stateCode,
+                resource,
+                original_amount: amount,
+                discovered: 0,
+                extracted: 0,
+                remaining: amount,
+                created_at: now,
+                updated_at: now,
+              },
+            },
+            upsert: true,
+          },
+        });
+      }
+    }
+    if (operations.length === 0) return 0;
+
+    const result = await getDb().collection<StateResourceReserve>('state_resource_reserves').bulkWrite(operations);
+    return result.upsertedCount;
+  }
+
+  /**
+   * Reset a reserve to a full pool: the given amount, or the state's original reserve
+   */
+  static async reset(stateCode: string, resource: Resource, amount?: number): Promise<StateResourceReserve | null> {
+    const now = new Date();
+    const full = amount ?? getOriginalReserve(stateCode, resource);
+    const result = await getDb().collection<StateResourceReserve>('state_resource_reserves').findOneAndUpdate(
+      { state_code: stateCode, resource },
+      {
+        $set: {
+          original_amount: full,
+          discovered: 0,
+          extracted: 0,
+          remaining: full,
+          updated_at: now,
+        },
+        $setOnInsert: { created_at: now },
+      },
+      { upsert: true, returnDocument: 'after' }
+    );
+    return result ?? null;
+  }
+
+  /**
+   * Draw extracted units out of a reserve, never below zero
+   */
+  static async deplete(stateCode: string, resource: string, quantity: number): Promise<void> {
+    const amount = roundQuantity(quantity);
+    if (amount <= 0) return;
+
+    await getDb().collection<StateResourceReserve>('state_resource_reserves').updateOne(
+      { state_code: stateCode, resource },
+      [
+        {
+          $set: {
+            extracted: { $add: ['$extracted', { $min: [amount, { $max: ['$remaining', 0] }] }] },
+            remaining: { $max: [0, { $subtract: ['$remaining', amount] }] },
+            updated_at: new Date(),
+          },
+        },
+      ]
+    );
+  }
+
+  /**
+   * Add discovered units to a reserve, creating it if the state had none
+   */
+  static async addDiscovery(
+    stateCode: string,
+    resource: string,
+    amount: number,
+    session?: ClientSession
+  ): Promise<StateResourceReserve | null> {
+    const now = new Date();
+    const result = await getDb().collection<StateResourceReserve>('state_resource_reserves').findOneAndUpdate(
+      { state_code: stateCode, resource },
+      {
+        $inc: { discovered: amount, remaining: amount },
+        $set: { updated_at: now },
+        $setOnInsert: { original_amount: 0, extracted: 0, created_at: now },
+      },
+      { upsert: true, returnDocument: 'after', session }
+    );
+    return result ?? null;
+  }
+}
@@ -0,0 +1,234 @@
+import { getDb, getNextId } from '../db/mongo';
+import { ClientSession, Filter } from 'mongodb';
+import { InventoryItemType } from '../constants/inventory';
+
+export type SupplyContractStatus = 'proposed' | 'active' | 'completed' | 'rejected' | 'withdrawn' | 'expired';
+export type SupplyContractRole = 'supplier' | 'buyer';
+
+/**
+ * A bilateral supply contract: the supplier delivers `units_per_hour` of an item from
+ * its stock in `source_state_code` to the buyer's stock in `destination_state_code`,
+ * at a fixed price, every hour for `quarters` game quarters.
+ * One side proposes (naming its own state); the other side's CEO accepts (naming theirs).
+ */
+export interface SupplyContract {
+  id: number;
+  supplier_corporation_id: number;
+  buyer_corporation_id: number;
+  item: string;
+  item_type: InventoryItemType;
+  units_per_hour: number;
+  price_per_unit: number;
+  quarters: number;
+  source_state_code: string | null;        // Set by the supplier
+  destination_state_code: string | null;   // Set by the buyer
+  proposed_by: SupplyContractRole;
+  proposer_user_id: number;
+  acceptor_user_id: number | null;
+  status: SupplyContractStatus;
+  proposal_expires_at: Date;
+  starts_at: Date | null;
+  ends_at: Date | null;
+  units_delivered: number;
+  units_short: number;
+  total_paid: number;
+  total_penalties: number;
+  last_settled_at: Date | null;
+  created_at: Date;
+  updated_at: Date;
+}
+
+export interface SupplyContractInput {
+  supplier_corporation_id: number;
+  buyer_corporation_id: number;
+  item: string;
+  item_type: InventoryItemType;
+  units_per_hour: number;
+  price_per_unit: number;
+  quarters: number;
+  source_state_code: string | null;
+  destination_state_code: string | null;
+  proposed_by: SupplyContractRole;
+  proposer_user_id: number;
+  proposal_expires_at: Date;
+}
+
+export interface SupplyContractTotals {
+  units_delivered: number;
+  units_short: number;
+  paid: number;
+  penalty: number;
+}
+
+export class SupplyContractModel {
+  static async create(data: SupplyContractInput): Promise<SupplyContract> {
+    const id = await getNextId('supply_contracts_id');
+    const now = new Date();
+
+    const doc: SupplyContract = {
+      id,
+      ...data,
+      acceptor_user_id: null,
+      status: 'proposed',
+      starts_at: null,
+      ends_at: null,
+      units_delivered: 0,
+      units_short: 0,
+      total_paid: 0,
+      total_penalties: 0,
+      last_settled_at: null,
+      created_at: now,
+      updated_at: now,
+    };
+
+    await getDb().collection<SupplyContract>('supply_contracts').insertOne(doc);
+    return doc;
+  }
+
+  static async findById(id: number): Promise<SupplyContract | null> {
+    return await getDb().collection<SupplyContract>('supply_contracts').findOne({ id });
+  }
+
+  // Contracts a corporation is party to on either side, newest first
+  static async findByCorporation(
+    corporationId: number,
+    status?: SupplyContractStatus | SupplyContractStatus[],
+    limit: number = 50
+  ): Promise<SupplyContract[]> {
+    const match: Filter<SupplyContract> = {
+      $or: [{ supplier_corporation_id: corporationId }, { buyer_corporation_id: corporationId }],
+    };
+    if (status) match.status = Array.isArray(status) ? { $in: status } : status;
+
+    return await getDb().collection<SupplyContract>('supply_contracts')
+      .find(match)
+      .sort({ created_at: -1 })
+      .limit(limit)
+      .toArray();
+  }
+
+  static async countOpenByCorporation(corporationId: number): Promise<number> {
+    return await getDb().collection<SupplyContract>('supply_contracts').countDocuments({
+      $or: [{ supplier_corporation_id: corporationId }, { buyer_corporation_id: corporationId }],
+      status: { $in: ['proposed', 'active'] },
+    });
+  }
+
+  // Active contracts still within their term (for hourly settlement)
+  static async findActive(now: Date = new Date()): Promise<SupplyContract[]> {
+    return await getDb().collection<SupplyContract>('supply_contracts')
+      .find({ status: 'active', starts_at: { $lte: now }, ends_at: { $gt: now } })
+      .sort({ id: 1 })
+      .toArray();
+  }
+
+  /**
+   * Accept a proposal, recording the acceptor's state and starting the term.
+   * Only succeeds while the proposal is still open.
+   */
+  static async accept(
+    id: number,
+    acceptorUserId: number,
+    stateUpdate: Pick<SupplyContract, 'source_state_code'> | Pick<SupplyContract, 'destination_state_code'>,
+    startsAt: Date,
+    endsAt: Date
+  ): Promise<SupplyContract | null> {
+    const result = await getDb().collection<SupplyContract>('supply_contracts').findOneAndUpdate(
+      { id, status: 'proposed', proposal_expires_at: { $gt: startsAt } },
+      {
+        $set: {
+          ...stateUpdate,
+          acceptor_user_id: acceptorUserId,
+          status: 'active',
+          starts_at: startsAt,
+          ends_at: endsAt,
+          updated_at: startsAt,
+        },
+      },
+      { returnDocument: 'after' }
+    );
+    return result ?? null;
+  }
+
+  // Close an open proposal as rejected, withdrawn or expired. Returns null if it was no longer open.
+  static async closeProposal(
+    id: number,
+    status: 'rejected' | 'withdrawn' | 'expired'
+  ): Promise<SupplyContract | null> {
+    const result = await getDb().collection<SupplyContract>('supply_contracts').findOneAndUpdate(
+      { id, status: 'proposed' },
+      { $set: { status, updated_at: new Date() } },
+      { returnDocument: 'after' }
+    );
+    return result ?? null;
+  }
+
+  // Lapse every proposal past its expiry
+  static async expireProposals(now: Date = new Date()): Promise<number> {
+    const result = await getDb().collection<SupplyContract>('supply_contracts').updateMany(
+      { status: 'proposed', proposal_expires_at: { $lte: now } },
+      { $set: { status: 'expired', updated_at: now } }
+    );
+    return result.modifiedCount;
+  }
+
+  // Add one hour's settlement to the contract's running totals
+  static async recordSettlement(
+    id: number,
+    totals: SupplyContractTotals,
+    settledAt: Date,
+    session?: ClientSession
+  ): Promise<SupplyContract | null> {
+    const result = await getDb().collection<SupplyContract>('supply_contracts').findOneAndUpdate(
+      { id, status: 'active' },
+      {
+        $inc: {
+          units_delivered: totals.units_delivered,
+          units_short: totals.units_short,
+          total_paid: totals.paid,
+          total_penalties: totals.penalty,
+        },
+        $set: { last_settled_at: settledAt, updated_at: settledAt },
+      },
+      { returnDocument: 'after', session }
+    );
+    return result ?? null;
+  }
+
+  /**
+   * Move a merged corporation's open contracts to its acquirer. Contracts that would
+   * leave the acquirer supplying itself are closed: proposals as withdrawn, active
+   * contracts as completed.
+   */
+  static async reassignOpenContracts(fromCorporationId: number, toCorporationId: number, session?: ClientSession): Promise<number> {
+    const collection = getDb().collection<SupplyContract>('supply_contracts');
+    const now = new Date();
+    const open = { status: { $in: ['proposed', 'active'] as SupplyContractStatus[] } };
+
+    const asSupplier = await collection.updateMany(
+      { supplier_corporation_id: fromCorporationId, ...open },
+      { $set: { supplier_corporation_id: toCorporationId, updated_at: now } },
+      { session }
+    );
+    const asBuyer = await collection.updateMany(
+      { buyer_corporation_id: fromCorporationId, ...open },
+      { $set: { buyer_corporation_id: toCorporationId, updated_at: now } },
+      { session }
+    );
+
+    const selfDealing = { supplier_corporation_id: toCorporationId, buyer_corporation_id: toCorporationId };
+    await collection.updateMany({ ...selfDealing, status: 'proposed' }, { $set: { status: 'withdrawn', updated_at: now } }, { session });
+    await collection.updateMany({ ...selfDealing, status: 'active' }, { $set: { status: 'completed', updated_at: now } }, { session });
+
+    return asSupplier.modifiedCount + asBuyer.modifiedCount;
+  }
+
+  // Close active contracts whose term has ended
+  static async completeEnded(now: Date = new Date()): Promise<number> {
+    const result = await getDb().collection<SupplyContract>('supply_contracts').updateMany(
+      { status: 'active', ends_at: { $lte: now } },
+      { $set: { status: 'completed', updated_at: now } }
+    );
+    return result.modifiedCount;
+  }
+}
@@ -0,0 +1,98 @@
+import { getDb, getNextId } from '../db/mongo';
+import { ClientSession } from 'mongodb';
+
+// One hour of deliveries under a supply contract
+export interface SupplyContractSettlement {
+  id: number;
+  contract_id: number;
+  supplier_corporation_id: number;
+  buyer_corporation_id: number;
+  item: string;
+  units_due: number;
+  units_delivered: number;
+  units_short: number;      // Supplier had no stock for these
+  units_unpaid: number;     // Buyer could not pay for these
+  price_per_unit: number;
+  payment: number;
+  cost_of_goods_sold: number;   // Book value of the supplier's stock that was delivered
+  shipping_cost?: number;       // Paid by the supplier to deliver between states
+  penalty: number;
+  settled_at: Date;
+}
+
+export type SupplyContractSettlementInput = Omit<SupplyContractSettlement, 'id' | 'settled_at'>;
+
+// A corporation's contract activity, from its own side of each contract
+export interface SupplyContractActivitySummary {
+  settlements: number;
+  sales: number;                // Payments received as supplier
+  purchases: number;            // Payments made as buyer
+  penalties_paid: number;
+  penalties_received: number;
+  units_delivered: number;      // As supplier
+  units_received: number;       // As buyer
+  units_short: number;          // As supplier
+}
+
+export class SupplyContractSettlementModel {
+  static async create(
+    data: SupplyContractSettlementInput,
+    settledAt: Date = new Date(),
+    session?: ClientSession
+  ): Promise<SupplyContractSettlement> {
+    const doc: SupplyContractSettlement = {
+      id: await getNextId('supply_contract_settlements_id'),
+      ...data,
+      settled_at: settledAt,
+    };
+    await getDb().collection<SupplyContractSettlement>('supply_contract_settlements').insertOne(doc, { session });
+    return doc;
+  }
+
+  static async findByContract(contractId: number, limit: number = 24): Promise<SupplyContractSettlement[]> {
+    return await getDb().collection<SupplyContractSettlement>('supply_contract_settlements')
+      .find({ contract_id: contractId })
+      .sort({ settled_at: -1 })
+      .limit(limit)
+      .toArray();
+  }
+
+  /**
+   * Totals over the settlements of the last `hours` hours, for either side
+   */
+  static async summarize(corporationId: number, hours: number): Promise<SupplyContractActivitySummary> {
+    const since = new Date(Date.now() - hours * 60 * 60 * 1000);
+    const settlements = await getDb().collection<SupplyContractSettlement>('supply_contract_settlements')
+      .find({
+        $or: [{ supplier_corporation_id: corporationId }, { buyer_corporation_id: corporationId }],
+        settled_at: { $gte: since },
+      })
+      .toArray();
+
+    const summary: SupplyContractActivitySummary = {
+      settlements: settlements.length,
+      sales: 0,
+      purchases: 0,
+      penalties_paid: 0,
+      penalties_received: 0,
+      units_delivered: 0,
+      units_received: 0,
+      units_short: 0,
+    };
+
+    for (const settlement of settlements) {
+      if (settlement.supplier_corporation_id === corporationId) {
+        summary.sales += settlement.payment;
+        summary.penalties_paid += settlement.penalty;
+        summary.units_delivered += settlement.units_delivered;
+        summary.units_short += settlement.units_short;
+      } else {
+        summary.purchases += settlement.payment;
+        summary.penalties_received += settlement.penalty;
+        summary.units_received += settlement.units_delivered;
+      }
+    }
+
+    return summary;
+  }
+}
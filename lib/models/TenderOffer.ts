@@ -0,0 +1,209 @@
+import { getDb, getNextId } from '../db/mongo';
+import { ClientSession, Filter } from 'mongodb';
+
+export type TenderOfferStatus = 'open' | 'succeeded' | 'failed' | 'withdrawn';
+export type TenderOfferBidderType = 'user' | 'corporation';
+
+// Shares one holder has tendered; held by the offer until it closes
+export interface TenderedShares {
+  user_id: number;
+  shares: number;
+  tendered_at: Date;
+}
+
+export interface TenderOffer {
+  id: number;
+  target_corporation_id: number;
+  bidder_type: TenderOfferBidderType;
+  bidder_user_id: number;                  // The player, or the CEO who launched it for their corporation
+  bidder_corporation_id: number | null;    // Set when a corporation is the bidder
+  price_per_share: number;
+  max_shares: number;
+  control_threshold_pct: number;
+  escrow: number;                          // price_per_share * max_shares, held from the bidder until close
+  shares_tendered: number;
+  tenders: TenderedShares[];
+  status: TenderOfferStatus;
+  stake_pct_at_close: number | null;       // Bidder's stake once the offer closed; succeeded offers hold control
+  created_at: Date;
+  expires_at: Date;
+  resolved_at: Date | null;
+}
+
+export interface TenderOfferInput {
+  target_corporation_id: number;
+  bidder_type: TenderOfferBidderType;
+  bidder_user_id: number;
+  bidder_corporation_id: number | null;
+  price_per_share: number;
+  max_shares: number;
+  control_threshold_pct: number;
+  expires_at: Date;
+}
+
+export class TenderOfferModel {
+  static async create(data: TenderOfferInput, session?: ClientSession): Promise<TenderOffer> {
+    const id = await getNextId('tender_offers_id');
+
+    const doc: TenderOffer = {
+      id,
+      target_corporation_id: data.target_corporation_id,
+      bidder_type: data.bidder_type,
+      bidder_user_id: data.bidder_user_id,
+      bidder_corporation_id: data.bidder_corporation_id,
+      price_per_share: data.price_per_share,
+      max_shares: data.max_shares,
+      control_threshold_pct: data.control_threshold_pct,
+      escrow: data.price_per_share * data.max_shares,
+      shares_tendered: 0,
+      tenders: [],
+      status: 'open',
+      stake_pct_at_close: null,
+      created_at: new Date(),
+      expires_at: data.expires_at,
+      resolved_at: null,
+    };
+
+    await getDb().collection<TenderOffer>('tender_offers').insertOne(doc, { session });
+    return doc;
+  }
+
+  static async findById(id: number): Promise<TenderOffer | null> {
+    return await getDb().collection<TenderOffer>('tender_offers').findOne({ id });
+  }
+
+  static async findByTarget(corporationId: number, status?: TenderOfferStatus): Promise<TenderOffer[]> {
+    const match: Filter<TenderOffer> = { target_corporation_id: corporationId };
+    if (status) match.status = status;
+
+    return await getDb().collection<TenderOffer>('tender_offers')
+      .find(match)
+      .sort({ created_at: -1 })
+      .limit(50)
+      .toArray();
+  }
+
+  static async findOpenByBidder(
+    targetCorporationId: number,
+    bidderUserId: number,
+    bidderCorporationId: number | null
+  ): Promise<TenderOffer | null> {
+    return await getDb().collection<TenderOffer>('tender_offers').findOne({
+      target_corporation_id: targetCorporationId,
+      status: 'open',
+      ...(bidderCorporationId !== null
+        ? { bidder_corporation_id: bidderCorporationId }
+        : { bidder_type: 'user', bidder_user_id: bidderUserId }),
+    });
+  }
+
+  // Open offers for, or bid by, any of these corporations
+  static async findOpenInvolving(corporationIds: number[]): Promise<TenderOffer[]> {
+    return await getDb().collection<TenderOffer>('tender_offers')
+      .find({
+        status: 'open',
+        $or: [
+          { target_corporation_id: { $in: corporationIds } },
+          { bidder_corporation_id: { $in: corporationIds } },
+        ],
+      })
+      .toArray();
+  }
+
+  // Open offers whose acceptance window has ended (for the cron job)
+  static async findExpiredOpen(now: Date = new Date()): Promise<TenderOffer[]> {
+    return await getDb().collection<TenderOffer>('tender_offers')
+      .find({ status: 'open', expires_at: { $lte: now } })
+      .sort({ expires_at: 1 })
+      .toArray();
+  }
+
+  /**
+   * Add tendered shares to an open offer. Returns null once the offer has closed,
+   * its window has ended, or the shares would take it past max_shares.
+   */
+  static async addTender(id: number, userId: number, shares: number, session?: ClientSession): Promise<TenderOffer | null> {
+    const collection = getDb().collection<TenderOffer>('tender_offers');
+    const now = new Date();
+    const filter: Filter<TenderOffer> = {
+      id,
+      status: 'open',
+      expires_at: { $gt: now },
+      $expr: { $lte: [{ $add: ['$shares_tendered', shares] }, '$max_shares'] },
+    };
+
+    // Top up an existing tender from this holder, otherwise add a new one
+    const updated = await collection.findOneAndUpdate(
+      { ...filter, 'tenders.user_id': userId },
+      { $inc: { shares_tendered: shares, 'tenders.$.shares': shares }, $set: { 'tenders.$.tendered_at': now } },
+      { returnDocument: 'after', session }
+    );
+    if (updated) return updated;
+
+    const result = await collection.findOneAndUpdate(
+      { ...filter, 'tenders.user_id': { $ne: userId } },
+      { $inc: { shares_tendered: shares }, $push: { tenders: { user_id: userId, shares, tendered_at: now } } },
+      { returnDocument: 'after', session }
+    );
+    return result ?? null;
+  }
+
+  /**
+   * Remove a holder's tender while the offer's window is open. Returns the offer as it was before,
+   * so the caller knows how many shares to hand back, or null if there was nothing to withdraw.
+   */
+  static async removeTender(id: number, userId: number, session?: ClientSession): Promise<TenderOffer | null> {
+    const offer = await getDb().collection<TenderOffer>('tender_offers').findOne(
+      { id, status: 'open', 'tenders.user_id': userId },
+      { session }
+    );
+    const tender = offer?.tenders.find(t => t.user_id === userId);
+    if (!offer || !tender) return null;
+
+    const result = await getDb().collection<TenderOffer>('tender_offers').findOneAndUpdate(
+      { id, status: 'open', expires_at: { $gt: new Date() }, tenders: { $elemMatch: { user_id: userId, shares: tender.shares } } },
+      { $inc: { shares_tendered: -tender.shares }, $pull: { tenders: { user_id: userId } } },
+      { returnDocument: 'before', session }
+    );
+    return result ?? null;
+  }
+
+  /**
+   * Move an open offer to its final status. Only succeeds once per offer,
+   * so a settlement racing a withdrawal cannot both pay out.
+   */
+  static async close(
+    id: number,
+    status: Exclude<TenderOfferStatus, 'open'>,
+    stakePct: number | null,
+    session?: ClientSession
+  ): Promise<TenderOffer | null> {
+    const result = await getDb().collection<TenderOffer>('tender_offers').findOneAndUpdate(
+      { id, status: 'open' },
+      {
+        $set: {
+          status,
+          stake_pct_at_close: stakePct,
+          resolved_at: new Date(),
+        },
+      },
+      { returnDocument: 'after', session }
+    );
+    return result ?? null;
+  }
+
+  // Record the outcome of an offer closed for settlement, once its final stake is known
+  static async setOutcome(
+    id: number,
+    status: 'succeeded' | 'failed',
+    stakePct: number,
+    session?: ClientSession
+  ): Promise<TenderOffer | null> {
+    const result = await getDb().collection<TenderOffer>('tender_offers').findOneAndUpdate(
+      { id },
+      { $set: { status, stake_pct_at_close: stakePct } },
+      { returnDocument: 'after', session }
+    );
+    return result ?? null;
+  }
+}
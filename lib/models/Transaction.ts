@@ -1,5 +1,5 @@
 import { getDb, getNextId } from '../db/mongo';
-import { Document, Filter } from 'mongodb';
+import { ClientSession, Document, Filter } from 'mongodb';
 
 export type TransactionType =
   | 'corp_revenue'
@@ -7,6 +7,18 @@ export type TransactionType =
   | 'user_transfer'
   | 'share_purchase'
   | 'share_sale'
+  | 'share_trade'
+  | 'commodity_trade'
+  | 'contract_payment'
+  | 'contract_penalty'
+  | 'shipping'
+  | 'short_sale'
+  | 'short_cover'
+  | 'borrow_fee'
+  | 'tender_offer_escrow'
+  | 'tender_offer_purchase'
+  | 'tender_offer_refund'
+  | 'merger'
   | 'share_issue'
   | 'market_entry'
   | 'unit_build'
@@ -15,9 +27,14 @@ export type TransactionType =
   | 'special_dividend'
   | 'sector_abandon'
   | 'unit_abandon'
+  | 'exploration'
+  | 'research'
   | 'corporate_action'
   | 'market_revenue'
-  | 'market_cost';
+  | 'market_cost'
+  | 'loan_disbursement'
+  | 'loan_payment'
+  | 'loan_default';
 
 export interface Transaction {
   id: number;
@@ -78,7 +95,7 @@ export class TransactionModel {
   /**
    * Create a new transaction record
    */
-  static async create(data: TransactionInput): Promise<Transaction> {
+  static async create(data: TransactionInput, session?: ClientSession): Promise<Transaction> {
     const {
       transaction_type,
       amount,
@@ -106,7 +123,7 @@ export class TransactionModel {
       created_at: now,
     };
 
-    await getDb().collection('transactions').insertOne(doc);
+    await getDb().collection('transactions').insertOne(doc, { session });
     return doc;
   }
 
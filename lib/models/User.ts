@@ -1,5 +1,6 @@
 import bcrypt from 'bcryptjs';
 import { getDb, getNextId } from '../db/mongo';
+import { ClientSession } from 'mongodb';
 import { ACTIONS_CONFIG } from '../constants/actions';
 
 /**
@@ -272,7 +273,7 @@ export class UserModel {
     return result;
   }
 
-  static async updateCash(userId: number, amount: number): Promise<User> {
+  static async updateCash(userId: number, amount: number, session?: ClientSession): Promise<User> {
     const result = await getDb().collection<User>('users').findOneAndUpdate(
       { id: userId },
       [
@@ -282,12 +283,25 @@ export class UserModel {
           },
         },
       ],
-      { returnDocument: 'after' }
+      { returnDocument: 'after', session }
     );
     if (!result) throw new Error('User not found');
     return result;
   }
 
+  /**
+   * Debit cash only if the user can afford it. Returns null (and changes nothing)
+   * when the balance is too low, so concurrent purchases cannot overdraw.
+   */
+  static async debitCash(userId: number, amount: number, session?: ClientSession): Promise<User | null> {
+    const result = await getDb().collection<User>('users').findOneAndUpdate(
+      { id: userId, cash: { $gte: amount } },
+      { $inc: { cash: -amount } },
+      { returnDocument: 'after', session }
+    );
+    return result ?? null;
+  }
+
   static async getCash(userId: number): Promise<number> {
     const user = await getDb().collection<User>('users').findOne({ id: userId }, { projection: { cash: 1 } });
     if (!user) throw new Error('User not found');
@@ -316,6 +330,19 @@ export class UserModel {
     return result.actions ?? 0;
   }
 
+  /**
+   * Spend actions only if the user has enough. Returns null (and changes nothing)
+   * when they do not, so concurrent requests cannot spend the same actions twice.
+   */
+  static async debitActions(userId: number, amount: number, session?: ClientSession): Promise<User | null> {
+    const result = await getDb().collection<User>('users').findOneAndUpdate(
+      { id: userId, actions: { $gte: amount } },
+      { $inc: { actions: -amount } },
+      { returnDocument: 'after', projection: { actions: 1 }, session }
+    );
+    return result ?? null;
+  }
+
   static async addCashToAll(amount: number): Promise<{ updated: number }> {
     const result = await getDb().collection<User>('users').updateMany(
       {},
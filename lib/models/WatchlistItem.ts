@@ -0,0 +1,52 @@
+import { getDb, getNextId } from '../db/mongo';
+import type { WatchTarget } from '../constants/watchlists';
+
+// One corporation, resource or product on a user's watchlist
+export interface WatchlistItem extends WatchTarget {
+  id: number;
+  user_id: number;
+  created_at: Date;
+}
+
+export type WatchlistItemInput = Omit<WatchlistItem, 'id' | 'created_at'>;
+
+export class WatchlistItemModel {
+  static async create(data: WatchlistItemInput): Promise<WatchlistItem> {
+    const doc: WatchlistItem = {
+      id: await getNextId('watchlist_items_id'),
+      ...data,
+      created_at: new Date(),
+    };
+    await getDb().collection<WatchlistItem>('watchlist_items').insertOne(doc);
+    return doc;
+  }
+
+  static async findById(id: number): Promise<WatchlistItem | null> {
+    return await getDb().collection<WatchlistItem>('watchlist_items').findOne({ id });
+  }
+
+  static async findByUserId(userId: number): Promise<WatchlistItem[]> {
+    return await getDb().collection<WatchlistItem>('watchlist_items')
+      .find({ user_id: userId })
+      .sort({ created_at: 1, id: 1 })
+      .toArray();
+  }
+
+  static async findByTarget(userId: number, target: WatchTarget): Promise<WatchlistItem | null> {
+    return await getDb().collection<WatchlistItem>('watchlist_items').findOne({
+      user_id: userId,
+      target_type: target.target_type,
+      corporation_id: target.corporation_id,
+      item: target.item,
+    });
+  }
+
+  static async countByUserId(userId: number): Promise<number> {
+    return await getDb().collection<WatchlistItem>('watchlist_items').countDocuments({ user_id: userId });
+  }
+
+  static async delete(id: number): Promise<boolean> {
+    const result = await getDb().collection<WatchlistItem>('watchlist_items').deleteOne({ id });
+    return result.deletedCount > 0;
+  }
+}
@@ -1070,3 +1070,71 @@ export function getSectorsConsumingResourceWithConfig(config: UnifiedSectorConfi
   }
   return getSectorsConsumingResource(resource as Resource);
 }
+
+// ============================================================================
+// GRAPH VALIDATION
+// ============================================================================
+
+/**
+ * Problems with the production graph of a whole configuration, one message each:
+ * - Inputs and outputs naming a resource or product the configuration does not have
+ * - Inputs nothing produces (orphan inputs)
+ * - Products nothing produces
+ *
+ * A product is produced by an enabled unit that outputs it or by a sector whose
+ * produced product it is; a resource by an enabled unit that outputs it or by an
+ * extracting sector whose primary resource it is. Disabled units are ignored.
+ */
+export function validateProductionGraph(config: Omit<UnifiedSectorConfig, 'version'>): string[] {
+  const errors: string[] = [];
+  const known = {
+    resource: new Set(Object.keys(config.resources)),
+    product: new Set(Object.keys(config.products)),
+  };
+  const produced = { resource: new Set<string>(), product: new Set<string>() };
+
+  for (const [sectorName, sector] of Object.entries(config.sectors)) {
+    if (sector.producedProduct) {
+      if (known.product.has(sector.producedProduct)) {
+        produced.product.add(sector.producedProduct);
+      } else {
+        errors.push(`${sectorName} produces unknown product ${sector.producedProduct}`);
+      }
+    }
+    if (sector.primaryResource && !known.resource.has(sector.primaryResource)) {
+      errors.push(`${sectorName} has unknown primary resource ${sector.primaryResource}`);
+    } else if (sector.primaryResource && sector.canExtract) {
+      produced.resource.add(sector.primaryResource);
+    }
+
+    for (const [unitType, unit] of Object.entries(sector.units)) {
+      for (const output of unit.outputs) {
+        if (!known[output.type].has(output.name)) {
+          errors.push(`${sectorName} ${unitType} outputs unknown ${output.type} ${output.name}`);
+        } else if (unit.isEnabled) {
+          produced[output.type].add(output.name);
+        }
+      }
+    }
+  }
+
+  for (const [sectorName, sector] of Object.entries(config.sectors)) {
+    for (const [unitType, unit] of Object.entries(sector.units)) {
+      for (const input of unit.inputs) {
+        if (!known[input.type].has(input.name)) {
+          errors.push(`${sectorName} ${unitType} consumes unknown ${input.type} ${input.name}`);
+        } else if (unit.isEnabled && !produced[input.type].has(input.name)) {
+          errors.push(`${sectorName} ${unitType} consumes ${input.name}, which nothing produces`);
+        }
+      }
+    }
+  }
+
+  for (const product of Object.keys(config.products)) {
+    if (!produced.product.has(product)) {
+      errors.push(`No sector produces ${product}`);
+    }
+  }
+
+  return errors;
+}
@@ -43,6 +43,7 @@ import {
   type Product,
   type Resource,
 } from '../constants/sectors';
+import { NO_RESEARCH, type ResearchModifier } from '../constants/research';
 
 export type UnitType = 'production' | 'retail' | 'service' | 'extraction';
 
@@ -53,6 +54,9 @@ export interface UnitCounts {
   extraction: number;
 }
 
+// A corporation's completed research in a sector, per unit type
+export type UnitResearch = Partial<Record<UnitType, ResearchModifier>>;
+
 /**
  * Sector-specific consumption rate overrides
  * These override the default rates for specific sectors
@@ -178,16 +182,26 @@ export class BusinessUnitCalculator {
   }
 
   /**
-   * Compute product demand for a specific unit type
+   * Compute product demand for a specific unit type.
+   * Research that reduces inputs scales production units' demand down.
    */
   computeProductDemandByUnitType(
     unitType: UnitType,
     sector: string,
     product: string,
-    unitCount: number
+    unitCount: number,
+    research: ResearchModifier = NO_RESEARCH
   ): number {
     if (unitCount <= 0) return 0;
+    return this.computeBaseProductDemand(unitType, sector, product, unitCount) * research.inputMultiplier;
+  }
 
+  private computeBaseProductDemand(
+    unitType: UnitType,
+    sector: string,
+    product: string,
+    unitCount: number
+  ): number {
     // Handle electricity separately
     if (product === 'Electricity') {
       switch (unitType) {
@@ -241,36 +255,40 @@ export class BusinessUnitCalculator {
   computeTotalProductDemand(
     sector: string,
     product: string,
-    counts: UnitCounts
+    counts: UnitCounts,
+    research: UnitResearch = {}
   ): number {
     let total = 0;
 
-    total += this.computeProductDemandByUnitType('production', sector, product, counts.production);
-    total += this.computeProductDemandByUnitType('retail', sector, product, counts.retail);
-    total += this.computeProductDemandByUnitType('service', sector, product, counts.service);
-    total += this.computeProductDemandByUnitType('extraction', sector, product, counts.extraction);
+    total += this.computeProductDemandByUnitType('production', sector, product, counts.production, research.production);
+    total += this.computeProductDemandByUnitType('retail', sector, product, counts.retail, research.retail);
+    total += this.computeProductDemandByUnitType('service', sector, product, counts.service, research.service);
+    total += this.computeProductDemandByUnitType('extraction', sector, product, counts.extraction, research.extraction);
 
     return total;
   }
 
   /**
-   * Compute product supply for a specific unit type
+   * Compute product supply for a specific unit type.
+   * Research raises the output rate, and can unlock products beyond the sector's own.
    */
   computeProductSupplyByUnitType(
     unitType: UnitType,
     sector: string,
     product: string,
-    unitCount: number
+    unitCount: number,
+    research: ResearchModifier = NO_RESEARCH
   ): number {
     if (unitCount <= 0) return 0;
 
     // Only production units supply products
     if (unitType !== 'production') return 0;
 
+    const unlocked = unitCount * (research.unlockedOutputs[product as Product] ?? 0);
     const producedProduct = (SECTOR_PRODUCTS as Record<string, string | null>)[sector];
-    if (producedProduct !== product) return 0;
+    if (producedProduct !== product) return unlocked;
 
-    return unitCount * this.getOutputRate('production');
+    return unitCount * this.getOutputRate('production') * research.outputMultiplier + unlocked;
   }
 
   /**
@@ -280,10 +298,19 @@ export class BusinessUnitCalculator {
     unitType: UnitType,
     sector: string,
     resource: string,
-    unitCount: number
+    unitCount: number,
+    research: ResearchModifier = NO_RESEARCH
   ): number {
     if (unitCount <= 0) return 0;
+    return this.computeBaseCommodityDemand(unitType, sector, resource, unitCount) * research.inputMultiplier;
+  }
 
+  private computeBaseCommodityDemand(
+    unitType: UnitType,
+    sector: string,
+    resource: string,
+    unitCount: number
+  ): number {
     // Only production units consume raw resources
     if (unitType !== 'production') return 0;
 
@@ -318,10 +345,11 @@ export class BusinessUnitCalculator {
   computeTotalCommodityDemand(
     sector: string,
     resource: string,
-    counts: UnitCounts
+    counts: UnitCounts,
+    research: UnitResearch = {}
   ): number {
     // Currently only production units consume resources
-    return this.computeCommodityDemandByUnitType('production', sector, resource, counts.production);
+    return this.computeCommodityDemandByUnitType('production', sector, resource, counts.production, research.production);
   }
 
   /**
@@ -331,7 +359,8 @@ export class BusinessUnitCalculator {
     unitType: UnitType,
     sector: string,
     resource: string,
-    unitCount: number
+    unitCount: number,
+    research: ResearchModifier = NO_RESEARCH
   ): number {
     if (unitCount <= 0) return 0;
 
@@ -341,7 +370,7 @@ export class BusinessUnitCalculator {
     const extractable = (SECTOR_EXTRACTION as Record<string, string[] | null>)[sector];
     if (!extractable || !extractable.includes(resource)) return 0;
 
-    return unitCount * this.getOutputRate('extraction');
+    return unitCount * this.getOutputRate('extraction') * research.outputMultiplier;
   }
 
   /**
@@ -350,10 +379,11 @@ export class BusinessUnitCalculator {
   computeTotalCommoditySupply(
     sector: string,
     resource: string,
-    counts: UnitCounts
+    counts: UnitCounts,
+    research: UnitResearch = {}
   ): number {
     // Currently only extraction units supply resources
-    return this.computeCommoditySupplyByUnitType('extraction', sector, resource, counts.extraction);
+    return this.computeCommoditySupplyByUnitType('extraction', sector, resource, counts.extraction, research.extraction);
   }
 }
 
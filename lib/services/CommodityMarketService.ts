@@ -0,0 +1,287 @@
+import { ClientSession } from 'mongodb';
+import { withTransaction } from '../db/mongo';
+import { CommodityOrderModel, CommodityOrder, CommodityOrderSide } from '../models/CommodityOrder';
+import { CommodityTradeModel } from '../models/CommodityTrade';
+import { CorporationModel } from '../models/Corporation';
+import { InventoryModel } from '../models/Inventory';
+import { TransactionModel } from '../models/Transaction';
+import { InventoryItemType, roundQuantity } from '../constants/inventory';
+import { getShippingCostPct } from '../constants/logistics';
+import { roundToCents } from '../constants/orders';
+import { getErrorMessage } from '../utils';
+import { TradeSettlementError } from './TradeSettlementService';
+
+export interface PlaceCommodityOrderParams {
+  corporationId: number;
+  userId: number;
+  item: string;
+  itemType: InventoryItemType;
+  stateCode: string;
+  side: CommodityOrderSide;
+  quantity: number;
+  limitPrice: number;
+  expiresAt: Date;
+}
+
+export interface CommodityOrderFill {
+  trade_id: number;
+  buy_order_id: number;
+  sell_order_id: number;
+  buyer_corporation_id: number;
+  seller_corporation_id: number;
+  quantity: number;
+  price: number;
+  total_amount: number;
+  shipping_cost: number;
+}
+
+export interface PlaceCommodityOrderResult {
+  order: CommodityOrder;
+  fills: CommodityOrderFill[];
+}
+
+/**
+ * Corporation-to-corporation spot markets for resources and products.
+ *
+ * Works like the share order book: incoming orders match resting orders on the other
+ * side by price-time priority at the resting order's price, and any remainder rests
+ * until it is filled, cancelled or expires. Sellers escrow physical stock out of their
+ * inventory, buyers escrow capital, and each fill delivers stock into the buyer's
+ * inventory carried at the traded price. Orders from every state trade in one national
+ * book; the buyer pays to ship stock from the seller's state to its own, and carries
+ * the shipping in the stock's value.
+ */
+export class CommodityMarketService {
+  static async placeOrder(params: PlaceCommodityOrderParams): Promise<PlaceCommodityOrderResult> {
+    const { corporationId, userId, item, itemType, stateCode, side, quantity, limitPrice, expiresAt } = params;
+
+    // Take escrow up front so fills never depend on capital or stock changing later
+    let order = await withTransaction(async (session) => {
+      let reservedValue = 0;
+      if (side === 'buy') {
+        const debited = await CorporationModel.debitCapital(corporationId, limitPrice * quantity, session);
+        if (!debited) throw new TradeSettlementError('Insufficient capital');
+      } else {
+        const withdrawn = await InventoryModel.withdraw(corporationId, stateCode, item, quantity, session);
+        if (withdrawn === null) throw new TradeSettlementError(`Insufficient ${item} in stock in ${stateCode}`);
+        reservedValue = withdrawn;
+      }
+
+      return await CommodityOrderModel.create({
+        corporation_id: corporationId,
+        user_id: userId,
+        item,
+        item_type: itemType,
+        state_code: stateCode,
+        side,
+        limit_price: limitPrice,
+        quantity,
+        reserved_value: reservedValue,
+        expires_at: expiresAt,
+      }, session);
+    });
+
+    const fills: CommodityOrderFill[] = [];
+    const restingOrders = await CommodityOrderModel.findMatchingOrders(item, side, limitPrice, corporationId);
+
+    // The order is placed once its escrow is taken; a fill that fails rolls back on its
+    // own and leaves the rest of the order resting, so it never fails the placement
+    for (const resting of restingOrders) {
+      if (order.remaining_quantity <= 0) break;
+
+      const fillQuantity = Math.min(order.remaining_quantity, resting.remaining_quantity);
+      try {
+        const result = await this.executeFill(order, resting, fillQuantity);
+        if (!result) continue;
+
+        order = result.taker;
+        fills.push(result.fill);
+      } catch (err: unknown) {
+        console.warn(`[SpotMarket] Failed to fill order ${order.id} against order ${resting.id}:`, getErrorMessage(err));
+        const current = await CommodityOrderModel.findById(order.id);
+        if (!current || current.status !== 'open') break;
+        order = current;
+      }
+    }
+
+    return { order, fills };
+  }
+
+  /**
+   * Cancel an open order and release its escrow. Returns null if it was no longer open.
+   */
+  static async cancelOrder(orderId: number): Promise<CommodityOrder | null> {
+    const closed = await withTransaction(async (session) => {
+      const open = await CommodityOrderModel.close(orderId, 'cancelled', session);
+      if (open) await this.releaseEscrow(open, session);
+      return open;
+    });
+    if (!closed) return null;
+
+    return await CommodityOrderModel.findById(orderId);
+  }
+
+  /**
+   * Cancel every open order of a corporation and release their escrow, in the caller's
+   * transaction (a merger retiring the corporation)
+   */
+  static async cancelCorporationOrders(corporationId: number, session: ClientSession): Promise<number> {
+    let count = 0;
+    for (const order of await CommodityOrderModel.findOpenByCorporation(corporationId, session)) {
+      const open = await CommodityOrderModel.close(order.id, 'cancelled', session);
+      if (!open) continue;
+      await this.releaseEscrow(open, session);
+      count++;
+    }
+    return count;
+  }
+
+  /**
+   * Expire all open orders past their expiry time and release their escrow
+   */
+  static async expireOrders(now: Date = new Date()): Promise<number> {
+    const expired = await CommodityOrderModel.findExpired(now);
+    let count = 0;
+
+    for (const order of expired) {
+      const closed = await withTransaction(async (session) => {
+        const open = await CommodityOrderModel.close(order.id, 'expired', session);
+        if (open) await this.releaseEscrow(open, session);
+        return open;
+      });
+      if (closed) count++;
+    }
+
+    return count;
+  }
+
+  /**
+   * Fill `quantity` between the incoming (taker) order and a resting order at the
+   * resting order's limit price, as one transaction. Returns null if the resting
+   * order was filled or closed in the meantime.
+   */
+  private static async executeFill(
+    taker: CommodityOrder,
+    resting: CommodityOrder,
+    quantity: number
+  ): Promise<{ taker: CommodityOrder; fill: CommodityOrderFill } | null> {
+    const price = resting.limit_price;
+    const buyOrder = taker.side === 'buy' ? taker : resting;
+    const sellOrder = taker.side === 'sell' ? taker : resting;
+    const isFinalBuyFill = buyOrder.remaining_quantity === quantity;
+    const isFinalSellFill = sellOrder.remaining_quantity === quantity;
+
+    // Release escrow pro rata; the final fill of each order releases whatever is left
+    const releasedCash = isFinalBuyFill ? buyOrder.reserved_cash : buyOrder.limit_price * quantity;
+    const releasedValue = isFinalSellFill
+      ? sellOrder.reserved_value
+      : sellOrder.reserved_value * (quantity / sellOrder.remaining_quantity);
+
+    const restingCash = resting.side === 'buy' ? releasedCash : 0;
+    const takerCash = taker.side === 'buy' ? releasedCash : 0;
+    const restingValue = resting.side === 'sell' ? releasedValue : 0;
+    const takerValue = taker.side === 'sell' ? releasedValue : 0;
+
+    const totalAmount = roundToCents(price * quantity);
+    const refund = releasedCash - totalAmount;
+    const shippingCost = roundToCents(totalAmount * getShippingCostPct(sellOrder.state_code, buyOrder.state_code) / 100);
+
+    return await withTransaction(async (session) => {
+      const updatedResting = await CommodityOrderModel.applyFill(resting.id, quantity, restingCash, restingValue, session);
+      if (!updatedResting) return null;
+
+      const updatedTaker = await CommodityOrderModel.applyFill(taker.id, quantity, takerCash, takerValue, session);
+      if (!updatedTaker) {
+        throw new Error(`Order ${taker.id} changed while it was being matched`);
+      }
+
+      // The seller is paid and books the gain over the stock's cost; the buyer carries it at the traded price
+      await CorporationModel.incrementCapital(sellOrder.corporation_id, totalAmount, session);
+      await CorporationModel.accrueEarnings(sellOrder.corporation_id, totalAmount - releasedValue, session);
+      if (refund > 0) {
+        await CorporationModel.incrementCapital(buyOrder.corporation_id, refund, session);
+      }
+      // Shipping is paid on top of the escrowed price
+      if (shippingCost > 0 && !await CorporationModel.debitCapital(buyOrder.corporation_id, shippingCost, session)) {
+        throw new TradeSettlementError(`Insufficient capital to ship ${buyOrder.item} from ${sellOrder.state_code} to ${buyOrder.state_code}`);
+      }
+      await InventoryModel.adjust(
+        buyOrder.corporation_id,
+        buyOrder.state_code,
+        buyOrder.item,
+        buyOrder.item_type,
+        quantity,
+        totalAmount + shippingCost,
+        session
+      );
+
+      const trade = await CommodityTradeModel.create({
+        item: buyOrder.item,
+        item_type: buyOrder.item_type,
+        buy_order_id: buyOrder.id,
+        sell_order_id: sellOrder.id,
+        buyer_corporation_id: buyOrder.corporation_id,
+        seller_corporation_id: sellOrder.corporation_id,
+        quantity,
+        price,
+        total_amount: totalAmount,
+      }, session);
+
+      await TransactionModel.create({
+        transaction_type: 'commodity_trade',
+        amount: totalAmount,
+        from_user_id: buyOrder.user_id,
+        to_user_id: sellOrder.user_id,
+        corporation_id: buyOrder.corporation_id,
+        description: `Bought ${roundQuantity(quantity)} ${buyOrder.item} at $${price.toFixed(2)}/unit from corporation #${sellOrder.corporation_id} (orders #${buyOrder.id} / #${sellOrder.id})`,
+        reference_id: trade.id,
+        reference_type: 'commodity_trade',
+      }, session);
+
+      if (shippingCost > 0) {
+        await TransactionModel.create({
+          transaction_type: 'shipping',
+          amount: shippingCost,
+          from_user_id: buyOrder.user_id,
+          corporation_id: buyOrder.corporation_id,
+          description: `Shipped ${roundQuantity(quantity)} ${buyOrder.item} from ${sellOrder.state_code} to ${buyOrder.state_code} (commodity trade #${trade.id})`,
+          reference_id: trade.id,
+          reference_type: 'commodity_trade',
+        }, session);
+      }
+
+      return {
+        taker: updatedTaker,
+        fill: {
+          trade_id: trade.id,
+          buy_order_id: buyOrder.id,
+          sell_order_id: sellOrder.id,
+          buyer_corporation_id: buyOrder.corporation_id,
+          seller_corporation_id: sellOrder.corporation_id,
+          quantity,
+          price,
+          total_amount: totalAmount,
+          shipping_cost: shippingCost,
+        },
+      };
+    });
+  }
+
+  private static async releaseEscrow(order: CommodityOrder, session: ClientSession): Promise<void> {
+    if (order.side === 'buy') {
+      if (order.reserved_cash > 0) {
+        await CorporationModel.incrementCapital(order.corporation_id, order.reserved_cash, session);
+      }
+    } else if (order.remaining_quantity > 0) {
+      await InventoryModel.adjust(
+        order.corporation_id,
+        order.state_code,
+        order.item,
+        order.item_type,
+        order.remaining_quantity,
+        order.reserved_value,
+        session
+      );
+    }
+  }
+}
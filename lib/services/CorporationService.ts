@@ -72,7 +72,8 @@ export class CorporationService {
     const db = getDb();
 
     // Build query
-    const query: Filter<Corporation> = {};
+    // Corporations merged into another are retired and no longer listed
+    const query: Filter<Corporation> = { retired_at: null };
 
     if (sector) {
       query.type = sector;
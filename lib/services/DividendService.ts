@@ -0,0 +1,184 @@
+import { withTransaction } from '../db/mongo';
+import { Corporation, CorporationModel } from '../models/Corporation';
+import { DividendPayout, DividendPayoutModel, DividendEntitlement } from '../models/DividendPayout';
+import { ShareholderModel } from '../models/Shareholder';
+import { ShortPositionModel } from '../models/ShortPosition';
+import { TransactionModel } from '../models/Transaction';
+import { UserModel } from '../models/User';
+import { DIVIDEND_CONFIG, calculateDividendPerShare } from '../constants/dividends';
+import { NotificationService } from './NotificationService';
+import { formatCash } from '../utils';
+
+export interface DividendRunResult {
+  declared: number;
+  paid: number;
+  totalPaid: number;
+}
+
+/**
+ * Earnings-based dividends.
+ *
+ * A payout is declared at a record date: the holder list is snapshotted, capital is
+ * set aside and the accrued earnings are marked distributed, all in one transaction.
+ * Each entitlement is then paid in its own transaction, so a run that stops part way
+ * through resumes without paying anyone twice.
+ */
+export class DividendService {
+  /**
+   * Declare a dividend for one corporation. Returns null when there is nothing to pay.
+   */
+  static async declare(corp: Corporation, recordDate: Date = new Date()): Promise<DividendPayout | null> {
+    const earnings = corp.undistributed_earnings ?? 0;
+    const dividendPerShare = calculateDividendPerShare(earnings, corp.dividend_percentage, corp.shares);
+    if (dividendPerShare < DIVIDEND_CONFIG.MIN_DIVIDEND_PER_SHARE) return null;
+
+    return await withTransaction(async (session) => {
+      // The holder list at the record date, read in the transaction that sets the capital aside
+      const shareholders = await ShareholderModel.findByCorporationId(corp.id, session);
+      const shorts = await ShortPositionModel.findAllOpen(session);
+
+      const entitlements: Omit<DividendEntitlement, 'paid'>[] = [];
+      for (const sh of shareholders) {
+        if (sh.shares <= 0) continue;
+        entitlements.push({
+          user_id: sh.user_id,
+          shares: sh.shares,
+          amount: dividendPerShare * sh.shares,
+          short_position_id: null,
+          payer_user_id: null,
+        });
+      }
+
+      // Lent shares sit in the float, so the short seller owes the lender the dividend
+      for (const position of shorts) {
+        if (position.corporation_id !== corp.id) continue;
+        for (const allocation of position.lenders) {
+          entitlements.push({
+            user_id: allocation.user_id,
+            shares: allocation.shares,
+            amount: dividendPerShare * allocation.shares,
+            short_position_id: position.id,
+            payer_user_id: position.user_id,
+          });
+        }
+      }
+
+      const totalAmount = entitlements
+        .filter(e => e.payer_user_id === null)
+        .reduce((sum, e) => sum + e.amount, 0);
+
+      if (corp.capital - totalAmount < DIVIDEND_CONFIG.MIN_CAPITAL_AFTER_PAYOUT) return null;
+
+      const debited = await CorporationModel.debitCapital(corp.id, totalAmount, session);
+      if (!debited) return null;
+
+      await CorporationModel.markEarningsDistributed(corp.id, earnings, recordDate, session);
+
+      return await DividendPayoutModel.create({
+        corporation_id: corp.id,
+        record_date: recordDate,
+        earnings,
+        dividend_percentage: corp.dividend_percentage,
+        dividend_per_share: dividendPerShare,
+        total_amount: totalAmount,
+        entitlements,
+      }, session);
+    });
+  }
+
+  /**
+   * Pay every unpaid entitlement on a payout and mark it paid. Returns the amount paid.
+   */
+  static async pay(payout: DividendPayout, corporationName: string): Promise<number> {
+    let paid = 0;
+
+    for (let i = 0; i < payout.entitlements.length; i++) {
+      const entitlement = payout.entitlements[i];
+      if (entitlement.paid || entitlement.amount <= 0) continue;
+
+      try {
+        const settled = await withTransaction(async (session) => {
+          const marked = await DividendPayoutModel.markEntitlementPaid(payout.id, i, session);
+          if (!marked) return false;
+
+          if (entitlement.payer_user_id !== null && entitlement.short_position_id !== null) {
+            // Taken from the short seller's cash, or their collateral if cash is short
+            const fromCash = await UserModel.debitCash(entitlement.payer_user_id, entitlement.amount, session);
+            await ShortPositionModel.recordFee(
+              entitlement.short_position_id,
+              entitlement.amount,
+              fromCash ? 0 : entitlement.amount,
+              session
+            );
+          }
+
+          await UserModel.updateCash(entitlement.user_id, entitlement.amount, session);
+
+          await TransactionModel.create({
+            transaction_type: 'dividend',
+            amount: entitlement.amount,
+            description: entitlement.payer_user_id !== null
+              ? `Dividend on ${entitlement.shares} lent ${corporationName} shares ($${payout.dividend_per_share.toFixed(2)}/share)`
+              : `Dividend from ${corporationName} ($${payout.dividend_per_share.toFixed(2)}/share on ${entitlement.shares} shares)`,
+            corporation_id: payout.corporation_id,
+            from_user_id: entitlement.payer_user_id,
+            to_user_id: entitlement.user_id,
+            reference_id: payout.id,
+            reference_type: 'dividend_payout',
+          }, session);
+          return true;
+        });
+        if (settled) {
+          paid += entitlement.amount;
+          await NotificationService.notify([entitlement.user_id], {
+            category: 'dividend_received',
+            title: `Dividend from ${corporationName}: ${formatCash(entitlement.amount)}`,
+            body: `${formatCash(entitlement.amount)} on ${entitlement.shares} ${entitlement.payer_user_id !== null ? 'lent ' : ''}shares at $${payout.dividend_per_share.toFixed(2)}/share.`,
+            link: `/corporation/${payout.corporation_id}`,
+            corporation_id: payout.corporation_id,
+          });
+        }
+      } catch (err: unknown) {
+        console.error(`Error paying dividend ${payout.id} to user ${entitlement.user_id}:`, err);
+      }
+    }
+
+    const latest = await DividendPayoutModel.findById(payout.id);
+    if (latest && latest.entitlements.every(e => e.paid || e.amount <= 0)) {
+      await DividendPayoutModel.markPaid(payout.id);
+    }
+
+    return paid;
+  }
+
+  /**
+   * Finish any payouts left pending, then declare and pay for every corporation with a dividend policy
+   */
+  static async run(recordDate: Date = new Date()): Promise<DividendRunResult> {
+    const result: DividendRunResult = { declared: 0, paid: 0, totalPaid: 0 };
+    const corporations = await CorporationModel.findAll();
+    const names = new Map(corporations.map(c => [c.id, c.name]));
+
+    for (const pending of await DividendPayoutModel.findPending()) {
+      result.totalPaid += await this.pay(pending, names.get(pending.corporation_id) ?? 'corporation');
+      result.paid++;
+    }
+
+    for (const corp of corporations) {
+      if (corp.dividend_percentage <= 0) continue;
+
+      try {
+        const payout = await this.declare(corp, recordDate);
+        if (!payout) continue;
+        result.declared++;
+
+        result.totalPaid += await this.pay(payout, corp.name);
+        result.paid++;
+      } catch (err: unknown) {
+        console.error(`Error declaring dividend for corp ${corp.id}:`, err);
+      }
+    }
+
+    return result;
+  }
+}
@@ -0,0 +1,179 @@
+import { ChangeStream, ChangeStreamDocument, Document, ResumeToken } from 'mongodb';
+import { getDb } from '../db/mongo';
+import { BoardProposal, BoardProposalModel, BoardVote } from '../models/BoardProposal';
+import { CronRun } from '../models/CronRun';
+import { Message } from '../models/Message';
+import { Notification } from '../models/Notification';
+import { ShareTransaction } from '../models/ShareTransaction';
+import { EVENT_STREAM_CONFIG, EventSubscription, StreamEvent, eventMatches } from '../constants/events';
+import { getErrorMessage } from '../utils';
+
+type Listener = (event: StreamEvent) => void;
+
+// Only committed writes that become events reach this process
+const WATCH_PIPELINE: Document[] = [
+  {
+    $match: {
+      $or: [
+        { operationType: 'insert', 'ns.coll': { $in: ['share_transactions', 'board_proposals', 'board_votes', 'messages'] } },
+        { operationType: 'insert', 'ns.coll': 'notifications', 'fullDocument.held': false },
+        { operationType: 'update', 'ns.coll': 'corporations', 'updateDescription.updatedFields.share_price': { $exists: true } },
+        { operationType: 'update', 'ns.coll': 'board_proposals', 'updateDescription.updatedFields.status': { $in: ['passed', 'failed'] } },
+        { operationType: 'update', 'ns.coll': 'board_votes', 'updateDescription.updatedFields.vote': { $exists: true } },
+        { operationType: 'update', 'ns.coll': 'cron_runs', 'updateDescription.updatedFields.status': { $in: ['succeeded', 'failed'] } },
+      ],
+    },
+  },
+];
+
+/**
+ * Real-time events for connected clients.
+ *
+ * Events are read from a MongoDB change stream over the collections they come from,
+ * so every instance sees every write, whichever instance made it, and writes in
+ * aborted transactions are never announced. One change stream per process is shared
+ * by all of its subscribers; it opens with the first and closes with the last.
+ */
+export class EventStreamService {
+  private static listeners = new Set<Listener>();
+  private static stream: ChangeStream | null = null;
+  private static resumeToken: ResumeToken | null = null;
+  private static retryTimer: ReturnType<typeof setTimeout> | null = null;
+  private static retryDelay: number = EVENT_STREAM_CONFIG.RECONNECT_MIN_MS;
+
+  /**
+   * Receive the events a subscription matches. Returns the unsubscribe function.
+   */
+  static subscribe(subscription: EventSubscription, listener: Listener): () => void {
+    const filtered: Listener = (event) => {
+      if (eventMatches(event, subscription)) listener(event);
+    };
+    this.listeners.add(filtered);
+    this.open();
+
+    return () => {
+      this.listeners.delete(filtered);
+      if (this.listeners.size === 0) this.close();
+    };
+  }
+
+  private static open(): void {
+    if (this.stream || this.retryTimer) return;
+
+    const stream = getDb().watch(WATCH_PIPELINE, {
+      fullDocument: 'updateLookup',
+      ...(this.resumeToken ? { resumeAfter: this.resumeToken } : {}),
+    });
+    this.stream = stream;
+
+    stream.on('change', (change: ChangeStreamDocument) => {
+      this.resumeToken = change._id;
+      this.retryDelay = EVENT_STREAM_CONFIG.RECONNECT_MIN_MS;
+      toStreamEvent(change)
+        .then(event => {
+          if (event) this.listeners.forEach(listener => listener(event));
+        })
+        .catch((error: unknown) => console.error('[Events] Failed to read change:', getErrorMessage(error)));
+    });
+
+    stream.on('error', (error: unknown) => {
+      console.error('[Events] Change stream failed:', getErrorMessage(error));
+      if (this.stream !== stream) return;
+      this.stream = null;
+      stream.close().catch(() => undefined);
+      if (this.listeners.size === 0) return;
+
+      // Resume where the failed stream stopped, so no committed event is skipped
+      this.retryTimer = setTimeout(() => {
+        this.retryTimer = null;
+        if (this.listeners.size > 0) this.open();
+      }, this.retryDelay);
+      this.retryDelay = Math.min(this.retryDelay * 2, EVENT_STREAM_CONFIG.RECONNECT_MAX_MS);
+    });
+  }
+
+  private static close(): void {
+    if (this.retryTimer) {
+      clearTimeout(this.retryTimer);
+      this.retryTimer = null;
+    }
+    const stream = this.stream;
+    this.stream = null;
+    // The next subscriber starts from now, not from where the last one left off
+    this.resumeToken = null;
+    stream?.close().catch((error: unknown) => console.error('[Events] Failed to close change stream:', getErrorMessage(error)));
+  }
+}
+
+async function toStreamEvent(change: ChangeStreamDocument): Promise<StreamEvent | null> {
+  if (change.operationType !== 'insert' && change.operationType !== 'update') return null;
+  const doc = change.fullDocument;
+  if (!doc) return null;
+  const at = new Date().toISOString();
+
+  switch (change.ns.coll) {
+    case 'share_transactions': {
+      const trade = doc as unknown as ShareTransaction;
+      return {
+        type: 'share_trade',
+        corporation_id: trade.corporation_id,
+        user_id: trade.user_id,
+        transaction_type: trade.transaction_type,
+        shares: trade.shares,
+        price_per_share: trade.price_per_share,
+        at,
+      };
+    }
+    case 'corporations':
+      return { type: 'price_tick', corporation_id: doc.id, share_price: Number(doc.share_price), at };
+    case 'board_proposals': {
+      const proposal = doc as unknown as BoardProposal;
+      if (change.operationType === 'insert') {
+        return {
+          type: 'proposal_created',
+          corporation_id: proposal.corporation_id,
+          proposal_id: proposal.id,
+          proposal_type: proposal.proposal_type,
+          at,
+        };
+      }
+      if (proposal.status === 'active') return null;
+      return { type: 'proposal_resolved', corporation_id: proposal.corporation_id, proposal_id: proposal.id, status: proposal.status, at };
+    }
+    case 'board_votes': {
+      const vote = doc as unknown as BoardVote;
+      const proposal = await BoardProposalModel.findById(vote.proposal_id);
+      if (!proposal) return null;
+      return {
+        type: 'proposal_vote',
+        corporation_id: proposal.corporation_id,
+        proposal_id: vote.proposal_id,
+        voter_id: vote.voter_id,
+        vote: vote.vote,
+        at,
+      };
+    }
+    case 'messages': {
+      const message = doc as unknown as Message;
+      return { type: 'message_received', user_id: message.recipient_id, message_id: message.id, sender_id: message.sender_id, at };
+    }
+    case 'notifications': {
+      const notification = doc as unknown as Notification;
+      return {
+        type: 'notification_created',
+        user_id: notification.user_id,
+        notification_id: notification.id,
+        category: notification.category,
+        title: notification.title,
+        at,
+      };
+    }
+    case 'cron_runs': {
+      const run = doc as unknown as CronRun;
+      if (run.status === 'running') return null;
+      return { type: 'cron_completed', job: run.job, run_id: run.id, status: run.status, at };
+    }
+    default:
+      return null;
+  }
+}
@@ -0,0 +1,200 @@
+import { withTransaction } from '../db/mongo';
+import { MarketEntryModel } from '../models/MarketEntry';
+import { InventoryModel } from '../models/Inventory';
+import { InventoryLedgerModel } from '../models/InventoryLedger';
+import { MarketStockpileModel } from '../models/MarketStockpile';
+import { SupplyContractModel } from '../models/SupplyContract';
+import { CorporationModel } from '../models/Corporation';
+import { TransactionModel } from '../models/Transaction';
+import { ResourceReserveService } from './ResourceReserveService';
+import { ResearchService } from './ResearchService';
+import { SectorConfigRevisionService } from './SectorConfigRevisionService';
+import { ActiveActionEffects, getUnitEconomicsModifier } from '../constants/corporateActions';
+import { NO_RESEARCH } from '../constants/research';
+import {
+  CorporationCycleResult,
+  CycleOutcome,
+  getInventoryItemType,
+  simulateProductionCycle,
+} from '../constants/inventory';
+import { getErrorMessage } from '../utils';
+
+// A corporation's cycle results, and whether its cash flow was posted to capital
+export interface CorporationCycleSettlement extends CorporationCycleResult {
+  posted: boolean;
+}
+
+/**
+ * Physical inventories.
+ *
+ * Every hour the production cycle runs all business units against stock:
+ * extraction and production deposit their output into the corporation's inventory
+ * in that state, consuming units draw their inputs from it (or buy from the market
+ * stockpile), and units whose inputs run out idle. Completed research improves
+ * the units of the corporation that did it. Each corporation's results are
+ * written to the inventory ledger, which the finances route reports from, in the
+ * same transaction as its stock changes and the cash flow credited to capital.
+ */
+export class InventoryService {
+  static async runCycle(
+    actionEffects?: Map<number, ActiveActionEffects[]>,
+    actionNames?: Map<number, string[]>
+  ): Promise<CorporationCycleSettlement[]> {
+    const [entries, inventories, stockpiles, marketData, contracts, reserves, researchModifiers] = await Promise.all([
+      MarketEntryModel.getAllCorporationEntryUnits(),
+      InventoryModel.findAll(),
+      MarketStockpileModel.findAll(),
+      MarketEntryModel.getMarketData(),
+      SupplyContractModel.findActive(),
+      ResourceReserveService.getCycleReserves(),
+      ResearchService.getAllModifiers(),
+    ]);
+
+    const outcome = simulateProductionCycle({
+      entries: entries.map(entry => ({
+        corporation_id: entry.corporation_id,
+        state_code: entry.state_code,
+        sector_type: entry.sector_type,
+        units: {
+          retail: entry.retail_units || 0,
+          production: entry.production_units || 0,
+          service: entry.service_units || 0,
+          extraction: entry.extraction_units || 0,
+        },
+      })),
+      inventories: inventories.map(row => ({
+        corporation_id: row.corporation_id,
+        state_code: row.state_code,
+        item: row.item,
+        quantity: row.quantity,
+        value: row.value,
+      })),
+      stockpiles: Object.fromEntries(stockpiles.map(row => [row.item, row.quantity])),
+      prices: {
+        commodityPrices: marketData.commodityPrices,
+        productPrices: marketData.productPrices,
+      },
+      localPrices: marketData.localPrices,
+      reserves,
+      getModifier: actionEffects?.size
+        ? (corporationId, unitType, stateCode) =>
+          getUnitEconomicsModifier(actionEffects.get(corporationId) ?? [], unitType, stateCode)
+        : undefined,
+      getResearch: researchModifiers.size
+        ? (corporationId, sectorType, unitType) => researchModifiers.get(corporationId)?.[sectorType]?.[unitType]
+          ?? NO_RESEARCH
+        : undefined,
+      // Stock owed under supply contracts is kept back from surplus sales
+      commitments: contracts
+        .filter(contract => contract.source_state_code !== null)
+        .map(contract => ({
+          corporation_id: contract.supplier_corporation_id,
+          state_code: contract.source_state_code!,
+          item: contract.item,
+          quantity: contract.units_per_hour,
+        })),
+    });
+
+    for (const [item, quantity] of Object.entries(outcome.stockpileChanges)) {
+      const itemType = getInventoryItemType(item);
+      if (itemType) {
+        await MarketStockpileModel.adjust(item, itemType, quantity);
+      }
+    }
+
+    // Extraction draws down the state reserves it came from
+    await ResourceReserveService.applyDepletion(outcome.reserveDepletion);
+
+    const changesByCorporation = new Map<number, CycleOutcome['inventoryChanges']>();
+    for (const change of outcome.inventoryChanges) {
+      changesByCorporation.set(change.corporation_id, [...(changesByCorporation.get(change.corporation_id) ?? []), change]);
+    }
+
+    const cycleAt = new Date();
+    const configRevision = await SectorConfigRevisionService.getActiveRevisionId(cycleAt);
+    const settled: CorporationCycleSettlement[] = [];
+    for (const result of outcome.corporations) {
+      try {
+        const posted = await this.settleCorporation(
+          result,
+          changesByCorporation.get(result.corporation_id) ?? [],
+          cycleAt,
+          configRevision,
+          actionNames?.get(result.corporation_id) ?? []
+        );
+        settled.push({ ...result, posted });
+      } catch (error: unknown) {
+        console.error(`[Inventory] Failed to settle the cycle for corp ${result.corporation_id}:`, getErrorMessage(error));
+        settled.push({ ...result, posted: false });
+      }
+    }
+
+    return settled;
+  }
+
+  /**
+   * Write one corporation's cycle: its stock changes, ledger entry, cash flow and
+   * earnings go in together or not at all. Returns whether capital moved.
+   */
+  private static async settleCorporation(
+    result: CorporationCycleResult,
+    inventoryChanges: CycleOutcome['inventoryChanges'],
+    cycleAt: Date,
+    configRevision: number | null,
+    actionNames: string[]
+  ): Promise<boolean> {
+    return await withTransaction(async (session) => {
+      // Stock changes are applied as increments, so trades made while the cycle ran are kept
+      for (const change of inventoryChanges) {
+        await InventoryModel.adjust(
+          change.corporation_id,
+          change.state_code,
+          change.item,
+          change.item_type,
+          change.quantity,
+          change.value,
+          session
+        );
+      }
+
+      await InventoryLedgerModel.create({
+        corporation_id: result.corporation_id,
+        revenue: result.revenue,
+        wholesale_revenue: result.wholesale_revenue,
+        labor_cost: result.labor_cost,
+        purchases: result.purchases,
+        logistics_cost: result.logistics_cost,
+        cost_of_goods_sold: result.cost_of_goods_sold,
+        opening_value: result.opening_value,
+        closing_value: result.closing_value,
+        unit_hours: result.unit_hours,
+        config_revision: configRevision,
+      }, cycleAt, session);
+
+      const { cash_flow, operating_income } = result;
+      if (cash_flow === 0 && operating_income === 0) return false;
+
+      // Cash flow already includes active corporate action effects; the shortfall is subtracted
+      const corp = await CorporationModel.incrementCapital(result.corporation_id, cash_flow, session);
+      if (!corp) return false;
+
+      // Operating income (after the change in stock) feeds the next dividend
+      await CorporationModel.accrueEarnings(result.corporation_id, operating_income, session);
+
+      const idleUnits = Object.values(result.unit_hours)
+        .reduce((sum, hours) => sum + hours.scheduled - hours.operated, 0);
+      const actionNote = actionNames.length > 0 ? ` (${actionNames.join(', ')})` : '';
+      const idleNote = idleUnits >= 0.01 ? ` - ${idleUnits.toFixed(2)} units idle for lack of inputs` : '';
+
+      await TransactionModel.create({
+        corporation_id: result.corporation_id,
+        transaction_type: cash_flow >= 0 ? 'market_revenue' : 'market_cost',
+        amount: Math.abs(cash_flow),
+        description: `Hourly market ${cash_flow >= 0 ? 'revenue' : 'costs'}${actionNote}${idleNote}`,
+        from_user_id: null // System transaction
+      }, session);
+
+      return true;
+    });
+  }
+}
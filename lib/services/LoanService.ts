@@ -0,0 +1,154 @@
+import { withTransaction } from '../db/mongo';
+import { LoanModel, Loan, LoanInput } from '../models/Loan';
+import { CorporationModel } from '../models/Corporation';
+import { TransactionModel } from '../models/Transaction';
+import { LOAN_CONFIG } from '../constants/loans';
+
+export class LoanError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'LoanError';
+  }
+}
+
+function formatCost(cost: number): string {
+  return `$${cost.toLocaleString('en-US', { minimumFractionDigits: 2, maximumFractionDigits: 2 })}`;
+}
+
+/**
+ * Corporate loans.
+ *
+ * Every movement of capital against a loan runs in one session transaction with the
+ * loan update and its ledger entry, so a failed step never leaves capital moved
+ * without the loan (or the loan without the capital).
+ */
+export class LoanService {
+  /**
+   * Open a loan and disburse its principal into capital. Enforces the active loan limit
+   * inside the transaction, so concurrent requests cannot exceed it.
+   */
+  static async disburse(input: LoanInput): Promise<Loan> {
+    return await withTransaction(async (session) => {
+      // Written first so concurrent disbursements conflict and retry, and the count below sees them
+      const corp = await CorporationModel.incrementCapital(input.corporation_id, input.principal, session);
+      if (!corp) {
+        throw new LoanError('Corporation not found');
+      }
+
+      const activeLoans = await LoanModel.countByCorporationId(input.corporation_id, 'active', session);
+      if (activeLoans >= LOAN_CONFIG.MAX_ACTIVE_LOANS) {
+        throw new LoanError(`Corporations may have at most ${LOAN_CONFIG.MAX_ACTIVE_LOANS} active loans`);
+      }
+
+      const loan = await LoanModel.create(input, session);
+
+      await TransactionModel.create({
+        transaction_type: 'loan_disbursement',
+        amount: input.principal,
+        from_user_id: input.requested_by,
+        corporation_id: input.corporation_id,
+        description: `Loan disbursed - ${formatCost(input.principal)} at ${input.interest_rate}% over ${input.term_months} months`,
+        reference_id: loan.id,
+        reference_type: 'loan',
+      }, session);
+
+      return loan;
+    });
+  }
+
+  /**
+   * Prepay principal from capital. The payment is all principal.
+   */
+  static async prepay(loan: Loan, payment: number, userId: number): Promise<Loan> {
+    return await withTransaction(async (session) => {
+      const debited = await CorporationModel.debitCapital(loan.corporation_id, payment, session);
+      if (!debited) {
+        throw new LoanError('Insufficient capital');
+      }
+
+      const updated = await LoanModel.applyPayment(loan.id, 0, payment, LOAN_CONFIG.PAID_OFF_THRESHOLD, session);
+      if (!updated) {
+        throw new LoanError('Loan is no longer active, or the payment exceeds what is owed');
+      }
+
+      await TransactionModel.create({
+        transaction_type: 'loan_payment',
+        amount: payment,
+        from_user_id: userId,
+        corporation_id: loan.corporation_id,
+        description: `Loan #${loan.id} ${updated.status === 'paid' ? 'paid off' : 'principal prepayment'}`,
+        reference_id: loan.id,
+        reference_type: 'loan',
+      }, session);
+
+      return updated;
+    });
+  }
+
+  /**
+   * Collect one scheduled payment from capital (for the servicing cron job).
+   * Returns null, changing nothing, when capital cannot cover it.
+   */
+  static async collectPayment(loan: Loan, payment: number, interest: number): Promise<Loan | null> {
+    const principalPortion = Math.max(0, payment - interest);
+
+    return await withTransaction(async (session) => {
+      const debited = await CorporationModel.debitCapital(loan.corporation_id, payment, session);
+      if (!debited) return null;
+
+      const updated = await LoanModel.applyPayment(loan.id, payment - principalPortion, principalPortion, LOAN_CONFIG.PAID_OFF_THRESHOLD, session);
+      if (!updated) {
+        throw new LoanError(`Loan #${loan.id} changed while its payment was being collected`);
+      }
+
+      await TransactionModel.create({
+        corporation_id: loan.corporation_id,
+        transaction_type: 'loan_payment',
+        amount: payment,
+        description: `Loan #${loan.id} payment (interest ${interest.toFixed(2)}, principal ${principalPortion.toFixed(2)})`,
+        reference_id: loan.id,
+        reference_type: 'loan',
+      }, session);
+
+      return updated;
+    });
+  }
+
+  /**
+   * Default a loan after too many missed payments: seize whatever capital remains toward
+   * the balance and write off the rest.
+   */
+  static async defaultLoan(loan: Loan): Promise<{ loan: Loan; seized: number }> {
+    return await withTransaction(async (session) => {
+      const corp = await CorporationModel.findById(loan.corporation_id, session);
+      if (!corp) {
+        throw new LoanError('Corporation not found');
+      }
+
+      const capital = typeof corp.capital === 'string' ? parseFloat(corp.capital) : corp.capital;
+      const seized = Math.max(0, Math.min(capital, loan.outstanding_principal));
+      if (seized > 0) {
+        const debited = await CorporationModel.debitCapital(corp.id, seized, session);
+        if (!debited) {
+          throw new LoanError(`Capital changed while loan #${loan.id} was being defaulted`);
+        }
+      }
+
+      const defaulted = await LoanModel.markDefaulted(loan.id, seized, session);
+      if (!defaulted) {
+        throw new LoanError(`Loan #${loan.id} is no longer active`);
+      }
+
+      await TransactionModel.create({
+        corporation_id: corp.id,
+        transaction_type: 'loan_default',
+        amount: seized,
+        description: `Loan #${loan.id} defaulted - ${seized.toFixed(2)} seized, ${(loan.outstanding_principal - seized).toFixed(2)} written off`,
+        reference_id: loan.id,
+        reference_type: 'loan',
+      }, session);
+
+      return { loan: defaulted, seized };
+    });
+  }
+}
@@ -0,0 +1,229 @@
+import { CorporationModel, Corporation } from '../models/Corporation';
+import { ShareholderModel } from '../models/Shareholder';
+import { SharePriceHistoryModel } from '../models/SharePriceHistory';
+import { MarketIndexHistoryModel } from '../models/MarketIndexHistory';
+import { RESOURCES, isValidSector } from '../constants/sectors';
+import { getPriceChangePercent } from '../constants/watchlists';
+import {
+  MARKET_INDEX_CONFIG,
+  MARKET_INDEX_KEYS,
+  IndexConstituent,
+  MarketIndexKey,
+  getBenchmarkIndexKey,
+  getCapWeightedConstituents,
+  getEqualWeightedConstituents,
+  getMarketIndexName,
+  getMarketIndexSymbol,
+  getNextIndexLevel,
+  getRelativePerformance,
+  getSectorIndexKey,
+} from '../constants/marketIndices';
+import { getErrorMessage } from '../utils';
+
+export interface MarketIndexSummary {
+  index_key: MarketIndexKey;
+  name: string;
+  symbol: string;
+  level: number;
+  change_percent: number | null;   // Over the last day
+  constituent_count: number;
+  recorded_at: Date;
+}
+
+export interface BenchmarkPeriod {
+  label: string;
+  hours: number;
+  change_percent: number | null;
+  benchmark_change_percent: number | null;
+  relative_percent: number | null;  // Positive when the benchmark was beaten
+}
+
+export interface CorporationBenchmark {
+  corporation_id: number;
+  index_key: MarketIndexKey;
+  index_name: string;
+  periods: BenchmarkPeriod[];
+}
+
+export interface PortfolioHoldingBenchmark extends CorporationBenchmark {
+  corporation_name: string;
+  value: number;
+}
+
+export interface PortfolioBenchmark {
+  index_key: MarketIndexKey;
+  index_name: string;
+  periods: BenchmarkPeriod[];       // The holdings as they are now, weighted by current value
+  holdings: PortfolioHoldingBenchmark[];
+}
+
+/**
+ * Market indices and benchmarks.
+ *
+ * The all-corporation and sector indices are cap-weighted over listed corporations; the
+ * commodity basket weighs every resource equally. Indices are recorded by cron alongside
+ * the market price history and chain-linked between recordings, so listings, mergers and
+ * share issuance never move an index on their own. Corporations and portfolios are
+ * measured against the index of their sector.
+ */
+export class MarketIndexService {
+  /**
+   * Record every index at current share and resource prices
+   */
+  static async recordIndices(commodityPrices: Record<string, number>): Promise<number> {
+    const corporations = await CorporationModel.findAll();
+
+    const bySector = new Map<MarketIndexKey, Corporation[]>();
+    for (const corp of corporations) {
+      if (!corp.type || !isValidSector(corp.type)) continue;
+      const key = getSectorIndexKey(corp.type);
+      bySector.set(key, [...(bySector.get(key) ?? []), corp]);
+    }
+
+    const basketPrices = Object.fromEntries(RESOURCES.map(resource => [resource, commodityPrices[resource] || 0]));
+    const indices: Array<[MarketIndexKey, IndexConstituent[]]> = [
+      ['market', getCapWeightedConstituents(corporations)],
+      ['commodities', getEqualWeightedConstituents(basketPrices)],
+      ...[...bySector.entries()].map(([key, members]): [MarketIndexKey, IndexConstituent[]] => [key, getCapWeightedConstituents(members)]),
+    ];
+
+    let recorded = 0;
+    for (const [indexKey, constituents] of indices) {
+      if (constituents.length === 0) continue;
+      try {
+        const previous = await MarketIndexHistoryModel.findLatest(indexKey);
+        await MarketIndexHistoryModel.create({
+          index_key: indexKey,
+          level: getNextIndexLevel(previous, constituents),
+          constituents,
+        });
+        recorded++;
+      } catch (err: unknown) {
+        console.error(`[Cron] Error recording index ${indexKey}:`, getErrorMessage(err));
+      }
+    }
+    return recorded;
+  }
+
+  /**
+   * The latest level of every recorded index, with its change over the last day
+   */
+  static async getIndexSummaries(): Promise<MarketIndexSummary[]> {
+    const summaries = await Promise.all(MARKET_INDEX_KEYS.map(async (indexKey): Promise<MarketIndexSummary | null> => {
+      const [latest, dayAgo] = await Promise.all([
+        MarketIndexHistoryModel.findLatest(indexKey),
+        MarketIndexHistoryModel.getLevelFromHoursAgo(indexKey, 24),
+      ]);
+      if (!latest) return null;
+      return {
+        index_key: indexKey,
+        name: getMarketIndexName(indexKey),
+        symbol: getMarketIndexSymbol(indexKey),
+        level: latest.level,
+        change_percent: getPriceChangePercent({ price: latest.level, previous: dayAgo }),
+        constituent_count: latest.constituents.length,
+        recorded_at: latest.recorded_at,
+      };
+    }));
+    return summaries.filter((summary): summary is MarketIndexSummary => summary !== null);
+  }
+
+  /**
+   * A corporation's share price performance against its sector index
+   */
+  static async getCorporationBenchmark(corporationId: number): Promise<CorporationBenchmark | null> {
+    const corp = await CorporationModel.findById(corporationId);
+    if (!corp) return null;
+
+    const indexKey = getBenchmarkIndexKey(corp.type);
+    const [changes, benchmarkChanges] = await Promise.all([
+      this.getShareChanges(corp),
+      this.getIndexChanges(indexKey),
+    ]);
+
+    return {
+      corporation_id: corp.id,
+      index_key: indexKey,
+      index_name: getMarketIndexName(indexKey),
+      periods: toPeriods(changes, benchmarkChanges),
+    };
+  }
+
+  /**
+   * A user's holdings against their sector indices, and the portfolio against the market
+   */
+  static async getPortfolioBenchmark(userId: number): Promise<PortfolioBenchmark> {
+    const holdings = (await ShareholderModel.findByUserId(userId)).filter(holding => holding.shares > 0);
+    const corporations = await CorporationModel.findByIds(holdings.map(holding => holding.corporation_id));
+    const corpMap = new Map(corporations.map(corp => [corp.id, corp]));
+
+    const held = holdings
+      .map(holding => ({ holding, corp: corpMap.get(holding.corporation_id) }))
+      .filter((entry): entry is { holding: typeof entry.holding; corp: Corporation } => entry.corp !== undefined);
+
+    const indexKeys = [...new Set<MarketIndexKey>(['market', ...held.map(({ corp }) => getBenchmarkIndexKey(corp.type))])];
+    const indexChanges = new Map(await Promise.all(
+      indexKeys.map(async (indexKey) => [indexKey, await this.getIndexChanges(indexKey)] as const)
+    ));
+
+    const holdingBenchmarks = await Promise.all(held.map(async ({ holding, corp }): Promise<PortfolioHoldingBenchmark & { changes: Array<number | null> }> => {
+      const indexKey = getBenchmarkIndexKey(corp.type);
+      const changes = await this.getShareChanges(corp);
+      return {
+        corporation_id: corp.id,
+        corporation_name: corp.name,
+        value: holding.shares * Number(corp.share_price),
+        index_key: indexKey,
+        index_name: getMarketIndexName(indexKey),
+        periods: toPeriods(changes, indexChanges.get(indexKey) as Array<number | null>),
+        changes,
+      };
+    }));
+
+    // Value-weighted over the holdings with a price for the period
+    const portfolioChanges = MARKET_INDEX_CONFIG.BENCHMARK_PERIODS.map((_, i) => {
+      const priced = holdingBenchmarks.filter(holding => holding.changes[i] !== null && holding.value > 0);
+      const totalValue = priced.reduce((sum, holding) => sum + holding.value, 0);
+      if (totalValue === 0) return null;
+      return priced.reduce((sum, holding) => sum + (holding.changes[i] as number) * holding.value, 0) / totalValue;
+    });
+
+    return {
+      index_key: 'market',
+      index_name: getMarketIndexName('market'),
+      periods: toPeriods(portfolioChanges, indexChanges.get('market') as Array<number | null>),
+      holdings: holdingBenchmarks
+        .map(({ changes: _changes, ...holding }) => holding)
+        .sort((a, b) => b.value - a.value),
+    };
+  }
+
+  // Share price change over each benchmark period
+  private static async getShareChanges(corp: Corporation): Promise<Array<number | null>> {
+    return await Promise.all(MARKET_INDEX_CONFIG.BENCHMARK_PERIODS.map(async (period) => {
+      const previous = await SharePriceHistoryModel.getPriceFromHoursAgo(corp.id, period.hours);
+      return getPriceChangePercent({ price: Number(corp.share_price), previous: previous !== null ? Number(previous) : null });
+    }));
+  }
+
+  // Index level change over each benchmark period
+  private static async getIndexChanges(indexKey: MarketIndexKey): Promise<Array<number | null>> {
+    const latest = await MarketIndexHistoryModel.findLatest(indexKey);
+    if (!latest) return MARKET_INDEX_CONFIG.BENCHMARK_PERIODS.map(() => null);
+
+    return await Promise.all(MARKET_INDEX_CONFIG.BENCHMARK_PERIODS.map(async (period) => {
+      const previous = await MarketIndexHistoryModel.getLevelFromHoursAgo(indexKey, period.hours);
+      return getPriceChangePercent({ price: latest.level, previous });
+    }));
+  }
+}
+
+function toPeriods(changes: Array<number | null>, benchmarkChanges: Array<number | null>): BenchmarkPeriod[] {
+  return MARKET_INDEX_CONFIG.BENCHMARK_PERIODS.map((period, i) => ({
+    label: period.label,
+    hours: period.hours,
+    change_percent: changes[i],
+    benchmark_change_percent: benchmarkChanges[i],
+    relative_percent: getRelativePerformance(changes[i], benchmarkChanges[i]),
+  }));
+}
@@ -0,0 +1,356 @@
+import { ClientSession } from 'mongodb';
+import { getDb, withTransaction } from '../db/mongo';
+import { MergerModel, Merger, ConvertedHolding } from '../models/Merger';
+import { CorporationModel, Corporation } from '../models/Corporation';
+import { ShareholderModel } from '../models/Shareholder';
+import { CorporateHoldingModel, CorporateHolding } from '../models/CorporateHolding';
+import { MarketEntryModel, MarketEntry } from '../models/MarketEntry';
+import { BusinessUnitModel, UnitType } from '../models/BusinessUnit';
+import { ShortPositionModel } from '../models/ShortPosition';
+import { TenderOfferModel } from '../models/TenderOffer';
+import { DividendPayoutModel } from '../models/DividendPayout';
+import { SalaryLedgerModel } from '../models/SalaryLedger';
+import { LoanModel } from '../models/Loan';
+import { SupplyContractModel } from '../models/SupplyContract';
+import { InventoryModel } from '../models/Inventory';
+import { CorporationResearchModel } from '../models/CorporationResearch';
+import { TransactionModel } from '../models/Transaction';
+import { NotificationService } from './NotificationService';
+import { OrderBookService } from './OrderBookService';
+import { CommodityMarketService } from './CommodityMarketService';
+import { SalaryService } from './SalaryService';
+import { getStateSectorCapacity } from '../constants/sectors';
+import { convertShares } from '../constants/mergers';
+
+export class MergerError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'MergerError';
+  }
+}
+
+// Units that did not fit under a state's capacity when two entries were combined
+interface TrimmedUnits {
+  state_code: string;
+  sector_type: string;
+  units: number;
+}
+
+const UNIT_TYPES: UnitType[] = ['production', 'extraction', 'retail', 'service'];
+
+function formatMoney(amount: number): string {
+  return `$${amount.toLocaleString('en-US', { minimumFractionDigits: 2, maximumFractionDigits: 2 })}`;
+}
+
+function effectiveCeoId(corp: Corporation): number {
+  return corp.elected_ceo_id ?? corp.ceo_id;
+}
+
+/**
+ * Mergers of one corporation (the target) into another (the acquirer).
+ *
+ * A merger is proposed on the acquirer's board and mirrored onto the target's board;
+ * it completes once both proposals pass, and is rejected if either fails. On
+ * completion every target share converts into acquirer shares at the exchange ratio,
+ * capital, loans and market entries move to the acquirer (overlapping entries are
+ * combined up to the state's sector capacity), and the target is retired. The target's
+ * completed research carries over; research still in progress is lost with it.
+ */
+export class MergerService {
+  /**
+   * Record a board's approval (called when its merger proposal passes) and complete
+   * the merger once both boards have approved. A merger that can no longer go ahead
+   * is marked failed rather than throwing, since the proposal has already passed.
+   */
+  static async approve(mergerId: number, corporationId: number): Promise<Merger | null> {
+    const merger = await MergerModel.recordApproval(mergerId, corporationId);
+    if (!merger) return null;
+    if (!merger.acquirer_approved_at || !merger.target_approved_at) return merger;
+
+    try {
+      return await this.complete(merger);
+    } catch (err: unknown) {
+      if (!(err instanceof MergerError)) throw err;
+
+      const failed = await MergerModel.close(merger.id, 'failed', err.message);
+      if (failed) {
+        const [acquirer, target] = await Promise.all([
+          CorporationModel.findById(merger.acquirer_corporation_id),
+          CorporationModel.findById(merger.target_corporation_id),
+        ]);
+        const recipients = new Set<number>([merger.proposer_id]);
+        if (acquirer) recipients.add(effectiveCeoId(acquirer));
+        if (target) recipients.add(effectiveCeoId(target));
+        await NotificationService.notify([...recipients], {
+          category: 'merger',
+          title: `Merger Failed: ${target?.name || 'Corporation'}`,
+          body: `Both boards approved the merger of ${target?.name || 'the target'} into ${acquirer?.name || 'the acquirer'}, but it could not be completed: ${err.message}`,
+          link: `/corporation/${merger.acquirer_corporation_id}`,
+          corporation_id: merger.acquirer_corporation_id,
+        });
+      }
+      return failed;
+    }
+  }
+
+  /**
+   * Reject a merger when either board votes its proposal down. The other board's
+   * proposal, if still open, fails with it.
+   */
+  static async reject(mergerId: number): Promise<Merger | null> {
+    const rejected = await MergerModel.close(mergerId, 'rejected');
+    if (!rejected) return null;
+
+    const proposalIds = [rejected.acquirer_proposal_id, rejected.target_proposal_id].filter((id): id is number => id !== null);
+    await getDb().collection('board_proposals').updateMany(
+      { id: { $in: proposalIds }, status: 'active' },
+      { $set: { status: 'failed', resolved_at: new Date() } }
+    );
+
+    return rejected;
+  }
+
+  static async complete(merger: Merger): Promise<Merger> {
+    const [acquirer, target] = await Promise.all([
+      CorporationModel.findById(merger.acquirer_corporation_id),
+      CorporationModel.findById(merger.target_corporation_id),
+    ]);
+    if (!acquirer || acquirer.retired_at) {
+      throw new MergerError('The acquiring corporation no longer exists');
+    }
+    if (!target || target.retired_at) {
+      throw new MergerError('The target corporation no longer exists');
+    }
+
+    await this.assertCanMerge(acquirer, target);
+
+    // The target's CEO is owed their salary before its capital moves to the acquirer
+    await SalaryService.payArrears(target.id);
+    if (await SalaryLedgerModel.getArrearsTotal(target.id) > 0) {
+      throw new MergerError(`${target.name} cannot pay its CEO salary arrears`);
+    }
+
+    const { completed, issued, capital, trimmedUnits, researchTransferred } = await withTransaction(async (session) => {
+      const retired = await CorporationModel.retire(target.id, acquirer.id, session);
+      if (!retired) {
+        throw new MergerError('The target corporation has already been merged');
+      }
+
+      // Resting orders for target shares hold escrow, so release them before the shares convert;
+      // likewise the target's spot orders, so escrowed stock is back in inventory before it transfers
+      await OrderBookService.cancelCorporationOrders(target.id, session);
+      await CommodityMarketService.cancelCorporationOrders(target.id, session);
+
+      const shareholders = await ShareholderModel.findByCorporationId(target.id, session);
+      const targetEntries = await MarketEntryModel.findByCorporationId(target.id, session);
+      const holdingsOfTarget = await CorporateHoldingModel.findByCorporation(target.id, session);
+      const holdingsByTarget = await CorporateHoldingModel.findByHolder(target.id, session);
+
+      // Holders' shares convert at the exchange ratio
+      const converted: ConvertedHolding[] = [];
+      let issued = 0;
+      for (const holder of shareholders) {
+        const newShares = convertShares(holder.shares, merger.exchange_ratio);
+        converted.push({ user_id: holder.user_id, old_shares: holder.shares, new_shares: newShares });
+        if (newShares > 0) {
+          await ShareholderModel.create({ corporation_id: acquirer.id, user_id: holder.user_id, shares: newShares }, session);
+          // Holders who lent their target shares keep lending the converted ones
+          if (holder.lending_enabled) {
+            await ShareholderModel.setLendingEnabled(acquirer.id, holder.user_id, true, session);
+          }
+          issued += newShares;
+        }
+      }
+      await ShareholderModel.deleteByIds(shareholders.map(holder => holder.id), session);
+
+      const publicShares = convertShares(retired.public_shares, merger.exchange_ratio);
+      if (publicShares > 0) {
+        await CorporationModel.incrementPublicShares(acquirer.id, publicShares, session);
+        issued += publicShares;
+      }
+
+      issued += await this.transferHoldings(acquirer.id, merger.exchange_ratio, holdingsOfTarget, holdingsByTarget, session);
+      await CorporationModel.incrementShares(acquirer.id, issued, session);
+
+      // Capital, and earnings not yet paid out as dividends, combine
+      const capital = retired.capital;
+      if (capital !== 0) {
+        await CorporationModel.incrementCapital(acquirer.id, capital, session);
+      }
+      if (retired.undistributed_earnings) {
+        await CorporationModel.accrueEarnings(acquirer.id, retired.undistributed_earnings, session);
+      }
+
+      await LoanModel.reassignOpenLoans(target.id, acquirer.id, session);
+      await SupplyContractModel.reassignOpenContracts(target.id, acquirer.id, session);
+      const researchTransferred = await CorporationResearchModel.transferCompleted(target.id, acquirer.id, new Date(), session);
+
+      const trimmed = await this.consolidateMarketEntries(acquirer.id, targetEntries, session);
+      await InventoryModel.transferCorporation(target.id, acquirer.id, session);
+
+      // The target's board dissolves
+      await getDb().collection('board_appointments').deleteMany({ corporation_id: target.id }, { session });
+      await getDb().collection('board_proposals').updateMany(
+        { corporation_id: target.id, status: 'active' },
+        { $set: { status: 'failed', resolved_at: new Date() } },
+        { session }
+      );
+
+      const completed = await MergerModel.complete(merger.id, {
+        acquirer_ceo_id: effectiveCeoId(acquirer),
+        target_ceo_id: effectiveCeoId(target),
+        converted_holders: converted,
+      }, session);
+      if (!completed) {
+        throw new MergerError('The merger is no longer pending');
+      }
+
+      const trimmedUnits = trimmed.reduce((sum, t) => sum + t.units, 0);
+      const summary = `${issued.toLocaleString()} ${acquirer.name} shares issued at ${merger.exchange_ratio} per ${target.name} share, ${formatMoney(capital)} capital combined`
+        + (trimmedUnits > 0
+          ? `, ${trimmedUnits} units over capacity retired (${trimmed.map(t => `${t.units} in ${t.state_code} ${t.sector_type}`).join(', ')})`
+          : '')
+        + (researchTransferred > 0 ? `, ${researchTransferred} completed research projects transferred` : '');
+
+      await TransactionModel.create({
+        transaction_type: 'merger',
+        amount: capital,
+        corporation_id: acquirer.id,
+        description: `Acquired ${target.name} by merger: ${summary}`,
+        reference_id: merger.id,
+        reference_type: 'merger',
+      }, session);
+      await TransactionModel.create({
+        transaction_type: 'merger',
+        amount: -capital,
+        corporation_id: target.id,
+        description: `Merged into ${acquirer.name}: ${summary}`,
+        reference_id: merger.id,
+        reference_type: 'merger',
+      }, session);
+
+      return { completed, issued, capital, trimmedUnits, researchTransferred };
+    });
+
+    const recipients = new Set<number>([
+      effectiveCeoId(acquirer),
+      effectiveCeoId(target),
+      ...completed.converted_holders.map(h => h.user_id),
+    ]);
+    await NotificationService.notify([...recipients], {
+      category: 'merger',
+      title: `Merger Completed: ${target.name} into ${acquirer.name}`,
+      body: `${target.name} has merged into ${acquirer.name}. Each ${target.name} share was converted into ${merger.exchange_ratio} ${acquirer.name} shares `
+        + `(${issued.toLocaleString()} shares issued) and ${formatMoney(capital)} of capital was combined.`
+        + (trimmedUnits > 0 ? ` ${trimmedUnits} business units exceeded state capacity and were retired.` : '')
+        + (researchTransferred > 0 ? ` ${researchTransferred} completed research projects carried over.` : ''),
+      link: `/corporation/${acquirer.id}`,
+      corporation_id: acquirer.id,
+    });
+
+    return completed;
+  }
+
+  /**
+   * Conditions that must hold when both boards have approved: nothing may still
+   * depend on the target's shares or capital staying where they are.
+   */
+  private static async assertCanMerge(acquirer: Corporation, target: Corporation): Promise<void> {
+    if (await ShortPositionModel.getSharesOnLoan(target.id) > 0) {
+      throw new MergerError(`${target.name} has open short positions`);
+    }
+
+    const offers = await TenderOfferModel.findOpenInvolving([acquirer.id, target.id]);
+    if (offers.length > 0) {
+      throw new MergerError('A tender offer involving one of the corporations is still open');
+    }
+
+    const pendingPayouts = await DividendPayoutModel.findPending();
+    if (pendingPayouts.some(p => p.corporation_id === target.id)) {
+      throw new MergerError(`${target.name} has a dividend payout in progress`);
+    }
+  }
+
+  /**
+   * Move corporate holdings across. Other corporations' stakes in the target convert
+   * like any holder's; the acquirer's own stake in the target is cancelled. Holdings the
+   * target owns pass to the acquirer, except shares of the acquirer itself, which are
+   * cancelled. Returns the net change in the acquirer's outstanding shares.
+   */
+  private static async transferHoldings(
+    acquirerId: number,
+    exchangeRatio: number,
+    holdingsOfTarget: CorporateHolding[],
+    holdingsByTarget: CorporateHolding[],
+    session: ClientSession
+  ): Promise<number> {
+    let issued = 0;
+
+    for (const holding of holdingsOfTarget) {
+      if (holding.holder_corporation_id === acquirerId) continue;
+      const newShares = convertShares(holding.shares, exchangeRatio);
+      if (newShares > 0) {
+        await CorporateHoldingModel.addShares(holding.holder_corporation_id, acquirerId, newShares, session);
+        issued += newShares;
+      }
+    }
+
+    for (const holding of holdingsByTarget) {
+      if (holding.corporation_id === acquirerId) {
+        issued -= holding.shares;
+        continue;
+      }
+      await CorporateHoldingModel.addShares(acquirerId, holding.corporation_id, holding.shares, session);
+    }
+    await CorporateHoldingModel.deleteByIds([...holdingsOfTarget, ...holdingsByTarget].map(holding => holding.id), session);
+
+    return issued;
+  }
+
+  /**
+   * Hand the target's market entries to the acquirer. Where both hold the same state
+   * and sector the units are combined into the acquirer's entry, keeping the total
+   * within the state's sector capacity; units that do not fit are retired.
+   */
+  private static async consolidateMarketEntries(
+    acquirerId: number,
+    targetEntries: MarketEntry[],
+    session: ClientSession
+  ): Promise<TrimmedUnits[]> {
+    const trimmed: TrimmedUnits[] = [];
+
+    for (const entry of targetEntries) {
+      const existing = await MarketEntryModel.findByCorpStateAndSector(acquirerId, entry.state_code, entry.sector_type);
+      if (!existing) {
+        await MarketEntryModel.reassign(entry.id, acquirerId, session);
+        continue;
+      }
+
+      const [ours, theirs] = await Promise.all([
+        BusinessUnitModel.getUnitCounts(existing.id),
+        BusinessUnitModel.getUnitCounts(entry.id),
+      ]);
+      let room = getStateSectorCapacity(entry.state_code) - UNIT_TYPES.reduce((sum, type) => sum + ours[type], 0);
+      let dropped = 0;
+
+      for (const type of UNIT_TYPES) {
+        if (theirs[type] === 0) continue;
+        const kept = Math.max(0, Math.min(theirs[type], room));
+        room -= kept;
+        dropped += theirs[type] - kept;
+        if (kept > 0) {
+          await BusinessUnitModel.setUnitCount(existing.id, type, ours[type] + kept, session);
+        }
+      }
+
+      await BusinessUnitModel.deleteByMarketEntryId(entry.id, session);
+      await MarketEntryModel.delete(entry.id, session);
+
+      if (dropped > 0) {
+        trimmed.push({ state_code: entry.state_code, sector_type: entry.sector_type, units: dropped });
+      }
+    }
+
+    return trimmed;
+  }
+}
@@ -0,0 +1,129 @@
+import { Notification, NotificationModel } from '../models/Notification';
+import { NotificationPreferenceModel } from '../models/NotificationPreference';
+import {
+  NOTIFICATION_CONFIG,
+  NotificationCategory,
+  NotificationPreferences,
+  buildNotificationDigest,
+  getNotificationDelivery,
+} from '../constants/notifications';
+import { getErrorMessage } from '../utils';
+
+export interface NotifyInput {
+  category: NotificationCategory;
+  title: string;
+  body: string;
+  link?: string | null;
+  corporation_id?: number | null;
+}
+
+export interface DigestRunResult {
+  digests: number;
+  released: number;
+  deleted: number;
+}
+
+/**
+ * In-app notifications.
+ *
+ * Game events notify the users they concern here rather than through the message inbox.
+ * Each user chooses per category whether to see notifications as they happen, in a
+ * periodic digest, or not at all.
+ */
+export class NotificationService {
+  /**
+   * Notify users of an event, following each one's preferences. Never throws: a failed
+   * notification must not undo the action that raised it. Returns the number recorded.
+   */
+  static async notify(userIds: number[], input: NotifyInput): Promise<number> {
+    const recipients = [...new Set(userIds)];
+    if (recipients.length === 0) return 0;
+
+    try {
+      const preferences = await NotificationPreferenceModel.findByUserIds(recipients);
+      const docs = recipients.flatMap(userId => {
+        const delivery = getNotificationDelivery(preferences.get(userId) ?? null, input.category);
+        if (delivery === 'muted') return [];
+        return [{
+          user_id: userId,
+          category: input.category,
+          title: input.title,
+          body: input.body,
+          link: input.link ?? null,
+          corporation_id: input.corporation_id ?? null,
+          held: delivery === 'digest',
+        }];
+      });
+
+      return (await NotificationModel.createMany(docs)).length;
+    } catch (err: unknown) {
+      console.warn(`Failed to send ${input.category} notifications:`, getErrorMessage(err));
+      return 0;
+    }
+  }
+
+  static async list(userId: number, unreadOnly: boolean = false): Promise<{ notifications: Notification[]; unread: number }> {
+    const [notifications, unread] = await Promise.all([
+      NotificationModel.findByUserId(userId, NOTIFICATION_CONFIG.LIST_LIMIT, unreadOnly),
+      NotificationModel.countUnread(userId),
+    ]);
+    return { notifications, unread };
+  }
+
+  static async getPreferences(userId: number): Promise<NotificationPreferences> {
+    return await NotificationPreferenceModel.findByUserId(userId);
+  }
+
+  /**
+   * Save a user's preferences. Instant is the default, so it is not stored.
+   */
+  static async updatePreferences(userId: number, preferences: NotificationPreferences): Promise<NotificationPreferences> {
+    const changed = Object.fromEntries(
+      Object.entries(preferences).filter(([, delivery]) => delivery !== 'instant')
+    ) as NotificationPreferences;
+    return await NotificationPreferenceModel.upsert(userId, changed);
+  }
+
+  /**
+   * Send each user with held notifications one digest of them, release the held ones
+   * into their history, and delete notifications past retention.
+   */
+  static async sendDigests(now: Date = new Date()): Promise<DigestRunResult> {
+    const result: DigestRunResult = { digests: 0, released: 0, deleted: 0 };
+
+    const byUser = new Map<number, Notification[]>();
+    for (const notification of await NotificationModel.findHeld()) {
+      byUser.set(notification.user_id, [...(byUser.get(notification.user_id) ?? []), notification]);
+    }
+
+    for (const [userId, held] of byUser) {
+      try {
+        const digest = buildNotificationDigest(held.map(n => ({
+          category: n.category as NotificationCategory,
+          title: n.title,
+        })));
+        if (!digest) continue;
+
+        await NotificationModel.createMany([{
+          user_id: userId,
+          category: 'digest',
+          title: digest.title,
+          body: digest.body,
+          link: null,
+          corporation_id: null,
+          held: false,
+        }]);
+        await NotificationModel.release(held.map(n => n.id));
+        result.digests++;
+        result.released += held.length;
+      } catch (err: unknown) {
+        console.error(`Error sending notification digest to user ${userId}:`, err);
+      }
+    }
+
+    const cutoff = new Date(now.getTime() - NOTIFICATION_CONFIG.RETENTION_DAYS * 24 * 60 * 60 * 1000);
+    result.deleted = await NotificationModel.deleteOlderThan(cutoff);
+
+    return result;
+  }
+}
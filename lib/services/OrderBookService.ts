@@ -0,0 +1,277 @@
+import { ClientSession } from 'mongodb';
+import { withTransaction } from '../db/mongo';
+import { ShareOrderModel, ShareOrder, ShareOrderSide } from '../models/ShareOrder';
+import { ShareholderModel } from '../models/Shareholder';
+import { ShareTransactionModel } from '../models/ShareTransaction';
+import { SharePriceHistoryModel } from '../models/SharePriceHistory';
+import { TransactionModel } from '../models/Transaction';
+import { UserModel } from '../models/User';
+import { CorporationModel } from '../models/Corporation';
+import { updateStockPrice } from '../utils/valuation';
+import { roundToCents } from '../constants/orders';
+import { getErrorMessage } from '../utils';
+import { TradeSettlementError } from './TradeSettlementService';
+
+export interface PlaceOrderParams {
+  corporationId: number;
+  userId: number;
+  side: ShareOrderSide;
+  shares: number;
+  limitPrice: number;
+  expiresAt: Date;
+}
+
+export interface ShareOrderFill {
+  buy_order_id: number;
+  sell_order_id: number;
+  buyer_id: number;
+  seller_id: number;
+  shares: number;
+  price_per_share: number;
+  total_amount: number;
+}
+
+export interface PlaceOrderResult {
+  order: ShareOrder;
+  fills: ShareOrderFill[];
+  new_share_price: number | null;
+}
+
+/**
+ * Player-to-player limit order book for corporation shares.
+ *
+ * Incoming orders are matched against resting orders on the other side by
+ * price-time priority and trade at the resting order's price. Any unfilled
+ * remainder rests in the book until it is filled, cancelled or expires.
+ * Escrow, each fill, and each cancel/expiry run in their own session transaction.
+ */
+export class OrderBookService {
+  static async placeOrder(params: PlaceOrderParams): Promise<PlaceOrderResult> {
+    const { corporationId, userId, side, shares, limitPrice, expiresAt } = params;
+
+    // Take escrow up front so fills never depend on balances changing later
+    let order = await withTransaction(async (session) => {
+      if (side === 'buy') {
+        const debited = await UserModel.debitCash(userId, limitPrice * shares, session);
+        if (!debited) throw new TradeSettlementError('Insufficient funds');
+      } else {
+        const held = await ShareholderModel.decrementShares(corporationId, userId, shares, session);
+        if (!held) throw new TradeSettlementError('Insufficient shares');
+      }
+
+      return await ShareOrderModel.create({
+        corporation_id: corporationId,
+        user_id: userId,
+        side,
+        limit_price: limitPrice,
+        shares,
+        expires_at: expiresAt,
+      }, session);
+    });
+
+    const fills: ShareOrderFill[] = [];
+    const restingOrders = await ShareOrderModel.findMatchingOrders(corporationId, side, limitPrice, userId);
+
+    // The order is placed once its escrow is taken; a fill that fails rolls back on its
+    // own and leaves the rest of the order resting, so it never fails the placement
+    for (const resting of restingOrders) {
+      if (order.remaining_shares <= 0) break;
+
+      const quantity = Math.min(order.remaining_shares, resting.remaining_shares);
+      try {
+        const result = await this.executeFill(order, resting, quantity);
+        if (!result) continue;
+
+        order = result.taker;
+        fills.push(result.fill);
+      } catch (err: unknown) {
+        console.warn(`[OrderBook] Failed to fill order ${order.id} against order ${resting.id}:`, getErrorMessage(err));
+        const current = await ShareOrderModel.findById(order.id);
+        if (!current || current.status !== 'open') break;
+        order = current;
+      }
+    }
+
+    let newSharePrice: number | null = null;
+    if (fills.length > 0) {
+      try {
+        newSharePrice = await this.recordPriceUpdate(corporationId);
+      } catch (err: unknown) {
+        console.warn(`[OrderBook] Failed to update the share price of corporation ${corporationId}:`, getErrorMessage(err));
+      }
+    }
+
+    return { order, fills, new_share_price: newSharePrice };
+  }
+
+  /**
+   * Cancel an open order and release its escrow. Returns null if it was no longer open.
+   */
+  static async cancelOrder(orderId: number): Promise<ShareOrder | null> {
+    const closed = await withTransaction(async (session) => {
+      const open = await ShareOrderModel.close(orderId, 'cancelled', session);
+      if (open) await this.releaseEscrow(open, session);
+      return open;
+    });
+    if (!closed) return null;
+
+    return await ShareOrderModel.findById(orderId);
+  }
+
+  /**
+   * Cancel every open order for a corporation's shares and release their escrow, in the
+   * caller's transaction (a merger retiring the corporation)
+   */
+  static async cancelCorporationOrders(corporationId: number, session: ClientSession): Promise<number> {
+    let count = 0;
+    for (const order of await ShareOrderModel.findOpenByCorporationId(corporationId, session)) {
+      const open = await ShareOrderModel.close(order.id, 'cancelled', session);
+      if (!open) continue;
+      await this.releaseEscrow(open, session);
+      count++;
+    }
+    return count;
+  }
+
+  /**
+   * Expire all open orders past their expiry time and release their escrow
+   */
+  static async expireOrders(now: Date = new Date()): Promise<number> {
+    const expired = await ShareOrderModel.findExpired(now);
+    let count = 0;
+
+    for (const order of expired) {
+      const closed = await withTransaction(async (session) => {
+        const open = await ShareOrderModel.close(order.id, 'expired', session);
+        if (open) await this.releaseEscrow(open, session);
+        return open;
+      });
+      if (closed) count++;
+    }
+
+    return count;
+  }
+
+  /**
+   * Fill `quantity` shares between the incoming (taker) order and a resting order
+   * at the resting order's limit price, as one transaction. Returns null if the
+   * resting order was filled or closed in the meantime.
+   */
+  private static async executeFill(
+    taker: ShareOrder,
+    resting: ShareOrder,
+    quantity: number
+  ): Promise<{ taker: ShareOrder; fill: ShareOrderFill } | null> {
+    const price = resting.limit_price;
+    const buyOrder = taker.side === 'buy' ? taker : resting;
+    const sellOrder = taker.side === 'sell' ? taker : resting;
+
+    // Release the buyer's escrow at their limit price; the final fill releases whatever is left
+    const releasedCash = buyOrder.remaining_shares === quantity
+      ? buyOrder.reserved_cash
+      : buyOrder.limit_price * quantity;
+
+    const restingCash = resting.side === 'buy' ? releasedCash : 0;
+    const takerCash = taker.side === 'buy' ? releasedCash : 0;
+
+    const totalAmount = roundToCents(price * quantity);
+    const refund = releasedCash - totalAmount;
+
+    return await withTransaction(async (session) => {
+      const updatedResting = await ShareOrderModel.applyFill(resting.id, quantity, restingCash, session);
+      if (!updatedResting) return null;
+
+      const updatedTaker = await ShareOrderModel.applyFill(taker.id, quantity, takerCash, session);
+      if (!updatedTaker) {
+        throw new Error(`Order ${taker.id} changed while it was being matched`);
+      }
+
+      await UserModel.updateCash(sellOrder.user_id, totalAmount, session);
+      if (refund > 0) {
+        await UserModel.updateCash(buyOrder.user_id, refund, session);
+      }
+      await ShareholderModel.create({
+        corporation_id: buyOrder.corporation_id,
+        user_id: buyOrder.user_id,
+        shares: quantity,
+      }, session);
+
+      // Record both sides so player prices feed the trade-weighted valuation
+      const buyTransaction = await ShareTransactionModel.create({
+        corporation_id: buyOrder.corporation_id,
+        user_id: buyOrder.user_id,
+        transaction_type: 'buy',
+        shares: quantity,
+        price_per_share: price,
+        total_amount: totalAmount,
+        order_id: buyOrder.id,
+      }, session);
+      await ShareTransactionModel.create({
+        corporation_id: sellOrder.corporation_id,
+        user_id: sellOrder.user_id,
+        transaction_type: 'sell',
+        shares: quantity,
+        price_per_share: price,
+        total_amount: totalAmount,
+        order_id: sellOrder.id,
+      }, session);
+
+      await TransactionModel.create({
+        transaction_type: 'share_trade',
+        amount: totalAmount,
+        from_user_id: buyOrder.user_id,
+        to_user_id: sellOrder.user_id,
+        corporation_id: buyOrder.corporation_id,
+        description: `Traded ${quantity} shares at $${price.toFixed(2)}/share (orders #${buyOrder.id} / #${sellOrder.id})`,
+        reference_id: buyTransaction.id,
+        reference_type: 'share_transaction',
+      }, session);
+
+      return {
+        taker: updatedTaker,
+        fill: {
+          buy_order_id: buyOrder.id,
+          sell_order_id: sellOrder.id,
+          buyer_id: buyOrder.user_id,
+          seller_id: sellOrder.user_id,
+          shares: quantity,
+          price_per_share: price,
+          total_amount: totalAmount,
+        },
+      };
+    });
+  }
+
+  private static async releaseEscrow(order: ShareOrder, session: ClientSession): Promise<void> {
+    if (order.side === 'buy') {
+      if (order.reserved_cash > 0) {
+        await UserModel.updateCash(order.user_id, order.reserved_cash, session);
+      }
+    } else if (order.remaining_shares > 0) {
+      await ShareholderModel.create({
+        corporation_id: order.corporation_id,
+        user_id: order.user_id,
+        shares: order.remaining_shares,
+      }, session);
+    }
+  }
+
+  private static async recordPriceUpdate(corporationId: number): Promise<number> {
+    const newPrice = await updateStockPrice(corporationId);
+
+    const updatedCorp = await CorporationModel.findById(corporationId);
+    if (updatedCorp) {
+      const capital = typeof updatedCorp.capital === 'string'
+        ? parseFloat(updatedCorp.capital)
+        : updatedCorp.capital;
+
+      await SharePriceHistoryModel.create({
+        corporation_id: corporationId,
+        share_price: newPrice,
+        capital,
+      });
+    }
+
+    return newPrice;
+  }
+}
@@ -0,0 +1,100 @@
+import { SharePriceHistoryModel } from '../models/SharePriceHistory';
+import { ShareTransactionModel } from '../models/ShareTransaction';
+import { CommodityPriceHistoryModel } from '../models/CommodityPriceHistory';
+import { ProductPriceHistoryModel } from '../models/ProductPriceHistory';
+import type { InventoryItemType } from '../constants/inventory';
+import {
+  CANDLE_CONFIG,
+  Candle,
+  CandleResolution,
+  CandleSummary,
+  CandleWithIndicators,
+  PriceSample,
+  VolumeSample,
+  buildCandles,
+  formatCandleLabel,
+  getCandleStart,
+  getPeriodMs,
+  summarizeCandles,
+  withIndicators,
+} from '../constants/candles';
+
+export interface CandleSeries {
+  resolution: CandleResolution;
+  candles: Array<CandleWithIndicators & { label: string }>;
+  summary: CandleSummary;
+}
+
+// Earlier candles loaded so the indicators are defined from the first candle returned
+const WARMUP_CANDLES = Math.max(
+  CANDLE_CONFIG.SMA_SLOW_PERIOD,
+  CANDLE_CONFIG.VOLATILITY_PERIOD,
+  CANDLE_CONFIG.RSI_PERIOD
+);
+
+/**
+ * Candles and technical indicators from recorded price history.
+ *
+ * Share candles take their prices from the share price history and their volume and
+ * VWAP from share fills. Resource and product candles take theirs from the hourly
+ * market price history, whose rows carry each hour's spot market volume and average price.
+ */
+export class PriceHistoryService {
+  static async getShareCandles(
+    corporationId: number,
+    resolution: CandleResolution,
+    count: number,
+    now: Date = new Date()
+  ): Promise<CandleSeries> {
+    const { since, from } = getSeriesRange(resolution, count, now);
+    const [history, fills] = await Promise.all([
+      SharePriceHistoryModel.findSince(corporationId, since),
+      ShareTransactionModel.findByCorporationIdSince(corporationId, since),
+    ]);
+
+    const samples: PriceSample[] = history.map(row => ({ at: row.recorded_at, price: Number(row.share_price) }));
+    // Order book fills are recorded once per side; count them once
+    const trades: VolumeSample[] = fills
+      .filter(fill => !(fill.order_id && fill.transaction_type === 'sell'))
+      .map(fill => ({ at: fill.created_at, price: fill.price_per_share, volume: fill.shares }));
+
+    return toSeries(buildCandles(samples, trades, resolution), resolution, from);
+  }
+
+  static async getItemCandles(
+    itemType: InventoryItemType,
+    name: string,
+    resolution: CandleResolution,
+    count: number,
+    now: Date = new Date()
+  ): Promise<CandleSeries> {
+    const { since, from } = getSeriesRange(resolution, count, now);
+    const history = itemType === 'resource'
+      ? await CommodityPriceHistoryModel.findSince(name, since)
+      : await ProductPriceHistoryModel.findSince(name, since);
+
+    const samples: PriceSample[] = history.map(row => ({ at: row.recorded_at, price: Number(row.price) }));
+    const trades: VolumeSample[] = history
+      .filter(row => row.traded_price !== null && row.traded_volume > 0)
+      .map(row => ({ at: row.recorded_at, price: row.traded_price as number, volume: row.traded_volume }));
+
+    return toSeries(buildCandles(samples, trades, resolution), resolution, from);
+  }
+}
+
+// Start of the first candle returned (from), and of the first loaded (since)
+function getSeriesRange(resolution: CandleResolution, count: number, now: Date): { since: Date; from: Date } {
+  const current = getCandleStart(now, resolution).getTime();
+  const periodMs = getPeriodMs(resolution);
+  return {
+    since: new Date(current - (count - 1 + WARMUP_CANDLES) * periodMs),
+    from: new Date(current - (count - 1) * periodMs),
+  };
+}
+
+function toSeries(candles: Candle[], resolution: CandleResolution, from: Date): CandleSeries {
+  const shown = withIndicators(candles)
+    .filter(candle => candle.start >= from)
+    .map(candle => ({ ...candle, label: formatCandleLabel(candle.start, resolution) }));
+  return { resolution, candles: shown, summary: summarizeCandles(shown) };
+}
@@ -0,0 +1,23 @@
+import { MarketEntryModel } from '../models/MarketEntry';
+import { SectorConfigService } from './SectorConfigService';
+import { analyzeProductionChain, ChainAnalysisReport } from '../constants/chainAnalysis';
+
+/**
+ * Integrity checks on the production graph the sector configuration describes:
+ * loops, dead ends, and where its economics do not work at current market prices.
+ */
+export class ProductionChainService {
+  static async analyze(): Promise<ChainAnalysisReport & { version: string; analyzed_at: Date }> {
+    const [config, market] = await Promise.all([
+      SectorConfigService.getConfiguration(),
+      MarketEntryModel.getMarketData(),
+    ]);
+
+    const prices: Record<string, number> = { ...market.commodityPrices, ...market.productPrices };
+    return {
+      version: config.version,
+      analyzed_at: new Date(),
+      ...analyzeProductionChain(config, prices),
+    };
+  }
+}
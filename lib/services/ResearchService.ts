@@ -0,0 +1,190 @@
+import { withTransaction } from '../db/mongo';
+import { CorporationResearchModel, CorporationResearch } from '../models/CorporationResearch';
+import { CorporationModel } from '../models/Corporation';
+import { MarketEntryModel } from '../models/MarketEntry';
+import { TransactionModel } from '../models/Transaction';
+import { UserModel } from '../models/User';
+import {
+  RESEARCH_CONFIG,
+  CompletedResearch,
+  ResearchModifier,
+  ResearchProject,
+  ResearchStatus,
+  findResearchProject,
+  getSectorResearchTree,
+  getResearchStatus,
+  getResearchModifiers,
+} from '../constants/research';
+import type { UnitType } from '../constants/sectors';
+import { MILLISECONDS_PER_HOUR } from '../utils/gameTime';
+
+export class ResearchError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'ResearchError';
+  }
+}
+
+export interface StartResearchInput {
+  corporation_id: number;
+  user_id: number;
+  sector_type: string;
+  project_key: string;
+}
+
+export interface SectorResearchTree {
+  sector_type: string;
+  projects: Array<ResearchProject & { status: ResearchStatus; completes_at: Date | null }>;
+}
+
+/**
+ * Corporate research and development.
+ *
+ * Corporations spend capital and actions on research projects in the sectors they
+ * operate in. A project takes a fixed time to finish; once it has, its effects
+ * permanently improve the corporation's units in that sector in the hourly
+ * production cycle and in its financial statements.
+ */
+export class ResearchService {
+  /**
+   * The research tree of every sector the corporation operates or has researched in
+   */
+  static async getTrees(corporationId: number, now: Date = new Date()): Promise<SectorResearchTree[]> {
+    const [entries, research] = await Promise.all([
+      MarketEntryModel.findByCorporationId(corporationId),
+      CorporationResearchModel.findByCorporationId(corporationId),
+    ]);
+
+    const sectors = [...new Set([
+      ...entries.map(entry => entry.sector_type),
+      ...research.map(record => record.sector_type),
+    ])].sort();
+
+    return sectors.map(sector => {
+      const started = research.filter(record => record.sector_type === sector);
+      return {
+        sector_type: sector,
+        projects: getSectorResearchTree(sector).map(project => ({
+          ...project,
+          status: getResearchStatus(project, started, now),
+          completes_at: started.find(record => record.project_key === project.key)?.completes_at ?? null,
+        })),
+      };
+    });
+  }
+
+  /**
+   * Completed project keys per sector of one corporation
+   */
+  static async getCompleted(corporationId: number, now: Date = new Date()): Promise<CompletedResearch> {
+    const research = await CorporationResearchModel.findByCorporationId(corporationId);
+    return groupCompleted(research.filter(record => record.completes_at <= now));
+  }
+
+  /**
+   * Completed project keys per sector of every corporation, for the production cycle
+   */
+  static async getAllCompleted(now: Date = new Date()): Promise<Map<number, CompletedResearch>> {
+    const byCorporation = new Map<number, CorporationResearch[]>();
+    for (const record of await CorporationResearchModel.findCompleted(now)) {
+      byCorporation.set(record.corporation_id, [...(byCorporation.get(record.corporation_id) ?? []), record]);
+    }
+    return new Map([...byCorporation].map(([corporationId, records]) => [corporationId, groupCompleted(records)]));
+  }
+
+  /**
+   * Research modifiers per sector and unit type of every corporation that has completed research
+   */
+  static async getAllModifiers(now: Date = new Date()): Promise<Map<number, Record<string, Record<UnitType, ResearchModifier>>>> {
+    const completed = await this.getAllCompleted(now);
+    return new Map([...completed].map(([corporationId, research]) => [corporationId, getResearchModifiers(research)]));
+  }
+
+  /**
+   * Pay for a research project. Only the CEO can start one, in a sector the corporation
+   * operates in, once its prerequisites are completed.
+   */
+  static async start(input: StartResearchInput): Promise<CorporationResearch> {
+    const { corporation_id, user_id, sector_type, project_key } = input;
+
+    const corporation = await CorporationModel.findById(corporation_id);
+    if (!corporation || corporation.retired_at) {
+      throw new ResearchError('Corporation not found');
+    }
+    if (corporation.ceo_id !== user_id && corporation.elected_ceo_id !== user_id) {
+      throw new ResearchError('Only the CEO can start research');
+    }
+
+    const entries = await MarketEntryModel.findByCorporationId(corporation_id);
+    if (!entries.some(entry => entry.sector_type === sector_type)) {
+      throw new ResearchError(`${corporation.name} does not operate in ${sector_type}`);
+    }
+
+    const project = findResearchProject(sector_type, project_key);
+    if (!project) {
+      throw new ResearchError(`Unknown ${sector_type} research project: ${project_key}`);
+    }
+
+    const research = (await CorporationResearchModel.findByCorporationId(corporation_id))
+      .filter(record => record.sector_type === sector_type);
+    const status = getResearchStatus(project, research);
+    if (status === 'completed' || status === 'in_progress') {
+      throw new ResearchError(`${project.name} is already ${status === 'completed' ? 'researched' : 'under way'} in ${sector_type}`);
+    }
+    if (status === 'locked') {
+      const missing = project.requires
+        .map(key => findResearchProject(sector_type, key)?.name ?? key)
+        .join(', ');
+      throw new ResearchError(`${project.name} requires ${missing}`);
+    }
+
+    if (await CorporationResearchModel.countInProgress(corporation_id) >= RESEARCH_CONFIG.MAX_ACTIVE_PROJECTS) {
+      throw new ResearchError(`${corporation.name} is already researching a project`);
+    }
+
+    const userActions = await UserModel.getActions(user_id);
+    if (userActions < project.action_cost) {
+      throw new ResearchError(`Insufficient actions. Need ${project.action_cost}, have ${userActions}`);
+    }
+
+    const result = await withTransaction(async (session) => {
+      const debited = await CorporationModel.debitCapital(corporation_id, project.cost, session);
+      if (!debited) {
+        throw new ResearchError(`Insufficient capital. ${project.name} costs $${project.cost.toLocaleString()}`);
+      }
+
+      const record = await CorporationResearchModel.create({
+        corporation_id,
+        sector_type,
+        project_key,
+        user_id,
+        cost: project.cost,
+        action_cost: project.action_cost,
+        completes_at: new Date(Date.now() + project.duration_hours * MILLISECONDS_PER_HOUR),
+      }, session);
+
+      await TransactionModel.create({
+        transaction_type: 'research',
+        amount: project.cost,
+        from_user_id: user_id,
+        corporation_id,
+        description: `Started ${sector_type} research: ${project.name}`,
+        reference_id: record.id,
+        reference_type: 'corporation_research',
+      }, session);
+
+      return record;
+    });
+
+    await UserModel.updateActions(user_id, -project.action_cost);
+    return result;
+  }
+}
+
+function groupCompleted(records: CorporationResearch[]): CompletedResearch {
+  const completed: CompletedResearch = {};
+  for (const record of records) {
+    (completed[record.sector_type] ??= []).push(record.project_key);
+  }
+  return completed;
+}
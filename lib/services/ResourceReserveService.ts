@@ -0,0 +1,189 @@
+import { withTransaction } from '../db/mongo';
+import { StateResourceReserveModel, StateResourceReserve } from '../models/StateResourceReserve';
+import { ResourceReserveHistoryModel } from '../models/ResourceReserveHistory';
+import { ResourceExplorationModel, ResourceExploration } from '../models/ResourceExploration';
+import { CorporationModel } from '../models/Corporation';
+import { MarketEntryModel } from '../models/MarketEntry';
+import { TransactionModel } from '../models/Transaction';
+import { UserModel } from '../models/User';
+import { ACTIONS_CONFIG } from '../constants/actions';
+import { RESERVE_CONFIG, getOriginalReserve, getReserveCapacity, rollExploration } from '../constants/reserves';
+import { RESOURCES, SECTOR_EXTRACTION, STATE_RESOURCES, getStateLabel, type Resource, type Sector } from '../constants/sectors';
+import type { CycleReserve } from '../constants/inventory';
+import { MILLISECONDS_PER_HOUR } from '../utils/gameTime';
+
+export class ResourceReserveError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'ResourceReserveError';
+  }
+}
+
+export interface ExploreInput {
+  corporation_id: number;
+  user_id: number;
+  state_code: string;
+  resource: Resource;
+}
+
+export interface ExploreResult {
+  exploration: ResourceExploration;
+  reserve: StateResourceReserve | null;
+}
+
+/**
+ * Finite state resource reserves.
+ *
+ * Each state's static resource pool is seeded into a reserve of extractable units the
+ * first time it is needed. The hourly production cycle draws extraction out of it, with
+ * yield falling as it runs down; corporations extracting in a state can pay to explore
+ * for more, and admins can seed missing pools or regenerate depleted ones.
+ */
+export class ResourceReserveService {
+  /**
+   * Every reserve, seeding any that are missing, in the shape the production cycle takes
+   */
+  static async getCycleReserves(): Promise<CycleReserve[]> {
+    await StateResourceReserveModel.seedMissing();
+    const reserves = await StateResourceReserveModel.findAll();
+    return reserves.map(reserve => ({
+      state_code: reserve.state_code,
+      resource: reserve.resource,
+      remaining: reserve.remaining,
+      capacity: getReserveCapacity(reserve),
+    }));
+  }
+
+  static async applyDepletion(depletion: Array<{ state_code: string; resource: string; quantity: number }>): Promise<void> {
+    for (const { state_code, resource, quantity } of depletion) {
+      await StateResourceReserveModel.deplete(state_code, resource, quantity);
+    }
+  }
+
+  static async recordHistory(): Promise<number> {
+    return await ResourceReserveHistoryModel.recordAll(await StateResourceReserveModel.findAll());
+  }
+
+  /**
+   * Pay for a survey of a state for more of a resource. Only corporations operating
+   * in the state in a sector that extracts the resource may explore there.
+   */
+  static async explore(input: ExploreInput): Promise<ExploreResult> {
+    const { corporation_id, user_id, state_code, resource } = input;
+    const stateName = getStateLabel(state_code) || state_code;
+
+    const corporation = await CorporationModel.findById(corporation_id);
+    if (!corporation || corporation.retired_at) {
+      throw new ResourceReserveError('Corporation not found');
+    }
+    if (corporation.ceo_id !== user_id && corporation.elected_ceo_id !== user_id) {
+      throw new ResourceReserveError('Only the CEO can commission exploration');
+    }
+
+    const entries = await MarketEntryModel.findByCorporationId(corporation_id);
+    const canExtract = entries.some(entry =>
+      entry.state_code === state_code
+      && (SECTOR_EXTRACTION[entry.sector_type as Sector] ?? []).includes(resource)
+    );
+    if (!canExtract) {
+      throw new ResourceReserveError(`Exploring for ${resource} needs a market in ${stateName} in a sector that extracts it`);
+    }
+
+    const latest = await ResourceExplorationModel.findLatest(corporation_id, state_code, resource);
+    const cooldownMs = RESERVE_CONFIG.EXPLORATION_COOLDOWN_HOURS * MILLISECONDS_PER_HOUR;
+    if (latest && Date.now() - latest.created_at.getTime() < cooldownMs) {
+      const hoursLeft = Math.ceil((latest.created_at.getTime() + cooldownMs - Date.now()) / MILLISECONDS_PER_HOUR);
+      throw new ResourceReserveError(`${corporation.name} surveyed ${stateName} for ${resource} recently. Try again in ${hoursLeft}h`);
+    }
+
+    const requiredActions = ACTIONS_CONFIG.COSTS.EXPLORATION;
+    const userActions = await UserModel.getActions(user_id);
+    if (userActions < requiredActions) {
+      throw new ResourceReserveError(`Insufficient actions. Need ${requiredActions}, have ${userActions}`);
+    }
+
+    await StateResourceReserveModel.seedMissing();
+    const cost = RESERVE_CONFIG.EXPLORATION_COST;
+    const discovered = rollExploration(getOriginalReserve(state_code, resource));
+
+    const result = await withTransaction(async (session) => {
+      // Actions can have been spent since the check above
+      const spent = await UserModel.debitActions(user_id, requiredActions, session);
+      if (!spent) {
+        throw new ResourceReserveError(`Insufficient actions. Need ${requiredActions}`);
+      }
+
+      const debited = await CorporationModel.debitCapital(corporation_id, cost, session);
+      if (!debited) {
+        throw new ResourceReserveError(`Insufficient capital. Exploration costs $${cost.toLocaleString()}`);
+      }
+
+      const reserve = discovered > 0
+        ? await StateResourceReserveModel.addDiscovery(state_code, resource, discovered, session)
+        : await StateResourceReserveModel.findOne(state_code, resource);
+
+      const exploration = await ResourceExplorationModel.create({
+        corporation_id,
+        user_id,
+        state_code,
+        resource,
+        cost,
+        discovered,
+      }, session);
+
+      await TransactionModel.create({
+        transaction_type: 'exploration',
+        amount: cost,
+        from_user_id: user_id,
+        corporation_id,
+        description: discovered > 0
+          ? `Explored ${stateName} for ${resource}: found ${discovered.toLocaleString()} units`
+          : `Explored ${stateName} for ${resource}: nothing found`,
+        reference_id: exploration.id,
+        reference_type: 'resource_exploration',
+      }, session);
+
+      return { exploration, reserve };
+    });
+
+    return result;
+  }
+
+  /**
+   * Create the reserves of every state resource pool that has none yet
+   */
+  static async seed(): Promise<number> {
+    return await StateResourceReserveModel.seedMissing();
+  }
+
+  /**
+   * Refill reserves to their original size, or to the given amount. Without a state
+   * or resource, every pool matching the other filter is regenerated.
+   */
+  static async regenerate(filter: { state_code?: string; resource?: Resource; amount?: number }): Promise<number> {
+    const pools = new Set<string>();
+    for (const [stateCode, pool] of Object.entries(STATE_RESOURCES)) {
+      for (const resource of RESOURCES) {
+        if (pool[resource]) pools.add(`${stateCode}|${resource}`);
+      }
+    }
+    // Pools discovered in states with no deposits of their own
+    for (const reserve of await StateResourceReserveModel.findAll()) {
+      pools.add(`${reserve.state_code}|${reserve.resource}`);
+    }
+    // An explicit amount may create a pool the state never had
+    if (filter.state_code && filter.resource && filter.amount !== undefined) {
+      pools.add(`${filter.state_code}|${filter.resource}`);
+    }
+
+    let regenerated = 0;
+    for (const pool of pools) {
+      const [stateCode, resource] = pool.split('|') as [string, Resource];
+      if (filter.state_code && stateCode !== filter.state_code) continue;
+      if (filter.resource && resource !== filter.resource) continue;
+      await StateResourceReserveModel.reset(stateCode, resource, filter.amount);
+      regenerated++;
+    }
+    return regenerated;
+  }
+}
@@ -0,0 +1,194 @@
+import { withTransaction, getDb } from '../db/mongo';
+import { Corporation, CorporationModel } from '../models/Corporation';
+import { SalaryLedgerModel } from '../models/SalaryLedger';
+import { BoardProposalModel } from '../models/BoardProposal';
+import { ShareholderModel } from '../models/Shareholder';
+import { TransactionModel } from '../models/Transaction';
+import { UserModel } from '../models/User';
+import { NotificationService } from './NotificationService';
+import { SALARY_CONFIG, getSalaryPerQuarter } from '../constants/salaries';
+import { getQuarterIndex, getQuarterStartDate, getGameTimeForQuarter } from '../utils/gameTime';
+import { formatCash } from '../utils';
+
+export interface SalaryRunResult {
+  accrued: number;
+  paid: number;
+  inArrears: number;
+  nominations: number;
+}
+
+/**
+ * CEO salary ledger.
+ *
+ * Each completed game quarter accrues one ledger entry per corporation, owed to whoever
+ * was CEO at the time. Entries are paid oldest first out of capital; anything the
+ * corporation cannot afford stays on the ledger as arrears (a balance sheet liability)
+ * until capital allows. Once unpaid entries reach the board's limit, the arrears policy applies.
+ */
+export class SalaryService {
+  /**
+   * Accrue every completed game quarter since the last ledger entry. Returns the number accrued.
+   */
+  static async accrue(corp: Corporation, now: Date = new Date()): Promise<number> {
+    // The board-elected CEO draws the salary once there is one
+    const ceoId = corp.elected_ceo_id || corp.ceo_id;
+    if (!ceoId) return 0;
+
+    const salaryPerQuarter = getSalaryPerQuarter(corp.ceo_salary || SALARY_CONFIG.DEFAULT_CEO_SALARY_PER_96H);
+    if (salaryPerQuarter <= 0) return 0;
+
+    const lastCompleted = getQuarterIndex(now) - 1;
+    const latest = await SalaryLedgerModel.getLatestPeriod(corp.id);
+
+    // A corporation's first entry is the most recent completed quarter, not a backfill to founding
+    const first = latest === null ? lastCompleted : latest + 1;
+    let accrued = 0;
+
+    for (let period = first; period <= lastCompleted; period++) {
+      // Skip quarters that ended before the corporation existed
+      if (getQuarterStartDate(period + 1) <= new Date(corp.created_at)) continue;
+
+      const gameTime = getGameTimeForQuarter(period);
+      const recorded = await withTransaction(async (session) => {
+        const entry = await SalaryLedgerModel.accrue({
+          corporation_id: corp.id,
+          ceo_id: ceoId,
+          period_index: period,
+          game_year: gameTime.year,
+          game_quarter: gameTime.quarter,
+          amount_due: salaryPerQuarter,
+        }, session);
+        if (!entry) return false;
+
+        // Salary is an operating expense whether or not it can be paid yet
+        await CorporationModel.accrueEarnings(corp.id, -salaryPerQuarter, session);
+        return true;
+      });
+      if (recorded) accrued++;
+    }
+
+    return accrued;
+  }
+
+  /**
+   * Pay unpaid ledger entries oldest first until capital runs out. Returns the number paid.
+   */
+  static async payArrears(corporationId: number): Promise<number> {
+    const arrears = await SalaryLedgerModel.findArrears(corporationId);
+    let paid = 0;
+
+    for (const entry of arrears) {
+      const corp = await CorporationModel.findById(corporationId);
+      if (!corp || corp.capital < entry.amount_due) break;
+
+      try {
+        const settled = await withTransaction(async (session) => {
+          const marked = await SalaryLedgerModel.markPaid(entry.id, session);
+          if (!marked) return false;
+
+          // Capital can still have been spent since the check above; abort rather than overdraw
+          const debited = await CorporationModel.debitCapital(corporationId, entry.amount_due, session);
+          if (!debited) throw new Error('Insufficient capital for CEO salary');
+
+          await UserModel.updateCash(entry.ceo_id, entry.amount_due, session);
+
+          await TransactionModel.create({
+            corporation_id: corporationId,
+            transaction_type: 'ceo_salary',
+            amount: entry.amount_due,
+            description: `CEO Salary Payment (Y${entry.game_year} Q${entry.game_quarter})`,
+            to_user_id: entry.ceo_id,
+            reference_id: entry.id,
+            reference_type: 'salary_ledger',
+          }, session);
+          return true;
+        });
+        if (settled) {
+          paid++;
+          await NotificationService.notify([entry.ceo_id], {
+            category: 'salary_paid',
+            title: `Salary from ${corp.name}: ${formatCash(entry.amount_due)}`,
+            body: `${corp.name} paid your CEO salary for Y${entry.game_year} Q${entry.game_quarter}.`,
+            link: `/corporation/${corporationId}`,
+            corporation_id: corporationId,
+          });
+        }
+      } catch (err: unknown) {
+        console.error(`Error paying CEO salary ledger entry ${entry.id}:`, err);
+        break;
+      }
+    }
+
+    if (paid > 0) {
+      await CorporationModel.update(corporationId, { last_salary_paid_at: new Date() });
+    }
+
+    return paid;
+  }
+
+  /**
+   * Open a CEO vote once unpaid quarters reach the board's limit, if the policy calls for it
+   * and no nomination is already open. Returns true if a proposal was created.
+   */
+  static async applyArrearsPolicy(corp: Corporation, missedPayments: number): Promise<boolean> {
+    const action = corp.salary_arrears_action ?? SALARY_CONFIG.DEFAULT_ARREARS_ACTION;
+    const limit = corp.salary_arrears_limit ?? SALARY_CONFIG.DEFAULT_MISSED_PAYMENTS_LIMIT;
+    if (action !== 'ceo_nomination' || missedPayments < limit) return false;
+
+    const openNomination = await getDb().collection('board_proposals').findOne({
+      corporation_id: corp.id,
+      proposal_type: 'ceo_nomination',
+      status: 'active',
+    });
+    if (openNomination) return false;
+
+    // Nominate the largest shareholder other than the unpaid CEO
+    const ceoId = corp.elected_ceo_id || corp.ceo_id;
+    const shareholders = await ShareholderModel.findByCorporationId(corp.id);
+    const nominee = shareholders.find(sh => sh.user_id !== ceoId && sh.shares > 0);
+    if (!nominee) return false;
+
+    const nomineeUser = await UserModel.findById(nominee.user_id);
+    const proposalData = {
+      nominee_id: nominee.user_id,
+      nominee_name: nomineeUser?.player_name || nomineeUser?.username || 'Unknown',
+    };
+
+    const proposal = await BoardProposalModel.create(corp.id, 1, 'ceo_nomination', proposalData); // System user ID
+
+    const description = BoardProposalModel.getProposalDescription('ceo_nomination', proposalData);
+    await BoardProposalModel.announce(
+      proposal,
+      corp.name,
+      `${corp.name} has missed ${missedPayments} CEO salary payments. Under the board's arrears policy, a vote has been opened: ${description}\n\nThis vote will expire in 12 hours.`
+    );
+
+    return true;
+  }
+
+  static async run(now: Date = new Date()): Promise<SalaryRunResult> {
+    const result: SalaryRunResult = { accrued: 0, paid: 0, inArrears: 0, nominations: 0 };
+    const corporations = await CorporationModel.findAll();
+
+    for (const corp of corporations) {
+      try {
+        const accrued = await this.accrue(corp, now);
+        result.accrued += accrued;
+        result.paid += await this.payArrears(corp.id);
+
+        const missed = (await SalaryLedgerModel.findArrears(corp.id)).length;
+        if (missed === 0) continue;
+        result.inArrears++;
+
+        // Only act when a new quarter went unpaid, so a failed vote is not reopened every hour
+        if (accrued > 0 && await this.applyArrearsPolicy(corp, missed)) {
+          result.nominations++;
+        }
+      } catch (err: unknown) {
+        console.error(`Error processing CEO salary for corp ${corp.id}:`, err);
+      }
+    }
+
+    return result;
+  }
+}
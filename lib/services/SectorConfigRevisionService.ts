@@ -0,0 +1,286 @@
+import { ClientSession } from 'mongodb';
+import { withTransaction } from '../db/mongo';
+import { SectorConfigModel, UnifiedSectorConfig } from '../models/SectorConfig';
+import { SectorConfigRevisionModel, SectorConfigRevision, SectorConfigRevisionSource } from '../models/SectorConfigRevision';
+import { SectorConfigReleaseModel, SectorConfigRelease } from '../models/SectorConfigRelease';
+import { SectorConfigService } from './SectorConfigService';
+import { diffSectorConfigs, toSnapshot, type SectorConfigSnapshot } from '../constants/configRevisions';
+import { SectorConfigDiff, applySectorConfigDiff, findUnknownDiffKeys } from '../constants/configSimulation';
+import { getQuarterIndex, getQuarterIndexForGameTime, getQuarterStartDate, type GameTime } from '../utils/gameTime';
+import { validateProductionGraph } from '../productionChain';
+import { getErrorMessage } from '../utils';
+
+export class SectorConfigRevisionError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'SectorConfigRevisionError';
+  }
+}
+
+type RevisionAuthor = { id: number; username: string } | null;
+
+export interface ScheduleReleaseInput {
+  author: { id: number; username: string };
+  game_time: GameTime;
+  reason: string;
+  diff?: SectorConfigDiff;
+  restore_revision_id?: number;
+}
+
+/**
+ * Revision history of the sector configuration.
+ *
+ * Every change that goes live (an admin edit, a rollback, or a scheduled release
+ * reaching its quarter) writes an immutable revision holding the full configuration
+ * and what changed since the one before. Rollbacks and releases write the
+ * configuration and its revision in one transaction. Revisions are looked up by time
+ * to tell which configuration prices and finances were computed under.
+ */
+export class SectorConfigRevisionService {
+  /**
+   * The latest revision, first snapshotting the live configuration if there are none yet.
+   * Call before changing the configuration so its previous state is kept.
+   */
+  static async ensureInitial(): Promise<SectorConfigRevision> {
+    const latest = await SectorConfigRevisionModel.findLatest();
+    if (latest) return latest;
+
+    return await SectorConfigRevisionModel.create({
+      config: toSnapshot(await SectorConfigModel.getFullConfiguration()),
+      changes: [],
+      source: 'initial',
+      reason: 'Configuration before revision history began',
+      author_id: null,
+      author_name: null,
+      rolled_back_to: null,
+      release_id: null,
+    });
+  }
+
+  /**
+   * Write a revision of the live configuration if it differs from the latest one.
+   * Pass the session of the transaction that changed the configuration to record it
+   * in the same transaction.
+   */
+  static async record(params: {
+    author: RevisionAuthor;
+    reason: string;
+    source: SectorConfigRevisionSource;
+    rolled_back_to?: number;
+    release_id?: number;
+  }, session?: ClientSession): Promise<SectorConfigRevision | null> {
+    SectorConfigService.invalidateCache();
+    const config = toSnapshot(await SectorConfigModel.getFullConfiguration(session));
+    const latest = await SectorConfigRevisionModel.findLatest(session);
+    const changes = latest ? diffSectorConfigs(latest.config, config) : [];
+    if (latest && changes.length === 0) return null;
+
+    return await SectorConfigRevisionModel.create({
+      config,
+      changes,
+      source: params.source,
+      reason: params.reason,
+      author_id: params.author?.id ?? null,
+      author_name: params.author?.username ?? null,
+      rolled_back_to: params.rolled_back_to ?? null,
+      release_id: params.release_id ?? null,
+    }, session);
+  }
+
+  /**
+   * Record an admin edit, in the transaction that wrote it (see applyEdit)
+   */
+  static async recordEdit(
+    author: { id: number; username: string },
+    reason: string,
+    session: ClientSession
+  ): Promise<SectorConfigRevision | null> {
+    return await this.record({ author, reason, source: 'edit' }, session);
+  }
+
+  /**
+   * Run an admin edit in a transaction, so the edit and its revision (recordEdit with
+   * the same session) are written together. Returns what the edit returned.
+   */
+  static async applyEdit<T>(edit: (session: ClientSession) => Promise<T>): Promise<T> {
+    await this.ensureInitial();
+
+    const result = await withTransaction(edit);
+    SectorConfigService.invalidateCache();
+    return result;
+  }
+
+  /**
+   * Replace the whole configuration with an imported one and record it as an admin
+   * edit, in one transaction
+   */
+  static async importConfiguration(
+    config: SectorConfigSnapshot,
+    author: { id: number; username: string },
+    reason: string
+  ): Promise<SectorConfigRevision | null> {
+    await this.ensureInitial();
+
+    const revision = await withTransaction(async (session) => {
+      await SectorConfigService.importConfiguration(config, reason, session);
+      return await this.record({ author, reason, source: 'edit' }, session);
+    });
+    SectorConfigService.invalidateCache();
+    return revision;
+  }
+
+  /**
+   * Restore the configuration of a past revision now
+   */
+  static async rollback(
+    revisionId: number,
+    author: { id: number; username: string },
+    reason?: string
+  ): Promise<SectorConfigRevision> {
+    const target = await SectorConfigRevisionModel.findById(revisionId);
+    if (!target) {
+      throw new SectorConfigRevisionError(`Revision ${revisionId} not found`);
+    }
+
+    const latest = await this.ensureInitial();
+    if (diffSectorConfigs(latest.config, target.config).length === 0) {
+      throw new SectorConfigRevisionError(`The live configuration already matches revision ${revisionId}`);
+    }
+
+    const live = await SectorConfigModel.getFullConfiguration();
+    const revision = await withTransaction(async (session) => {
+      await assertApplicable(target.config, session);
+      await SectorConfigModel.createNewVersion({ version: live.version, ...target.config }, `Rollback to revision ${revisionId}`, session);
+      await SectorConfigModel.removeMissing(target.config, session);
+
+      const recorded = await this.record({
+        author,
+        reason: reason || `Rolled back to revision ${revisionId}`,
+        source: 'rollback',
+        rolled_back_to: revisionId,
+      }, session);
+      if (!recorded) {
+        throw new SectorConfigRevisionError(`The live configuration already matches revision ${revisionId}`);
+      }
+      return recorded;
+    });
+    SectorConfigService.invalidateCache();
+    return revision;
+  }
+
+  /**
+   * Schedule a change to go live at the start of a future game quarter
+   */
+  static async schedule(input: ScheduleReleaseInput): Promise<SectorConfigRelease> {
+    const { author, game_time, reason, diff, restore_revision_id } = input;
+
+    const releaseQuarter = getQuarterIndexForGameTime(game_time);
+    if (releaseQuarter <= getQuarterIndex()) {
+      throw new SectorConfigRevisionError('Releases must be scheduled for a future quarter');
+    }
+
+    if (restore_revision_id !== undefined) {
+      if (!await SectorConfigRevisionModel.findById(restore_revision_id)) {
+        throw new SectorConfigRevisionError(`Revision ${restore_revision_id} not found`);
+      }
+    } else if (diff) {
+      const unknown = findUnknownDiffKeys(await SectorConfigService.getConfiguration(), diff);
+      if (unknown.length > 0) {
+        throw new SectorConfigRevisionError(`Unknown ${unknown.join(', ')}`);
+      }
+    } else {
+      throw new SectorConfigRevisionError('A release needs either changes or a revision to restore');
+    }
+
+    return await SectorConfigReleaseModel.create({
+      diff: restore_revision_id !== undefined ? null : diff ?? null,
+      restore_revision_id: restore_revision_id ?? null,
+      reason,
+      author_id: author.id,
+      author_name: author.username,
+      release_quarter: releaseQuarter,
+      release_at: getQuarterStartDate(releaseQuarter),
+    });
+  }
+
+  static async cancel(releaseId: number): Promise<SectorConfigRelease> {
+    const cancelled = await SectorConfigReleaseModel.finish(releaseId, 'cancelled');
+    if (!cancelled) {
+      throw new SectorConfigRevisionError('Release not found or no longer scheduled');
+    }
+    return cancelled;
+  }
+
+  /**
+   * Put every scheduled release whose quarter has started live, oldest first.
+   * A release that cannot be applied is marked failed and the rest still run.
+   */
+  static async runDueReleases(now: Date = new Date()): Promise<{ released: number; failed: number }> {
+    let released = 0;
+    let failed = 0;
+
+    for (const release of await SectorConfigReleaseModel.findDue(getQuarterIndex(now))) {
+      try {
+        await this.ensureInitial();
+        const live = await SectorConfigModel.getFullConfiguration();
+
+        let config = live;
+        if (release.restore_revision_id !== null) {
+          const target = await SectorConfigRevisionModel.findById(release.restore_revision_id);
+          if (!target) {
+            throw new SectorConfigRevisionError(`Revision ${release.restore_revision_id} not found`);
+          }
+          config = { version: live.version, ...target.config };
+        } else {
+          const diff = release.diff ?? {};
+          const unknown = findUnknownDiffKeys(live, diff);
+          if (unknown.length > 0) {
+            throw new SectorConfigRevisionError(`Unknown ${unknown.join(', ')}`);
+          }
+          config = applySectorConfigDiff(live, diff);
+        }
+
+        await withTransaction(async (session) => {
+          await assertApplicable(config, session);
+          await SectorConfigModel.createNewVersion(config, release.reason, session);
+          await SectorConfigModel.removeMissing(config, session);
+          const revision = await this.record({
+            author: { id: release.author_id, username: release.author_name },
+            reason: release.reason,
+            source: 'release',
+            rolled_back_to: release.restore_revision_id ?? undefined,
+            release_id: release.id,
+          }, session);
+          // A release that changed nothing points at the revision that was already live
+          const revisionId = revision?.id ?? (await SectorConfigRevisionModel.findLatest(session))?.id;
+          if (!await SectorConfigReleaseModel.finish(release.id, 'released', { revision_id: revisionId }, session)) {
+            throw new SectorConfigRevisionError('Release is no longer scheduled');
+          }
+        });
+        SectorConfigService.invalidateCache();
+        released++;
+      } catch (error: unknown) {
+        await SectorConfigReleaseModel.finish(release.id, 'failed', { error: getErrorMessage(error) });
+        failed++;
+      }
+    }
+
+    return { released, failed };
+  }
+
+  /**
+   * Number of the revision live at the given moment, or null if it predates revision history
+   */
+  static async getActiveRevisionId(at: Date = new Date()): Promise<number | null> {
+    return (await SectorConfigRevisionModel.findActiveAt(at))?.id ?? null;
+  }
+}
+
+// A configuration about to go live must pass production graph validation and keep
+// every sector, product and resource the game still uses
+async function assertApplicable(config: Omit<UnifiedSectorConfig, 'version'>, session: ClientSession): Promise<void> {
+  const errors = [...validateProductionGraph(config), ...await SectorConfigModel.findRemovedInUse(config, session)];
+  if (errors.length > 0) {
+    throw new SectorConfigRevisionError(`Configuration failed validation: ${errors.join('; ')}`);
+  }
+}
@@ -6,7 +6,17 @@
  * raw DB data into formats expected by existing calculators.
  */
 
+import { ClientSession } from 'mongodb';
 import { SectorConfigModel, UnifiedSectorConfig, UnitType } from '../models/SectorConfig';
+import { MarketEntryModel } from '../models/MarketEntry';
+import type { SectorConfigSnapshot } from '../constants/configRevisions';
+import { validateProductionGraph } from '../productionChain';
+import {
+  SectorConfigDiff,
+  SimulationResult,
+  findUnknownDiffKeys,
+  simulateSectorConfig,
+} from '../constants/configSimulation';
 
 // Cache for the unified configuration
 let configCache: UnifiedSectorConfig | null = null;
@@ -35,6 +45,24 @@ export interface LegacySectorConstants {
   SERVICE_PRODUCT_CONSUMPTION: number;
 }
 
+export class SectorConfigSimulationError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'SectorConfigSimulationError';
+  }
+}
+
+// A whole-configuration import that cannot be applied; `errors` lists every problem found
+export class SectorConfigImportError extends Error {
+  errors: string[];
+
+  constructor(message: string, errors: string[]) {
+    super(message);
+    this.name = 'SectorConfigImportError';
+    this.errors = errors;
+  }
+}
+
 export class SectorConfigService {
   /**
    * Get the full unified configuration, using cache if available
@@ -67,7 +95,7 @@ export class SectorConfigService {
   /**
    * Update the unified configuration (admin only)
    */
-  static async updateConfiguration(newConfig: Partial<UnifiedSectorConfig>): Promise<UnifiedSectorConfig> {
+  static async updateConfiguration(newConfig: Partial<UnifiedSectorConfig>, session?: ClientSession): Promise<UnifiedSectorConfig> {
     const currentConfig = await this.getConfiguration();
     
     // Deep merge or replace based on needs - for now assume partial update at top level
@@ -85,7 +113,7 @@ export class SectorConfigService {
     // Checking SectorConfigModel...
     
     // Assuming we'll implement updateConfiguration in SectorConfigModel or use createNewVersion
-    await SectorConfigModel.createNewVersion(updatedConfig, 'Admin update via API');
+    await SectorConfigModel.createNewVersion(updatedConfig, 'Admin update via API', session);
     
     // Invalidate cache
     this.invalidateCache();
@@ -93,6 +121,41 @@ export class SectorConfigService {
     return updatedConfig;
   }
 
+  /**
+   * Dry run of a proposed configuration change against the units running today:
+   * the prices it would set and what it would do to each corporation's profit.
+   * Nothing is saved.
+   */
+  static async simulateConfiguration(diff: SectorConfigDiff): Promise<SimulationResult & { version: string }> {
+    const config = await this.getConfiguration();
+
+    const unknown = findUnknownDiffKeys(config, diff);
+    if (unknown.length > 0) {
+      throw new SectorConfigSimulationError(`Unknown ${unknown.join(', ')}`);
+    }
+
+    const units = await MarketEntryModel.getAllCorporationSectorUnits();
+    return { version: config.version, ...simulateSectorConfig(config, diff, units) };
+  }
+
+  /**
+   * Replace the whole configuration with an imported one, within the caller's
+   * transaction. Sectors, products and resources may be added, or removed once nothing
+   * uses them, as long as the result passes production graph validation; otherwise
+   * nothing is written.
+   */
+  static async importConfiguration(config: SectorConfigSnapshot, reason: string, session: ClientSession): Promise<void> {
+    const errors = [...validateProductionGraph(config), ...await SectorConfigModel.findRemovedInUse(config, session)];
+    if (errors.length > 0) {
+      throw new SectorConfigImportError('Configuration failed validation', errors);
+    }
+
+    const live = await SectorConfigModel.getFullConfiguration(session);
+    await SectorConfigModel.createNewVersion({ version: live.version, ...config }, reason, session);
+    await SectorConfigModel.removeMissing(config, session);
+    this.invalidateCache();
+  }
+
   /**
    * Invalidate the cache (call after any admin update)
    */
@@ -0,0 +1,394 @@
+import { withTransaction } from '../db/mongo';
+import { ShortPositionModel, ShortPosition, ShareLoanAllocation } from '../models/ShortPosition';
+import { ShareholderModel } from '../models/Shareholder';
+import { ShareOrderModel } from '../models/ShareOrder';
+import { ShareTransactionModel } from '../models/ShareTransaction';
+import { TransactionModel } from '../models/Transaction';
+import { CorporationModel } from '../models/Corporation';
+import { UserModel } from '../models/User';
+import {
+  SHORT_CONFIG,
+  calculateInitialCollateral,
+  calculateCollateralRatio,
+  calculateHourlyBorrowFee,
+} from '../constants/shorts';
+import { roundToCents } from '../constants/orders';
+import { NotificationService } from './NotificationService';
+import { TradeSettlementError } from './TradeSettlementService';
+
+export interface LendingPoolSummary {
+  lendable_shares: number;   // Opted-in shares still in lenders' hands
+  shares_on_loan: number;
+  lenders: number;
+  borrow_fee_rate: number;
+}
+
+export interface CoverResult {
+  position: ShortPosition;
+  cost: number;
+  collateral_returned: number;
+  shortfall: number;          // Cost beyond collateral, charged to the holder's cash
+  unpaid_deficit: number;     // Part of the shortfall the holder's cash could not pay
+  bought_in: number;          // Shares repaid to lenders in cash because none were for sale
+}
+
+export interface ShortServicingResult {
+  charged: number;
+  marginCalls: number;
+  liquidated: number;
+}
+
+/**
+ * Short selling against a lending pool of opted-in shareholdings.
+ *
+ * Opening a short borrows shares from lenders (largest holding first), sells them
+ * into the public float, and locks the sale proceeds plus posted margin as collateral.
+ * Covering buys the shares back from resting sell orders and the float, returns them to
+ * the original lenders and settles the collateral. Every step runs in a session transaction.
+ */
+export class ShortSellingService {
+  static async getLendingPool(corporationId: number, excludeUserId?: number): Promise<LendingPoolSummary> {
+    const [lenders, sharesOnLoan] = await Promise.all([
+      ShareholderModel.findLenders(corporationId, excludeUserId),
+      ShortPositionModel.getSharesOnLoan(corporationId),
+    ]);
+
+    return {
+      lendable_shares: lenders.reduce((sum, lender) => sum + lender.shares, 0),
+      shares_on_loan: sharesOnLoan,
+      lenders: lenders.length,
+      borrow_fee_rate: SHORT_CONFIG.BORROW_FEE_RATE,
+    };
+  }
+
+  static async openShort(
+    corporationId: number,
+    userId: number,
+    shares: number,
+    salePrice: number
+  ): Promise<ShortPosition> {
+    const proceeds = salePrice * shares;
+    const collateral = calculateInitialCollateral(shares, salePrice);
+    const margin = collateral - proceeds;
+
+    return await withTransaction(async (session) => {
+      const lenders = await ShareholderModel.findLenders(corporationId, userId);
+      const allocations: ShareLoanAllocation[] = [];
+      let remaining = shares;
+
+      for (const lender of lenders) {
+        if (remaining <= 0) break;
+
+        const take = Math.min(remaining, lender.shares);
+        const held = await ShareholderModel.decrementShares(corporationId, lender.user_id, take, session);
+        if (!held) continue;
+
+        allocations.push({ user_id: lender.user_id, shares: take });
+        remaining -= take;
+      }
+
+      if (remaining > 0) {
+        throw new TradeSettlementError(`Only ${shares - remaining} shares are available to borrow`);
+      }
+
+      const debited = await UserModel.debitCash(userId, margin, session);
+      if (!debited) {
+        throw new TradeSettlementError('Insufficient funds to post margin');
+      }
+
+      // Borrowed shares are sold into the public float
+      const corp = await CorporationModel.incrementPublicShares(corporationId, shares, session);
+      if (!corp) {
+        throw new TradeSettlementError('Corporation not found');
+      }
+
+      const position = await ShortPositionModel.create({
+        corporation_id: corporationId,
+        user_id: userId,
+        shares,
+        entry_price: salePrice,
+        proceeds,
+        collateral,
+        borrow_fee_rate: SHORT_CONFIG.BORROW_FEE_RATE,
+        lenders: allocations,
+      }, session);
+
+      const shareTransaction = await ShareTransactionModel.create({
+        corporation_id: corporationId,
+        user_id: userId,
+        transaction_type: 'sell',
+        shares,
+        price_per_share: salePrice,
+        total_amount: proceeds,
+      }, session);
+
+      await TransactionModel.create({
+        transaction_type: 'short_sale',
+        amount: proceeds,
+        from_user_id: userId,
+        corporation_id: corporationId,
+        description: `Sold short ${shares} shares at $${salePrice.toFixed(2)}/share (margin posted: $${margin.toFixed(2)})`,
+        reference_id: shareTransaction.id,
+        reference_type: 'share_transaction',
+      }, session);
+
+      return position;
+    });
+  }
+
+  /**
+   * Buy back the borrowed shares and return them to the lenders.
+   *
+   * Shares come from resting sell orders at or below the cover price (cheapest first),
+   * then from the public float at the cover price. A forced liquidation that still
+   * cannot find enough shares buys the lenders in: the rest of the loan is repaid to them
+   * in cash at the cover price. A voluntary cover fails instead.
+   *
+   * The cost comes out of collateral first; any shortfall is taken from the holder's cash,
+   * and whatever their cash cannot pay is recorded on the position as an unpaid deficit.
+   */
+  static async coverShort(
+    position: ShortPosition,
+    coverPrice: number,
+    status: 'covered' | 'liquidated' = 'covered'
+  ): Promise<CoverResult> {
+    const restingOrders = await ShareOrderModel.findMatchingOrders(position.corporation_id, 'buy', coverPrice, position.user_id);
+
+    return await withTransaction(async (session) => {
+      let remaining = position.shares;
+      let cost = 0;
+
+      for (const resting of restingOrders) {
+        if (remaining <= 0) break;
+
+        const quantity = Math.min(remaining, resting.remaining_shares);
+        const filled = await ShareOrderModel.applyFill(resting.id, quantity, 0, session);
+        if (!filled) continue;
+
+        const amount = roundToCents(resting.limit_price * quantity);
+        await UserModel.updateCash(resting.user_id, amount, session);
+        await ShareTransactionModel.create({
+          corporation_id: position.corporation_id,
+          user_id: resting.user_id,
+          transaction_type: 'sell',
+          shares: quantity,
+          price_per_share: resting.limit_price,
+          total_amount: amount,
+          order_id: resting.id,
+        }, session);
+
+        cost += amount;
+        remaining -= quantity;
+      }
+
+      if (remaining > 0) {
+        const corp = await CorporationModel.findById(position.corporation_id);
+        const fromFloat = Math.min(remaining, corp?.public_shares ?? 0);
+        if (fromFloat > 0 && await CorporationModel.decrementPublicShares(position.corporation_id, fromFloat, session)) {
+          cost += coverPrice * fromFloat;
+          remaining -= fromFloat;
+        }
+      }
+
+      const boughtIn = remaining;
+      if (boughtIn > 0 && status === 'covered') {
+        throw new TradeSettlementError('Not enough shares for sale to cover');
+      }
+      cost += coverPrice * boughtIn;
+
+      const realizedPnl = position.proceeds - cost - position.fees_paid;
+      const open = await ShortPositionModel.close(position.id, status, coverPrice, realizedPnl, session);
+      if (!open) {
+        throw new TradeSettlementError('Position is no longer open');
+      }
+
+      const collateralReturned = Math.max(0, open.collateral - cost);
+      const shortfall = Math.max(0, cost - open.collateral);
+      let unpaidDeficit = 0;
+
+      if (collateralReturned > 0) {
+        await UserModel.updateCash(position.user_id, collateralReturned, session);
+      } else if (shortfall > 0) {
+        const debited = await UserModel.debitCash(position.user_id, shortfall, session);
+        if (!debited) {
+          // Take what the holder has and record the rest against the position
+          let paid = 0;
+          const cash = await UserModel.getCash(position.user_id);
+          if (cash > 0 && await UserModel.debitCash(position.user_id, cash, session)) {
+            paid = cash;
+          }
+          unpaidDeficit = shortfall - paid;
+          await ShortPositionModel.recordDeficit(position.id, unpaidDeficit, session);
+        }
+      }
+
+      // Lenders get their shares back in loan order; any bought-in remainder is repaid in cash
+      let deliverable = position.shares - boughtIn;
+      for (const allocation of open.lenders) {
+        const returned = Math.min(allocation.shares, deliverable);
+        deliverable -= returned;
+
+        if (returned > 0) {
+          await ShareholderModel.create({
+            corporation_id: position.corporation_id,
+            user_id: allocation.user_id,
+            shares: returned,
+          }, session);
+        }
+        if (allocation.shares > returned) {
+          await UserModel.updateCash(allocation.user_id, coverPrice * (allocation.shares - returned), session);
+        }
+      }
+
+      const shareTransaction = await ShareTransactionModel.create({
+        corporation_id: position.corporation_id,
+        user_id: position.user_id,
+        transaction_type: 'buy',
+        shares: position.shares,
+        price_per_share: roundToCents(cost / position.shares),
+        total_amount: cost,
+      }, session);
+
+      const boughtInNote = boughtIn > 0 ? `, ${boughtIn} bought in from lenders` : '';
+      const deficitNote = unpaidDeficit > 0 ? `, unpaid deficit: $${unpaidDeficit.toFixed(2)}` : '';
+      await TransactionModel.create({
+        transaction_type: 'short_cover',
+        amount: cost,
+        from_user_id: position.user_id,
+        corporation_id: position.corporation_id,
+        description: `${status === 'liquidated' ? 'Margin liquidation' : 'Covered short'} of ${position.shares} shares at $${coverPrice.toFixed(2)}/share (P&L: $${realizedPnl.toFixed(2)}${boughtInNote}${deficitNote})`,
+        reference_id: shareTransaction.id,
+        reference_type: 'share_transaction',
+      }, session);
+
+      return {
+        position: {
+          ...open,
+          status,
+          exit_price: coverPrice,
+          realized_pnl: realizedPnl,
+          unpaid_deficit: unpaidDeficit,
+          collateral: 0,
+          margin_call_at: null,
+          closed_at: new Date(),
+        },
+        cost,
+        collateral_returned: collateralReturned,
+        shortfall,
+        unpaid_deficit: unpaidDeficit,
+        bought_in: boughtIn,
+      };
+    });
+  }
+
+  /**
+   * Move cash into a position's collateral. Clears the margin call once the
+   * collateral ratio is back above maintenance at the current share price.
+   */
+  static async addCollateral(position: ShortPosition, amount: number, sharePrice: number): Promise<ShortPosition> {
+    const updated = await withTransaction(async (session) => {
+      const debited = await UserModel.debitCash(position.user_id, amount, session);
+      if (!debited) {
+        throw new TradeSettlementError('Insufficient funds');
+      }
+
+      const result = await ShortPositionModel.addCollateral(position.id, amount, session);
+      if (!result) {
+        throw new TradeSettlementError('Position is no longer open');
+      }
+      return result;
+    });
+
+    const ratio = calculateCollateralRatio(updated.collateral, updated.shares, sharePrice);
+    if (updated.margin_call_at && ratio >= SHORT_CONFIG.MAINTENANCE_MARGIN) {
+      return (await ShortPositionModel.setMarginCall(updated.id, null)) ?? updated;
+    }
+    return updated;
+  }
+
+  /**
+   * Hourly servicing for every open position:
+   * - Charge one hour of borrow fee (from cash, or collateral if cash is short) and pay it to the lenders pro rata
+   * - Issue a margin call when collateral falls below the maintenance ratio
+   * - Liquidate positions still under-margined once the grace period has passed
+   */
+  static async servicePositions(now: Date = new Date()): Promise<ShortServicingResult> {
+    const result: ShortServicingResult = { charged: 0, marginCalls: 0, liquidated: 0 };
+    const positions = await ShortPositionModel.findAllOpen();
+
+    for (const position of positions) {
+      try {
+        const corp = await CorporationModel.findById(position.corporation_id);
+        if (!corp) continue;
+
+        const sharePrice = corp.share_price;
+        const fee = calculateHourlyBorrowFee(position.shares, sharePrice, position.borrow_fee_rate);
+
+        const charged = await withTransaction(async (session) => {
+          // Paid from cash when the holder can cover it, otherwise out of collateral
+          const paidFromCash = await UserModel.debitCash(position.user_id, fee, session);
+          const fromCollateral = paidFromCash ? 0 : fee;
+
+          const updated = await ShortPositionModel.recordFee(position.id, fee, fromCollateral, session);
+          if (!updated) return null;
+
+          for (const allocation of position.lenders) {
+            const share = fee * (allocation.shares / position.shares);
+            if (share > 0) {
+              await UserModel.updateCash(allocation.user_id, share, session);
+            }
+          }
+
+          await TransactionModel.create({
+            transaction_type: 'borrow_fee',
+            amount: fee,
+            from_user_id: position.user_id,
+            corporation_id: position.corporation_id,
+            description: `Borrow fee on short of ${position.shares} shares`,
+            reference_id: position.id,
+            reference_type: 'short_position',
+          }, session);
+
+          return updated;
+        });
+
+        if (!charged) continue;
+        result.charged++;
+
+        const coverPrice = Math.round(sharePrice * SHORT_CONFIG.COVER_SPREAD * 100) / 100;
+        const ratio = calculateCollateralRatio(charged.collateral, charged.shares, coverPrice);
+
+        if (ratio >= SHORT_CONFIG.MAINTENANCE_MARGIN) {
+          if (charged.margin_call_at) {
+            await ShortPositionModel.setMarginCall(charged.id, null);
+          }
+          continue;
+        }
+
+        if (!charged.margin_call_at) {
+          await ShortPositionModel.setMarginCall(charged.id, now);
+          result.marginCalls++;
+
+          await NotificationService.notify([charged.user_id], {
+            category: 'margin_call',
+            title: `Margin Call: ${corp.name}`,
+            body: `Your short position of ${charged.shares} shares in ${corp.name} is below the ${SHORT_CONFIG.MAINTENANCE_MARGIN * 100}% maintenance margin.\n\nAdd collateral or cover within ${SHORT_CONFIG.MARGIN_CALL_GRACE_HOURS} hours to avoid forced liquidation.`,
+            link: `/corporation/${corp.id}`,
+            corporation_id: corp.id,
+          });
+          continue;
+        }
+
+        const graceEnds = new Date(charged.margin_call_at).getTime() + SHORT_CONFIG.MARGIN_CALL_GRACE_HOURS * 60 * 60 * 1000;
+        if (now.getTime() >= graceEnds) {
+          await this.coverShort(charged, coverPrice, 'liquidated');
+          result.liquidated++;
+        }
+      } catch (err: unknown) {
+        console.error(`Error servicing short position ${position.id}:`, err);
+      }
+    }
+
+    return result;
+  }
+}
@@ -0,0 +1,377 @@
+import { withTransaction } from '../db/mongo';
+import { SupplyContractModel, SupplyContract, SupplyContractRole } from '../models/SupplyContract';
+import { SupplyContractSettlementModel } from '../models/SupplyContractSettlement';
+import { CorporationModel, Corporation } from '../models/Corporation';
+import { InventoryModel } from '../models/Inventory';
+import { TransactionModel } from '../models/Transaction';
+import { MessageModel } from '../models/Message';
+import { NotificationService } from './NotificationService';
+import { SUPPLY_CONTRACT_CONFIG, settleContractHour } from '../constants/contracts';
+import { getInventoryItemType, roundQuantity } from '../constants/inventory';
+import { getShippingCostPct } from '../constants/logistics';
+import { MILLISECONDS_PER_HOUR, MILLISECONDS_PER_QUARTER } from '../utils/gameTime';
+
+export class SupplyContractError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'SupplyContractError';
+  }
+}
+
+export interface ProposeSupplyContractInput {
+  corporation_id: number;               // The proposer's corporation
+  counterparty_corporation_id: number;
+  role: SupplyContractRole;             // The proposer's side of the contract
+  state_code: string;                   // Where the proposer ships from (supplier) or receives (buyer)
+  item: string;
+  units_per_hour: number;
+  price_per_unit: number;
+  quarters: number;
+  user_id: number;
+}
+
+export interface SupplyContractRunResult {
+  settled: number;
+  completed: number;
+  units_delivered: number;
+  units_short: number;
+  payments: number;
+  penalties: number;
+}
+
+function formatMoney(amount: number): string {
+  return `$${amount.toLocaleString('en-US', { minimumFractionDigits: 2, maximumFractionDigits: 2 })}`;
+}
+
+function isCeoOf(corp: Corporation, userId: number): boolean {
+  return corp.ceo_id === userId || corp.elected_ceo_id === userId;
+}
+
+function effectiveCeoId(corp: Corporation): number {
+  return corp.elected_ceo_id ?? corp.ceo_id;
+}
+
+function proposerCorporationId(contract: SupplyContract): number {
+  return contract.proposed_by === 'supplier' ? contract.supplier_corporation_id : contract.buyer_corporation_id;
+}
+
+function describeTerms(contract: SupplyContract): string {
+  return `${contract.units_per_hour} ${contract.item}/hour at ${formatMoney(contract.price_per_unit)}/unit for ${contract.quarters} quarter${contract.quarters === 1 ? '' : 's'}`;
+}
+
+/**
+ * Bilateral supply contracts.
+ *
+ * Either side proposes terms to the other corporation's CEO, who accepts or rejects
+ * them; the proposer may withdraw until then. Once active, the hourly revenue job
+ * settles every contract: the supplier ships what it has in stock (up to the contracted
+ * amount) from its source state into the buyer's stock in the destination state, paying
+ * the shipping between them, the buyer pays the fixed price for what it can afford, and
+ * the supplier pays a penalty to the buyer for every unit it was short. Contracted units are held back from the
+ * supplier's surplus sales, so they are kept in stock for delivery.
+ */
+export class SupplyContractService {
+  static async propose(input: ProposeSupplyContractInput): Promise<SupplyContract> {
+    const itemType = getInventoryItemType(input.item);
+    if (!itemType) {
+      throw new SupplyContractError('Unknown resource or product');
+    }
+    if (input.corporation_id === input.counterparty_corporation_id) {
+      throw new SupplyContractError('A corporation cannot contract with itself');
+    }
+
+    const [proposer, counterparty] = await Promise.all([
+      CorporationModel.findById(input.corporation_id),
+      CorporationModel.findById(input.counterparty_corporation_id),
+    ]);
+    if (!proposer || proposer.retired_at) {
+      throw new SupplyContractError('Corporation not found');
+    }
+    if (!counterparty || counterparty.retired_at) {
+      throw new SupplyContractError('Counterparty corporation not found');
+    }
+    if (!isCeoOf(proposer, input.user_id)) {
+      throw new SupplyContractError('Only the CEO can propose contracts on behalf of the corporation');
+    }
+
+    for (const corp of [proposer, counterparty]) {
+      const open = await SupplyContractModel.countOpenByCorporation(corp.id);
+      if (open >= SUPPLY_CONTRACT_CONFIG.MAX_OPEN_CONTRACTS_PER_CORPORATION) {
+        throw new SupplyContractError(
+          `${corp.name} already has ${SUPPLY_CONTRACT_CONFIG.MAX_OPEN_CONTRACTS_PER_CORPORATION} open supply contracts`
+        );
+      }
+    }
+
+    const isSupplier = input.role === 'supplier';
+    const contract = await SupplyContractModel.create({
+      supplier_corporation_id: isSupplier ? proposer.id : counterparty.id,
+      buyer_corporation_id: isSupplier ? counterparty.id : proposer.id,
+      item: input.item,
+      item_type: itemType,
+      units_per_hour: input.units_per_hour,
+      price_per_unit: input.price_per_unit,
+      quarters: input.quarters,
+      source_state_code: isSupplier ? input.state_code : null,
+      destination_state_code: isSupplier ? null : input.state_code,
+      proposed_by: input.role,
+      proposer_user_id: input.user_id,
+      proposal_expires_at: new Date(Date.now() + SUPPLY_CONTRACT_CONFIG.PROPOSAL_EXPIRY_HOURS * MILLISECONDS_PER_HOUR),
+    });
+
+    // The proposal is delivered as a message from the proposing CEO
+    try {
+      await MessageModel.create({
+        sender_id: input.user_id,
+        recipient_id: effectiveCeoId(counterparty),
+        subject: `Supply Contract Proposal from ${proposer.name}`,
+        body: `${proposer.name} proposes to ${isSupplier ? 'supply' : 'buy from'} ${counterparty.name}: ${describeTerms(contract)}, `
+          + `${isSupplier ? `shipped from ${input.state_code}` : `delivered to ${input.state_code}`}. `
+          + `Review supply contract #${contract.id} on the ${counterparty.name} finances tab to accept or reject it. `
+          + `The proposal lapses in ${SUPPLY_CONTRACT_CONFIG.PROPOSAL_EXPIRY_HOURS} hours.`,
+      });
+    } catch (msgErr: unknown) {
+      console.warn(`Failed to send supply contract proposal ${contract.id}:`, msgErr);
+    }
+
+    return contract;
+  }
+
+  /**
+   * Accept a proposal as the counterparty's CEO, naming the counterparty's state.
+   * The term starts immediately.
+   */
+  static async accept(contract: SupplyContract, userId: number, stateCode: string): Promise<SupplyContract> {
+    if (contract.status !== 'proposed') {
+      throw new SupplyContractError('This contract is no longer open for acceptance');
+    }
+
+    const counterpartyId = contract.proposed_by === 'supplier'
+      ? contract.buyer_corporation_id
+      : contract.supplier_corporation_id;
+    const counterparty = await CorporationModel.findById(counterpartyId);
+    if (!counterparty || !isCeoOf(counterparty, userId)) {
+      throw new SupplyContractError('Only the counterparty\'s CEO can accept this contract');
+    }
+
+    const now = new Date();
+    const accepted = await SupplyContractModel.accept(
+      contract.id,
+      userId,
+      contract.proposed_by === 'supplier' ? { destination_state_code: stateCode } : { source_state_code: stateCode },
+      now,
+      new Date(now.getTime() + contract.quarters * MILLISECONDS_PER_QUARTER)
+    );
+    if (!accepted) {
+      throw new SupplyContractError('This contract is no longer open for acceptance');
+    }
+
+    await NotificationService.notify([contract.proposer_user_id], {
+      category: 'supply_contract',
+      title: `Supply Contract Accepted: ${counterparty.name}`,
+      body: `${counterparty.name} accepted supply contract #${contract.id} (${describeTerms(accepted)}). `
+        + `Deliveries from ${accepted.source_state_code} to ${accepted.destination_state_code} start with the next hourly settlement.`,
+      link: `/corporation/${proposerCorporationId(contract)}`,
+      corporation_id: proposerCorporationId(contract),
+    });
+
+    return accepted;
+  }
+
+  static async reject(contract: SupplyContract, userId: number): Promise<SupplyContract> {
+    const counterpartyId = contract.proposed_by === 'supplier'
+      ? contract.buyer_corporation_id
+      : contract.supplier_corporation_id;
+    const counterparty = await CorporationModel.findById(counterpartyId);
+    if (!counterparty || !isCeoOf(counterparty, userId)) {
+      throw new SupplyContractError('Only the counterparty\'s CEO can reject this contract');
+    }
+
+    const rejected = await SupplyContractModel.closeProposal(contract.id, 'rejected');
+    if (!rejected) {
+      throw new SupplyContractError('This contract is no longer open');
+    }
+
+    await NotificationService.notify([contract.proposer_user_id], {
+      category: 'supply_contract',
+      title: `Supply Contract Rejected: ${counterparty.name}`,
+      body: `${counterparty.name} rejected supply contract #${contract.id} (${describeTerms(contract)}).`,
+      link: `/corporation/${proposerCorporationId(contract)}`,
+      corporation_id: proposerCorporationId(contract),
+    });
+
+    return rejected;
+  }
+
+  // Withdraw a proposal before it is accepted (the proposing corporation's CEO)
+  static async withdraw(contract: SupplyContract, userId: number): Promise<SupplyContract> {
+    const proposerId = contract.proposed_by === 'supplier'
+      ? contract.supplier_corporation_id
+      : contract.buyer_corporation_id;
+    const proposer = await CorporationModel.findById(proposerId);
+    if (!proposer || !isCeoOf(proposer, userId)) {
+      throw new SupplyContractError('Only the proposing corporation\'s CEO can withdraw this contract');
+    }
+
+    const withdrawn = await SupplyContractModel.closeProposal(contract.id, 'withdrawn');
+    if (!withdrawn) {
+      throw new SupplyContractError('This contract is no longer open');
+    }
+    return withdrawn;
+  }
+
+  /**
+   * Settle one hour of every active contract. Contracts whose term has ended are
+   * completed first and lapsed proposals expired.
+   */
+  static async settleAll(now: Date = new Date()): Promise<SupplyContractRunResult> {
+    const result: SupplyContractRunResult = {
+      settled: 0,
+      completed: await SupplyContractModel.completeEnded(now),
+      units_delivered: 0,
+      units_short: 0,
+      payments: 0,
+      penalties: 0,
+    };
+    await SupplyContractModel.expireProposals(now);
+
+    const contracts = await SupplyContractModel.findActive(now);
+    for (const contract of contracts) {
+      try {
+        const settlement = await this.settle(contract, now);
+        if (!settlement) continue;
+        result.settled++;
+        result.units_delivered += settlement.units_delivered;
+        result.units_short += settlement.units_short;
+        result.payments += settlement.payment;
+        result.penalties += settlement.penalty;
+      } catch (err: unknown) {
+        console.warn(`[SupplyContracts] Failed to settle contract ${contract.id}:`, err);
+      }
+    }
+
+    result.units_delivered = roundQuantity(result.units_delivered);
+    result.units_short = roundQuantity(result.units_short);
+    return result;
+  }
+
+  /**
+   * Settle one hour of a contract as one transaction: stock moves from the supplier's
+   * source state to the buyer's destination state at the supplier's shipping cost, the
+   * buyer pays, and any shortfall penalty moves from the supplier to the buyer.
+   */
+  private static async settle(contract: SupplyContract, settledAt: Date) {
+    const { source_state_code: source, destination_state_code: destination } = contract;
+    if (!source || !destination) return null;
+
+    const [supplier, buyer, holding] = await Promise.all([
+      CorporationModel.findById(contract.supplier_corporation_id),
+      CorporationModel.findById(contract.buyer_corporation_id),
+      InventoryModel.findHolding(contract.supplier_corporation_id, source, contract.item),
+    ]);
+    if (!supplier || !buyer) return null;
+
+    const hour = settleContractHour({
+      units_per_hour: contract.units_per_hour,
+      price_per_unit: contract.price_per_unit,
+      supplier_stock: holding?.quantity ?? 0,
+      buyer_capital: buyer.capital,
+      supplier_capital: supplier.capital,
+      shipping_cost_pct: getShippingCostPct(source, destination),
+    });
+
+    return await withTransaction(async (session) => {
+      let costOfGoodsSold = 0;
+
+      if (hour.units_delivered > 0) {
+        const withdrawn = await InventoryModel.withdraw(supplier.id, source, contract.item, hour.units_delivered, session);
+        if (withdrawn === null) {
+          throw new SupplyContractError(`${supplier.name}'s stock changed during settlement`);
+        }
+        costOfGoodsSold = withdrawn;
+
+        if (!await CorporationModel.debitCapital(buyer.id, hour.payment, session)) {
+          throw new SupplyContractError(`${buyer.name}'s capital changed during settlement`);
+        }
+        await CorporationModel.incrementCapital(supplier.id, hour.payment - hour.shipping_cost, session);
+        // The supplier books the gain over the stock's cost and shipping; the buyer carries it at the contract price
+        await CorporationModel.accrueEarnings(supplier.id, hour.payment - hour.shipping_cost - costOfGoodsSold, session);
+        await InventoryModel.adjust(
+          buyer.id,
+          destination,
+          contract.item,
+          contract.item_type,
+          hour.units_delivered,
+          hour.payment,
+          session
+        );
+
+        await TransactionModel.create({
+          transaction_type: 'contract_payment',
+          amount: hour.payment,
+          corporation_id: buyer.id,
+          description: `Supply contract #${contract.id}: ${hour.units_delivered} ${contract.item} from ${supplier.name} at ${formatMoney(contract.price_per_unit)}/unit`,
+          reference_id: contract.id,
+          reference_type: 'supply_contract',
+        }, session);
+
+        if (hour.shipping_cost > 0) {
+          await TransactionModel.create({
+            transaction_type: 'shipping',
+            amount: hour.shipping_cost,
+            corporation_id: supplier.id,
+            description: `Supply contract #${contract.id}: shipped ${hour.units_delivered} ${contract.item} from ${source} to ${destination}`,
+            reference_id: contract.id,
+            reference_type: 'supply_contract',
+          }, session);
+        }
+      }
+
+      if (hour.penalty > 0) {
+        if (!await CorporationModel.debitCapital(supplier.id, hour.penalty, session)) {
+          throw new SupplyContractError(`${supplier.name}'s capital changed during settlement`);
+        }
+        await CorporationModel.incrementCapital(buyer.id, hour.penalty, session);
+        await CorporationModel.accrueEarnings(supplier.id, -hour.penalty, session);
+        await CorporationModel.accrueEarnings(buyer.id, hour.penalty, session);
+
+        await TransactionModel.create({
+          transaction_type: 'contract_penalty',
+          amount: hour.penalty,
+          corporation_id: supplier.id,
+          description: `Supply contract #${contract.id}: ${hour.units_short} ${contract.item} short of delivery to ${buyer.name}`,
+          reference_id: contract.id,
+          reference_type: 'supply_contract',
+        }, session);
+      }
+
+      await SupplyContractSettlementModel.create({
+        contract_id: contract.id,
+        supplier_corporation_id: supplier.id,
+        buyer_corporation_id: buyer.id,
+        item: contract.item,
+        units_due: contract.units_per_hour,
+        units_delivered: hour.units_delivered,
+        units_short: hour.units_short,
+        units_unpaid: hour.units_unpaid,
+        price_per_unit: contract.price_per_unit,
+        payment: hour.payment,
+        cost_of_goods_sold: costOfGoodsSold,
+        shipping_cost: hour.shipping_cost,
+        penalty: hour.penalty,
+      }, settledAt, session);
+
+      const recorded = await SupplyContractModel.recordSettlement(contract.id, {
+        units_delivered: hour.units_delivered,
+        units_short: hour.units_short,
+        paid: hour.payment,
+        penalty: hour.penalty,
+      }, settledAt, session);
+      if (!recorded) {
+        throw new SupplyContractError('The contract is no longer active');
+      }
+
+      return hour;
+    });
+  }
+}
@@ -0,0 +1,415 @@
+import { ClientSession } from 'mongodb';
+import { getDb, withTransaction } from '../db/mongo';
+import { TenderOfferModel, TenderOffer } from '../models/TenderOffer';
+import { CorporateHoldingModel } from '../models/CorporateHolding';
+import { ShareholderModel } from '../models/Shareholder';
+import { TransactionModel } from '../models/Transaction';
+import { CorporationModel, Corporation } from '../models/Corporation';
+import { BoardVoteModel } from '../models/BoardProposal';
+import { UserModel } from '../models/User';
+import { NotificationService } from './NotificationService';
+import { TENDER_OFFER_CONFIG, calculateStakePct, calculateMinimumOfferPrice } from '../constants/tenderOffers';
+
+export class TenderOfferError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'TenderOfferError';
+  }
+}
+
+export interface LaunchTenderOfferInput {
+  target_corporation_id: number;
+  bidder_user_id: number;
+  bidder_corporation_id: number | null;  // Bid with this corporation's capital instead of the bidder's cash
+  price_per_share: number;
+  max_shares: number;
+  window_hours?: number;
+}
+
+export interface TenderOfferSettlement {
+  offer: TenderOffer;
+  shares_purchased: number;
+  amount_paid: number;
+  refund: number;
+  stake_pct: number;
+  new_ceo_id: number | null;
+}
+
+export interface TenderOfferRunResult {
+  settled: number;
+  succeeded: number;
+  failed: number;
+}
+
+const HOUR_MS = 60 * 60 * 1000;
+
+function formatMoney(amount: number): string {
+  return `$${amount.toLocaleString('en-US', { minimumFractionDigits: 2, maximumFractionDigits: 2 })}`;
+}
+
+function isCeoOf(corp: Corporation, userId: number): boolean {
+  return corp.ceo_id === userId || corp.elected_ceo_id === userId;
+}
+
+/**
+ * Tender offers for control of a corporation.
+ *
+ * The bidder's cash (or their corporation's capital) for the full offer is escrowed
+ * at launch. Shareholders tender shares into the offer during its window and may
+ * withdraw them until it closes. When the window ends the offer is all-or-nothing:
+ * if the bidder's stake (existing holding plus tendered shares, over the target's
+ * outstanding shares at that moment) reaches the control threshold, tenderers are
+ * paid, the shares move to the bidder and the bidder takes the CEO seat with a fresh
+ * board. Otherwise every tendered share goes back and the escrow is refunded.
+ *
+ * The target's defenses work through existing mechanisms: issuing shares raises the
+ * outstanding count and dilutes the bidder's stake, and a special dividend drains the
+ * capital the bidder would be acquiring.
+ */
+export class TenderOfferService {
+  /**
+   * Shares of the target the bidder already owns outside this offer
+   */
+  static async getBidderHolding(
+    offer: Pick<TenderOffer, 'target_corporation_id' | 'bidder_user_id' | 'bidder_corporation_id'>,
+    session?: ClientSession
+  ): Promise<number> {
+    if (offer.bidder_corporation_id !== null) {
+      const holding = await CorporateHoldingModel.getHolding(offer.bidder_corporation_id, offer.target_corporation_id, session);
+      return holding?.shares ?? 0;
+    }
+    const holding = await ShareholderModel.getShareholder(offer.target_corporation_id, offer.bidder_user_id, session);
+    return holding?.shares ?? 0;
+  }
+
+  static async launch(input: LaunchTenderOfferInput): Promise<TenderOffer> {
+    const target = await CorporationModel.findById(input.target_corporation_id);
+    if (!target || target.retired_at) {
+      throw new TenderOfferError('Target corporation not found');
+    }
+
+    let bidderCorp: Corporation | null = null;
+    if (input.bidder_corporation_id !== null) {
+      if (input.bidder_corporation_id === target.id) {
+        throw new TenderOfferError('A corporation cannot bid for itself');
+      }
+      bidderCorp = await CorporationModel.findById(input.bidder_corporation_id);
+      if (!bidderCorp) {
+        throw new TenderOfferError('Bidding corporation not found');
+      }
+      if (!isCeoOf(bidderCorp, input.bidder_user_id)) {
+        throw new TenderOfferError('Only the CEO can launch a tender offer on behalf of a corporation');
+      }
+    } else if (isCeoOf(target, input.bidder_user_id)) {
+      throw new TenderOfferError('You already run this corporation');
+    }
+
+    const minPrice = calculateMinimumOfferPrice(target.share_price);
+    if (input.price_per_share < minPrice) {
+      throw new TenderOfferError(`Offer price must be at least the current share price of ${formatMoney(minPrice)}`);
+    }
+
+    const existing = await TenderOfferModel.findOpenByBidder(target.id, input.bidder_user_id, input.bidder_corporation_id);
+    if (existing) {
+      throw new TenderOfferError('You already have an open tender offer for this corporation');
+    }
+
+    const held = await this.getBidderHolding({
+      target_corporation_id: target.id,
+      bidder_user_id: input.bidder_user_id,
+      bidder_corporation_id: input.bidder_corporation_id,
+    });
+    if (input.max_shares > target.shares - held) {
+      throw new TenderOfferError(`Only ${(target.shares - held).toLocaleString()} shares are held by others`);
+    }
+
+    const threshold = TENDER_OFFER_CONFIG.CONTROL_THRESHOLD_PCT;
+    if (calculateStakePct(held + input.max_shares, target.shares) < threshold) {
+      throw new TenderOfferError(`Offer is too small to reach a ${threshold}% stake, even if fully tendered`);
+    }
+
+    const windowHours = input.window_hours ?? TENDER_OFFER_CONFIG.DEFAULT_WINDOW_HOURS;
+    const escrow = input.price_per_share * input.max_shares;
+
+    const offer = await withTransaction(async (session) => {
+      if (bidderCorp) {
+        const debited = await CorporationModel.debitCapital(bidderCorp.id, escrow, session);
+        if (!debited) {
+          throw new TenderOfferError(`${bidderCorp.name} has insufficient capital to fund the offer (${formatMoney(escrow)} required)`);
+        }
+      } else {
+        const debited = await UserModel.debitCash(input.bidder_user_id, escrow, session);
+        if (!debited) {
+          throw new TenderOfferError(`Insufficient funds to fund the offer (${formatMoney(escrow)} required)`);
+        }
+      }
+
+      const created = await TenderOfferModel.create({
+        target_corporation_id: target.id,
+        bidder_type: bidderCorp ? 'corporation' : 'user',
+        bidder_user_id: input.bidder_user_id,
+        bidder_corporation_id: bidderCorp?.id ?? null,
+        price_per_share: input.price_per_share,
+        max_shares: input.max_shares,
+        control_threshold_pct: threshold,
+        expires_at: new Date(Date.now() + windowHours * HOUR_MS),
+      }, session);
+
+      await TransactionModel.create({
+        transaction_type: 'tender_offer_escrow',
+        amount: -escrow,
+        from_user_id: bidderCorp ? null : input.bidder_user_id,
+        corporation_id: bidderCorp?.id ?? target.id,
+        description: `Escrow for tender offer for ${input.max_shares.toLocaleString()} shares of ${target.name} at ${formatMoney(input.price_per_share)}/share`,
+        reference_id: created.id,
+        reference_type: 'tender_offer',
+      }, session);
+
+      return created;
+    });
+
+    // Every holder of the target (and its CEO) gets the offer
+    const shareholders = await ShareholderModel.findByCorporationId(target.id);
+    const recipients = new Set<number>([target.ceo_id, ...shareholders.map(s => s.user_id)]);
+    if (target.elected_ceo_id) recipients.add(target.elected_ceo_id);
+    recipients.delete(input.bidder_user_id);
+
+    const bidderName = bidderCorp?.name ?? (await UserModel.findById(input.bidder_user_id))?.username ?? 'A player';
+    await NotificationService.notify([...recipients], {
+      category: 'tender_offer',
+      title: `Tender Offer: ${target.name}`,
+      body: `${bidderName} has offered ${formatMoney(offer.price_per_share)} per share for up to ${offer.max_shares.toLocaleString()} shares of ${target.name} (current price ${formatMoney(target.share_price)}).\n\n` +
+        `Shareholders can tender their shares until ${offer.expires_at.toUTCString()}. If the bidder reaches ${threshold}% of outstanding shares, they take control of the CEO seat and the board.\n\n` +
+        `The board can respond by issuing new shares or proposing a special dividend.`,
+      link: `/corporation/${target.id}`,
+      corporation_id: target.id,
+    });
+
+    return offer;
+  }
+
+  /**
+   * Move shares from a holder into an open offer. They leave the holder's
+   * position (no votes or dividends) until the offer closes or they withdraw.
+   */
+  static async tender(offer: TenderOffer, userId: number, shares: number): Promise<TenderOffer> {
+    if (offer.bidder_type === 'user' && offer.bidder_user_id === userId) {
+      throw new TenderOfferError('You cannot tender into your own offer');
+    }
+
+    return await withTransaction(async (session) => {
+      const held = await ShareholderModel.decrementShares(offer.target_corporation_id, userId, shares, session);
+      if (!held) {
+        throw new TenderOfferError('You do not own enough shares');
+      }
+
+      const updated = await TenderOfferModel.addTender(offer.id, userId, shares, session);
+      if (!updated) {
+        throw new TenderOfferError(`The offer is closed or has only ${(offer.max_shares - offer.shares_tendered).toLocaleString()} shares left to fill`);
+      }
+      return updated;
+    });
+  }
+
+  static async withdrawTender(offer: TenderOffer, userId: number): Promise<{ offer: TenderOffer; shares_returned: number }> {
+    return await withTransaction(async (session) => {
+      const before = await TenderOfferModel.removeTender(offer.id, userId, session);
+      const tender = before?.tenders.find(t => t.user_id === userId);
+      if (!before || !tender) {
+        throw new TenderOfferError('You have no shares tendered into an open offer');
+      }
+
+      await ShareholderModel.create({
+        corporation_id: offer.target_corporation_id,
+        user_id: userId,
+        shares: tender.shares,
+      }, session);
+
+      return {
+        offer: {
+          ...before,
+          shares_tendered: before.shares_tendered - tender.shares,
+          tenders: before.tenders.filter(t => t.user_id !== userId),
+        },
+        shares_returned: tender.shares,
+      };
+    });
+  }
+
+  /**
+   * Cancel an open offer: tendered shares go back and the escrow is refunded
+   */
+  static async withdrawOffer(offer: TenderOffer): Promise<TenderOffer> {
+    const closed = await withTransaction(async (session) => {
+      const result = await TenderOfferModel.close(offer.id, 'withdrawn', null, session);
+      if (!result) {
+        throw new TenderOfferError('The offer is no longer open');
+      }
+
+      await this.returnTenders(result, session);
+      await this.refundEscrow(result, result.escrow, 'withdrawn', session);
+      return result;
+    });
+
+    await NotificationService.notify(closed.tenders.map(t => t.user_id), {
+      category: 'tender_offer',
+      title: 'Tender Offer Withdrawn',
+      body: `The tender offer at ${formatMoney(closed.price_per_share)}/share was withdrawn by the bidder. Your tendered shares have been returned.`,
+      link: `/corporation/${closed.target_corporation_id}`,
+      corporation_id: closed.target_corporation_id,
+    });
+
+    return closed;
+  }
+
+  /**
+   * Close an offer whose window has ended. All-or-nothing: the bidder buys the
+   * tendered shares only if that lifts their stake to the control threshold.
+   */
+  static async settle(offer: TenderOffer): Promise<TenderOfferSettlement> {
+    const target = await CorporationModel.findById(offer.target_corporation_id);
+    if (!target) {
+      throw new TenderOfferError('Target corporation not found');
+    }
+
+    const settlement = await withTransaction(async (session) => {
+      // Closing first stops further tenders; the outcome is decided from what was tendered by then
+      const open = await TenderOfferModel.close(offer.id, 'failed', null, session);
+      if (!open) {
+        throw new TenderOfferError('The offer is no longer open');
+      }
+
+      const current = await CorporationModel.findById(target.id, session);
+      const held = await this.getBidderHolding(open, session);
+      const stakePct = calculateStakePct(held + open.shares_tendered, current?.shares ?? target.shares);
+      const succeeded = open.shares_tendered > 0 && stakePct >= open.control_threshold_pct;
+
+      const closed = await TenderOfferModel.setOutcome(open.id, succeeded ? 'succeeded' : 'failed', stakePct, session);
+      if (!closed) {
+        throw new TenderOfferError('The offer is no longer open');
+      }
+
+      if (!succeeded) {
+        await this.returnTenders(closed, session);
+        await this.refundEscrow(closed, closed.escrow, 'failed', session);
+        return { offer: closed, shares_purchased: 0, amount_paid: 0, refund: closed.escrow, stake_pct: stakePct, new_ceo_id: null };
+      }
+
+      let newCeoId = closed.bidder_user_id;
+      if (closed.bidder_corporation_id !== null) {
+        const bidderCorp = await CorporationModel.findById(closed.bidder_corporation_id, session);
+        if (bidderCorp) newCeoId = bidderCorp.elected_ceo_id ?? bidderCorp.ceo_id;
+      }
+
+      let paid = 0;
+      for (const tender of closed.tenders) {
+        const proceeds = tender.shares * closed.price_per_share;
+        paid += proceeds;
+        await UserModel.updateCash(tender.user_id, proceeds, session);
+        await TransactionModel.create({
+          transaction_type: 'tender_offer_purchase',
+          amount: proceeds,
+          from_user_id: closed.bidder_type === 'user' ? closed.bidder_user_id : null,
+          to_user_id: tender.user_id,
+          corporation_id: target.id,
+          description: `Sold ${tender.shares.toLocaleString()} shares of ${target.name} into tender offer at ${formatMoney(closed.price_per_share)}/share`,
+          reference_id: closed.id,
+          reference_type: 'tender_offer',
+        }, session);
+      }
+
+      if (closed.bidder_corporation_id !== null) {
+        await CorporateHoldingModel.addShares(closed.bidder_corporation_id, target.id, closed.shares_tendered, session);
+      } else {
+        await ShareholderModel.create({
+          corporation_id: target.id,
+          user_id: closed.bidder_user_id,
+          shares: closed.shares_tendered,
+        }, session);
+      }
+
+      const refund = closed.escrow - paid;
+      if (refund > 0) {
+        await this.refundEscrow(closed, refund, 'succeeded', session);
+      }
+
+      // Change of control: the bidder replaces the CEO outright and the old board's appointments lapse
+      await CorporationModel.transferCeo(target.id, newCeoId, session);
+      await getDb().collection('board_appointments').deleteMany({ corporation_id: target.id }, { session });
+
+      return { offer: closed, shares_purchased: closed.shares_tendered, amount_paid: paid, refund, stake_pct: stakePct, new_ceo_id: newCeoId };
+    });
+
+    const succeeded = settlement.offer.status === 'succeeded';
+    if (succeeded) {
+      await BoardVoteModel.cleanupNonBoardMemberVotes(target.id);
+    }
+
+    const stakePct = settlement.stake_pct;
+    const outcome = succeeded
+      ? `The bidder reached ${stakePct.toFixed(1)}% of ${target.name} and has taken control of the CEO seat and the board. Tendered shares were purchased at ${formatMoney(offer.price_per_share)}/share.`
+      : `The bidder reached only ${stakePct.toFixed(1)}% of ${target.name}, short of the ${offer.control_threshold_pct}% control threshold. Tendered shares have been returned and the escrow refunded.`;
+
+    const recipients = new Set<number>([offer.bidder_user_id, target.ceo_id, ...settlement.offer.tenders.map(t => t.user_id)]);
+    if (target.elected_ceo_id) recipients.add(target.elected_ceo_id);
+    // A successful offer changes who runs the corporation
+    await NotificationService.notify([...recipients], {
+      category: succeeded ? 'ceo_change' : 'tender_offer',
+      title: `Tender Offer ${succeeded ? 'Succeeded' : 'Failed'}: ${target.name}`,
+      body: outcome,
+      link: `/corporation/${target.id}`,
+      corporation_id: target.id,
+    });
+
+    return settlement;
+  }
+
+  /**
+   * Settle every offer whose acceptance window has ended (for the cron job)
+   */
+  static async run(now: Date = new Date()): Promise<TenderOfferRunResult> {
+    const result: TenderOfferRunResult = { settled: 0, succeeded: 0, failed: 0 };
+    const offers = await TenderOfferModel.findExpiredOpen(now);
+
+    for (const offer of offers) {
+      try {
+        const settlement = await this.settle(offer);
+        result.settled++;
+        if (settlement.offer.status === 'succeeded') result.succeeded++;
+        else result.failed++;
+      } catch (err: unknown) {
+        console.error(`Error settling tender offer ${offer.id}:`, err);
+      }
+    }
+
+    return result;
+  }
+
+  private static async returnTenders(offer: TenderOffer, session: ClientSession): Promise<void> {
+    for (const tender of offer.tenders) {
+      await ShareholderModel.create({
+        corporation_id: offer.target_corporation_id,
+        user_id: tender.user_id,
+        shares: tender.shares,
+      }, session);
+    }
+  }
+
+  private static async refundEscrow(offer: TenderOffer, amount: number, reason: string, session: ClientSession): Promise<void> {
+    if (offer.bidder_corporation_id !== null) {
+      await CorporationModel.incrementCapital(offer.bidder_corporation_id, amount, session);
+    } else {
+      await UserModel.updateCash(offer.bidder_user_id, amount, session);
+    }
+
+    await TransactionModel.create({
+      transaction_type: 'tender_offer_refund',
+      amount,
+      to_user_id: offer.bidder_corporation_id !== null ? null : offer.bidder_user_id,
+      corporation_id: offer.bidder_corporation_id ?? offer.target_corporation_id,
+      description: `Tender offer escrow returned (offer ${reason})`,
+      reference_id: offer.id,
+      reference_type: 'tender_offer',
+    }, session);
+  }
+}
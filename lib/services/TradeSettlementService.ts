@@ -0,0 +1,170 @@
+import { withTransaction } from '../db/mongo';
+import { CorporationModel, Corporation } from '../models/Corporation';
+import { ShareholderModel } from '../models/Shareholder';
+import { ShareTransactionModel } from '../models/ShareTransaction';
+import { TransactionModel } from '../models/Transaction';
+import { UserModel } from '../models/User';
+
+/**
+ * Raised inside a settlement when a conditional update fails (not enough cash,
+ * shares or public float). The transaction is aborted and nothing is written.
+ */
+export class TradeSettlementError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'TradeSettlementError';
+  }
+}
+
+export interface SettlementResult {
+  shares: number;
+  price_per_share: number;
+  total_amount: number;
+  share_transaction_id: number | null;
+}
+
+/**
+ * Settles share trades atomically.
+ *
+ * Each flow runs in a single session transaction and every balance it draws down
+ * is guarded by a conditional update (`cash >= cost`, `public_shares >= n`,
+ * `shares >= n`), so a crash or two racing requests can never leave cash debited
+ * without shares credited, or push a balance below zero.
+ * Prices are quoted by the caller before settlement.
+ */
+export class TradeSettlementService {
+  /**
+   * Buy shares from the corporation's public float
+   */
+  static async buyFromFloat(
+    corporationId: number,
+    userId: number,
+    shares: number,
+    pricePerShare: number
+  ): Promise<SettlementResult> {
+    const totalCost = pricePerShare * shares;
+
+    return await withTransaction(async (session) => {
+      const corp = await CorporationModel.decrementPublicShares(corporationId, shares, session);
+      if (!corp) {
+        throw new TradeSettlementError('Not enough public shares available');
+      }
+
+      const user = await UserModel.debitCash(userId, totalCost, session);
+      if (!user) {
+        throw new TradeSettlementError('Insufficient funds');
+      }
+
+      await ShareholderModel.create({ corporation_id: corporationId, user_id: userId, shares }, session);
+
+      const shareTransaction = await ShareTransactionModel.create({
+        corporation_id: corporationId,
+        user_id: userId,
+        transaction_type: 'buy',
+        shares,
+        price_per_share: pricePerShare,
+        total_amount: totalCost,
+      }, session);
+
+      await TransactionModel.create({
+        transaction_type: 'share_purchase',
+        amount: totalCost,
+        from_user_id: userId,
+        corporation_id: corporationId,
+        description: `Purchased ${shares} shares at $${pricePerShare.toFixed(2)}/share`,
+        reference_id: shareTransaction.id,
+        reference_type: 'share_transaction',
+      }, session);
+
+      return {
+        shares,
+        price_per_share: pricePerShare,
+        total_amount: totalCost,
+        share_transaction_id: shareTransaction.id,
+      };
+    });
+  }
+
+  /**
+   * Sell shares back into the corporation's public float
+   */
+  static async sellToFloat(
+    corporationId: number,
+    userId: number,
+    shares: number,
+    pricePerShare: number
+  ): Promise<SettlementResult> {
+    const totalProceeds = pricePerShare * shares;
+
+    return await withTransaction(async (session) => {
+      const holding = await ShareholderModel.decrementShares(corporationId, userId, shares, session);
+      if (!holding) {
+        throw new TradeSettlementError('Insufficient shares');
+      }
+
+      const corp = await CorporationModel.incrementPublicShares(corporationId, shares, session);
+      if (!corp) {
+        throw new TradeSettlementError('Corporation not found');
+      }
+
+      await UserModel.updateCash(userId, totalProceeds, session);
+
+      const shareTransaction = await ShareTransactionModel.create({
+        corporation_id: corporationId,
+        user_id: userId,
+        transaction_type: 'sell',
+        shares,
+        price_per_share: pricePerShare,
+        total_amount: totalProceeds,
+      }, session);
+
+      await TransactionModel.create({
+        transaction_type: 'share_sale',
+        amount: totalProceeds,
+        to_user_id: userId,
+        corporation_id: corporationId,
+        description: `Sold ${shares} shares at $${pricePerShare.toFixed(2)}/share`,
+        reference_id: shareTransaction.id,
+        reference_type: 'share_transaction',
+      }, session);
+
+      return {
+        shares,
+        price_per_share: pricePerShare,
+        total_amount: totalProceeds,
+        share_transaction_id: shareTransaction.id,
+      };
+    });
+  }
+
+  /**
+   * Issue new shares into the public float and credit the proceeds to capital
+   */
+  static async issueShares(
+    corporationId: number,
+    issuedBy: number,
+    shares: number,
+    pricePerShare: number
+  ): Promise<Corporation> {
+    const capitalRaised = pricePerShare * shares;
+
+    return await withTransaction(async (session) => {
+      await CorporationModel.incrementShares(corporationId, shares, session);
+      await CorporationModel.incrementPublicShares(corporationId, shares, session);
+      const corp = await CorporationModel.incrementCapital(corporationId, capitalRaised, session);
+      if (!corp) {
+        throw new TradeSettlementError('Corporation not found');
+      }
+
+      await TransactionModel.create({
+        transaction_type: 'share_issue',
+        amount: capitalRaised,
+        from_user_id: issuedBy,
+        corporation_id: corporationId,
+        description: `Issued ${shares} shares at $${pricePerShare.toFixed(2)}/share`,
+      }, session);
+
+      return corp;
+    });
+  }
+}
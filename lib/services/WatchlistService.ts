@@ -0,0 +1,275 @@
+import { CorporationModel } from '../models/Corporation';
+import { CommodityPriceHistoryModel } from '../models/CommodityPriceHistory';
+import { ProductPriceHistoryModel } from '../models/ProductPriceHistory';
+import { SharePriceHistoryModel } from '../models/SharePriceHistory';
+import { WatchlistItem, WatchlistItemModel } from '../models/WatchlistItem';
+import { PriceAlert, PriceAlertModel } from '../models/PriceAlert';
+import { NotificationService } from './NotificationService';
+import { getInventoryItemType } from '../constants/inventory';
+import {
+  WATCHLIST_CONFIG,
+  PriceAlertCondition,
+  PriceQuote,
+  WatchTarget,
+  WatchTargetType,
+  describePriceAlert,
+  getPriceChangePercent,
+  getWatchTargetKey,
+  isAlertConditionMet,
+} from '../constants/watchlists';
+import { formatCash, getErrorMessage } from '../utils';
+
+export class WatchlistError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'WatchlistError';
+  }
+}
+
+export interface WatchlistEntry extends WatchlistItem {
+  name: string;
+  price: number | null;
+  change_percent: number | null;   // Over the last day
+  alerts: PriceAlert[];
+}
+
+export interface AlertRunResult {
+  checked: number;
+  triggered: number;
+  rearmed: number;
+}
+
+/**
+ * Watchlists and price alerts.
+ *
+ * Users watch corporations by share price and resources and products by market price,
+ * and set threshold alerts on what they watch. Share alerts are evaluated whenever a share
+ * price is recalculated, resource and product alerts by cron once market prices are
+ * recorded; they notify their owner through the notification center when they fire.
+ */
+export class WatchlistService {
+  /**
+   * A user's watchlist with current prices, daily changes and alerts
+   */
+  static async getWatchlist(userId: number): Promise<WatchlistEntry[]> {
+    const [items, alerts] = await Promise.all([
+      WatchlistItemModel.findByUserId(userId),
+      PriceAlertModel.findByUserId(userId),
+    ]);
+    const [quotes, names] = await Promise.all([
+      this.getQuotes(items),
+      this.getTargetNames(items),
+    ]);
+
+    return items.map(item => {
+      const key = getWatchTargetKey(item);
+      const quote = quotes.get(key) ?? null;
+      return {
+        ...item,
+        name: names.get(key) ?? key,
+        price: quote?.price ?? null,
+        change_percent: quote ? getPriceChangePercent(quote) : null,
+        alerts: alerts.filter(alert => alert.watchlist_item_id === item.id),
+      };
+    });
+  }
+
+  /**
+   * Watch a corporation (by id) or a resource or product (by name)
+   */
+  static async addItem(userId: number, input: { corporation_id?: number; item?: string }): Promise<WatchlistItem> {
+    let target: WatchTarget;
+    if (input.corporation_id !== undefined) {
+      const corporation = await CorporationModel.findById(input.corporation_id);
+      if (!corporation) {
+        throw new WatchlistError('Corporation not found');
+      }
+      target = { target_type: 'corporation', corporation_id: corporation.id, item: null };
+    } else {
+      const itemType = input.item ? getInventoryItemType(input.item) : null;
+      if (!input.item || !itemType) {
+        throw new WatchlistError(`Unknown resource or product: ${input.item ?? ''}`);
+      }
+      target = { target_type: itemType, corporation_id: null, item: input.item };
+    }
+
+    if (await WatchlistItemModel.findByTarget(userId, target)) {
+      throw new WatchlistError('Already on your watchlist');
+    }
+    if (await WatchlistItemModel.countByUserId(userId) >= WATCHLIST_CONFIG.MAX_ITEMS) {
+      throw new WatchlistError(`A watchlist holds at most ${WATCHLIST_CONFIG.MAX_ITEMS} entries`);
+    }
+
+    return await WatchlistItemModel.create({ user_id: userId, ...target });
+  }
+
+  /**
+   * Stop watching an item, along with its alerts. Returns false if the user has no such item.
+   */
+  static async removeItem(userId: number, itemId: number): Promise<boolean> {
+    const item = await WatchlistItemModel.findById(itemId);
+    if (!item || item.user_id !== userId) return false;
+
+    await PriceAlertModel.deleteByWatchlistItemId(item.id);
+    return await WatchlistItemModel.delete(item.id);
+  }
+
+  static async createAlert(
+    userId: number,
+    itemId: number,
+    condition: PriceAlertCondition,
+    threshold: number
+  ): Promise<PriceAlert> {
+    const item = await WatchlistItemModel.findById(itemId);
+    if (!item || item.user_id !== userId) {
+      throw new WatchlistError('Watchlist entry not found');
+    }
+    if (await PriceAlertModel.countByWatchlistItemId(item.id) >= WATCHLIST_CONFIG.MAX_ALERTS_PER_ITEM) {
+      throw new WatchlistError(`At most ${WATCHLIST_CONFIG.MAX_ALERTS_PER_ITEM} alerts per watchlist entry`);
+    }
+
+    return await PriceAlertModel.create({
+      user_id: userId,
+      watchlist_item_id: item.id,
+      target_type: item.target_type,
+      corporation_id: item.corporation_id,
+      item: item.item,
+      condition,
+      threshold,
+    });
+  }
+
+  /**
+   * Delete one of the user's alerts. Returns false if the user has no such alert.
+   */
+  static async deleteAlert(userId: number, alertId: number): Promise<boolean> {
+    const alert = await PriceAlertModel.findById(alertId);
+    if (!alert || alert.user_id !== userId) return false;
+    return await PriceAlertModel.delete(alert.id);
+  }
+
+  /**
+   * Check every alert on the given kinds of target against current prices: notify the
+   * owners of alerts whose condition has newly been met, and re-arm alerts whose
+   * condition no longer holds.
+   */
+  static async evaluateAlerts(targetTypes: WatchTargetType[], now: Date = new Date()): Promise<AlertRunResult> {
+    return await this.evaluate(await PriceAlertModel.findByTargetTypes(targetTypes), now);
+  }
+
+  /**
+   * Check the alerts on one corporation's shares, for when its share price has just changed
+   */
+  static async evaluateShareAlerts(corporationId: number, now: Date = new Date()): Promise<AlertRunResult> {
+    return await this.evaluate(await PriceAlertModel.findByCorporationId(corporationId), now);
+  }
+
+  private static async evaluate(alerts: PriceAlert[], now: Date): Promise<AlertRunResult> {
+    const result: AlertRunResult = { checked: 0, triggered: 0, rearmed: 0 };
+    if (alerts.length === 0) return result;
+
+    const [quotes, names] = await Promise.all([
+      this.getQuotes(alerts),
+      this.getTargetNames(alerts),
+    ]);
+    const rearm: number[] = [];
+
+    for (const alert of alerts) {
+      const key = getWatchTargetKey(alert);
+      const quote = quotes.get(key);
+      if (!quote) continue;
+      result.checked++;
+
+      const met = isAlertConditionMet(alert.condition, alert.threshold, quote);
+      if (!met) {
+        if (!alert.armed) rearm.push(alert.id);
+        continue;
+      }
+      if (!alert.armed) continue;
+
+      try {
+        if (!(await PriceAlertModel.markTriggered(alert.id, now))) continue;
+        const name = names.get(key) ?? key;
+        const change = getPriceChangePercent(quote);
+        await NotificationService.notify([alert.user_id], {
+          category: 'price_alert',
+          title: `${name} ${describePriceAlert(alert.condition, alert.threshold)}`,
+          body: `${name} is at ${formatCash(quote.price)}` +
+            (change !== null ? ` (${change >= 0 ? '+' : ''}${change.toFixed(2)}% in a day).` : '.'),
+          link: getTargetLink(alert),
+          corporation_id: alert.corporation_id,
+        });
+        result.triggered++;
+      } catch (err: unknown) {
+        console.error(`Error triggering price alert ${alert.id}:`, getErrorMessage(err));
+      }
+    }
+
+    result.rearmed = await PriceAlertModel.rearm(rearm);
+    return result;
+  }
+
+  /**
+   * Current and day-old prices of targets, by target key. Corporations are quoted at their
+   * share price, resources and products at their latest recorded market price.
+   */
+  static async getQuotes(targets: WatchTarget[]): Promise<Map<string, PriceQuote>> {
+    const quotes = new Map<string, PriceQuote>();
+    const unique = new Map(targets.map(target => [getWatchTargetKey(target), target]));
+    const hours = WATCHLIST_CONFIG.DAILY_MOVE_HOURS;
+
+    const corporationIds = [...unique.values()]
+      .filter(target => target.target_type === 'corporation')
+      .map(target => target.corporation_id as number);
+    for (const corporation of await CorporationModel.findByIds(corporationIds)) {
+      quotes.set(getWatchTargetKey({ target_type: 'corporation', corporation_id: corporation.id, item: null }), {
+        price: Number(corporation.share_price),
+        previous: await SharePriceHistoryModel.getPriceFromHoursAgo(corporation.id, hours),
+      });
+    }
+
+    for (const [key, target] of unique) {
+      if (target.target_type === 'corporation' || !target.item) continue;
+
+      const [latest] = target.target_type === 'resource'
+        ? await CommodityPriceHistoryModel.findByResourceName(target.item, 1)
+        : await ProductPriceHistoryModel.findByProductName(target.item, 1);
+      if (!latest) continue;
+
+      quotes.set(key, {
+        price: latest.price,
+        previous: target.target_type === 'resource'
+          ? await CommodityPriceHistoryModel.getPriceFromHoursAgo(target.item, hours)
+          : await ProductPriceHistoryModel.getPriceFromHoursAgo(target.item, hours),
+      });
+    }
+
+    return quotes;
+  }
+
+  private static async getTargetNames(targets: WatchTarget[]): Promise<Map<string, string>> {
+    const names = new Map<string, string>();
+    const corporationIds = [...new Set(targets
+      .filter(target => target.target_type === 'corporation')
+      .map(target => target.corporation_id as number))];
+
+    for (const corporation of await CorporationModel.findByIds(corporationIds)) {
+      names.set(getWatchTargetKey({ target_type: 'corporation', corporation_id: corporation.id, item: null }), corporation.name);
+    }
+    for (const target of targets) {
+      if (target.item) names.set(getWatchTargetKey(target), target.item);
+    }
+    return names;
+  }
+}
+
+function getTargetLink(target: WatchTarget): string {
+  switch (target.target_type) {
+    case 'corporation':
+      return `/corporation/${target.corporation_id}`;
+    case 'resource':
+      return `/commodity/${encodeURIComponent(target.item ?? '')}`;
+    case 'product':
+      return `/product/${encodeURIComponent(target.item ?? '')}`;
+  }
+}
@@ -1,6 +1,6 @@
 const GAME_START_YEAR = 1930;
 const GAME_START_QUARTER = 1;
-const QUARTERS_PER_YEAR = 4;
+export const QUARTERS_PER_YEAR = 4;
 export const MILLISECONDS_PER_QUARTER = 24 * 60 * 60 * 1000;
 export const MILLISECONDS_PER_HOUR = 60 * 60 * 1000;
 
@@ -38,6 +38,34 @@ export function calculateGameTimeFromStart(
   };
 }
 
+/**
+ * Number of whole game quarters elapsed since the start date (the quarter containing `date`)
+ */
+export function getQuarterIndex(date: Date = new Date(), startDate: Date = gameStartDate): number {
+  return Math.floor((date.getTime() - startDate.getTime()) / MILLISECONDS_PER_QUARTER);
+}
+
+/**
+ * Real-world start of a game quarter by index
+ */
+export function getQuarterStartDate(quarterIndex: number, startDate: Date = gameStartDate): Date {
+  return new Date(startDate.getTime() + quarterIndex * MILLISECONDS_PER_QUARTER);
+}
+
+/**
+ * Quarter index of a game year and quarter
+ */
+export function getQuarterIndexForGameTime(gameTime: GameTime): number {
+  return (gameTime.year - GAME_START_YEAR) * QUARTERS_PER_YEAR + (gameTime.quarter - GAME_START_QUARTER);
+}
+
+/**
+ * Game year and quarter for a quarter index
+ */
+export function getGameTimeForQuarter(quarterIndex: number, startDate: Date = gameStartDate): GameTime {
+  return calculateGameTimeFromStart(startDate, getQuarterStartDate(quarterIndex, startDate));
+}
+
 export function calculateTimeUntilNextQuarter(
   startDate: Date,
   currentDate: Date = new Date()
@@ -2,6 +2,11 @@ import { getDb } from '../db/mongo';
 import { MarketEntryModel } from '../models/MarketEntry';
 import { ShareTransactionModel } from '../models/ShareTransaction';
 import { CorporationModel } from '../models/Corporation';
+import { LoanModel } from '../models/Loan';
+import { SalaryLedgerModel } from '../models/SalaryLedger';
+import { InventoryModel } from '../models/Inventory';
+import { WatchlistService } from '../services/WatchlistService';
+import { getErrorMessage } from '../utils';
 import {
   getUnitAssetValue,
   getMarketEntryAssetValue,
@@ -24,6 +29,7 @@ export interface BalanceSheet {
   // Assets
   cash: number;
   businessUnitAssets: number;
+  inventoryValue: number;      // Resources and products in stock, at cost
   totalAssets: number;
   
   // Asset breakdown
@@ -32,7 +38,9 @@ export interface BalanceSheet {
   serviceAssetValue: number;
   extractionAssetValue: number;
   
-  // Liabilities (simplified for now)
+  // Liabilities
+  loansPayable: number;        // Outstanding principal on active loans
+  salaryArrears: number;       // CEO salary accrued but not yet paid
   totalLiabilities: number;
   
   // Equity
@@ -149,21 +157,29 @@ export async function calculateBalanceSheet(corporationId: number): Promise<Bala
     ? parseFloat(corporation.capital) 
     : corporation.capital;
   
-  const unitAssets = await calculateBusinessUnitAssets(corporationId);
+  const [unitAssets, inventoryValue, loansPayable, salaryArrears] = await Promise.all([
+    calculateBusinessUnitAssets(corporationId),
+    InventoryModel.getTotalValue(corporationId),
+    LoanModel.getOutstandingPrincipal(corporationId),
+    SalaryLedgerModel.getArrearsTotal(corporationId),
+  ]);
   
-  const totalAssets = cash + unitAssets.totalValue;
-  const totalLiabilities = 0; // Simplified for now
+  const totalAssets = cash + unitAssets.totalValue + inventoryValue;
+  const totalLiabilities = loansPayable + salaryArrears;
   const shareholdersEquity = totalAssets - totalLiabilities;
   const bookValuePerShare = shareholdersEquity / corporation.shares;
   
   return {
     cash,
     businessUnitAssets: unitAssets.totalValue,
+    inventoryValue,
     totalAssets,
     retailAssetValue: unitAssets.retailValue,
     productionAssetValue: unitAssets.productionValue,
     serviceAssetValue: unitAssets.serviceValue,
     extractionAssetValue: unitAssets.extractionValue,
+    loansPayable,
+    salaryArrears,
     totalLiabilities,
     shareholdersEquity,
     bookValuePerShare,
@@ -337,7 +353,7 @@ export async function calculateStockPrice(corporationId: number): Promise<StockV
 }
 
 /**
- * Recalculate and update stock price for a corporation
+ * Recalculate and update stock price for a corporation, then check the alerts set on it
  * Returns the new price
  * @param applyVariation - If true, applies random hourly variation (±5%)
  */
@@ -363,6 +379,12 @@ export async function updateStockPrice(corporationId: number, applyVariation: bo
   await CorporationModel.update(corporationId, {
     share_price: finalPrice,
   });
+
+  try {
+    await WatchlistService.evaluateShareAlerts(corporationId);
+  } catch (err: unknown) {
+    console.error(`Error checking share price alerts for corporation ${corporationId}:`, getErrorMessage(err));
+  }
   
   return finalPrice;
 }
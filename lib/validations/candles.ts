@@ -0,0 +1,49 @@
+/**
+ * Candle Validation Schemas
+ *
+ * Zod validation schemas for requesting price history as OHLC candles:
+ * the candle resolution and how many candles to return.
+ *
+ * @module lib/validations/candles
+ * @created 2026-10-19
+ * @version 1.0.0
+ */
+
+import { z } from 'zod';
+import { CANDLE_CONFIG, CANDLE_RESOLUTIONS } from '../constants/candles';
+
+// ============================================================================
+// CANDLE SCHEMAS
+// ============================================================================
+
+/**
+ * Price candles query validation schema
+ *
+ * `resolution` selects hourly, daily or game-quarter candles. `count` is the
+ * number of most recent candle periods to cover, defaulting per resolution.
+ *
+ * @example
+ * ```typescript
+ * const query = { resolution: 'day', count: '30' };
+ * const result = PriceCandlesQuerySchema.safeParse(query);
+ * ```
+ */
+export const PriceCandlesQuerySchema = z.object({
+  resolution: z.enum(CANDLE_RESOLUTIONS, {
+    message: `Resolution must be one of: ${CANDLE_RESOLUTIONS.join(', ')}`,
+  }),
+  count: z
+    .string()
+    .regex(/^\d+$/, 'Count must be a whole number')
+    .transform(value => parseInt(value, 10))
+    .pipe(z
+      .number()
+      .min(1, 'Count must be at least 1')
+      .max(CANDLE_CONFIG.MAX_CANDLES, `Count must not exceed ${CANDLE_CONFIG.MAX_CANDLES}`))
+    .optional(),
+}).transform(data => ({
+  resolution: data.resolution,
+  count: data.count ?? CANDLE_CONFIG.DEFAULT_CANDLES[data.resolution],
+}));
+
+export type PriceCandlesQuery = z.infer<typeof PriceCandlesQuerySchema>;
@@ -97,6 +97,97 @@ export const TradeCommoditySchema = z.object({
 
 export type TradeCommodityRequest = z.infer<typeof TradeCommoditySchema>;
 
+// ============================================================================
+// SPOT MARKET ORDER SCHEMAS
+// ============================================================================
+
+/**
+ * Place spot market order validation schema
+ * 
+ * A limit order for a resource or product, placed on behalf of a corporation.
+ * Sells are taken from the corporation's stock in `stateCode`; buys are
+ * delivered there. Quantities are kept to four decimal places.
+ * 
+ * @example
+ * ```typescript
+ * const data = { corporationId: 3, stateCode: 'TX', side: 'sell', quantity: 25, limitPrice: 42.5 };
+ * const result = PlaceCommodityOrderSchema.safeParse(data);
+ * ```
+ */
+export const PlaceCommodityOrderSchema = z.object({
+  corporationId: z
+    .number()
+    .int('Corporation ID must be a whole number')
+    .positive('Corporation ID must be positive'),
+  stateCode: z
+    .string()
+    .length(2, 'State code must be 2 letters')
+    .transform((val) => val.toUpperCase()),
+  side: z.enum(['buy', 'sell']),
+  quantity: z
+    .number()
+    .min(0.0001, 'Quantity must be at least 0.0001 units')
+    .max(1000000, 'Quantity must not exceed 1,000,000 units')
+    .refine((val) => Number.isFinite(val), 'Quantity must be a finite number')
+    .transform((val) => Math.round(val * 10000) / 10000),
+  limitPrice: z
+    .number()
+    .min(0.01, 'Limit price must be at least $0.01')
+    .max(1000000, 'Limit price must not exceed $1,000,000')
+    .refine((val) => Number.isFinite(val), 'Limit price must be a finite number')
+    .transform((val) => Math.round(val * 100) / 100),
+  expiresInHours: z
+    .number()
+    .int('Expiry must be a whole number of hours')
+    .min(1, 'Orders must last at least 1 hour')
+    .max(96, 'Orders cannot last more than 96 hours')
+    .optional()
+    .default(24),
+});
+
+export type PlaceCommodityOrderRequest = z.infer<typeof PlaceCommodityOrderSchema>;
+
+/**
+ * List spot market orders query validation schema
+ * 
+ * Query parameters for listing orders in an item's book. `corporationId`
+ * narrows the list to one corporation's orders (of any status).
+ * 
+ * @example
+ * ```typescript
+ * const params = { status: 'open', side: 'buy', page: 1, limit: 20 };
+ * const result = ListCommodityOrdersSchema.safeParse(params);
+ * ```
+ */
+export const ListCommodityOrdersSchema = z.object({
+  status: z
+    .enum(['open', 'filled', 'cancelled', 'expired'])
+    .optional(),
+  side: z
+    .enum(['buy', 'sell'])
+    .optional(),
+  corporationId: z
+    .number()
+    .int('Corporation ID must be a whole number')
+    .positive('Corporation ID must be positive')
+    .optional(),
+  page: z
+    .number()
+    .int('Page must be a whole number')
+    .positive('Page must be positive')
+    .optional()
+    .default(1),
+  limit: z
+    .number()
+    .int('Limit must be a whole number')
+    .min(1, 'Limit must be at least 1')
+    .max(100, 'Limit must not exceed 100')
+    .optional()
+    .default(20),
+});
+
+export type ListCommodityOrdersQuery = z.infer<typeof ListCommodityOrdersSchema>;
+
 // ============================================================================
 // COMMODITY QUERY SCHEMAS
 // ============================================================================
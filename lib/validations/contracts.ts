@@ -0,0 +1,98 @@
+/**
+ * Supply Contract Validation Schemas
+ * 
+ * Zod validation schemas for bilateral supply contracts between
+ * corporations: proposals and acceptance.
+ * 
+ * @module lib/validations/contracts
+ * @created 2026-10-19
+ * @version 1.0.0
+ */
+
+import { z } from 'zod';
+import { SUPPLY_CONTRACT_CONFIG } from '../constants/contracts';
+
+const stateCode = z
+  .string()
+  .length(2, 'State code must be 2 letters')
+  .transform((val) => val.toUpperCase());
+
+// ============================================================================
+// SUPPLY CONTRACT SCHEMAS
+// ============================================================================
+
+/**
+ * Propose supply contract validation schema
+ * 
+ * Terms proposed by a corporation's CEO to another corporation. `role` is the
+ * proposer's side of the contract and `stateCode` the proposer's state: where
+ * a supplier ships from, or where a buyer takes delivery.
+ * 
+ * @example
+ * ```typescript
+ * const data = {
+ *   corporationId: 3,
+ *   counterpartyCorporationId: 8,
+ *   role: 'supplier',
+ *   stateCode: 'TX',
+ *   item: 'Oil',
+ *   unitsPerHour: 5,
+ *   pricePerUnit: 72.5,
+ *   quarters: 4
+ * };
+ * const result = ProposeSupplyContractSchema.safeParse(data);
+ * ```
+ */
+export const ProposeSupplyContractSchema = z.object({
+  corporationId: z
+    .number()
+    .int('Corporation ID must be a whole number')
+    .positive('Corporation ID must be positive'),
+  counterpartyCorporationId: z
+    .number()
+    .int('Counterparty corporation ID must be a whole number')
+    .positive('Counterparty corporation ID must be positive'),
+  role: z.enum(['supplier', 'buyer']),
+  stateCode,
+  item: z
+    .string()
+    .min(1, 'Item is required')
+    .max(100, 'Item must not exceed 100 characters'),
+  unitsPerHour: z
+    .number()
+    .min(0.0001, 'Units per hour must be at least 0.0001')
+    .max(100000, 'Units per hour must not exceed 100,000')
+    .refine((val) => Number.isFinite(val), 'Units per hour must be a finite number')
+    .transform((val) => Math.round(val * 10000) / 10000),
+  pricePerUnit: z
+    .number()
+    .min(0.01, 'Price per unit must be at least $0.01')
+    .max(1000000, 'Price per unit must not exceed $1,000,000')
+    .refine((val) => Number.isFinite(val), 'Price must be a finite number')
+    .transform((val) => Math.round(val * 100) / 100),
+  quarters: z
+    .number()
+    .int('Term must be a whole number of quarters')
+    .min(SUPPLY_CONTRACT_CONFIG.MIN_QUARTERS, `Term must be at least ${SUPPLY_CONTRACT_CONFIG.MIN_QUARTERS} quarter`)
+    .max(SUPPLY_CONTRACT_CONFIG.MAX_QUARTERS, `Term cannot exceed ${SUPPLY_CONTRACT_CONFIG.MAX_QUARTERS} quarters`),
+});
+
+export type ProposeSupplyContractRequest = z.infer<typeof ProposeSupplyContractSchema>;
+
+/**
+ * Accept supply contract validation schema
+ * 
+ * The accepting side names its own state: where it ships from as
+ * supplier, or takes delivery as buyer.
+ * 
+ * @example
+ * ```typescript
+ * const data = { stateCode: 'CA' };
+ * const result = AcceptSupplyContractSchema.safeParse(data);
+ * ```
+ */
+export const AcceptSupplyContractSchema = z.object({
+  stateCode,
+});
+
+export type AcceptSupplyContractRequest = z.infer<typeof AcceptSupplyContractSchema>;
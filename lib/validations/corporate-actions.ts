@@ -2,7 +2,8 @@
  * Corporate Actions Validation Schemas
  * 
  * Zod validation schemas for corporate action operations including
- * dividends, voting, capital raises, and other shareholder actions.
+ * dividends, voting, capital raises, other shareholder actions, and the
+ * catalogue of activatable corporate actions.
  * 
  * @module lib/validations/corporate-actions
  * @created 2025-12-31
@@ -10,6 +11,12 @@
  */
 
 import { z } from 'zod';
+import {
+  CORPORATE_ACTION_CONFIG,
+  CORPORATE_ACTION_EFFECT_TYPES,
+  CORPORATE_ACTION_SCOPES,
+} from '@/lib/constants/corporateActions';
+import { UNIT_TYPES } from '@/lib/constants/sectors';
 
 // ============================================================================
 // DIVIDEND SCHEMAS
@@ -308,3 +315,132 @@ export const StockSplitSchema = z.object({
 );
 
 export type StockSplitRequest = z.infer<typeof StockSplitSchema>;
+
+// ============================================================================
+// CORPORATE ACTION CATALOGUE SCHEMAS
+// ============================================================================
+
+/**
+ * Activate corporate action validation schema
+ * 
+ * State-scoped actions (e.g. a regional promotion) need the target state.
+ * 
+ * @example
+ * ```typescript
+ * const result = ActivateCorporateActionSchema.safeParse({ state_code: 'CA' });
+ * ```
+ */
+export const ActivateCorporateActionSchema = z.object({
+  state_code: z
+    .string()
+    .length(2, 'State code must be 2 letters')
+    .transform((val) => val.toUpperCase())
+    .optional(),
+});
+
+export type ActivateCorporateActionRequest = z.infer<typeof ActivateCorporateActionSchema>;
+
+/**
+ * Corporate action effect validation schema
+ * 
+ * Values are fractions: 0.10 is +10% revenue or capacity, or -10% costs.
+ */
+export const CorporateActionEffectSchema = z.object({
+  type: z.enum(CORPORATE_ACTION_EFFECT_TYPES),
+  value: z
+    .number()
+    .positive('Effect value must be positive')
+    .max(CORPORATE_ACTION_CONFIG.MAX_EFFECT_VALUE, 'Effect value must not exceed 1 (100%)'),
+  unit_types: z
+    .array(z.enum(UNIT_TYPES))
+    .min(1, 'Select at least one unit type, or null for all')
+    .nullable()
+    .default(null),
+  scope: z.enum(CORPORATE_ACTION_SCOPES).default('corporation'),
+});
+
+/**
+ * Update corporate action catalogue entry validation schema (admin)
+ * 
+ * @example
+ * ```typescript
+ * const data = {
+ *   base_cost: 600000,
+ *   cooldown_hours: 12,
+ *   effects: [{ type: 'cost_reduction', value: 0.2, unit_types: null, scope: 'corporation' }]
+ * };
+ * const result = UpdateCorporateActionConfigSchema.safeParse(data);
+ * ```
+ */
+export const UpdateCorporateActionConfigSchema = z.object({
+  name: z
+    .string()
+    .min(1, 'Name is required')
+    .max(60, 'Name must not exceed 60 characters')
+    .optional(),
+  description: z
+    .string()
+    .max(300, 'Description must not exceed 300 characters')
+    .optional(),
+  base_cost: z
+    .number()
+    .min(0, 'Base cost cannot be negative')
+    .max(1000000000, 'Base cost must not exceed $1,000,000,000')
+    .optional(),
+  market_cap_cost_pct: z
+    .number()
+    .min(0, 'Market cap cost cannot be negative')
+    .max(100, 'Market cap cost cannot exceed 100%')
+    .optional(),
+  duration_hours: z
+    .number()
+    .positive('Duration must be positive')
+    .max(CORPORATE_ACTION_CONFIG.MAX_DURATION_HOURS, `Duration must not exceed ${CORPORATE_ACTION_CONFIG.MAX_DURATION_HOURS} hours`)
+    .optional(),
+  cooldown_hours: z
+    .number()
+    .min(0, 'Cooldown cannot be negative')
+    .max(CORPORATE_ACTION_CONFIG.MAX_COOLDOWN_HOURS, `Cooldown must not exceed ${CORPORATE_ACTION_CONFIG.MAX_COOLDOWN_HOURS} hours`)
+    .optional(),
+  effects: z
+    .array(CorporateActionEffectSchema)
+    .min(1, 'At least one effect is required')
+    .max(5, 'Maximum 5 effects allowed')
+    .optional(),
+  is_enabled: z.boolean().optional(),
+  display_order: z.number().int().min(0).optional(),
+});
+
+export type UpdateCorporateActionConfigRequest = z.infer<typeof UpdateCorporateActionConfigSchema>;
+
+/**
+ * Create corporate action catalogue entry validation schema (admin)
+ * 
+ * @example
+ * ```typescript
+ * const data = {
+ *   action_type: 'hiring_blitz',
+ *   name: 'Hiring Blitz',
+ *   base_cost: 400000,
+ *   market_cap_cost_pct: 0.5,
+ *   duration_hours: 6,
+ *   cooldown_hours: 24,
+ *   effects: [{ type: 'capacity_increase', value: 0.15, unit_types: ['service'], scope: 'corporation' }]
+ * };
+ * const result = CreateCorporateActionConfigSchema.safeParse(data);
+ * ```
+ */
+export const CreateCorporateActionConfigSchema = UpdateCorporateActionConfigSchema.required({
+  name: true,
+  base_cost: true,
+  market_cap_cost_pct: true,
+  duration_hours: true,
+  effects: true,
+}).extend({
+  action_type: z
+    .string()
+    .regex(/^[a-z][a-z0-9_]{2,39}$/, 'Action type must be 3-40 lowercase letters, digits or underscores')
+    .refine((val) => val !== 'active', 'Action type "active" is reserved'),
+});
+
+export type CreateCorporateActionConfigRequest = z.infer<typeof CreateCorporateActionConfigSchema>;
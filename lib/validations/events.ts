@@ -0,0 +1,42 @@
+/**
+ * Event Stream Validation Schemas
+ * 
+ * Zod validation schemas for subscribing to the server-sent event stream:
+ * which corporations' events to receive.
+ * 
+ * @module lib/validations/events
+ * @created 2026-10-19
+ * @version 1.0.0
+ */
+
+import { z } from 'zod';
+import { EVENT_STREAM_CONFIG } from '../constants/events';
+
+// ============================================================================
+// EVENT STREAM SCHEMAS
+// ============================================================================
+
+/**
+ * Event stream query validation schema
+ * 
+ * `corporations` is a comma-separated list of corporation IDs. Without it the
+ * stream carries the events of every corporation; empty, those of none.
+ * 
+ * @example
+ * ```typescript
+ * const query = { corporations: '3,7' };
+ * const result = EventStreamQuerySchema.safeParse(query);
+ * ```
+ */
+export const EventStreamQuerySchema = z.object({
+  corporations: z
+    .string()
+    .regex(/^(\d+(,\d+)*)?$/, 'Corporations must be a comma-separated list of IDs')
+    .transform(value => [...new Set(value.split(',').filter(Boolean).map(id => parseInt(id, 10)))])
+    .pipe(z
+      .array(z.number().int().positive('Corporation ID must be positive'))
+      .max(EVENT_STREAM_CONFIG.MAX_CORPORATIONS, `At most ${EVENT_STREAM_CONFIG.MAX_CORPORATIONS} corporations per stream`))
+    .optional(),
+});
+
+export type EventStreamQuery = z.infer<typeof EventStreamQuerySchema>;
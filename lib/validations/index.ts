@@ -89,6 +89,13 @@ export {
   BuySharesSchema,
   SellSharesSchema,
   TransferSharesSchema,
+  PlaceShareOrderSchema,
+  ListShareOrdersSchema,
+  OpenShortSchema,
+  AddShortCollateralSchema,
+  SetShareLendingSchema,
+  LaunchTenderOfferSchema,
+  TenderSharesSchema,
   ListSharesSchema,
   SharePriceHistorySchema,
   ShareTransactionHistorySchema,
@@ -96,6 +103,13 @@ export {
   type BuySharesRequest,
   type SellSharesRequest,
   type TransferSharesRequest,
+  type PlaceShareOrderRequest,
+  type ListShareOrdersQuery,
+  type OpenShortRequest,
+  type AddShortCollateralRequest,
+  type SetShareLendingRequest,
+  type LaunchTenderOfferRequest,
+  type TenderSharesRequest,
   type ListSharesQuery,
   type SharePriceHistoryQuery,
   type ShareTransactionHistoryQuery,
@@ -114,6 +128,10 @@ export {
   CapitalRaiseSchema,
   ParticipateCapitalRaiseSchema,
   StockSplitSchema,
+  ActivateCorporateActionSchema,
+  CorporateActionEffectSchema,
+  CreateCorporateActionConfigSchema,
+  UpdateCorporateActionConfigSchema,
   type DeclareDividendRequest,
   type CancelDividendRequest,
   type CreateVoteRequest,
@@ -121,6 +139,9 @@ export {
   type CapitalRaiseRequest,
   type ParticipateCapitalRaiseRequest,
   type StockSplitRequest,
+  type ActivateCorporateActionRequest,
+  type CreateCorporateActionConfigRequest,
+  type UpdateCorporateActionConfigRequest,
 } from './corporate-actions';
 
 // ============================================================================
@@ -160,14 +181,65 @@ export {
 export {
   UpdateCommodityPriceSchema,
   TradeCommoditySchema,
+  PlaceCommodityOrderSchema,
+  ListCommodityOrdersSchema,
   ListCommoditiesSchema,
   CommodityPriceHistorySchema,
   type UpdateCommodityPriceRequest,
   type TradeCommodityRequest,
+  type PlaceCommodityOrderRequest,
+  type ListCommodityOrdersQuery,
   type ListCommoditiesQuery,
   type CommodityPriceHistoryQuery,
 } from './commodities';
 
+// ============================================================================
+// SUPPLY CONTRACT SCHEMAS
+// ============================================================================
+
+export {
+  ProposeSupplyContractSchema,
+  AcceptSupplyContractSchema,
+  type ProposeSupplyContractRequest,
+  type AcceptSupplyContractRequest,
+} from './contracts';
+
+// ============================================================================
+// RESOURCE RESERVE SCHEMAS
+// ============================================================================
+
+export {
+  ExploreResourceSchema,
+  AdminResourceReservesSchema,
+  type ExploreResourceRequest,
+  type AdminResourceReservesRequest,
+} from './reserves';
+
+// ============================================================================
+// RESEARCH SCHEMAS
+// ============================================================================
+
+export {
+  StartResearchSchema,
+  type StartResearchRequest,
+} from './research';
+
+// ============================================================================
+// SECTOR CONFIGURATION SCHEMAS
+// ============================================================================
+
+export {
+  SimulateSectorConfigSchema,
+  RollbackSectorConfigSchema,
+  ScheduleSectorConfigReleaseSchema,
+  SectorConfigSnapshotSchema,
+  ImportSectorConfigSchema,
+  type SimulateSectorConfigRequest,
+  type RollbackSectorConfigRequest,
+  type ScheduleSectorConfigReleaseRequest,
+  type ImportSectorConfigRequest,
+} from './sector-config';
+
 // ============================================================================
 // ADMIN SCHEMAS
 // ============================================================================
@@ -190,3 +262,43 @@ export {
   type UnbanIpRequest,
   type DeleteContentRequest,
 } from './admin';
+
+// ============================================================================
+// NOTIFICATION SCHEMAS
+// ============================================================================
+
+export {
+  MarkNotificationsReadSchema,
+  UpdateNotificationPreferencesSchema,
+  type MarkNotificationsReadRequest,
+  type UpdateNotificationPreferencesRequest,
+} from './notifications';
+
+// ============================================================================
+// WATCHLIST SCHEMAS
+// ============================================================================
+
+export {
+  AddWatchlistItemSchema,
+  CreatePriceAlertSchema,
+  type AddWatchlistItemRequest,
+  type CreatePriceAlertRequest,
+} from './watchlists';
+
+// ============================================================================
+// EVENT STREAM SCHEMAS
+// ============================================================================
+
+export {
+  EventStreamQuerySchema,
+  type EventStreamQuery,
+} from './events';
+
+// ============================================================================
+// CANDLE SCHEMAS
+// ============================================================================
+
+export {
+  PriceCandlesQuerySchema,
+  type PriceCandlesQuery,
+} from './candles';
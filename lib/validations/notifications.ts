@@ -0,0 +1,55 @@
+/**
+ * Notification Validation Schemas
+ * 
+ * Zod validation schemas for the notification center: marking notifications
+ * read and choosing how each category is delivered.
+ * 
+ * @module lib/validations/notifications
+ * @created 2026-10-19
+ * @version 1.0.0
+ */
+
+import { z } from 'zod';
+import { NOTIFICATION_CATEGORIES, NOTIFICATION_DELIVERIES } from '../constants/notifications';
+
+// ============================================================================
+// NOTIFICATION SCHEMAS
+// ============================================================================
+
+/**
+ * Mark notifications read validation schema
+ * 
+ * Marks the given notifications read, or all of the user's when `ids` is omitted.
+ * 
+ * @example
+ * ```typescript
+ * const data = { ids: [12, 13] };
+ * const result = MarkNotificationsReadSchema.safeParse(data);
+ * ```
+ */
+export const MarkNotificationsReadSchema = z.object({
+  ids: z
+    .array(z.number().int().positive('Notification ID must be positive'))
+    .min(1, 'At least one notification is required')
+    .max(100, 'At most 100 notifications at a time')
+    .optional(),
+});
+
+export type MarkNotificationsReadRequest = z.infer<typeof MarkNotificationsReadSchema>;
+
+/**
+ * Notification preferences validation schema
+ * 
+ * Delivery per category: instant, digest or muted. Categories left out are instant.
+ * 
+ * @example
+ * ```typescript
+ * const data = { preferences: { dividend_received: 'digest', market_entry: 'muted' } };
+ * const result = UpdateNotificationPreferencesSchema.safeParse(data);
+ * ```
+ */
+export const UpdateNotificationPreferencesSchema = z.object({
+  preferences: z.partialRecord(z.enum(NOTIFICATION_CATEGORIES), z.enum(NOTIFICATION_DELIVERIES)),
+});
+
+export type UpdateNotificationPreferencesRequest = z.infer<typeof UpdateNotificationPreferencesSchema>;
@@ -0,0 +1,40 @@
+/**
+ * Research Validation Schemas
+ * 
+ * Zod validation schemas for corporate research and development:
+ * starting a project in one of the corporation's sectors.
+ * 
+ * @module lib/validations/research
+ * @created 2026-10-19
+ * @version 1.0.0
+ */
+
+import { z } from 'zod';
+import { SECTORS } from '../constants/sectors';
+
+// ============================================================================
+// RESEARCH SCHEMAS
+// ============================================================================
+
+/**
+ * Start research validation schema
+ * 
+ * The corporation's CEO starts a project from the research tree of a sector
+ * the corporation operates in.
+ * 
+ * @example
+ * ```typescript
+ * const data = { sector: 'Heavy Industry', projectKey: 'process_engineering' };
+ * const result = StartResearchSchema.safeParse(data);
+ * ```
+ */
+export const StartResearchSchema = z.object({
+  sector: z.enum(SECTORS),
+  projectKey: z
+    .string()
+    .trim()
+    .min(1, 'Project is required')
+    .max(64, 'Project must not exceed 64 characters'),
+});
+
+export type StartResearchRequest = z.infer<typeof StartResearchSchema>;
@@ -0,0 +1,73 @@
+/**
+ * Resource Reserve Validation Schemas
+ * 
+ * Zod validation schemas for state resource reserves: exploration
+ * by corporations and the admin tool that seeds or regenerates pools.
+ * 
+ * @module lib/validations/reserves
+ * @created 2026-10-19
+ * @version 1.0.0
+ */
+
+import { z } from 'zod';
+import { RESOURCES } from '../constants/sectors';
+
+const stateCode = z
+  .string()
+  .length(2, 'State code must be 2 letters')
+  .transform((val) => val.toUpperCase());
+
+const resource = z.enum(RESOURCES);
+
+// ============================================================================
+// RESOURCE RESERVE SCHEMAS
+// ============================================================================
+
+/**
+ * Explore for resources validation schema
+ * 
+ * A corporation's CEO commissions a survey of the state in the route for
+ * more of one resource.
+ * 
+ * @example
+ * ```typescript
+ * const data = { corporationId: 3, resource: 'Oil' };
+ * const result = ExploreResourceSchema.safeParse(data);
+ * ```
+ */
+export const ExploreResourceSchema = z.object({
+  corporationId: z
+    .number()
+    .int('Corporation ID must be a whole number')
+    .positive('Corporation ID must be positive'),
+  resource,
+});
+
+export type ExploreResourceRequest = z.infer<typeof ExploreResourceSchema>;
+
+/**
+ * Admin resource reserve validation schema
+ * 
+ * `seed` creates the reserves of state pools that have none yet. `regenerate`
+ * refills reserves to their original size, or to `amount`, optionally limited
+ * to one state and/or resource.
+ * 
+ * @example
+ * ```typescript
+ * const data = { action: 'regenerate', stateCode: 'TX', resource: 'Oil' };
+ * const result = AdminResourceReservesSchema.safeParse(data);
+ * ```
+ */
+export const AdminResourceReservesSchema = z.object({
+  action: z.enum(['seed', 'regenerate']),
+  stateCode: stateCode.optional(),
+  resource: resource.optional(),
+  amount: z
+    .number()
+    .min(0, 'Amount cannot be negative')
+    .max(100000000, 'Amount must not exceed 100,000,000')
+    .refine((val) => Number.isFinite(val), 'Amount must be a finite number')
+    .optional(),
+});
+
+export type AdminResourceReservesRequest = z.infer<typeof AdminResourceReservesSchema>;
@@ -0,0 +1,181 @@
+/**
+ * Sector Configuration Validation Schemas
+ * 
+ * Zod validation schemas for the admin sector configuration tools:
+ * the dry-run simulator that previews a change before it is saved, the
+ * revision history that rolls back or schedules changes, and bulk import
+ * of a whole configuration.
+ * 
+ * @module lib/validations/sector-config
+ * @created 2026-10-19
+ * @version 1.0.0
+ */
+
+import { z } from 'zod';
+
+const UNIT_TYPES = ['retail', 'production', 'service', 'extraction'] as const;
+
+const amount = (label: string) => z
+  .number()
+  .min(0, `${label} cannot be negative`)
+  .refine((val) => Number.isFinite(val), `${label} must be a finite number`);
+
+const flow = z.object({
+  type: z.enum(['resource', 'product']),
+  name: z.string().min(1, 'Name is required'),
+  rate: z
+    .number()
+    .positive('Rate must be positive')
+    .refine((val) => Number.isFinite(val), 'Rate must be a finite number'),
+});
+
+const unitChanges = z.object({
+  isEnabled: z.boolean().optional(),
+  baseRevenue: amount('Base revenue').optional(),
+  baseCost: amount('Base cost').optional(),
+  laborCost: amount('Labor cost').optional(),
+  outputRate: amount('Output rate').nullable().optional(),
+  inputs: z.array(flow).optional(),
+  outputs: z.array(flow).optional(),
+}).strict();
+
+// ============================================================================
+// SECTOR CONFIGURATION SCHEMAS
+// ============================================================================
+
+/**
+ * Sector configuration simulation validation schema
+ * 
+ * A partial `UnifiedSectorConfig`: only the fields given change, and a
+ * unit's inputs or outputs, when given, replace its whole list.
+ * 
+ * @example
+ * ```typescript
+ * const data = {
+ *   resources: { Oil: { basePrice: 90 } },
+ *   sectors: { Energy: { units: { production: { baseCost: 500 } } } },
+ * };
+ * const result = SimulateSectorConfigSchema.safeParse(data);
+ * ```
+ */
+export const SimulateSectorConfigSchema = z.object({
+  sectors: z.record(z.string(), z.object({
+    units: z.partialRecord(z.enum(UNIT_TYPES), unitChanges).optional(),
+  }).strict()).optional(),
+  products: z.record(z.string(), z.object({
+    referenceValue: amount('Reference value').optional(),
+    minPrice: amount('Minimum price').optional(),
+  }).strict()).optional(),
+  resources: z.record(z.string(), z.object({
+    basePrice: amount('Base price').optional(),
+  }).strict()).optional(),
+}).strict();
+
+export type SimulateSectorConfigRequest = z.infer<typeof SimulateSectorConfigSchema>;
+
+/**
+ * Sector configuration rollback validation schema
+ */
+export const RollbackSectorConfigSchema = z.object({
+  reason: z.string().trim().max(500, 'Reason must be 500 characters or less').optional(),
+});
+
+export type RollbackSectorConfigRequest = z.infer<typeof RollbackSectorConfigSchema>;
+
+/**
+ * Scheduled sector configuration release validation schema
+ * 
+ * Goes live at the start of the given game quarter, either applying `diff`
+ * (the same shape the simulator takes) or restoring revision `revisionId`.
+ * 
+ * @example
+ * ```typescript
+ * const data = {
+ *   year: 1932,
+ *   quarter: 3,
+ *   diff: { resources: { Oil: { basePrice: 90 } } },
+ *   reason: 'Oil shock',
+ * };
+ * const result = ScheduleSectorConfigReleaseSchema.safeParse(data);
+ * ```
+ */
+export const ScheduleSectorConfigReleaseSchema = z.object({
+  year: z.number().int('Year must be a whole number'),
+  quarter: z.number().int().min(1, 'Quarter must be 1-4').max(4, 'Quarter must be 1-4'),
+  diff: SimulateSectorConfigSchema.optional(),
+  revisionId: z.number().int().positive('Invalid revision').optional(),
+  reason: z.string().trim().min(1, 'Reason is required').max(500, 'Reason must be 500 characters or less'),
+}).refine(
+  (data) => (data.diff === undefined) !== (data.revisionId === undefined),
+  { message: 'Give either changes or a revision to restore', path: ['diff'] }
+);
+
+export type ScheduleSectorConfigReleaseRequest = z.infer<typeof ScheduleSectorConfigReleaseSchema>;
+
+const unitConfig = z.object({
+  isEnabled: z.boolean(),
+  baseRevenue: amount('Base revenue'),
+  baseCost: amount('Base cost'),
+  laborCost: amount('Labor cost'),
+  outputRate: amount('Output rate').nullable(),
+  inputs: z.array(flow),
+  outputs: z.array(flow),
+});
+
+/**
+ * Complete sector configuration validation schema
+ * 
+ * The shape `GET /api/sector-config/admin/export?format=json` produces. Every
+ * sector needs all four unit types; `version` is accepted and ignored.
+ */
+export const SectorConfigSnapshotSchema = z.object({
+  version: z.string().optional(),
+  sectors: z.record(z.string(), z.object({
+    displayOrder: z.number().int('Display order must be a whole number'),
+    isProductionOnly: z.boolean(),
+    canExtract: z.boolean(),
+    producedProduct: z.string().min(1).nullable(),
+    primaryResource: z.string().min(1).nullable(),
+    units: z.object({
+      production: unitConfig,
+      retail: unitConfig,
+      service: unitConfig,
+      extraction: unitConfig,
+    }),
+  })),
+  products: z.record(z.string(), z.object({
+    referenceValue: amount('Reference value'),
+    minPrice: amount('Minimum price'),
+    displayOrder: z.number().int('Display order must be a whole number'),
+  })),
+  resources: z.record(z.string(), z.object({
+    basePrice: amount('Base price'),
+    displayOrder: z.number().int('Display order must be a whole number'),
+  })),
+});
+
+/**
+ * Sector configuration import validation schema
+ * 
+ * The whole configuration, as exported JSON or as CSV text.
+ * 
+ * @example
+ * ```typescript
+ * const data = { format: 'csv', csv: 'section,sector,unit_type,...', reason: 'Q3 rebalance' };
+ * const result = ImportSectorConfigSchema.safeParse(data);
+ * ```
+ */
+export const ImportSectorConfigSchema = z.discriminatedUnion('format', [
+  z.object({
+    format: z.literal('json'),
+    config: z.unknown(),
+    reason: z.string().trim().max(500, 'Reason must be 500 characters or less').optional(),
+  }),
+  z.object({
+    format: z.literal('csv'),
+    csv: z.string().min(1, 'CSV is empty'),
+    reason: z.string().trim().max(500, 'Reason must be 500 characters or less').optional(),
+  }),
+]);
+
+export type ImportSectorConfigRequest = z.infer<typeof ImportSectorConfigSchema>;
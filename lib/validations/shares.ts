@@ -10,6 +10,7 @@
  */
 
 import { z } from 'zod';
+import { TENDER_OFFER_CONFIG } from '../constants/tenderOffers';
 
 // ============================================================================
 // BUY SHARES SCHEMA
@@ -63,6 +64,214 @@ export const SellSharesSchema = z.object({
 
 export type SellSharesRequest = z.infer<typeof SellSharesSchema>;
 
+// ============================================================================
+// LIMIT ORDER SCHEMAS
+// ============================================================================
+
+/**
+ * Place limit order validation schema
+ * 
+ * Validates a resting buy or sell order for the player order book.
+ * Limit price is rounded to cents; expiry defaults to 24 hours.
+ * 
+ * @example
+ * ```typescript
+ * const data = { side: 'buy', shares: 25, limitPrice: 98.5, expiresInHours: 48 };
+ * const result = PlaceShareOrderSchema.safeParse(data);
+ * ```
+ */
+export const PlaceShareOrderSchema = z.object({
+  side: z.enum(['buy', 'sell']),
+  shares: z
+    .number()
+    .int('Shares must be a whole number')
+    .positive('Shares must be positive')
+    .max(1000000, 'Cannot order more than 1,000,000 shares at once'),
+  limitPrice: z
+    .number()
+    .min(0.01, 'Limit price must be at least $0.01')
+    .max(10000000, 'Limit price must not exceed $10,000,000')
+    .refine((val) => Number.isFinite(val), 'Limit price must be a finite number')
+    .transform((val) => Math.round(val * 100) / 100),
+  expiresInHours: z
+    .number()
+    .int('Expiry must be a whole number of hours')
+    .min(1, 'Orders must last at least 1 hour')
+    .max(96, 'Orders cannot last more than 96 hours')
+    .optional()
+    .default(24),
+});
+
+export type PlaceShareOrderRequest = z.infer<typeof PlaceShareOrderSchema>;
+
+/**
+ * List orders query validation schema
+ * 
+ * Query parameters for listing orders in a corporation's order book.
+ * 
+ * @example
+ * ```typescript
+ * const params = { status: 'open', side: 'sell', page: 1, limit: 20 };
+ * const result = ListShareOrdersSchema.safeParse(params);
+ * ```
+ */
+export const ListShareOrdersSchema = z.object({
+  status: z
+    .enum(['open', 'filled', 'cancelled', 'expired'])
+    .optional(),
+  side: z
+    .enum(['buy', 'sell'])
+    .optional(),
+  mine: z
+    .boolean()
+    .optional()
+    .default(false),
+  page: z
+    .number()
+    .int('Page must be a whole number')
+    .positive('Page must be positive')
+    .optional()
+    .default(1),
+  limit: z
+    .number()
+    .int('Limit must be a whole number')
+    .min(1, 'Limit must be at least 1')
+    .max(100, 'Limit must not exceed 100')
+    .optional()
+    .default(20),
+});
+
+export type ListShareOrdersQuery = z.infer<typeof ListShareOrdersSchema>;
+
+// ============================================================================
+// SHORT SELLING SCHEMAS
+// ============================================================================
+
+/**
+ * Open short position validation schema
+ * 
+ * Borrows shares from the corporation's lending pool and sells them.
+ * 
+ * @example
+ * ```typescript
+ * const data = { shares: 50 };
+ * const result = OpenShortSchema.safeParse(data);
+ * ```
+ */
+export const OpenShortSchema = z.object({
+  shares: z
+    .number()
+    .int('Shares must be a whole number')
+    .positive('Shares must be positive')
+    .max(1000000, 'Cannot short more than 1,000,000 shares at once'),
+});
+
+export type OpenShortRequest = z.infer<typeof OpenShortSchema>;
+
+/**
+ * Add collateral validation schema
+ * 
+ * Moves cash into an open short position's collateral.
+ * 
+ * @example
+ * ```typescript
+ * const data = { amount: 2500 };
+ * const result = AddShortCollateralSchema.safeParse(data);
+ * ```
+ */
+export const AddShortCollateralSchema = z.object({
+  amount: z
+    .number()
+    .min(0.01, 'Amount must be at least $0.01')
+    .max(1000000000, 'Amount must not exceed $1,000,000,000')
+    .refine((val) => Number.isFinite(val), 'Amount must be a finite number')
+    .transform((val) => Math.round(val * 100) / 100),
+});
+
+export type AddShortCollateralRequest = z.infer<typeof AddShortCollateralSchema>;
+
+/**
+ * Share lending opt-in validation schema
+ * 
+ * @example
+ * ```typescript
+ * const data = { enabled: true };
+ * const result = SetShareLendingSchema.safeParse(data);
+ * ```
+ */
+export const SetShareLendingSchema = z.object({
+  enabled: z.boolean(),
+});
+
+export type SetShareLendingRequest = z.infer<typeof SetShareLendingSchema>;
+
+// ============================================================================
+// TENDER OFFER SCHEMAS
+// ============================================================================
+
+/**
+ * Launch tender offer validation schema
+ * 
+ * Offers a price per share for a target corporation. Set corporation_id to bid
+ * with a corporation you run instead of your own cash.
+ * 
+ * @example
+ * ```typescript
+ * const data = { target_corporation_id: 7, price_per_share: 12.5, max_shares: 300000 };
+ * const result = LaunchTenderOfferSchema.safeParse(data);
+ * ```
+ */
+export const LaunchTenderOfferSchema = z.object({
+  target_corporation_id: z
+    .number()
+    .int('Target corporation ID must be an integer')
+    .positive('Target corporation ID must be positive'),
+  corporation_id: z
+    .number()
+    .int('Corporation ID must be an integer')
+    .positive('Corporation ID must be positive')
+    .nullable()
+    .optional()
+    .default(null),
+  price_per_share: z
+    .number()
+    .min(0.01, 'Price must be at least $0.01')
+    .max(1000000, 'Price must not exceed $1,000,000')
+    .transform((val) => Math.round(val * 100) / 100),
+  max_shares: z
+    .number()
+    .int('Shares must be a whole number')
+    .positive('Shares must be positive')
+    .max(100000000, 'Cannot bid for more than 100,000,000 shares'),
+  window_hours: z
+    .number()
+    .int('Window must be a whole number of hours')
+    .min(TENDER_OFFER_CONFIG.MIN_WINDOW_HOURS, `Window must be at least ${TENDER_OFFER_CONFIG.MIN_WINDOW_HOURS} hours`)
+    .max(TENDER_OFFER_CONFIG.MAX_WINDOW_HOURS, `Window must not exceed ${TENDER_OFFER_CONFIG.MAX_WINDOW_HOURS} hours`)
+    .optional()
+    .default(TENDER_OFFER_CONFIG.DEFAULT_WINDOW_HOURS),
+});
+
+export type LaunchTenderOfferRequest = z.infer<typeof LaunchTenderOfferSchema>;
+
+/**
+ * Tender shares validation schema
+ * 
+ * @example
+ * ```typescript
+ * const data = { shares: 1000 };
+ * const result = TenderSharesSchema.safeParse(data);
+ * ```
+ */
+export const TenderSharesSchema = z.object({
+  shares: z
+    .number()
+    .int('Shares must be a whole number')
+    .positive('Shares must be positive'),
+});
+
+export type TenderSharesRequest = z.infer<typeof TenderSharesSchema>;
+
 // ============================================================================
 // TRANSFER SHARES SCHEMA
 // ============================================================================
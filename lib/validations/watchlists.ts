@@ -0,0 +1,76 @@
+/**
+ * Watchlist Validation Schemas
+ * 
+ * Zod validation schemas for watchlists and the price alerts set on them.
+ * 
+ * @module lib/validations/watchlists
+ * @created 2026-10-19
+ * @version 1.0.0
+ */
+
+import { z } from 'zod';
+import { PRICE_ALERT_CONDITIONS } from '../constants/watchlists';
+
+// ============================================================================
+// WATCHLIST SCHEMAS
+// ============================================================================
+
+/**
+ * Add to watchlist validation schema
+ * 
+ * Watches either a corporation (by ID) or a resource or product (by name), not both.
+ * 
+ * @example
+ * ```typescript
+ * const data = { corporationId: 3 };
+ * const result = AddWatchlistItemSchema.safeParse(data);
+ * ```
+ */
+export const AddWatchlistItemSchema = z.object({
+  corporationId: z
+    .number()
+    .int('Corporation ID must be a whole number')
+    .positive('Corporation ID must be positive')
+    .optional(),
+  item: z
+    .string()
+    .min(1, 'Item is required')
+    .max(100, 'Item must not exceed 100 characters')
+    .optional(),
+}).refine(
+  (data) => (data.corporationId === undefined) !== (data.item === undefined),
+  { message: 'Provide either a corporation or an item to watch', path: ['corporationId'] }
+);
+
+export type AddWatchlistItemRequest = z.infer<typeof AddWatchlistItemSchema>;
+
+/**
+ * Create price alert validation schema
+ * 
+ * The threshold is a price for `above` and `below` alerts, and a percentage for
+ * `daily_move` alerts.
+ * 
+ * @example
+ * ```typescript
+ * const data = { watchlistItemId: 4, condition: 'above', threshold: 25 };
+ * const result = CreatePriceAlertSchema.safeParse(data);
+ * ```
+ */
+export const CreatePriceAlertSchema = z.object({
+  watchlistItemId: z
+    .number()
+    .int('Watchlist entry ID must be a whole number')
+    .positive('Watchlist entry ID must be positive'),
+  condition: z.enum(PRICE_ALERT_CONDITIONS),
+  threshold: z
+    .number()
+    .min(0.01, 'Threshold must be at least 0.01')
+    .max(1000000000, 'Threshold must not exceed 1,000,000,000')
+    .refine((val) => Number.isFinite(val), 'Threshold must be a finite number')
+    .transform((val) => Math.round(val * 100) / 100),
+}).refine(
+  (data) => data.condition !== 'daily_move' || data.threshold <= 1000,
+  { message: 'A daily move must not exceed 1000%', path: ['threshold'] }
+);
+
+export type CreatePriceAlertRequest = z.infer<typeof CreatePriceAlertSchema>;
@@ -0,0 +1,274 @@
+/**
+ * Cron Job Runner Integration Tests
+ *
+ * Tests the idempotent job runner in lib/cron/runner.ts and the admin
+ * history/re-run endpoints at /api/admin/cron/trigger
+ *
+ * Business Rules Tested:
+ * - Each scheduled tick of a job runs once, however many instances schedule it
+ * - Ticks missed during downtime are backfilled, up to a cap
+ * - A job's lock keeps two runs of it from overlapping
+ * - Failures are recorded and can be re-run; succeeded ticks only when forced
+ * - Only admins can view history or trigger jobs
+ */
+
+import { describe, it, expect, beforeAll, afterAll, beforeEach } from 'vitest';
+import { GET as GetCronHistory, POST as TriggerCron } from '@/app/api/admin/cron/trigger/route';
+import {
+  CronJobDefinition,
+  CRON_RUNNER_CONFIG,
+  runScheduledJob,
+  runJobNow,
+  rerunCronRun,
+  getTickTime,
+  CronRunnerError,
+} from '@/lib/cron/runner';
+import { CronRunModel } from '@/lib/models/CronRun';
+import { CronLockModel } from '@/lib/models/CronLock';
+import { getDb } from '@/lib/db/mongo';
+import {
+  setupTestDatabase,
+  teardownTestDatabase,
+  clearCollections,
+  createTestUser,
+  createTestRequest,
+  createAuthHeader,
+  createTestAccessToken,
+  getResponseBody,
+  assertSuccessResponse,
+  assertErrorResponse,
+} from '@/tests/utils/testHelpers';
+
+const { HOUR_MS } = CRON_RUNNER_CONFIG;
+
+function createCountingJob(options: Partial<CronJobDefinition> = {}) {
+  const job = {
+    name: 'test-job',
+    label: 'Test job',
+    schedule: '30 * * * *',
+    intervalMs: HOUR_MS,
+    offsetMs: 30 * 60 * 1000,
+    backfill: true,
+    runs: 0,
+    failNext: false,
+    ...options,
+  } as CronJobDefinition & { runs: number; failNext: boolean };
+
+  job.run = async () => {
+    job.runs++;
+    if (job.failNext) {
+      job.failNext = false;
+      throw new Error('Simulated failure');
+    }
+    return { processed: job.runs };
+  };
+  return job;
+}
+
+describe('Cron job runner', () => {
+  beforeAll(async () => {
+    await setupTestDatabase();
+  });
+
+  afterAll(async () => {
+    await teardownTestDatabase();
+  });
+
+  beforeEach(async () => {
+    await clearCollections('users', 'cron_runs', 'cron_locks');
+  });
+
+  it('should run a tick once even when scheduled twice', async () => {
+    const job = createCountingJob();
+    const now = new Date();
+
+    const [first, second] = await Promise.all([runScheduledJob(job, now), runScheduledJob(job, now)]);
+
+    expect(job.runs).toBe(1);
+    expect(first.length + second.length).toBe(1);
+    expect(await getDb().collection('cron_runs').countDocuments({ job: job.name })).toBe(1);
+
+    // The next scheduler firing for the same tick is a no-op
+    await runScheduledJob(job, now);
+    expect(job.runs).toBe(1);
+  });
+
+  it('should record the result of a successful run', async () => {
+    const job = createCountingJob();
+
+    const [run] = await runScheduledJob(job);
+
+    expect(run.status).toBe('succeeded');
+    expect(run.triggered_by).toBe('schedule');
+    expect(run.result).toEqual({ processed: 1 });
+    expect(run.scheduled_for.getTime()).toBe(getTickTime(job).getTime());
+  });
+
+  it('should backfill ticks missed since the last scheduled run', async () => {
+    const job = createCountingJob();
+    const now = new Date();
+
+    await runScheduledJob(job, new Date(now.getTime() - 3 * HOUR_MS));
+    const runs = await runScheduledJob(job, now);
+
+    expect(runs).toHaveLength(3);
+    expect(runs.map(r => r.triggered_by)).toEqual(['backfill', 'backfill', 'schedule']);
+    expect(job.runs).toBe(4);
+  });
+
+  it('should cap backfill after long downtime', async () => {
+    const job = createCountingJob();
+    const now = new Date();
+
+    await runScheduledJob(job, new Date(now.getTime() - 100 * HOUR_MS));
+    const runs = await runScheduledJob(job, now);
+
+    expect(runs).toHaveLength(CRON_RUNNER_CONFIG.MAX_BACKFILL_TICKS);
+  });
+
+  it('should not backfill jobs that opt out', async () => {
+    const job = createCountingJob({ backfill: false });
+    const now = new Date();
+
+    await runScheduledJob(job, new Date(now.getTime() - 3 * HOUR_MS));
+    const runs = await runScheduledJob(job, now);
+
+    expect(runs).toHaveLength(1);
+  });
+
+  it('should do nothing on startup catch-up without run history', async () => {
+    const job = createCountingJob();
+
+    const runs = await runScheduledJob(job, new Date(), true);
+
+    expect(runs).toHaveLength(0);
+    expect(job.runs).toBe(0);
+  });
+
+  it('should skip a job whose lock is held by another instance', async () => {
+    const job = createCountingJob();
+    await CronLockModel.acquire(job.name, 'other-host:1', CRON_RUNNER_CONFIG.LEASE_MS);
+
+    const runs = await runScheduledJob(job);
+
+    expect(runs).toHaveLength(0);
+    expect(job.runs).toBe(0);
+    await expect(runJobNow(job)).rejects.toBeInstanceOf(CronRunnerError);
+  });
+
+  it('should take over a lock whose lease has expired', async () => {
+    const job = createCountingJob();
+    await CronLockModel.acquire(job.name, 'crashed-host:1', -1000);
+
+    const runs = await runScheduledJob(job);
+
+    expect(runs).toHaveLength(1);
+  });
+
+  it('should record failures and allow them to be re-run', async () => {
+    const job = createCountingJob();
+    job.failNext = true;
+
+    const [failed] = await runScheduledJob(job);
+    expect(failed.status).toBe('failed');
+    expect(failed.error).toBe('Simulated failure');
+
+    const rerun = await rerunCronRun([job], failed.id);
+    expect(rerun.status).toBe('succeeded');
+    expect(rerun.attempt).toBe(2);
+    expect(rerun.scheduled_for.getTime()).toBe(failed.scheduled_for.getTime());
+  });
+
+  it('should only re-run a succeeded tick when forced', async () => {
+    const job = createCountingJob();
+    const [run] = await runScheduledJob(job);
+
+    await expect(rerunCronRun([job], run.id)).rejects.toBeInstanceOf(CronRunnerError);
+    expect(job.runs).toBe(1);
+
+    const forced = await rerunCronRun([job], run.id, null, true);
+    expect(forced.status).toBe('succeeded');
+    expect(job.runs).toBe(2);
+  });
+
+  it('should not count manual runs as scheduled ticks', async () => {
+    const job = createCountingJob();
+
+    const manual = await runJobNow(job);
+
+    expect(manual.triggered_by).toBe('manual');
+    expect(await CronRunModel.findLatestScheduled(job.name)).toBeNull();
+  });
+
+  describe('/api/admin/cron/trigger', () => {
+    async function adminHeaders(isAdmin = true) {
+      const user = await createTestUser({ is_admin: isAdmin });
+      return createAuthHeader(createTestAccessToken(user.id, user.username, user.email, isAdmin ? 'admin' : 'user'));
+    }
+
+    it('should reject non-admins', async () => {
+      const headers = await adminHeaders(false);
+
+      const response = await GetCronHistory(createTestRequest('http://localhost:3000/api/admin/cron/trigger', { headers }));
+      assertErrorResponse(response, 403);
+    });
+
+    it('should list jobs and recent runs', async () => {
+      const headers = await adminHeaders();
+      await runJobNow(createCountingJob());
+
+      const response = await GetCronHistory(createTestRequest('http://localhost:3000/api/admin/cron/trigger', { headers }));
+      assertSuccessResponse(response);
+
+      const body = await getResponseBody(response);
+      expect(body.jobs.map((j: { name: string }) => j.name)).toContain('market');
+      expect(body.runs).toHaveLength(1);
+      expect(body.runs[0].job).toBe('test-job');
+    });
+
+    it('should reject unknown job types', async () => {
+      const headers = await adminHeaders();
+
+      const response = await TriggerCron(createTestRequest('http://localhost:3000/api/admin/cron/trigger', {
+        method: 'POST',
+        body: { type: 'nonexistent' },
+        headers,
+      }));
+      assertErrorResponse(response, 400);
+    });
+
+    it('should run a job and record who triggered it', async () => {
+      const headers = await adminHeaders();
+
+      const response = await TriggerCron(createTestRequest('http://localhost:3000/api/admin/cron/trigger', {
+        method: 'POST',
+        body: { type: 'orders' },
+        headers,
+      }));
+      assertSuccessResponse(response);
+
+      const body = await getResponseBody(response);
+      expect(body.run.status).toBe('succeeded');
+      expect(body.run.triggered_by).toBe('manual');
+      expect(body.run.triggered_by_user_id).not.toBeNull();
+      expect(body.expired).toBe(0);
+    });
+
+    it('should refuse to re-run a succeeded run without force', async () => {
+      const headers = await adminHeaders();
+      const trigger = await TriggerCron(createTestRequest('http://localhost:3000/api/admin/cron/trigger', {
+        method: 'POST',
+        body: { type: 'orders' },
+        headers,
+      }));
+      const { run } = await getResponseBody(trigger);
+
+      const response = await TriggerCron(createTestRequest('http://localhost:3000/api/admin/cron/trigger', {
+        method: 'POST',
+        body: { run_id: run.id },
+        headers,
+      }));
+      assertErrorResponse(response, 400);
+    });
+  });
+});
@@ -0,0 +1,328 @@
+/**
+ * Merger Integration Tests
+ *
+ * Tests merger proposals via /api/board/[corpId]/proposals and votes via
+ * /api/board/[corpId]/proposals/[proposalId]/vote
+ *
+ * Business Rules Tested:
+ * - A merger proposed on the acquirer's board is mirrored onto the target's board
+ * - The merger completes only when both boards approve, and is rejected if either votes it down
+ * - Target holdings convert into acquirer shares at the exchange ratio, and capital combines
+ * - Overlapping market entries are combined within the state's sector capacity; the excess is retired
+ * - Holders who lent their target shares keep lending the converted ones
+ * - The target's completed research moves to the acquirer; research in progress is lost
+ * - The target is retired, and the merger appears in both transaction histories and in corporate history
+ * - A merged-away corporation's shares can no longer be traded
+ */
+
+import { describe, it, expect, beforeAll, afterAll, beforeEach } from 'vitest';
+import { POST as CreateProposal } from '@/app/api/board/[corpId]/proposals/route';
+import { POST as CastVote } from '@/app/api/board/[corpId]/proposals/[proposalId]/vote/route';
+import { POST as BuyShares } from '@/app/api/shares/[id]/buy/route';
+import { POST as PlaceOrder } from '@/app/api/shares/[id]/orders/route';
+import { BoardProposalModel } from '@/lib/models/BoardProposal';
+import { MergerModel } from '@/lib/models/Merger';
+import { CorporationModel } from '@/lib/models/Corporation';
+import { MarketEntryModel } from '@/lib/models/MarketEntry';
+import { BusinessUnitModel } from '@/lib/models/BusinessUnit';
+import { ShareholderModel } from '@/lib/models/Shareholder';
+import { CorporationResearchModel } from '@/lib/models/CorporationResearch';
+import { ResearchService } from '@/lib/services/ResearchService';
+import { getStateSectorCapacity } from '@/lib/constants/sectors';
+import { getDb } from '@/lib/db/mongo';
+import {
+  setupTestDatabase,
+  teardownTestDatabase,
+  clearCollections,
+  createTestUser,
+  createTestCorporation,
+  createTestShares,
+  createTestRequest,
+  createAuthHeader,
+  createTestAccessToken,
+  getResponseBody,
+  assertSuccessResponse,
+  assertErrorResponse,
+  getUserShares,
+  generateUsername,
+  generateEmail,
+} from '@/tests/utils/testHelpers';
+
+describe('Merger API', () => {
+  beforeAll(async () => {
+    await setupTestDatabase();
+  });
+
+  afterAll(async () => {
+    await teardownTestDatabase();
+  });
+
+  beforeEach(async () => {
+    await clearCollections(
+      'users', 'corporations', 'shareholders', 'mergers', 'board_proposals', 'board_votes',
+      'board_appointments', 'market_entries', 'business_units', 'loans', 'transactions', 'messages', 'notifications',
+      'corporation_research'
+    );
+  });
+
+  async function createPlayer(cash = 100000) {
+    const user = await createTestUser({ username: generateUsername(), email: generateEmail(), cash });
+    return {
+      user,
+      authHeaders: createAuthHeader(createTestAccessToken(user.id, user.username, user.email)),
+    };
+  }
+
+  // Acquirer: one 1,000-share holder (its acting CEO). Target: a 600/400 split, plus 200 public shares.
+  async function createParties() {
+    const acquirerCeo = await createPlayer();
+    const targetCeo = await createPlayer();
+    const targetHolder = await createPlayer();
+
+    const acquirer = await createTestCorporation(acquirerCeo.user.id, {
+      name: 'Acquirer Corp',
+      shares: 1000,
+      public_shares: 0,
+      capital: 100000,
+    });
+    const target = await createTestCorporation(targetCeo.user.id, {
+      name: 'Target Corp',
+      shares: 1200,
+      public_shares: 200,
+      capital: 40000,
+    });
+    await createTestShares(acquirerCeo.user.id, acquirer.id, 1000);
+    await createTestShares(targetCeo.user.id, target.id, 600);
+    await createTestShares(targetHolder.user.id, target.id, 400);
+
+    return { acquirerCeo, targetCeo, targetHolder, acquirer, target };
+  }
+
+  async function proposeMerger(corpId: number, headers: Record<string, string>, data: Record<string, unknown>) {
+    return CreateProposal(createTestRequest(`http://localhost:3000/api/board/${corpId}/proposals`, {
+      method: 'POST',
+      body: { proposal_type: 'merger', proposal_data: data },
+      headers,
+    }), { params: { corpId: corpId.toString() } });
+  }
+
+  async function vote(corpId: number, proposalId: number, headers: Record<string, string>, choice: 'aye' | 'nay') {
+    return CastVote(createTestRequest(`http://localhost:3000/api/board/${corpId}/proposals/${proposalId}/vote`, {
+      method: 'POST',
+      body: { vote: choice },
+      headers,
+    }), { params: { corpId: corpId.toString(), proposalId: proposalId.toString() } });
+  }
+
+  // Propose the merger and have both CEOs vote it through
+  async function approveMerger(parties: Awaited<ReturnType<typeof createParties>>, exchangeRatio: number) {
+    const { acquirerCeo, targetCeo, acquirer, target } = parties;
+    const proposal = await getResponseBody(await proposeMerger(acquirer.id, acquirerCeo.authHeaders, {
+      target_corporation_id: target.id,
+      exchange_ratio: exchangeRatio,
+    }));
+    await vote(acquirer.id, proposal.id, acquirerCeo.authHeaders, 'aye');
+    const merger = await MergerModel.findById(proposal.proposal_data.merger_id);
+    await vote(target.id, merger!.target_proposal_id!, targetCeo.authHeaders, 'aye');
+    return await MergerModel.findById(merger!.id);
+  }
+
+  async function createResearch(corporationId: number, userId: number, projectKey: string, completesAt: Date) {
+    return await CorporationResearchModel.create({
+      corporation_id: corporationId,
+      sector_type: 'Heavy Industry',
+      project_key: projectKey,
+      user_id: userId,
+      cost: 0,
+      action_cost: 0,
+      completes_at: completesAt,
+    });
+  }
+
+  describe('POST /api/board/[corpId]/proposals (merger)', () => {
+    it('should create a pending merger with a proposal on each board', async () => {
+      const { acquirerCeo, acquirer, target } = await createParties();
+
+      const response = await proposeMerger(acquirer.id, acquirerCeo.authHeaders, {
+        target_corporation_id: target.id,
+        exchange_ratio: 0.5,
+      });
+      assertSuccessResponse(response, 201);
+
+      const proposal = await getResponseBody(response);
+      const merger = await MergerModel.findById(proposal.proposal_data.merger_id);
+      expect(merger?.status).toBe('pending');
+      expect(merger?.exchange_ratio).toBe(0.5);
+      expect(merger?.acquirer_proposal_id).toBe(proposal.id);
+
+      const targetProposals = await BoardProposalModel.getActiveProposals(target.id);
+      expect(targetProposals).toHaveLength(1);
+      expect(targetProposals[0].id).toBe(merger?.target_proposal_id);
+      expect(targetProposals[0].proposal_type).toBe('merger');
+    });
+
+    it('should reject a merger with itself or an invalid ratio', async () => {
+      const { acquirerCeo, acquirer, target } = await createParties();
+
+      const self = await proposeMerger(acquirer.id, acquirerCeo.authHeaders, {
+        target_corporation_id: acquirer.id,
+        exchange_ratio: 1,
+      });
+      assertErrorResponse(self, 400);
+
+      const badRatio = await proposeMerger(acquirer.id, acquirerCeo.authHeaders, {
+        target_corporation_id: target.id,
+        exchange_ratio: 0,
+      });
+      assertErrorResponse(badRatio, 400);
+    });
+
+    it('should not allow a second merger while one is pending', async () => {
+      const { acquirerCeo, acquirer, target } = await createParties();
+
+      await proposeMerger(acquirer.id, acquirerCeo.authHeaders, { target_corporation_id: target.id, exchange_ratio: 1 });
+      const second = await proposeMerger(acquirer.id, acquirerCeo.authHeaders, { target_corporation_id: target.id, exchange_ratio: 2 });
+      assertErrorResponse(second, 400);
+    });
+  });
+
+  describe('Board approval', () => {
+    it('should complete the merger once both boards approve', async () => {
+      const { acquirerCeo, targetCeo, targetHolder, acquirer, target } = await createParties();
+
+      // Both hold CA Technology; together they exceed the state's capacity
+      const capacity = getStateSectorCapacity('CA');
+      const acquirerEntry = await MarketEntryModel.create({ corporation_id: acquirer.id, state_code: 'CA', sector_type: 'Technology' });
+      await BusinessUnitModel.setUnitCount(acquirerEntry.id, 'retail', capacity - 2);
+      const overlapping = await MarketEntryModel.create({ corporation_id: target.id, state_code: 'CA', sector_type: 'Technology' });
+      await BusinessUnitModel.setUnitCount(overlapping.id, 'retail', 5);
+      const separate = await MarketEntryModel.create({ corporation_id: target.id, state_code: 'TX', sector_type: 'Finance' });
+      await BusinessUnitModel.setUnitCount(separate.id, 'service', 3);
+
+      const response = await proposeMerger(acquirer.id, acquirerCeo.authHeaders, {
+        target_corporation_id: target.id,
+        exchange_ratio: 0.5,
+      });
+      const proposal = await getResponseBody(response);
+      const mergerId = proposal.proposal_data.merger_id;
+
+      await vote(acquirer.id, proposal.id, acquirerCeo.authHeaders, 'aye');
+      expect((await MergerModel.findById(mergerId))?.status).toBe('pending');
+
+      const merger = await MergerModel.findById(mergerId);
+      await vote(target.id, merger!.target_proposal_id!, targetCeo.authHeaders, 'aye');
+
+      const completed = await MergerModel.findById(mergerId);
+      expect(completed?.status).toBe('completed');
+
+      // Holdings convert at 0.5 acquirer shares per target share
+      expect(await getUserShares(targetCeo.user.id, acquirer.id)).toBe(300);
+      expect(await getUserShares(targetHolder.user.id, acquirer.id)).toBe(200);
+      expect(await getUserShares(targetCeo.user.id, target.id)).toBe(0);
+
+      const survivor = await CorporationModel.findById(acquirer.id);
+      expect(survivor?.shares).toBe(1000 + 300 + 200 + 100);
+      expect(survivor?.public_shares).toBe(100);
+      expect(survivor?.capital).toBe(140000);
+
+      const retired = await CorporationModel.findById(target.id);
+      expect(retired?.retired_at).toBeTruthy();
+      expect(retired?.merged_into_id).toBe(acquirer.id);
+      expect(retired?.capital).toBe(0);
+      expect((await CorporationModel.findAll()).map(c => c.id)).not.toContain(target.id);
+
+      // Overlapping entry is combined up to capacity; the other entry simply moves
+      const units = await BusinessUnitModel.getUnitCounts(acquirerEntry.id);
+      expect(units.retail).toBe(capacity);
+      expect(await MarketEntryModel.findById(overlapping.id)).toBeNull();
+      expect((await MarketEntryModel.findById(separate.id))?.corporation_id).toBe(acquirer.id);
+
+      const transactions = await getDb().collection('transactions').find({ transaction_type: 'merger' }).toArray();
+      expect(transactions.map(t => t.corporation_id).sort()).toEqual([acquirer.id, target.id].sort());
+      const acquirerTx = transactions.find(t => t.corporation_id === acquirer.id);
+      expect(acquirerTx?.amount).toBe(40000);
+      expect(acquirerTx?.description).toContain('3 units over capacity retired');
+
+      const history = await BoardProposalModel.getUserCorporateHistory(targetHolder.user.id);
+      const mergerEvent = history.find(h => h.type === 'merger');
+      expect(mergerEvent?.corporation_id).toBe(acquirer.id);
+      expect(mergerEvent?.details).toContain('400 shares converted into 200');
+    });
+
+    it('should reject the merger on both boards when either votes it down', async () => {
+      const { acquirerCeo, targetCeo, acquirer, target } = await createParties();
+
+      const response = await proposeMerger(acquirer.id, acquirerCeo.authHeaders, {
+        target_corporation_id: target.id,
+        exchange_ratio: 1,
+      });
+      const proposal = await getResponseBody(response);
+      const merger = await MergerModel.findById(proposal.proposal_data.merger_id);
+
+      await vote(target.id, merger!.target_proposal_id!, targetCeo.authHeaders, 'nay');
+
+      expect((await MergerModel.findById(merger!.id))?.status).toBe('rejected');
+      expect((await BoardProposalModel.findById(proposal.id))?.status).toBe('failed');
+      expect(await getUserShares(targetCeo.user.id, target.id)).toBe(600);
+      expect((await CorporationModel.findById(target.id))?.retired_at ?? null).toBeNull();
+    });
+
+    it('should keep lending enabled on converted holdings', async () => {
+      const parties = await createParties();
+      const { targetCeo, targetHolder, acquirer, target } = parties;
+      await ShareholderModel.setLendingEnabled(target.id, targetHolder.user.id, true);
+
+      expect((await approveMerger(parties, 0.5))?.status).toBe('completed');
+
+      expect((await ShareholderModel.getShareholder(acquirer.id, targetHolder.user.id))?.lending_enabled).toBe(true);
+      expect((await ShareholderModel.getShareholder(acquirer.id, targetCeo.user.id))?.lending_enabled).toBeFalsy();
+      const lenders = await ShareholderModel.findLenders(acquirer.id);
+      expect(lenders.map(lender => lender.user_id)).toEqual([targetHolder.user.id]);
+    });
+
+    it('should transfer the target\'s completed research to the acquirer', async () => {
+      const parties = await createParties();
+      const { acquirerCeo, targetCeo, acquirer, target } = parties;
+      const past = new Date(Date.now() - 1000);
+      const future = new Date(Date.now() + 60 * 60 * 1000);
+
+      // The acquirer is still researching what the target has finished
+      await createResearch(acquirer.id, acquirerCeo.user.id, 'process_engineering', future);
+      await createResearch(target.id, targetCeo.user.id, 'process_engineering', past);
+      await createResearch(target.id, targetCeo.user.id, 'workforce_training', past);
+      await createResearch(target.id, targetCeo.user.id, 'material_efficiency', future);
+
+      expect((await approveMerger(parties, 0.5))?.status).toBe('completed');
+
+      const completed = await ResearchService.getCompleted(acquirer.id);
+      expect(completed['Heavy Industry']?.sort()).toEqual(['process_engineering', 'workforce_training']);
+      const research = await CorporationResearchModel.findByCorporationId(acquirer.id);
+      expect(research).toHaveLength(2);
+      expect(research.every(record => record.completes_at <= new Date())).toBe(true);
+
+      const acquirerTx = await getDb().collection('transactions').findOne({ transaction_type: 'merger', corporation_id: acquirer.id });
+      expect(acquirerTx?.description).toContain('2 completed research projects transferred');
+    });
+
+    it('should stop trading in the target\'s shares once merged', async () => {
+      const parties = await createParties();
+      const { targetHolder, target } = parties;
+
+      expect((await approveMerger(parties, 0.5))?.status).toBe('completed');
+
+      const buy = await BuyShares(createTestRequest(`http://localhost:3000/api/shares/${target.id}/buy`, {
+        method: 'POST',
+        body: { shares: 10 },
+        headers: targetHolder.authHeaders,
+      }), { params: { id: target.id.toString() } });
+      assertErrorResponse(buy, 400);
+
+      const order = await PlaceOrder(createTestRequest(`http://localhost:3000/api/shares/${target.id}/orders`, {
+        method: 'POST',
+        body: { side: 'buy', shares: 10, limitPrice: 5 },
+        headers: targetHolder.authHeaders,
+      }), { params: { id: target.id.toString() } });
+      assertErrorResponse(order, 400);
+    });
+  });
+});
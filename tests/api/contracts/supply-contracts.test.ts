@@ -0,0 +1,282 @@
+/**
+ * Supply Contract API Integration Tests
+ *
+ * Tests proposals via /api/contracts, /api/contracts/[id], /api/contracts/[id]/accept
+ * and /api/contracts/[id]/reject, and hourly settlement via SupplyContractService.settleAll
+ *
+ * Business Rules Tested:
+ * - Only a corporation's CEO may propose; only the counterparty's CEO may accept or reject
+ * - Proposals reach the counterparty's CEO as a message and can be withdrawn until answered
+ * - Each hour the supplier's stock moves to the buyer at the fixed price; the supplier pays the shipping
+ * - Units the supplier could not deliver are penalised, paid to the buyer
+ * - Payments and penalties are recorded as contract transactions
+ */
+
+import { describe, it, expect, beforeAll, afterAll, beforeEach } from 'vitest';
+import { GET as ListContracts, POST as ProposeContract } from '@/app/api/contracts/route';
+import { DELETE as WithdrawContract } from '@/app/api/contracts/[id]/route';
+import { POST as AcceptContract } from '@/app/api/contracts/[id]/accept/route';
+import { POST as RejectContract } from '@/app/api/contracts/[id]/reject/route';
+import { SupplyContractService } from '@/lib/services/SupplyContractService';
+import { SupplyContractModel } from '@/lib/models/SupplyContract';
+import { CorporationModel } from '@/lib/models/Corporation';
+import { InventoryModel } from '@/lib/models/Inventory';
+import { getShippingCostPct } from '@/lib/constants/logistics';
+import { roundToCents } from '@/lib/constants/orders';
+import { getDb } from '@/lib/db/mongo';
+import {
+  setupTestDatabase,
+  teardownTestDatabase,
+  clearCollections,
+  createTestUser,
+  createTestCorporation,
+  createTestRequest,
+  createAuthHeader,
+  createTestAccessToken,
+  getResponseBody,
+  assertSuccessResponse,
+  assertErrorResponse,
+  generateUsername,
+  generateEmail,
+} from '@/tests/utils/testHelpers';
+
+describe('Supply Contract API', () => {
+  beforeAll(async () => {
+    await setupTestDatabase();
+  });
+
+  afterAll(async () => {
+    await teardownTestDatabase();
+  });
+
+  beforeEach(async () => {
+    await clearCollections(
+      'users', 'corporations', 'supply_contracts', 'supply_contract_settlements',
+      'inventories', 'transactions', 'messages'
+    );
+  });
+
+  async function createCeo(capital = 100000) {
+    const user = await createTestUser({ username: generateUsername(), email: generateEmail() });
+    const corporation = await createTestCorporation(user.id, { capital });
+    return {
+      user,
+      corporation,
+      authHeaders: createAuthHeader(createTestAccessToken(user.id, user.username, user.email)),
+    };
+  }
+
+  async function propose(headers: Record<string, string>, body: Record<string, unknown>) {
+    return ProposeContract(createTestRequest('http://localhost:3000/api/contracts', {
+      method: 'POST',
+      body,
+      headers,
+    }));
+  }
+
+  async function accept(contractId: number, headers: Record<string, string>, stateCode: string) {
+    return AcceptContract(createTestRequest(`http://localhost:3000/api/contracts/${contractId}/accept`, {
+      method: 'POST',
+      body: { stateCode },
+      headers,
+    }), { params: { id: contractId.toString() } });
+  }
+
+  // Supplier in TX proposes 10 Oil/hour at $50 for 2 quarters; the buyer accepts for delivery in CA
+  async function createActiveContract() {
+    const supplier = await createCeo();
+    const buyer = await createCeo();
+    const { contract } = await getResponseBody(await propose(supplier.authHeaders, {
+      corporationId: supplier.corporation.id,
+      counterpartyCorporationId: buyer.corporation.id,
+      role: 'supplier',
+      stateCode: 'TX',
+      item: 'Oil',
+      unitsPerHour: 10,
+      pricePerUnit: 50,
+      quarters: 2,
+    }));
+    assertSuccessResponse(await accept(contract.id, buyer.authHeaders, 'CA'));
+    return { supplier, buyer, contractId: contract.id as number };
+  }
+
+  describe('POST /api/contracts', () => {
+    it('should create a proposal and message the counterparty CEO', async () => {
+      const supplier = await createCeo();
+      const buyer = await createCeo();
+
+      const response = await propose(supplier.authHeaders, {
+        corporationId: supplier.corporation.id,
+        counterpartyCorporationId: buyer.corporation.id,
+        role: 'supplier',
+        stateCode: 'tx',
+        item: 'Oil',
+        unitsPerHour: 10,
+        pricePerUnit: 50,
+        quarters: 2,
+      });
+      assertSuccessResponse(response, 201);
+
+      const body = await getResponseBody(response);
+      expect(body.contract.status).toBe('proposed');
+      expect(body.contract.source_state_code).toBe('TX');
+      expect(body.contract.destination_state_code).toBeNull();
+
+      const message = await getDb().collection('messages').findOne({ recipient_id: buyer.user.id });
+      expect(message?.sender_id).toBe(supplier.user.id);
+    });
+
+    it('should reject proposals from someone other than the CEO', async () => {
+      const supplier = await createCeo();
+      const buyer = await createCeo();
+
+      const response = await propose(buyer.authHeaders, {
+        corporationId: supplier.corporation.id,
+        counterpartyCorporationId: buyer.corporation.id,
+        role: 'supplier',
+        stateCode: 'TX',
+        item: 'Oil',
+        unitsPerHour: 10,
+        pricePerUnit: 50,
+        quarters: 2,
+      });
+      assertErrorResponse(response, 403);
+    });
+
+    it('should reject unknown items', async () => {
+      const supplier = await createCeo();
+      const buyer = await createCeo();
+
+      const response = await propose(supplier.authHeaders, {
+        corporationId: supplier.corporation.id,
+        counterpartyCorporationId: buyer.corporation.id,
+        role: 'supplier',
+        stateCode: 'TX',
+        item: 'Unobtainium',
+        unitsPerHour: 10,
+        pricePerUnit: 50,
+        quarters: 2,
+      });
+      assertErrorResponse(response, 404);
+    });
+  });
+
+  describe('Answering proposals', () => {
+    it('should start the term when the counterparty accepts', async () => {
+      const { buyer, contractId } = await createActiveContract();
+
+      const contract = await SupplyContractModel.findById(contractId);
+      expect(contract?.status).toBe('active');
+      expect(contract?.destination_state_code).toBe('CA');
+      expect(contract?.acceptor_user_id).toBe(buyer.user.id);
+
+      const list = await getResponseBody(await ListContracts(createTestRequest(
+        `http://localhost:3000/api/contracts?corporation_id=${buyer.corporation.id}`
+      )));
+      expect(list.contracts[0].role).toBe('buyer');
+    });
+
+    it('should not let the proposer accept their own proposal', async () => {
+      const supplier = await createCeo();
+      const buyer = await createCeo();
+      const { contract } = await getResponseBody(await propose(supplier.authHeaders, {
+        corporationId: supplier.corporation.id,
+        counterpartyCorporationId: buyer.corporation.id,
+        role: 'supplier',
+        stateCode: 'TX',
+        item: 'Oil',
+        unitsPerHour: 10,
+        pricePerUnit: 50,
+        quarters: 2,
+      }));
+
+      assertErrorResponse(await accept(contract.id, supplier.authHeaders, 'CA'), 400);
+    });
+
+    it('should close proposals that are rejected or withdrawn', async () => {
+      const supplier = await createCeo();
+      const buyer = await createCeo();
+      const terms = {
+        corporationId: supplier.corporation.id,
+        counterpartyCorporationId: buyer.corporation.id,
+        role: 'supplier',
+        stateCode: 'TX',
+        item: 'Oil',
+        unitsPerHour: 10,
+        pricePerUnit: 50,
+        quarters: 2,
+      };
+      const first = (await getResponseBody(await propose(supplier.authHeaders, terms))).contract;
+      const second = (await getResponseBody(await propose(supplier.authHeaders, terms))).contract;
+
+      const rejected = await RejectContract(createTestRequest(`http://localhost:3000/api/contracts/${first.id}/reject`, {
+        method: 'POST',
+        headers: buyer.authHeaders,
+      }), { params: { id: first.id.toString() } });
+      assertSuccessResponse(rejected);
+      expect((await SupplyContractModel.findById(first.id))?.status).toBe('rejected');
+
+      const withdrawn = await WithdrawContract(createTestRequest(`http://localhost:3000/api/contracts/${second.id}`, {
+        method: 'DELETE',
+        headers: supplier.authHeaders,
+      }), { params: { id: second.id.toString() } });
+      assertSuccessResponse(withdrawn);
+      expect((await SupplyContractModel.findById(second.id))?.status).toBe('withdrawn');
+    });
+  });
+
+  describe('Hourly settlement', () => {
+    it('should deliver stock at the contract price, shipped at the supplier\'s cost', async () => {
+      const { supplier, buyer, contractId } = await createActiveContract();
+      await InventoryModel.adjust(supplier.corporation.id, 'TX', 'Oil', 'resource', 25, 750);
+
+      const result = await SupplyContractService.settleAll();
+      expect(result.settled).toBe(1);
+
+      expect((await InventoryModel.findHolding(supplier.corporation.id, 'TX', 'Oil'))?.quantity).toBe(15);
+      const received = await InventoryModel.findHolding(buyer.corporation.id, 'CA', 'Oil');
+      expect(received?.quantity).toBe(10);
+      expect(received?.value).toBe(500);
+
+      const shipping = roundToCents(500 * getShippingCostPct('TX', 'CA') / 100);
+      expect(shipping).toBeGreaterThan(0);
+      expect((await CorporationModel.findById(supplier.corporation.id))?.capital).toBeCloseTo(100500 - shipping, 2);
+      expect((await CorporationModel.findById(buyer.corporation.id))?.capital).toBe(99500);
+      expect((await SupplyContractModel.findById(contractId))?.units_delivered).toBe(10);
+
+      const payment = await getDb().collection('transactions').findOne({ transaction_type: 'contract_payment' });
+      expect(payment?.amount).toBe(500);
+      const shipped = await getDb().collection('transactions').findOne({ transaction_type: 'shipping' });
+      expect(shipped).toMatchObject({ corporation_id: supplier.corporation.id, amount: shipping });
+    });
+
+    it('should penalise the supplier for a shortfall', async () => {
+      const { supplier, buyer, contractId } = await createActiveContract();
+      await InventoryModel.adjust(supplier.corporation.id, 'TX', 'Oil', 'resource', 4, 120);
+
+      await SupplyContractService.settleAll();
+
+      // 4 delivered for $200, less shipping; 6 short at 50% of $50
+      const shipping = roundToCents(200 * getShippingCostPct('TX', 'CA') / 100);
+      expect((await CorporationModel.findById(supplier.corporation.id))?.capital).toBeCloseTo(100000 + 200 - shipping - 150, 2);
+      expect((await CorporationModel.findById(buyer.corporation.id))?.capital).toBe(100000 - 200 + 150);
+
+      const contract = await SupplyContractModel.findById(contractId);
+      expect(contract?.units_short).toBe(6);
+      expect(contract?.total_penalties).toBe(150);
+
+      const penalty = await getDb().collection('transactions').findOne({ transaction_type: 'contract_penalty' });
+      expect(penalty?.corporation_id).toBe(supplier.corporation.id);
+    });
+
+    it('should complete contracts whose term has ended', async () => {
+      const { contractId } = await createActiveContract();
+      await getDb().collection('supply_contracts').updateOne({ id: contractId }, { $set: { ends_at: new Date(Date.now() - 1000) } });
+
+      const result = await SupplyContractService.settleAll();
+      expect(result.completed).toBe(1);
+      expect(result.settled).toBe(0);
+      expect((await SupplyContractModel.findById(contractId))?.status).toBe('completed');
+    });
+  });
+});
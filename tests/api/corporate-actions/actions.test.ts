@@ -1,7 +1,7 @@
 /**
  * Corporate Actions API Integration Tests
  * 
- * Tests marketing campaign and supply rush actions via corporate-actions endpoints
+ * Tests catalogue actions via the generic corporate-actions/[actionType] endpoint
  * Validates CEO permissions, cost calculations, capital checks, and action lifecycle
  * 
  * Business Rules Tested:
@@ -11,11 +11,14 @@
  * - Cannot activate if already active (4-hour expiry)
  * - Transactions recorded for audit trail
  * - Capital deducted from corporation on activation
+ * - Catalogue entries define cost, duration, cooldown and effects, and are admin-editable
+ * - State-scoped actions target a state the corporation operates in
  */
 
 import { describe, it, expect, beforeAll, afterAll, beforeEach } from 'vitest';
-import { POST as MarketingPOST } from '@/app/api/corporate-actions/[corporationId]/marketing-campaign/route';
-import { POST as SupplyRushPOST } from '@/app/api/corporate-actions/[corporationId]/supply-rush/route';
+import { POST as ActivatePOST } from '@/app/api/corporate-actions/[corporationId]/[actionType]/route';
+import { GET as GetCatalogue } from '@/app/api/corporate-action-config/route';
+import { PUT as UpdateActionConfig } from '@/app/api/corporate-action-config/admin/[actionType]/route';
 import { GET as GetActions } from '@/app/api/corporate-actions/[corporationId]/route';
 import { GET as GetActiveActions } from '@/app/api/corporate-actions/[corporationId]/active/route';
 import {
@@ -32,6 +35,19 @@ import {
   assertErrorResponse,
   findCorporationByTicker,
 } from '@/tests/utils/testHelpers';
+import { MarketEntryModel } from '@/lib/models/MarketEntry';
+import { CorporateActionConfigModel } from '@/lib/models/CorporateActionConfig';
+
+type ActivateRequest = Parameters<typeof ActivatePOST>[0];
+type CorporationParams = { params: { corporationId: string } };
+
+function activate(actionType: string) {
+  return (request: ActivateRequest, { params }: CorporationParams) =>
+    ActivatePOST(request, { params: { ...params, actionType } });
+}
+
+const MarketingPOST = activate('marketing-campaign');
+const SupplyRushPOST = activate('supply-rush');
 
 describe('Corporate Actions API', () => {
   beforeAll(async () => {
@@ -43,7 +59,7 @@ describe('Corporate Actions API', () => {
   });
 
   beforeEach(async () => {
-    await clearCollections('users', 'corporations', 'corporate_actions', 'transactions');
+    await clearCollections('users', 'corporations', 'corporate_actions', 'corporate_action_configs', 'market_entries', 'transactions');
   });
 
   describe('POST /api/corporate-actions/[corporationId]/marketing-campaign', () => {
@@ -858,4 +874,159 @@ describe('Corporate Actions API', () => {
       expect(body.length).toBe(0);
     });
   });
+  describe('Corporate action catalogue', () => {
+    async function ceoWithCorporation(capital = 5000000) {
+      const ceo = await createTestUser();
+      const corporation = await createTestCorporation(ceo.id, { capital, shares: 1000000, share_price: 5.00 });
+      const headers = createAuthHeader(createTestAccessToken(ceo.id, ceo.username, ceo.email, 'user'));
+      return { ceo, corporation, headers };
+    }
+
+    function activationRequest(corporationId: number, actionType: string, headers: Record<string, string>, body?: object) {
+      return createTestRequest(`http://localhost:3000/api/corporate-actions/${corporationId}/${actionType}`, {
+        method: 'POST',
+        headers,
+        body,
+      });
+    }
+
+    it('should list enabled actions with their effects', async () => {
+      await CorporateActionConfigModel.update('capacity_expansion', { is_enabled: false });
+
+      const response = await GetCatalogue();
+      assertSuccessResponse(response, 200);
+
+      const body = await getResponseBody(response);
+      const types = body.actions.map((a: { action_type: string }) => a.action_type);
+      expect(types).toContain('supply_rush');
+      expect(types).toContain('regional_promotion');
+      expect(types).not.toContain('capacity_expansion');
+      expect(body.actions[0].effects.length).toBeGreaterThan(0);
+    });
+
+    it('should reject unknown and disabled actions', async () => {
+      const { corporation, headers } = await ceoWithCorporation();
+      await CorporateActionConfigModel.update('cost_cutting', { is_enabled: false });
+
+      const unknown = await ActivatePOST(activationRequest(corporation.id, 'hostile-bribery', headers), {
+        params: { corporationId: corporation.id.toString(), actionType: 'hostile-bribery' },
+      });
+      assertErrorResponse(unknown, 404);
+
+      const disabled = await ActivatePOST(activationRequest(corporation.id, 'cost-cutting', headers), {
+        params: { corporationId: corporation.id.toString(), actionType: 'cost-cutting' },
+      });
+      assertErrorResponse(disabled, 404);
+    });
+
+    it('should snapshot the catalogue effects on the activated action', async () => {
+      const { corporation, headers } = await ceoWithCorporation();
+
+      const response = await ActivatePOST(activationRequest(corporation.id, 'cost_cutting', headers), {
+        params: { corporationId: corporation.id.toString(), actionType: 'cost_cutting' },
+      });
+      assertSuccessResponse(response, 201);
+
+      const body = await getResponseBody(response);
+      // $750,000 + 0.5% of $5,000,000 market cap
+      expect(body.cost).toBe(775000);
+      expect(body.name).toBe('Cost Cutting Drive');
+      expect(body.effects).toEqual([{ type: 'cost_reduction', value: 0.15, unit_types: null, scope: 'corporation' }]);
+      expect(new Date(body.expires_at).getTime() - new Date(body.started_at).getTime()).toBeCloseTo(8 * 60 * 60 * 1000, -4);
+    });
+
+    it('should enforce the cooldown after an action expires', async () => {
+      const { corporation, headers } = await ceoWithCorporation();
+      const { getDb } = await import('@/lib/db/mongo');
+      const expiredAt = new Date(Date.now() - 60 * 60 * 1000);
+      await getDb().collection('corporate_actions').insertOne({
+        id: 9001,
+        corporation_id: corporation.id,
+        action_type: 'cost_cutting',
+        cost: 775000,
+        started_at: new Date(expiredAt.getTime() - 8 * 60 * 60 * 1000),
+        expires_at: expiredAt,
+        created_at: new Date(),
+      });
+
+      const response = await ActivatePOST(activationRequest(corporation.id, 'cost_cutting', headers), {
+        params: { corporationId: corporation.id.toString(), actionType: 'cost_cutting' },
+      });
+      assertErrorResponse(response, 400);
+
+      const body = await getResponseBody(response);
+      expect(body.error).toMatch(/cooling down/i);
+      // 24 hour cooldown from expiry
+      expect(new Date(body.availableAt).getTime()).toBe(expiredAt.getTime() + 24 * 60 * 60 * 1000);
+    });
+
+    it('should require a state the corporation operates in for state-scoped actions', async () => {
+      const { corporation, headers } = await ceoWithCorporation();
+      await MarketEntryModel.create({ corporation_id: corporation.id, state_code: 'CA', sector_type: 'Retail' });
+      const params = { corporationId: corporation.id.toString(), actionType: 'regional-promotion' };
+
+      const missing = await ActivatePOST(activationRequest(corporation.id, 'regional-promotion', headers), { params });
+      assertErrorResponse(missing, 400);
+      expect((await getResponseBody(missing)).error).toMatch(/state_code/);
+
+      const elsewhere = await ActivatePOST(activationRequest(corporation.id, 'regional-promotion', headers, { state_code: 'TX' }), { params });
+      assertErrorResponse(elsewhere, 400);
+      expect((await getResponseBody(elsewhere)).error).toMatch(/no market entry in TX/);
+
+      const response = await ActivatePOST(activationRequest(corporation.id, 'regional-promotion', headers, { state_code: 'ca' }), { params });
+      assertSuccessResponse(response, 201);
+      expect((await getResponseBody(response)).state_code).toBe('CA');
+    });
+
+    it('should price activations from the admin-edited catalogue', async () => {
+      const { corporation, headers } = await ceoWithCorporation();
+      const admin = await createTestUser({ is_admin: true });
+      const adminHeaders = createAuthHeader(createTestAccessToken(admin.id, admin.username, admin.email, 'admin'));
+
+      const update = await UpdateActionConfig(
+        createTestRequest('http://localhost:3000/api/corporate-action-config/admin/marketing_campaign', {
+          method: 'PUT',
+          headers: adminHeaders,
+          body: { base_cost: 100000, market_cap_cost_pct: 2, duration_hours: 2 },
+        }),
+        { params: { actionType: 'marketing_campaign' } }
+      );
+      assertSuccessResponse(update, 200);
+
+      const response = await MarketingPOST(activationRequest(corporation.id, 'marketing-campaign', headers), {
+        params: { corporationId: corporation.id.toString() },
+      });
+      const body = await getResponseBody(response);
+
+      // $100,000 + 2% of $5,000,000
+      expect(body.cost).toBe(200000);
+    });
+
+    it('should reject catalogue edits from non-admins and invalid effects', async () => {
+      const { headers } = await ceoWithCorporation();
+      const admin = await createTestUser({ is_admin: true });
+      const adminHeaders = createAuthHeader(createTestAccessToken(admin.id, admin.username, admin.email, 'admin'));
+      const params = { params: { actionType: 'supply_rush' } };
+
+      const forbidden = await UpdateActionConfig(
+        createTestRequest('http://localhost:3000/api/corporate-action-config/admin/supply_rush', {
+          method: 'PUT',
+          headers,
+          body: { base_cost: 1 },
+        }),
+        params
+      );
+      assertErrorResponse(forbidden, 401);
+
+      const invalid = await UpdateActionConfig(
+        createTestRequest('http://localhost:3000/api/corporate-action-config/admin/supply_rush', {
+          method: 'PUT',
+          headers: adminHeaders,
+          body: { effects: [{ type: 'capacity_increase', value: 5, unit_types: null, scope: 'corporation' }] },
+        }),
+        params
+      );
+      assertErrorResponse(invalid, 400);
+    });
+  });
 });
@@ -0,0 +1,158 @@
+/**
+ * Dividend Engine Integration Tests
+ *
+ * Tests earnings-based dividends via triggerDividends and DividendService
+ *
+ * Business Rules Tested:
+ * - Dividends are paid from operating income accrued since the last record date, not capital
+ * - Holders are snapshotted at the record date and each gets their own dividend transaction
+ * - Losses carry forward and nothing is paid while accrued earnings are negative
+ * - Lent shares earn their lender a dividend paid by the short seller
+ * - A payout is never paid to the same holder twice
+ */
+
+import { describe, it, expect, beforeAll, afterAll, beforeEach } from 'vitest';
+import { triggerDividends } from '@/lib/cron/actions';
+import { DividendService } from '@/lib/services/DividendService';
+import { ShortSellingService } from '@/lib/services/ShortSellingService';
+import { DividendPayoutModel } from '@/lib/models/DividendPayout';
+import { CorporationModel } from '@/lib/models/Corporation';
+import { ShareholderModel } from '@/lib/models/Shareholder';
+import { ShortPositionModel } from '@/lib/models/ShortPosition';
+import { TransactionModel } from '@/lib/models/Transaction';
+import { UserModel } from '@/lib/models/User';
+import { getDb } from '@/lib/db/mongo';
+import {
+  setupTestDatabase,
+  teardownTestDatabase,
+  clearCollections,
+  createTestUser,
+  createTestCorporation,
+  createTestShares,
+  generateUsername,
+  generateEmail,
+} from '@/tests/utils/testHelpers';
+
+describe('Dividend engine', () => {
+  beforeAll(async () => {
+    await setupTestDatabase();
+  });
+
+  afterAll(async () => {
+    await teardownTestDatabase();
+  });
+
+  beforeEach(async () => {
+    await clearCollections('users', 'corporations', 'shareholders', 'short_positions', 'dividend_payouts', 'share_transactions', 'transactions');
+  });
+
+  async function createHolder(cash = 10000) {
+    return createTestUser({ username: generateUsername(), email: generateEmail(), cash });
+  }
+
+  // 1,000 shares split 600/400 between two holders, paying out 50% of earnings
+  async function createDividendCorp(earnings: number) {
+    const [first, second] = await Promise.all([createHolder(), createHolder()]);
+    const corp = await createTestCorporation(first.id, { shares: 1000, public_shares: 0, capital: 500000 });
+    await createTestShares(first.id, corp.id, 600);
+    await createTestShares(second.id, corp.id, 400);
+    await CorporationModel.update(corp.id, { dividend_percentage: 50 });
+    await CorporationModel.accrueEarnings(corp.id, earnings);
+    return { corp, first, second };
+  }
+
+  it('should pay out a share of accrued earnings to each holder', async () => {
+    const { corp, first, second } = await createDividendCorp(20000);
+
+    const result = await triggerDividends();
+    expect(result.declared).toBe(1);
+
+    // 50% of 20,000 over 1,000 shares = $10/share
+    expect(await UserModel.getCash(first.id)).toBeCloseTo(10000 + 6000, 2);
+    expect(await UserModel.getCash(second.id)).toBeCloseTo(10000 + 4000, 2);
+
+    const after = await CorporationModel.findById(corp.id);
+    expect(after!.capital).toBeCloseTo(500000 - 10000, 2);
+    expect(after!.undistributed_earnings).toBeCloseTo(0, 2);
+    expect(after!.last_dividend_at).toBeInstanceOf(Date);
+  });
+
+  it('should write a dividend transaction per holder', async () => {
+    const { first, second } = await createDividendCorp(20000);
+
+    await triggerDividends();
+
+    expect(await TransactionModel.getDividendIncome(first.id)).toBeCloseTo(6000, 2);
+    expect(await TransactionModel.getDividendIncome(second.id)).toBeCloseTo(4000, 2);
+  });
+
+  it('should not pay while accrued earnings are negative', async () => {
+    const { corp, first } = await createDividendCorp(-5000);
+
+    const result = await triggerDividends();
+    expect(result.declared).toBe(0);
+    expect(await UserModel.getCash(first.id)).toBe(10000);
+
+    const after = await CorporationModel.findById(corp.id);
+    expect(after!.undistributed_earnings).toBe(-5000);
+  });
+
+  it('should only pay earnings accrued since the last record date', async () => {
+    const { first } = await createDividendCorp(20000);
+
+    await triggerDividends();
+    const second = await triggerDividends();
+
+    expect(second.declared).toBe(0);
+    expect(await UserModel.getCash(first.id)).toBeCloseTo(16000, 2);
+  });
+
+  it('should pay holders as of the record date', async () => {
+    const { corp, first, second } = await createDividendCorp(20000);
+    const payout = await DividendService.declare((await CorporationModel.findById(corp.id))!);
+
+    // Shares change hands after the record date
+    await ShareholderModel.decrementShares(corp.id, first.id, 600);
+    await ShareholderModel.create({ corporation_id: corp.id, user_id: second.id, shares: 600 });
+
+    await DividendService.pay(payout!, corp.name);
+
+    expect(await UserModel.getCash(first.id)).toBeCloseTo(16000, 2);
+    expect(await UserModel.getCash(second.id)).toBeCloseTo(14000, 2);
+  });
+
+  it('should never pay a holder twice', async () => {
+    const { corp, first } = await createDividendCorp(20000);
+    const payout = await DividendService.declare((await CorporationModel.findById(corp.id))!);
+
+    await Promise.all([
+      DividendService.pay(payout!, corp.name),
+      DividendService.pay(payout!, corp.name),
+    ]);
+
+    expect(await UserModel.getCash(first.id)).toBeCloseTo(16000, 2);
+    expect((await DividendPayoutModel.findById(payout!.id))!.status).toBe('paid');
+    expect(await getDb().collection('transactions').countDocuments({ transaction_type: 'dividend' })).toBe(2);
+  });
+
+  it('should have short sellers pay the dividend on lent shares', async () => {
+    const { corp, first } = await createDividendCorp(20000);
+    const seller = await createHolder(50000);
+    await ShareholderModel.setLendingEnabled(corp.id, first.id, true);
+
+    const position = await ShortSellingService.openShort(corp.id, seller.id, 100, 100);
+    const sellerCash = await UserModel.getCash(seller.id);
+
+    await triggerDividends();
+
+    // 500 held + 100 lent, both at $10/share; the lent 100 are paid by the short seller
+    expect(await UserModel.getCash(first.id)).toBeCloseTo(10000 + 6000, 2);
+    expect(await UserModel.getCash(seller.id)).toBeCloseTo(sellerCash - 1000, 2);
+
+    const after = await CorporationModel.findById(corp.id);
+    expect(after!.capital).toBeCloseTo(500000 - 9000, 2);
+
+    const updated = await ShortPositionModel.findById(position.id);
+    expect(updated!.fees_paid).toBeCloseTo(1000, 2);
+  });
+});
@@ -0,0 +1,264 @@
+/**
+ * Corporate Loans API Integration Tests
+ *
+ * Tests loan origination, listing and repayment via /api/corporation/[id]/loans
+ * and hourly servicing/default via triggerLoanServicing
+ *
+ * Business Rules Tested:
+ * - Only the CEO can request or repay loans
+ * - Debt-to-assets after disbursement must stay under the cap
+ * - Requested rate must meet the quoted rate
+ * - Principal is credited to capital and appears as a liability
+ * - Disbursements and repayments move capital atomically with the loan, within the active loan limit
+ * - Missed payments capitalize interest and eventually trigger default
+ */
+
+import { describe, it, expect, beforeAll, afterAll, beforeEach } from 'vitest';
+import { GET as ListLoans, POST as RequestLoan } from '@/app/api/corporation/[id]/loans/route';
+import { POST as RepayLoan } from '@/app/api/corporation/[id]/loans/repay/route';
+import { triggerLoanServicing } from '@/lib/cron/actions';
+import { calculateBalanceSheet } from '@/lib/utils/valuation';
+import { LOAN_CONFIG } from '@/lib/constants/loans';
+import { CorporationModel } from '@/lib/models/Corporation';
+import { LoanModel } from '@/lib/models/Loan';
+import { getDb } from '@/lib/db/mongo';
+import {
+  setupTestDatabase,
+  teardownTestDatabase,
+  clearCollections,
+  createTestUser,
+  createTestScenario,
+  createTestRequest,
+  createAuthHeader,
+  createTestAccessToken,
+  getResponseBody,
+  assertSuccessResponse,
+  assertErrorResponse,
+  assertValidationError,
+} from '@/tests/utils/testHelpers';
+
+const validLoan = {
+  amount: 100000,
+  termMonths: 12,
+  interestRate: 25,
+  purpose: 'Expansion capital for new markets',
+};
+
+describe('Corporate Loans API', () => {
+  beforeAll(async () => {
+    await setupTestDatabase();
+  });
+
+  afterAll(async () => {
+    await teardownTestDatabase();
+  });
+
+  beforeEach(async () => {
+    await clearCollections('users', 'corporations', 'shareholders', 'loans', 'transactions', 'market_entries', 'business_units');
+  });
+
+  async function requestLoan(corpId: number, headers: Record<string, string>, body: Record<string, unknown> = validLoan) {
+    const request = createTestRequest(`http://localhost:3000/api/corporation/${corpId}/loans`, {
+      method: 'POST',
+      body,
+      headers,
+    });
+    return RequestLoan(request, { params: { id: corpId.toString() } });
+  }
+
+  describe('POST /api/corporation/[id]/loans', () => {
+    it('should disburse principal into capital and record a liability', async () => {
+      const scenario = await createTestScenario();
+
+      const response = await requestLoan(scenario.corporation.id, scenario.authHeaders);
+      assertSuccessResponse(response, 201);
+
+      const body = await getResponseBody(response);
+      expect(body.loan.status).toBe('active');
+      expect(body.loan.outstanding_principal).toBe(100000);
+      expect(body.loan.term_hours).toBe(12 * LOAN_CONFIG.HOURS_PER_GAME_MONTH);
+      expect(body.loan.hourly_payment).toBeGreaterThan(0);
+
+      const corp = await CorporationModel.findById(scenario.corporation.id);
+      expect(corp?.capital).toBe(600000);
+
+      const balanceSheet = await calculateBalanceSheet(scenario.corporation.id);
+      expect(balanceSheet.loansPayable).toBe(100000);
+      expect(balanceSheet.totalLiabilities).toBe(100000);
+      expect(balanceSheet.shareholdersEquity).toBe(balanceSheet.totalAssets - 100000);
+    });
+
+    it('should reject non-CEO borrowers', async () => {
+      const scenario = await createTestScenario();
+      const other = await createTestUser();
+      const headers = createAuthHeader(createTestAccessToken(other.id, other.username, other.email));
+
+      const response = await requestLoan(scenario.corporation.id, headers);
+      assertErrorResponse(response, 403);
+    });
+
+    it('should reject loans above the debt-to-assets cap', async () => {
+      const scenario = await createTestScenario();
+
+      const response = await requestLoan(scenario.corporation.id, scenario.authHeaders, {
+        ...validLoan,
+        amount: 5000000,
+      });
+      assertErrorResponse(response, 400);
+
+      const body = await getResponseBody(response);
+      expect(body.max_borrowable).toBeGreaterThan(0);
+    });
+
+    it('should reject rates below the quoted rate', async () => {
+      const scenario = await createTestScenario();
+
+      const response = await requestLoan(scenario.corporation.id, scenario.authHeaders, {
+        ...validLoan,
+        interestRate: 0.5,
+      });
+      assertErrorResponse(response, 400);
+
+      const body = await getResponseBody(response);
+      expect(body.quoted_rate).toBeGreaterThan(0.5);
+    });
+
+    it('should validate request body', async () => {
+      const scenario = await createTestScenario();
+
+      const response = await requestLoan(scenario.corporation.id, scenario.authHeaders, { amount: 5 });
+      assertErrorResponse(response, 400);
+      assertValidationError(await getResponseBody(response));
+    });
+  });
+
+  describe('GET /api/corporation/[id]/loans', () => {
+    it('should list loans with outstanding principal', async () => {
+      const scenario = await createTestScenario();
+      await requestLoan(scenario.corporation.id, scenario.authHeaders);
+
+      const request = createTestRequest(`http://localhost:3000/api/corporation/${scenario.corporation.id}/loans?status=active`);
+      const response = await ListLoans(request, { params: { id: scenario.corporation.id.toString() } });
+      assertSuccessResponse(response, 200);
+
+      const body = await getResponseBody(response);
+      expect(body.total).toBe(1);
+      expect(body.loans).toHaveLength(1);
+      expect(body.outstanding_principal).toBe(100000);
+    });
+  });
+
+  describe('Active loan limit', () => {
+    it('should hold under concurrent requests', async () => {
+      const scenario = await createTestScenario();
+      for (let i = 0; i < LOAN_CONFIG.MAX_ACTIVE_LOANS - 1; i++) {
+        assertSuccessResponse(await requestLoan(scenario.corporation.id, scenario.authHeaders), 201);
+      }
+
+      const responses = await Promise.all([
+        requestLoan(scenario.corporation.id, scenario.authHeaders),
+        requestLoan(scenario.corporation.id, scenario.authHeaders),
+      ]);
+      expect(responses.map(r => r.status).sort()).toEqual([201, 400]);
+
+      expect(await LoanModel.countByCorporationId(scenario.corporation.id, 'active')).toBe(LOAN_CONFIG.MAX_ACTIVE_LOANS);
+      const corp = await CorporationModel.findById(scenario.corporation.id);
+      expect(corp?.capital).toBe(500000 + LOAN_CONFIG.MAX_ACTIVE_LOANS * validLoan.amount);
+    });
+  });
+
+  describe('POST /api/corporation/[id]/loans/repay', () => {
+    it('should pay off a loan in full', async () => {
+      const scenario = await createTestScenario();
+      const { loan } = await getResponseBody(await requestLoan(scenario.corporation.id, scenario.authHeaders));
+
+      const request = createTestRequest(`http://localhost:3000/api/corporation/${scenario.corporation.id}/loans/repay`, {
+        method: 'POST',
+        body: { loanId: loan.id, amount: 1, isFullPayoff: true },
+        headers: scenario.authHeaders,
+      });
+      const response = await RepayLoan(request, { params: { id: scenario.corporation.id.toString() } });
+      assertSuccessResponse(response, 200);
+
+      const body = await getResponseBody(response);
+      expect(body.amount_paid).toBe(100000);
+      expect(body.loan.status).toBe('paid');
+
+      const corp = await CorporationModel.findById(scenario.corporation.id);
+      expect(corp?.capital).toBe(500000);
+    });
+
+    it('should only take capital once when a payoff is repeated concurrently', async () => {
+      const scenario = await createTestScenario();
+      const { loan } = await getResponseBody(await requestLoan(scenario.corporation.id, scenario.authHeaders));
+
+      const repay = () => RepayLoan(
+        createTestRequest(`http://localhost:3000/api/corporation/${scenario.corporation.id}/loans/repay`, {
+          method: 'POST',
+          body: { loanId: loan.id, amount: 1, isFullPayoff: true },
+          headers: scenario.authHeaders,
+        }),
+        { params: { id: scenario.corporation.id.toString() } }
+      );
+      const responses = await Promise.all([repay(), repay()]);
+      expect(responses.map(r => r.status).sort()).toEqual([200, 400]);
+
+      const corp = await CorporationModel.findById(scenario.corporation.id);
+      expect(corp?.capital).toBe(500000);
+    });
+  });
+
+  describe('triggerLoanServicing', () => {
+    it('should collect the hourly payment and reduce principal', async () => {
+      const scenario = await createTestScenario();
+      const { loan } = await getResponseBody(await requestLoan(scenario.corporation.id, scenario.authHeaders));
+
+      const result = await triggerLoanServicing();
+      expect(result.serviced).toBe(1);
+
+      const updated = await LoanModel.findById(loan.id);
+      expect(updated?.outstanding_principal).toBeLessThan(100000);
+      expect(updated?.total_interest_paid).toBeGreaterThan(0);
+
+      const corp = await CorporationModel.findById(scenario.corporation.id);
+      expect(corp?.capital).toBeCloseTo(600000 - loan.hourly_payment, 2);
+    });
+
+    it('should default after too many missed payments', async () => {
+      const scenario = await createTestScenario();
+      const { loan } = await getResponseBody(await requestLoan(scenario.corporation.id, scenario.authHeaders));
+
+      await CorporationModel.update(scenario.corporation.id, { capital: 0 });
+      await getDb().collection('loans').updateOne({ id: loan.id }, { $set: { missed_payments: LOAN_CONFIG.MAX_MISSED_PAYMENTS - 1 } });
+
+      const result = await triggerLoanServicing();
+      expect(result.defaulted).toBe(1);
+
+      const updated = await LoanModel.findById(loan.id);
+      expect(updated?.status).toBe('defaulted');
+
+      const balanceSheet = await calculateBalanceSheet(scenario.corporation.id);
+      expect(balanceSheet.loansPayable).toBe(0);
+
+      const retry = await requestLoan(scenario.corporation.id, scenario.authHeaders);
+      assertErrorResponse(retry, 400);
+    });
+
+    it('should seize the remaining capital toward the balance on default', async () => {
+      const scenario = await createTestScenario();
+      const { loan } = await getResponseBody(await requestLoan(scenario.corporation.id, scenario.authHeaders));
+
+      // Not enough for the payment, but something to seize
+      const remaining = Math.round(loan.hourly_payment * 50) / 100;
+      await CorporationModel.update(scenario.corporation.id, { capital: remaining });
+      await getDb().collection('loans').updateOne({ id: loan.id }, { $set: { missed_payments: LOAN_CONFIG.MAX_MISSED_PAYMENTS - 1 } });
+
+      expect((await triggerLoanServicing()).defaulted).toBe(1);
+
+      expect((await CorporationModel.findById(scenario.corporation.id))?.capital).toBeCloseTo(0, 2);
+      expect((await LoanModel.findById(loan.id))?.total_principal_paid).toBeCloseTo(remaining, 2);
+      const record = await getDb().collection('transactions').findOne({ transaction_type: 'loan_default', reference_id: loan.id });
+      expect(record?.amount).toBeCloseTo(remaining, 2);
+    });
+  });
+});
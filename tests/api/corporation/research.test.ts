@@ -0,0 +1,167 @@
+/**
+ * Corporate Research API Integration Tests
+ *
+ * Tests research projects via /api/corporation/[id]/research
+ *
+ * Business Rules Tested:
+ * - Only the CEO can start research, in a sector the corporation operates in
+ * - A project costs capital and action points up front
+ * - Projects unlock once their prerequisites are completed
+ * - A corporation researches one project at a time
+ * - Completed projects are reported per sector
+ */
+
+import { describe, it, expect, beforeAll, afterAll, beforeEach } from 'vitest';
+import { GET as GetResearch, POST as StartResearch } from '@/app/api/corporation/[id]/research/route';
+import { CorporationModel } from '@/lib/models/Corporation';
+import { CorporationResearchModel } from '@/lib/models/CorporationResearch';
+import { MarketEntryModel } from '@/lib/models/MarketEntry';
+import { UserModel } from '@/lib/models/User';
+import { findResearchProject } from '@/lib/constants/research';
+import {
+  setupTestDatabase,
+  teardownTestDatabase,
+  clearCollections,
+  createTestUser,
+  createTestCorporation,
+  createTestRequest,
+  createAuthHeader,
+  createTestAccessToken,
+  getResponseBody,
+  assertSuccessResponse,
+  assertErrorResponse,
+  assertValidationError,
+  generateUsername,
+  generateEmail,
+} from '@/tests/utils/testHelpers';
+
+describe('Corporate Research API', () => {
+  beforeAll(async () => {
+    await setupTestDatabase();
+  });
+
+  afterAll(async () => {
+    await teardownTestDatabase();
+  });
+
+  beforeEach(async () => {
+    await clearCollections('users', 'corporations', 'market_entries', 'transactions', 'corporation_research');
+  });
+
+  async function createCorporationWithCeo(capital = 10000000) {
+    const user = await createTestUser({ username: generateUsername(), email: generateEmail() });
+    const corporation = await createTestCorporation(user.id, { capital });
+    await MarketEntryModel.create({ corporation_id: corporation.id, state_code: 'CA', sector_type: 'Heavy Industry' });
+    return {
+      user,
+      corporation,
+      authHeaders: createAuthHeader(createTestAccessToken(user.id, user.username, user.email)),
+    };
+  }
+
+  async function start(corporationId: number, headers: Record<string, string>, body: Record<string, unknown>) {
+    const request = createTestRequest(`http://localhost:3000/api/corporation/${corporationId}/research`, {
+      method: 'POST',
+      body,
+      headers,
+    });
+    return StartResearch(request, { params: { id: String(corporationId) } });
+  }
+
+  async function getResearch(corporationId: number) {
+    const request = createTestRequest(`http://localhost:3000/api/corporation/${corporationId}/research`);
+    return GetResearch(request, { params: { id: String(corporationId) } });
+  }
+
+  it('should start a project and charge the corporation', async () => {
+    const { user, corporation, authHeaders } = await createCorporationWithCeo();
+    const project = findResearchProject('Heavy Industry', 'process_engineering')!;
+
+    const response = await start(corporation.id, authHeaders, { sector: 'Heavy Industry', projectKey: project.key });
+    assertSuccessResponse(response, 201);
+
+    const body = await getResponseBody(response);
+    expect(body.research.project_key).toBe(project.key);
+
+    const updated = await CorporationModel.findById(corporation.id);
+    expect(Number(updated?.capital)).toBe(10000000 - project.cost);
+    expect(await UserModel.getActions(user.id)).toBe(20 - project.action_cost);
+
+    const trees = await getResponseBody(await getResearch(corporation.id));
+    const tree = trees.sectors.find((sector: { sector_type: string }) => sector.sector_type === 'Heavy Industry');
+    expect(tree.projects.find((p: { key: string }) => p.key === project.key).status).toBe('in_progress');
+  });
+
+  it('should report completed research and unlock the next projects', async () => {
+    const { user, corporation } = await createCorporationWithCeo();
+    await CorporationResearchModel.create({
+      corporation_id: corporation.id,
+      sector_type: 'Heavy Industry',
+      project_key: 'process_engineering',
+      user_id: user.id,
+      cost: 0,
+      action_cost: 0,
+      completes_at: new Date(Date.now() - 1000),
+    });
+
+    const response = await getResearch(corporation.id);
+    assertSuccessResponse(response);
+
+    const body = await getResponseBody(response);
+    expect(body.completed).toEqual({ 'Heavy Industry': ['process_engineering'] });
+    const projects = body.sectors[0].projects;
+    expect(projects.find((p: { key: string }) => p.key === 'material_efficiency').status).toBe('available');
+    expect(projects.find((p: { key: string }) => p.key === 'automation').status).toBe('locked');
+  });
+
+  it('should reject a project whose prerequisites are not completed', async () => {
+    const { corporation, authHeaders } = await createCorporationWithCeo();
+
+    const response = await start(corporation.id, authHeaders, { sector: 'Heavy Industry', projectKey: 'automation' });
+    assertErrorResponse(response, 400);
+    expect((await getResponseBody(response)).error).toContain('requires');
+  });
+
+  it('should reject a second project while one is under way', async () => {
+    const { corporation, authHeaders } = await createCorporationWithCeo();
+
+    assertSuccessResponse(await start(corporation.id, authHeaders, { sector: 'Heavy Industry', projectKey: 'process_engineering' }), 201);
+    const response = await start(corporation.id, authHeaders, { sector: 'Heavy Industry', projectKey: 'workforce_training' });
+    assertErrorResponse(response, 400);
+    expect((await getResponseBody(response)).error).toContain('already researching');
+  });
+
+  it('should reject a sector the corporation does not operate in', async () => {
+    const { corporation, authHeaders } = await createCorporationWithCeo();
+
+    const response = await start(corporation.id, authHeaders, { sector: 'Technology', projectKey: 'process_engineering' });
+    assertErrorResponse(response, 400);
+    expect((await getResponseBody(response)).error).toContain('does not operate in');
+  });
+
+  it('should reject anyone but the CEO', async () => {
+    const { corporation } = await createCorporationWithCeo();
+    const outsider = await createCorporationWithCeo();
+
+    const response = await start(corporation.id, outsider.authHeaders, { sector: 'Heavy Industry', projectKey: 'process_engineering' });
+    assertErrorResponse(response, 400);
+    expect((await getResponseBody(response)).error).toContain('Only the CEO');
+  });
+
+  it('should reject insufficient capital without spending actions', async () => {
+    const { user, corporation, authHeaders } = await createCorporationWithCeo(1000);
+
+    const response = await start(corporation.id, authHeaders, { sector: 'Heavy Industry', projectKey: 'process_engineering' });
+    assertErrorResponse(response, 400);
+    expect((await getResponseBody(response)).error).toContain('Insufficient capital');
+    expect(await UserModel.getActions(user.id)).toBe(20);
+  });
+
+  it('should validate the sector', async () => {
+    const { corporation, authHeaders } = await createCorporationWithCeo();
+
+    const response = await start(corporation.id, authHeaders, { sector: 'Space', projectKey: 'process_engineering' });
+    assertErrorResponse(response, 400);
+    assertValidationError(await getResponseBody(response));
+  });
+});
@@ -0,0 +1,179 @@
+/**
+ * CEO Salary Ledger Integration Tests
+ *
+ * Tests per-quarter salary accrual via triggerCeoSalaries and SalaryService
+ *
+ * Business Rules Tested:
+ * - One ledger entry accrues per completed game quarter, never twice
+ * - Salary is paid from capital and counted against operating income
+ * - Unaffordable salary stays on the ledger as arrears and shows as a liability
+ * - Arrears are paid off oldest first once capital allows
+ * - After the board's missed-payment limit, a CEO vote opens automatically
+ */
+
+import { describe, it, expect, beforeAll, afterAll, beforeEach } from 'vitest';
+import { triggerCeoSalaries } from '@/lib/cron/actions';
+import { SalaryService } from '@/lib/services/SalaryService';
+import { SalaryLedgerModel } from '@/lib/models/SalaryLedger';
+import { CorporationModel } from '@/lib/models/Corporation';
+import { UserModel } from '@/lib/models/User';
+import { calculateBalanceSheet } from '@/lib/utils/valuation';
+import { SALARY_CONFIG, getSalaryPerQuarter } from '@/lib/constants/salaries';
+import { getDb } from '@/lib/db/mongo';
+import {
+  setupTestDatabase,
+  teardownTestDatabase,
+  clearCollections,
+  createTestUser,
+  createTestCorporation,
+  createTestShares,
+  generateUsername,
+  generateEmail,
+} from '@/tests/utils/testHelpers';
+
+const QUARTER_MS = 24 * 60 * 60 * 1000;
+const SALARY_PER_QUARTER = getSalaryPerQuarter(SALARY_CONFIG.DEFAULT_CEO_SALARY_PER_96H);
+
+describe('CEO salary ledger', () => {
+  beforeAll(async () => {
+    await setupTestDatabase();
+  });
+
+  afterAll(async () => {
+    await teardownTestDatabase();
+  });
+
+  beforeEach(async () => {
+    await clearCollections('users', 'corporations', 'shareholders', 'salary_ledger', 'board_proposals', 'transactions', 'messages', 'notifications');
+  });
+
+  async function createSalariedCorp(capital: number) {
+    const ceo = await createTestUser({ username: generateUsername(), email: generateEmail(), cash: 0 });
+    const corp = await createTestCorporation(ceo.id, { shares: 1000, public_shares: 0, capital });
+    await createTestShares(ceo.id, corp.id, 600);
+    return { ceo, corp };
+  }
+
+  function quartersFromNow(quarters: number): Date {
+    return new Date(Date.now() + quarters * QUARTER_MS);
+  }
+
+  it('should pay one quarter of salary per completed game quarter', async () => {
+    const { ceo, corp } = await createSalariedCorp(500000);
+
+    const result = await SalaryService.run(quartersFromNow(1));
+    expect(result.accrued).toBe(1);
+    expect(result.paid).toBe(1);
+
+    expect(await UserModel.getCash(ceo.id)).toBeCloseTo(SALARY_PER_QUARTER, 2);
+
+    const after = await CorporationModel.findById(corp.id);
+    expect(after!.capital).toBeCloseTo(500000 - SALARY_PER_QUARTER, 2);
+    expect(after!.undistributed_earnings).toBeCloseTo(-SALARY_PER_QUARTER, 2);
+    expect(after!.last_salary_paid_at).toBeInstanceOf(Date);
+  });
+
+  it('should not accrue a quarter twice', async () => {
+    const { ceo } = await createSalariedCorp(500000);
+    const now = quartersFromNow(1);
+
+    await SalaryService.run(now);
+    const second = await SalaryService.run(now);
+
+    expect(second.accrued).toBe(0);
+    expect(await UserModel.getCash(ceo.id)).toBeCloseTo(SALARY_PER_QUARTER, 2);
+  });
+
+  it('should not pay while the current quarter is still running', async () => {
+    const { ceo } = await createSalariedCorp(500000);
+
+    const result = await triggerCeoSalaries();
+    expect(result.paid).toBe(0);
+    expect(await UserModel.getCash(ceo.id)).toBe(0);
+  });
+
+  it('should catch up on every quarter missed since the last entry', async () => {
+    const { corp } = await createSalariedCorp(500000);
+
+    await SalaryService.run(quartersFromNow(1));
+    const result = await SalaryService.run(quartersFromNow(4));
+
+    expect(result.accrued).toBe(3);
+    const ledger = await SalaryLedgerModel.findByCorporationId(corp.id);
+    expect(ledger).toHaveLength(4);
+    expect(ledger.every(entry => entry.status === 'paid')).toBe(true);
+  });
+
+  it('should record unaffordable salary as arrears on the balance sheet', async () => {
+    const { ceo, corp } = await createSalariedCorp(1000);
+
+    const result = await SalaryService.run(quartersFromNow(1));
+    expect(result.paid).toBe(0);
+    expect(result.inArrears).toBe(1);
+    expect(await UserModel.getCash(ceo.id)).toBe(0);
+
+    const balanceSheet = await calculateBalanceSheet(corp.id);
+    expect(balanceSheet.salaryArrears).toBeCloseTo(SALARY_PER_QUARTER, 2);
+    expect(balanceSheet.totalLiabilities).toBeCloseTo(SALARY_PER_QUARTER, 2);
+  });
+
+  it('should pay off arrears once capital allows', async () => {
+    const { ceo, corp } = await createSalariedCorp(1000);
+
+    await SalaryService.run(quartersFromNow(1));
+    await SalaryService.run(quartersFromNow(2));
+    expect(await SalaryLedgerModel.getArrearsTotal(corp.id)).toBeCloseTo(SALARY_PER_QUARTER * 2, 2);
+
+    await CorporationModel.update(corp.id, { capital: 1000000 });
+    await SalaryService.payArrears(corp.id);
+
+    expect(await SalaryLedgerModel.getArrearsTotal(corp.id)).toBe(0);
+    expect(await UserModel.getCash(ceo.id)).toBeCloseTo(SALARY_PER_QUARTER * 2, 2);
+  });
+
+  it('should still owe arrears to the CEO who earned them', async () => {
+    const { ceo, corp } = await createSalariedCorp(1000);
+    await SalaryService.run(quartersFromNow(1));
+
+    const successor = await createTestUser({ username: generateUsername(), email: generateEmail(), cash: 0 });
+    await CorporationModel.setElectedCeo(corp.id, successor.id);
+    await CorporationModel.update(corp.id, { capital: 1000000 });
+    await SalaryService.payArrears(corp.id);
+
+    expect(await UserModel.getCash(ceo.id)).toBeCloseTo(SALARY_PER_QUARTER, 2);
+    expect(await UserModel.getCash(successor.id)).toBe(0);
+  });
+
+  it('should open a CEO vote after the missed-payment limit', async () => {
+    const { corp } = await createSalariedCorp(1000);
+    const investor = await createTestUser({ username: generateUsername(), email: generateEmail() });
+    await createTestShares(investor.id, corp.id, 400);
+
+    for (let quarter = 1; quarter < SALARY_CONFIG.DEFAULT_MISSED_PAYMENTS_LIMIT; quarter++) {
+      const result = await SalaryService.run(quartersFromNow(quarter));
+      expect(result.nominations).toBe(0);
+    }
+
+    const result = await SalaryService.run(quartersFromNow(SALARY_CONFIG.DEFAULT_MISSED_PAYMENTS_LIMIT));
+    expect(result.nominations).toBe(1);
+
+    const proposal = await getDb().collection('board_proposals').findOne({ corporation_id: corp.id, proposal_type: 'ceo_nomination' });
+    expect(proposal).not.toBeNull();
+    expect(proposal!.proposal_data.nominee_id).toBe(investor.id);
+
+    // An open vote is not duplicated by later missed quarters
+    await SalaryService.run(quartersFromNow(SALARY_CONFIG.DEFAULT_MISSED_PAYMENTS_LIMIT + 1));
+    expect(await getDb().collection('board_proposals').countDocuments({ corporation_id: corp.id, proposal_type: 'ceo_nomination' })).toBe(1);
+  });
+
+  it('should take no action when the board has disabled the arrears policy', async () => {
+    const { corp } = await createSalariedCorp(1000);
+    const investor = await createTestUser({ username: generateUsername(), email: generateEmail() });
+    await createTestShares(investor.id, corp.id, 400);
+    await CorporationModel.update(corp.id, { salary_arrears_limit: 1, salary_arrears_action: 'none' });
+
+    const result = await SalaryService.run(quartersFromNow(1));
+    expect(result.inArrears).toBe(1);
+    expect(result.nominations).toBe(0);
+  });
+});
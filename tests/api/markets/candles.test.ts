@@ -0,0 +1,123 @@
+/**
+ * Price Candles API Integration Tests
+ *
+ * Tests OHLC candles via the `resolution` parameter of /api/shares/[id]/history
+ * and /api/markets/resource/[name]/history
+ *
+ * Business Rules Tested:
+ * - Without a resolution the routes return the recorded prices as before
+ * - Share candles take their volume and VWAP from fills, counting order book fills once
+ * - Resource candles take theirs from the hourly spot market volume
+ * - Unknown resolutions and items are rejected
+ */
+
+import { describe, it, expect, beforeAll, afterAll, beforeEach } from 'vitest';
+import { GET as GetShareHistory } from '@/app/api/shares/[id]/history/route';
+import { GET as GetResourceHistory } from '@/app/api/markets/resource/[name]/history/route';
+import { SharePriceHistoryModel } from '@/lib/models/SharePriceHistory';
+import { ShareTransactionModel } from '@/lib/models/ShareTransaction';
+import { CommodityPriceHistoryModel } from '@/lib/models/CommodityPriceHistory';
+import {
+  setupTestDatabase,
+  teardownTestDatabase,
+  clearCollections,
+  createTestUser,
+  createTestCorporation,
+  createTestRequest,
+  getResponseBody,
+  assertSuccessResponse,
+  assertErrorResponse,
+  assertValidationError,
+  generateUsername,
+  generateEmail,
+} from '@/tests/utils/testHelpers';
+
+describe('Price Candles API', () => {
+  beforeAll(async () => {
+    await setupTestDatabase();
+  });
+
+  afterAll(async () => {
+    await teardownTestDatabase();
+  });
+
+  beforeEach(async () => {
+    await clearCollections(
+      'users', 'corporations', 'share_price_history', 'share_transactions', 'commodity_price_history'
+    );
+  });
+
+  async function getShareHistory(corporationId: number, query: string) {
+    return await GetShareHistory(
+      createTestRequest(`http://localhost:3000/api/shares/${corporationId}/history${query}`),
+      { params: { id: String(corporationId) } }
+    );
+  }
+
+  async function getResourceHistory(name: string, query: string) {
+    return await GetResourceHistory(
+      createTestRequest(`http://localhost:3000/api/markets/resource/${encodeURIComponent(name)}/history${query}`),
+      { params: { name: encodeURIComponent(name) } }
+    );
+  }
+
+  describe('GET /api/shares/[id]/history', () => {
+    it('should return share candles with volume from fills', async () => {
+      const user = await createTestUser({ username: generateUsername(), email: generateEmail() });
+      const corp = await createTestCorporation(user.id, { share_price: 10 });
+      await SharePriceHistoryModel.create({ corporation_id: corp.id, share_price: 10, capital: 0 });
+      await SharePriceHistoryModel.create({ corporation_id: corp.id, share_price: 12, capital: 0 });
+
+      const fill = { corporation_id: corp.id, user_id: user.id, shares: 50, price_per_share: 11, total_amount: 550 };
+      await ShareTransactionModel.create({ ...fill, transaction_type: 'buy', order_id: 1 });
+      await ShareTransactionModel.create({ ...fill, transaction_type: 'sell', order_id: 2 });
+      await ShareTransactionModel.create({ ...fill, transaction_type: 'buy', shares: 10, price_per_share: 14, total_amount: 140 });
+
+      const response = await getShareHistory(corp.id, '?resolution=hour&count=2');
+      assertSuccessResponse(response, 200);
+
+      const { resolution, candles, summary } = await getResponseBody(response);
+      expect(resolution).toBe('hour');
+      expect(candles.length).toBeGreaterThanOrEqual(1);
+      expect(summary).toMatchObject({ close: 12, high: 12, low: 10, volume: 60 });
+      expect(summary.vwap).toBeCloseTo((50 * 11 + 10 * 14) / 60);
+    });
+
+    it('should keep returning recorded prices without a resolution', async () => {
+      const user = await createTestUser({ username: generateUsername(), email: generateEmail() });
+      const corp = await createTestCorporation(user.id, { share_price: 10 });
+      await SharePriceHistoryModel.create({ corporation_id: corp.id, share_price: 10, capital: 0 });
+
+      const response = await getShareHistory(corp.id, '?limit=10');
+      assertSuccessResponse(response, 200);
+      expect(await getResponseBody(response)).toHaveLength(1);
+    });
+
+    it('should reject unknown resolutions', async () => {
+      const response = await getShareHistory(1, '?resolution=week');
+      assertErrorResponse(response, 400);
+      assertValidationError(await getResponseBody(response));
+    });
+  });
+
+  describe('GET /api/markets/resource/[name]/history', () => {
+    it('should return resource candles with the traded volume', async () => {
+      await CommodityPriceHistoryModel.create({
+        resource_name: 'Oil', price: 80, supply: 100, demand: 120, traded_price: 82, traded_volume: 40,
+      });
+
+      const response = await getResourceHistory('Oil', '?resolution=day');
+      assertSuccessResponse(response, 200);
+
+      const { candles, summary } = await getResponseBody(response);
+      expect(candles).toHaveLength(1);
+      expect(candles[0]).toMatchObject({ open: 80, close: 80, volume: 40, vwap: 82 });
+      expect(summary.volume).toBe(40);
+    });
+
+    it('should return 404 for unknown resources', async () => {
+      const response = await getResourceHistory('Unobtainium', '?resolution=day');
+      assertErrorResponse(response, 404);
+    });
+  });
+});
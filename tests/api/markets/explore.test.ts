@@ -0,0 +1,176 @@
+/**
+ * Resource Exploration API Integration Tests
+ *
+ * Tests paid surveys for more of a state's resources via
+ * /api/markets/states/[code]/explore
+ *
+ * Business Rules Tested:
+ * - Only the CEO can commission exploration
+ * - The corporation needs a market in the state in a sector that extracts the resource
+ * - A survey costs capital and action points whether or not it finds anything
+ * - Finds are added to the state's reserve, creating it where the state had none
+ * - Each corporation can survey a state for a resource once per cooldown
+ */
+
+import { describe, it, expect, beforeAll, afterAll, beforeEach, afterEach, vi } from 'vitest';
+import { POST as Explore } from '@/app/api/markets/states/[code]/explore/route';
+import { CorporationModel } from '@/lib/models/Corporation';
+import { MarketEntryModel } from '@/lib/models/MarketEntry';
+import { StateResourceReserveModel } from '@/lib/models/StateResourceReserve';
+import { UserModel } from '@/lib/models/User';
+import { ACTIONS_CONFIG } from '@/lib/constants/actions';
+import { RESERVE_CONFIG, getOriginalReserve } from '@/lib/constants/reserves';
+import {
+  setupTestDatabase,
+  teardownTestDatabase,
+  clearCollections,
+  createTestUser,
+  createTestCorporation,
+  createTestRequest,
+  createAuthHeader,
+  createTestAccessToken,
+  getResponseBody,
+  assertSuccessResponse,
+  assertErrorResponse,
+  assertValidationError,
+  generateUsername,
+  generateEmail,
+} from '@/tests/utils/testHelpers';
+
+describe('Resource Exploration API', () => {
+  beforeAll(async () => {
+    await setupTestDatabase();
+  });
+
+  afterAll(async () => {
+    await teardownTestDatabase();
+  });
+
+  beforeEach(async () => {
+    await clearCollections(
+      'users', 'corporations', 'market_entries', 'transactions',
+      'state_resource_reserves', 'resource_explorations'
+    );
+  });
+
+  afterEach(() => {
+    vi.restoreAllMocks();
+  });
+
+  async function createCorporationWithCeo(capital = 1000000) {
+    const user = await createTestUser({ username: generateUsername(), email: generateEmail() });
+    const corporation = await createTestCorporation(user.id, { capital });
+    return {
+      user,
+      corporation,
+      authHeaders: createAuthHeader(createTestAccessToken(user.id, user.username, user.email)),
+    };
+  }
+
+  async function explore(stateCode: string, headers: Record<string, string>, body: Record<string, unknown>) {
+    const request = createTestRequest(`http://localhost:3000/api/markets/states/${stateCode}/explore`, {
+      method: 'POST',
+      body,
+      headers,
+    });
+    return Explore(request, { params: { code: stateCode } });
+  }
+
+  it('should add a find to the state reserve and charge the corporation', async () => {
+    const { user, corporation, authHeaders } = await createCorporationWithCeo();
+    await MarketEntryModel.create({ corporation_id: corporation.id, state_code: 'CA', sector_type: 'Forestry' });
+    // Succeed, and find the smallest share
+    vi.spyOn(Math, 'random').mockReturnValue(0);
+
+    const response = await explore('CA', authHeaders, { corporationId: corporation.id, resource: 'Lumber' });
+    assertSuccessResponse(response, 201);
+
+    const body = await getResponseBody(response);
+    const original = getOriginalReserve('CA', 'Lumber');
+    const found = Math.round(original * RESERVE_CONFIG.DISCOVERY_MIN_SHARE);
+    expect(body.exploration.discovered).toBe(found);
+    expect(body.reserve.remaining).toBe(original + found);
+    expect(body.reserve.capacity).toBe(original + found);
+
+    const updated = await CorporationModel.findById(corporation.id);
+    expect(Number(updated?.capital)).toBe(1000000 - RESERVE_CONFIG.EXPLORATION_COST);
+    expect(await UserModel.getActions(user.id)).toBe(20 - ACTIONS_CONFIG.COSTS.EXPLORATION);
+  });
+
+  it('should still charge for a dry survey', async () => {
+    const { corporation, authHeaders } = await createCorporationWithCeo();
+    await MarketEntryModel.create({ corporation_id: corporation.id, state_code: 'CA', sector_type: 'Forestry' });
+    vi.spyOn(Math, 'random').mockReturnValue(0.99);
+
+    const response = await explore('CA', authHeaders, { corporationId: corporation.id, resource: 'Lumber' });
+    assertSuccessResponse(response, 201);
+
+    const body = await getResponseBody(response);
+    expect(body.exploration.discovered).toBe(0);
+    expect(body.reserve.discovered).toBe(0);
+
+    const updated = await CorporationModel.findById(corporation.id);
+    expect(Number(updated?.capital)).toBe(1000000 - RESERVE_CONFIG.EXPLORATION_COST);
+  });
+
+  it('should create a reserve where the state had none', async () => {
+    const { corporation, authHeaders } = await createCorporationWithCeo();
+    await MarketEntryModel.create({ corporation_id: corporation.id, state_code: 'DE', sector_type: 'Energy' });
+    vi.spyOn(Math, 'random').mockReturnValue(0);
+
+    const response = await explore('DE', authHeaders, { corporationId: corporation.id, resource: 'Oil' });
+    assertSuccessResponse(response, 201);
+
+    const reserve = await StateResourceReserveModel.findOne('DE', 'Oil');
+    expect(reserve?.original_amount).toBe(0);
+    expect(reserve?.remaining).toBe(Math.round(RESERVE_CONFIG.FRONTIER_RESERVE * RESERVE_CONFIG.DISCOVERY_MIN_SHARE));
+  });
+
+  it('should reject a corporation without an extracting market in the state', async () => {
+    const { corporation, authHeaders } = await createCorporationWithCeo();
+    await MarketEntryModel.create({ corporation_id: corporation.id, state_code: 'CA', sector_type: 'Retail' });
+
+    const response = await explore('CA', authHeaders, { corporationId: corporation.id, resource: 'Lumber' });
+    assertErrorResponse(response, 400);
+    expect((await getResponseBody(response)).error).toContain('sector that extracts it');
+  });
+
+  it('should reject anyone but the CEO', async () => {
+    const { corporation } = await createCorporationWithCeo();
+    await MarketEntryModel.create({ corporation_id: corporation.id, state_code: 'CA', sector_type: 'Forestry' });
+    const outsider = await createCorporationWithCeo();
+
+    const response = await explore('CA', outsider.authHeaders, { corporationId: corporation.id, resource: 'Lumber' });
+    assertErrorResponse(response, 400);
+    expect((await getResponseBody(response)).error).toContain('Only the CEO');
+  });
+
+  it('should reject a second survey within the cooldown', async () => {
+    const { corporation, authHeaders } = await createCorporationWithCeo();
+    await MarketEntryModel.create({ corporation_id: corporation.id, state_code: 'CA', sector_type: 'Forestry' });
+    vi.spyOn(Math, 'random').mockReturnValue(0.99);
+
+    assertSuccessResponse(await explore('CA', authHeaders, { corporationId: corporation.id, resource: 'Lumber' }), 201);
+    const response = await explore('CA', authHeaders, { corporationId: corporation.id, resource: 'Lumber' });
+    assertErrorResponse(response, 400);
+    expect((await getResponseBody(response)).error).toContain('recently');
+  });
+
+  it('should reject insufficient capital without spending actions', async () => {
+    const { user, corporation, authHeaders } = await createCorporationWithCeo(1000);
+    await MarketEntryModel.create({ corporation_id: corporation.id, state_code: 'CA', sector_type: 'Forestry' });
+
+    const response = await explore('CA', authHeaders, { corporationId: corporation.id, resource: 'Lumber' });
+    assertErrorResponse(response, 400);
+    expect((await getResponseBody(response)).error).toContain('Insufficient capital');
+    expect(await UserModel.getActions(user.id)).toBe(20);
+  });
+
+  it('should validate the resource', async () => {
+    const { corporation, authHeaders } = await createCorporationWithCeo();
+
+    const response = await explore('CA', authHeaders, { corporationId: corporation.id, resource: 'Gold' });
+    assertErrorResponse(response, 400);
+    assertValidationError(await getResponseBody(response));
+  });
+});
@@ -0,0 +1,171 @@
+/**
+ * Market Indices API Integration Tests
+ *
+ * Tests index recording via MarketIndexService.recordIndices and reading via
+ * /api/markets/indices, /api/markets/indices/[key]/history,
+ * /api/corporation/[id]/benchmark and /api/portfolio/benchmark
+ *
+ * Business Rules Tested:
+ * - The market and commodity indices, and one index per sector with corporations, are recorded
+ * - Indices start at the base level and follow market cap from there
+ * - Corporations are measured against their sector index
+ * - Portfolios are measured against the market, and each holding against its sector
+ */
+
+import { describe, it, expect, beforeAll, afterAll, beforeEach } from 'vitest';
+import { GET as GetIndices } from '@/app/api/markets/indices/route';
+import { GET as GetIndexHistory } from '@/app/api/markets/indices/[key]/history/route';
+import { GET as GetCorporationBenchmark } from '@/app/api/corporation/[id]/benchmark/route';
+import { GET as GetPortfolioBenchmark } from '@/app/api/portfolio/benchmark/route';
+import { MarketIndexService } from '@/lib/services/MarketIndexService';
+import { CorporationModel } from '@/lib/models/Corporation';
+import { ShareholderModel } from '@/lib/models/Shareholder';
+import { SharePriceHistoryModel } from '@/lib/models/SharePriceHistory';
+import { MARKET_INDEX_CONFIG } from '@/lib/constants/marketIndices';
+import { getDb } from '@/lib/db/mongo';
+import {
+  setupTestDatabase,
+  teardownTestDatabase,
+  clearCollections,
+  createTestUser,
+  createTestCorporation,
+  createTestRequest,
+  createAuthHeader,
+  createTestAccessToken,
+  getResponseBody,
+  assertSuccessResponse,
+  assertErrorResponse,
+  generateUsername,
+  generateEmail,
+} from '@/tests/utils/testHelpers';
+
+const BASE_URL = 'http://localhost:3000/api/markets/indices';
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+describe('Market Indices API', () => {
+  beforeAll(async () => {
+    await setupTestDatabase();
+  });
+
+  afterAll(async () => {
+    await teardownTestDatabase();
+  });
+
+  beforeEach(async () => {
+    await clearCollections('users', 'corporations', 'shareholders', 'share_price_history', 'market_index_history');
+  });
+
+  async function createCorporations() {
+    const user = await createTestUser({ username: generateUsername(), email: generateEmail() });
+    const tech = await createTestCorporation(user.id, { name: 'Index Tech', type: 'Technology', shares: 1000, share_price: 10 });
+    const energy = await createTestCorporation(user.id, { name: 'Index Energy', type: 'Energy', shares: 1000, share_price: 10 });
+    return { user, tech, energy };
+  }
+
+  // Move everything recorded so far a day (and a bit) into the past
+  async function ageHistory() {
+    const past = new Date(Date.now() - DAY_MS - 60_000);
+    await getDb().collection('market_index_history').updateMany({}, { $set: { recorded_at: past } });
+    await getDb().collection('share_price_history').updateMany({}, { $set: { recorded_at: past } });
+  }
+
+  describe('recordIndices', () => {
+    it('should record the market, commodity and sector indices', async () => {
+      await createCorporations();
+
+      expect(await MarketIndexService.recordIndices({ Oil: 80, Coal: 20 })).toBe(4);
+
+      const response = await GetIndices();
+      assertSuccessResponse(response, 200);
+      const { indices } = await getResponseBody(response);
+      expect(indices.map((index: { index_key: string }) => index.index_key)).toEqual([
+        'market', 'commodities', 'sector:Technology', 'sector:Energy',
+      ]);
+      expect(indices[0]).toMatchObject({ level: MARKET_INDEX_CONFIG.BASE_LEVEL, constituent_count: 2 });
+    });
+
+    it('should follow market cap between recordings', async () => {
+      const { tech } = await createCorporations();
+      await MarketIndexService.recordIndices({});
+      await ageHistory();
+
+      await CorporationModel.update(tech.id, { share_price: 20 });
+      await MarketIndexService.recordIndices({});
+
+      const { indices } = await getResponseBody(await GetIndices());
+      const market = indices.find((index: { index_key: string }) => index.index_key === 'market');
+      expect(market.level).toBeCloseTo(1500);
+      expect(market.change_percent).toBeCloseTo(50);
+
+      const response = await GetIndexHistory(
+        createTestRequest(`${BASE_URL}/${encodeURIComponent('sector:Technology')}/history?hours=48`),
+        { params: { key: encodeURIComponent('sector:Technology') } }
+      );
+      assertSuccessResponse(response, 200);
+      const history = await getResponseBody(response);
+      expect(history.map((row: { level: number }) => row.level)).toEqual([2000, 1000]);
+    });
+
+    it('should return 404 for unknown indices', async () => {
+      const response = await GetIndexHistory(
+        createTestRequest(`${BASE_URL}/nasdaq/history`),
+        { params: { key: 'nasdaq' } }
+      );
+      assertErrorResponse(response, 404);
+    });
+  });
+
+  describe('Benchmarks', () => {
+    it('should measure a corporation against its sector index', async () => {
+      const { tech, energy } = await createCorporations();
+      await SharePriceHistoryModel.create({ corporation_id: tech.id, share_price: 10, capital: 0 });
+      await MarketIndexService.recordIndices({});
+      await ageHistory();
+
+      await CorporationModel.update(tech.id, { share_price: 12 });
+      await CorporationModel.update(energy.id, { share_price: 15 });
+      await MarketIndexService.recordIndices({});
+
+      const response = await GetCorporationBenchmark(
+        createTestRequest(`http://localhost:3000/api/corporation/${tech.id}/benchmark`),
+        { params: { id: String(tech.id) } }
+      );
+      assertSuccessResponse(response, 200);
+
+      const benchmark = await getResponseBody(response);
+      expect(benchmark.index_key).toBe('sector:Technology');
+      expect(benchmark.periods[0]).toMatchObject({ label: '1D' });
+      expect(benchmark.periods[0].change_percent).toBeCloseTo(20);
+      expect(benchmark.periods[0].benchmark_change_percent).toBeCloseTo(20);
+      expect(benchmark.periods[0].relative_percent).toBeCloseTo(0);
+    });
+
+    it('should measure the viewer\'s portfolio against the market', async () => {
+      const { tech, energy } = await createCorporations();
+      const investor = await createTestUser({ username: generateUsername(), email: generateEmail() });
+      await ShareholderModel.create({ corporation_id: tech.id, user_id: investor.id, shares: 100 });
+      await SharePriceHistoryModel.create({ corporation_id: tech.id, share_price: 10, capital: 0 });
+      await MarketIndexService.recordIndices({});
+      await ageHistory();
+
+      await CorporationModel.update(energy.id, { share_price: 20 });
+      await MarketIndexService.recordIndices({});
+
+      const unauthorized = await GetPortfolioBenchmark(createTestRequest('http://localhost:3000/api/portfolio/benchmark'));
+      assertErrorResponse(unauthorized, 401);
+
+      const token = createTestAccessToken(investor.id, investor.username, investor.email);
+      const response = await GetPortfolioBenchmark(createTestRequest('http://localhost:3000/api/portfolio/benchmark', {
+        headers: createAuthHeader(token),
+      }));
+      assertSuccessResponse(response, 200);
+
+      const benchmark = await getResponseBody(response);
+      expect(benchmark.index_key).toBe('market');
+      expect(benchmark.periods[0].change_percent).toBeCloseTo(0);
+      expect(benchmark.periods[0].benchmark_change_percent).toBeCloseTo(50);
+      expect(benchmark.holdings).toHaveLength(1);
+      expect(benchmark.holdings[0]).toMatchObject({ corporation_id: tech.id, index_key: 'sector:Technology', value: 1000 });
+    });
+  });
+});
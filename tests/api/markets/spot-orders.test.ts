@@ -0,0 +1,359 @@
+/**
+ * Spot Market API Integration Tests
+ *
+ * Tests corporation limit orders for resources and products via
+ * /api/markets/spot/[item]/orders and /api/markets/spot/[item]/orders/[orderId],
+ * expiry via triggerCommodityOrderExpiry and traded prices in the price history
+ *
+ * Business Rules Tested:
+ * - Only the CEO can trade on behalf of a corporation
+ * - Resting orders escrow capital (buys) or stock from inventory (sells)
+ * - Crossing orders fill at the resting price, delivering stock to the buyer's state
+ * - Buyers pay to ship stock from the seller's state, carried in the stock's value
+ * - Corporations never match against their own orders
+ * - A fill that fails leaves the order resting instead of failing the request
+ * - Cancel and expiry release whatever escrow is left
+ * - The hourly price history records the volume-weighted traded price
+ */
+
+import { describe, it, expect, beforeAll, afterAll, beforeEach } from 'vitest';
+import { GET as GetSpotBook, POST as PlaceSpotOrder } from '@/app/api/markets/spot/[item]/orders/route';
+import { DELETE as CancelSpotOrder } from '@/app/api/markets/spot/[item]/orders/[orderId]/route';
+import { triggerCommodityOrderExpiry, triggerPriceHistoryRecording } from '@/lib/cron/actions';
+import { CommodityOrderModel } from '@/lib/models/CommodityOrder';
+import { CommodityPriceHistoryModel } from '@/lib/models/CommodityPriceHistory';
+import { CorporationModel } from '@/lib/models/Corporation';
+import { InventoryModel } from '@/lib/models/Inventory';
+import { getShippingCostPct } from '@/lib/constants/logistics';
+import { roundToCents } from '@/lib/constants/orders';
+import { getDb } from '@/lib/db/mongo';
+import {
+  setupTestDatabase,
+  teardownTestDatabase,
+  clearCollections,
+  createTestUser,
+  createTestCorporation,
+  createTestRequest,
+  createAuthHeader,
+  createTestAccessToken,
+  getResponseBody,
+  assertSuccessResponse,
+  assertErrorResponse,
+  assertValidationError,
+  generateUsername,
+  generateEmail,
+} from '@/tests/utils/testHelpers';
+
+describe('Spot Market API', () => {
+  beforeAll(async () => {
+    await setupTestDatabase();
+  });
+
+  afterAll(async () => {
+    await teardownTestDatabase();
+  });
+
+  beforeEach(async () => {
+    await clearCollections(
+      'users', 'corporations', 'inventories', 'commodity_orders', 'commodity_trades',
+      'transactions', 'commodity_price_history', 'product_price_history'
+    );
+  });
+
+  async function createCorporationWithCeo(capital = 100000) {
+    const user = await createTestUser({ username: generateUsername(), email: generateEmail() });
+    const corporation = await createTestCorporation(user.id, { capital });
+    return {
+      user,
+      corporation,
+      authHeaders: createAuthHeader(createTestAccessToken(user.id, user.username, user.email)),
+    };
+  }
+
+  async function getCapital(corporationId: number): Promise<number> {
+    const corporation = await CorporationModel.findById(corporationId);
+    return Number(corporation?.capital ?? 0);
+  }
+
+  async function placeOrder(item: string, headers: Record<string, string>, body: Record<string, unknown>) {
+    const request = createTestRequest(`http://localhost:3000/api/markets/spot/${encodeURIComponent(item)}/orders`, {
+      method: 'POST',
+      body,
+      headers,
+    });
+    return PlaceSpotOrder(request, { params: { item: encodeURIComponent(item) } });
+  }
+
+  async function cancelOrder(item: string, orderId: number, headers: Record<string, string>) {
+    const request = createTestRequest(`http://localhost:3000/api/markets/spot/${encodeURIComponent(item)}/orders/${orderId}`, {
+      method: 'DELETE',
+      headers,
+    });
+    return CancelSpotOrder(request, { params: { item: encodeURIComponent(item), orderId: orderId.toString() } });
+  }
+
+  describe('POST /api/markets/spot/[item]/orders', () => {
+    it('should rest a sell order and escrow the stock at cost', async () => {
+      const seller = await createCorporationWithCeo();
+      await InventoryModel.adjust(seller.corporation.id, 'TX', 'Oil', 'resource', 100, 4000);
+
+      const response = await placeOrder('Oil', seller.authHeaders, {
+        corporationId: seller.corporation.id,
+        stateCode: 'TX',
+        side: 'sell',
+        quantity: 40,
+        limitPrice: 55,
+      });
+      assertSuccessResponse(response, 201);
+
+      const body = await getResponseBody(response);
+      expect(body.order.status).toBe('open');
+      expect(body.order.reserved_value).toBeCloseTo(1600, 6);
+      expect(body.fills).toHaveLength(0);
+
+      const holding = await InventoryModel.findHolding(seller.corporation.id, 'TX', 'Oil');
+      expect(holding?.quantity).toBe(60);
+      expect(holding?.value).toBeCloseTo(2400, 6);
+    });
+
+    it('should fill a crossing buy at the resting price and ship to the buyer state', async () => {
+      const seller = await createCorporationWithCeo();
+      const buyer = await createCorporationWithCeo();
+      await InventoryModel.adjust(seller.corporation.id, 'TX', 'Oil', 'resource', 100, 4000);
+
+      await placeOrder('Oil', seller.authHeaders, {
+        corporationId: seller.corporation.id,
+        stateCode: 'TX',
+        side: 'sell',
+        quantity: 40,
+        limitPrice: 50,
+      });
+
+      const response = await placeOrder('Oil', buyer.authHeaders, {
+        corporationId: buyer.corporation.id,
+        stateCode: 'CA',
+        side: 'buy',
+        quantity: 30,
+        limitPrice: 60,
+      });
+      assertSuccessResponse(response, 201);
+
+      const body = await getResponseBody(response);
+      expect(body.quantity_filled).toBe(30);
+      expect(body.order.status).toBe('filled');
+      expect(body.fills[0].price).toBe(50);
+
+      const shipping = roundToCents(30 * 50 * getShippingCostPct('TX', 'CA') / 100);
+      expect(shipping).toBeGreaterThan(0);
+      expect(body.fills[0].shipping_cost).toBe(shipping);
+
+      expect(await getCapital(buyer.corporation.id)).toBeCloseTo(100000 - 30 * 50 - shipping, 2);
+      expect(await getCapital(seller.corporation.id)).toBe(100000 + 30 * 50);
+
+      const delivered = await InventoryModel.findHolding(buyer.corporation.id, 'CA', 'Oil');
+      expect(delivered?.quantity).toBe(30);
+      expect(delivered?.value).toBeCloseTo(1500 + shipping, 6);
+
+      // The seller books the gain over its $40/unit cost
+      const seller2 = await CorporationModel.findById(seller.corporation.id);
+      expect(seller2?.undistributed_earnings).toBeCloseTo(30 * 10, 6);
+    });
+
+    it('should leave the order resting when a fill fails', async () => {
+      const seller = await createCorporationWithCeo();
+      // Enough for the escrow, but not for shipping from TX
+      const buyer = await createCorporationWithCeo(30 * 50);
+      await InventoryModel.adjust(seller.corporation.id, 'TX', 'Oil', 'resource', 100, 4000);
+
+      await placeOrder('Oil', seller.authHeaders, {
+        corporationId: seller.corporation.id,
+        stateCode: 'TX',
+        side: 'sell',
+        quantity: 40,
+        limitPrice: 50,
+      });
+
+      const response = await placeOrder('Oil', buyer.authHeaders, {
+        corporationId: buyer.corporation.id,
+        stateCode: 'CA',
+        side: 'buy',
+        quantity: 30,
+        limitPrice: 50,
+      });
+      assertSuccessResponse(response, 201);
+
+      const body = await getResponseBody(response);
+      expect(body.fills).toHaveLength(0);
+      expect(body.order.status).toBe('open');
+      expect(body.order.remaining_quantity).toBe(30);
+      expect(await getCapital(buyer.corporation.id)).toBe(0);
+      expect(await InventoryModel.findHolding(buyer.corporation.id, 'CA', 'Oil')).toBeNull();
+    });
+
+    it('should not match a corporation against its own orders', async () => {
+      const seller = await createCorporationWithCeo();
+      await InventoryModel.adjust(seller.corporation.id, 'TX', 'Oil', 'resource', 10, 400);
+
+      await placeOrder('Oil', seller.authHeaders, {
+        corporationId: seller.corporation.id,
+        stateCode: 'TX',
+        side: 'sell',
+        quantity: 10,
+        limitPrice: 50,
+      });
+      const body = await getResponseBody(await placeOrder('Oil', seller.authHeaders, {
+        corporationId: seller.corporation.id,
+        stateCode: 'TX',
+        side: 'buy',
+        quantity: 10,
+        limitPrice: 55,
+      }));
+
+      expect(body.fills).toHaveLength(0);
+      expect(body.order.status).toBe('open');
+    });
+
+    it('should reject orders from anyone but the CEO', async () => {
+      const seller = await createCorporationWithCeo();
+      const outsider = await createCorporationWithCeo();
+
+      const response = await placeOrder('Oil', outsider.authHeaders, {
+        corporationId: seller.corporation.id,
+        stateCode: 'TX',
+        side: 'buy',
+        quantity: 10,
+        limitPrice: 50,
+      });
+      assertErrorResponse(response, 403);
+    });
+
+    it('should reject sells larger than the stock held in that state', async () => {
+      const seller = await createCorporationWithCeo();
+      await InventoryModel.adjust(seller.corporation.id, 'TX', 'Oil', 'resource', 10, 400);
+
+      const response = await placeOrder('Oil', seller.authHeaders, {
+        corporationId: seller.corporation.id,
+        stateCode: 'CA',
+        side: 'sell',
+        quantity: 5,
+        limitPrice: 50,
+      });
+      assertErrorResponse(response, 400);
+    });
+
+    it('should validate request body', async () => {
+      const seller = await createCorporationWithCeo();
+
+      const response = await placeOrder('Oil', seller.authHeaders, {
+        corporationId: seller.corporation.id,
+        side: 'hold',
+        quantity: -1,
+      });
+      assertErrorResponse(response, 400);
+      assertValidationError(await getResponseBody(response));
+    });
+  });
+
+  describe('GET /api/markets/spot/[item]/orders', () => {
+    it('should aggregate depth per price level and list recent trades', async () => {
+      const seller = await createCorporationWithCeo();
+      const buyer = await createCorporationWithCeo();
+      await InventoryModel.adjust(seller.corporation.id, 'TX', 'Steel', 'resource', 50, 1000);
+
+      await placeOrder('Steel', seller.authHeaders, { corporationId: seller.corporation.id, stateCode: 'TX', side: 'sell', quantity: 10, limitPrice: 110 });
+      await placeOrder('Steel', seller.authHeaders, { corporationId: seller.corporation.id, stateCode: 'TX', side: 'sell', quantity: 5, limitPrice: 110 });
+      await placeOrder('Steel', buyer.authHeaders, { corporationId: buyer.corporation.id, stateCode: 'TX', side: 'buy', quantity: 8, limitPrice: 100 });
+
+      const request = createTestRequest('http://localhost:3000/api/markets/spot/Steel/orders');
+      const response = await GetSpotBook(request, { params: { item: 'Steel' } });
+      assertSuccessResponse(response, 200);
+
+      const body = await getResponseBody(response);
+      expect(body.asks).toEqual([{ price: 110, quantity: 15, orders: 2 }]);
+      expect(body.bids).toEqual([{ price: 100, quantity: 8, orders: 1 }]);
+      expect(body.spread).toBe(10);
+      expect(body.trades).toHaveLength(0);
+    });
+
+    it('should 404 for unknown items', async () => {
+      const request = createTestRequest('http://localhost:3000/api/markets/spot/Unobtainium/orders');
+      const response = await GetSpotBook(request, { params: { item: 'Unobtainium' } });
+      assertErrorResponse(response, 404);
+    });
+  });
+
+  describe('DELETE /api/markets/spot/[item]/orders/[orderId]', () => {
+    it('should cancel an order and release escrowed capital', async () => {
+      const buyer = await createCorporationWithCeo();
+      const outsider = await createCorporationWithCeo();
+
+      const { order } = await getResponseBody(await placeOrder('Oil', buyer.authHeaders, {
+        corporationId: buyer.corporation.id,
+        stateCode: 'TX',
+        side: 'buy',
+        quantity: 10,
+        limitPrice: 80,
+      }));
+      expect(await getCapital(buyer.corporation.id)).toBe(100000 - 800);
+
+      const forbidden = await cancelOrder('Oil', order.id, outsider.authHeaders);
+      assertErrorResponse(forbidden, 403);
+
+      const response = await cancelOrder('Oil', order.id, buyer.authHeaders);
+      assertSuccessResponse(response, 200);
+
+      const body = await getResponseBody(response);
+      expect(body.order.status).toBe('cancelled');
+      expect(await getCapital(buyer.corporation.id)).toBe(100000);
+    });
+  });
+
+  describe('triggerCommodityOrderExpiry', () => {
+    it('should expire stale orders and return escrowed stock', async () => {
+      const seller = await createCorporationWithCeo();
+      await InventoryModel.adjust(seller.corporation.id, 'TX', 'Oil', 'resource', 25, 1000);
+
+      const { order } = await getResponseBody(await placeOrder('Oil', seller.authHeaders, {
+        corporationId: seller.corporation.id,
+        stateCode: 'TX',
+        side: 'sell',
+        quantity: 25,
+        limitPrice: 120,
+      }));
+      await getDb().collection('commodity_orders').updateOne({ id: order.id }, { $set: { expires_at: new Date(Date.now() - 1000) } });
+
+      const result = await triggerCommodityOrderExpiry();
+      expect(result.expired).toBe(1);
+
+      const expired = await CommodityOrderModel.findById(order.id);
+      expect(expired?.status).toBe('expired');
+
+      const holding = await InventoryModel.findHolding(seller.corporation.id, 'TX', 'Oil');
+      expect(holding?.quantity).toBe(25);
+      expect(holding?.value).toBeCloseTo(1000, 6);
+    });
+  });
+
+  describe('triggerPriceHistoryRecording', () => {
+    it('should record the volume-weighted traded price alongside the formula price', async () => {
+      const seller = await createCorporationWithCeo();
+      const buyer = await createCorporationWithCeo();
+      await InventoryModel.adjust(seller.corporation.id, 'TX', 'Oil', 'resource', 30, 900);
+
+      await placeOrder('Oil', seller.authHeaders, { corporationId: seller.corporation.id, stateCode: 'TX', side: 'sell', quantity: 10, limitPrice: 40 });
+      await placeOrder('Oil', seller.authHeaders, { corporationId: seller.corporation.id, stateCode: 'TX', side: 'sell', quantity: 10, limitPrice: 50 });
+      await placeOrder('Oil', buyer.authHeaders, { corporationId: buyer.corporation.id, stateCode: 'TX', side: 'buy', quantity: 20, limitPrice: 50 });
+
+      await triggerPriceHistoryRecording();
+
+      const [oil] = await CommodityPriceHistoryModel.findByResourceName('Oil', 1);
+      expect(oil.traded_price).toBe(45);
+      expect(oil.traded_volume).toBe(20);
+      expect(oil.price).toBeGreaterThan(0);
+
+      const [coal] = await CommodityPriceHistoryModel.findByResourceName('Coal', 1);
+      expect(coal.traded_price).toBeNull();
+      expect(coal.traded_volume).toBe(0);
+    });
+  });
+});
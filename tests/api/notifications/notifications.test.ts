@@ -0,0 +1,170 @@
+/**
+ * Notifications API Integration Tests
+ *
+ * Tests the notification center via /api/notifications
+ *
+ * Business Rules Tested:
+ * - Users see only their own notifications, newest first, with an unread count
+ * - Notifications can be marked read one by one or all at once
+ * - Muted categories are not recorded; digest categories are held until the digest run
+ * - The digest run sums up held notifications in one notification per user
+ */
+
+import { describe, it, expect, beforeAll, afterAll, beforeEach } from 'vitest';
+import { GET as GetNotifications } from '@/app/api/notifications/route';
+import { POST as MarkRead } from '@/app/api/notifications/read/route';
+import { GET as GetPreferences, PUT as UpdatePreferences } from '@/app/api/notifications/preferences/route';
+import { NotificationService } from '@/lib/services/NotificationService';
+import {
+  setupTestDatabase,
+  teardownTestDatabase,
+  clearCollections,
+  createTestUser,
+  createTestRequest,
+  createAuthHeader,
+  createTestAccessToken,
+  getResponseBody,
+  assertSuccessResponse,
+  assertErrorResponse,
+  assertValidationError,
+  generateUsername,
+  generateEmail,
+} from '@/tests/utils/testHelpers';
+
+const BASE_URL = 'http://localhost:3000/api/notifications';
+
+describe('Notifications API', () => {
+  beforeAll(async () => {
+    await setupTestDatabase();
+  });
+
+  afterAll(async () => {
+    await teardownTestDatabase();
+  });
+
+  beforeEach(async () => {
+    await clearCollections('users', 'notifications', 'notification_preferences');
+  });
+
+  async function createUserWithHeaders() {
+    const user = await createTestUser({ username: generateUsername(), email: generateEmail() });
+    const token = createTestAccessToken(user.id, user.username, user.email);
+    return { user, headers: createAuthHeader(token) };
+  }
+
+  describe('GET /api/notifications', () => {
+    it('should require authentication', async () => {
+      const response = await GetNotifications(createTestRequest(BASE_URL));
+      assertErrorResponse(response, 401);
+    });
+
+    it('should list only the viewer\'s notifications with the unread count', async () => {
+      const { user, headers } = await createUserWithHeaders();
+      const other = await createTestUser({ username: generateUsername(), email: generateEmail() });
+
+      await NotificationService.notify([user.id], { category: 'vote_needed', title: 'First', body: 'Vote' });
+      await NotificationService.notify([user.id, other.id], { category: 'ceo_change', title: 'Second', body: 'New CEO' });
+
+      const response = await GetNotifications(createTestRequest(BASE_URL, { headers }));
+      assertSuccessResponse(response, 200);
+
+      const body = await getResponseBody(response);
+      expect(body.unread).toBe(2);
+      expect(body.notifications).toHaveLength(2);
+      expect(body.notifications.every((n: { user_id: number }) => n.user_id === user.id)).toBe(true);
+    });
+  });
+
+  describe('POST /api/notifications/read', () => {
+    it('should mark the given notifications read', async () => {
+      const { user, headers } = await createUserWithHeaders();
+      await NotificationService.notify([user.id], { category: 'vote_needed', title: 'First', body: 'Vote' });
+      await NotificationService.notify([user.id], { category: 'vote_needed', title: 'Second', body: 'Vote' });
+      const { notifications } = await NotificationService.list(user.id);
+
+      const response = await MarkRead(createTestRequest(`${BASE_URL}/read`, {
+        method: 'POST',
+        body: { ids: [notifications[0].id] },
+        headers,
+      }));
+      assertSuccessResponse(response, 200);
+
+      const body = await getResponseBody(response);
+      expect(body.updated).toBe(1);
+      expect(body.unread).toBe(1);
+    });
+
+    it('should mark all notifications read without ids', async () => {
+      const { user, headers } = await createUserWithHeaders();
+      await NotificationService.notify([user.id], { category: 'vote_needed', title: 'First', body: 'Vote' });
+      await NotificationService.notify([user.id], { category: 'ceo_change', title: 'Second', body: 'New CEO' });
+
+      const response = await MarkRead(createTestRequest(`${BASE_URL}/read`, { method: 'POST', body: {}, headers }));
+      assertSuccessResponse(response, 200);
+
+      const body = await getResponseBody(response);
+      expect(body.updated).toBe(2);
+      expect(body.unread).toBe(0);
+    });
+
+    it('should reject an empty id list', async () => {
+      const { headers } = await createUserWithHeaders();
+
+      const response = await MarkRead(createTestRequest(`${BASE_URL}/read`, { method: 'POST', body: { ids: [] }, headers }));
+      assertErrorResponse(response, 400);
+      assertValidationError(await getResponseBody(response));
+    });
+  });
+
+  describe('Preferences', () => {
+    it('should default every category to instant', async () => {
+      const { headers } = await createUserWithHeaders();
+
+      const response = await GetPreferences(createTestRequest(`${BASE_URL}/preferences`, { headers }));
+      assertSuccessResponse(response, 200);
+      expect((await getResponseBody(response)).preferences).toEqual({});
+    });
+
+    it('should save preferences and drop instant entries', async () => {
+      const { headers } = await createUserWithHeaders();
+
+      const response = await UpdatePreferences(createTestRequest(`${BASE_URL}/preferences`, {
+        method: 'PUT',
+        body: { preferences: { market_entry: 'muted', dividend_received: 'digest', vote_needed: 'instant' } },
+        headers,
+      }));
+      assertSuccessResponse(response, 200);
+      expect((await getResponseBody(response)).preferences).toEqual({ market_entry: 'muted', dividend_received: 'digest' });
+    });
+
+    it('should reject unknown deliveries', async () => {
+      const { headers } = await createUserWithHeaders();
+
+      const response = await UpdatePreferences(createTestRequest(`${BASE_URL}/preferences`, {
+        method: 'PUT',
+        body: { preferences: { market_entry: 'weekly' } },
+        headers,
+      }));
+      assertErrorResponse(response, 400);
+      assertValidationError(await getResponseBody(response));
+    });
+
+    it('should skip muted categories and hold digest categories until the digest run', async () => {
+      const { user } = await createUserWithHeaders();
+      await NotificationService.updatePreferences(user.id, { market_entry: 'muted', dividend_received: 'digest' });
+
+      await NotificationService.notify([user.id], { category: 'market_entry', title: 'Entered Ohio', body: 'Retail' });
+      await NotificationService.notify([user.id], { category: 'dividend_received', title: 'Dividend from Acme', body: '$100' });
+      expect((await NotificationService.list(user.id)).notifications).toHaveLength(0);
+
+      const result = await NotificationService.sendDigests();
+      expect(result.digests).toBe(1);
+      expect(result.released).toBe(1);
+
+      const { notifications, unread } = await NotificationService.list(user.id);
+      expect(unread).toBe(1);
+      expect(notifications.map(n => n.category).sort()).toEqual(['digest', 'dividend_received']);
+      expect(notifications.find(n => n.category === 'digest')?.body).toContain('Dividend from Acme');
+    });
+  });
+});
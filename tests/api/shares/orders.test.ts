@@ -0,0 +1,297 @@
+/**
+ * Share Order Book API Integration Tests
+ *
+ * Tests limit orders via /api/shares/[id]/orders and /api/shares/[id]/orders/[orderId]
+ * and expiry via triggerShareOrderExpiry
+ *
+ * Business Rules Tested:
+ * - Resting orders escrow cash (buys) or shares (sells)
+ * - Crossing orders fill player-to-player at the resting price, best price first
+ * - Players never match against their own orders
+ * - A fill that fails leaves the order resting instead of failing the request
+ * - Fills are recorded as share transactions and feed the trade-weighted price
+ * - Cancel and expiry release whatever escrow is left
+ */
+
+import { describe, it, expect, beforeAll, afterAll, beforeEach, afterEach, vi } from 'vitest';
+import { GET as GetOrderBook, POST as PlaceOrder } from '@/app/api/shares/[id]/orders/route';
+import { DELETE as CancelOrder } from '@/app/api/shares/[id]/orders/[orderId]/route';
+import { triggerShareOrderExpiry } from '@/lib/cron/actions';
+import { calculateTradeWeightedPrice } from '@/lib/utils/valuation';
+import { ShareOrderModel } from '@/lib/models/ShareOrder';
+import { ShareTransactionModel } from '@/lib/models/ShareTransaction';
+import { UserModel } from '@/lib/models/User';
+import { getDb } from '@/lib/db/mongo';
+import {
+  setupTestDatabase,
+  teardownTestDatabase,
+  clearCollections,
+  createTestUser,
+  createTestScenario,
+  createTestRequest,
+  createAuthHeader,
+  createTestAccessToken,
+  getResponseBody,
+  assertSuccessResponse,
+  assertErrorResponse,
+  assertValidationError,
+  getUserShares,
+  generateUsername,
+  generateEmail,
+} from '@/tests/utils/testHelpers';
+
+describe('Share Order Book API', () => {
+  beforeAll(async () => {
+    await setupTestDatabase();
+  });
+
+  afterAll(async () => {
+    await teardownTestDatabase();
+  });
+
+  beforeEach(async () => {
+    await clearCollections('users', 'corporations', 'shareholders', 'share_orders', 'share_transactions', 'transactions', 'share_price_history');
+  });
+
+  afterEach(() => {
+    vi.restoreAllMocks();
+  });
+
+  async function createBuyer(cash = 50000) {
+    const user = await createTestUser({ username: generateUsername(), email: generateEmail(), cash });
+    return {
+      user,
+      authHeaders: createAuthHeader(createTestAccessToken(user.id, user.username, user.email)),
+    };
+  }
+
+  async function placeOrder(corpId: number, headers: Record<string, string>, body: Record<string, unknown>) {
+    const request = createTestRequest(`http://localhost:3000/api/shares/${corpId}/orders`, {
+      method: 'POST',
+      body,
+      headers,
+    });
+    return PlaceOrder(request, { params: { id: corpId.toString() } });
+  }
+
+  async function cancelOrder(corpId: number, orderId: number, headers: Record<string, string>) {
+    const request = createTestRequest(`http://localhost:3000/api/shares/${corpId}/orders/${orderId}`, {
+      method: 'DELETE',
+      headers,
+    });
+    return CancelOrder(request, { params: { id: corpId.toString(), orderId: orderId.toString() } });
+  }
+
+  describe('POST /api/shares/[id]/orders', () => {
+    it('should rest a sell order and escrow the shares', async () => {
+      const scenario = await createTestScenario();
+
+      const response = await placeOrder(scenario.corporation.id, scenario.authHeaders, {
+        side: 'sell',
+        shares: 40,
+        limitPrice: 90,
+      });
+      assertSuccessResponse(response, 201);
+
+      const body = await getResponseBody(response);
+      expect(body.order.status).toBe('open');
+      expect(body.order.remaining_shares).toBe(40);
+      expect(body.fills).toHaveLength(0);
+      expect(body.new_share_price).toBeNull();
+
+      expect(await getUserShares(scenario.user.id, scenario.corporation.id)).toBe(60);
+    });
+
+    it('should fill a crossing buy at the resting price and refund the difference', async () => {
+      const scenario = await createTestScenario();
+      const buyer = await createBuyer();
+
+      const sell = await getResponseBody(await placeOrder(scenario.corporation.id, scenario.authHeaders, {
+        side: 'sell',
+        shares: 40,
+        limitPrice: 90,
+      }));
+
+      const response = await placeOrder(scenario.corporation.id, buyer.authHeaders, {
+        side: 'buy',
+        shares: 30,
+        limitPrice: 95,
+      });
+      assertSuccessResponse(response, 201);
+
+      const body = await getResponseBody(response);
+      expect(body.shares_filled).toBe(30);
+      expect(body.order.status).toBe('filled');
+      expect(body.fills[0].price_per_share).toBe(90);
+      expect(body.new_share_price).toBeGreaterThan(0);
+
+      expect(await UserModel.getCash(buyer.user.id)).toBe(50000 - 30 * 90);
+      expect(await UserModel.getCash(scenario.user.id)).toBe(100000 + 30 * 90);
+      expect(await getUserShares(buyer.user.id, scenario.corporation.id)).toBe(30);
+
+      const restingSell = await ShareOrderModel.findById(sell.order.id);
+      expect(restingSell?.status).toBe('open');
+      expect(restingSell?.remaining_shares).toBe(10);
+
+      const trades = await ShareTransactionModel.findByCorporationId(scenario.corporation.id);
+      expect(trades).toHaveLength(2);
+      expect(trades.every(t => t.price_per_share === 90)).toBe(true);
+
+      const tradeWeighted = await calculateTradeWeightedPrice(scenario.corporation.id);
+      expect(tradeWeighted.hasHistory).toBe(true);
+      expect(tradeWeighted.weightedPrice).toBeCloseTo(90, 6);
+    });
+
+    it('should match by price-time priority', async () => {
+      const scenario = await createTestScenario();
+      const buyer = await createBuyer();
+
+      await placeOrder(scenario.corporation.id, scenario.authHeaders, { side: 'sell', shares: 20, limitPrice: 95 });
+      await placeOrder(scenario.corporation.id, scenario.authHeaders, { side: 'sell', shares: 20, limitPrice: 90 });
+
+      const body = await getResponseBody(await placeOrder(scenario.corporation.id, buyer.authHeaders, {
+        side: 'buy',
+        shares: 25,
+        limitPrice: 100,
+      }));
+
+      expect(body.fills.map((f: { price_per_share: number; shares: number }) => [f.price_per_share, f.shares])).toEqual([
+        [90, 20],
+        [95, 5],
+      ]);
+      expect(await UserModel.getCash(buyer.user.id)).toBe(50000 - 20 * 90 - 5 * 95);
+    });
+
+    it('should keep the order and earlier fills when a fill fails', async () => {
+      const scenario = await createTestScenario();
+      const buyer = await createBuyer();
+
+      const first = await getResponseBody(await placeOrder(scenario.corporation.id, scenario.authHeaders, { side: 'sell', shares: 20, limitPrice: 90 }));
+      await placeOrder(scenario.corporation.id, scenario.authHeaders, { side: 'sell', shares: 20, limitPrice: 95 });
+
+      // The first fill succeeds; the second fails partway through and rolls back
+      const create = ShareTransactionModel.create.bind(ShareTransactionModel);
+      vi.spyOn(ShareTransactionModel, 'create')
+        .mockImplementationOnce(create)
+        .mockImplementationOnce(create)
+        .mockRejectedValueOnce(new Error('Write failed'));
+
+      const response = await placeOrder(scenario.corporation.id, buyer.authHeaders, {
+        side: 'buy',
+        shares: 30,
+        limitPrice: 100,
+      });
+      assertSuccessResponse(response, 201);
+
+      const body = await getResponseBody(response);
+      expect(body.fills).toHaveLength(1);
+      expect(body.fills[0].sell_order_id).toBe(first.order.id);
+      expect(body.order.status).toBe('open');
+      expect(body.order.remaining_shares).toBe(10);
+
+      // The rest of the escrow is still held for the resting remainder
+      expect(await UserModel.getCash(buyer.user.id)).toBe(50000 - 30 * 100 + 20 * (100 - 90));
+      expect(await getUserShares(buyer.user.id, scenario.corporation.id)).toBe(20);
+    });
+
+    it('should not match a player against their own orders', async () => {
+      const scenario = await createTestScenario();
+
+      await placeOrder(scenario.corporation.id, scenario.authHeaders, { side: 'sell', shares: 10, limitPrice: 90 });
+      const body = await getResponseBody(await placeOrder(scenario.corporation.id, scenario.authHeaders, {
+        side: 'buy',
+        shares: 10,
+        limitPrice: 95,
+      }));
+
+      expect(body.fills).toHaveLength(0);
+      expect(body.order.status).toBe('open');
+    });
+
+    it('should reject sells larger than the holding', async () => {
+      const scenario = await createTestScenario();
+
+      const response = await placeOrder(scenario.corporation.id, scenario.authHeaders, {
+        side: 'sell',
+        shares: 500,
+        limitPrice: 90,
+      });
+      assertErrorResponse(response, 400);
+    });
+
+    it('should validate request body', async () => {
+      const scenario = await createTestScenario();
+
+      const response = await placeOrder(scenario.corporation.id, scenario.authHeaders, {
+        side: 'hold',
+        shares: -1,
+      });
+      assertErrorResponse(response, 400);
+      assertValidationError(await getResponseBody(response));
+    });
+  });
+
+  describe('GET /api/shares/[id]/orders', () => {
+    it('should aggregate depth per price level', async () => {
+      const scenario = await createTestScenario();
+      const buyer = await createBuyer();
+
+      await placeOrder(scenario.corporation.id, scenario.authHeaders, { side: 'sell', shares: 10, limitPrice: 110 });
+      await placeOrder(scenario.corporation.id, scenario.authHeaders, { side: 'sell', shares: 5, limitPrice: 110 });
+      await placeOrder(scenario.corporation.id, buyer.authHeaders, { side: 'buy', shares: 8, limitPrice: 100 });
+
+      const request = createTestRequest(`http://localhost:3000/api/shares/${scenario.corporation.id}/orders`);
+      const response = await GetOrderBook(request, { params: { id: scenario.corporation.id.toString() } });
+      assertSuccessResponse(response, 200);
+
+      const body = await getResponseBody(response);
+      expect(body.asks).toEqual([{ price: 110, shares: 15, orders: 2 }]);
+      expect(body.bids).toEqual([{ price: 100, shares: 8, orders: 1 }]);
+      expect(body.spread).toBe(10);
+    });
+  });
+
+  describe('DELETE /api/shares/[id]/orders/[orderId]', () => {
+    it('should cancel an order and release escrowed cash', async () => {
+      const scenario = await createTestScenario();
+      const buyer = await createBuyer();
+
+      const { order } = await getResponseBody(await placeOrder(scenario.corporation.id, buyer.authHeaders, {
+        side: 'buy',
+        shares: 10,
+        limitPrice: 80,
+      }));
+      expect(await UserModel.getCash(buyer.user.id)).toBe(50000 - 800);
+
+      const forbidden = await cancelOrder(scenario.corporation.id, order.id, scenario.authHeaders);
+      assertErrorResponse(forbidden, 403);
+
+      const response = await cancelOrder(scenario.corporation.id, order.id, buyer.authHeaders);
+      assertSuccessResponse(response, 200);
+
+      const body = await getResponseBody(response);
+      expect(body.order.status).toBe('cancelled');
+      expect(await UserModel.getCash(buyer.user.id)).toBe(50000);
+    });
+  });
+
+  describe('triggerShareOrderExpiry', () => {
+    it('should expire stale orders and return escrowed shares', async () => {
+      const scenario = await createTestScenario();
+
+      const { order } = await getResponseBody(await placeOrder(scenario.corporation.id, scenario.authHeaders, {
+        side: 'sell',
+        shares: 25,
+        limitPrice: 120,
+      }));
+      await getDb().collection('share_orders').updateOne({ id: order.id }, { $set: { expires_at: new Date(Date.now() - 1000) } });
+
+      const result = await triggerShareOrderExpiry();
+      expect(result.expired).toBe(1);
+
+      const expired = await ShareOrderModel.findById(order.id);
+      expect(expired?.status).toBe('expired');
+      expect(await getUserShares(scenario.user.id, scenario.corporation.id)).toBe(100);
+    });
+  });
+});
@@ -0,0 +1,199 @@
+/**
+ * Trade Settlement Concurrency Tests
+ *
+ * Tests TradeSettlementService and the share routes under concurrent requests
+ *
+ * Business Rules Tested:
+ * - A buy either settles completely or not at all
+ * - Concurrent buys cannot spend the same cash twice
+ * - Concurrent sells cannot sell the same shares twice
+ * - public_shares never goes negative
+ * - A resting order is never filled by more than its size
+ */
+
+import { describe, it, expect, beforeAll, afterAll, beforeEach } from 'vitest';
+import { POST as BuyShares } from '@/app/api/shares/[id]/buy/route';
+import { POST as PlaceOrder } from '@/app/api/shares/[id]/orders/route';
+import { TradeSettlementService, TradeSettlementError } from '@/lib/services/TradeSettlementService';
+import { calculateStockPrice } from '@/lib/utils/valuation';
+import { CorporationModel } from '@/lib/models/Corporation';
+import { ShareOrderModel } from '@/lib/models/ShareOrder';
+import { UserModel } from '@/lib/models/User';
+import { getDb } from '@/lib/db/mongo';
+import {
+  setupTestDatabase,
+  teardownTestDatabase,
+  clearCollections,
+  createTestUser,
+  createTestCorporation,
+  createTestScenario,
+  createTestRequest,
+  createAuthHeader,
+  createTestAccessToken,
+  getResponseBody,
+  getUserShares,
+  generateUsername,
+  generateEmail,
+} from '@/tests/utils/testHelpers';
+
+describe('Trade settlement', () => {
+  beforeAll(async () => {
+    await setupTestDatabase();
+  });
+
+  afterAll(async () => {
+    await teardownTestDatabase();
+  });
+
+  beforeEach(async () => {
+    await clearCollections('users', 'corporations', 'shareholders', 'share_orders', 'share_transactions', 'transactions', 'share_price_history');
+  });
+
+  async function createTrader(cash: number) {
+    const user = await createTestUser({ username: generateUsername(), email: generateEmail(), cash });
+    return {
+      user,
+      authHeaders: createAuthHeader(createTestAccessToken(user.id, user.username, user.email)),
+    };
+  }
+
+  function countShareTransactions(corporationId: number) {
+    return getDb().collection('share_transactions').countDocuments({ corporation_id: corporationId });
+  }
+
+  describe('TradeSettlementService', () => {
+    it('should not let concurrent buys spend the same cash twice', async () => {
+      const scenario = await createTestScenario();
+      const buyer = await createTrader(1500);
+
+      const results = await Promise.allSettled([
+        TradeSettlementService.buyFromFloat(scenario.corporation.id, buyer.user.id, 10, 100),
+        TradeSettlementService.buyFromFloat(scenario.corporation.id, buyer.user.id, 10, 100),
+      ]);
+
+      const fulfilled = results.filter(r => r.status === 'fulfilled');
+      const rejected = results.filter((r): r is PromiseRejectedResult => r.status === 'rejected');
+      expect(fulfilled).toHaveLength(1);
+      expect(rejected).toHaveLength(1);
+      expect(rejected[0].reason).toBeInstanceOf(TradeSettlementError);
+
+      expect(await UserModel.getCash(buyer.user.id)).toBe(500);
+      expect(await getUserShares(buyer.user.id, scenario.corporation.id)).toBe(10);
+      expect(await countShareTransactions(scenario.corporation.id)).toBe(1);
+    });
+
+    it('should not let concurrent sells oversell a holding', async () => {
+      const scenario = await createTestScenario();
+      const before = await CorporationModel.findById(scenario.corporation.id);
+
+      const results = await Promise.allSettled([
+        TradeSettlementService.sellToFloat(scenario.corporation.id, scenario.user.id, 100, 50),
+        TradeSettlementService.sellToFloat(scenario.corporation.id, scenario.user.id, 100, 50),
+      ]);
+
+      expect(results.filter(r => r.status === 'fulfilled')).toHaveLength(1);
+      expect(await getUserShares(scenario.user.id, scenario.corporation.id)).toBe(0);
+      expect(await UserModel.getCash(scenario.user.id)).toBe(100000 + 5000);
+
+      const after = await CorporationModel.findById(scenario.corporation.id);
+      expect(after!.public_shares).toBe(before!.public_shares + 100);
+    });
+
+    it('should never take public_shares below zero', async () => {
+      const owner = await createTrader(100000);
+      const corporation = await createTestCorporation(owner.user.id, { shares: 1000, public_shares: 10 });
+      const [first, second] = await Promise.all([createTrader(10000), createTrader(10000)]);
+
+      const results = await Promise.allSettled([
+        TradeSettlementService.buyFromFloat(corporation.id, first.user.id, 10, 100),
+        TradeSettlementService.buyFromFloat(corporation.id, second.user.id, 10, 100),
+      ]);
+
+      expect(results.filter(r => r.status === 'fulfilled')).toHaveLength(1);
+
+      const after = await CorporationModel.findById(corporation.id);
+      expect(after!.public_shares).toBe(0);
+
+      const cash = await Promise.all([UserModel.getCash(first.user.id), UserModel.getCash(second.user.id)]);
+      expect(cash.sort((a, b) => a - b)).toEqual([9000, 10000]);
+    });
+
+    it('should roll back the float when the buyer cannot pay', async () => {
+      const scenario = await createTestScenario();
+      const buyer = await createTrader(50);
+      const before = await CorporationModel.findById(scenario.corporation.id);
+
+      await expect(
+        TradeSettlementService.buyFromFloat(scenario.corporation.id, buyer.user.id, 10, 100)
+      ).rejects.toBeInstanceOf(TradeSettlementError);
+
+      const after = await CorporationModel.findById(scenario.corporation.id);
+      expect(after!.public_shares).toBe(before!.public_shares);
+      expect(await UserModel.getCash(buyer.user.id)).toBe(50);
+      expect(await countShareTransactions(scenario.corporation.id)).toBe(0);
+    });
+  });
+
+  describe('Share routes', () => {
+    it('should reject the second of two racing buys the user can only afford once', async () => {
+      const scenario = await createTestScenario();
+      const valuation = await calculateStockPrice(scenario.corporation.id);
+      const buyPrice = Math.round(valuation.calculatedPrice * 1.01 * 100) / 100;
+      const buyer = await createTrader(Math.ceil(buyPrice * 15));
+
+      const buy = () => BuyShares(
+        createTestRequest(`http://localhost:3000/api/shares/${scenario.corporation.id}/buy`, {
+          method: 'POST',
+          body: { shares: 10 },
+          headers: buyer.authHeaders,
+        }),
+        { params: { id: scenario.corporation.id.toString() } }
+      );
+
+      const responses = await Promise.all([buy(), buy()]);
+      const statuses = responses.map(r => r.status).sort();
+      expect(statuses).toEqual([200, 400]);
+
+      expect(await getUserShares(buyer.user.id, scenario.corporation.id)).toBe(10);
+      expect(await UserModel.getCash(buyer.user.id)).toBeGreaterThanOrEqual(0);
+    });
+
+    it('should fill a resting order at most once when two buyers race for it', async () => {
+      const scenario = await createTestScenario();
+      const [first, second] = await Promise.all([createTrader(10000), createTrader(10000)]);
+
+      const sellResponse = await PlaceOrder(
+        createTestRequest(`http://localhost:3000/api/shares/${scenario.corporation.id}/orders`, {
+          method: 'POST',
+          body: { side: 'sell', shares: 10, limitPrice: 90 },
+          headers: scenario.authHeaders,
+        }),
+        { params: { id: scenario.corporation.id.toString() } }
+      );
+      const { order: sellOrder } = await getResponseBody(sellResponse);
+
+      const placeBuy = (headers: Record<string, string>) => PlaceOrder(
+        createTestRequest(`http://localhost:3000/api/shares/${scenario.corporation.id}/orders`, {
+          method: 'POST',
+          body: { side: 'buy', shares: 10, limitPrice: 95 },
+          headers,
+        }),
+        { params: { id: scenario.corporation.id.toString() } }
+      );
+
+      const bodies = await Promise.all([placeBuy(first.authHeaders), placeBuy(second.authHeaders)].map(async p => getResponseBody(await p)));
+      const totalFilled = bodies.reduce((sum, body) => sum + body.shares_filled, 0);
+      expect(totalFilled).toBe(10);
+
+      const filledSell = await ShareOrderModel.findById(sellOrder.id);
+      expect(filledSell?.status).toBe('filled');
+      expect(filledSell?.remaining_shares).toBe(0);
+
+      const bought = await Promise.all([
+        getUserShares(first.user.id, scenario.corporation.id),
+        getUserShares(second.user.id, scenario.corporation.id),
+      ]);
+      expect(bought[0] + bought[1]).toBe(10);
+    });
+  });
+});
@@ -0,0 +1,419 @@
+/**
+ * Short Selling API Integration Tests
+ *
+ * Tests share lending via /api/shares/[id]/lending, short positions via
+ * /api/shares/[id]/short and its cover/collateral routes, and servicing via
+ * triggerShortPositionServicing
+ *
+ * Business Rules Tested:
+ * - Only opted-in holdings are lent, and never to their own holder
+ * - Opening a short borrows shares, sells them into the float and locks 150% collateral
+ * - Covering returns the borrowed shares to the lenders and settles collateral
+ * - Covers buy from resting sell orders and the float; liquidations buy lenders in when neither has shares
+ * - Cover costs the holder cannot pay are recorded as an unpaid deficit
+ * - Borrow fees are charged hourly and paid to lenders
+ * - Under-margined positions get a margin call, then are liquidated after the grace period
+ */
+
+import { describe, it, expect, beforeAll, afterAll, beforeEach } from 'vitest';
+import { GET as GetLending, POST as SetLending } from '@/app/api/shares/[id]/lending/route';
+import { GET as GetShorts, POST as OpenShort } from '@/app/api/shares/[id]/short/route';
+import { POST as CoverShort } from '@/app/api/shares/[id]/short/[positionId]/cover/route';
+import { POST as AddCollateral } from '@/app/api/shares/[id]/short/[positionId]/collateral/route';
+import { triggerShortPositionServicing } from '@/lib/cron/actions';
+import { ShortSellingService } from '@/lib/services/ShortSellingService';
+import { ShortPositionModel } from '@/lib/models/ShortPosition';
+import { ShareholderModel } from '@/lib/models/Shareholder';
+import { ShareOrderModel } from '@/lib/models/ShareOrder';
+import { OrderBookService } from '@/lib/services/OrderBookService';
+import { CorporationModel } from '@/lib/models/Corporation';
+import { UserModel } from '@/lib/models/User';
+import { SHORT_CONFIG } from '@/lib/constants/shorts';
+import { getDb } from '@/lib/db/mongo';
+import {
+  setupTestDatabase,
+  teardownTestDatabase,
+  clearCollections,
+  createTestUser,
+  createTestScenario,
+  createTestRequest,
+  createAuthHeader,
+  createTestAccessToken,
+  getResponseBody,
+  assertSuccessResponse,
+  assertErrorResponse,
+  assertValidationError,
+  getUserShares,
+  generateUsername,
+  generateEmail,
+} from '@/tests/utils/testHelpers';
+
+describe('Short Selling API', () => {
+  beforeAll(async () => {
+    await setupTestDatabase();
+  });
+
+  afterAll(async () => {
+    await teardownTestDatabase();
+  });
+
+  beforeEach(async () => {
+    await clearCollections('users', 'corporations', 'shareholders', 'short_positions', 'share_orders', 'share_transactions', 'transactions', 'messages', 'notifications');
+  });
+
+  async function createShortSeller(cash = 50000) {
+    const user = await createTestUser({ username: generateUsername(), email: generateEmail(), cash });
+    return {
+      user,
+      authHeaders: createAuthHeader(createTestAccessToken(user.id, user.username, user.email)),
+    };
+  }
+
+  async function setLending(corpId: number, headers: Record<string, string>, enabled: boolean) {
+    const request = createTestRequest(`http://localhost:3000/api/shares/${corpId}/lending`, {
+      method: 'POST',
+      body: { enabled },
+      headers,
+    });
+    return SetLending(request, { params: { id: corpId.toString() } });
+  }
+
+  async function openShort(corpId: number, headers: Record<string, string>, body: Record<string, unknown>) {
+    const request = createTestRequest(`http://localhost:3000/api/shares/${corpId}/short`, {
+      method: 'POST',
+      body,
+      headers,
+    });
+    return OpenShort(request, { params: { id: corpId.toString() } });
+  }
+
+  async function coverShort(corpId: number, positionId: number, headers: Record<string, string>) {
+    const request = createTestRequest(`http://localhost:3000/api/shares/${corpId}/short/${positionId}/cover`, {
+      method: 'POST',
+      headers,
+    });
+    return CoverShort(request, { params: { id: corpId.toString(), positionId: positionId.toString() } });
+  }
+
+  describe('POST /api/shares/[id]/lending', () => {
+    it('should opt a holding into the lending pool', async () => {
+      const scenario = await createTestScenario();
+
+      const response = await setLending(scenario.corporation.id, scenario.authHeaders, true);
+      assertSuccessResponse(response);
+
+      const body = await getResponseBody(response);
+      expect(body.lending_enabled).toBe(true);
+
+      const pool = await getResponseBody(await GetLending(
+        createTestRequest(`http://localhost:3000/api/shares/${scenario.corporation.id}/lending`),
+        { params: { id: scenario.corporation.id.toString() } }
+      ));
+      expect(pool.lendable_shares).toBe(100);
+      expect(pool.lenders).toBe(1);
+    });
+
+    it('should reject users without a holding', async () => {
+      const scenario = await createTestScenario();
+      const outsider = await createShortSeller();
+
+      const response = await setLending(scenario.corporation.id, outsider.authHeaders, true);
+      assertErrorResponse(response, 400);
+    });
+  });
+
+  describe('POST /api/shares/[id]/short', () => {
+    it('should borrow shares from lenders and post margin', async () => {
+      const scenario = await createTestScenario();
+      const seller = await createShortSeller();
+      await setLending(scenario.corporation.id, scenario.authHeaders, true);
+      const before = await CorporationModel.findById(scenario.corporation.id);
+
+      const response = await openShort(scenario.corporation.id, seller.authHeaders, { shares: 40 });
+      assertSuccessResponse(response, 201);
+
+      const body = await getResponseBody(response);
+      expect(body.position.shares).toBe(40);
+      expect(body.position.lenders).toEqual([{ user_id: scenario.user.id, shares: 40 }]);
+      expect(body.position.collateral).toBeCloseTo(body.proceeds * SHORT_CONFIG.INITIAL_MARGIN, 2);
+
+      expect(await getUserShares(scenario.user.id, scenario.corporation.id)).toBe(60);
+      expect(await UserModel.getCash(seller.user.id)).toBeCloseTo(50000 - body.margin_posted, 2);
+
+      const after = await CorporationModel.findById(scenario.corporation.id);
+      expect(after!.public_shares).toBe(before!.public_shares + 40);
+    });
+
+    it('should reject shorts larger than the lending pool', async () => {
+      const scenario = await createTestScenario();
+      const seller = await createShortSeller();
+      await setLending(scenario.corporation.id, scenario.authHeaders, true);
+
+      const response = await openShort(scenario.corporation.id, seller.authHeaders, { shares: 101 });
+      assertErrorResponse(response, 400);
+
+      const body = await getResponseBody(response);
+      expect(body.error).toContain('available to borrow');
+      expect(await getUserShares(scenario.user.id, scenario.corporation.id)).toBe(100);
+    });
+
+    it('should not lend a holder their own shares', async () => {
+      const scenario = await createTestScenario();
+      await setLending(scenario.corporation.id, scenario.authHeaders, true);
+
+      const response = await openShort(scenario.corporation.id, scenario.authHeaders, { shares: 10 });
+      assertErrorResponse(response, 400);
+    });
+
+    it('should ignore holdings that have not opted in', async () => {
+      const scenario = await createTestScenario();
+      const seller = await createShortSeller();
+
+      const response = await openShort(scenario.corporation.id, seller.authHeaders, { shares: 10 });
+      assertErrorResponse(response, 400);
+    });
+
+    it('should reject a non-integer share count', async () => {
+      const scenario = await createTestScenario();
+      const seller = await createShortSeller();
+
+      const response = await openShort(scenario.corporation.id, seller.authHeaders, { shares: 2.5 });
+      assertErrorResponse(response, 400);
+      assertValidationError(await getResponseBody(response));
+    });
+
+    it('should reject users who cannot post margin', async () => {
+      const scenario = await createTestScenario();
+      const seller = await createShortSeller(10);
+      await setLending(scenario.corporation.id, scenario.authHeaders, true);
+
+      const response = await openShort(scenario.corporation.id, seller.authHeaders, { shares: 50 });
+      assertErrorResponse(response, 400);
+      expect(await ShortPositionModel.countOpenByUser(seller.user.id)).toBe(0);
+    });
+
+    it('should require authentication', async () => {
+      const scenario = await createTestScenario();
+
+      const response = await openShort(scenario.corporation.id, {}, { shares: 10 });
+      assertErrorResponse(response, 401);
+    });
+  });
+
+  describe('POST /api/shares/[id]/short/[positionId]/cover', () => {
+    it('should return borrowed shares to lenders and release collateral', async () => {
+      const scenario = await createTestScenario();
+      const seller = await createShortSeller();
+      await setLending(scenario.corporation.id, scenario.authHeaders, true);
+
+      const { position } = await getResponseBody(await openShort(scenario.corporation.id, seller.authHeaders, { shares: 40 }));
+
+      const response = await coverShort(scenario.corporation.id, position.id, seller.authHeaders);
+      assertSuccessResponse(response);
+
+      const body = await getResponseBody(response);
+      expect(body.position.status).toBe('covered');
+      expect(body.collateral_returned).toBeCloseTo(position.collateral - body.cost, 2);
+
+      expect(await getUserShares(scenario.user.id, scenario.corporation.id)).toBe(100);
+      expect(await UserModel.getCash(seller.user.id)).toBeCloseTo(50000 + body.realized_pnl, 2);
+    });
+
+    it('should not let a position be covered twice', async () => {
+      const scenario = await createTestScenario();
+      const seller = await createShortSeller();
+      await setLending(scenario.corporation.id, scenario.authHeaders, true);
+
+      const { position } = await getResponseBody(await openShort(scenario.corporation.id, seller.authHeaders, { shares: 20 }));
+
+      const responses = await Promise.all([
+        coverShort(scenario.corporation.id, position.id, seller.authHeaders),
+        coverShort(scenario.corporation.id, position.id, seller.authHeaders),
+      ]);
+      expect(responses.map(r => r.status).sort()).toEqual([200, 400]);
+      expect(await getUserShares(scenario.user.id, scenario.corporation.id)).toBe(100);
+    });
+
+    it('should buy from resting sell orders when the float is gone', async () => {
+      const scenario = await createTestScenario();
+      const seller = await createShortSeller();
+      const holder = await createShortSeller();
+      await setLending(scenario.corporation.id, scenario.authHeaders, true);
+
+      const { position } = await getResponseBody(await openShort(scenario.corporation.id, seller.authHeaders, { shares: 20 }));
+      await CorporationModel.update(scenario.corporation.id, { public_shares: 0 });
+
+      await ShareholderModel.create({ corporation_id: scenario.corporation.id, user_id: holder.user.id, shares: 20 });
+      const { order } = await OrderBookService.placeOrder({
+        corporationId: scenario.corporation.id,
+        userId: holder.user.id,
+        side: 'sell',
+        shares: 20,
+        limitPrice: 1,
+        expiresAt: new Date(Date.now() + 60 * 60 * 1000),
+      });
+
+      const response = await coverShort(scenario.corporation.id, position.id, seller.authHeaders);
+      assertSuccessResponse(response);
+
+      const body = await getResponseBody(response);
+      expect(body.cost).toBeCloseTo(20, 2);
+      expect(body.bought_in).toBe(0);
+      expect((await ShareOrderModel.findById(order.id))!.status).toBe('filled');
+      expect(await UserModel.getCash(holder.user.id)).toBeCloseTo(50000 + 20, 2);
+      expect(await getUserShares(scenario.user.id, scenario.corporation.id)).toBe(100);
+    });
+
+    it('should refuse a voluntary cover when no shares are for sale', async () => {
+      const scenario = await createTestScenario();
+      const seller = await createShortSeller();
+      await setLending(scenario.corporation.id, scenario.authHeaders, true);
+
+      const { position } = await getResponseBody(await openShort(scenario.corporation.id, seller.authHeaders, { shares: 20 }));
+      await CorporationModel.update(scenario.corporation.id, { public_shares: 0 });
+
+      const response = await coverShort(scenario.corporation.id, position.id, seller.authHeaders);
+      assertErrorResponse(response, 400);
+      expect((await ShortPositionModel.findById(position.id))!.status).toBe('open');
+    });
+
+    it("should not let users cover someone else's position", async () => {
+      const scenario = await createTestScenario();
+      const seller = await createShortSeller();
+      const other = await createShortSeller();
+      await setLending(scenario.corporation.id, scenario.authHeaders, true);
+
+      const { position } = await getResponseBody(await openShort(scenario.corporation.id, seller.authHeaders, { shares: 20 }));
+
+      const response = await coverShort(scenario.corporation.id, position.id, other.authHeaders);
+      assertErrorResponse(response, 403);
+    });
+  });
+
+  describe('GET /api/shares/[id]/short', () => {
+    it("should list the caller's positions with their margin", async () => {
+      const scenario = await createTestScenario();
+      const seller = await createShortSeller();
+      await setLending(scenario.corporation.id, scenario.authHeaders, true);
+      await openShort(scenario.corporation.id, seller.authHeaders, { shares: 20 });
+
+      const response = await GetShorts(
+        createTestRequest(`http://localhost:3000/api/shares/${scenario.corporation.id}/short`, { headers: seller.authHeaders }),
+        { params: { id: scenario.corporation.id.toString() } }
+      );
+      assertSuccessResponse(response);
+
+      const body = await getResponseBody(response);
+      expect(body.positions).toHaveLength(1);
+      expect(body.positions[0].collateral_ratio).toBeGreaterThan(SHORT_CONFIG.MAINTENANCE_MARGIN);
+    });
+  });
+
+  describe('triggerShortPositionServicing', () => {
+    it('should charge the hourly borrow fee and pay it to lenders', async () => {
+      const scenario = await createTestScenario();
+      const seller = await createShortSeller();
+      await setLending(scenario.corporation.id, scenario.authHeaders, true);
+
+      const { position } = await getResponseBody(await openShort(scenario.corporation.id, seller.authHeaders, { shares: 40 }));
+      const sellerCash = await UserModel.getCash(seller.user.id);
+      const lenderCash = await UserModel.getCash(scenario.user.id);
+
+      const result = await triggerShortPositionServicing();
+      expect(result.charged).toBe(1);
+
+      const updated = await ShortPositionModel.findById(position.id);
+      expect(updated!.fees_paid).toBeGreaterThan(0);
+
+      expect(await UserModel.getCash(seller.user.id)).toBeCloseTo(sellerCash - updated!.fees_paid, 2);
+      expect(await UserModel.getCash(scenario.user.id)).toBeCloseTo(lenderCash + updated!.fees_paid, 2);
+    });
+
+    it('should issue a margin call when the price moves against the position', async () => {
+      const scenario = await createTestScenario();
+      const seller = await createShortSeller();
+      await setLending(scenario.corporation.id, scenario.authHeaders, true);
+
+      const { position } = await getResponseBody(await openShort(scenario.corporation.id, seller.authHeaders, { shares: 40 }));
+      await CorporationModel.update(scenario.corporation.id, { share_price: position.entry_price * 2 });
+
+      const result = await triggerShortPositionServicing();
+      expect(result.marginCalls).toBe(1);
+
+      const updated = await ShortPositionModel.findById(position.id);
+      expect(updated!.margin_call_at).not.toBeNull();
+
+      const notifications = await getDb().collection('notifications').find({ user_id: seller.user.id }).toArray();
+      expect(notifications).toHaveLength(1);
+      expect(notifications[0]).toMatchObject({ category: 'margin_call', corporation_id: scenario.corporation.id });
+    });
+
+    it('should clear the margin call once collateral is topped up', async () => {
+      const scenario = await createTestScenario();
+      const seller = await createShortSeller(1000000);
+      await setLending(scenario.corporation.id, scenario.authHeaders, true);
+
+      const { position } = await getResponseBody(await openShort(scenario.corporation.id, seller.authHeaders, { shares: 40 }));
+      await CorporationModel.update(scenario.corporation.id, { share_price: position.entry_price * 2 });
+      await triggerShortPositionServicing();
+
+      const response = await AddCollateral(
+        createTestRequest(`http://localhost:3000/api/shares/${scenario.corporation.id}/short/${position.id}/collateral`, {
+          method: 'POST',
+          body: { amount: position.proceeds * 2 },
+          headers: seller.authHeaders,
+        }),
+        { params: { id: scenario.corporation.id.toString(), positionId: position.id.toString() } }
+      );
+      assertSuccessResponse(response);
+
+      const body = await getResponseBody(response);
+      expect(body.position.margin_call_at).toBeNull();
+      expect(body.collateral_ratio).toBeGreaterThanOrEqual(SHORT_CONFIG.MAINTENANCE_MARGIN);
+    });
+
+    it('should liquidate positions still under-margined after the grace period', async () => {
+      const scenario = await createTestScenario();
+      const seller = await createShortSeller();
+      await setLending(scenario.corporation.id, scenario.authHeaders, true);
+
+      const { position } = await getResponseBody(await openShort(scenario.corporation.id, seller.authHeaders, { shares: 40 }));
+      await CorporationModel.update(scenario.corporation.id, { share_price: position.entry_price * 2 });
+      await triggerShortPositionServicing();
+
+      const afterGrace = new Date(Date.now() + (SHORT_CONFIG.MARGIN_CALL_GRACE_HOURS + 1) * 60 * 60 * 1000);
+      const result = await ShortSellingService.servicePositions(afterGrace);
+      expect(result.liquidated).toBe(1);
+
+      const closed = await ShortPositionModel.findById(position.id);
+      expect(closed!.status).toBe('liquidated');
+      expect(closed!.realized_pnl).toBeLessThan(0);
+      expect(await getUserShares(scenario.user.id, scenario.corporation.id)).toBe(100);
+    });
+
+    it('should buy lenders in and record the deficit when a liquidation finds no shares', async () => {
+      const scenario = await createTestScenario();
+      const seller = await createShortSeller();
+      await setLending(scenario.corporation.id, scenario.authHeaders, true);
+
+      const { position } = await getResponseBody(await openShort(scenario.corporation.id, seller.authHeaders, { shares: 40 }));
+      await CorporationModel.update(scenario.corporation.id, { share_price: position.entry_price * 10, public_shares: 0 });
+      await getDb().collection('users').updateOne({ id: seller.user.id }, { $set: { cash: 0 } });
+      await triggerShortPositionServicing();
+      const lenderCash = await UserModel.getCash(scenario.user.id);
+
+      const afterGrace = new Date(Date.now() + (SHORT_CONFIG.MARGIN_CALL_GRACE_HOURS + 1) * 60 * 60 * 1000);
+      const result = await ShortSellingService.servicePositions(afterGrace);
+      expect(result.liquidated).toBe(1);
+
+      const closed = await ShortPositionModel.findById(position.id);
+      expect(closed!.status).toBe('liquidated');
+      expect(closed!.unpaid_deficit).toBeGreaterThan(0);
+      expect(await UserModel.getCash(seller.user.id)).toBe(0);
+
+      // The loan is repaid in cash at the cover price instead of shares (plus the last borrow fee)
+      expect(await getUserShares(scenario.user.id, scenario.corporation.id)).toBe(60);
+      expect(await UserModel.getCash(scenario.user.id)).toBeGreaterThanOrEqual(lenderCash + 40 * closed!.exit_price!);
+    });
+  });
+});
@@ -0,0 +1,427 @@
+/**
+ * Tender Offer API Integration Tests
+ *
+ * Tests offers via /api/tender-offers, /api/tender-offers/[id] and
+ * /api/tender-offers/[id]/tender, and settlement via TenderOfferService.run
+ *
+ * Business Rules Tested:
+ * - Launching escrows the full offer from the bidder's cash or their corporation's capital
+ * - Offers must be at or above the share price and large enough to reach the control threshold
+ * - Tendered shares leave the holder's position and can be withdrawn until the offer closes
+ * - Reaching the threshold pays tenderers, transfers the shares and hands the bidder the CEO seat
+ * - The deposed CEO loses every CEO power once control changes
+ * - Falling short (e.g. after a dilutive share issuance) returns every share and the escrow
+ */
+
+import { describe, it, expect, beforeAll, afterAll, beforeEach } from 'vitest';
+import { GET as ListOffers, POST as LaunchOffer } from '@/app/api/tender-offers/route';
+import { DELETE as WithdrawOffer } from '@/app/api/tender-offers/[id]/route';
+import { PATCH as UpdateCorporation } from '@/app/api/corporation/[id]/route';
+import { POST as RequestLoan } from '@/app/api/corporation/[id]/loans/route';
+import { POST as TenderShares, DELETE as WithdrawTender } from '@/app/api/tender-offers/[id]/tender/route';
+import { TenderOfferService } from '@/lib/services/TenderOfferService';
+import { TradeSettlementService } from '@/lib/services/TradeSettlementService';
+import { TenderOfferModel } from '@/lib/models/TenderOffer';
+import { CorporateHoldingModel } from '@/lib/models/CorporateHolding';
+import { CorporationModel } from '@/lib/models/Corporation';
+import { BoardModel } from '@/lib/models/Board';
+import { UserModel } from '@/lib/models/User';
+import { getDb } from '@/lib/db/mongo';
+import {
+  setupTestDatabase,
+  teardownTestDatabase,
+  clearCollections,
+  createTestUser,
+  createTestCorporation,
+  createTestShares,
+  createTestRequest,
+  createAuthHeader,
+  createTestAccessToken,
+  getResponseBody,
+  assertSuccessResponse,
+  assertErrorResponse,
+  getUserShares,
+  generateUsername,
+  generateEmail,
+} from '@/tests/utils/testHelpers';
+
+describe('Tender Offer API', () => {
+  beforeAll(async () => {
+    await setupTestDatabase();
+  });
+
+  afterAll(async () => {
+    await teardownTestDatabase();
+  });
+
+  beforeEach(async () => {
+    await clearCollections(
+      'users', 'corporations', 'shareholders', 'tender_offers', 'corporate_holdings',
+      'board_appointments', 'share_transactions', 'transactions', 'messages', 'notifications'
+    );
+  });
+
+  async function createPlayer(cash = 100000) {
+    const user = await createTestUser({ username: generateUsername(), email: generateEmail(), cash });
+    return {
+      user,
+      authHeaders: createAuthHeader(createTestAccessToken(user.id, user.username, user.email)),
+    };
+  }
+
+  // Target with 1,000 outstanding shares at $10: founder 400, two outside holders 300 each
+  async function createTarget() {
+    const founder = await createPlayer();
+    const holderA = await createPlayer();
+    const holderB = await createPlayer();
+    const corporation = await createTestCorporation(founder.user.id, {
+      shares: 1000,
+      public_shares: 0,
+      share_price: 10,
+      capital: 50000,
+    });
+    await createTestShares(founder.user.id, corporation.id, 400);
+    await createTestShares(holderA.user.id, corporation.id, 300);
+    await createTestShares(holderB.user.id, corporation.id, 300);
+    return { founder, holderA, holderB, corporation };
+  }
+
+  async function launch(headers: Record<string, string>, body: Record<string, unknown>) {
+    return LaunchOffer(createTestRequest('http://localhost:3000/api/tender-offers', {
+      method: 'POST',
+      body,
+      headers,
+    }));
+  }
+
+  async function tender(offerId: number, headers: Record<string, string>, shares: number) {
+    return TenderShares(createTestRequest(`http://localhost:3000/api/tender-offers/${offerId}/tender`, {
+      method: 'POST',
+      body: { shares },
+      headers,
+    }), { params: { id: offerId.toString() } });
+  }
+
+  async function expireOffer(offerId: number) {
+    await getDb().collection('tender_offers').updateOne({ id: offerId }, { $set: { expires_at: new Date(Date.now() - 1000) } });
+  }
+
+  describe('POST /api/tender-offers', () => {
+    it('should launch an offer and escrow the full amount', async () => {
+      const { corporation } = await createTarget();
+      const bidder = await createPlayer();
+
+      const response = await launch(bidder.authHeaders, {
+        target_corporation_id: corporation.id,
+        price_per_share: 12,
+        max_shares: 600,
+      });
+      assertSuccessResponse(response, 201);
+
+      const body = await getResponseBody(response);
+      expect(body.offer.status).toBe('open');
+      expect(body.offer.escrow).toBe(7200);
+      expect(await UserModel.getCash(bidder.user.id)).toBe(100000 - 7200);
+    });
+
+    it('should reject offers below the current share price', async () => {
+      const { corporation } = await createTarget();
+      const bidder = await createPlayer();
+
+      const response = await launch(bidder.authHeaders, {
+        target_corporation_id: corporation.id,
+        price_per_share: 9,
+        max_shares: 600,
+      });
+      assertErrorResponse(response, 400);
+    });
+
+    it('should reject offers that cannot reach the control threshold', async () => {
+      const { corporation } = await createTarget();
+      const bidder = await createPlayer();
+
+      const response = await launch(bidder.authHeaders, {
+        target_corporation_id: corporation.id,
+        price_per_share: 12,
+        max_shares: 400,
+      });
+      assertErrorResponse(response, 400);
+    });
+
+    it('should not let the CEO bid for their own corporation', async () => {
+      const { founder, corporation } = await createTarget();
+
+      const response = await launch(founder.authHeaders, {
+        target_corporation_id: corporation.id,
+        price_per_share: 12,
+        max_shares: 600,
+      });
+      assertErrorResponse(response, 400);
+    });
+
+    it('should reject bidders who cannot fund the escrow', async () => {
+      const { corporation } = await createTarget();
+      const bidder = await createPlayer(1000);
+
+      const response = await launch(bidder.authHeaders, {
+        target_corporation_id: corporation.id,
+        price_per_share: 12,
+        max_shares: 600,
+      });
+      assertErrorResponse(response, 400);
+      expect(await TenderOfferModel.findByTarget(corporation.id)).toHaveLength(0);
+    });
+  });
+
+  describe('POST/DELETE /api/tender-offers/[id]/tender', () => {
+    it('should hold tendered shares until they are withdrawn', async () => {
+      const { holderA, corporation } = await createTarget();
+      const bidder = await createPlayer();
+      const { offer } = await getResponseBody(await launch(bidder.authHeaders, {
+        target_corporation_id: corporation.id,
+        price_per_share: 12,
+        max_shares: 600,
+      }));
+
+      const response = await tender(offer.id, holderA.authHeaders, 200);
+      assertSuccessResponse(response);
+      expect(await getUserShares(holderA.user.id, corporation.id)).toBe(100);
+
+      const list = await getResponseBody(await ListOffers(createTestRequest(
+        `http://localhost:3000/api/tender-offers?corporation_id=${corporation.id}`,
+        { headers: holderA.authHeaders }
+      )));
+      expect(list.offers[0].shares_tendered).toBe(200);
+      expect(list.offers[0].my_tendered_shares).toBe(200);
+
+      const withdraw = await WithdrawTender(createTestRequest(`http://localhost:3000/api/tender-offers/${offer.id}/tender`, {
+        method: 'DELETE',
+        headers: holderA.authHeaders,
+      }), { params: { id: offer.id.toString() } });
+      assertSuccessResponse(withdraw);
+      expect(await getUserShares(holderA.user.id, corporation.id)).toBe(300);
+      expect((await TenderOfferModel.findById(offer.id))?.shares_tendered).toBe(0);
+    });
+
+    it('should not accept more shares than the holder owns or the offer seeks', async () => {
+      const { holderA, holderB, founder, corporation } = await createTarget();
+      const bidder = await createPlayer();
+      const { offer } = await getResponseBody(await launch(bidder.authHeaders, {
+        target_corporation_id: corporation.id,
+        price_per_share: 12,
+        max_shares: 600,
+      }));
+
+      assertErrorResponse(await tender(offer.id, holderA.authHeaders, 301), 400);
+
+      assertSuccessResponse(await tender(offer.id, holderA.authHeaders, 300));
+      assertSuccessResponse(await tender(offer.id, holderB.authHeaders, 300));
+      assertErrorResponse(await tender(offer.id, founder.authHeaders, 1), 400);
+      expect(await getUserShares(founder.user.id, corporation.id)).toBe(400);
+    });
+  });
+
+  describe('Settlement', () => {
+    it('should count shares tendered after the offer was loaded for settlement', async () => {
+      const { holderA, holderB, corporation } = await createTarget();
+      const bidder = await createPlayer();
+
+      const { offer } = await getResponseBody(await launch(bidder.authHeaders, {
+        target_corporation_id: corporation.id,
+        price_per_share: 12,
+        max_shares: 600,
+      }));
+      await tender(offer.id, holderA.authHeaders, 300);
+      const loaded = await TenderOfferModel.findById(offer.id);
+      await tender(offer.id, holderB.authHeaders, 250);
+
+      const settlement = await TenderOfferService.settle(loaded!);
+      expect(settlement.offer.status).toBe('succeeded');
+      expect(settlement.stake_pct).toBe(55);
+      expect(settlement.shares_purchased).toBe(550);
+      expect(await getUserShares(bidder.user.id, corporation.id)).toBe(550);
+    });
+
+    it('should transfer control when the threshold is reached', async () => {
+      const { founder, holderA, holderB, corporation } = await createTarget();
+      const bidder = await createPlayer();
+      await getDb().collection('board_appointments').insertOne({
+        corporation_id: corporation.id,
+        user_id: founder.user.id,
+        appointed_at: new Date(),
+      });
+
+      const { offer } = await getResponseBody(await launch(bidder.authHeaders, {
+        target_corporation_id: corporation.id,
+        price_per_share: 12,
+        max_shares: 650,
+      }));
+      await tender(offer.id, holderA.authHeaders, 300);
+      await tender(offer.id, holderB.authHeaders, 250);
+      await expireOffer(offer.id);
+
+      const result = await TenderOfferService.run();
+      expect(result).toEqual({ settled: 1, succeeded: 1, failed: 0 });
+
+      const settled = await TenderOfferModel.findById(offer.id);
+      expect(settled?.status).toBe('succeeded');
+      expect(settled?.stake_pct_at_close).toBe(55);
+
+      expect(await getUserShares(bidder.user.id, corporation.id)).toBe(550);
+      expect(await UserModel.getCash(holderA.user.id)).toBe(100000 + 3600);
+      expect(await UserModel.getCash(holderB.user.id)).toBe(100000 + 3000);
+      // Unfilled part of the escrow (100 shares) is refunded
+      expect(await UserModel.getCash(bidder.user.id)).toBe(100000 - 550 * 12);
+
+      const target = await CorporationModel.findById(corporation.id);
+      expect(target?.ceo_id).toBe(bidder.user.id);
+      expect(target?.elected_ceo_id).toBe(bidder.user.id);
+      expect(await getDb().collection('board_appointments').countDocuments({ corporation_id: corporation.id })).toBe(0);
+
+      // The change of control reaches the deposed CEO as a CEO change
+      const notice = await getDb().collection('notifications').findOne({ user_id: founder.user.id, category: 'ceo_change' });
+      expect(notice?.corporation_id).toBe(corporation.id);
+    });
+
+    it('should take the CEO\'s powers away from the deposed founder', async () => {
+      const { founder, holderA, holderB, corporation } = await createTarget();
+      const bidder = await createPlayer();
+
+      const { offer } = await getResponseBody(await launch(bidder.authHeaders, {
+        target_corporation_id: corporation.id,
+        price_per_share: 12,
+        max_shares: 600,
+      }));
+      await tender(offer.id, holderA.authHeaders, 300);
+      await tender(offer.id, holderB.authHeaders, 300);
+      await expireOffer(offer.id);
+      await TenderOfferService.run();
+
+      const update = (headers: Record<string, string>) => UpdateCorporation(
+        createTestRequest(`http://localhost:3000/api/corporation/${corporation.id}`, {
+          method: 'PATCH',
+          body: { description: 'Under new management' },
+          headers,
+        }),
+        { params: { id: corporation.id.toString() } }
+      );
+      assertErrorResponse(await update(founder.authHeaders), 403);
+      assertSuccessResponse(await update(bidder.authHeaders));
+
+      const loan = await RequestLoan(
+        createTestRequest(`http://localhost:3000/api/corporation/${corporation.id}/loans`, {
+          method: 'POST',
+          body: { amount: 10000, termMonths: 12, interestRate: 5, purpose: 'Fund a counter-bid' },
+          headers: founder.authHeaders,
+        }),
+        { params: { id: corporation.id.toString() } }
+      );
+      assertErrorResponse(loan, 403);
+
+      const board = await BoardModel.getBoardMembers(corporation.id);
+      expect(board.find(member => member.is_ceo)?.user_id).toBe(bidder.user.id);
+    });
+
+    it('should return shares and escrow when the threshold is missed', async () => {
+      const { holderA, corporation } = await createTarget();
+      const bidder = await createPlayer();
+
+      const { offer } = await getResponseBody(await launch(bidder.authHeaders, {
+        target_corporation_id: corporation.id,
+        price_per_share: 12,
+        max_shares: 600,
+      }));
+      await tender(offer.id, holderA.authHeaders, 300);
+      await expireOffer(offer.id);
+
+      const result = await TenderOfferService.run();
+      expect(result.failed).toBe(1);
+
+      expect((await TenderOfferModel.findById(offer.id))?.status).toBe('failed');
+      expect(await getUserShares(holderA.user.id, corporation.id)).toBe(300);
+      expect(await getUserShares(bidder.user.id, corporation.id)).toBe(0);
+      expect(await UserModel.getCash(bidder.user.id)).toBe(100000);
+      expect((await CorporationModel.findById(corporation.id))?.elected_ceo_id).toBeNull();
+
+      const notice = await getDb().collection('notifications').findOne({ user_id: holderA.user.id, title: { $regex: /^Tender Offer Failed/ } });
+      expect(notice?.category).toBe('tender_offer');
+    });
+
+    it('should let a share issuance dilute the bidder below the threshold', async () => {
+      const { founder, holderA, holderB, corporation } = await createTarget();
+      const bidder = await createPlayer();
+
+      const { offer } = await getResponseBody(await launch(bidder.authHeaders, {
+        target_corporation_id: corporation.id,
+        price_per_share: 12,
+        max_shares: 600,
+      }));
+      await tender(offer.id, holderA.authHeaders, 300);
+      await tender(offer.id, holderB.authHeaders, 300);
+
+      // 600 of 1,000 would be control; 600 of 1,300 is not
+      await TradeSettlementService.issueShares(corporation.id, founder.user.id, 300, 10);
+      await expireOffer(offer.id);
+
+      await TenderOfferService.run();
+
+      const settled = await TenderOfferModel.findById(offer.id);
+      expect(settled?.status).toBe('failed');
+      expect(settled?.stake_pct_at_close).toBeCloseTo(46.15, 1);
+      expect(await getUserShares(holderA.user.id, corporation.id)).toBe(300);
+    });
+
+    it('should hold a corporation bidder\'s shares as a corporate holding', async () => {
+      const { holderA, holderB, corporation } = await createTarget();
+      const acquirerCeo = await createPlayer();
+      const acquirer = await createTestCorporation(acquirerCeo.user.id, { capital: 100000 });
+
+      const response = await launch(acquirerCeo.authHeaders, {
+        target_corporation_id: corporation.id,
+        corporation_id: acquirer.id,
+        price_per_share: 12,
+        max_shares: 600,
+      });
+      assertSuccessResponse(response, 201);
+      const { offer } = await getResponseBody(response);
+      expect((await CorporationModel.findById(acquirer.id))?.capital).toBe(100000 - 7200);
+
+      await tender(offer.id, holderA.authHeaders, 300);
+      await tender(offer.id, holderB.authHeaders, 300);
+      await expireOffer(offer.id);
+      await TenderOfferService.run();
+
+      const holding = await CorporateHoldingModel.getHolding(acquirer.id, corporation.id);
+      expect(holding?.shares).toBe(600);
+      expect(await getUserShares(acquirerCeo.user.id, corporation.id)).toBe(0);
+      expect((await CorporationModel.findById(corporation.id))?.elected_ceo_id).toBe(acquirerCeo.user.id);
+    });
+  });
+
+  describe('DELETE /api/tender-offers/[id]', () => {
+    it('should only let the bidder withdraw, returning shares and escrow', async () => {
+      const { holderA, corporation } = await createTarget();
+      const bidder = await createPlayer();
+      const { offer } = await getResponseBody(await launch(bidder.authHeaders, {
+        target_corporation_id: corporation.id,
+        price_per_share: 12,
+        max_shares: 600,
+      }));
+      await tender(offer.id, holderA.authHeaders, 300);
+
+      const withdraw = (headers: Record<string, string>) => WithdrawOffer(
+        createTestRequest(`http://localhost:3000/api/tender-offers/${offer.id}`, { method: 'DELETE', headers }),
+        { params: { id: offer.id.toString() } }
+      );
+
+      assertErrorResponse(await withdraw(holderA.authHeaders), 403);
+
+      const response = await withdraw(bidder.authHeaders);
+      assertSuccessResponse(response);
+
+      expect((await TenderOfferModel.findById(offer.id))?.status).toBe('withdrawn');
+      expect(await getUserShares(holderA.user.id, corporation.id)).toBe(300);
+      expect(await UserModel.getCash(bidder.user.id)).toBe(100000);
+    });
+  });
+});
@@ -0,0 +1,187 @@
+/**
+ * Watchlist API Integration Tests
+ *
+ * Tests watchlists and price alerts via /api/watchlist
+ *
+ * Business Rules Tested:
+ * - Users watch existing corporations, resources and products, each once
+ * - Alerts are set on the user's own watchlist entries
+ * - An alert notifies its owner once when its condition is met, and re-arms once it no longer holds
+ * - Share alerts are checked whenever the share price is recalculated
+ * - Removing a watchlist entry removes its alerts
+ */
+
+import { describe, it, expect, beforeAll, afterAll, beforeEach } from 'vitest';
+import { GET as GetWatchlist, POST as AddToWatchlist } from '@/app/api/watchlist/route';
+import { DELETE as RemoveFromWatchlist } from '@/app/api/watchlist/[id]/route';
+import { POST as CreateAlert } from '@/app/api/watchlist/alerts/route';
+import { CorporationModel } from '@/lib/models/Corporation';
+import { CommodityPriceHistoryModel } from '@/lib/models/CommodityPriceHistory';
+import { PriceAlertModel } from '@/lib/models/PriceAlert';
+import { NotificationModel } from '@/lib/models/Notification';
+import { WatchlistService } from '@/lib/services/WatchlistService';
+import { updateStockPrice } from '@/lib/utils/valuation';
+import {
+  setupTestDatabase,
+  teardownTestDatabase,
+  clearCollections,
+  createTestUser,
+  createTestCorporation,
+  createTestRequest,
+  createAuthHeader,
+  createTestAccessToken,
+  getResponseBody,
+  assertSuccessResponse,
+  assertErrorResponse,
+  assertValidationError,
+  generateUsername,
+  generateEmail,
+} from '@/tests/utils/testHelpers';
+
+const BASE_URL = 'http://localhost:3000/api/watchlist';
+
+describe('Watchlist API', () => {
+  beforeAll(async () => {
+    await setupTestDatabase();
+  });
+
+  afterAll(async () => {
+    await teardownTestDatabase();
+  });
+
+  beforeEach(async () => {
+    await clearCollections(
+      'users', 'corporations', 'watchlist_items', 'price_alerts', 'notifications',
+      'notification_preferences', 'commodity_price_history', 'share_price_history'
+    );
+  });
+
+  async function createUserWithHeaders() {
+    const user = await createTestUser({ username: generateUsername(), email: generateEmail() });
+    const token = createTestAccessToken(user.id, user.username, user.email);
+    return { user, headers: createAuthHeader(token) };
+  }
+
+  async function watch(headers: Record<string, string>, body: Record<string, unknown>) {
+    return await AddToWatchlist(createTestRequest(BASE_URL, { method: 'POST', body, headers }));
+  }
+
+  describe('POST /api/watchlist', () => {
+    it('should require authentication', async () => {
+      const response = await watch({}, { item: 'Oil' });
+      assertErrorResponse(response, 401);
+    });
+
+    it('should watch corporations and items with current prices', async () => {
+      const { user, headers } = await createUserWithHeaders();
+      const corp = await createTestCorporation(user.id, { share_price: 12.5 });
+      await CommodityPriceHistoryModel.create({ resource_name: 'Oil', price: 80, supply: 100, demand: 120 });
+
+      assertSuccessResponse(await watch(headers, { corporationId: corp.id }), 201);
+      assertSuccessResponse(await watch(headers, { item: 'Oil' }), 201);
+
+      const response = await GetWatchlist(createTestRequest(BASE_URL, { headers }));
+      assertSuccessResponse(response, 200);
+
+      const { items } = await getResponseBody(response);
+      expect(items).toHaveLength(2);
+      expect(items[0]).toMatchObject({ target_type: 'corporation', name: corp.name, price: 12.5 });
+      expect(items[1]).toMatchObject({ target_type: 'resource', item: 'Oil', price: 80 });
+    });
+
+    it('should reject unknown items and duplicates', async () => {
+      const { headers } = await createUserWithHeaders();
+
+      assertErrorResponse(await watch(headers, { item: 'Unobtainium' }), 400);
+      assertSuccessResponse(await watch(headers, { item: 'Steel' }), 201);
+      assertErrorResponse(await watch(headers, { item: 'Steel' }), 400);
+    });
+
+    it('should reject a corporation and an item together', async () => {
+      const { headers } = await createUserWithHeaders();
+
+      const response = await watch(headers, { corporationId: 1, item: 'Oil' });
+      assertErrorResponse(response, 400);
+      assertValidationError(await getResponseBody(response));
+    });
+  });
+
+  describe('Price alerts', () => {
+    it('should only set alerts on the viewer\'s own entries', async () => {
+      const { headers } = await createUserWithHeaders();
+      const other = await createUserWithHeaders();
+      const { item } = await getResponseBody(await watch(other.headers, { item: 'Oil' }));
+
+      const response = await CreateAlert(createTestRequest(`${BASE_URL}/alerts`, {
+        method: 'POST',
+        body: { watchlistItemId: item.id, condition: 'above', threshold: 100 },
+        headers,
+      }));
+      assertErrorResponse(response, 400);
+    });
+
+    it('should notify once per crossing of a share price threshold', async () => {
+      const { user, headers } = await createUserWithHeaders();
+      const corp = await createTestCorporation(user.id, { share_price: 10 });
+      const { item } = await getResponseBody(await watch(headers, { corporationId: corp.id }));
+
+      const response = await CreateAlert(createTestRequest(`${BASE_URL}/alerts`, {
+        method: 'POST',
+        body: { watchlistItemId: item.id, condition: 'above', threshold: 15 },
+        headers,
+      }));
+      assertSuccessResponse(response, 201);
+
+      expect((await WatchlistService.evaluateAlerts(['corporation'])).triggered).toBe(0);
+
+      await CorporationModel.update(corp.id, { share_price: 16 });
+      expect((await WatchlistService.evaluateAlerts(['corporation'])).triggered).toBe(1);
+      expect((await WatchlistService.evaluateAlerts(['corporation'])).triggered).toBe(0);
+
+      const notifications = await NotificationModel.findByUserId(user.id, 10);
+      expect(notifications).toHaveLength(1);
+      expect(notifications[0].category).toBe('price_alert');
+      expect(notifications[0].link).toBe(`/corporation/${corp.id}`);
+
+      await CorporationModel.update(corp.id, { share_price: 14 });
+      expect((await WatchlistService.evaluateAlerts(['corporation'])).rearmed).toBe(1);
+      await CorporationModel.update(corp.id, { share_price: 15.5 });
+      expect((await WatchlistService.evaluateAlerts(['corporation'])).triggered).toBe(1);
+    });
+
+    it('should check share alerts when the share price is recalculated', async () => {
+      const { user, headers } = await createUserWithHeaders();
+      const corp = await createTestCorporation(user.id, { share_price: 10 });
+      const { item } = await getResponseBody(await watch(headers, { corporationId: corp.id }));
+      await CreateAlert(createTestRequest(`${BASE_URL}/alerts`, {
+        method: 'POST',
+        body: { watchlistItemId: item.id, condition: 'below', threshold: 1000 },
+        headers,
+      }));
+
+      await updateStockPrice(corp.id);
+
+      const notifications = await NotificationModel.findByUserId(user.id, 10);
+      expect(notifications).toHaveLength(1);
+      expect(notifications[0].category).toBe('price_alert');
+      expect((await PriceAlertModel.findByUserId(user.id))[0].armed).toBe(false);
+    });
+
+    it('should remove an entry\'s alerts with it', async () => {
+      const { headers } = await createUserWithHeaders();
+      const { item } = await getResponseBody(await watch(headers, { item: 'Oil' }));
+      await CreateAlert(createTestRequest(`${BASE_URL}/alerts`, {
+        method: 'POST',
+        body: { watchlistItemId: item.id, condition: 'daily_move', threshold: 5 },
+        headers,
+      }));
+
+      const response = await RemoveFromWatchlist(
+        createTestRequest(`${BASE_URL}/${item.id}`, { method: 'DELETE', headers }),
+        { params: { id: String(item.id) } }
+      );
+      assertSuccessResponse(response, 200);
+      expect(await PriceAlertModel.countByWatchlistItemId(item.id)).toBe(0);
+    });
+  });
+});
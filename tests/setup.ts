@@ -1,14 +1,14 @@
 import '@testing-library/jest-dom';
 import { vi, beforeAll, afterAll } from 'vitest';
 import React from 'react';
-import { MongoMemoryServer } from 'mongodb-memory-server';
+import { MongoMemoryReplSet } from 'mongodb-memory-server';
 
-// Global in-memory MongoDB instance
-let mongoServer: MongoMemoryServer | null = null;
+// Global in-memory MongoDB instance (single-node replica set so session transactions work)
+let mongoServer: MongoMemoryReplSet | null = null;
 
 // Start in-memory MongoDB before all tests
 beforeAll(async () => {
-  mongoServer = await MongoMemoryServer.create();
+  mongoServer = await MongoMemoryReplSet.create({ replSet: { count: 1 } });
   const uri = mongoServer.getUri();
   
   // Setup test environment variables with in-memory MongoDB URI
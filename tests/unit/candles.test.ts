@@ -0,0 +1,112 @@
+import { describe, it, expect } from 'vitest';
+import {
+  buildCandles,
+  formatCandleLabel,
+  getCandleStart,
+  relativeStrengthIndex,
+  rollingVolatility,
+  simpleMovingAverage,
+  summarizeCandles,
+  withIndicators,
+} from '@/lib/constants/candles';
+import { MILLISECONDS_PER_HOUR } from '@/lib/utils/gameTime';
+import { PriceCandlesQuerySchema } from '@/lib/validations/candles';
+
+const GAME_START = new Date('2026-01-01T00:00:00Z');
+const at = (hours: number, minutes: number = 0) =>
+  new Date(GAME_START.getTime() + hours * MILLISECONDS_PER_HOUR + minutes * 60_000);
+
+describe('buildCandles', () => {
+  it('aggregates prices into OHLC candles per period', () => {
+    const samples = [
+      { at: at(0, 50), price: 12 },
+      { at: at(0, 10), price: 10 },
+      { at: at(0, 30), price: 9 },
+      { at: at(2, 0), price: 15 },
+    ];
+
+    const candles = buildCandles(samples, [], 'hour');
+    expect(candles).toHaveLength(2);
+    expect(candles[0]).toMatchObject({ open: 10, high: 12, low: 9, close: 12, volume: 0, vwap: null });
+    expect(candles[0].start).toEqual(at(0));
+    expect(candles[1]).toMatchObject({ open: 15, close: 15 });
+  });
+
+  it('takes volume and VWAP from trades in each candle\'s period', () => {
+    const samples = [{ at: at(1), price: 10 }, { at: at(1, 40), price: 11 }];
+    const trades = [
+      { at: at(1, 5), price: 10, volume: 100 },
+      { at: at(1, 35), price: 12, volume: 300 },
+      { at: at(5), price: 50, volume: 1000 },
+    ];
+
+    const [candle] = buildCandles(samples, trades, 'hour');
+    expect(candle.volume).toBe(400);
+    expect(candle.vwap).toBeCloseTo(11.5);
+  });
+
+  it('buckets game quarters from the game start', () => {
+    expect(getCandleStart(at(30), 'quarter', GAME_START)).toEqual(at(24));
+    expect(formatCandleLabel(at(0), 'hour')).toBe('Jan 1, 12 AM');
+
+    const candles = buildCandles([{ at: at(1), price: 5 }, { at: at(23), price: 6 }, { at: at(25), price: 7 }], [], 'quarter', GAME_START);
+    expect(candles.map(candle => candle.close)).toEqual([6, 7]);
+  });
+});
+
+describe('indicators', () => {
+  it('averages the last values once there are enough', () => {
+    expect(simpleMovingAverage([1, 2, 3, 4, 5], 3)).toEqual([null, null, 2, 3, 4]);
+  });
+
+  it('measures volatility as the spread of returns', () => {
+    const steady = rollingVolatility([100, 110, 121, 133.1], 2);
+    expect(steady[0]).toBeNull();
+    expect(steady[3]).toBeCloseTo(0);
+
+    const choppy = rollingVolatility([100, 110, 99, 108.9], 2);
+    expect(choppy[2]).toBeCloseTo(10);
+  });
+
+  it('reads relative strength from gains against losses', () => {
+    expect(relativeStrengthIndex([1, 2, 3, 4], 3)[3]).toBe(100);
+    expect(relativeStrengthIndex([4, 3, 2, 1], 3)[3]).toBe(0);
+    expect(relativeStrengthIndex([5, 5, 5, 5], 3)[3]).toBe(50);
+    expect(relativeStrengthIndex([1, 2, 1, 2], 3)[3]).toBeCloseTo(66.67, 1);
+    expect(relativeStrengthIndex([1, 2, 3], 3)).toEqual([null, null, null]);
+  });
+});
+
+describe('summarizeCandles', () => {
+  it('summarizes the range with the volume-weighted price across candles', () => {
+    const candles = withIndicators(buildCandles(
+      [{ at: at(0), price: 10 }, { at: at(1), price: 8 }, { at: at(2), price: 12 }],
+      [{ at: at(0), price: 10, volume: 100 }, { at: at(2), price: 12, volume: 300 }],
+      'hour'
+    ));
+
+    const summary = summarizeCandles(candles);
+    expect(summary).toMatchObject({ open: 10, close: 12, high: 12, low: 8, volume: 400 });
+    expect(summary.change_percent).toBeCloseTo(20);
+    expect(summary.vwap).toBeCloseTo(11.5);
+    expect(summary.volatility).not.toBeNull();
+  });
+
+  it('is empty without candles', () => {
+    expect(summarizeCandles([])).toMatchObject({ open: null, volume: 0, vwap: null });
+  });
+});
+
+describe('PriceCandlesQuerySchema', () => {
+  it('defaults the count per resolution', () => {
+    expect(PriceCandlesQuerySchema.parse({ resolution: 'hour' })).toEqual({ resolution: 'hour', count: 96 });
+    expect(PriceCandlesQuerySchema.parse({ resolution: 'day', count: '7' })).toEqual({ resolution: 'day', count: 7 });
+  });
+
+  it('rejects unknown resolutions and out-of-range counts', () => {
+    expect(PriceCandlesQuerySchema.safeParse({ resolution: 'week' }).success).toBe(false);
+    expect(PriceCandlesQuerySchema.safeParse({ resolution: 'day', count: '0' }).success).toBe(false);
+    expect(PriceCandlesQuerySchema.safeParse({ resolution: 'day', count: '5000' }).success).toBe(false);
+    expect(PriceCandlesQuerySchema.safeParse({ resolution: 'day', count: 'ten' }).success).toBe(false);
+  });
+});
@@ -0,0 +1,111 @@
+import { describe, it, expect } from 'vitest';
+import { analyzeProductionChain } from '@/lib/constants/chainAnalysis';
+import type { UnifiedSectorConfig } from '@/lib/models/SectorConfig';
+
+type Flow = { type: 'resource' | 'product'; name: string; rate: number };
+
+const unit = (inputs: Flow[] = [], outputs: Flow[] = [], baseCost = 0) => ({
+  isEnabled: true,
+  baseRevenue: 0,
+  baseCost,
+  laborCost: 0,
+  outputRate: null,
+  inputs,
+  outputs,
+});
+
+const disabled = { ...unit(), isEnabled: false };
+
+const sector = (units: Partial<UnifiedSectorConfig['sectors'][string]['units']>, extra = {}) => ({
+  displayOrder: 0,
+  isProductionOnly: false,
+  canExtract: false,
+  producedProduct: null,
+  primaryResource: null,
+  units: { production: disabled, retail: disabled, service: disabled, extraction: disabled, ...units },
+  ...extra,
+});
+
+// Forestry extracts Lumber; Construction turns Lumber into Construction Capacity
+const config: UnifiedSectorConfig = {
+  version: '2026-10-19T00:00:00.000Z',
+  sectors: {
+    Forestry: sector({
+      extraction: unit([], [{ type: 'resource', name: 'Lumber', rate: 2 }], 100),
+    }, { canExtract: true, primaryResource: 'Lumber' }),
+    Construction: sector({
+      production: unit(
+        [{ type: 'resource', name: 'Lumber', rate: 0.5 }],
+        [{ type: 'product', name: 'Construction Capacity', rate: 2 }]
+      ),
+    }, { isProductionOnly: true, producedProduct: 'Construction Capacity' }),
+  },
+  products: { 'Construction Capacity': { referenceValue: 100, minPrice: 15, displayOrder: 0 } },
+  resources: {
+    Lumber: { basePrice: 40, displayOrder: 0 },
+    Oil: { basePrice: 75, displayOrder: 1 },
+  },
+};
+
+const prices = { Lumber: 40, Oil: 75, 'Construction Capacity': 100 };
+
+describe('analyzeProductionChain', () => {
+  it('reports dead ends and unused resources', () => {
+    const report = analyzeProductionChain(config, prices);
+
+    expect(report.graph_errors).toEqual([]);
+    expect(report.cycles).toEqual([]);
+    expect(report.dead_end_products).toEqual(['Construction Capacity']);
+    expect(report.unconsumed_resources).toEqual(['Oil']);
+  });
+
+  it('reports units that lose money running flat out', () => {
+    const { negative_margins } = analyzeProductionChain(config, prices);
+
+    // 2 Lumber an hour at 40 against a base cost of 100
+    expect(negative_margins).toEqual([
+      { sector: 'Forestry', unit_type: 'extraction', revenue: 80, cost: 100, margin: -20 },
+    ]);
+  });
+
+  it('reports minimum prices above the cheapest cost to make', () => {
+    // Half a Lumber at 40 makes 2 Construction Capacity: 10 each
+    expect(analyzeProductionChain(config, prices).min_price_above_cost).toEqual([
+      { product: 'Construction Capacity', min_price: 15, unit_cost: 10, producer: 'Construction' },
+    ]);
+
+    const cheaper = structuredClone(config);
+    cheaper.products['Construction Capacity'].minPrice = 10;
+    expect(analyzeProductionChain(cheaper, prices).min_price_above_cost).toEqual([]);
+  });
+
+  it('finds items that feed back into themselves', () => {
+    const looped = structuredClone(config);
+    looped.products.Steel = { referenceValue: 140, minPrice: 14, displayOrder: 1 };
+    looped.sectors.Construction.units.retail = unit(
+      [{ type: 'product', name: 'Construction Capacity', rate: 1 }],
+      [{ type: 'product', name: 'Steel', rate: 1 }]
+    );
+    looped.sectors.Forestry.units.production = unit(
+      [{ type: 'product', name: 'Steel', rate: 1 }, { type: 'resource', name: 'Oil', rate: 1 }],
+      [{ type: 'resource', name: 'Oil', rate: 1 }]
+    );
+    looped.sectors.Forestry.units.service = unit(
+      [{ type: 'resource', name: 'Oil', rate: 1 }],
+      [{ type: 'resource', name: 'Lumber', rate: 1 }]
+    );
+
+    expect(analyzeProductionChain(looped, { ...prices, Steel: 140 }).cycles).toEqual([
+      ['Construction Capacity', 'Lumber', 'Oil', 'Steel'],
+    ]);
+  });
+
+  it('ignores disabled units', () => {
+    const idle = structuredClone(config);
+    idle.sectors.Construction.units.production.isEnabled = false;
+    const report = analyzeProductionChain(idle, prices);
+
+    expect(report.unconsumed_resources).toEqual(['Lumber', 'Oil']);
+    expect(report.min_price_above_cost).toEqual([]);
+  });
+});
@@ -0,0 +1,106 @@
+import { describe, it, expect } from 'vitest';
+import { diffSectorConfigs, toSnapshot, SectorConfigSnapshot } from '@/lib/constants/configRevisions';
+import { applySectorConfigDiff } from '@/lib/constants/configSimulation';
+import {
+  getGameTimeForQuarter,
+  getQuarterIndex,
+  getQuarterIndexForGameTime,
+  getQuarterStartDate,
+  MILLISECONDS_PER_QUARTER,
+} from '@/lib/utils/gameTime';
+import type { UnifiedSectorConfig } from '@/lib/models/SectorConfig';
+
+const unit = (outputs: Array<{ type: 'resource' | 'product'; name: string; rate: number }> = []) => ({
+  isEnabled: true,
+  baseRevenue: 0,
+  baseCost: 500,
+  laborCost: 0,
+  outputRate: null,
+  inputs: [],
+  outputs,
+});
+
+const config: UnifiedSectorConfig = {
+  version: '2026-10-19T00:00:00.000Z',
+  sectors: {
+    Forestry: {
+      displayOrder: 0,
+      isProductionOnly: false,
+      canExtract: true,
+      producedProduct: null,
+      primaryResource: 'Lumber',
+      units: {
+        retail: unit(),
+        production: unit(),
+        service: unit(),
+        extraction: unit([{ type: 'resource', name: 'Lumber', rate: 2 }]),
+      },
+    },
+  },
+  products: { 'Construction Capacity': { referenceValue: 100, minPrice: 10, displayOrder: 0 } },
+  resources: { Lumber: { basePrice: 40, displayOrder: 0 } },
+};
+
+describe('diffSectorConfigs', () => {
+  it('finds no changes between equal configurations whatever their version', () => {
+    expect(diffSectorConfigs(config, { ...toSnapshot(config) })).toEqual([]);
+    expect(toSnapshot(config)).not.toHaveProperty('version');
+  });
+
+  it('reports each changed field by path, with unit flow lists compared whole', () => {
+    const after = applySectorConfigDiff(config, {
+      resources: { Lumber: { basePrice: 55 } },
+      sectors: {
+        Forestry: {
+          units: {
+            extraction: { baseCost: 650, outputs: [{ type: 'resource', name: 'Lumber', rate: 3 }] },
+          },
+        },
+      },
+    });
+
+    expect(diffSectorConfigs(config, after)).toEqual([
+      { path: 'resources.Lumber.basePrice', before: 40, after: 55 },
+      { path: 'sectors.Forestry.units.extraction.baseCost', before: 500, after: 650 },
+      {
+        path: 'sectors.Forestry.units.extraction.outputs',
+        before: [{ type: 'resource', name: 'Lumber', rate: 2 }],
+        after: [{ type: 'resource', name: 'Lumber', rate: 3 }],
+      },
+    ]);
+  });
+
+  it('reports added and removed entries', () => {
+    const after: SectorConfigSnapshot = {
+      ...toSnapshot(config),
+      resources: { Oil: { basePrice: 75, displayOrder: 1 } },
+    };
+
+    expect(diffSectorConfigs(config, after)).toEqual([
+      { path: 'resources.Lumber', before: { basePrice: 40, displayOrder: 0 }, after: undefined },
+      { path: 'resources.Oil', before: undefined, after: { basePrice: 75, displayOrder: 1 } },
+    ]);
+  });
+});
+
+describe('getQuarterIndexForGameTime', () => {
+  it('counts quarters from 1930 Q1', () => {
+    expect(getQuarterIndexForGameTime({ year: 1930, quarter: 1 })).toBe(0);
+    expect(getQuarterIndexForGameTime({ year: 1930, quarter: 4 })).toBe(3);
+    expect(getQuarterIndexForGameTime({ year: 1932, quarter: 3 })).toBe(10);
+  });
+
+  it('is the inverse of getGameTimeForQuarter', () => {
+    for (const index of [0, 5, 17, 42]) {
+      expect(getQuarterIndexForGameTime(getGameTimeForQuarter(index))).toBe(index);
+    }
+  });
+
+  it('releases at the real-world start of the quarter', () => {
+    const start = new Date('2026-01-01T00:00:00Z');
+    const releaseAt = getQuarterStartDate(getQuarterIndexForGameTime({ year: 1931, quarter: 2 }), start);
+
+    expect(releaseAt.getTime() - start.getTime()).toBe(5 * MILLISECONDS_PER_QUARTER);
+    expect(getQuarterIndex(releaseAt, start)).toBe(5);
+  });
+});
@@ -0,0 +1,127 @@
+import { describe, it, expect } from 'vitest';
+import {
+  SimulationUnits,
+  applySectorConfigDiff,
+  calculateConfigMarket,
+  findUnknownDiffKeys,
+  simulateSectorConfig,
+} from '@/lib/constants/configSimulation';
+import type { UnifiedSectorConfig } from '@/lib/models/SectorConfig';
+
+type Flow = { type: 'resource' | 'product'; name: string; rate: number };
+
+const unit = (inputs: Flow[] = [], outputs: Flow[] = [], economics = { baseRevenue: 0, baseCost: 0 }) => ({
+  isEnabled: true,
+  ...economics,
+  laborCost: 0,
+  outputRate: null,
+  inputs,
+  outputs,
+});
+
+const sector = (units: Partial<UnifiedSectorConfig['sectors'][string]['units']>) => ({
+  displayOrder: 0,
+  isProductionOnly: false,
+  canExtract: false,
+  producedProduct: null,
+  primaryResource: null,
+  units: { retail: unit(), production: unit(), service: unit(), extraction: unit(), ...units },
+});
+
+// Forestry extracts 2 Lumber; Construction turns 0.5 Lumber into 1 Construction Capacity
+const config: UnifiedSectorConfig = {
+  version: 'test',
+  sectors: {
+    Forestry: sector({
+      extraction: unit([], [{ type: 'resource', name: 'Lumber', rate: 2 }], { baseRevenue: 0, baseCost: 700 }),
+    }),
+    Construction: sector({
+      production: unit(
+        [{ type: 'resource', name: 'Lumber', rate: 0.5 }],
+        [{ type: 'product', name: 'Construction Capacity', rate: 1 }]
+      ),
+    }),
+  },
+  products: { 'Construction Capacity': { referenceValue: 100, minPrice: 0, displayOrder: 0 } },
+  resources: { Lumber: { basePrice: 40, displayOrder: 0 } },
+};
+
+const row = (corporationId: number, sectorType: string, units: Partial<SimulationUnits>): SimulationUnits => ({
+  corporation_id: corporationId,
+  corporation_name: `Corp ${corporationId}`,
+  sector_type: sectorType,
+  retail_units: 0,
+  production_units: 0,
+  service_units: 0,
+  extraction_units: 0,
+  ...units,
+});
+
+const units = [
+  row(1, 'Forestry', { extraction_units: 1 }),
+  row(2, 'Construction', { production_units: 2 }),
+];
+
+describe('Config market', () => {
+  it('prices items by demand over supply from the configured flows', () => {
+    const market = calculateConfigMarket(config, units);
+    expect(market.supply.Lumber).toBe(2);
+    expect(market.demand.Lumber).toBe(1);
+    // 40 * 1/2
+    expect(market.prices.Lumber).toBe(20);
+    // No demand for Construction Capacity
+    expect(market.prices['Construction Capacity']).toBe(0);
+  });
+
+  it('applies a diff without touching the original configuration', () => {
+    const proposed = applySectorConfigDiff(config, {
+      resources: { Lumber: { basePrice: 80 } },
+      sectors: { Forestry: { units: { extraction: { outputs: [{ type: 'resource', name: 'Lumber', rate: 1 }] } } } },
+    });
+    expect(proposed.resources.Lumber.basePrice).toBe(80);
+    expect(proposed.sectors.Forestry.units.extraction.outputs[0].rate).toBe(1);
+    expect(config.resources.Lumber.basePrice).toBe(40);
+    expect(config.sectors.Forestry.units.extraction.outputs[0].rate).toBe(2);
+  });
+
+  it('reports names the configuration does not have', () => {
+    expect(findUnknownDiffKeys(config, {
+      sectors: { Mining: {}, Forestry: { units: { extraction: { outputs: [{ type: 'resource', name: 'Gold', rate: 1 }] } } } },
+      products: { Widgets: { referenceValue: 1 } },
+    })).toEqual(['sector Mining', 'resource Gold', 'product Widgets']);
+  });
+});
+
+describe('Config simulation', () => {
+  it('reports price moves and ranks corporations by the change in profit', () => {
+    // Halving extraction doubles Lumber scarcity
+    const result = simulateSectorConfig(config, {
+      sectors: { Forestry: { units: { extraction: { outputs: [{ type: 'resource', name: 'Lumber', rate: 1 }] } } } },
+    }, units);
+
+    const lumber = result.prices.find(price => price.item === 'Lumber')!;
+    expect(lumber.price_before).toBe(20);
+    expect(lumber.price_after).toBe(40);
+    expect(lumber.change_pct).toBeCloseTo(100, 6);
+    expect(result.prices[0].item).toBe('Lumber');
+
+    // The forester sells 1 Lumber an hour at 40 instead of 2 at 20: no change
+    const forester = result.corporations.find(c => c.corporation_id === 1)!;
+    expect(forester.profit_change).toBeCloseTo(0, 6);
+
+    // The builder pays twice as much for its Lumber
+    const builder = result.corporations.find(c => c.corporation_id === 2)!;
+    expect(builder.costs_after - builder.costs_before).toBeCloseTo(2 * 0.5 * 20 * result.period_hours, 6);
+    expect(result.losers.map(c => c.corporation_id)).toEqual([2]);
+    expect(result.winners).toEqual([]);
+  });
+
+  it('flags changed fields it cannot model', () => {
+    const result = simulateSectorConfig(config, {
+      sectors: { Forestry: { units: { extraction: { laborCost: 900 } } } },
+      products: { 'Construction Capacity': { minPrice: 5 } },
+    }, units);
+    expect(result.unmodelled).toEqual(['Forestry extraction labor cost', 'Construction Capacity minimum price']);
+    expect(result.corporations.every(c => c.profit_change === 0)).toBe(true);
+  });
+});
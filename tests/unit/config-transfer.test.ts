@@ -0,0 +1,115 @@
+import { describe, it, expect } from 'vitest';
+import { parseCsvRows, parseSectorConfigCsv, sectorConfigToCsv } from '@/lib/constants/configTransfer';
+import { SectorConfigSnapshot } from '@/lib/constants/configRevisions';
+import { SectorConfigSnapshotSchema } from '@/lib/validations/sector-config';
+import { validateProductionGraph } from '@/lib/productionChain';
+
+type Flow = { type: 'resource' | 'product'; name: string; rate: number };
+
+const unit = (inputs: Flow[] = [], outputs: Flow[] = [], isEnabled = true) => ({
+  isEnabled,
+  baseRevenue: 0,
+  baseCost: 500,
+  laborCost: 25,
+  outputRate: null,
+  inputs,
+  outputs,
+});
+
+const sector = (displayOrder: number, units: Partial<SectorConfigSnapshot['sectors'][string]['units']>, extra = {}) => ({
+  displayOrder,
+  isProductionOnly: false,
+  canExtract: false,
+  producedProduct: null,
+  primaryResource: null,
+  units: { production: unit(), retail: unit(), service: unit(), extraction: unit(), ...units },
+  ...extra,
+});
+
+// Forestry extracts Lumber; Construction turns Lumber into Construction Capacity
+const config: SectorConfigSnapshot = {
+  sectors: {
+    Forestry: sector(1, {
+      extraction: unit([], [{ type: 'resource', name: 'Lumber', rate: 2 }]),
+    }, { canExtract: true }),
+    Construction: sector(2, {
+      production: unit(
+        [{ type: 'resource', name: 'Lumber', rate: 0.5 }],
+        [{ type: 'product', name: 'Construction Capacity', rate: 1 }]
+      ),
+    }, { isProductionOnly: true, producedProduct: 'Construction Capacity' }),
+  },
+  products: { 'Construction Capacity': { referenceValue: 100, minPrice: 10, displayOrder: 0 } },
+  resources: { Lumber: { basePrice: 40, displayOrder: 0 } },
+};
+
+describe('sector config CSV', () => {
+  it('round-trips a configuration', () => {
+    const { config: parsed, errors } = parseSectorConfigCsv(sectorConfigToCsv(config));
+
+    expect(errors).toEqual([]);
+    expect(SectorConfigSnapshotSchema.parse(parsed)).toEqual(config);
+  });
+
+  it('reads quoted cells and Windows line endings', () => {
+    expect(parseCsvRows('a,"b, ""c""",d\r\n\r\n1,2,3\r\n')).toEqual([
+      ['a', 'b, "c"', 'd'],
+      ['1', '2', '3'],
+    ]);
+  });
+
+  it('reports bad rows by line', () => {
+    const csv = [
+      'section,sector,unit_type,item_type,item,field,value',
+      'unit,Forestry,factory,,,baseCost,700',
+      'resource,,,,Lumber,basePrice,cheap',
+      'input,Construction,production,gadget,Lumber,rate,1',
+      'warehouse,,,,,size,1',
+    ].join('\n');
+
+    expect(parseSectorConfigCsv(csv).errors).toEqual([
+      'Line 2: unknown unit type "factory"',
+      'Line 3: basePrice "cheap" is not a number',
+      'Line 4: item type must be resource or product',
+      'Line 5: unknown section "warehouse"',
+    ]);
+  });
+
+  it('rejects a file without the expected header', () => {
+    expect(parseSectorConfigCsv('sector,field,value\n').errors).toHaveLength(1);
+  });
+
+  it('leaves missing fields to schema validation', () => {
+    const withoutCost = sectorConfigToCsv(config).replace(/^unit,Forestry,extraction,,,baseCost,500\n/m, '');
+    const { config: parsed, errors } = parseSectorConfigCsv(withoutCost);
+
+    expect(errors).toEqual([]);
+    expect(SectorConfigSnapshotSchema.safeParse(parsed).success).toBe(false);
+  });
+});
+
+describe('validateProductionGraph', () => {
+  it('accepts a connected graph', () => {
+    expect(validateProductionGraph(config)).toEqual([]);
+  });
+
+  it('reports inputs nothing produces', () => {
+    const orphan = structuredClone(config);
+    orphan.sectors.Forestry.units.extraction.isEnabled = false;
+
+    expect(validateProductionGraph(orphan)).toEqual([
+      'Construction production consumes Lumber, which nothing produces',
+    ]);
+  });
+
+  it('reports products without producers and unknown items', () => {
+    const broken = structuredClone(config);
+    broken.sectors.Construction.producedProduct = null;
+    broken.sectors.Construction.units.production.outputs = [{ type: 'product', name: 'Concrete', rate: 1 }];
+
+    expect(validateProductionGraph(broken)).toEqual([
+      'Construction production outputs unknown product Concrete',
+      'No sector produces Construction Capacity',
+    ]);
+  });
+});
@@ -0,0 +1,54 @@
+import { describe, it, expect } from 'vitest';
+import { SUPPLY_CONTRACT_CONFIG, settleContractHour } from '@/lib/constants/contracts';
+
+const terms = { units_per_hour: 10, price_per_unit: 50, shipping_cost_pct: 0 };
+
+describe('Supply contract settlement', () => {
+  it('delivers the full amount at the contract price when both sides can perform', () => {
+    const hour = settleContractHour({ ...terms, supplier_stock: 25, buyer_capital: 10000, supplier_capital: 0 });
+
+    expect(hour).toEqual({ units_delivered: 10, units_short: 0, units_unpaid: 0, payment: 500, shipping_cost: 0, penalty: 0 });
+  });
+
+  it('penalises the supplier for units it had no stock for', () => {
+    const hour = settleContractHour({ ...terms, supplier_stock: 4, buyer_capital: 10000, supplier_capital: 10000 });
+
+    expect(hour.units_delivered).toBe(4);
+    expect(hour.units_short).toBe(6);
+    expect(hour.payment).toBe(200);
+    expect(hour.penalty).toBe(6 * 50 * SUPPLY_CONTRACT_CONFIG.SHORTFALL_PENALTY_PCT / 100);
+  });
+
+  it('ships only what the buyer can pay for, without a penalty', () => {
+    const hour = settleContractHour({ ...terms, supplier_stock: 10, buyer_capital: 125, supplier_capital: 0 });
+
+    expect(hour.units_delivered).toBe(2.5);
+    expect(hour.units_unpaid).toBe(7.5);
+    expect(hour.units_short).toBe(0);
+    expect(hour.payment).toBe(125);
+    expect(hour.penalty).toBe(0);
+  });
+
+  it('never charges the buyer more than it holds', () => {
+    const hour = settleContractHour({ units_per_hour: 1, price_per_unit: 3, supplier_stock: 1, buyer_capital: 1, supplier_capital: 0, shipping_cost_pct: 0 });
+
+    expect(hour.payment).toBeLessThanOrEqual(1);
+    expect(hour.units_delivered * 3).toBeLessThanOrEqual(1);
+  });
+
+  it('caps the penalty at the supplier\'s capital after this hour\'s payment', () => {
+    const hour = settleContractHour({ ...terms, supplier_stock: 2, buyer_capital: 10000, supplier_capital: 30 });
+
+    // 8 units short would cost 200; the supplier has 30 plus the 100 it was just paid
+    expect(hour.payment).toBe(100);
+    expect(hour.penalty).toBe(130);
+  });
+
+  it('has the supplier pay shipping out of the payment, before any penalty', () => {
+    const hour = settleContractHour({ ...terms, supplier_stock: 2, buyer_capital: 10000, supplier_capital: 30, shipping_cost_pct: 10 });
+
+    // Shipping the 2 units costs 10 of the 100 paid for them
+    expect(hour.shipping_cost).toBe(10);
+    expect(hour.penalty).toBe(120);
+  });
+});
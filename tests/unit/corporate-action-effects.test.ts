@@ -0,0 +1,59 @@
+import { describe, it, expect } from 'vitest';
+import { ActiveActionEffects, calculateActionCost, getUnitEconomicsModifier } from '@/lib/constants/corporateActions';
+
+const allUnits = (type: 'revenue_multiplier' | 'cost_reduction' | 'capacity_increase', value: number): ActiveActionEffects => ({
+  state_code: null,
+  effects: [{ type, value, unit_types: null, scope: 'corporation' }],
+});
+
+describe('Corporate action effects', () => {
+  it('leaves economics unchanged without active actions', () => {
+    expect(getUnitEconomicsModifier([], 'retail', 'CA')).toEqual({ revenueMultiplier: 1, costMultiplier: 1 });
+  });
+
+  it('scales revenue and costs with capacity, so profit scales too', () => {
+    const mod = getUnitEconomicsModifier([allUnits('capacity_increase', 0.1)], 'production', 'CA');
+    expect(mod.revenueMultiplier).toBeCloseTo(1.1);
+    expect(mod.costMultiplier).toBeCloseTo(1.1);
+  });
+
+  it('adds up effects of the same type across actions', () => {
+    const mod = getUnitEconomicsModifier(
+      [allUnits('capacity_increase', 0.1), allUnits('capacity_increase', 0.1)],
+      'retail',
+      'CA'
+    );
+    expect(mod.revenueMultiplier).toBeCloseTo(1.2);
+  });
+
+  it('applies revenue and cost effects on top of capacity', () => {
+    const mod = getUnitEconomicsModifier(
+      [allUnits('capacity_increase', 0.1), allUnits('revenue_multiplier', 0.2), allUnits('cost_reduction', 0.5)],
+      'service',
+      'CA'
+    );
+    expect(mod.revenueMultiplier).toBeCloseTo(1.1 * 1.2);
+    expect(mod.costMultiplier).toBeCloseTo(1.1 * 0.5);
+  });
+
+  it('never reduces costs below zero', () => {
+    const mod = getUnitEconomicsModifier([allUnits('cost_reduction', 0.8), allUnits('cost_reduction', 0.8)], 'retail', 'CA');
+    expect(mod.costMultiplier).toBe(0);
+  });
+
+  it('only applies effects to their unit types and state', () => {
+    const promotion: ActiveActionEffects = {
+      state_code: 'CA',
+      effects: [{ type: 'revenue_multiplier', value: 0.25, unit_types: ['retail', 'service'], scope: 'state' }],
+    };
+
+    expect(getUnitEconomicsModifier([promotion], 'retail', 'CA').revenueMultiplier).toBeCloseTo(1.25);
+    expect(getUnitEconomicsModifier([promotion], 'retail', 'TX').revenueMultiplier).toBe(1);
+    expect(getUnitEconomicsModifier([promotion], 'production', 'CA').revenueMultiplier).toBe(1);
+  });
+
+  it('prices an action from its base cost and market cap', () => {
+    expect(calculateActionCost({ base_cost: 500000, market_cap_cost_pct: 1 }, 5000000)).toBe(550000);
+    expect(calculateActionCost({ base_cost: 250000, market_cap_cost_pct: 0.25 }, 0)).toBe(250000);
+  });
+});
@@ -137,12 +137,14 @@ describe('GET /api/corporation/list', () => {
 
     expect(corporationsCollection.countDocuments).toHaveBeenCalledTimes(1);
     expect(corporationsCollection.countDocuments).toHaveBeenCalledWith({
+      retired_at: null,
       type: 'Energy',
       name: { $regex: 'Alpha', $options: 'i' },
       ceo_id: { $in: [10, 11] },
     });
     expect(corporationsCollection.find).toHaveBeenCalledTimes(1);
     expect(corporationsCollection.find).toHaveBeenCalledWith({
+      retired_at: null,
       type: 'Energy',
       name: { $regex: 'Alpha', $options: 'i' },
       ceo_id: { $in: [10, 11] },
@@ -0,0 +1,31 @@
+import { describe, it, expect } from 'vitest';
+import { getTickTime, CronJobDefinition, CRON_RUNNER_CONFIG } from '@/lib/cron/runner';
+
+const { HOUR_MS, MINUTE_MS } = CRON_RUNNER_CONFIG;
+
+function job(intervalMs: number, offsetMs: number): CronJobDefinition {
+  return { name: 'test', label: 'Test', schedule: '', intervalMs, offsetMs, backfill: false, run: async () => {} };
+}
+
+describe('Cron tick time', () => {
+  const hourlyAt30 = job(HOUR_MS, 30 * MINUTE_MS);
+
+  it('maps a firing to its scheduled tick', () => {
+    expect(getTickTime(hourlyAt30, new Date('2026-01-01T10:30:00Z')).toISOString()).toBe('2026-01-01T10:30:00.000Z');
+    expect(getTickTime(hourlyAt30, new Date('2026-01-01T10:30:05Z')).toISOString()).toBe('2026-01-01T10:30:00.000Z');
+  });
+
+  it('maps times before the offset to the previous tick', () => {
+    expect(getTickTime(hourlyAt30, new Date('2026-01-01T11:15:00Z')).toISOString()).toBe('2026-01-01T10:30:00.000Z');
+  });
+
+  it('tolerates a scheduler firing slightly early', () => {
+    expect(getTickTime(hourlyAt30, new Date('2026-01-01T10:29:59Z')).toISOString()).toBe('2026-01-01T10:30:00.000Z');
+  });
+
+  it('handles daily jobs', () => {
+    const dailyAtNoon = job(24 * HOUR_MS, 12 * HOUR_MS);
+    expect(getTickTime(dailyAtNoon, new Date('2026-01-02T09:00:00Z')).toISOString()).toBe('2026-01-01T12:00:00.000Z');
+    expect(getTickTime(dailyAtNoon, new Date('2026-01-02T12:00:00Z')).toISOString()).toBe('2026-01-02T12:00:00.000Z');
+  });
+});
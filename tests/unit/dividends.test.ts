@@ -0,0 +1,18 @@
+import { describe, it, expect } from 'vitest';
+import { calculateDividendPerShare } from '@/lib/constants/dividends';
+
+describe('Dividend per share', () => {
+  it('pays the policy percentage of earnings across all shares', () => {
+    expect(calculateDividendPerShare(20000, 50, 1000)).toBe(10);
+  });
+
+  it('rounds down to whole cents', () => {
+    expect(calculateDividendPerShare(1000, 10, 3000)).toBe(0.03);
+  });
+
+  it('pays nothing on losses, a zero policy or no shares', () => {
+    expect(calculateDividendPerShare(-5000, 50, 1000)).toBe(0);
+    expect(calculateDividendPerShare(20000, 0, 1000)).toBe(0);
+    expect(calculateDividendPerShare(20000, 50, 0)).toBe(0);
+  });
+});
@@ -0,0 +1,55 @@
+import { describe, it, expect } from 'vitest';
+import { StreamEvent, eventMatches, formatSseMessage, parseSseMessages } from '@/lib/constants/events';
+import { EventStreamQuerySchema } from '@/lib/validations/events';
+
+const at = '2026-10-19T12:00:00.000Z';
+const tick: StreamEvent = { type: 'price_tick', corporation_id: 3, share_price: 12.5, at };
+const trade: StreamEvent = {
+  type: 'share_trade', corporation_id: 3, user_id: 7, transaction_type: 'buy', shares: 10, price_per_share: 12.5, at,
+};
+const message: StreamEvent = { type: 'message_received', user_id: 7, message_id: 1, sender_id: 2, at };
+const cron: StreamEvent = { type: 'cron_completed', job: 'actions', run_id: 4, status: 'succeeded', at };
+
+describe('eventMatches', () => {
+  it('delivers corporation events to subscribers of the corporation', () => {
+    expect(eventMatches(tick, { user_id: null, corporation_ids: null })).toBe(true);
+    expect(eventMatches(tick, { user_id: null, corporation_ids: [3, 5] })).toBe(true);
+    expect(eventMatches(tick, { user_id: null, corporation_ids: [5] })).toBe(false);
+    expect(eventMatches(tick, { user_id: null, corporation_ids: [] })).toBe(false);
+  });
+
+  it('delivers a user their own events whatever corporations they follow', () => {
+    expect(eventMatches(trade, { user_id: 7, corporation_ids: [] })).toBe(true);
+    expect(eventMatches(message, { user_id: 7, corporation_ids: [] })).toBe(true);
+    expect(eventMatches(message, { user_id: 8, corporation_ids: null })).toBe(false);
+    expect(eventMatches(message, { user_id: null, corporation_ids: null })).toBe(false);
+  });
+
+  it('delivers cron completions to everyone', () => {
+    expect(eventMatches(cron, { user_id: null, corporation_ids: [] })).toBe(true);
+  });
+});
+
+describe('server-sent event encoding', () => {
+  it('parses complete messages and keeps the unfinished remainder', () => {
+    const stream = `: connected\n\n${formatSseMessage(tick)}${formatSseMessage(message)}`;
+    const cut = stream.length - 5;
+
+    const first = parseSseMessages(stream.slice(0, cut));
+    expect(first.data.map(data => JSON.parse(data))).toEqual([tick]);
+
+    const second = parseSseMessages(first.rest + stream.slice(cut) + ': heartbeat\n\n');
+    expect(second.data.map(data => JSON.parse(data))).toEqual([message]);
+    expect(second.rest).toBe('');
+  });
+});
+
+describe('EventStreamQuerySchema', () => {
+  it('parses a list of corporations', () => {
+    expect(EventStreamQuerySchema.parse({ corporations: '3,7,3' })).toEqual({ corporations: [3, 7] });
+    expect(EventStreamQuerySchema.parse({ corporations: '' })).toEqual({ corporations: [] });
+    expect(EventStreamQuerySchema.parse({})).toEqual({});
+    expect(EventStreamQuerySchema.safeParse({ corporations: '3,x' }).success).toBe(false);
+    expect(EventStreamQuerySchema.safeParse({ corporations: '0' }).success).toBe(false);
+  });
+});
@@ -262,6 +262,32 @@ describe('Financial Calculation Logic', () => {
     expect(result.sectors[0].unitBreakdown.service.demandedUnits).toBe(20);
   });
 
+  it('should cost goods sold from actual stock when inventory activity is given', () => {
+    const base = {
+      entries: [{ sector_type: 'Manufacturing', production_count: 1 }],
+      sectorUnitFlows,
+      commodityPrices,
+      productPrices,
+      unitEconomics,
+      periodHours: 10,
+      fixedCosts: { ceoSalary: 0, overhead: 0 },
+    };
+
+    const notional = computeFinancialStatements(base);
+    expect(notional.inventoryChange).toBe(0);
+    expect(notional.costOfGoodsSold).toBeCloseTo(notional.sectors[0].inputCosts, 6);
+
+    const actual = computeFinancialStatements({
+      ...base,
+      inventory: { openingValue: 1000, closingValue: 400, purchases: 200 },
+    });
+
+    expect(actual.costOfGoodsSold).toBe(800);
+    expect(actual.inventoryChange).toBe(-600);
+    expect(actual.revenue).toBeCloseTo(notional.revenue, 6);
+    expect(actual.variableCosts).toBeCloseTo(notional.variableCosts - notional.costOfGoodsSold + 800, 6);
+  });
+
   it('should use base economics when production has no declared output product', () => {
     const flows: Record<string, Record<MarketUnitType, MarketUnitFlow>> = {
       ...sectorUnitFlows,
@@ -0,0 +1,155 @@
+import { describe, it, expect } from 'vitest';
+import { CycleEntry, INVENTORY_CONFIG, simulateProductionCycle } from '@/lib/constants/inventory';
+
+const prices = {
+  commodityPrices: { Lumber: 10 },
+  productPrices: { Electricity: 20, 'Manufactured Goods': 100 },
+};
+
+const entry = (corporationId: number, sector: string, units: Partial<CycleEntry['units']>): CycleEntry => ({
+  corporation_id: corporationId,
+  state_code: 'CA',
+  sector_type: sector,
+  units: { retail: 0, production: 0, service: 0, extraction: 0, ...units },
+});
+
+describe('Hourly production cycle', () => {
+  it('runs consuming units from their own stock and charges what they use at cost', () => {
+    const outcome = simulateProductionCycle({
+      entries: [entry(1, 'Retail', { retail: 1 })],
+      inventories: [{ corporation_id: 1, state_code: 'CA', item: 'Manufactured Goods', quantity: 10, value: 500 }],
+      stockpiles: {},
+      prices,
+    });
+
+    const result = outcome.corporations[0];
+    expect(result.unit_hours.retail).toEqual({ scheduled: 1, operated: 1 });
+    expect(result.purchases).toBe(0);
+    expect(result.cost_of_goods_sold).toBeCloseTo(100, 6);
+    expect(result.closing_value).toBeCloseTo(400, 6);
+    expect(outcome.inventoryChanges).toEqual([
+      expect.objectContaining({ item: 'Manufactured Goods', quantity: -2, value: -100 }),
+    ]);
+  });
+
+  it('idles units for the part of their inputs neither the market nor imports can supply', () => {
+    const outcome = simulateProductionCycle({
+      entries: [entry(1, 'Retail', { retail: 2 })],
+      inventories: [],
+      stockpiles: {},
+      prices,
+    });
+
+    const result = outcome.corporations[0];
+    // With an empty stockpile only the import share of the 4 units needed arrives
+    expect(result.unit_hours.retail.operated).toBeCloseTo(2 * INVENTORY_CONFIG.IMPORT_SHARE, 6);
+    // 2 units imported at a premium, bought at the retail wholesale discount
+    expect(result.purchases).toBeCloseTo(2 * 100 * (1 + INVENTORY_CONFIG.IMPORT_PREMIUM) * 0.9, 6);
+    expect(result.cash_flow).toBeCloseTo(result.revenue - result.labor_cost - result.purchases, 6);
+  });
+
+  it('rations a short stockpile pro rata between buyers', () => {
+    const outcome = simulateProductionCycle({
+      entries: [entry(1, 'Retail', { retail: 1 }), entry(2, 'Retail', { retail: 1 })],
+      inventories: [],
+      stockpiles: { 'Manufactured Goods': 2 },
+      prices,
+    });
+
+    // 4 needed, 2 in stock, half the remaining 2 imported
+    for (const result of outcome.corporations) {
+      expect(result.unit_hours.retail.operated).toBeCloseTo(0.75, 6);
+    }
+    expect(outcome.stockpileChanges['Manufactured Goods']).toBe(-2);
+  });
+
+  it('stocks extraction output at input cost and sells the surplus into the stockpile', () => {
+    const outcome = simulateProductionCycle({
+      entries: [entry(1, 'Forestry', { extraction: 1 })],
+      inventories: [{ corporation_id: 1, state_code: 'CA', item: 'Electricity', quantity: 1, value: 20 }],
+      stockpiles: {},
+      prices,
+    });
+
+    const result = outcome.corporations[0];
+    expect(result.unit_hours.extraction.operated).toBe(1);
+    // 2 Lumber extracted; with no own use for it, all of it is sold
+    expect(result.wholesale_revenue).toBeCloseTo(2 * 10, 6);
+    expect(outcome.stockpileChanges.Lumber).toBe(2);
+    // Opening 20 + purchases 0 - closing 15 (0.75 Electricity left)
+    expect(result.cost_of_goods_sold).toBeCloseTo(5, 6);
+    expect(result.operating_income).toBeCloseTo(result.revenue - result.labor_cost - 5, 6);
+  });
+
+  it('keeps a reserve of output the corporation consumes itself in that state', () => {
+    const outcome = simulateProductionCycle({
+      entries: [entry(1, 'Forestry', { extraction: 1 }), entry(1, 'Construction', { production: 1 })],
+      inventories: [{ corporation_id: 1, state_code: 'CA', item: 'Electricity', quantity: 10, value: 200 }],
+      stockpiles: {},
+      prices,
+    });
+
+    // Construction uses 0.5 Lumber an hour, so the 2 extracted stay within the reserve
+    expect(outcome.stockpileChanges.Lumber).toBeUndefined();
+    const lumber = outcome.inventoryChanges.find(change => change.item === 'Lumber');
+    expect(lumber?.quantity).toBeGreaterThan(0);
+  });
+
+  it('holds contracted deliveries in reserve and sells only the rest', () => {
+    const outcome = simulateProductionCycle({
+      entries: [entry(1, 'Forestry', { extraction: 1 })],
+      inventories: [{ corporation_id: 1, state_code: 'CA', item: 'Electricity', quantity: 1, value: 20 }],
+      stockpiles: {},
+      prices,
+      commitments: [{ corporation_id: 1, state_code: 'CA', item: 'Lumber', quantity: 0.25 }],
+    });
+
+    // 2 Lumber extracted, RESERVE_HOURS of the 0.25/hour owed are kept
+    const reserve = 0.25 * INVENTORY_CONFIG.RESERVE_HOURS;
+    expect(outcome.stockpileChanges.Lumber).toBeCloseTo(2 - reserve, 6);
+    const lumber = outcome.inventoryChanges.find(change => change.item === 'Lumber');
+    expect(lumber?.quantity).toBeCloseTo(reserve, 6);
+  });
+
+  it('buys and sells at the local price and reports the shipping paid', () => {
+    const outcome = simulateProductionCycle({
+      entries: [entry(1, 'Retail', { retail: 1 }), entry(2, 'Forestry', { extraction: 1 })],
+      inventories: [{ corporation_id: 2, state_code: 'CA', item: 'Electricity', quantity: 1, value: 20 }],
+      stockpiles: { 'Manufactured Goods': 10 },
+      prices,
+      localPrices: { CA: { 'Manufactured Goods': 110, Lumber: 9 } },
+    });
+
+    const retailer = outcome.corporations.find(result => result.corporation_id === 1)!;
+    // 2 units from the stockpile at the local price, at the retail wholesale discount
+    expect(retailer.purchases).toBeCloseTo(2 * 110 * 0.9, 6);
+    expect(retailer.logistics_cost).toBeCloseTo(2 * 10 * 0.9, 6);
+
+    const extractor = outcome.corporations.find(result => result.corporation_id === 2)!;
+    expect(extractor.wholesale_revenue).toBeCloseTo(2 * 9, 6);
+    expect(extractor.logistics_cost).toBe(0);
+  });
+
+  it('cuts extraction as a state reserve runs down and never takes more than is left', () => {
+    const run = (remaining: number, capacity = 1000) => simulateProductionCycle({
+      entries: [entry(1, 'Forestry', { extraction: 1 })],
+      inventories: [{ corporation_id: 1, state_code: 'CA', item: 'Electricity', quantity: 1, value: 20 }],
+      stockpiles: {},
+      prices,
+      reserves: [{ state_code: 'CA', resource: 'Lumber', remaining, capacity }],
+    });
+
+    // Full yield above half capacity: 2 Lumber extracted and drawn from the reserve
+    expect(run(800).reserveDepletion).toEqual([{ state_code: 'CA', resource: 'Lumber', quantity: 2 }]);
+
+    // A quarter left yields 55% of normal output
+    expect(run(250).reserveDepletion[0].quantity).toBeCloseTo(2 * 0.55, 6);
+
+    // A small pool at full yield: output is capped at the 1.5 that remain
+    const small = run(1.5, 2);
+    expect(small.reserveDepletion[0].quantity).toBeCloseTo(1.5, 6);
+    expect(small.stockpileChanges.Lumber).toBeCloseTo(1.5, 6);
+
+    expect(run(0).reserveDepletion).toEqual([]);
+  });
+});
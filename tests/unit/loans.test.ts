@@ -0,0 +1,47 @@
+import { describe, it, expect } from 'vitest';
+import {
+  LOAN_CONFIG,
+  quoteInterestRate,
+  getHourlyInterestRate,
+  calculateHourlyPayment,
+} from '@/lib/constants/loans';
+
+describe('Loan amortization math', () => {
+  it('quotes the base rate for debt-free borrowers and adds a leverage premium', () => {
+    expect(quoteInterestRate(0)).toBe(LOAN_CONFIG.BASE_INTEREST_RATE);
+    expect(quoteInterestRate(0.5)).toBe(LOAN_CONFIG.BASE_INTEREST_RATE + LOAN_CONFIG.LEVERAGE_RATE_PREMIUM / 2);
+    expect(quoteInterestRate(5)).toBe(LOAN_CONFIG.BASE_INTEREST_RATE + LOAN_CONFIG.LEVERAGE_RATE_PREMIUM);
+  });
+
+  it('converts annual rates to hourly rates over a 96-hour game year', () => {
+    expect(getHourlyInterestRate(9.6)).toBeCloseTo(0.001, 10);
+  });
+
+  it('splits principal evenly when the rate is zero', () => {
+    expect(calculateHourlyPayment(9600, 0, 96)).toBe(100);
+  });
+
+  it('returns zero for empty loans', () => {
+    expect(calculateHourlyPayment(0, 10, 96)).toBe(0);
+    expect(calculateHourlyPayment(1000, 10, 0)).toBe(0);
+  });
+
+  it('fully amortizes the principal over the term', () => {
+    const principal = 100000;
+    const rate = 12;
+    const termHours = 24 * LOAN_CONFIG.HOURS_PER_GAME_MONTH;
+    const payment = calculateHourlyPayment(principal, rate, termHours);
+    const hourlyRate = getHourlyInterestRate(rate);
+
+    let balance = principal;
+    let interestPaid = 0;
+    for (let hour = 0; hour < termHours; hour++) {
+      const interest = balance * hourlyRate;
+      interestPaid += interest;
+      balance -= payment - interest;
+    }
+
+    expect(Math.abs(balance)).toBeLessThan(LOAN_CONFIG.PAID_OFF_THRESHOLD);
+    expect(payment * termHours).toBeCloseTo(principal + interestPaid, 4);
+  });
+});
@@ -0,0 +1,83 @@
+import { describe, it, expect } from 'vitest';
+import {
+  LOGISTICS_CONFIG,
+  calculateLocalPrice,
+  calculateLocalPrices,
+  getRegionHops,
+  getShippingCostPct,
+  getStateDeliveryHops,
+} from '@/lib/constants/logistics';
+
+describe('Region distances', () => {
+  it('counts region boundaries crossed on the shortest route', () => {
+    expect(getRegionHops('South', 'South')).toBe(0);
+    expect(getRegionHops('South', 'West')).toBe(1);
+    expect(getRegionHops('Northeast', 'West')).toBe(2);
+    expect(getRegionHops('West', 'Northeast')).toBe(2);
+  });
+
+  it('makes delivery cheaper into large states and dearer into remote ones', () => {
+    expect(getStateDeliveryHops('CA')).toBeLessThan(getStateDeliveryHops('WY'));
+    expect(getStateDeliveryHops('AK')).toBeGreaterThan(LOGISTICS_CONFIG.REMOTE_EXTRA_HOPS);
+  });
+
+  it('charges shipping between states by region boundaries and delivery', () => {
+    expect(getShippingCostPct('TX', 'TX')).toBe(0);
+    expect(getShippingCostPct('TX', 'FL')).toBeCloseTo(getStateDeliveryHops('FL') * LOGISTICS_CONFIG.COST_PER_HOP_PCT);
+    expect(getShippingCostPct('CA', 'NY')).toBeCloseTo((2 + getStateDeliveryHops('NY')) * LOGISTICS_CONFIG.COST_PER_HOP_PCT);
+  });
+});
+
+describe('Local prices', () => {
+  it('matches the national price when every region balances its own supply and demand', () => {
+    const balances = {
+      Northeast: { supply: 10, demand: 10 },
+      South: { supply: 20, demand: 20 },
+    };
+
+    expect(calculateLocalPrice(50, 'NY', balances)).toBe(50);
+    expect(calculateLocalPrice(50, 'TX', balances)).toBe(50);
+  });
+
+  it('charges importing regions shipping and discounts exporting ones', () => {
+    // The South extracts everything; the Northeast and West consume it
+    const balances = {
+      South: { supply: 100, demand: 0 },
+      Northeast: { supply: 0, demand: 50 },
+      West: { supply: 0, demand: 50 },
+    };
+
+    const importer = calculateLocalPrice(100, 'NY', balances);
+    const exporter = calculateLocalPrice(100, 'TX', balances);
+    expect(importer).toBeGreaterThan(100);
+    expect(exporter).toBeLessThan(100);
+
+    // Fully imported from one region away, plus delivery into the state
+    const hops = 1 + getStateDeliveryHops('NY');
+    expect(importer).toBeCloseTo(100 * (1 + hops * LOGISTICS_CONFIG.COST_PER_HOP_PCT / 100), 2);
+  });
+
+  it('charges more to regions further from the surplus', () => {
+    const balances = {
+      West: { supply: 100, demand: 0 },
+      Midwest: { supply: 0, demand: 50 },
+      Northeast: { supply: 0, demand: 50 },
+    };
+
+    // Same population multiplier, so the same delivery leg
+    expect(calculateLocalPrice(100, 'PA', balances)).toBeGreaterThan(calculateLocalPrice(100, 'IL', balances));
+  });
+
+  it('prices every item in every state', () => {
+    const prices = calculateLocalPrices(
+      { Oil: 50, Steel: 200 },
+      { Oil: { South: { supply: 10, demand: 0 }, West: { supply: 0, demand: 10 } } },
+      ['TX', 'CA']
+    );
+
+    expect(prices.TX.Oil).toBeLessThan(50);
+    expect(prices.CA.Oil).toBeGreaterThan(50);
+    // No regional activity at all leaves the national price
+    expect(prices.TX.Steel).toBe(200);
+  });
+});
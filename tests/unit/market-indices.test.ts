@@ -0,0 +1,75 @@
+import { describe, it, expect } from 'vitest';
+import {
+  MARKET_INDEX_CONFIG,
+  getBenchmarkIndexKey,
+  getCapWeightedConstituents,
+  getEqualWeightedConstituents,
+  getMarketIndexName,
+  getNextIndexLevel,
+  getRelativePerformance,
+  isMarketIndexKey,
+} from '@/lib/constants/marketIndices';
+
+describe('index keys', () => {
+  it('recognizes the market, commodity and sector indices', () => {
+    expect(isMarketIndexKey('market')).toBe(true);
+    expect(isMarketIndexKey('commodities')).toBe(true);
+    expect(isMarketIndexKey('sector:Light Industry')).toBe(true);
+    expect(isMarketIndexKey('sector:Alchemy')).toBe(false);
+    expect(getMarketIndexName('sector:Technology')).toBe('Technology Sector Index');
+  });
+
+  it('benchmarks corporations against their sector, or the market without one', () => {
+    expect(getBenchmarkIndexKey('Energy')).toBe('sector:Energy');
+    expect(getBenchmarkIndexKey(null)).toBe('market');
+    expect(getBenchmarkIndexKey('Unknown')).toBe('market');
+  });
+});
+
+describe('getNextIndexLevel', () => {
+  const corporations = [
+    { id: 1, share_price: 10, shares: 1000 },
+    { id: 2, share_price: 50, shares: 200 },
+  ];
+
+  it('starts at the base level', () => {
+    expect(getNextIndexLevel(null, getCapWeightedConstituents(corporations))).toBe(MARKET_INDEX_CONFIG.BASE_LEVEL);
+  });
+
+  it('moves with market cap', () => {
+    const previous = { level: 1000, constituents: getCapWeightedConstituents(corporations) };
+    // Caps 10,000 and 10,000; the first doubles
+    const next = getCapWeightedConstituents([{ id: 1, share_price: 20, shares: 1000 }, corporations[1]]);
+    expect(getNextIndexLevel(previous, next)).toBeCloseTo(1500);
+  });
+
+  it('is not moved by listings, delistings or share issuance', () => {
+    const previous = { level: 1200, constituents: getCapWeightedConstituents(corporations) };
+    const next = getCapWeightedConstituents([
+      { id: 1, share_price: 10, shares: 5000 },
+      { id: 3, share_price: 80, shares: 1000 },
+    ]);
+    expect(getNextIndexLevel(previous, next)).toBeCloseTo(1200);
+  });
+
+  it('weighs every basket item equally', () => {
+    const previous = { level: 1000, constituents: getEqualWeightedConstituents({ Oil: 100, Coal: 5 }) };
+    const next = getEqualWeightedConstituents({ Oil: 110, Coal: 4.5 });
+    // +10% and -10%
+    expect(getNextIndexLevel(previous, next)).toBeCloseTo(1000);
+  });
+
+  it('skips corporations without a price', () => {
+    expect(getCapWeightedConstituents([{ id: 4, share_price: 0, shares: 100 }])).toEqual([]);
+  });
+});
+
+describe('getRelativePerformance', () => {
+  it('compares growth against the benchmark', () => {
+    expect(getRelativePerformance(10, 10)).toBeCloseTo(0);
+    expect(getRelativePerformance(21, 10)).toBeCloseTo(10);
+    expect(getRelativePerformance(-10, 0)).toBeCloseTo(-10);
+    expect(getRelativePerformance(null, 5)).toBeNull();
+    expect(getRelativePerformance(5, null)).toBeNull();
+  });
+});
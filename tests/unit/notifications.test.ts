@@ -0,0 +1,67 @@
+import { describe, it, expect } from 'vitest';
+import {
+  NOTIFICATION_CONFIG,
+  buildNotificationDigest,
+  getNotificationDelivery,
+} from '@/lib/constants/notifications';
+import { MarkNotificationsReadSchema, UpdateNotificationPreferencesSchema } from '@/lib/validations/notifications';
+
+describe('getNotificationDelivery', () => {
+  it('delivers categories instantly unless the user changed them', () => {
+    expect(getNotificationDelivery(null, 'dividend_received')).toBe('instant');
+    expect(getNotificationDelivery({ dividend_received: 'digest' }, 'dividend_received')).toBe('digest');
+    expect(getNotificationDelivery({ dividend_received: 'digest' }, 'vote_needed')).toBe('instant');
+    expect(getNotificationDelivery({ market_entry: 'muted' }, 'market_entry')).toBe('muted');
+  });
+});
+
+describe('buildNotificationDigest', () => {
+  it('returns null when nothing is held', () => {
+    expect(buildNotificationDigest([])).toBeNull();
+  });
+
+  it('groups held notifications by category, latest first', () => {
+    const digest = buildNotificationDigest([
+      { category: 'salary_paid', title: 'Salary from Acme' },
+      { category: 'dividend_received', title: 'Dividend from Acme' },
+      { category: 'dividend_received', title: 'Dividend from Globex' },
+    ]);
+
+    expect(digest?.title).toBe('Digest: 3 notifications');
+    expect(digest?.body).toBe(
+      'Dividends received (2)\n• Dividend from Globex\n• Dividend from Acme\n\nSalary paid (1)\n• Salary from Acme'
+    );
+  });
+
+  it('lists only the latest titles of a busy category', () => {
+    const extra = 3;
+    const held = Array.from({ length: NOTIFICATION_CONFIG.DIGEST_MAX_TITLES + extra }, (_, i) => ({
+      category: 'price_alert' as const,
+      title: `Alert ${i + 1}`,
+    }));
+
+    const lines = buildNotificationDigest(held)!.body.split('\n');
+    expect(lines[0]).toBe(`Price alerts (${held.length})`);
+    expect(lines[1]).toBe(`• Alert ${held.length}`);
+    expect(lines).toHaveLength(NOTIFICATION_CONFIG.DIGEST_MAX_TITLES + 2);
+    expect(lines[lines.length - 1]).toBe(`• and ${extra} more`);
+  });
+});
+
+describe('notification schemas', () => {
+  it('marks all notifications read without ids', () => {
+    expect(MarkNotificationsReadSchema.safeParse({}).success).toBe(true);
+    expect(MarkNotificationsReadSchema.safeParse({ ids: [1, 2] }).success).toBe(true);
+    expect(MarkNotificationsReadSchema.safeParse({ ids: [] }).success).toBe(false);
+    expect(MarkNotificationsReadSchema.safeParse({ ids: [0] }).success).toBe(false);
+  });
+
+  it('accepts known categories and deliveries only', () => {
+    expect(UpdateNotificationPreferencesSchema.safeParse({
+      preferences: { dividend_received: 'digest', market_entry: 'muted' },
+    }).success).toBe(true);
+    expect(UpdateNotificationPreferencesSchema.safeParse({ preferences: {} }).success).toBe(true);
+    expect(UpdateNotificationPreferencesSchema.safeParse({ preferences: { unknown: 'muted' } }).success).toBe(false);
+    expect(UpdateNotificationPreferencesSchema.safeParse({ preferences: { vote_needed: 'weekly' } }).success).toBe(false);
+  });
+});
@@ -0,0 +1,154 @@
+import { describe, it, expect } from 'vitest';
+import {
+  NO_RESEARCH,
+  getResearchModifier,
+  getResearchStatus,
+  getSectorResearchTree,
+  findResearchProject,
+} from '@/lib/constants/research';
+import { CycleEntry, simulateProductionCycle } from '@/lib/constants/inventory';
+import { computeFinancialStatements } from '@/lib/finance';
+import { BusinessUnitCalculator } from '@/lib/services/BusinessUnitCalculator';
+import { PRODUCTION_OUTPUT_RATE } from '@/lib/constants/sectors';
+
+const hoursFromNow = (hours: number) => new Date(Date.now() + hours * 60 * 60 * 1000);
+
+describe('research tree', () => {
+  it('adds a product unlock only for sectors that have one', () => {
+    expect(findResearchProject('Heavy Industry', 'product_development')?.effects).toEqual([
+      { type: 'product_unlock', value: 0.2, unit_types: ['production'], product: 'Manufactured Goods' },
+    ]);
+    expect(findResearchProject('Finance', 'product_development')).toBeNull();
+    expect(getSectorResearchTree('Finance').map(project => project.key)).toEqual([
+      'process_engineering', 'workforce_training', 'material_efficiency', 'automation',
+    ]);
+  });
+
+  it('unlocks projects once their prerequisites are completed', () => {
+    const automation = findResearchProject('Mining', 'automation')!;
+    const started = [
+      { project_key: 'process_engineering', completes_at: hoursFromNow(-1) },
+      { project_key: 'workforce_training', completes_at: hoursFromNow(2) },
+    ];
+
+    expect(getResearchStatus(findResearchProject('Mining', 'process_engineering')!, started)).toBe('completed');
+    expect(getResearchStatus(findResearchProject('Mining', 'workforce_training')!, started)).toBe('in_progress');
+    expect(getResearchStatus(findResearchProject('Mining', 'material_efficiency')!, started)).toBe('available');
+    expect(getResearchStatus(automation, started)).toBe('locked');
+    expect(getResearchStatus(automation, started, hoursFromNow(3))).toBe('available');
+  });
+
+  it('adds up the effects of completed projects on each unit type', () => {
+    const completed = ['process_engineering', 'workforce_training', 'automation', 'material_efficiency', 'product_development'];
+
+    expect(getResearchModifier(completed, 'Heavy Industry', 'production')).toEqual({
+      outputMultiplier: 1.25,
+      laborMultiplier: 0.8,
+      inputMultiplier: 0.9,
+      unlockedOutputs: { 'Manufactured Goods': 0.2 },
+    });
+    expect(getResearchModifier(completed, 'Heavy Industry', 'retail')).toEqual({
+      ...NO_RESEARCH,
+      laborMultiplier: 0.8,
+    });
+    expect(getResearchModifier([], 'Heavy Industry', 'production')).toEqual(NO_RESEARCH);
+  });
+});
+
+describe('research in the production cycle', () => {
+  const prices = {
+    commodityPrices: { Lumber: 10, 'Iron Ore': 20, Coal: 15 },
+    productPrices: { Electricity: 20, Steel: 150, 'Manufactured Goods': 100 },
+  };
+
+  const entry = (sector: string, units: Partial<CycleEntry['units']>): CycleEntry => ({
+    corporation_id: 1,
+    state_code: 'CA',
+    sector_type: sector,
+    units: { retail: 0, production: 0, service: 0, extraction: 0, ...units },
+  });
+
+  const runForestry = (completed: string[]) => simulateProductionCycle({
+    entries: [entry('Forestry', { extraction: 1 })],
+    inventories: [{ corporation_id: 1, state_code: 'CA', item: 'Electricity', quantity: 1, value: 20 }],
+    stockpiles: {},
+    prices,
+    getResearch: (_corporationId, sector, unitType) => getResearchModifier(completed, sector, unitType),
+  });
+
+  it('raises output and cuts labor', () => {
+    const base = runForestry([]);
+    const researched = runForestry(['process_engineering', 'workforce_training']);
+
+    expect(researched.stockpileChanges.Lumber).toBeCloseTo(base.stockpileChanges.Lumber * 1.1, 4);
+    expect(researched.corporations[0].labor_cost).toBeCloseTo(base.corporations[0].labor_cost * 0.9, 6);
+  });
+
+  it('makes unlocked products alongside the unit output', () => {
+    const outcome = simulateProductionCycle({
+      entries: [entry('Heavy Industry', { production: 2 })],
+      inventories: [],
+      stockpiles: { 'Iron Ore': 100, Coal: 100, Electricity: 100 },
+      prices,
+      getResearch: (_corporationId, _sector, unitType) => unitType === 'production'
+        ? { ...NO_RESEARCH, unlockedOutputs: { 'Manufactured Goods': 0.2 } }
+        : NO_RESEARCH,
+    });
+
+    const operated = outcome.corporations[0].unit_hours.production.operated;
+    expect(operated).toBeGreaterThan(0);
+    expect(outcome.stockpileChanges['Manufactured Goods']).toBeCloseTo(0.2 * operated, 4);
+  });
+});
+
+describe('research in the financial statements', () => {
+  const flow = { inputs: { resources: {}, products: {} }, outputs: { resources: {}, products: {} } };
+  const params = {
+    entries: [{ sector_type: 'Forestry', extraction_count: 1 }],
+    sectorUnitFlows: {
+      Forestry: {
+        retail: flow,
+        production: flow,
+        service: flow,
+        extraction: { inputs: { resources: {}, products: {} }, outputs: { resources: { Lumber: 2 }, products: {} } },
+      },
+    },
+    commodityPrices: { Lumber: { currentPrice: 10 } },
+    productPrices: {},
+    unitEconomics: {
+      retail: { baseRevenue: 0, baseCost: 0 },
+      production: { baseRevenue: 0, baseCost: 0 },
+      service: { baseRevenue: 0, baseCost: 0 },
+      extraction: { baseRevenue: 0, baseCost: 100 },
+    },
+    periodHours: 1,
+  };
+
+  it('applies the corporation research of each sector', () => {
+    const modifier = getResearchModifier(['process_engineering', 'workforce_training'], 'Forestry', 'extraction');
+    const result = computeFinancialStatements({ ...params, research: { Forestry: { extraction: modifier } } });
+
+    expect(result.sectors[0].unitBreakdown.extraction.revenue).toBeCloseTo(22, 6);
+    expect(result.sectors[0].unitBreakdown.extraction.cost).toBeCloseTo(90, 6);
+    expect(computeFinancialStatements(params).sectors[0].unitBreakdown.extraction.revenue).toBe(20);
+  });
+});
+
+describe('research in BusinessUnitCalculator', () => {
+  const calculator = new BusinessUnitCalculator();
+  const research = {
+    ...NO_RESEARCH,
+    outputMultiplier: 1.1,
+    inputMultiplier: 0.9,
+    unlockedOutputs: { 'Manufactured Goods': 0.2 },
+  };
+
+  it('scales supply and demand and adds unlocked products', () => {
+    expect(calculator.computeProductSupplyByUnitType('production', 'Heavy Industry', 'Steel', 10, research))
+      .toBeCloseTo(10 * PRODUCTION_OUTPUT_RATE * 1.1, 6);
+    expect(calculator.computeProductSupplyByUnitType('production', 'Heavy Industry', 'Manufactured Goods', 10, research))
+      .toBeCloseTo(2, 6);
+    expect(calculator.computeTotalCommodityDemand('Heavy Industry', 'Coal', { production: 10, retail: 0, service: 0, extraction: 0 }, { production: research }))
+      .toBeCloseTo(calculator.computeTotalCommodityDemand('Heavy Industry', 'Coal', { production: 10, retail: 0, service: 0, extraction: 0 }) * 0.9, 6);
+  });
+});
@@ -0,0 +1,54 @@
+import { describe, it, expect } from 'vitest';
+import {
+  RESERVE_CONFIG,
+  calculateReserveYield,
+  getOriginalReserve,
+  getReserveCapacity,
+  rollExploration,
+} from '@/lib/constants/reserves';
+
+// Returns the given draws in order, as Math.random would
+const draws = (...values: number[]) => () => values.shift() ?? 0;
+
+describe('Reserve size', () => {
+  it('seeds a state from its static resource pool', () => {
+    expect(getOriginalReserve('CA', 'Lumber')).toBe(1500 * RESERVE_CONFIG.UNITS_PER_POOL_POINT);
+  });
+
+  it('counts discoveries toward capacity', () => {
+    expect(getReserveCapacity({ original_amount: 1000, discovered: 250 })).toBe(1250);
+  });
+});
+
+describe('Reserve yield', () => {
+  it('stays full until the reserve falls below the full-yield share', () => {
+    expect(calculateReserveYield(1000, 1000)).toBe(1);
+    expect(calculateReserveYield(500, 1000)).toBe(1);
+  });
+
+  it('falls in proportion towards the minimum as the reserve runs down', () => {
+    expect(calculateReserveYield(250, 1000)).toBeCloseTo(RESERVE_CONFIG.MIN_YIELD + (1 - RESERVE_CONFIG.MIN_YIELD) / 2, 6);
+    expect(calculateReserveYield(1, 1000)).toBeGreaterThan(RESERVE_CONFIG.MIN_YIELD);
+  });
+
+  it('yields nothing once the reserve is exhausted', () => {
+    expect(calculateReserveYield(0, 1000)).toBe(0);
+    expect(calculateReserveYield(100, 0)).toBe(0);
+  });
+});
+
+describe('Exploration', () => {
+  it('finds a share of the original reserve on success', () => {
+    expect(rollExploration(10000, draws(0, 0))).toBe(10000 * RESERVE_CONFIG.DISCOVERY_MIN_SHARE);
+    expect(rollExploration(10000, draws(0, 1))).toBe(10000 * RESERVE_CONFIG.DISCOVERY_MAX_SHARE);
+  });
+
+  it('comes up dry when the first draw misses', () => {
+    expect(rollExploration(10000, draws(RESERVE_CONFIG.SUCCESS_CHANCE))).toBe(0);
+  });
+
+  it('rarely finds deposits where a state has none, sized from the frontier reserve', () => {
+    expect(rollExploration(0, draws(RESERVE_CONFIG.FRONTIER_SUCCESS_CHANCE))).toBe(0);
+    expect(rollExploration(0, draws(0, 0))).toBe(RESERVE_CONFIG.FRONTIER_RESERVE * RESERVE_CONFIG.DISCOVERY_MIN_SHARE);
+  });
+});
@@ -0,0 +1,61 @@
+import { describe, it, expect } from 'vitest';
+import {
+  describePriceAlert,
+  getPriceChangePercent,
+  getWatchTargetKey,
+  isAlertConditionMet,
+} from '@/lib/constants/watchlists';
+import { AddWatchlistItemSchema, CreatePriceAlertSchema } from '@/lib/validations/watchlists';
+
+describe('watch targets', () => {
+  it('keys corporations by id and items by type and name', () => {
+    expect(getWatchTargetKey({ target_type: 'corporation', corporation_id: 4, item: null })).toBe('corporation:4');
+    expect(getWatchTargetKey({ target_type: 'resource', corporation_id: null, item: 'Oil' })).toBe('resource:Oil');
+  });
+
+  it('measures the change since the day before', () => {
+    expect(getPriceChangePercent({ price: 110, previous: 100 })).toBeCloseTo(10);
+    expect(getPriceChangePercent({ price: 90, previous: 100 })).toBeCloseTo(-10);
+    expect(getPriceChangePercent({ price: 90, previous: null })).toBeNull();
+    expect(getPriceChangePercent({ price: 90, previous: 0 })).toBeNull();
+  });
+});
+
+describe('isAlertConditionMet', () => {
+  it('compares the price against above and below thresholds', () => {
+    expect(isAlertConditionMet('above', 50, { price: 50, previous: null })).toBe(true);
+    expect(isAlertConditionMet('above', 50, { price: 49.99, previous: null })).toBe(false);
+    expect(isAlertConditionMet('below', 50, { price: 48, previous: null })).toBe(true);
+    expect(isAlertConditionMet('below', 50, { price: 51, previous: null })).toBe(false);
+  });
+
+  it('fires daily moves in either direction, and never without a day of history', () => {
+    expect(isAlertConditionMet('daily_move', 5, { price: 106, previous: 100 })).toBe(true);
+    expect(isAlertConditionMet('daily_move', 5, { price: 94, previous: 100 })).toBe(true);
+    expect(isAlertConditionMet('daily_move', 5, { price: 103, previous: 100 })).toBe(false);
+    expect(isAlertConditionMet('daily_move', 5, { price: 200, previous: null })).toBe(false);
+  });
+
+  it('describes alerts for notifications', () => {
+    expect(describePriceAlert('above', 25)).toBe('rises to $25.00 or more');
+    expect(describePriceAlert('daily_move', 5)).toBe('moves 5% or more in a day');
+  });
+});
+
+describe('watchlist schemas', () => {
+  it('watches either a corporation or an item', () => {
+    expect(AddWatchlistItemSchema.safeParse({ corporationId: 3 }).success).toBe(true);
+    expect(AddWatchlistItemSchema.safeParse({ item: 'Oil' }).success).toBe(true);
+    expect(AddWatchlistItemSchema.safeParse({}).success).toBe(false);
+    expect(AddWatchlistItemSchema.safeParse({ corporationId: 3, item: 'Oil' }).success).toBe(false);
+  });
+
+  it('validates alert thresholds by condition', () => {
+    const base = { watchlistItemId: 1 };
+    expect(CreatePriceAlertSchema.safeParse({ ...base, condition: 'above', threshold: 2500 }).success).toBe(true);
+    expect(CreatePriceAlertSchema.safeParse({ ...base, condition: 'daily_move', threshold: 10 }).success).toBe(true);
+    expect(CreatePriceAlertSchema.safeParse({ ...base, condition: 'daily_move', threshold: 2500 }).success).toBe(false);
+    expect(CreatePriceAlertSchema.safeParse({ ...base, condition: 'below', threshold: 0 }).success).toBe(false);
+    expect(CreatePriceAlertSchema.safeParse({ ...base, condition: 'sideways', threshold: 5 }).success).toBe(false);
+  });
+});